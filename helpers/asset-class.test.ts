@@ -10,6 +10,8 @@ import {
   getAllAssetClasses,
   isCustomAssetClass,
   formatTeilfreistellungsquote,
+  isInvestmentFund,
+  getStockGainsRatioForAssetClass,
 } from './asset-class'
 
 describe('asset-class', () => {
@@ -196,6 +198,34 @@ describe('asset-class', () => {
     })
   })
 
+  describe('isInvestmentFund', () => {
+    it('should treat funds as investment funds subject to the Vorabpauschale', () => {
+      expect(isInvestmentFund('equity-fund')).toBe(true)
+      expect(isInvestmentFund('mixed-fund')).toBe(true)
+      expect(isInvestmentFund('bond-fund')).toBe(true)
+      expect(isInvestmentFund('real-estate-fund')).toBe(true)
+    })
+
+    it('should not treat REITs, ETCs and cryptocurrencies as investment funds', () => {
+      expect(isInvestmentFund('reit')).toBe(false)
+      expect(isInvestmentFund('commodity')).toBe(false)
+      expect(isInvestmentFund('cryptocurrency')).toBe(false)
+    })
+  })
+
+  describe('getStockGainsRatioForAssetClass', () => {
+    it('should use the stock gains ratio for equity funds and half of it for mixed funds', () => {
+      expect(getStockGainsRatioForAssetClass('equity-fund', 0.7)).toBe(0.7)
+      expect(getStockGainsRatioForAssetClass('mixed-fund', 0.7)).toBe(0.35)
+    })
+
+    it('should treat REIT gains as stock gains and bond or commodity gains as other gains', () => {
+      expect(getStockGainsRatioForAssetClass('reit', 0.7)).toBe(1)
+      expect(getStockGainsRatioForAssetClass('bond-fund', 0.7)).toBe(0)
+      expect(getStockGainsRatioForAssetClass('commodity', 0.7)).toBe(0)
+    })
+  })
+
   describe('formatTeilfreistellungsquote', () => {
     it('should format 0.3 as "30 %"', () => {
       expect(formatTeilfreistellungsquote(0.3)).toBe('30 %')
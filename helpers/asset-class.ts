@@ -91,6 +91,54 @@ export function getTeilfreistellungsquoteForAssetClass(
   return DEFAULT_TEILFREISTELLUNGSQUOTEN[assetClass]
 }
 
+/**
+ * Asset classes that are no investment funds under the InvStG: REITs are shares, commodity ETCs
+ * are debt securities and cryptocurrencies are no securities at all
+ */
+const NON_FUND_ASSET_CLASSES: AssetClass[] = ['reit', 'commodity', 'cryptocurrency']
+
+/**
+ * Share of the stock gains of an equity fund that each asset class carries into the
+ * Aktienverlustverrechnungstopf (mixed funds hold about half the stocks of an equity fund)
+ */
+const STOCK_GAINS_SHARE_OF_EQUITY_FUND: Record<AssetClass, number> = {
+  'equity-fund': 1,
+  'mixed-fund': 0.5,
+  'bond-fund': 0,
+  'real-estate-fund': 0,
+  'reit': 0,
+  'commodity': 0,
+  'cryptocurrency': 0,
+  'custom': 1,
+} as const
+
+/**
+ * Check if an asset class is an investment fund subject to the Vorabpauschale (§ 18 InvStG)
+ *
+ * @param assetClass - The asset class
+ * @returns true for investment funds, false for REITs, commodity ETCs and cryptocurrencies
+ */
+export function isInvestmentFund(assetClass: AssetClass): boolean {
+  return !NON_FUND_ASSET_CLASSES.includes(assetClass)
+}
+
+/**
+ * Get the share of gains and losses of an asset class that is offset in the Aktienverlustverrechnungstopf
+ *
+ * REITs are shares, so all of their gains are stock gains. Funds carry a part of the stock gains
+ * ratio of an equity fund, all other gains go to the allgemeiner Verlustverrechnungstopf.
+ *
+ * @param assetClass - The asset class
+ * @param equityFundStockGainsRatio - Share of stock gains of an equity fund (0.7 = 70%)
+ * @returns The share of stock gains as a decimal
+ */
+export function getStockGainsRatioForAssetClass(assetClass: AssetClass, equityFundStockGainsRatio: number): number {
+  if (assetClass === 'reit') {
+    return 1
+  }
+  return equityFundStockGainsRatio * STOCK_GAINS_SHARE_OF_EQUITY_FUND[assetClass]
+}
+
 /**
  * Get the display name for an asset class
  *
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest'
+import {
+  calculateAusschuettung,
+  getEndkapitalAfterAusschuettung,
+  reduceVorabpauschaleByAusschuettung,
+  settleAusschuettung,
+} from './ausschuettung'
+
+describe('ausschuettung', () => {
+  const config = { distributionYield: 0.03, withholdingTaxRate: 0.15, reinvest: true }
+
+  describe('calculateAusschuettung', () => {
+    it('should calculate the distribution with Teilfreistellung and Quellensteuer credit', () => {
+      const details = calculateAusschuettung(config, 10000, 10500, 12, 0.26375, 0.3)
+
+      expect(details.ausschuettungAmount).toBeCloseTo(300)
+      expect(details.quellensteuer).toBeCloseTo(45)
+      expect(details.anrechenbareQuellensteuer).toBeCloseTo(45)
+      expect(details.steuerVorFreibetrag).toBeCloseTo(300 * 0.7 * 0.26375 - 45)
+      expect(details.reinvested).toBe(true)
+    })
+
+    it('should prorate the distribution for the months held', () => {
+      expect(calculateAusschuettung(config, 10000, 10500, 6, 0.26375, 0.3).ausschuettungAmount).toBeCloseTo(150)
+    })
+
+    it('should not distribute more than the fund value', () => {
+      expect(calculateAusschuettung(config, 10000, 200, 12, 0.26375, 0.3).ausschuettungAmount).toBe(200)
+    })
+
+    it('should only credit the Quellensteuer up to the German tax', () => {
+      const details = calculateAusschuettung({ ...config, withholdingTaxRate: 0.3 }, 10000, 10500, 12, 0.26375, 0.3)
+
+      expect(details.anrechenbareQuellensteuer).toBeLessThan(details.quellensteuer)
+      expect(details.steuerVorFreibetrag).toBe(0)
+    })
+  })
+
+  describe('getEndkapitalAfterAusschuettung', () => {
+    it('should keep reinvested distributions in the fund except for the Quellensteuer', () => {
+      const details = calculateAusschuettung(config, 10000, 10500, 12, 0.26375, 0.3)
+
+      expect(getEndkapitalAfterAusschuettung(10500, details)).toBeCloseTo(10455)
+      expect(getEndkapitalAfterAusschuettung(10500, { ...details, reinvested: false })).toBeCloseTo(10200)
+    })
+  })
+
+  describe('reduceVorabpauschaleByAusschuettung', () => {
+    it('should reduce the Vorabpauschale by the distribution but not below zero', () => {
+      expect(reduceVorabpauschaleByAusschuettung(500, 300)).toBe(200)
+      expect(reduceVorabpauschaleByAusschuettung(200, 300)).toBe(0)
+    })
+  })
+
+  describe('settleAusschuettung', () => {
+    const details = calculateAusschuettung(config, 10000, 10500, 12, 0.26375, 0.3)
+
+    it('should reinvest the distribution net of Quellensteuer', () => {
+      const settled = settleAusschuettung(details, 10, false)
+
+      expect(settled).toMatchObject({ bezahlteSteuer: 10, auszahlung: 0 })
+      expect(settled.reinvestiert).toBeCloseTo(255)
+    })
+
+    it('should withhold the German tax from a paid out distribution', () => {
+      const settled = settleAusschuettung({ ...details, reinvested: false }, 10, true)
+
+      expect(settled).toMatchObject({ bezahlteSteuer: 10, reinvestiert: 0 })
+      expect(settled.auszahlung).toBeCloseTo(245)
+    })
+  })
+})
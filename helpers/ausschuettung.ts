@@ -0,0 +1,119 @@
+/**
+ * Ausschüttende Fonds (Distributing Funds)
+ *
+ * Distributions are taxed in the year they are received:
+ * - The Teilfreistellung of the fund type applies (§ 20 InvStG)
+ * - Foreign withholding tax (Quellensteuer) is credited up to the German tax (§ 32d Abs. 5 EStG)
+ * - Distributions reduce the Vorabpauschale of the same year (§ 18 Abs. 1 InvStG)
+ * - Reinvested distributions become acquisition costs, paid out distributions are income
+ */
+
+import type { DistributionConfig } from '../src/utils/sparplan-utils'
+import { calculateQuellensteuerconfigCredit } from './quellensteuer'
+
+/**
+ * Distribution of a fund in one year
+ */
+export interface AusschuettungDetails {
+  /** Gross distribution of the year */
+  ausschuettungAmount: number
+  /** Foreign withholding tax deducted at source */
+  quellensteuer: number
+  /** Part of the foreign withholding tax credited against the German tax */
+  anrechenbareQuellensteuer: number
+  /** German tax after Teilfreistellung and credit, before the allowance */
+  steuerVorFreibetrag: number
+  /** Whether the distribution is reinvested into the fund */
+  reinvested: boolean
+  /** German tax paid on the distribution after allowance and loss offset */
+  bezahlteSteuer: number
+  /** Net distribution paid out as income (0 when reinvested) */
+  auszahlung: number
+  /** Net distribution reinvested into the fund (0 when paid out) */
+  reinvestiert: number
+}
+
+/**
+ * Calculate the distribution of a year and its tax before the allowance
+ *
+ * @param config - Distribution settings of the fund
+ * @param startkapital - Fund value at the start of the year
+ * @param endkapital - Fund value at the end of the year before the distribution
+ * @param anteilImJahr - Months the fund was held in the year (12 for a full year)
+ * @param steuerlast - Capital gains tax rate (e.g., 0.26375)
+ * @param teilfreistellungsquote - Teilfreistellung of the fund type
+ * @returns The distribution with the foreign withholding tax and the German tax before the allowance
+ */
+export function calculateAusschuettung(
+  config: DistributionConfig,
+  startkapital: number,
+  endkapital: number,
+  anteilImJahr: number,
+  steuerlast: number,
+  teilfreistellungsquote: number,
+): AusschuettungDetails {
+  const ausschuettungAmount = Math.max(
+    0,
+    Math.min(startkapital * config.distributionYield * (anteilImJahr / 12), endkapital),
+  )
+  const credit = calculateQuellensteuerconfigCredit(
+    ausschuettungAmount,
+    config.withholdingTaxRate,
+    steuerlast,
+    teilfreistellungsquote,
+  )
+
+  return {
+    ausschuettungAmount,
+    quellensteuer: credit.foreignWithholdingTaxPaid,
+    anrechenbareQuellensteuer: credit.creditableAmount,
+    steuerVorFreibetrag: credit.remainingGermanTax,
+    reinvested: config.reinvest,
+    bezahlteSteuer: 0,
+    auszahlung: 0,
+    reinvestiert: 0,
+  }
+}
+
+/**
+ * Fund value after the distribution: paid out distributions leave the fund, reinvested
+ * distributions stay in it except for the foreign withholding tax
+ */
+export function getEndkapitalAfterAusschuettung(endkapital: number, details: AusschuettungDetails): number {
+  return endkapital - (details.reinvested ? details.quellensteuer : details.ausschuettungAmount)
+}
+
+/**
+ * Reduce the Vorabpauschale by the distributions of the same year (§ 18 Abs. 1 InvStG)
+ *
+ * @param vorabpauschale - Vorabpauschale without distributions (min of Basisertrag and gain incl. distributions)
+ * @param ausschuettung - Gross distribution of the year
+ * @returns The Vorabpauschale after the distributions, never negative
+ */
+export function reduceVorabpauschaleByAusschuettung(vorabpauschale: number, ausschuettung: number): number {
+  return Math.max(0, vorabpauschale - ausschuettung)
+}
+
+/**
+ * Settle the distribution with the German tax actually paid on it. The tax is withheld from the
+ * distribution when it is settled from the depot; otherwise it is paid from outside.
+ *
+ * @param details - Distribution of the year
+ * @param bezahlteSteuer - German tax paid on the distribution after allowance and loss offset
+ * @param taxFromDistribution - Whether the tax is withheld from the distribution
+ * @returns The distribution with the net amount paid out or reinvested
+ */
+export function settleAusschuettung(
+  details: AusschuettungDetails,
+  bezahlteSteuer: number,
+  taxFromDistribution: boolean,
+): AusschuettungDetails {
+  const netAmount = details.ausschuettungAmount - details.quellensteuer - (taxFromDistribution ? bezahlteSteuer : 0)
+
+  return {
+    ...details,
+    bezahlteSteuer,
+    auszahlung: details.reinvested ? 0 : netAmount,
+    reinvestiert: details.reinvested ? netAmount : 0,
+  }
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest'
+import {
+  calculateBedarfsorientierteEntnahme,
+  createDefaultBedarfsorientierteConfig,
+  getAusgabenbedarfForYear,
+  resolveBedarfsorientierteConfig,
+} from './bedarfsorientierte-entnahme'
+import { berechneJahresAusgaben } from './ausgaben-tracker'
+
+describe('bedarfsorientierte-entnahme', () => {
+  describe('getAusgabenbedarfForYear', () => {
+    it('should take the yearly need from the Ausgaben-Tracker', () => {
+      const config = createDefaultBedarfsorientierteConfig(1960, 2027)
+
+      expect(getAusgabenbedarfForYear(config, 2040)).toBe(
+        berechneJahresAusgaben(2040, 2027, config.ausgabenTracker).gesamt,
+      )
+    })
+
+    it('should inflate the dynamic base spending but not the nominal large expenses', () => {
+      const base = createDefaultBedarfsorientierteConfig(1960, 2027)
+      const config = {
+        ...base,
+        quelle: 'dynamische-ausgaben' as const,
+        dynamicSpending: {
+          ...base.dynamicSpending,
+          baseAnnualSpending: 30000,
+          medicalCostConfig: { ...base.dynamicSpending.medicalCostConfig, enabled: false },
+          largeExpenses: [{ year: 2029, amount: 20000, description: 'Auto', category: 'auto' as const }],
+        },
+      }
+
+      expect(getAusgabenbedarfForYear(config, 2027, 0.02)).toBeCloseTo(30000, 2)
+      expect(getAusgabenbedarfForYear(config, 2029, 0.02)).toBeCloseTo(30000 * 1.02 ** 2 + 20000, 2)
+    })
+  })
+
+  describe('calculateBedarfsorientierteEntnahme', () => {
+    it('should gross up the net need by the taxes on the withdrawal', () => {
+      const result = calculateBedarfsorientierteEntnahme({
+        ausgabenbedarf: 36000,
+        nettoEinkommen: 18000,
+        verfuegbaresKapital: 500000,
+        estimateTaxes: brutto => brutto * 0.25,
+      })
+
+      expect(result.nettoBedarf).toBe(18000)
+      expect(result.bruttoEntnahme).toBeCloseTo(24000, 1)
+      expect(result.geschaetzteSteuern).toBeCloseTo(6000, 1)
+    })
+
+    it('should not withdraw when the net income covers the need', () => {
+      const result = calculateBedarfsorientierteEntnahme({
+        ausgabenbedarf: 20000,
+        nettoEinkommen: 25000,
+        verfuegbaresKapital: 500000,
+        estimateTaxes: brutto => brutto * 0.25,
+      })
+
+      expect(result.nettoBedarf).toBe(0)
+      expect(result.bruttoEntnahme).toBe(0)
+      expect(result.geschaetzteSteuern).toBe(0)
+    })
+
+    it('should not withdraw more than the available capital', () => {
+      const result = calculateBedarfsorientierteEntnahme({
+        ausgabenbedarf: 40000,
+        nettoEinkommen: 0,
+        verfuegbaresKapital: 10000,
+        estimateTaxes: brutto => brutto * 0.25,
+      })
+
+      expect(result.bruttoEntnahme).toBe(10000)
+    })
+
+    it('should converge when the taxes take most of every additional euro withdrawn', () => {
+      const result = calculateBedarfsorientierteEntnahme({
+        ausgabenbedarf: 20000,
+        nettoEinkommen: 18000,
+        verfuegbaresKapital: 500000,
+        estimateTaxes: brutto => brutto * 0.9,
+      })
+
+      expect(result.bruttoEntnahme).toBeCloseTo(20000, 1)
+      expect(result.geschaetzteSteuern).toBeCloseTo(18000, 1)
+    })
+  })
+
+  it('should keep a stored configuration and default the birth year from the retirement start', () => {
+    const stored = createDefaultBedarfsorientierteConfig(1955, 2025)
+
+    expect(resolveBedarfsorientierteConfig(stored, 2030)).toBe(stored)
+    expect(resolveBedarfsorientierteConfig(undefined, 2030).ausgabenTracker.geburtsjahr).toBe(1963)
+    expect(resolveBedarfsorientierteConfig(undefined, 2030, 1970).dynamicSpending.birthYear).toBe(1970)
+  })
+})
@@ -0,0 +1,178 @@
+/**
+ * Bedarfsorientierte Entnahme
+ *
+ * Der jährliche Entnahmebetrag ergibt sich aus dem geplanten Ausgabenbedarf
+ * (Ausgaben-Tracker oder dynamische Ausgabenphasen) abzüglich Renten und sonstiger
+ * Nettoeinkünfte. Entnommen wird nur der Bruttobetrag, der nach Steuern den
+ * verbleibenden Bedarf deckt.
+ */
+
+import {
+  berechneJahresAusgaben,
+  createDefaultAusgabenTrackerConfig,
+  type AusgabenTrackerConfig,
+} from './ausgaben-tracker'
+import {
+  calculateDynamicSpendingForYear,
+  getDefaultDynamicSpendingConfig,
+  type DynamicSpendingConfig,
+} from './dynamic-spending'
+
+/**
+ * Ausgabenmodell, aus dem der jährliche Bedarf stammt
+ */
+export type BedarfsQuelle = 'ausgaben-tracker' | 'dynamische-ausgaben'
+
+/**
+ * Konfiguration der bedarfsorientierten Entnahme
+ */
+export interface BedarfsorientierteEntnahmeConfig {
+  /** Ausgabenmodell, aus dem der jährliche Bedarf stammt */
+  quelle: BedarfsQuelle
+  /** Jahr, auf das sich die Beträge beziehen (in der Regel der Beginn des Ruhestands) */
+  basisjahr: number
+  /** Kategorisierte Ausgaben mit Lebensabschnitten */
+  ausgabenTracker: AusgabenTrackerConfig
+  /** Go-Go/Slow-Go/No-Go-Phasen mit Großausgaben und medizinischen Kosten */
+  dynamicSpending: DynamicSpendingConfig
+}
+
+/**
+ * Aufschlüsselung der bedarfsorientierten Entnahme eines Jahres
+ */
+export interface BedarfsorientierteEntnahmeResult {
+  /** Ausgabenbedarf laut Ausgabenmodell */
+  ausgabenbedarf: number
+  /** Renten und sonstige Einkünfte nach Steuern und Kranken-/Pflegeversicherungsbeiträgen */
+  nettoEinkommen: number
+  /** Aus dem Portfolio zu deckender Bedarf nach Steuern */
+  nettoBedarf: number
+  /** Geschätzte Steuern und Kranken-/Pflegeversicherungsbeiträge auf die Entnahme */
+  geschaetzteSteuern: number
+  /** Entnahme vor Steuern */
+  bruttoEntnahme: number
+}
+
+/**
+ * Maximale Anzahl an Iterationen für den Steueraufschlag auf die Entnahme
+ */
+const MAX_GROSS_UP_ITERATIONS = 50
+
+/**
+ * Renteneintrittsalter, mit dem das Geburtsjahr vorbelegt wird, solange keines bekannt ist
+ */
+const DEFAULT_RETIREMENT_AGE = 67
+
+/**
+ * Erstellt eine Standardkonfiguration; die dynamischen Ausgaben starten mit dem
+ * Jahresbedarf des Ausgaben-Trackers im Basisjahr
+ */
+export function createDefaultBedarfsorientierteConfig(
+  geburtsjahr: number,
+  basisjahr: number,
+): BedarfsorientierteEntnahmeConfig {
+  const ausgabenTracker = createDefaultAusgabenTrackerConfig(geburtsjahr)
+  const baseAnnualSpending = berechneJahresAusgaben(basisjahr, basisjahr, ausgabenTracker).gesamt
+
+  return {
+    quelle: 'ausgaben-tracker',
+    basisjahr,
+    ausgabenTracker,
+    dynamicSpending: getDefaultDynamicSpendingConfig(geburtsjahr, baseAnnualSpending),
+  }
+}
+
+/**
+ * Gespeicherte Konfiguration oder Standardkonfiguration mit Basisjahr zu Beginn des Ruhestands
+ */
+export function resolveBedarfsorientierteConfig(
+  config: BedarfsorientierteEntnahmeConfig | undefined,
+  ruhestandsbeginn: number,
+  geburtsjahr?: number,
+): BedarfsorientierteEntnahmeConfig {
+  return (
+    config ??
+    createDefaultBedarfsorientierteConfig(geburtsjahr ?? ruhestandsbeginn - DEFAULT_RETIREMENT_AGE, ruhestandsbeginn)
+  )
+}
+
+/**
+ * Ausgabenbedarf eines Jahres laut gewähltem Ausgabenmodell.
+ * Der Ausgaben-Tracker berücksichtigt die Inflation pro Kategorie; bei den dynamischen Ausgaben
+ * wird der Basisbedarf mit der allgemeinen Inflationsrate fortgeschrieben, während medizinische
+ * Kosten ihrer eigenen Steigerung folgen und Großausgaben bereits nominal geplant sind.
+ */
+export function getAusgabenbedarfForYear(
+  config: BedarfsorientierteEntnahmeConfig,
+  year: number,
+  inflationRate = 0,
+): number {
+  if (config.quelle === 'ausgaben-tracker') {
+    return berechneJahresAusgaben(year, config.basisjahr, config.ausgabenTracker).gesamt
+  }
+
+  const spending = calculateDynamicSpendingForYear(year, config.dynamicSpending, config.basisjahr)
+  const inflationFactor = Math.pow(1 + inflationRate, Math.max(0, year - config.basisjahr))
+  const lifestyleSpending = spending.totalSpending - spending.medicalCosts - spending.largeExpenses
+
+  return lifestyleSpending * inflationFactor + spending.medicalCosts + spending.largeExpenses
+}
+
+/**
+ * Bruttoentnahme eines Iterationsschritts und der damit geschätzte Aufschlag (Nettobedarf + Steuern)
+ */
+type GrossUpStep = { brutto: number; aufgeschlagen: number }
+
+/**
+ * Nächste Bruttoentnahme nach dem Sekantenverfahren für Brutto = Nettobedarf + Steuern(Brutto). Anders als die
+ * einfache Fixpunkt-Iteration konvergiert es auch bei hohen Grenzbelastungen schnell, etwa wenn zur
+ * Einkommensteuer auf die Entnahme noch die Steuer auf private Veräußerungsgewinne hinzukommt.
+ */
+function getNextBruttoEntnahme(previous: GrossUpStep | undefined, current: GrossUpStep, kapital: number): number {
+  const currentGap = current.aufgeschlagen - current.brutto
+  const previousGap = previous ? previous.aufgeschlagen - previous.brutto : currentGap
+  if (!previous || currentGap === previousGap) {
+    return current.aufgeschlagen
+  }
+
+  const next = current.brutto - (currentGap * (current.brutto - previous.brutto)) / (currentGap - previousGap)
+  return Math.min(kapital, Math.max(0, next))
+}
+
+/**
+ * Berechnet die Bruttoentnahme, die nach Abzug der Nettoeinkünfte und der Steuern den
+ * Ausgabenbedarf deckt. Die Steuern auf die Entnahme werden über estimateTaxes geschätzt
+ * und iterativ aufgeschlagen, bis Brutto = Nettobedarf + Steuern(Brutto) gilt.
+ */
+export function calculateBedarfsorientierteEntnahme(params: {
+  ausgabenbedarf: number
+  nettoEinkommen: number
+  verfuegbaresKapital: number
+  estimateTaxes: (bruttoEntnahme: number) => number
+}): BedarfsorientierteEntnahmeResult {
+  const { ausgabenbedarf, nettoEinkommen, verfuegbaresKapital, estimateTaxes } = params
+  const nettoBedarf = Math.max(0, ausgabenbedarf - nettoEinkommen)
+  const kapital = Math.max(0, verfuegbaresKapital)
+
+  let bruttoEntnahme = Math.min(nettoBedarf, kapital)
+  let previous: GrossUpStep | undefined
+  for (let i = 0; i < MAX_GROSS_UP_ITERATIONS && bruttoEntnahme > 0; i++) {
+    const current = {
+      brutto: bruttoEntnahme,
+      aufgeschlagen: Math.min(kapital, nettoBedarf + estimateTaxes(bruttoEntnahme)),
+    }
+    const next = getNextBruttoEntnahme(previous, current, kapital)
+    const converged = Math.abs(next - bruttoEntnahme) < 0.01
+    previous = current
+    bruttoEntnahme = next
+    if (converged) break
+  }
+
+  return {
+    ausgabenbedarf,
+    nettoEinkommen,
+    nettoBedarf,
+    geschaetzteSteuern: bruttoEntnahme > 0 ? estimateTaxes(bruttoEntnahme) : 0,
+    bruttoEntnahme,
+  }
+}
@@ -149,6 +149,24 @@ describe('betriebsrente', () => {
   })
 
   describe('calculateBetriebsrentePensionTaxation', () => {
+    it('should keep the Versorgungsfreibetrag of the start year for a Direktzusage', () => {
+      // Versorgungsbeginn 2040: 14% - 17 * 0.4% = 7.2%, max 540 €, Zuschlag 162 €
+      const firstYear = calculateBetriebsrentePensionTaxation(500, 2040, 2040, 0.02, 0.25, true, true, 'direktzusage')
+      const laterYear = calculateBetriebsrentePensionTaxation(500, 2050, 2040, 0.02, 0.25, true, true, 'direktzusage')
+
+      expect(firstYear.versorgungsfreibetrag).toBeCloseTo(432 + 162, 6) // 6000 * 7.2% = 432
+      expect(firstYear.taxableAmount).toBeCloseTo(6000 - 594, 6)
+      expect(laterYear.versorgungsfreibetrag).toBeCloseTo(594, 6)
+      expect(laterYear.taxableAmount).toBeCloseTo(laterYear.grossAnnualPension - 594, 6)
+    })
+
+    it('should tax a Direktversicherung in full', () => {
+      const result = calculateBetriebsrentePensionTaxation(500, 2040, 2040, 0.02, 0.25, true, true, 'direktversicherung')
+
+      expect(result.versorgungsfreibetrag).toBe(0)
+      expect(result.taxableAmount).toBe(6000)
+    })
+
     it('should calculate correct taxation for first year of pension', () => {
       const result = calculateBetriebsrentePensionTaxation(
         2000, // monthly pension
@@ -5,6 +5,8 @@
  * during the contribution phase and deferred taxation during the payout phase.
  */
 
+import { calculateVersorgungsfreibetrag } from './rentenbesteuerung'
+
 /**
  * Configuration for Betriebsrente (bAV)
  */
@@ -95,12 +97,15 @@ export interface BetriebsrentePensionTaxationResult {
   /** Gross monthly pension amount */
   grossMonthlyPension: number
 
-  /** Full taxation (100% of bAV pension is taxable) */
+  /** Taxable share of the pension in percent (100% unless a Versorgungsfreibetrag applies) */
   taxablePercentage: number
 
-  /** Taxable amount (equals gross pension for bAV) */
+  /** Taxable amount (gross pension minus Versorgungsfreibetrag) */
   taxableAmount: number
 
+  /** Versorgungsfreibetrag including Zuschlag (§ 19 Abs. 2 EStG, only Direktzusage and Unterstützungskasse) */
+  versorgungsfreibetrag: number
+
   /** Income tax on pension */
   incomeTax: number
 
@@ -234,6 +239,14 @@ export function calculateBetriebsrenteTaxBenefit(
   }
 }
 
+/**
+ * Direktzusage and Unterstützungskasse pay Versorgungsbezüge (§ 19 EStG), the external implementation types
+ * pay fully taxable Leistungen (§ 22 Nr. 5 EStG)
+ */
+function isVersorgungsbezug(implementationType: BetriebsrenteConfig['implementationType']): boolean {
+  return implementationType === 'direktzusage' || implementationType === 'unterstuetzungskasse'
+}
+
 /**
  * Calculate Betriebsrente pension taxation during payout phase
  * 
@@ -242,11 +255,14 @@ export function calculateBetriebsrenteTaxBenefit(
  * @param pensionIncreaseRate - Annual pension increase rate (default: 0.01 for 1%)
  * @param personalTaxRate - Personal income tax rate (0-1)
  * @param inStatutoryHealthInsurance - Whether in statutory health insurance (affects contribution rate)
+ * @param implementationType - Type of bAV implementation (determines the Versorgungsfreibetrag)
  * @returns Pension taxation result for the year
  * 
  * @remarks
  * Taxation during payout:
  * - 100% of bAV pension is subject to income tax (nachgelagerte Besteuerung)
+ * - Direktzusage and Unterstützungskasse pay Versorgungsbezüge (§ 19 EStG): the Versorgungsfreibetrag of the
+ *   pension start year is fixed in EUR with the first year's pension and stays tax-free for the whole payout
  * - Full social security contributions apply:
  *   - Health insurance: ~7.3% (statutory) or 0% (private)
  *   - Care insurance: ~3.05% (without children) or ~4.0% (with children, childless surcharge)
@@ -259,7 +275,8 @@ export function calculateBetriebsrentePensionTaxation(
   pensionIncreaseRate: number,
   personalTaxRate: number,
   inStatutoryHealthInsurance = true,
-  hasChildren = true
+  hasChildren = true,
+  implementationType: BetriebsrenteConfig['implementationType'] = 'direktversicherung'
 ): BetriebsrentePensionTaxationResult {
   // Calculate adjusted pension amount based on years since start
   const yearsSinceStart = Math.max(0, year - pensionStartYear)
@@ -269,9 +286,12 @@ export function calculateBetriebsrentePensionTaxation(
   const grossAnnualPension = adjustedMonthlyPension * 12
   const grossMonthlyPension = adjustedMonthlyPension
 
-  // 100% of bAV pension is taxable
-  const taxablePercentage = 100
-  const taxableAmount = grossAnnualPension
+  // 100% of bAV pension is taxable, Versorgungsbezüge keep the Versorgungsfreibetrag of the start year
+  const versorgungsfreibetrag = isVersorgungsbezug(implementationType)
+    ? calculateVersorgungsfreibetrag(pensionStartYear, monthlyPension * 12)
+    : 0
+  const taxableAmount = Math.max(0, grossAnnualPension - versorgungsfreibetrag)
+  const taxablePercentage = grossAnnualPension > 0 ? (taxableAmount / grossAnnualPension) * 100 : 100
 
   // Calculate income tax (simplified - assumes this is the only income or marginal rate)
   const incomeTax = taxableAmount * personalTaxRate
@@ -299,6 +319,7 @@ export function calculateBetriebsrentePensionTaxation(
     grossMonthlyPension,
     taxablePercentage,
     taxableAmount,
+    versorgungsfreibetrag,
     incomeTax,
     healthInsuranceContribution,
     careInsuranceContribution,
@@ -377,7 +398,8 @@ function calculatePayoutPhaseTotals(
       config.pensionIncreaseRate,
       pensionTaxRate,
       inStatutoryHealthInsurance,
-      hasChildren
+      hasChildren,
+      config.implementationType
     )
     totalGrossPension += taxation.grossAnnualPension
     totalNetPension += taxation.netAnnualPension
@@ -460,3 +482,21 @@ export function calculateBetriebsrenteLifetimeBenefit(
     roi,
   }
 }
+
+/**
+ * Create a disabled default Betriebsrente configuration for a pension starting in the given year
+ */
+export function createDefaultBetriebsrenteConfig(
+  pensionStartYear: number,
+  expectedMonthlyPension: number
+): BetriebsrenteConfig {
+  return {
+    enabled: false,
+    annualEmployeeContribution: 3000,
+    annualEmployerContribution: 600,
+    pensionStartYear,
+    expectedMonthlyPension,
+    pensionIncreaseRate: 0.01,
+    implementationType: 'direktversicherung',
+  }
+}
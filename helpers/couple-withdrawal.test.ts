@@ -0,0 +1,181 @@
+import { describe, it, expect } from 'vitest'
+import {
+  calculateSurvivorInheritance,
+  calculateSurvivorPensionData,
+  calculateWitwenrenteForYear,
+  createDefaultCoupleWithdrawalConfig,
+  determineSurvivorPhase,
+  getCoupleBirthYears,
+  getCoupleWithdrawalEndYear,
+  getDepotOwnerShare,
+  isJointAssessmentYear,
+  type CoupleBirthYears,
+  type CoupleWithdrawalConfig,
+  type WitwenrenteParams,
+} from './couple-withdrawal'
+import type { CoupleStatutoryPensionConfig, IndividualStatutoryPensionConfig } from './statutory-pension'
+
+describe('couple-withdrawal', () => {
+  const config: CoupleWithdrawalConfig = {
+    ...createDefaultCoupleWithdrawalConfig(),
+    enabled: true,
+    person1: { lifeExpectancy: 85 },
+    person2: { lifeExpectancy: 88 },
+    depotOwners: { 'depot-1': 1, 'depot-2': 2 },
+  }
+  const birthYears: CoupleBirthYears = { person1: 1960, person2: 1963 }
+  const deceasedPension: IndividualStatutoryPensionConfig = {
+    enabled: true,
+    startYear: 2025,
+    monthlyAmount: 2000,
+    annualIncreaseRate: 0,
+    taxablePercentage: 83,
+    personId: 1,
+  }
+  const survivorPension: IndividualStatutoryPensionConfig = {
+    ...deceasedPension,
+    startYear: 2030,
+    monthlyAmount: 800,
+    personId: 2,
+  }
+  const witwenrenteParams: WitwenrenteParams = {
+    deceasedPension,
+    survivorPension,
+    deathYear: 2045,
+    witwenrenteRate: 55,
+  }
+
+  describe('determineSurvivorPhase', () => {
+    it('should start the survivor phase after the death of the first partner', () => {
+      expect(determineSurvivorPhase(config, birthYears)).toEqual({
+        deceased: 1,
+        survivor: 2,
+        deathYear: 2045,
+        survivorDeathYear: 2051,
+        witwenrenteRate: 55,
+      })
+      expect(getCoupleWithdrawalEndYear(config, birthYears)).toBe(2051)
+    })
+
+    it('should take the birth years of both partners from the profile', () => {
+      expect(getCoupleBirthYears(1960, 1963)).toEqual(birthYears)
+      expect(getCoupleBirthYears(1960, undefined)).toBeUndefined()
+    })
+
+    it('should apply 60% under the old law', () => {
+      expect(determineSurvivorPhase({ ...config, marriedBefore2002: true }, birthYears)?.witwenrenteRate).toBe(60)
+      expect(
+        determineSurvivorPhase({ ...config, marriedBefore2002: true }, { person1: 1962, person2: 1963 })
+          ?.witwenrenteRate,
+      ).toBe(55)
+    })
+
+    it('should not have a survivor phase when both partners die in the same year', () => {
+      expect(determineSurvivorPhase({ ...config, person2: { lifeExpectancy: 82 } }, birthYears)).toBeNull()
+    })
+  })
+
+  describe('isJointAssessmentYear', () => {
+    it('should apply the splitting tariff until the Gnadensplitting year', () => {
+      const phase = determineSurvivorPhase(config, birthYears)
+
+      expect(isJointAssessmentYear(phase, 2045)).toBe(true)
+      expect(isJointAssessmentYear(phase, 2046)).toBe(true)
+      expect(isJointAssessmentYear(phase, 2047)).toBe(false)
+      expect(isJointAssessmentYear(null, 2060)).toBe(true)
+    })
+  })
+
+  describe('calculateWitwenrenteForYear', () => {
+    it('should pay the full pension of the deceased in the Sterbevierteljahr', () => {
+      const result = calculateWitwenrenteForYear(witwenrenteParams, 2046)
+
+      expect(result.sterbevierteljahrAnnual).toBe(6000)
+      expect(result.grossAnnualAmount).toBeCloseTo(1100 * 9 + 6000, 10)
+      expect(result.taxableAmount).toBeCloseTo(result.grossAnnualAmount * 0.83, 10)
+    })
+
+    it('should pay 55% of the pension without offset below the Freibetrag', () => {
+      const result = calculateWitwenrenteForYear(witwenrenteParams, 2047)
+
+      expect(result.incomeOffsetAnnual).toBe(0)
+      expect(result.grossAnnualAmount).toBeCloseTo(1100 * 12, 10)
+      expect(result.taxableAmount).toBeCloseTo(1100 * 12 * 0.83, 10)
+    })
+
+    it('should offset 40% of the own net pension above 26.4 times the Rentenwert', () => {
+      const result = calculateWitwenrenteForYear(
+        { ...witwenrenteParams, survivorPension: { ...survivorPension, monthlyAmount: 2000 } },
+        2047,
+      )
+
+      // 2000 € - 14% = 1720 €, Freibetrag 26.4 × 37.60 € = 992.64 €
+      const offsetMonthly = (1720 - 992.64) * 0.4
+      expect(result.incomeOffsetAnnual).toBeCloseTo(offsetMonthly * 12, 10)
+      expect(result.grossAnnualAmount).toBeCloseTo((1100 - offsetMonthly) * 12, 10)
+    })
+  })
+
+  describe('calculateSurvivorPensionData', () => {
+    it('should replace the pensions of both partners after the year of death', () => {
+      const couplePension: CoupleStatutoryPensionConfig = {
+        enabled: true,
+        planningMode: 'couple',
+        couple: { person1: deceasedPension, person2: survivorPension },
+      }
+      const phase = determineSurvivorPhase(config, birthYears)!
+      const pensionData = {
+        2045: { ...calculateWitwenrenteForYear(witwenrenteParams, 2047), grossAnnualAmount: 33600 },
+      } as unknown as Parameters<typeof calculateSurvivorPensionData>[3]
+
+      const result = calculateSurvivorPensionData(couplePension, undefined, phase, pensionData, 2047)
+
+      expect(result.pensionData[2045].grossAnnualAmount).toBe(33600)
+      expect(result.pensionData[2047].grossAnnualAmount).toBeCloseTo(800 * 12 + 1100 * 12, 10)
+      expect(result.witwenrente[2047].grossAnnualAmount).toBeCloseTo(1100 * 12, 10)
+      expect(result.witwenrente[2045]).toBeUndefined()
+      expect(result.pensionsSplitEqually).toBe(false)
+    })
+
+    it('should split the combined pension equally without individual pensions', () => {
+      const phase = determineSurvivorPhase(config, birthYears)!
+      const combinedPension = { ...deceasedPension, monthlyAmount: 2000 }
+
+      const result = calculateSurvivorPensionData(undefined, combinedPension, phase, {}, 2047)
+
+      // 1,000 € own pension of the survivor and 55% of the 1,000 € pension of the deceased
+      expect(result.pensionsSplitEqually).toBe(true)
+      expect(result.witwenrente[2047].grossAnnualAmount).toBeCloseTo(550 * 12, 10)
+      expect(result.pensionData[2047].grossAnnualAmount).toBeCloseTo(1000 * 12 + 550 * 12, 10)
+    })
+
+    it('should keep the pension data without statutory pensions', () => {
+      const phase = determineSurvivorPhase(config, birthYears)!
+
+      expect(calculateSurvivorPensionData(undefined, undefined, phase, {}, 2050)).toEqual({
+        pensionData: {},
+        witwenrente: {},
+        pensionsSplitEqually: false,
+      })
+    })
+  })
+
+  describe('calculateSurvivorInheritance', () => {
+    it('should inherit the own depots and half of the joint depots', () => {
+      expect(getDepotOwnerShare(config, 'depot-1', 1)).toBe(1)
+      expect(getDepotOwnerShare(config, 'depot-2', 1)).toBe(0)
+      expect(getDepotOwnerShare(config, undefined, 1)).toBe(0.5)
+
+      const result = calculateSurvivorInheritance(config, 1, [
+        { depotId: 'depot-1', currentValue: 700000 },
+        { depotId: 'depot-2', currentValue: 300000 },
+        { currentValue: 200000 },
+      ])
+
+      expect(result.grossAmount).toBe(800000)
+      expect(result.exemption).toBe(500000)
+      // 75,000 € × 7% + 225,000 € × 11%
+      expect(result.tax).toBeCloseTo(30000, 10)
+    })
+  })
+})
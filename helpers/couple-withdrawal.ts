@@ -0,0 +1,410 @@
+/**
+ * Couple withdrawal plan with survivor phase (Hinterbliebenenphase)
+ *
+ * Each partner has an own life expectancy and depots, the birth years are those of the profile (birthYear and
+ * spouse.birthYear). Depots without an owner are joint depots (Gemeinschaftsdepot) owned half by each partner. The
+ * depot owners only determine the inheritance: the withdrawals are taken from all depots as one pooled portfolio,
+ * as from the joint household budget. The withdrawal ends with the death of the survivor. The death of the first
+ * partner (at the end of the year of death) starts the survivor phase:
+ * - Große Witwen-/Witwerrente (§ 46 SGB VI): 55% of the pension of the deceased, 60% under the old law (marriage
+ *   before 2002 and one partner born before 1962). In the Sterbevierteljahr the full pension of the deceased is
+ *   paid for three months without income offset (§ 67 Nr. 5 SGB VI). The kleine Witwenrente of survivors under
+ *   47 is not modeled.
+ * - Einkommensanrechnung (§ 97 SGB VI, §§ 18a-18b SGB IV): 40% of the own pension above a Freibetrag of 26.4 times
+ *   the Rentenwert reduce the Witwenrente. The own pension counts with a flat deduction of 14%, other income is
+ *   not offset.
+ * - The Witwenrente is taxed as Folgerente with the Besteuerungsanteil of the pension of the deceased, or of the
+ *   first survivor year if the deceased did not receive a pension yet (§ 22 Nr. 1 Satz 3 Buchst. a Doppelbuchst.
+ *   aa EStG)
+ * - Without individual pensions of both partners, the combined statutory pension is split equally between them
+ * - Gnadensplitting (§ 32a Abs. 6 Satz 1 Nr. 1 EStG): the splitting tariff applies in the year of death and the
+ *   following year, afterwards the survivor is assessed with the Grundtarif and the individual Sparerpauschbetrag
+ * - After the year of death the survivor is insured alone in the health insurance
+ * - The survivor inherits the depots of the deceased and half of the joint depots. The Erbschaftsteuer with the
+ *   spouse Freibetrag is paid from the inherited depots. The Versorgungsfreibetrag (§ 17 ErbStG) is not modeled.
+ */
+
+import { calculateInheritanceTax } from './inheritance-tax'
+import { getProjectedPensionValue } from './pension-projection'
+import { calculateTaxablePensionAmount, getBesteuerungsanteil } from './rentenbesteuerung'
+import {
+  calculateStatutoryPensionForYear,
+  getStatutoryPensionMonthlyAmount,
+  getStatutoryPensionTaxablePercentage,
+  type CoupleStatutoryPensionConfig,
+  type StatutoryPensionConfig,
+  type StatutoryPensionResult,
+} from './statutory-pension'
+
+/** Witwenrente in percent of the pension of the deceased */
+export const WITWENRENTE_RATE = 55
+
+/** Witwenrente under the old law (Altes Recht) in percent of the pension of the deceased */
+export const WITWENRENTE_RATE_ALTES_RECHT = 60
+
+/** The old law requires one partner born before 2 January 1962 */
+export const WITWENRENTE_ALTES_RECHT_LAST_BIRTH_YEAR = 1961
+
+/** Monthly Freibetrag of the Einkommensanrechnung as multiple of the Rentenwert */
+export const WITWENRENTE_FREIBETRAG_FACTOR = 26.4
+
+/** Share of the own income above the Freibetrag offset against the Witwenrente */
+export const WITWENRENTE_ANRECHNUNG_RATE = 0.4
+
+/** Flat deduction from the own pension in the Einkommensanrechnung (§ 18b Abs. 5 SGB IV) */
+export const PENSION_INCOME_FLAT_DEDUCTION = 0.14
+
+/** Months after the death with the full pension of the deceased (Sterbevierteljahr) */
+export const STERBEVIERTELJAHR_MONTHS = 3
+
+/**
+ * Partner of the couple
+ */
+export type CouplePersonId = 1 | 2
+
+/**
+ * Life expectancy of a partner
+ */
+export interface CoupleWithdrawalPerson {
+  /** Age in the year of death */
+  lifeExpectancy: number
+}
+
+/**
+ * Birth years of both partners, taken from the profile of the simulation
+ */
+export interface CoupleBirthYears {
+  person1: number
+  person2: number
+}
+
+/**
+ * Configuration of the couple withdrawal plan
+ */
+export interface CoupleWithdrawalConfig {
+  /** Whether the death of the first partner starts a survivor phase */
+  enabled: boolean
+  person1: CoupleWithdrawalPerson
+  person2: CoupleWithdrawalPerson
+  /** Owner of each depot by depot id, depots without an owner are joint depots */
+  depotOwners: Record<string, CouplePersonId>
+  /** Marriage before 2002, the old law applies if one partner was born before 1962 */
+  marriedBefore2002: boolean
+}
+
+/**
+ * Survivor phase of the couple
+ */
+export interface SurvivorPhase {
+  deceased: CouplePersonId
+  survivor: CouplePersonId
+  /** Year of death of the first partner, the survivor phase starts in the following year */
+  deathYear: number
+  /** Year of death of the survivor */
+  survivorDeathYear: number
+  /** Witwenrente in percent of the pension of the deceased */
+  witwenrenteRate: number
+}
+
+/**
+ * Witwenrente of a survivor year
+ */
+export interface WitwenrenteYearResult {
+  /** Witwenrente before the Einkommensanrechnung */
+  fullAnnualAmount: number
+  /** Own income offset against the Witwenrente */
+  incomeOffsetAnnual: number
+  /** Full pension of the deceased paid in the Sterbevierteljahr */
+  sterbevierteljahrAnnual: number
+  /** Paid Witwenrente including the Sterbevierteljahr */
+  grossAnnualAmount: number
+  taxableAmount: number
+}
+
+/**
+ * Inheritance of the depots of the deceased by the survivor
+ */
+export interface SurvivorInheritanceResult {
+  deceased: CouplePersonId
+  /** Value of the depots of the deceased and half of the joint depots */
+  grossAmount: number
+  exemption: number
+  taxableAmount: number
+  tax: number
+  netAmount: number
+}
+
+/**
+ * Couple details of a withdrawal year
+ */
+export interface CoupleWithdrawalYearInfo {
+  /** 'couple' until the end of the year of death, 'survivor' afterwards */
+  phase: 'couple' | 'survivor'
+  /** Whether the splitting tariff applies (Zusammenveranlagung or Gnadensplitting) */
+  jointAssessment: boolean
+  witwenrente?: WitwenrenteYearResult
+  /** Inheritance at the end of the year of death */
+  inheritance?: SurvivorInheritanceResult
+  /** The combined pension was split equally, because the pensions of both partners are not configured */
+  pensionsSplitEqually?: boolean
+}
+
+/**
+ * Birth years of both partners, undefined while the birth year of a partner is missing in the profile
+ */
+export function getCoupleBirthYears(
+  birthYear: number | undefined,
+  spouseBirthYear: number | undefined,
+): CoupleBirthYears | undefined {
+  return birthYear && spouseBirthYear ? { person1: birthYear, person2: spouseBirthYear } : undefined
+}
+
+/**
+ * Year of death of a partner
+ */
+export function getCoupleDeathYear(person: CoupleWithdrawalPerson, birthYear: number): number {
+  return birthYear + person.lifeExpectancy
+}
+
+/**
+ * Last year of the withdrawal: the year of death of the survivor
+ */
+export function getCoupleWithdrawalEndYear(config: CoupleWithdrawalConfig, birthYears: CoupleBirthYears): number {
+  return Math.max(
+    getCoupleDeathYear(config.person1, birthYears.person1),
+    getCoupleDeathYear(config.person2, birthYears.person2),
+  )
+}
+
+/**
+ * Witwenrente in percent of the pension of the deceased, 60% under the old law
+ */
+export function getWitwenrenteRate(config: CoupleWithdrawalConfig, birthYears: CoupleBirthYears): number {
+  const oldestBirthYear = Math.min(birthYears.person1, birthYears.person2)
+  return config.marriedBefore2002 && oldestBirthYear <= WITWENRENTE_ALTES_RECHT_LAST_BIRTH_YEAR
+    ? WITWENRENTE_RATE_ALTES_RECHT
+    : WITWENRENTE_RATE
+}
+
+/**
+ * Survivor phase of the couple, null when both partners die in the same year
+ */
+export function determineSurvivorPhase(
+  config: CoupleWithdrawalConfig,
+  birthYears: CoupleBirthYears,
+): SurvivorPhase | null {
+  const deathYear1 = getCoupleDeathYear(config.person1, birthYears.person1)
+  const deathYear2 = getCoupleDeathYear(config.person2, birthYears.person2)
+  if (deathYear1 === deathYear2) {
+    return null
+  }
+
+  const deceased: CouplePersonId = deathYear1 < deathYear2 ? 1 : 2
+  return {
+    deceased,
+    survivor: deceased === 1 ? 2 : 1,
+    deathYear: Math.min(deathYear1, deathYear2),
+    survivorDeathYear: Math.max(deathYear1, deathYear2),
+    witwenrenteRate: getWitwenrenteRate(config, birthYears),
+  }
+}
+
+/**
+ * Whether the splitting tariff applies: while both partners live and in the Gnadensplitting year
+ */
+export function isJointAssessmentYear(phase: SurvivorPhase | null, year: number): boolean {
+  return !phase || year <= phase.deathYear + 1
+}
+
+/**
+ * Parameters of the Witwenrente
+ */
+export interface WitwenrenteParams {
+  deceasedPension: StatutoryPensionConfig
+  survivorPension: StatutoryPensionConfig
+  deathYear: number
+  witwenrenteRate: number
+}
+
+/**
+ * Monthly pension the deceased received or would have received in the year
+ */
+function getDeceasedMonthlyPension(config: StatutoryPensionConfig, year: number): number {
+  if (!config.enabled) {
+    return 0
+  }
+
+  const yearsFromStart = Math.max(0, year - config.startYear)
+  return getStatutoryPensionMonthlyAmount(config) * Math.pow(1 + config.annualIncreaseRate / 100, yearsFromStart)
+}
+
+/**
+ * Monthly Witwenrente before and the offset of the Einkommensanrechnung
+ */
+function calculateWitwenrenteMonthly(params: WitwenrenteParams, year: number): { full: number; offset: number } {
+  const full = (getDeceasedMonthlyPension(params.deceasedPension, year) * params.witwenrenteRate) / 100
+  const ownPensionMonthly = calculateStatutoryPensionForYear(params.survivorPension, year).grossMonthlyAmount
+  const freibetrag =
+    WITWENRENTE_FREIBETRAG_FACTOR * getProjectedPensionValue(year, params.deceasedPension.annualIncreaseRate)
+  const excessIncome = ownPensionMonthly * (1 - PENSION_INCOME_FLAT_DEDUCTION) - freibetrag
+
+  return { full, offset: Math.min(full, Math.max(0, excessIncome) * WITWENRENTE_ANRECHNUNG_RATE) }
+}
+
+/**
+ * Besteuerungsanteil of the Witwenrente
+ */
+function getWitwenrenteBesteuerungsanteil(params: WitwenrenteParams): number {
+  return params.deceasedPension.enabled && params.deceasedPension.startYear <= params.deathYear
+    ? getStatutoryPensionTaxablePercentage(params.deceasedPension)
+    : getBesteuerungsanteil(params.deathYear + 1)
+}
+
+/**
+ * Calculate the Witwenrente of a survivor year
+ */
+export function calculateWitwenrenteForYear(params: WitwenrenteParams, year: number): WitwenrenteYearResult {
+  const firstYear = params.deathYear + 1
+  const isFirstYear = year === firstYear
+  const witwenrenteMonths = isFirstYear ? 12 - STERBEVIERTELJAHR_MONTHS : 12
+  const monthly = calculateWitwenrenteMonthly(params, year)
+  const sterbevierteljahrAnnual = isFirstYear
+    ? getDeceasedMonthlyPension(params.deceasedPension, year) * STERBEVIERTELJAHR_MONTHS
+    : 0
+  const grossAnnualAmount = (monthly.full - monthly.offset) * witwenrenteMonths + sterbevierteljahrAnnual
+  const followingYear = calculateWitwenrenteMonthly(params, firstYear + 1)
+
+  return {
+    fullAnnualAmount: monthly.full * witwenrenteMonths,
+    incomeOffsetAnnual: monthly.offset * witwenrenteMonths,
+    sterbevierteljahrAnnual,
+    grossAnnualAmount,
+    taxableAmount: calculateTaxablePensionAmount({
+      year,
+      rentenbeginn: firstYear,
+      besteuerungsanteil: getWitwenrenteBesteuerungsanteil(params),
+      grossAnnualAmount,
+      grossAnnualAmountFolgejahr: (followingYear.full - followingYear.offset) * 12,
+    }),
+  }
+}
+
+/**
+ * Statutory pensions of both partners. Without individual pensions of both partners, the combined pension is split
+ * equally between them.
+ */
+function getCouplePensions(
+  couplePension: CoupleStatutoryPensionConfig | undefined,
+  combinedPension: StatutoryPensionConfig | undefined,
+): { person1: StatutoryPensionConfig; person2: StatutoryPensionConfig; splitEqually: boolean } | undefined {
+  const couple = couplePension?.enabled ? couplePension.couple : undefined
+  if (couple) {
+    return { ...couple, splitEqually: false }
+  }
+  if (!combinedPension?.enabled) {
+    return undefined
+  }
+
+  const halfPension: StatutoryPensionConfig = {
+    ...combinedPension,
+    monthlyAmount: getStatutoryPensionMonthlyAmount(combinedPension) / 2,
+    taxReturnData: undefined,
+  }
+  return { person1: halfPension, person2: halfPension, splitEqually: true }
+}
+
+/**
+ * Statutory pensions of the survivor phase: after the year of death, the own pension of the survivor and the
+ * Witwenrente replace the pensions of both partners. Without any statutory pension the pension data is returned
+ * unchanged.
+ */
+export function calculateSurvivorPensionData(
+  couplePension: CoupleStatutoryPensionConfig | undefined,
+  combinedPension: StatutoryPensionConfig | undefined,
+  phase: SurvivorPhase,
+  pensionData: StatutoryPensionResult,
+  endYear: number,
+): {
+  pensionData: StatutoryPensionResult
+  witwenrente: Record<number, WitwenrenteYearResult>
+  pensionsSplitEqually: boolean
+} {
+  const couple = getCouplePensions(couplePension, combinedPension)
+  if (!couple) {
+    return { pensionData, witwenrente: {}, pensionsSplitEqually: false }
+  }
+
+  const params: WitwenrenteParams = {
+    deceasedPension: phase.deceased === 1 ? couple.person1 : couple.person2,
+    survivorPension: phase.survivor === 1 ? couple.person1 : couple.person2,
+    deathYear: phase.deathYear,
+    witwenrenteRate: phase.witwenrenteRate,
+  }
+  const survivorPensionData: StatutoryPensionResult = { ...pensionData }
+  const witwenrente: Record<number, WitwenrenteYearResult> = {}
+
+  for (let year = phase.deathYear + 1; year <= endYear; year++) {
+    const own = calculateStatutoryPensionForYear(params.survivorPension, year)
+    const survivorYear = calculateWitwenrenteForYear(params, year)
+    const grossAnnualAmount = own.grossAnnualAmount + survivorYear.grossAnnualAmount
+    const taxableAmount = own.taxableAmount + survivorYear.taxableAmount
+
+    witwenrente[year] = survivorYear
+    survivorPensionData[year] = {
+      ...own,
+      grossAnnualAmount,
+      grossMonthlyAmount: grossAnnualAmount / 12,
+      taxableAmount,
+      rentenfreibetrag: grossAnnualAmount - taxableAmount,
+      incomeTax: 0,
+      netAnnualAmount: grossAnnualAmount,
+    }
+  }
+
+  return { pensionData: survivorPensionData, witwenrente, pensionsSplitEqually: couple.splitEqually }
+}
+
+/**
+ * Share of a depot owned by the partner: own depots fully, joint depots half
+ */
+export function getDepotOwnerShare(
+  config: CoupleWithdrawalConfig,
+  depotId: string | undefined,
+  person: CouplePersonId,
+): number {
+  const owner = depotId ? config.depotOwners[depotId] : undefined
+  if (!owner) {
+    return 0.5
+  }
+  return owner === person ? 1 : 0
+}
+
+/**
+ * Inheritance tax of the survivor on the depots of the deceased (Steuerklasse I with the spouse Freibetrag)
+ */
+export function calculateSurvivorInheritance(
+  config: CoupleWithdrawalConfig,
+  deceased: CouplePersonId,
+  holdings: Array<{ depotId?: string; currentValue: number }>,
+): SurvivorInheritanceResult {
+  const grossAmount = holdings.reduce(
+    (sum, holding) => sum + holding.currentValue * getDepotOwnerShare(config, holding.depotId, deceased),
+    0,
+  )
+  const { exemption, taxableAmount, tax, netAmount } = calculateInheritanceTax(grossAmount, 'spouse')
+
+  return { deceased, grossAmount, exemption, taxableAmount, tax, netAmount }
+}
+
+/**
+ * Default couple withdrawal plan, disabled until the user configures it
+ */
+export function createDefaultCoupleWithdrawalConfig(): CoupleWithdrawalConfig {
+  return {
+    enabled: false,
+    person1: { lifeExpectancy: 85 },
+    person2: { lifeExpectancy: 88 },
+    depotOwners: {},
+    marriedBefore2002: false,
+  }
+}
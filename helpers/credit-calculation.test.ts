@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest'
 import {
+  calculateLoanTermYears,
   calculateMonthlyPayment,
   calculateTotalInterest,
   generateAmortizationSchedule,
@@ -34,6 +35,22 @@ describe('credit-calculation', () => {
     })
   })
 
+  describe('calculateLoanTermYears', () => {
+    it('should return the term of the monthly payment', () => {
+      // €20,000 at 5% for 5 years
+      const monthlyPayment = calculateMonthlyPayment(20000, 0.05, 5)
+      expect(calculateLoanTermYears(20000, 0.05, monthlyPayment)).toBeCloseTo(5, 6)
+    })
+
+    it('should divide the principal by the payments for zero rate loans', () => {
+      expect(calculateLoanTermYears(12000, 0, 500)).toBe(2)
+    })
+
+    it('should return Infinity if the payment only covers the interest', () => {
+      expect(calculateLoanTermYears(120000, 0.05, 500)).toBe(Infinity)
+    })
+  })
+
   describe('calculateTotalInterest', () => {
     it('should calculate total interest for car loan', () => {
       // €20,000 at 5% for 5 years
@@ -21,6 +21,25 @@ export function calculateMonthlyPayment(principal: number, annualInterestRate: n
   return monthlyPayment
 }
 
+/**
+ * Calculate the remaining term in years of a loan repaid with a fixed monthly payment
+ * n = -ln(1 - r * P / PMT) / ln(1 + r)
+ * Returns Infinity if the payment does not exceed the monthly interest
+ */
+export function calculateLoanTermYears(principal: number, annualInterestRate: number, monthlyPayment: number): number {
+  if (annualInterestRate === 0) {
+    return principal / (monthlyPayment * 12)
+  }
+
+  const monthlyRate = annualInterestRate / 12
+  const interestShare = (principal * monthlyRate) / monthlyPayment
+  if (interestShare >= 1) {
+    return Infinity
+  }
+
+  return -Math.log(1 - interestShare) / Math.log(1 + monthlyRate) / 12
+}
+
 /**
  * Calculate total interest paid over the life of a loan
  */
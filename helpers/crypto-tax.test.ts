@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest'
+import {
+  addCryptoSale,
+  calculateCryptoSaleYearResult,
+  calculatePrivateSaleTax,
+  createEmptyCryptoSaleGains,
+  getPrivateSaleFreigrenze,
+  isPrivateSaleAsset,
+  isWithinHoldingPeriod,
+  orderLotsForSale,
+} from './crypto-tax'
+import { calculateProgressiveTax } from './steuer'
+
+describe('crypto-tax', () => {
+  describe('getPrivateSaleFreigrenze', () => {
+    it('should raise the Freigrenze from 600 € to 1,000 € in 2024', () => {
+      expect(getPrivateSaleFreigrenze(2023)).toBe(600)
+      expect(getPrivateSaleFreigrenze(2024)).toBe(1000)
+      expect(getPrivateSaleFreigrenze(2040)).toBe(1000)
+    })
+  })
+
+  describe('isPrivateSaleAsset', () => {
+    it('should only treat cryptocurrencies as private sales', () => {
+      expect(isPrivateSaleAsset('cryptocurrency')).toBe(true)
+      expect(isPrivateSaleAsset('commodity')).toBe(false)
+      expect(isPrivateSaleAsset(undefined)).toBe(false)
+    })
+  })
+
+  describe('isWithinHoldingPeriod', () => {
+    it('should tax sales up to exactly one year after the purchase', () => {
+      const purchaseDate = new Date(2024, 2, 15)
+
+      expect(isWithinHoldingPeriod(purchaseDate, new Date(2024, 11, 31))).toBe(true)
+      expect(isWithinHoldingPeriod(purchaseDate, new Date(2025, 2, 15))).toBe(true)
+      expect(isWithinHoldingPeriod(purchaseDate, new Date(2025, 2, 16))).toBe(false)
+    })
+  })
+
+  describe('orderLotsForSale', () => {
+    it('should keep the FIFO order but sell crypto lots within the holding period last', () => {
+      const lots = [
+        { id: 'old-crypto', start: new Date(2020, 0, 1), fundType: 'cryptocurrency' as const },
+        { id: 'new-crypto', start: new Date(2024, 5, 1), fundType: 'cryptocurrency' as const },
+        { id: 'etf', start: new Date(2024, 6, 1), fundType: 'equity-fund' as const },
+        { id: 'default', start: '2024-08-01' },
+      ]
+
+      expect(orderLotsForSale(lots, new Date(2025, 0, 1)).map(lot => lot.id)).toEqual([
+        'old-crypto',
+        'etf',
+        'default',
+        'new-crypto',
+      ])
+    })
+  })
+
+  describe('addCryptoSale', () => {
+    it('should split the gains by the holding period', () => {
+      const gains = createEmptyCryptoSaleGains()
+
+      addCryptoSale(gains, new Date(2020, 0, 1), new Date(2025, 0, 1), 10000, 6000)
+      addCryptoSale(gains, new Date(2024, 5, 1), new Date(2025, 0, 1), 4000, 1500)
+      addCryptoSale(gains, new Date(2024, 6, 1), new Date(2025, 0, 1), 1000, -300)
+
+      expect(gains).toEqual({
+        steuerfreierGewinn: 6000,
+        privaterVeraeusserungsgewinn: 1200,
+        verkaufInnerhalbHaltefrist: 5000,
+      })
+    })
+  })
+
+  describe('calculatePrivateSaleTax', () => {
+    it('should keep gains below the Freigrenze tax-free', () => {
+      const result = calculatePrivateSaleTax(999.99, 50000, 2025)
+
+      expect(result.unterFreigrenze).toBe(true)
+      expect(result.einkommensteuer).toBe(0)
+    })
+
+    it('should tax the full gain at the Freigrenze, not only the excess', () => {
+      const result = calculatePrivateSaleTax(1000, 50000, 2025)
+      const expectedTax = calculateProgressiveTax(51000).totalTax - calculateProgressiveTax(50000).totalTax
+
+      expect(result.unterFreigrenze).toBe(false)
+      expect(result.steuerpflichtigerGewinn).toBe(1000)
+      expect(result.einkommensteuer).toBeCloseTo(expectedTax)
+      expect(result.einkommensteuer).toBeGreaterThan(300)
+    })
+
+    it('should tax the gain with the personal marginal rate', () => {
+      const lowIncome = calculatePrivateSaleTax(5000, 0, 2025)
+      const highIncome = calculatePrivateSaleTax(5000, 80000, 2025)
+
+      expect(lowIncome.einkommensteuer).toBe(0)
+      expect(highIncome.einkommensteuer).toBeCloseTo(5000 * 0.42, 0)
+    })
+
+    it('should add the Kirchensteuer on the income tax of the gain', () => {
+      const result = calculatePrivateSaleTax(5000, 50000, 2025, undefined, {
+        kirchensteuerAktiv: true,
+        kirchensteuersatz: 8,
+      })
+
+      expect(result.kirchensteuer).toBeCloseTo(result.einkommensteuer * 0.08)
+      expect(result.steuer).toBeCloseTo(result.einkommensteuer + result.kirchensteuer)
+    })
+
+    it('should add the Solidaritätszuschlag only above its Freigrenze', () => {
+      const belowFreigrenze = calculatePrivateSaleTax(5000, 50000, 2025)
+      const fullSoli = calculatePrivateSaleTax(5000, 200000, 2025)
+
+      expect(belowFreigrenze.solidaritaetszuschlag).toBe(0)
+      expect(fullSoli.solidaritaetszuschlag).toBeCloseTo(fullSoli.einkommensteuer * 0.055)
+      expect(fullSoli.steuer).toBeCloseTo(fullSoli.einkommensteuer * 1.055)
+    })
+
+    it('should not tax a loss', () => {
+      expect(calculatePrivateSaleTax(-2000, 50000, 2025)).toMatchObject({
+        steuerpflichtigerGewinn: 0,
+        einkommensteuer: 0,
+      })
+    })
+  })
+
+  describe('calculateCryptoSaleYearResult', () => {
+    it('should return nothing without crypto sales', () => {
+      expect(calculateCryptoSaleYearResult(createEmptyCryptoSaleGains(), 0, 2025)).toBeUndefined()
+    })
+
+    it('should tax only the gains within the holding period', () => {
+      const result = calculateCryptoSaleYearResult(
+        { steuerfreierGewinn: 10000, privaterVeraeusserungsgewinn: 2000, verkaufInnerhalbHaltefrist: 5000 },
+        50000,
+        2025,
+      )
+
+      expect(result?.privateSaleTax.steuerpflichtigerGewinn).toBe(2000)
+      expect(result?.steuerfreierGewinn).toBe(10000)
+    })
+  })
+})
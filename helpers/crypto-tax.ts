@@ -0,0 +1,245 @@
+/**
+ * Kryptowährungen: Private Veräußerungsgeschäfte (§ 23 EStG)
+ *
+ * Cryptocurrencies are no capital assets under § 20 EStG, their sales are private sales:
+ * - Haltefrist: Gains are tax-free when the coins were held for more than one year (§ 23 Abs. 1 Nr. 2 EStG)
+ * - Gains within the holding period are taxed with the personal income tax rate, not the Abgeltungsteuer
+ * - Freigrenze (not Freibetrag): The total gain of all private sales of a year stays tax-free when it is
+ *   below 1,000 € (600 € until 2023). At or above the limit the full gain is taxable (§ 23 Abs. 3 Satz 5 EStG)
+ * - FIFO: The coins bought first are sold first (BMF-Schreiben vom 10.05.2022)
+ * - Losses of private sales only offset gains of private sales, not the capital income loss pots
+ */
+
+import type { AssetClass } from './asset-class'
+import { calculateProgressiveTax, GERMAN_TAX_BRACKETS_2024, type TaxBracket } from './steuer'
+import { calculateSolidaritaetszuschlag, type SoliPlanningMode } from './solidaritaetszuschlag'
+
+/** Holding period after which crypto gains are tax-free */
+export const CRYPTO_HOLDING_PERIOD_YEARS = 1
+
+/**
+ * Freigrenze for the total gain of private sales in a year
+ * (raised from 600 € to 1,000 € by the Wachstumschancengesetz from 2024)
+ */
+export function getPrivateSaleFreigrenze(year: number): number {
+  return year >= 2024 ? 1000 : 600
+}
+
+/**
+ * Whether the asset class is sold under the private sale rules of § 23 EStG
+ */
+export function isPrivateSaleAsset(assetClass: AssetClass | undefined): boolean {
+  return assetClass === 'cryptocurrency'
+}
+
+/**
+ * Whether a sale falls inside the holding period: the period between purchase and sale is not more
+ * than one year
+ *
+ * @param purchaseDate - Purchase date of the coins
+ * @param saleDate - Date of the sale
+ * @returns True when the gain of the sale is taxable
+ */
+export function isWithinHoldingPeriod(purchaseDate: Date | string, saleDate: Date): boolean {
+  const holdingPeriodEnd = new Date(purchaseDate)
+  holdingPeriodEnd.setFullYear(holdingPeriodEnd.getFullYear() + CRYPTO_HOLDING_PERIOD_YEARS)
+  return saleDate.getTime() <= holdingPeriodEnd.getTime()
+}
+
+/**
+ * Order lots for a sale: FIFO, but crypto lots inside the holding period are only sold after all other
+ * lots, so that the coins held for more than one year are sold first
+ *
+ * @param lots - Lots with purchase date and fund type, in FIFO order
+ * @param saleDate - Date of the sale
+ * @returns The lots in the order in which they are sold
+ */
+export function orderLotsForSale<T extends { start: Date | string; fundType?: AssetClass }>(
+  lots: T[],
+  saleDate: Date,
+): T[] {
+  const isTaxableCryptoLot = (lot: T) => isPrivateSaleAsset(lot.fundType) && isWithinHoldingPeriod(lot.start, saleDate)
+  return [...lots.filter(lot => !isTaxableCryptoLot(lot)), ...lots.filter(isTaxableCryptoLot)]
+}
+
+/**
+ * Crypto sales of a year, split by the holding period
+ */
+export interface CryptoSaleGains {
+  /** Gain of coins held for more than one year (tax-free) */
+  steuerfreierGewinn: number
+  /** Gain of coins sold within the holding period (private Veräußerungsgeschäfte) */
+  privaterVeraeusserungsgewinn: number
+  /** Proceeds of coins sold within the holding period */
+  verkaufInnerhalbHaltefrist: number
+}
+
+/**
+ * Empty crypto sales of a year
+ */
+export function createEmptyCryptoSaleGains(): CryptoSaleGains {
+  return { steuerfreierGewinn: 0, privaterVeraeusserungsgewinn: 0, verkaufInnerhalbHaltefrist: 0 }
+}
+
+/**
+ * Add the sale of a crypto lot to the crypto sales of the year
+ *
+ * @param gains - Crypto sales of the year, updated in place
+ * @param purchaseDate - Purchase date of the lot
+ * @param saleDate - Date of the sale
+ * @param amountSold - Proceeds of the sale
+ * @param gain - Gain of the sale (negative for a loss)
+ */
+export function addCryptoSale(
+  gains: CryptoSaleGains,
+  purchaseDate: Date | string,
+  saleDate: Date,
+  amountSold: number,
+  gain: number,
+): void {
+  if (!isWithinHoldingPeriod(purchaseDate, saleDate)) {
+    gains.steuerfreierGewinn += gain
+    return
+  }
+
+  gains.privaterVeraeusserungsgewinn += gain
+  gains.verkaufInnerhalbHaltefrist += amountSold
+}
+
+/**
+ * Income tax on the private sales of a year
+ */
+export interface PrivateSaleTaxResult {
+  /** Total gain of the private sales of the year (negative for a loss) */
+  gewinn: number
+  /** Freigrenze of the year */
+  freigrenze: number
+  /** Whether the gain stays tax-free because it is below the Freigrenze */
+  unterFreigrenze: boolean
+  /** Gain subject to income tax */
+  steuerpflichtigerGewinn: number
+  /** Additional income tax caused by the gain */
+  einkommensteuer: number
+  /** Additional Solidaritätszuschlag caused by the gain */
+  solidaritaetszuschlag: number
+  /** Additional Kirchensteuer caused by the gain */
+  kirchensteuer: number
+  /** Income tax, Solidaritätszuschlag and Kirchensteuer on the gain */
+  steuer: number
+}
+
+/**
+ * Church tax and planning mode of the taxpayer, for the surcharges on the income tax of private sales
+ */
+export interface PrivateSaleSurcharges {
+  kirchensteuerAktiv?: boolean
+  kirchensteuersatz?: number
+  planningMode?: SoliPlanningMode
+}
+
+/**
+ * Additional income tax and Solidaritätszuschlag of a gain on top of the base income; the Soli keeps its
+ * Freigrenze and Gleitzone on the total income tax
+ */
+function calculateAdditionalIncomeTax(
+  baseIncome: number,
+  gain: number,
+  taxBrackets: TaxBracket[],
+  planningMode: SoliPlanningMode,
+): { einkommensteuer: number; solidaritaetszuschlag: number } {
+  const baseTax = calculateProgressiveTax(baseIncome, 0, 0, taxBrackets).totalTax
+  const totalTax = calculateProgressiveTax(baseIncome + gain, 0, 0, taxBrackets).totalTax
+
+  return {
+    einkommensteuer: totalTax - baseTax,
+    solidaritaetszuschlag:
+      calculateSolidaritaetszuschlag(totalTax, planningMode).soli -
+      calculateSolidaritaetszuschlag(baseTax, planningMode).soli,
+  }
+}
+
+/**
+ * Calculate the income tax on the private sales of a year
+ *
+ * The gain is added to the other taxable income of the year; the tax is the difference of the progressive
+ * income tax with and without the gain, so the gain is taxed with the personal marginal rate. The
+ * Solidaritätszuschlag and the Kirchensteuer on this income tax are added.
+ *
+ * @param gewinn - Total gain of the private sales of the year
+ * @param otherTaxableIncome - Other taxable income of the year
+ * @param year - Year of the sales
+ * @param taxBrackets - Tax brackets of the year (defaults to German 2024 brackets)
+ * @param surcharges - Kirchensteuer and planning mode for the Soli thresholds
+ * @returns The taxable gain after the Freigrenze and the resulting taxes
+ */
+export function calculatePrivateSaleTax(
+  gewinn: number,
+  otherTaxableIncome: number,
+  year: number,
+  taxBrackets: TaxBracket[] = GERMAN_TAX_BRACKETS_2024,
+  surcharges: PrivateSaleSurcharges = {},
+): PrivateSaleTaxResult {
+  const { kirchensteuerAktiv = false, kirchensteuersatz = 9, planningMode = 'individual' } = surcharges
+  const freigrenze = getPrivateSaleFreigrenze(year)
+  const unterFreigrenze = gewinn < freigrenze
+  const steuerpflichtigerGewinn = unterFreigrenze ? 0 : gewinn
+  const { einkommensteuer, solidaritaetszuschlag } = calculateAdditionalIncomeTax(
+    Math.max(0, otherTaxableIncome),
+    steuerpflichtigerGewinn,
+    taxBrackets,
+    planningMode,
+  )
+  const kirchensteuer = kirchensteuerAktiv ? einkommensteuer * (kirchensteuersatz / 100) : 0
+
+  return {
+    gewinn,
+    freigrenze,
+    unterFreigrenze,
+    steuerpflichtigerGewinn,
+    einkommensteuer,
+    solidaritaetszuschlag,
+    kirchensteuer,
+    steuer: einkommensteuer + solidaritaetszuschlag + kirchensteuer,
+  }
+}
+
+/**
+ * Crypto sales of a withdrawal year with the income tax on the private sales
+ */
+export interface CryptoSaleYearResult extends CryptoSaleGains {
+  /** Income tax on the gain within the holding period */
+  privateSaleTax: PrivateSaleTaxResult
+}
+
+/**
+ * Tax the crypto sales of a withdrawal year
+ *
+ * @param gains - Crypto sales of the year
+ * @param otherTaxableIncome - Other taxable income of the year
+ * @param year - Year of the sales
+ * @param taxBrackets - Tax brackets of the year
+ * @param surcharges - Kirchensteuer and planning mode for the Soli thresholds
+ * @returns The crypto sales with the income tax, undefined when no crypto was sold
+ */
+export function calculateCryptoSaleYearResult(
+  gains: CryptoSaleGains,
+  otherTaxableIncome: number,
+  year: number,
+  taxBrackets?: TaxBracket[],
+  surcharges?: PrivateSaleSurcharges,
+): CryptoSaleYearResult | undefined {
+  if (gains.steuerfreierGewinn === 0 && gains.verkaufInnerhalbHaltefrist === 0) {
+    return undefined
+  }
+
+  return {
+    ...gains,
+    privateSaleTax: calculatePrivateSaleTax(
+      gains.privaterVeraeusserungsgewinn,
+      otherTaxableIncome,
+      year,
+      taxBrackets,
+      surcharges,
+    ),
+  }
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest'
+import { calculateDepotTaxation, resolveDepotId, UNASSIGNED_DEPOT_ID } from './depot-taxation'
+import type { BankAccount } from './freistellungsauftrag-optimization'
+
+describe('Depot Taxation', () => {
+  const depots: BankAccount[] = [
+    { id: 'a', name: 'Broker A', expectedCapitalGains: 0, assignedFreibetrag: 800 },
+    { id: 'b', name: 'Broker B', expectedCapitalGains: 0, assignedFreibetrag: 200 },
+  ]
+
+  describe('resolveDepotId', () => {
+    it('should treat missing and unknown depots as unassigned', () => {
+      expect(resolveDepotId('a', depots)).toBe('a')
+      expect(resolveDepotId(undefined, depots)).toBe(UNASSIGNED_DEPOT_ID)
+      expect(resolveDepotId('deleted', depots)).toBe(UNASSIGNED_DEPOT_ID)
+    })
+  })
+
+  describe('calculateDepotTaxation', () => {
+    it('should withhold tax per depot and refund unused allowance via Anlage KAP', () => {
+      const result = calculateDepotTaxation(
+        2025,
+        new Map([
+          ['a', 300],
+          ['b', 500],
+        ]),
+        depots,
+        1000,
+      )
+
+      expect(result.depots).toEqual([
+        {
+          depotId: 'a',
+          name: 'Broker A',
+          taxBeforeFreibetrag: 300,
+          freistellungsauftrag: 800,
+          genutzterFreibetrag: 300,
+          taxWithheld: 0,
+        },
+        {
+          depotId: 'b',
+          name: 'Broker B',
+          taxBeforeFreibetrag: 500,
+          freistellungsauftrag: 200,
+          genutzterFreibetrag: 200,
+          taxWithheld: 300,
+        },
+      ])
+      expect(result.totalTaxWithheld).toBe(300)
+      expect(result.taxDue).toBe(0)
+      expect(result.erstattung).toBe(300)
+    })
+
+    it('should give unassigned savings plans the allowance not assigned to any bank', () => {
+      const result = calculateDepotTaxation(2025, new Map([[UNASSIGNED_DEPOT_ID, 500]]), depots.slice(0, 1), 1000)
+
+      expect(result.depots[0].name).toBe('Ohne Depotzuordnung')
+      expect(result.depots[0].freistellungsauftrag).toBe(200)
+      expect(result.depots[0].taxWithheld).toBe(300)
+      expect(result.erstattung).toBe(300)
+    })
+
+    it('should require an additional payment when more allowance was assigned than available', () => {
+      const result = calculateDepotTaxation(
+        2025,
+        new Map([
+          ['a', 800],
+          ['b', 800],
+        ]),
+        depots,
+        500,
+      )
+
+      expect(result.totalTaxWithheld).toBe(600)
+      expect(result.taxDue).toBe(1100)
+      expect(result.erstattung).toBe(-500)
+    })
+  })
+})
@@ -0,0 +1,113 @@
+/**
+ * Depotbezogene Besteuerung (Taxation across multiple depots)
+ *
+ * Every bank withholds the Kapitalertragsteuer for its own depot and only knows the
+ * Freistellungsauftrag that was issued to it. Unused allowance at one bank does not reduce the tax
+ * withheld by another bank. The tax return (Anlage KAP) reconciles the withheld tax with the tax
+ * actually due on all capital income, which leads to a refund (Erstattung) or an additional payment
+ * (Nachzahlung).
+ *
+ * Key German tax concepts:
+ * - Freistellungsauftrag: Share of the Sparerpauschbetrag assigned to one bank (§ 44a EStG)
+ * - Kapitalertragsteuer: Withheld by each bank on the income of its depot (§ 43 EStG)
+ * - Anlage KAP: Assessment of all capital income with the full Sparerpauschbetrag (§ 32d Abs. 4 EStG)
+ */
+
+import type { BankAccount } from './freistellungsauftrag-optimization'
+
+/** Depot of savings plans without a (known) depot assignment */
+export const UNASSIGNED_DEPOT_ID = 'unassigned'
+
+/**
+ * Tax withheld by one depot in a year
+ */
+export interface DepotTaxResult {
+  depotId: string
+  name: string
+  /** Tax on the income of the depot before the Freistellungsauftrag in EUR */
+  taxBeforeFreibetrag: number
+  /** Freistellungsauftrag issued to the bank in EUR */
+  freistellungsauftrag: number
+  /** Part of the Freistellungsauftrag used in EUR */
+  genutzterFreibetrag: number
+  /** Kapitalertragsteuer withheld by the bank in EUR */
+  taxWithheld: number
+}
+
+/**
+ * Year-end reconciliation of the withheld tax via Anlage KAP
+ */
+export interface AnlageKapReconciliation {
+  year: number
+  depots: DepotTaxResult[]
+  /** Sum of the tax withheld by all banks in EUR */
+  totalTaxWithheld: number
+  /** Sparerpauschbetrag of the year in EUR */
+  sparerpauschbetrag: number
+  /** Tax due on all capital income with the full Sparerpauschbetrag in EUR */
+  taxDue: number
+  /** Withheld minus due tax: positive values are refunded, negative values have to be paid */
+  erstattung: number
+}
+
+/**
+ * Freistellungsauftrag of each depot. Savings plans without a depot use the part of the
+ * Sparerpauschbetrag that is not assigned to any bank.
+ */
+function getFreistellungsauftraege(depots: BankAccount[], sparerpauschbetrag: number): Map<string, number> {
+  const assigned = depots.reduce((sum, depot) => sum + depot.assignedFreibetrag, 0)
+  const freistellungsauftraege = new Map(depots.map(depot => [depot.id, depot.assignedFreibetrag]))
+  freistellungsauftraege.set(UNASSIGNED_DEPOT_ID, Math.max(0, sparerpauschbetrag - assigned))
+  return freistellungsauftraege
+}
+
+/**
+ * Depot of a savings plan; unknown depot ids count as unassigned
+ */
+export function resolveDepotId(depotId: string | undefined, depots: BankAccount[]): string {
+  return depotId && depots.some(depot => depot.id === depotId) ? depotId : UNASSIGNED_DEPOT_ID
+}
+
+/**
+ * Calculate the tax withheld per depot and reconcile it via Anlage KAP
+ *
+ * @param year - Tax year
+ * @param taxByDepot - Tax before the allowance per depot id (savings plans without depot: UNASSIGNED_DEPOT_ID)
+ * @param depots - Depots with their Freistellungsauftrag
+ * @param sparerpauschbetrag - Sparerpauschbetrag of the year
+ * @returns Withholding per depot, tax due and the resulting refund or additional payment
+ */
+export function calculateDepotTaxation(
+  year: number,
+  taxByDepot: Map<string, number>,
+  depots: BankAccount[],
+  sparerpauschbetrag: number,
+): AnlageKapReconciliation {
+  const freistellungsauftraege = getFreistellungsauftraege(depots, sparerpauschbetrag)
+  const names = new Map(depots.map(depot => [depot.id, depot.name]))
+
+  const depotResults = [...taxByDepot.entries()].map(([depotId, taxBeforeFreibetrag]) => {
+    const freistellungsauftrag = freistellungsauftraege.get(depotId) ?? 0
+    return {
+      depotId,
+      name: names.get(depotId) ?? 'Ohne Depotzuordnung',
+      taxBeforeFreibetrag,
+      freistellungsauftrag,
+      genutzterFreibetrag: Math.min(taxBeforeFreibetrag, freistellungsauftrag),
+      taxWithheld: Math.max(0, taxBeforeFreibetrag - freistellungsauftrag),
+    }
+  })
+
+  const totalTax = depotResults.reduce((sum, depot) => sum + depot.taxBeforeFreibetrag, 0)
+  const totalTaxWithheld = depotResults.reduce((sum, depot) => sum + depot.taxWithheld, 0)
+  const taxDue = Math.max(0, totalTax - sparerpauschbetrag)
+
+  return {
+    year,
+    depots: depotResults,
+    totalTaxWithheld,
+    sparerpauschbetrag,
+    taxDue,
+    erstattung: totalTaxWithheld - taxDue,
+  }
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest'
+import {
+  attributeCoupleIncomes,
+  calculateEhegattensplitting,
+  calculateSeparateAssessmentTax,
+  calculateSplittingTax,
+  createSplittingTaxBrackets,
+} from './ehegattensplitting'
+import { calculateProgressiveTax } from './steuer'
+import { getTaxBracketsForYear } from './income-tax-tariff'
+
+const brackets2026 = getTaxBracketsForYear(2026)
+const tariffTax = (income: number) => calculateProgressiveTax(income, 0, 0, brackets2026).totalTax
+
+describe('calculateSplittingTax', () => {
+  it('should apply 2 × tariff(zvE / 2)', () => {
+    expect(calculateSplittingTax(60000, brackets2026)).toBeCloseTo(2 * tariffTax(30000), 6)
+  })
+
+  it('should not tax a joint income below twice the Grundfreibetrag', () => {
+    expect(calculateSplittingTax(24000, brackets2026)).toBe(0)
+    expect(tariffTax(24000)).toBeGreaterThan(0)
+  })
+})
+
+describe('createSplittingTaxBrackets', () => {
+  it('should produce the same tax as the splitting formula', () => {
+    const splittingBrackets = createSplittingTaxBrackets(brackets2026)
+
+    ;[20000, 45000, 90000, 200000, 700000].forEach(income => {
+      expect(calculateProgressiveTax(income, 0, 0, splittingBrackets).totalTax).toBeCloseTo(
+        calculateSplittingTax(income, brackets2026),
+        6,
+      )
+    })
+  })
+
+  it('should double the zone limits', () => {
+    const splittingBrackets = createSplittingTaxBrackets(brackets2026)
+
+    expect(splittingBrackets.map(bracket => bracket.to)).toEqual([24696, 35598, 139756, 555650, undefined])
+  })
+})
+
+describe('calculateSeparateAssessmentTax', () => {
+  it('should tax each spouse with the basic tariff', () => {
+    const tax = calculateSeparateAssessmentTax({ person1: 50000, person2: 10000 }, brackets2026)
+
+    expect(tax).toBeCloseTo(tariffTax(50000) + tariffTax(10000), 6)
+  })
+})
+
+describe('calculateEhegattensplitting', () => {
+  it('should show a splitting advantage for unequal incomes', () => {
+    const result = calculateEhegattensplitting({ person1: 60000, person2: 0 }, brackets2026)
+
+    expect(result.jointIncome).toBe(60000)
+    expect(result.splittingTax).toBeCloseTo(2 * tariffTax(30000), 6)
+    expect(result.separateAssessmentTax).toBeCloseTo(tariffTax(60000), 6)
+    expect(result.splittingAdvantage).toBeGreaterThan(4000)
+  })
+
+  it('should show no advantage for equal incomes', () => {
+    const result = calculateEhegattensplitting({ person1: 30000, person2: 30000 }, brackets2026)
+
+    expect(result.splittingAdvantage).toBeCloseTo(0, 6)
+  })
+
+  it('should include Kirchensteuer in both assessments', () => {
+    const withoutKirchensteuer = calculateEhegattensplitting({ person1: 60000, person2: 0 }, brackets2026)
+    const withKirchensteuer = calculateEhegattensplitting({ person1: 60000, person2: 0 }, brackets2026, true, 9)
+
+    expect(withKirchensteuer.splittingTax).toBeCloseTo(withoutKirchensteuer.splittingTax * 1.09, 6)
+    expect(withKirchensteuer.splittingAdvantage).toBeCloseTo(withoutKirchensteuer.splittingAdvantage * 1.09, 6)
+  })
+})
+
+describe('attributeCoupleIncomes', () => {
+  it('should attribute pensions personally and share the remaining income', () => {
+    const incomes = attributeCoupleIncomes(50000, 20000, 6000)
+
+    expect(incomes.person1).toBe(32000)
+    expect(incomes.person2).toBe(18000)
+  })
+
+  it('should split the income equally without pensions', () => {
+    expect(attributeCoupleIncomes(40000, 0, 0)).toEqual({ person1: 20000, person2: 20000 })
+  })
+})
@@ -0,0 +1,153 @@
+/**
+ * Ehegattensplitting (Joint Assessment for Married Couples, §32a Abs. 5 EStG)
+ *
+ * Spouses who are assessed jointly (Zusammenveranlagung) add up their incomes, halve the sum,
+ * apply the income tax tariff to the half and double the result:
+ *
+ *   Splitting tax = 2 × tariff(joint zvE / 2)
+ *
+ * Because the tariff is progressive, this is never higher than separate assessment
+ * (Einzelveranlagung), where each spouse pays tariff(own zvE). The advantage grows with the
+ * income difference between the spouses and is zero when both have the same income.
+ */
+
+import { calculateProgressiveTax, GERMAN_TAX_BRACKETS_2024, type TaxBracket } from './steuer'
+
+/** Splitting divisor: the joint income is split between two spouses */
+const SPLITTING_FACTOR = 2
+
+/**
+ * Taxable incomes of both spouses for one year
+ */
+export interface SpouseIncomes {
+  /** Taxable income (zvE) attributed to person 1 */
+  person1: number
+  /** Taxable income (zvE) attributed to person 2 */
+  person2: number
+}
+
+/**
+ * Comparison of joint assessment (splitting) and separate assessment for one year
+ */
+export interface EhegattensplittingResult {
+  /** Taxable income attributed to person 1 */
+  person1Income: number
+  /** Taxable income attributed to person 2 */
+  person2Income: number
+  /** Combined taxable income of both spouses */
+  jointIncome: number
+  /** Income tax with joint assessment (2 × tariff(zvE / 2)), incl. Kirchensteuer */
+  splittingTax: number
+  /** Income tax with separate assessment (tariff per spouse), incl. Kirchensteuer */
+  separateAssessmentTax: number
+  /** Tax saved by joint assessment (Splittingvorteil) */
+  splittingAdvantage: number
+}
+
+/**
+ * Create tax brackets of the splitting tariff.
+ *
+ * Doubling all zone limits and halving the quadratic coefficients yields exactly
+ * 2 × tariff(zvE / 2), so the splitting tariff can be passed anywhere tax brackets are accepted
+ * (e.g. calculateProgressiveTax or performGuenstigerPruefung).
+ *
+ * @param taxBrackets - Tax brackets of the basic tariff (Grundtarif)
+ * @returns Tax brackets of the splitting tariff (Splittingtarif)
+ */
+export function createSplittingTaxBrackets(taxBrackets: TaxBracket[]): TaxBracket[] {
+  return taxBrackets.map(bracket => ({
+    ...bracket,
+    from: bracket.from * SPLITTING_FACTOR,
+    to: bracket.to !== undefined ? bracket.to * SPLITTING_FACTOR : undefined,
+    y: bracket.y !== undefined ? bracket.y / SPLITTING_FACTOR : undefined,
+  }))
+}
+
+/**
+ * Calculate income tax with the basic tariff (Grundtarif)
+ */
+function calculateTariffTax(taxableIncome: number, taxBrackets: TaxBracket[]): number {
+  return calculateProgressiveTax(Math.max(0, taxableIncome), 0, 0, taxBrackets).totalTax
+}
+
+/**
+ * Calculate income tax with joint assessment (Splittingverfahren)
+ *
+ * @param jointTaxableIncome - Combined taxable income of both spouses
+ * @param taxBrackets - Tax brackets of the basic tariff of the year being calculated
+ * @returns Income tax of the couple (without Kirchensteuer)
+ */
+export function calculateSplittingTax(
+  jointTaxableIncome: number,
+  taxBrackets: TaxBracket[] = GERMAN_TAX_BRACKETS_2024,
+): number {
+  return SPLITTING_FACTOR * calculateTariffTax(jointTaxableIncome / SPLITTING_FACTOR, taxBrackets)
+}
+
+/**
+ * Calculate income tax with separate assessment (Einzelveranlagung)
+ *
+ * @param incomes - Taxable incomes of both spouses
+ * @param taxBrackets - Tax brackets of the basic tariff of the year being calculated
+ * @returns Sum of both spouses' income tax (without Kirchensteuer)
+ */
+export function calculateSeparateAssessmentTax(
+  incomes: SpouseIncomes,
+  taxBrackets: TaxBracket[] = GERMAN_TAX_BRACKETS_2024,
+): number {
+  return calculateTariffTax(incomes.person1, taxBrackets) + calculateTariffTax(incomes.person2, taxBrackets)
+}
+
+/**
+ * Compare joint assessment with separate assessment for a couple
+ *
+ * @param incomes - Taxable incomes of both spouses
+ * @param taxBrackets - Tax brackets of the basic tariff of the year being calculated
+ * @param kirchensteuerAktiv - Whether Kirchensteuer is active
+ * @param kirchensteuersatz - Kirchensteuer rate (typically 8% or 9%)
+ * @returns Splitting tax, separate assessment tax and the splitting advantage
+ */
+export function calculateEhegattensplitting(
+  incomes: SpouseIncomes,
+  taxBrackets: TaxBracket[] = GERMAN_TAX_BRACKETS_2024,
+  kirchensteuerAktiv = false,
+  kirchensteuersatz = 9,
+): EhegattensplittingResult {
+  const kirchensteuerFactor = kirchensteuerAktiv ? 1 + kirchensteuersatz / 100 : 1
+  const jointIncome = incomes.person1 + incomes.person2
+  const splittingTax = calculateSplittingTax(jointIncome, taxBrackets) * kirchensteuerFactor
+  const separateAssessmentTax = calculateSeparateAssessmentTax(incomes, taxBrackets) * kirchensteuerFactor
+
+  return {
+    person1Income: incomes.person1,
+    person2Income: incomes.person2,
+    jointIncome,
+    splittingTax,
+    separateAssessmentTax,
+    splittingAdvantage: Math.max(0, separateAssessmentTax - splittingTax),
+  }
+}
+
+/**
+ * Attribute a couple's combined taxable income to both spouses.
+ *
+ * Pensions are personal income of the respective spouse. All other income (withdrawals from the
+ * joint portfolio, other income sources, deductible insurance contributions) is shared equally.
+ *
+ * @param jointTaxableIncome - Combined taxable income of both spouses
+ * @param person1Pension - Taxable pension income of person 1
+ * @param person2Pension - Taxable pension income of person 2
+ * @returns Taxable incomes attributed to both spouses
+ */
+export function attributeCoupleIncomes(
+  jointTaxableIncome: number,
+  person1Pension: number,
+  person2Pension: number,
+): SpouseIncomes {
+  const sharedIncome = jointTaxableIncome - person1Pension - person2Pension
+
+  return {
+    person1: person1Pension + sharedIncome / SPLITTING_FACTOR,
+    person2: person2Pension + sharedIncome / SPLITTING_FACTOR,
+  }
+}
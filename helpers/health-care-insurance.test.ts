@@ -8,8 +8,12 @@ import {
   createDefaultCoupleHealthInsuranceConfig,
   createDefaultFamilyInsuranceThresholds,
   getHealthCareInsuranceDisplayInfo,
+  getStatutoryInsuranceStatus,
+  sumPrivateStatutoryComparison,
+  sumStatutoryInsuranceStatusComparison,
   type HealthCareInsuranceConfig,
 } from './health-care-insurance'
+import { createDefaultPrivateHealthInsuranceProjectionConfig } from './private-health-insurance'
 
 describe('Health Care Insurance Calculations', () => {
   describe('calculateHealthCareInsuranceForYear', () => {
@@ -209,6 +213,120 @@ describe('Health Care Insurance Calculations', () => {
     })
   })
 
+  describe('membership status in retirement', () => {
+    const kvdrEligibility = { firstEmploymentYear: 2000, statutoryInsuranceYearsSecondHalf: 10, numberOfChildren: 0 }
+    const additionalIncome = { versorgungsbezuege: 0, capitalIncome: 20000, otherIncome: 0 }
+
+    it('should determine the status with the KVdR eligibility check', () => {
+      const config: HealthCareInsuranceConfig = {
+        ...createDefaultHealthCareInsuranceConfig(),
+        retirementStartYear: 2040,
+        statutoryInsuranceStatus: 'automatic',
+        kvdrEligibility,
+      }
+
+      expect(getStatutoryInsuranceStatus(config)).toBe('freiwillig')
+      expect(
+        getStatutoryInsuranceStatus({ ...config, kvdrEligibility: { ...kvdrEligibility, numberOfChildren: 3 } }),
+      ).toBe('kvdr')
+      expect(getStatutoryInsuranceStatus({ ...config, statutoryInsuranceStatus: undefined })).toBeUndefined()
+    })
+
+    it('should assess the income of the membership status instead of the withdrawal', () => {
+      const config: HealthCareInsuranceConfig = {
+        ...createDefaultHealthCareInsuranceConfig(),
+        retirementStartYear: 2040,
+        statutoryInsuranceStatus: 'kvdr',
+      }
+
+      const result = calculateHealthCareInsuranceForYear(config, 2041, 50000, 24000, 68, additionalIncome)
+
+      expect(result.statutoryInsuranceStatus).toBe('kvdr')
+      expect(result.baseIncomeForCalculation).toBe(24000)
+      expect(result.healthInsuranceAnnual).toBeCloseTo(24000 * 0.073, 6)
+      expect(result.effectiveHealthInsuranceRate).toBeCloseTo(7.3, 6)
+      expect(result.statusComparison!.freiwillig).toBeCloseTo(24000 * 0.073 + 20000 * 0.14 + 44000 * 0.0305, 6)
+    })
+
+    it('should keep the assessment on withdrawal and pension before the retirement', () => {
+      const config: HealthCareInsuranceConfig = {
+        ...createDefaultHealthCareInsuranceConfig(),
+        retirementStartYear: 2042,
+        statutoryInsuranceStatus: 'freiwillig',
+      }
+
+      const result = calculateHealthCareInsuranceForYear(config, 2041, 30000, 0, 66, additionalIncome)
+
+      expect(result.statutoryInsuranceStatus).toBeUndefined()
+      expect(result.baseIncomeForCalculation).toBe(30000)
+    })
+
+    it('should sum up the contributions of both statuses', () => {
+      expect(
+        sumStatutoryInsuranceStatusComparison([
+          { kvdr: 100, freiwillig: 300 },
+          undefined,
+          { kvdr: 50, freiwillig: 60 },
+        ]),
+      ).toEqual({ kvdr: 150, freiwillig: 360, years: 2 })
+      expect(sumStatutoryInsuranceStatusComparison([undefined])).toBeUndefined()
+    })
+  })
+
+  describe('private insurance premium projection', () => {
+    const config: HealthCareInsuranceConfig = {
+      ...createDefaultHealthCareInsuranceConfig(),
+      insuranceType: 'private',
+      privateHealthInsuranceMonthly: 500,
+      privateCareInsuranceMonthly: 50,
+      retirementStartYear: 2041,
+      statutoryInsuranceStatus: 'kvdr',
+      privateInsuranceProjection: {
+        ...createDefaultPrivateHealthInsuranceProjectionConfig(2025),
+        enabled: true,
+        premiumIncreaseRate: 0,
+        ageRelatedIncreaseRate: 0,
+      },
+    }
+
+    it('should subtract the Zuschuss der Rentenversicherung in retirement', () => {
+      const result = calculateHealthCareInsuranceForYear(config, 2041, 30000, 24000, 66)
+
+      // 2000 € monthly pension × 8.55% = 171 € subsidy
+      expect(result.healthInsuranceMonthly).toBeCloseTo(500 - 171, 6)
+      expect(result.careInsuranceMonthly).toBe(50)
+      expect(result.privateInsurancePremium!.subsidySource).toBe('pension')
+      expect(result.privateStatutoryComparison!.private).toBeCloseTo((329 + 50) * 12, 6)
+      expect(result.privateStatutoryComparison!.statutory).toBeCloseTo(24000 * (0.073 + 0.0305), 6)
+    })
+
+    it('should charge the full premium with Zuschlag before the retirement', () => {
+      const result = calculateHealthCareInsuranceForYear(config, 2035, 30000, 0, 60)
+
+      expect(result.privateInsurancePremium!.subsidySource).toBe('none')
+      expect(result.totalAnnual).toBeCloseTo((550 + 50) * 12, 6)
+    })
+
+    it('should keep the flat inflation adjustment without projection', () => {
+      const result = calculateHealthCareInsuranceForYear(
+        { ...config, privateInsuranceProjection: undefined },
+        2041,
+        30000,
+        24000,
+        66,
+      )
+
+      expect(result.totalMonthly).toBe(550)
+      expect(result.privateStatutoryComparison).toBeUndefined()
+    })
+
+    it('should sum up the contributions with private and statutory insurance', () => {
+      expect(
+        sumPrivateStatutoryComparison([{ private: 100, statutory: 80 }, undefined, { private: 50, statutory: 70 }]),
+      ).toEqual({ private: 150, statutory: 150, years: 2 })
+    })
+  })
+
   describe('createDefaultHealthCareInsuranceConfig', () => {
     it('should create valid default configuration', () => {
       const config = createDefaultHealthCareInsuranceConfig()
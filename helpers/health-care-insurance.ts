@@ -8,6 +8,19 @@
  * These contributions should be deducted from withdrawal amounts.
  */
 
+import {
+  calculateStatutoryStatusContributions,
+  checkKvdrEligibility,
+  type HealthInsuranceAssessmentIncome,
+  type KvdrEligibilityConfig,
+  type StatutoryInsuranceStatus,
+} from './health-insurance-status'
+import {
+  calculatePrivateHealthInsurancePremium,
+  type PrivateHealthInsurancePremium,
+  type PrivateHealthInsuranceProjectionConfig,
+} from './private-health-insurance'
+
 /**
  * Planning mode for health insurance configuration
  */
@@ -106,6 +119,13 @@ export interface HealthCareInsuranceConfig {
   /** For private insurance: Annual inflation rate for premium adjustment (default: 2%) */
   privateInsuranceInflationRate: number
 
+  /**
+   * For private insurance: premium projection with age-related increases, Zuschlag, Beitragsentlastungstarif and
+   * subsidies. When enabled, the monthly premiums are the premiums of its premiumYear and the inflation rate is
+   * not used.
+   */
+  privateInsuranceProjection?: PrivateHealthInsuranceProjectionConfig
+
   /** Year when retirement begins */
   retirementStartYear: number
 
@@ -138,6 +158,47 @@ export interface HealthCareInsuranceConfig {
   /** Income thresholds for health and care insurance */
   healthInsuranceIncomeThreshold?: number
   careInsuranceIncomeThreshold?: number
+
+  /**
+   * For statutory insurance: membership status in retirement. 'automatic' applies the KVdR eligibility check.
+   * Without a status the contributions are assessed on withdrawal and pension.
+   */
+  statutoryInsuranceStatus?: StatutoryInsuranceStatus | 'automatic'
+
+  /** For statutory insurance: insurance history for the KVdR eligibility check */
+  kvdrEligibility?: KvdrEligibilityConfig
+}
+
+/**
+ * Annual contributions of a retirement year with either membership status
+ */
+export interface StatutoryInsuranceStatusComparison {
+  kvdr: number
+  freiwillig: number
+}
+
+/**
+ * Contributions of all retirement years with either membership status
+ */
+export interface StatutoryInsuranceStatusComparisonSum extends StatutoryInsuranceStatusComparison {
+  /** Number of retirement years */
+  years: number
+}
+
+/**
+ * Annual contributions of a year with private and with statutory insurance
+ */
+export interface PrivateStatutoryComparison {
+  private: number
+  statutory: number
+}
+
+/**
+ * Contributions of several years with private and with statutory insurance
+ */
+export interface PrivateStatutoryComparisonSum extends PrivateStatutoryComparison {
+  /** Number of years */
+  years: number
 }
 
 /**
@@ -188,6 +249,21 @@ export interface HealthCareInsuranceYearResult {
 
   /** Whether fixed amounts were used instead of percentage calculation */
   usedFixedAmounts?: boolean
+
+  /** For statutory insurance in retirement: membership status the contributions were assessed with */
+  statutoryInsuranceStatus?: StatutoryInsuranceStatus
+
+  /** For statutory insurance in retirement: income relevant for the assessment */
+  assessmentIncome?: HealthInsuranceAssessmentIncome
+
+  /** For statutory insurance in retirement: contributions with either membership status */
+  statusComparison?: StatutoryInsuranceStatusComparison
+
+  /** For private insurance with premium projection: premium details of the year */
+  privateInsurancePremium?: PrivateHealthInsurancePremium
+
+  /** For private insurance with premium projection: own contributions with private and statutory insurance */
+  privateStatutoryComparison?: PrivateStatutoryComparison
 }
 
 /**
@@ -403,6 +479,107 @@ function calculateStatutoryInsuranceResult(
   }
 }
 
+/**
+ * Membership status in retirement, undefined when the contributions are assessed on withdrawal and pension
+ */
+export function getStatutoryInsuranceStatus(config: HealthCareInsuranceConfig): StatutoryInsuranceStatus | undefined {
+  if (config.statutoryInsuranceStatus !== 'automatic') {
+    return config.statutoryInsuranceStatus
+  }
+  if (!config.kvdrEligibility) {
+    return 'freiwillig'
+  }
+  return checkKvdrEligibility(config.kvdrEligibility, config.retirementStartYear).eligible ? 'kvdr' : 'freiwillig'
+}
+
+/**
+ * Calculate statutory insurance result of a retiree from the income assessed with the membership status
+ */
+function calculateStatusBasedInsuranceResult(
+  config: HealthCareInsuranceConfig,
+  status: StatutoryInsuranceStatus,
+  income: HealthInsuranceAssessmentIncome,
+  currentAge: number,
+): HealthCareInsuranceYearResult {
+  const { careRate, applied } = applyAdditionalCareInsurance(config, currentAge, config.statutoryCareInsuranceRate)
+  const parameters = {
+    minimumIncomeBase: config.statutoryMinimumIncomeBase,
+    maximumIncomeBase: config.healthInsuranceIncomeThreshold || config.statutoryMaximumIncomeBase,
+    healthRate: config.statutoryHealthInsuranceRate,
+    careRate,
+  }
+  const contributions = {
+    kvdr: calculateStatutoryStatusContributions('kvdr', income, parameters),
+    freiwillig: calculateStatutoryStatusContributions('freiwillig', income, parameters),
+  }
+  const { healthInsuranceAnnual, careInsuranceAnnual, totalAnnual, assessmentBase } = contributions[status]
+
+  return {
+    healthInsuranceAnnual,
+    careInsuranceAnnual,
+    totalAnnual,
+    healthInsuranceMonthly: healthInsuranceAnnual / 12,
+    careInsuranceMonthly: careInsuranceAnnual / 12,
+    totalMonthly: totalAnnual / 12,
+    insuranceType: 'statutory',
+    isRetirementPhase: true,
+    effectiveHealthInsuranceRate:
+      assessmentBase.healthBase > 0 ? (healthInsuranceAnnual / assessmentBase.healthBase) * 100 : 0,
+    effectiveCareInsuranceRate: careRate,
+    baseIncomeForCalculation: assessmentBase.healthBase,
+    appliedAdditionalCareInsurance: applied,
+    usedFixedAmounts: false,
+    statutoryInsuranceStatus: status,
+    assessmentIncome: income,
+    statusComparison: { kvdr: contributions.kvdr.totalAnnual, freiwillig: contributions.freiwillig.totalAnnual },
+  }
+}
+
+/**
+ * Calculate statutory insurance result, assessed with the membership status in retirement when it is configured
+ */
+function calculateStatutoryInsuranceResultForYear(
+  config: HealthCareInsuranceConfig,
+  withdrawalAmount: number,
+  pensionAmount: number,
+  currentAge: number,
+  isRetirementPhase: boolean,
+  additionalIncome: Omit<HealthInsuranceAssessmentIncome, 'statutoryPension'> | undefined,
+): HealthCareInsuranceYearResult {
+  const status = isRetirementPhase ? getStatutoryInsuranceStatus(config) : undefined
+  if (!status) {
+    return calculateStatutoryInsuranceResult(config, withdrawalAmount, pensionAmount, currentAge, isRetirementPhase)
+  }
+
+  return calculateStatusBasedInsuranceResult(
+    config,
+    status,
+    { statutoryPension: pensionAmount, versorgungsbezuege: 0, capitalIncome: 0, otherIncome: 0, ...additionalIncome },
+    currentAge,
+  )
+}
+
+/**
+ * Sum up the contributions of all retirement years with either membership status
+ */
+export function sumStatutoryInsuranceStatusComparison(
+  comparisons: Array<StatutoryInsuranceStatusComparison | undefined>,
+): StatutoryInsuranceStatusComparisonSum | undefined {
+  const available = comparisons.filter((comparison): comparison is StatutoryInsuranceStatusComparison => !!comparison)
+  if (available.length === 0) {
+    return undefined
+  }
+
+  return available.reduce<StatutoryInsuranceStatusComparisonSum>(
+    (sum, comparison) => ({
+      kvdr: sum.kvdr + comparison.kvdr,
+      freiwillig: sum.freiwillig + comparison.freiwillig,
+      years: sum.years + 1,
+    }),
+    { kvdr: 0, freiwillig: 0, years: 0 },
+  )
+}
+
 /**
  * Calculate inflation adjusted premiums for private insurance
  */
@@ -475,8 +652,119 @@ function calculatePrivateInsuranceResult(
   }
 }
 
+/**
+ * Calculate private insurance result with the projected premium.
+ * Retirees receive the Zuschuss der Rentenversicherung on the statutory pension, before the pension there is
+ * no subsidy.
+ */
+function calculateProjectedPrivateInsuranceResult(
+  config: HealthCareInsuranceConfig,
+  projection: PrivateHealthInsuranceProjectionConfig,
+  year: number,
+  withdrawalAmount: number,
+  pensionAmount: number,
+  currentAge: number,
+  isRetirementPhase: boolean,
+): HealthCareInsuranceYearResult {
+  const premium = calculatePrivateHealthInsurancePremium(projection, {
+    healthInsuranceMonthly: config.privateHealthInsuranceMonthly,
+    careInsuranceMonthly: config.privateCareInsuranceMonthly,
+    birthYear: year - currentAge,
+    year,
+    subsidySource: isRetirementPhase && pensionAmount > 0 ? 'pension' : 'none',
+    statutoryPensionAnnual: pensionAmount,
+  })
+  const healthInsuranceMonthly = premium.healthInsuranceMonthly - premium.healthSubsidyMonthly
+  const { finalCareMonthly, applied } = applyPrivateAdditionalCareInsurance(
+    config,
+    currentAge,
+    premium.careInsuranceMonthly - premium.careSubsidyMonthly,
+    withdrawalAmount,
+    pensionAmount,
+  )
+
+  return {
+    healthInsuranceAnnual: healthInsuranceMonthly * 12,
+    careInsuranceAnnual: finalCareMonthly * 12,
+    totalAnnual: (healthInsuranceMonthly + finalCareMonthly) * 12,
+    healthInsuranceMonthly,
+    careInsuranceMonthly: finalCareMonthly,
+    totalMonthly: healthInsuranceMonthly + finalCareMonthly,
+    insuranceType: 'private',
+    isRetirementPhase,
+    appliedAdditionalCareInsurance: applied,
+    inflationAdjustmentFactor: premium.premiumFactor,
+    usedFixedAmounts: false,
+    privateInsurancePremium: premium,
+  }
+}
+
+/**
+ * Calculate private insurance result, with the premium projection when it is enabled and the comparison with the
+ * contributions as statutory member
+ */
+function calculatePrivateInsuranceResultForYear(
+  config: HealthCareInsuranceConfig,
+  year: number,
+  withdrawalAmount: number,
+  pensionAmount: number,
+  currentAge: number,
+  additionalIncome: Omit<HealthInsuranceAssessmentIncome, 'statutoryPension'> | undefined,
+): HealthCareInsuranceYearResult {
+  const isRetirementPhase = year >= config.retirementStartYear
+  const projection = config.privateInsuranceProjection
+  if (!projection?.enabled) {
+    return calculatePrivateInsuranceResult(config, year, withdrawalAmount, pensionAmount, currentAge, isRetirementPhase)
+  }
+
+  const result = calculateProjectedPrivateInsuranceResult(
+    config,
+    projection,
+    year,
+    withdrawalAmount,
+    pensionAmount,
+    currentAge,
+    isRetirementPhase,
+  )
+  const statutory = calculateStatutoryInsuranceResultForYear(
+    { ...config, insuranceType: 'statutory' },
+    withdrawalAmount,
+    pensionAmount,
+    currentAge,
+    isRetirementPhase,
+    additionalIncome,
+  )
+
+  return { ...result, privateStatutoryComparison: { private: result.totalAnnual, statutory: statutory.totalAnnual } }
+}
+
+/**
+ * Sum up the contributions of several years with private and with statutory insurance
+ */
+export function sumPrivateStatutoryComparison(
+  comparisons: Array<PrivateStatutoryComparison | undefined>,
+): PrivateStatutoryComparisonSum | undefined {
+  const available = comparisons.filter((comparison): comparison is PrivateStatutoryComparison => !!comparison)
+  if (available.length === 0) {
+    return undefined
+  }
+
+  return available.reduce<PrivateStatutoryComparisonSum>(
+    (sum, comparison) => ({
+      private: sum.private + comparison.private,
+      statutory: sum.statutory + comparison.statutory,
+      years: sum.years + 1,
+    }),
+    { private: 0, statutory: 0, years: 0 },
+  )
+}
+
 /**
  * Calculate health and care insurance contributions for a given year
+ *
+ * additionalIncome holds the Versorgungsbezüge, capital income and other income assessed with the membership
+ * status in retirement (statutoryInsuranceStatus) and in the comparison of a projected private insurance with the
+ * statutory insurance.
  */
 export function calculateHealthCareInsuranceForYear(
   config: HealthCareInsuranceConfig,
@@ -484,6 +772,7 @@ export function calculateHealthCareInsuranceForYear(
   withdrawalAmount: number,
   pensionAmount = 0,
   currentAge = 30,
+  additionalIncome?: Omit<HealthInsuranceAssessmentIncome, 'statutoryPension'>,
 ): HealthCareInsuranceYearResult {
   if (!config.enabled) {
     return calculateDisabledInsuranceResult(config, year)
@@ -496,10 +785,24 @@ export function calculateHealthCareInsuranceForYear(
   }
 
   if (config.insuranceType === 'statutory') {
-    return calculateStatutoryInsuranceResult(config, withdrawalAmount, pensionAmount, currentAge, isRetirementPhase)
+    return calculateStatutoryInsuranceResultForYear(
+      config,
+      withdrawalAmount,
+      pensionAmount,
+      currentAge,
+      isRetirementPhase,
+      additionalIncome,
+    )
   }
 
-  return calculatePrivateInsuranceResult(config, year, withdrawalAmount, pensionAmount, currentAge, isRetirementPhase)
+  return calculatePrivateInsuranceResultForYear(
+    config,
+    year,
+    withdrawalAmount,
+    pensionAmount,
+    currentAge,
+    additionalIncome,
+  )
 }
 
 /**
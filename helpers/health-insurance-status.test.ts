@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest'
+import {
+  calculateStatutoryStatusContributions,
+  checkKvdrEligibility,
+  createDefaultKvdrEligibilityConfig,
+  getAssessableOtherIncome,
+  type HealthInsuranceAssessmentIncome,
+} from './health-insurance-status'
+import type { OtherIncomeResult, OtherIncomeYearResult } from './other-income'
+
+describe('health-insurance-status', () => {
+  const parameters = { minimumIncomeBase: 13230, maximumIncomeBase: 62550, healthRate: 14.6, careRate: 3.4 }
+  const income: HealthInsuranceAssessmentIncome = {
+    statutoryPension: 24000,
+    versorgungsbezuege: 6000,
+    capitalIncome: 20000,
+    otherIncome: 5000,
+  }
+
+  describe('checkKvdrEligibility', () => {
+    it('should require 9/10 of the second half of the working life', () => {
+      // Working life 2000-2040: second half 20 years, 18 years required
+      const result = checkKvdrEligibility(
+        { firstEmploymentYear: 2000, statutoryInsuranceYearsSecondHalf: 18, numberOfChildren: 0 },
+        2040,
+      )
+
+      expect(result.secondHalfYears).toBe(20)
+      expect(result.requiredYears).toBeCloseTo(18, 10)
+      expect(result.eligible).toBe(true)
+    })
+
+    it('should fail with too few years of statutory insurance', () => {
+      const result = checkKvdrEligibility(
+        { firstEmploymentYear: 2000, statutoryInsuranceYearsSecondHalf: 15, numberOfChildren: 0 },
+        2040,
+      )
+
+      expect(result.creditedYears).toBe(15)
+      expect(result.eligible).toBe(false)
+    })
+
+    it('should credit three years per child up to the second half', () => {
+      const result = checkKvdrEligibility(
+        { firstEmploymentYear: 2000, statutoryInsuranceYearsSecondHalf: 15, numberOfChildren: 3 },
+        2040,
+      )
+
+      expect(result.childCreditYears).toBe(9)
+      expect(result.creditedYears).toBe(20)
+      expect(result.eligible).toBe(true)
+    })
+
+    it('should be fulfilled by the default insurance history', () => {
+      expect(checkKvdrEligibility(createDefaultKvdrEligibilityConfig(2040), 2040).eligible).toBe(true)
+    })
+  })
+
+  describe('getAssessableOtherIncome', () => {
+    it('should separate Versorgungsbezüge from the other assessable income', () => {
+      const source = (type: string, grossAnnualAmount: number) =>
+        ({ source: { type }, grossAnnualAmount }) as unknown as OtherIncomeYearResult
+      const otherIncomeData = {
+        2041: {
+          sources: [source('pension', 6000), source('rental', 8000), source('kindergeld', 3000)],
+          totalNetAnnualAmount: 0,
+          totalTaxAmount: 0,
+        },
+      } as unknown as OtherIncomeResult
+
+      expect(getAssessableOtherIncome(otherIncomeData, 2041)).toEqual({ versorgungsbezuege: 6000, otherIncome: 8000 })
+      expect(getAssessableOtherIncome(otherIncomeData, 2042)).toEqual({ versorgungsbezuege: 0, otherIncome: 0 })
+    })
+  })
+
+  describe('calculateStatutoryStatusContributions', () => {
+    it('should assess only pension and Versorgungsbezüge above the Freibetrag in the KVdR', () => {
+      const result = calculateStatutoryStatusContributions('kvdr', income, parameters)
+
+      // Half rate on the pension, full rate on the Versorgungsbezüge above 2,247 €
+      expect(result.healthInsuranceAnnual).toBeCloseTo(24000 * 0.073 + (6000 - 2247) * 0.146, 6)
+      // Versorgungsbezüge above the Freigrenze are fully subject to care insurance
+      expect(result.careInsuranceAnnual).toBeCloseTo(30000 * 0.034, 6)
+    })
+
+    it('should keep Versorgungsbezüge below the Freigrenze free of contributions in the KVdR', () => {
+      const result = calculateStatutoryStatusContributions('kvdr', { ...income, versorgungsbezuege: 2000 }, parameters)
+
+      expect(result.assessmentBase.versorgungsbezuege).toBe(0)
+      expect(result.careInsuranceAnnual).toBeCloseTo(24000 * 0.034, 6)
+    })
+
+    it('should assess all income of voluntarily insured retirees', () => {
+      const result = calculateStatutoryStatusContributions('freiwillig', income, parameters)
+
+      // Reduced rate of 14.0% on capital and other income
+      expect(result.healthInsuranceAnnual).toBeCloseTo(24000 * 0.073 + 6000 * 0.146 + 25000 * 0.14, 6)
+      expect(result.careInsuranceAnnual).toBeCloseTo(55000 * 0.034, 6)
+      expect(result.totalAnnual).toBeGreaterThan(
+        calculateStatutoryStatusContributions('kvdr', income, parameters).totalAnnual,
+      )
+    })
+
+    it('should assess at least the Mindestbemessungsgrundlage for voluntarily insured retirees', () => {
+      const result = calculateStatutoryStatusContributions(
+        'freiwillig',
+        { statutoryPension: 6000, versorgungsbezuege: 0, capitalIncome: 0, otherIncome: 0 },
+        parameters,
+      )
+
+      expect(result.assessmentBase.healthBase).toBe(13230)
+      expect(result.healthInsuranceAnnual).toBeCloseTo(6000 * 0.073 + 7230 * 0.14, 6)
+    })
+
+    it('should assess the pension first up to the Beitragsbemessungsgrenze', () => {
+      const result = calculateStatutoryStatusContributions(
+        'freiwillig',
+        { statutoryPension: 50000, versorgungsbezuege: 0, capitalIncome: 30000, otherIncome: 0 },
+        parameters,
+      )
+
+      expect(result.assessmentBase.otherIncome).toBe(12550)
+      expect(result.healthInsuranceAnnual).toBeCloseTo(50000 * 0.073 + 12550 * 0.14, 6)
+    })
+  })
+})
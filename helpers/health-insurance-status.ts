@@ -0,0 +1,299 @@
+/**
+ * Membership status in the statutory health insurance during retirement
+ *
+ * Retirees are compulsorily insured in the Krankenversicherung der Rentner (KVdR, § 5 Abs. 1 Nr. 11 SGB V) when
+ * they were insured in the statutory health insurance for at least 9/10 of the second half of their working life.
+ * Every child counts as three years of insurance. Otherwise they are voluntarily insured (freiwillig gesetzlich
+ * versichert).
+ *
+ * - KVdR (§ 237 SGB V): contributions only on the statutory pension and Versorgungsbezüge (e.g. Betriebsrenten).
+ *   Versorgungsbezüge stay free of health insurance contributions up to a Freibetrag and free of care insurance
+ *   contributions up to the same Freigrenze.
+ * - Freiwillig (§ 240 SGB V): contributions on all income including capital income, rental income and the
+ *   realized gains of withdrawals, at least on the Mindestbemessungsgrundlage. Capital income is assessed with
+ *   the latest income tax assessment, i.e. the capital income of the previous year.
+ *
+ * The Rentenversicherung carries half of the general health insurance rate on the statutory pension (as
+ * Beitragszuschuss for voluntarily insured retirees). Other income of voluntarily insured retirees pays the
+ * ermäßigter Beitragssatz without Krankengeld. Care insurance is paid in full by the retiree. The income is
+ * assessed up to the Beitragsbemessungsgrenze in the order pension, Versorgungsbezüge, other income.
+ */
+
+import type { OtherIncomeResult, IncomeType } from './other-income'
+
+/**
+ * Years of insurance credited per child for the KVdR (§ 5 Abs. 2 Satz 3 SGB V)
+ */
+export const KVDR_CHILD_CREDIT_YEARS = 3
+
+/**
+ * Share of the second half of the working life that has to be insured for the KVdR
+ */
+export const KVDR_REQUIRED_SHARE = 0.9
+
+/**
+ * Annual Freibetrag (health insurance) and Freigrenze (care insurance) of Versorgungsbezüge in 2025
+ */
+export const VERSORGUNGSBEZUEGE_FREIBETRAG_ANNUAL = 187.25 * 12
+
+/**
+ * Difference between the general and the ermäßigter Beitragssatz without Krankengeld (14.6% vs. 14.0%)
+ */
+export const REDUCED_HEALTH_INSURANCE_RATE_DIFFERENCE = 0.6
+
+/**
+ * Other income types treated as Versorgungsbezüge (Betriebsrenten and Pensionen)
+ */
+const VERSORGUNGSBEZUG_INCOME_TYPES: IncomeType[] = ['pension']
+
+/**
+ * Other income types assessed for voluntarily insured retirees besides the Versorgungsbezüge
+ */
+const ASSESSABLE_OTHER_INCOME_TYPES: IncomeType[] = [
+  'rental',
+  'business',
+  'investment',
+  'bu_rente',
+  'kapitallebensversicherung',
+  'ruerup_rente',
+  'riester_rente',
+  'other',
+]
+
+/**
+ * Membership status in the statutory health insurance during retirement
+ */
+export type StatutoryInsuranceStatus = 'kvdr' | 'freiwillig'
+
+/**
+ * Insurance history for the KVdR eligibility check (9/10-Regelung)
+ */
+export interface KvdrEligibilityConfig {
+  /** Year of the first employment, the start of the working life */
+  firstEmploymentYear: number
+  /** Years with statutory health insurance (own or family insurance) in the second half of the working life */
+  statutoryInsuranceYearsSecondHalf: number
+  /** Number of children, each credited with three years of insurance */
+  numberOfChildren: number
+}
+
+/**
+ * Result of the KVdR eligibility check
+ */
+export interface KvdrEligibilityResult {
+  /** Years from the first employment until the retirement start */
+  workingLifeYears: number
+  /** Second half of the working life in years */
+  secondHalfYears: number
+  /** Years of insurance required in the second half (9/10) */
+  requiredYears: number
+  /** Years credited for children */
+  childCreditYears: number
+  /** Years of insurance including the child credits, at most the second half */
+  creditedYears: number
+  /** Whether the retiree is insured in the KVdR */
+  eligible: boolean
+}
+
+/**
+ * Income of a retirement year relevant for the statutory health insurance assessment
+ */
+export interface HealthInsuranceAssessmentIncome {
+  /** Gross statutory pension */
+  statutoryPension: number
+  /** Versorgungsbezüge such as Betriebsrenten */
+  versorgungsbezuege: number
+  /** Capital income (realized gains, Vorabpauschale and private sales) of the previous year */
+  capitalIncome: number
+  /** Rental and other income */
+  otherIncome: number
+}
+
+/**
+ * Assessed income by contribution rate
+ */
+export interface StatutoryAssessmentBase {
+  /** Assessed statutory pension, half of the health insurance rate is carried by the Rentenversicherung */
+  pension: number
+  /** Assessed Versorgungsbezüge, general health insurance rate */
+  versorgungsbezuege: number
+  /** Assessed other income including the top-up to the Mindestbemessungsgrundlage, reduced health insurance rate */
+  otherIncome: number
+  /** Assessment base of the health insurance */
+  healthBase: number
+  /** Assessment base of the care insurance */
+  careBase: number
+}
+
+/**
+ * Annual contributions of a retiree with a given membership status
+ */
+export interface StatutoryStatusContributions {
+  healthInsuranceAnnual: number
+  careInsuranceAnnual: number
+  totalAnnual: number
+  assessmentBase: StatutoryAssessmentBase
+}
+
+/**
+ * Assessment limits and contribution rates in percent
+ */
+export interface StatutoryStatusParameters {
+  /** Mindestbemessungsgrundlage of voluntarily insured members (annual) */
+  minimumIncomeBase: number
+  /** Beitragsbemessungsgrenze (annual) */
+  maximumIncomeBase: number
+  /** General health insurance rate including both halves */
+  healthRate: number
+  /** Care insurance rate including the surcharge for childless retirees */
+  careRate: number
+}
+
+/**
+ * Check the 9/10-Regelung of the KVdR for a retirement starting in the given year
+ */
+export function checkKvdrEligibility(
+  config: KvdrEligibilityConfig,
+  retirementStartYear: number,
+): KvdrEligibilityResult {
+  const workingLifeYears = Math.max(0, retirementStartYear - config.firstEmploymentYear)
+  const secondHalfYears = workingLifeYears / 2
+  const requiredYears = secondHalfYears * KVDR_REQUIRED_SHARE
+  const childCreditYears = Math.max(0, config.numberOfChildren) * KVDR_CHILD_CREDIT_YEARS
+  const creditedYears = Math.min(
+    secondHalfYears,
+    Math.max(0, config.statutoryInsuranceYearsSecondHalf) + childCreditYears,
+  )
+
+  return {
+    workingLifeYears,
+    secondHalfYears,
+    requiredYears,
+    childCreditYears,
+    creditedYears,
+    eligible: creditedYears >= requiredYears,
+  }
+}
+
+/**
+ * Create a default insurance history: employed from the age of 25 and always statutorily insured
+ */
+export function createDefaultKvdrEligibilityConfig(retirementStartYear: number): KvdrEligibilityConfig {
+  return {
+    firstEmploymentYear: retirementStartYear - 42,
+    statutoryInsuranceYearsSecondHalf: 21,
+    numberOfChildren: 0,
+  }
+}
+
+/**
+ * Versorgungsbezüge and other assessable income of a year from the other income sources
+ */
+export function getAssessableOtherIncome(
+  otherIncomeData: OtherIncomeResult,
+  year: number,
+): Pick<HealthInsuranceAssessmentIncome, 'versorgungsbezuege' | 'otherIncome'> {
+  const sources = otherIncomeData[year]?.sources ?? []
+  const sumOfTypes = (types: IncomeType[]) =>
+    sources
+      .filter(source => types.includes(source.source.type))
+      .reduce((sum, source) => sum + Math.max(0, source.grossAnnualAmount), 0)
+
+  return {
+    versorgungsbezuege: sumOfTypes(VERSORGUNGSBEZUG_INCOME_TYPES),
+    otherIncome: sumOfTypes(ASSESSABLE_OTHER_INCOME_TYPES),
+  }
+}
+
+/**
+ * Assess the amounts in order up to the maximum
+ */
+function assessInOrder(amounts: number[], maximum: number): number[] {
+  let remaining = maximum
+  return amounts.map(amount => {
+    const assessed = Math.min(Math.max(0, amount), remaining)
+    remaining -= assessed
+    return assessed
+  })
+}
+
+/**
+ * KVdR: statutory pension and Versorgungsbezüge above the Freibetrag (health) or Freigrenze (care)
+ */
+function calculateKvdrAssessmentBase(
+  income: HealthInsuranceAssessmentIncome,
+  maximumIncomeBase: number,
+): StatutoryAssessmentBase {
+  const { statutoryPension, versorgungsbezuege } = income
+  const [pension, healthVersorgungsbezuege] = assessInOrder(
+    [statutoryPension, versorgungsbezuege - VERSORGUNGSBEZUEGE_FREIBETRAG_ANNUAL],
+    maximumIncomeBase,
+  )
+  const careVersorgungsbezuege = versorgungsbezuege > VERSORGUNGSBEZUEGE_FREIBETRAG_ANNUAL ? versorgungsbezuege : 0
+  const careParts = assessInOrder([statutoryPension, careVersorgungsbezuege], maximumIncomeBase)
+
+  return {
+    pension,
+    versorgungsbezuege: healthVersorgungsbezuege,
+    otherIncome: 0,
+    healthBase: pension + healthVersorgungsbezuege,
+    careBase: careParts[0] + careParts[1],
+  }
+}
+
+/**
+ * Freiwillig: all income, at least the Mindestbemessungsgrundlage
+ */
+function calculateFreiwilligAssessmentBase(
+  income: HealthInsuranceAssessmentIncome,
+  parameters: StatutoryStatusParameters,
+): StatutoryAssessmentBase {
+  const [pension, versorgungsbezuege, otherIncome] = assessInOrder(
+    [income.statutoryPension, income.versorgungsbezuege, income.capitalIncome + income.otherIncome],
+    parameters.maximumIncomeBase,
+  )
+  const topUp = Math.max(0, parameters.minimumIncomeBase - pension - versorgungsbezuege - otherIncome)
+  const healthBase = pension + versorgungsbezuege + otherIncome + topUp
+
+  return { pension, versorgungsbezuege, otherIncome: otherIncome + topUp, healthBase, careBase: healthBase }
+}
+
+/**
+ * Assessment base of a retiree with the given membership status
+ */
+export function calculateStatutoryAssessmentBase(
+  status: StatutoryInsuranceStatus,
+  income: HealthInsuranceAssessmentIncome,
+  parameters: StatutoryStatusParameters,
+): StatutoryAssessmentBase {
+  return status === 'kvdr'
+    ? calculateKvdrAssessmentBase(income, parameters.maximumIncomeBase)
+    : calculateFreiwilligAssessmentBase(income, parameters)
+}
+
+/**
+ * Annual health and care insurance contributions of a retiree with the given membership status
+ */
+export function calculateStatutoryStatusContributions(
+  status: StatutoryInsuranceStatus,
+  income: HealthInsuranceAssessmentIncome,
+  parameters: StatutoryStatusParameters,
+): StatutoryStatusContributions {
+  const assessmentBase = calculateStatutoryAssessmentBase(status, income, parameters)
+  const { healthRate, careRate } = parameters
+  const reducedHealthRate = Math.max(0, healthRate - REDUCED_HEALTH_INSURANCE_RATE_DIFFERENCE)
+
+  const healthInsuranceAnnual =
+    (assessmentBase.pension * (healthRate / 2) +
+      assessmentBase.versorgungsbezuege * healthRate +
+      assessmentBase.otherIncome * reducedHealthRate) /
+    100
+  const careInsuranceAnnual = assessmentBase.careBase * (careRate / 100)
+
+  return {
+    healthInsuranceAnnual,
+    careInsuranceAnnual,
+    totalAnnual: healthInsuranceAnnual + careInsuranceAnnual,
+    assessmentBase,
+  }
+}
@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest'
+import {
+  calculatePropertyTimeline,
+  createDefaultPropertyOwnershipConfig,
+  getPropertyAnnuity,
+  getPropertyDepotFlowsByYear,
+  getPropertyLoanAmount,
+  getPropertySavingsReductionByYear,
+  type PropertyOwnershipConfig,
+} from './immobilien-eigentum'
+
+describe('immobilien-eigentum', () => {
+  const createConfig = (overrides: Partial<PropertyOwnershipConfig> = {}): PropertyOwnershipConfig => ({
+    ...createDefaultPropertyOwnershipConfig(2025),
+    enabled: true,
+    purchasePrice: 300000,
+    purchaseCostsRate: 10,
+    equityFromDepot: 60000,
+    interestRate: 4,
+    initialRepaymentRate: 2,
+    appreciationRate: 2,
+    sellingCostsRate: 5,
+    ...overrides,
+  })
+
+  describe('createDefaultPropertyOwnershipConfig', () => {
+    it('should create a disabled config for the purchase year', () => {
+      const config = createDefaultPropertyOwnershipConfig(2030)
+
+      expect(config.enabled).toBe(false)
+      expect(config.purchaseYear).toBe(2030)
+      expect(config.specialRepayments).toEqual([])
+      expect(config.sales).toEqual([])
+    })
+  })
+
+  describe('getPropertyLoanAmount', () => {
+    it('should finance purchase price and costs beyond the equity', () => {
+      expect(getPropertyLoanAmount(createConfig())).toBeCloseTo(270000)
+      expect(getPropertyAnnuity(createConfig())).toBeCloseTo(16200)
+    })
+
+    it('should not need a loan when the equity covers the purchase', () => {
+      expect(getPropertyLoanAmount(createConfig({ equityFromDepot: 400000 }))).toBe(0)
+    })
+  })
+
+  describe('calculatePropertyTimeline', () => {
+    it('should return an empty timeline when disabled', () => {
+      expect(calculatePropertyTimeline(createConfig({ enabled: false }), 2040)).toEqual([])
+    })
+
+    it('should amortize the loan with the annuity and appreciate the property', () => {
+      const timeline = calculatePropertyTimeline(createConfig(), 2030)
+      const [first, second] = timeline
+
+      expect(timeline).toHaveLength(6)
+      expect(first.year).toBe(2025)
+      expect(first.mortgagePayment).toBeCloseTo(16200)
+      expect(first.interest + first.repayment).toBeCloseTo(16200)
+      expect(first.remainingDebt).toBeCloseTo(270000 - first.repayment)
+      expect(second.repayment).toBeGreaterThan(first.repayment)
+      expect(first.propertyValue).toBeCloseTo(306000)
+      expect(first.propertyEquity).toBeCloseTo(first.propertyValue - first.remainingDebt)
+    })
+
+    it('should cap special repayments at the remaining debt and stop the payments afterwards', () => {
+      const timeline = calculatePropertyTimeline(
+        createConfig({ specialRepayments: [{ year: 2026, amount: 1000000 }] }),
+        2028,
+      )
+
+      expect(timeline[1].remainingDebt).toBe(0)
+      expect(timeline[1].specialRepayment).toBeCloseTo(timeline[0].remainingDebt - timeline[1].repayment)
+      expect(timeline[2].mortgagePayment).toBe(0)
+    })
+
+    it('should repay the debt proportionally on a partial sale', () => {
+      const timeline = calculatePropertyTimeline(createConfig({ sales: [{ year: 2025, sharePercent: 50 }] }), 2026)
+      const withoutSale = calculatePropertyTimeline(createConfig(), 2025)[0]
+      const netSalePrice = 306000 * 0.5 * 0.95
+
+      expect(timeline[0].ownedShare).toBeCloseTo(0.5)
+      expect(timeline[0].propertyValue).toBeCloseTo(153000)
+      expect(timeline[0].remainingDebt).toBeCloseTo(withoutSale.remainingDebt / 2)
+      expect(timeline[0].saleProceeds).toBeCloseTo(netSalePrice - withoutSale.remainingDebt / 2)
+      expect(timeline).toHaveLength(2)
+    })
+
+    it('should stop tracking the property after the full sale', () => {
+      const timeline = calculatePropertyTimeline(
+        createConfig({
+          sales: [
+            { year: 2026, sharePercent: 30 },
+            { year: 2027, sharePercent: 70 },
+          ],
+        }),
+        2035,
+      )
+
+      expect(timeline).toHaveLength(3)
+      expect(timeline[2].ownedShare).toBe(0)
+      expect(timeline[2].remainingDebt).toBeCloseTo(0)
+      expect(timeline[2].saleProceeds).toBeGreaterThan(0)
+    })
+
+    it('should pay off the remaining debt in the last year of the loan', () => {
+      const timeline = calculatePropertyTimeline(createConfig({ initialRepaymentRate: 60 }), 2028)
+
+      expect(timeline[0].remainingDebt).toBeGreaterThan(0)
+      expect(timeline[1].remainingDebt).toBeCloseTo(0)
+      expect(timeline[1].mortgagePayment).toBeLessThan(timeline[0].mortgagePayment)
+      expect(timeline[1].repayment).toBeCloseTo(timeline[0].remainingDebt)
+      expect(timeline[2].mortgagePayment).toBe(0)
+    })
+
+    it('should only pay the interest without an initial repayment', () => {
+      const [first] = calculatePropertyTimeline(createConfig({ initialRepaymentRate: 0 }), 2025)
+
+      expect(first.interest).toBeCloseTo(10800)
+      expect(first.repayment).toBe(0)
+      expect(first.remainingDebt).toBeCloseTo(270000)
+    })
+
+    it('should repay the whole debt on a full sale and report a residual debt as negative proceeds', () => {
+      const timeline = calculatePropertyTimeline(
+        createConfig({ appreciationRate: -30, sales: [{ year: 2025, sharePercent: 100 }] }),
+        2030,
+      )
+      const withoutSale = calculatePropertyTimeline(createConfig({ appreciationRate: -30 }), 2025)[0]
+
+      expect(timeline).toHaveLength(1)
+      expect(timeline[0].remainingDebt).toBe(0)
+      expect(timeline[0].saleProceeds).toBeCloseTo(210000 * 0.95 - withoutSale.remainingDebt)
+      expect(timeline[0].saleProceeds).toBeLessThan(0)
+    })
+  })
+
+  describe('getPropertySavingsReductionByYear', () => {
+    it('should return the mortgage payments per year', () => {
+      const timeline = calculatePropertyTimeline(createConfig(), 2026)
+
+      expect(getPropertySavingsReductionByYear(timeline)).toEqual({
+        2025: timeline[0].mortgagePayment,
+        2026: timeline[1].mortgagePayment,
+      })
+    })
+  })
+  describe('getPropertyDepotFlowsByYear', () => {
+    it('should return the mortgage payments per year and the sale proceeds in the year after the sale', () => {
+      const timeline = calculatePropertyTimeline(createConfig({ sales: [{ year: 2026, sharePercent: 100 }] }), 2030)
+
+      expect(getPropertyDepotFlowsByYear(timeline)).toEqual({
+        2025: { mortgagePayment: timeline[0].mortgagePayment, saleProceeds: 0 },
+        2026: { mortgagePayment: timeline[1].mortgagePayment, saleProceeds: 0 },
+        2027: { mortgagePayment: 0, saleProceeds: timeline[1].saleProceeds },
+      })
+    })
+  })
+})
@@ -0,0 +1,286 @@
+/**
+ * Home ownership as part of the main simulation timeline.
+ * The property is an asset and the annuity loan a liability on the balance sheet: the equity is taken
+ * from the depot in the purchase year, the mortgage payments reduce the savings capacity (what the savings do not
+ * cover is paid from the depot) and the proceeds of a later (partial) sale flow back into the depot after repaying
+ * the loan. In the withdrawal phase the mortgage payments are sold from the depot on top of the withdrawal.
+ */
+
+import { calculateLoanTermYears, generateAmortizationSchedule } from './credit-calculation'
+
+/**
+ * Special repayment (Sondertilgung) on the loan in a given year
+ */
+export interface PropertySpecialRepayment {
+  year: number
+  /** Amount in EUR; capped at the remaining debt */
+  amount: number
+}
+
+/**
+ * Sale of the whole property or a part of it (Teilverkauf)
+ */
+export interface PropertySale {
+  year: number
+  /** Share of the original property sold, in % (100 = sale of the whole property) */
+  sharePercent: number
+}
+
+/**
+ * Configuration of the owned property and its financing
+ */
+export interface PropertyOwnershipConfig {
+  enabled: boolean
+
+  /** Year in which the property is bought */
+  purchaseYear: number
+
+  /** Purchase price of the property in EUR */
+  purchasePrice: number
+
+  /** One-time purchase costs (notary, Grunderwerbsteuer, broker) as % of the purchase price */
+  purchaseCostsRate: number
+
+  /** Equity taken from the depot at the beginning of the purchase year in EUR */
+  equityFromDepot: number
+
+  /** Annual interest rate of the annuity loan (%) */
+  interestRate: number
+
+  /** Initial annual repayment rate of the annuity loan (%, Anfangstilgung) */
+  initialRepaymentRate: number
+
+  /** Special repayments paid from the savings of the respective year */
+  specialRepayments: PropertySpecialRepayment[]
+
+  /** Annual property appreciation rate (%) */
+  appreciationRate: number
+
+  /** Selling costs as % of the sale price */
+  sellingCostsRate: number
+
+  /** Planned sales of the property or parts of it */
+  sales: PropertySale[]
+}
+
+/**
+ * Balance sheet values of the property in a single year
+ */
+export interface PropertyYearResult {
+  year: number
+  /** Market value of the owned share of the property at the end of the year */
+  propertyValue: number
+  /** Owned share of the property at the end of the year (0-1) */
+  ownedShare: number
+  /** Remaining debt at the end of the year */
+  remainingDebt: number
+  /** Property value minus remaining debt */
+  propertyEquity: number
+  /** Interest paid during the year */
+  interest: number
+  /** Regular repayment during the year */
+  repayment: number
+  /** Special repayment during the year */
+  specialRepayment: number
+  /** Total paid from the savings during the year (interest, repayment and special repayment) */
+  mortgagePayment: number
+  /**
+   * Sale proceeds after selling costs and loan repayment, paid into the depot; negative if the proceeds
+   * of the sale of the whole property do not cover the remaining debt
+   */
+  saleProceeds: number
+}
+
+/**
+ * Year-by-year balance sheet values of the property, starting with the purchase year
+ */
+export type PropertyTimeline = PropertyYearResult[]
+
+/**
+ * Cash flows between the property and the depot in a year
+ */
+export interface PropertyDepotFlow {
+  /** Mortgage payments of the year */
+  mortgagePayment: number
+  /** Proceeds of a sale in the previous year, paid in at the beginning of the year; negative for a residual debt */
+  saleProceeds: number
+}
+
+/**
+ * Create a default configuration for a purchase in the given year
+ */
+export function createDefaultPropertyOwnershipConfig(purchaseYear: number): PropertyOwnershipConfig {
+  return {
+    enabled: false,
+    purchaseYear,
+    purchasePrice: 400000,
+    purchaseCostsRate: 10,
+    equityFromDepot: 80000,
+    interestRate: 3.5,
+    initialRepaymentRate: 2,
+    specialRepayments: [],
+    appreciationRate: 2,
+    sellingCostsRate: 3,
+    sales: [],
+  }
+}
+
+/**
+ * Loan amount needed to finance purchase price and purchase costs beyond the equity
+ */
+export function getPropertyLoanAmount(config: PropertyOwnershipConfig): number {
+  const totalCosts = config.purchasePrice * (1 + config.purchaseCostsRate / 100)
+  return Math.max(0, totalCosts - config.equityFromDepot)
+}
+
+/**
+ * Fixed annual annuity of the loan: loan amount times (interest rate + initial repayment rate)
+ */
+export function getPropertyAnnuity(config: PropertyOwnershipConfig): number {
+  return (getPropertyLoanAmount(config) * (config.interestRate + config.initialRepaymentRate)) / 100
+}
+
+/**
+ * Amortize the loan for one year with monthly annuity payments: the first year of the amortization schedule
+ * over the remaining term. A remaining term below one year pays off the debt within the year.
+ */
+function amortizeYear(
+  debt: number,
+  annuity: number,
+  interestRate: number,
+): { interest: number; repayment: number; endingDebt: number } {
+  if (debt <= 0) {
+    return { interest: 0, repayment: 0, endingDebt: 0 }
+  }
+
+  const termYears = calculateLoanTermYears(debt, interestRate / 100, annuity / 12)
+  if (!Number.isFinite(termYears)) {
+    // The annuity only covers the interest: the debt is not repaid
+    return { interest: annuity, repayment: 0, endingDebt: debt }
+  }
+
+  const [firstYear] = generateAmortizationSchedule(debt, interestRate / 100, Math.max(1, termYears))
+  return { interest: firstYear.interest, repayment: firstYear.principal, endingDebt: firstYear.endingBalance }
+}
+
+/**
+ * Sale of a share of the property: the net proceeds repay the debt proportionally to the sold
+ * share of the remaining ownership, anything left over is paid into the depot. A sale of the whole
+ * remaining property repays the whole debt; if the proceeds do not cover it, the sale proceeds are negative
+ * and the residual debt is paid from the depot.
+ */
+function sellShare(
+  config: PropertyOwnershipConfig,
+  fullPropertyValue: number,
+  ownedShare: number,
+  debt: number,
+  sharePercent: number,
+): { soldShare: number; debtRepayment: number; saleProceeds: number } {
+  const soldShare = Math.min(ownedShare, sharePercent / 100)
+  if (soldShare <= 0) {
+    return { soldShare: 0, debtRepayment: 0, saleProceeds: 0 }
+  }
+
+  const netSalePrice = fullPropertyValue * soldShare * (1 - config.sellingCostsRate / 100)
+  const debtRepayment = soldShare >= ownedShare ? debt : Math.min(debt * (soldShare / ownedShare), netSalePrice)
+
+  return { soldShare, debtRepayment, saleProceeds: netSalePrice - debtRepayment }
+}
+
+/**
+ * Total sale share in % planned for a year
+ */
+function getSaleSharePercent(config: PropertyOwnershipConfig, year: number): number {
+  return config.sales.filter(sale => sale.year === year).reduce((sum, sale) => sum + sale.sharePercent, 0)
+}
+
+/**
+ * Total special repayment planned for a year
+ */
+function getSpecialRepaymentAmount(config: PropertyOwnershipConfig, year: number): number {
+  return config.specialRepayments
+    .filter(repayment => repayment.year === year)
+    .reduce((sum, repayment) => sum + repayment.amount, 0)
+}
+
+/**
+ * Calculate the property and loan values from the purchase year until endYear.
+ * Sales take place at the end of the year after the regular payments; the property is
+ * no longer tracked once it has been sold completely.
+ */
+export function calculatePropertyTimeline(config: PropertyOwnershipConfig, endYear: number): PropertyTimeline {
+  const timeline: PropertyTimeline = []
+  if (!config.enabled) {
+    return timeline
+  }
+
+  const annuity = getPropertyAnnuity(config)
+  let debt = getPropertyLoanAmount(config)
+  let ownedShare = 1
+
+  for (let year = config.purchaseYear; year <= endYear && ownedShare > 0; year++) {
+    const { interest, repayment, endingDebt } = amortizeYear(debt, annuity, config.interestRate)
+    const specialRepayment = Math.min(endingDebt, getSpecialRepaymentAmount(config, year))
+    debt = endingDebt - specialRepayment
+
+    const fullPropertyValue =
+      config.purchasePrice * Math.pow(1 + config.appreciationRate / 100, year - config.purchaseYear + 1)
+    const sale = sellShare(config, fullPropertyValue, ownedShare, debt, getSaleSharePercent(config, year))
+    ownedShare = Math.max(0, ownedShare - sale.soldShare)
+    if (ownedShare < 1e-9) {
+      ownedShare = 0
+    }
+    debt -= sale.debtRepayment
+
+    const propertyValue = fullPropertyValue * ownedShare
+    timeline.push({
+      year,
+      propertyValue,
+      ownedShare,
+      remainingDebt: debt,
+      propertyEquity: propertyValue - debt,
+      interest,
+      repayment,
+      specialRepayment,
+      mortgagePayment: interest + repayment + specialRepayment,
+      saleProceeds: sale.saleProceeds,
+    })
+  }
+
+  return timeline
+}
+
+/**
+ * Mortgage payments per year, by which the savings contributions of the year are reduced
+ */
+export function getPropertySavingsReductionByYear(timeline: PropertyTimeline): Record<number, number> {
+  const reductionByYear: Record<number, number> = {}
+  for (const entry of timeline) {
+    if (entry.mortgagePayment > 0) {
+      reductionByYear[entry.year] = entry.mortgagePayment
+    }
+  }
+  return reductionByYear
+}
+
+/**
+ * Cash flows between the property and the depot per year: the mortgage payments of each year and the
+ * sale proceeds in the year after the sale
+ */
+export function getPropertyDepotFlowsByYear(timeline: PropertyTimeline): Record<number, PropertyDepotFlow> {
+  const flowsByYear: Record<number, PropertyDepotFlow> = {}
+  const getFlow = (year: number) => {
+    flowsByYear[year] = flowsByYear[year] ?? { mortgagePayment: 0, saleProceeds: 0 }
+    return flowsByYear[year]
+  }
+
+  for (const entry of timeline) {
+    if (entry.mortgagePayment > 0) {
+      getFlow(entry.year).mortgagePayment += entry.mortgagePayment
+    }
+    if (entry.saleProceeds !== 0) {
+      getFlow(entry.year + 1).saleProceeds += entry.saleProceeds
+    }
+  }
+  return flowsByYear
+}
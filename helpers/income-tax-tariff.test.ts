@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_TARIFF_INDEXATION,
+  FIRST_TARIFF_YEAR,
+  INCOME_TAX_TARIFFS,
+  LAST_OFFICIAL_TARIFF_YEAR,
+  createTaxBracketsFromTariff,
+  getIncomeTaxTariffForYear,
+  getTaxBracketsForYear,
+} from './income-tax-tariff'
+import { calculateProgressiveTax } from './steuer'
+
+const taxForYear = (income: number, year: number) =>
+  calculateProgressiveTax(income, 0, 0, getTaxBracketsForYear(year)).totalTax
+
+describe('INCOME_TAX_TARIFFS', () => {
+  it('should contain the official tariffs for 2023 to 2026', () => {
+    expect(FIRST_TARIFF_YEAR).toBe(2023)
+    expect(LAST_OFFICIAL_TARIFF_YEAR).toBe(2026)
+    expect(INCOME_TAX_TARIFFS[2023].grundfreibetrag).toBe(10908)
+    expect(INCOME_TAX_TARIFFS[2024].grundfreibetrag).toBe(11784)
+    expect(INCOME_TAX_TARIFFS[2025].grundfreibetrag).toBe(12096)
+    expect(INCOME_TAX_TARIFFS[2026].grundfreibetrag).toBe(12348)
+  })
+
+  it('should keep the Reichensteuer limit at 277,825 €', () => {
+    Object.values(INCOME_TAX_TARIFFS).forEach(tariff => {
+      expect(tariff.zone4Upper).toBe(277825)
+      expect(tariff.isOfficial).toBe(true)
+    })
+  })
+})
+
+describe('getIncomeTaxTariffForYear', () => {
+  it('should return the official tariff for registered years', () => {
+    expect(getIncomeTaxTariffForYear(2025)).toBe(INCOME_TAX_TARIFFS[2025])
+  })
+
+  it('should use the first registered tariff for earlier years', () => {
+    expect(getIncomeTaxTariffForYear(2015)).toBe(INCOME_TAX_TARIFFS[2023])
+  })
+
+  it('should index limits for years after the last official tariff', () => {
+    const tariff = getIncomeTaxTariffForYear(2028, { enabled: true, annualRate: 0.02 })
+
+    expect(tariff.year).toBe(2028)
+    expect(tariff.isOfficial).toBe(false)
+    expect(tariff.grundfreibetrag).toBeCloseTo(12348 * 1.02 * 1.02, 6)
+    expect(tariff.zone3Upper).toBeCloseTo(69878 * 1.02 * 1.02, 6)
+    expect(tariff.zone2Coefficient).toBeCloseTo(914.51 / (1.02 * 1.02), 6)
+  })
+
+  it('should freeze the last official tariff when indexation is disabled', () => {
+    const tariff = getIncomeTaxTariffForYear(2040, { enabled: false, annualRate: 0.02 })
+
+    expect(tariff.year).toBe(2040)
+    expect(tariff.isOfficial).toBe(false)
+    expect(tariff.grundfreibetrag).toBe(12348)
+    expect(tariff.zone3Upper).toBe(69878)
+  })
+
+  it('should use the default indexation of 2% per year', () => {
+    expect(DEFAULT_TARIFF_INDEXATION).toEqual({ enabled: true, annualRate: 0.02 })
+    expect(getIncomeTaxTariffForYear(2027).grundfreibetrag).toBeCloseTo(12348 * 1.02, 6)
+  })
+})
+
+describe('createTaxBracketsFromTariff', () => {
+  it('should create five zones matching the tariff limits', () => {
+    const brackets = createTaxBracketsFromTariff(INCOME_TAX_TARIFFS[2026])
+
+    expect(brackets).toHaveLength(5)
+    expect(brackets.map(bracket => bracket.to)).toEqual([12348, 17799, 69878, 277825, undefined])
+    expect(brackets.map(bracket => bracket.marginalRate)).toEqual([0, 0.14, 0.2397, 0.42, 0.45])
+  })
+})
+
+describe('progressive tax with year-specific tariffs', () => {
+  it('should match the official tax amounts (§32a EStG)', () => {
+    // Official results: 2024 → 4,412 €, 2025 → 4,303 €, 2026 → 4,217 € for 30,000 € zvE
+    expect(Math.floor(taxForYear(30000, 2024))).toBe(4412)
+    expect(Math.floor(taxForYear(30000, 2025))).toBe(4303)
+    expect(Math.floor(taxForYear(30000, 2026))).toBe(4217)
+  })
+
+  it('should be continuous at all zone limits', () => {
+    Object.values(INCOME_TAX_TARIFFS).forEach(tariff => {
+      const limits = [tariff.grundfreibetrag, tariff.zone2Upper, tariff.zone3Upper, tariff.zone4Upper]
+      limits.forEach(limit => {
+        expect(Math.abs(taxForYear(limit + 1, tariff.year) - taxForYear(limit, tariff.year))).toBeLessThan(1)
+      })
+    })
+  })
+
+  it('should not tax income below the Grundfreibetrag of the year', () => {
+    expect(taxForYear(12000, 2024)).toBeGreaterThan(0)
+    expect(taxForYear(12000, 2025)).toBe(0)
+  })
+
+  it('should lower the tax on the same nominal income in indexed years', () => {
+    expect(taxForYear(50000, 2035)).toBeLessThan(taxForYear(50000, 2026))
+  })
+
+  it('should scale the tax with the indexation factor', () => {
+    const factor = Math.pow(1.02, 4)
+    expect(taxForYear(40000 * factor, 2030)).toBeCloseTo(taxForYear(40000, 2026) * factor, 6)
+  })
+})
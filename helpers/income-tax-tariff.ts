@@ -0,0 +1,220 @@
+/**
+ * Income Tax Tariff Registry (Einkommensteuertarif nach §32a EStG)
+ *
+ * The German income tax tariff changes every year: the Grundfreibetrag and the zone limits
+ * are raised to compensate for inflation (Abbau der kalten Progression). This module keeps the
+ * official tariff parameters per year and derives tariffs for future years via a configurable
+ * indexation rule, so long simulations do not apply today's tariff to incomes decades ahead.
+ *
+ * Tariff formula (§32a Abs. 1 EStG):
+ * - Zone 1: zvE ≤ Grundfreibetrag → 0
+ * - Zone 2: (a × y + 1,400) × y, y = (zvE − Grundfreibetrag) / 10,000
+ * - Zone 3: (b × z + 2,397) × z + base, z = (zvE − Zone 2 limit) / 10,000
+ * - Zone 4: 42% on income above the Zone 3 limit
+ * - Zone 5: 45% on income above the Reichensteuer limit
+ *
+ * @see https://www.gesetze-im-internet.de/estg/__32a.html
+ */
+
+import type { TaxBracket } from './steuer'
+
+/**
+ * Parameters of the §32a EStG tariff for a single year
+ */
+export interface IncomeTaxTariff {
+  /** Year the tariff applies to */
+  year: number
+  /** Grundfreibetrag (upper limit of Zone 1) */
+  grundfreibetrag: number
+  /** Upper limit of Zone 2 (first progression zone) */
+  zone2Upper: number
+  /** Quadratic coefficient of Zone 2 */
+  zone2Coefficient: number
+  /** Upper limit of Zone 3 (second progression zone) */
+  zone3Upper: number
+  /** Quadratic coefficient of Zone 3 */
+  zone3Coefficient: number
+  /** Upper limit of Zone 4 (start of Reichensteuer) */
+  zone4Upper: number
+  /** Whether the parameters are official values or derived by indexation */
+  isOfficial: boolean
+}
+
+/**
+ * Indexation rule for years after the last officially published tariff
+ */
+export interface IncomeTaxTariffIndexation {
+  /** Whether Grundfreibetrag and zone limits rise after the last official tariff year */
+  enabled: boolean
+  /** Annual increase of Grundfreibetrag and zone limits (e.g., 0.02 for 2%) */
+  annualRate: number
+}
+
+/**
+ * Default indexation: limits rise with the 2% inflation target of the ECB,
+ * which matches the average adjustment of the tariff in recent years
+ */
+export const DEFAULT_TARIFF_INDEXATION: IncomeTaxTariffIndexation = {
+  enabled: true,
+  annualRate: 0.02,
+}
+
+/** Linear coefficient of Zone 2 (14% entry rate) */
+const ZONE2_LINEAR_COEFFICIENT = 1400
+
+/** Linear coefficient of Zone 3 (23.97% rate at the start of Zone 3) */
+const ZONE3_LINEAR_COEFFICIENT = 2397
+
+/**
+ * Official tariff parameters per year.
+ * 2024 uses the retroactively raised Grundfreibetrag of the Steuerfortentwicklungsgesetz,
+ * 2025 and 2026 the values enacted by the same law.
+ */
+export const INCOME_TAX_TARIFFS: Record<number, IncomeTaxTariff> = {
+  2023: {
+    year: 2023,
+    grundfreibetrag: 10908,
+    zone2Upper: 15999,
+    zone2Coefficient: 979.18,
+    zone3Upper: 62809,
+    zone3Coefficient: 192.59,
+    zone4Upper: 277825,
+    isOfficial: true,
+  },
+  2024: {
+    year: 2024,
+    grundfreibetrag: 11784,
+    zone2Upper: 17005,
+    zone2Coefficient: 954.8,
+    zone3Upper: 66760,
+    zone3Coefficient: 181.19,
+    zone4Upper: 277825,
+    isOfficial: true,
+  },
+  2025: {
+    year: 2025,
+    grundfreibetrag: 12096,
+    zone2Upper: 17443,
+    zone2Coefficient: 932.3,
+    zone3Upper: 68480,
+    zone3Coefficient: 176.64,
+    zone4Upper: 277825,
+    isOfficial: true,
+  },
+  2026: {
+    year: 2026,
+    grundfreibetrag: 12348,
+    zone2Upper: 17799,
+    zone2Coefficient: 914.51,
+    zone3Upper: 69878,
+    zone3Coefficient: 173.1,
+    zone4Upper: 277825,
+    isOfficial: true,
+  },
+}
+
+const OFFICIAL_TARIFF_YEARS = Object.keys(INCOME_TAX_TARIFFS)
+  .map(Number)
+  .sort((a, b) => a - b)
+
+/** First year with an official tariff in the registry */
+export const FIRST_TARIFF_YEAR = OFFICIAL_TARIFF_YEARS[0]
+
+/** Last year with an official tariff in the registry */
+export const LAST_OFFICIAL_TARIFF_YEAR = OFFICIAL_TARIFF_YEARS[OFFICIAL_TARIFF_YEARS.length - 1]
+
+/**
+ * Scale a tariff by an indexation factor.
+ *
+ * All limits are multiplied by the factor and the quadratic coefficients are divided by it.
+ * This keeps every marginal rate unchanged while shifting it to a higher income, i.e.
+ * tax(zvE) = factor × baseTax(zvE / factor).
+ */
+function indexTariff(baseTariff: IncomeTaxTariff, year: number, factor: number): IncomeTaxTariff {
+  return {
+    year,
+    grundfreibetrag: baseTariff.grundfreibetrag * factor,
+    zone2Upper: baseTariff.zone2Upper * factor,
+    zone2Coefficient: baseTariff.zone2Coefficient / factor,
+    zone3Upper: baseTariff.zone3Upper * factor,
+    zone3Coefficient: baseTariff.zone3Coefficient / factor,
+    zone4Upper: baseTariff.zone4Upper * factor,
+    isOfficial: false,
+  }
+}
+
+/**
+ * Get the income tax tariff for a year.
+ *
+ * - Years with an official tariff return the registered parameters
+ * - Years before the first registered year use the first registered tariff
+ * - Years after the last official tariff are derived by indexation (or frozen if indexation is disabled)
+ *
+ * @param year - The year being calculated
+ * @param indexation - Indexation rule for years after the last official tariff
+ * @returns The tariff parameters for the year
+ */
+export function getIncomeTaxTariffForYear(
+  year: number,
+  indexation: IncomeTaxTariffIndexation = DEFAULT_TARIFF_INDEXATION,
+): IncomeTaxTariff {
+  if (INCOME_TAX_TARIFFS[year]) {
+    return INCOME_TAX_TARIFFS[year]
+  }
+
+  if (year < FIRST_TARIFF_YEAR) {
+    return INCOME_TAX_TARIFFS[FIRST_TARIFF_YEAR]
+  }
+
+  const lastTariff = INCOME_TAX_TARIFFS[LAST_OFFICIAL_TARIFF_YEAR]
+  if (!indexation.enabled || indexation.annualRate === 0) {
+    return { ...lastTariff, year, isOfficial: false }
+  }
+
+  const factor = Math.pow(1 + indexation.annualRate, year - LAST_OFFICIAL_TARIFF_YEAR)
+  return indexTariff(lastTariff, year, factor)
+}
+
+/**
+ * Convert tariff parameters into the tax bracket representation used by calculateProgressiveTax
+ *
+ * @param tariff - The tariff parameters
+ * @returns Tax brackets for Zones 1 to 5
+ */
+export function createTaxBracketsFromTariff(tariff: IncomeTaxTariff): TaxBracket[] {
+  return [
+    { from: 0, to: tariff.grundfreibetrag, baseTax: 0, marginalRate: 0 },
+    {
+      from: tariff.grundfreibetrag + 1,
+      to: tariff.zone2Upper,
+      baseTax: 0,
+      marginalRate: ZONE2_LINEAR_COEFFICIENT / 10000,
+      y: tariff.zone2Coefficient,
+      linearCoefficient: ZONE2_LINEAR_COEFFICIENT,
+    },
+    {
+      from: tariff.zone2Upper + 1,
+      to: tariff.zone3Upper,
+      baseTax: 0,
+      marginalRate: ZONE3_LINEAR_COEFFICIENT / 10000,
+      y: tariff.zone3Coefficient,
+      linearCoefficient: ZONE3_LINEAR_COEFFICIENT,
+    },
+    { from: tariff.zone3Upper + 1, to: tariff.zone4Upper, baseTax: 0, marginalRate: 0.42 },
+    { from: tariff.zone4Upper + 1, to: undefined, baseTax: 0, marginalRate: 0.45 },
+  ]
+}
+
+/**
+ * Get the tax brackets for a year (shortcut for tariff lookup + bracket conversion)
+ *
+ * @param year - The year being calculated
+ * @param indexation - Indexation rule for years after the last official tariff
+ * @returns Tax brackets to pass to calculateProgressiveTax
+ */
+export function getTaxBracketsForYear(
+  year: number,
+  indexation: IncomeTaxTariffIndexation = DEFAULT_TARIFF_INDEXATION,
+): TaxBracket[] {
+  return createTaxBracketsFromTariff(getIncomeTaxTariffForYear(year, indexation))
+}
@@ -0,0 +1,194 @@
+import { describe, it, expect } from 'vitest'
+import {
+  CASH_FLOW_COLUMNS,
+  calculateCashFlowStatement,
+  getCashFlowColumnValue,
+  type CashFlowStatementInput,
+} from './kapitalflussrechnung'
+import type { Sparplan, SparplanElement } from '../src/utils/sparplan-utils'
+import type { WithdrawalResultElement } from './withdrawal'
+
+describe('kapitalflussrechnung', () => {
+  const yearData = (bezahlteSteuer = 0) => ({
+    startkapital: 0,
+    zinsen: 0,
+    endkapital: 0,
+    bezahlteSteuer,
+    genutzterFreibetrag: 0,
+    vorabpauschale: 0,
+    vorabpauschaleAccumulated: 0,
+  })
+
+  const savingsElements: SparplanElement[] = [
+    { start: '2025-01-01', type: 'sparplan', einzahlung: 12000, simulation: { 2025: yearData(50), 2026: yearData() } },
+    {
+      start: '2026-03-01',
+      type: 'einmalzahlung',
+      einzahlung: 50000,
+      gewinn: 0,
+      eventType: 'inheritance',
+      simulation: { 2026: yearData() },
+    },
+    {
+      start: '2026-06-01',
+      type: 'einmalzahlung',
+      einzahlung: -20000,
+      gewinn: 0,
+      eventType: 'expense',
+      simulation: { 2026: yearData() },
+    },
+  ]
+
+  const withdrawalYear: WithdrawalResultElement = {
+    startkapital: 500000,
+    entnahme: 20000,
+    endkapital: 495000,
+    bezahlteSteuer: 1000,
+    genutzterFreibetrag: 1000,
+    zinsen: 16000,
+    einkommensteuer: 500,
+    statutoryPension: { grossAnnualAmount: 18000, netAnnualAmount: 16000, incomeTax: 2000, taxableAmount: 15000 },
+    otherIncome: { totalNetAmount: 3000, totalTaxAmount: 600, sourceCount: 1 },
+    healthCareInsurance: {
+      healthInsuranceAnnual: 2500,
+      careInsuranceAnnual: 700,
+      totalAnnual: 3200,
+      healthInsuranceMonthly: 0,
+      careInsuranceMonthly: 0,
+      totalMonthly: 0,
+      usedFixedAmounts: false,
+      isRetirementPhase: true,
+      effectiveHealthInsuranceRate: 0,
+      effectiveCareInsuranceRate: 0,
+    },
+  }
+
+  const input: CashFlowStatementInput = {
+    savingsElements,
+    withdrawalResult: { 2027: withdrawalYear },
+    taxesPaidFromDepot: { sparphase: true, entnahmephase: true },
+  }
+
+  const creditEvent: Sparplan = {
+    id: 1,
+    start: new Date('2025-07-01'),
+    end: new Date('2025-07-01'),
+    einzahlung: -24000,
+    eventType: 'expense',
+    specialEventData: { expenseType: 'car', creditTerms: { interestRate: 0, termYears: 2, monthlyPayment: 1000 } },
+  }
+
+  describe('calculateCashFlowStatement', () => {
+    it('should cover savings and withdrawal phase', () => {
+      const statement = calculateCashFlowStatement(input)
+
+      expect(statement.map(entry => [entry.year, entry.phase])).toEqual([
+        [2025, 'sparphase'],
+        [2026, 'sparphase'],
+        [2027, 'entnahmephase'],
+      ])
+    })
+
+    it('should balance contributions, special events and depot taxes in the savings phase', () => {
+      const [first, second] = calculateCashFlowStatement(input)
+
+      expect(first.inflows.einkommen).toBe(12000)
+      expect(first.outflows.depotEinzahlungen).toBe(12000)
+      expect(first.outflows.steuern).toBe(50)
+      expect(first.inflows.depotEntnahmen).toBe(50)
+      expect(first.status).toBe('balanced')
+
+      expect(second.inflows.sonderereignisse).toBe(50000)
+      expect(second.inflows.depotEntnahmen).toBe(20000)
+      expect(second.outflows.sonderausgaben).toBe(20000)
+      expect(second.netCashFlow).toBe(0)
+    })
+
+    it('should flag a deficit when the taxes are not paid from the depot', () => {
+      const [first] = calculateCashFlowStatement({
+        ...input,
+        taxesPaidFromDepot: { sparphase: false, entnahmephase: true },
+      })
+
+      expect(first.netCashFlow).toBe(-50)
+      expect(first.status).toBe('deficit')
+    })
+
+    it('should add paid out distributions to the inflows and withhold their tax from the payout', () => {
+      const ausschuettungDetails = {
+        ausschuettungAmount: 1000,
+        quellensteuer: 150,
+        anrechenbareQuellensteuer: 150,
+        steuerVorFreibetrag: 34.63,
+        reinvested: false,
+        bezahlteSteuer: 34.63,
+        auszahlung: 815.37,
+        reinvestiert: 0,
+      }
+      const [first] = calculateCashFlowStatement({
+        ...input,
+        savingsElements: [
+          {
+            ...savingsElements[0],
+            simulation: { 2025: { ...yearData(84.63), ausschuettung: 1000, ausschuettungDetails } },
+          },
+        ],
+      })
+
+      expect(first.inflows.ausschuettungen).toBeCloseTo(850)
+      expect(first.inflows.depotEntnahmen).toBeCloseTo(50)
+      expect(first.outflows.steuern).toBeCloseTo(84.63)
+      expect(first.netCashFlow).toBeCloseTo(815.37)
+    })
+
+    it('should aggregate withdrawals, pensions, taxes and insurance in the withdrawal phase', () => {
+      const withdrawal = calculateCashFlowStatement(input)[2]
+
+      expect(withdrawal.inflows.depotEntnahmen).toBe(21000)
+      expect(withdrawal.inflows.renten).toBe(18000)
+      expect(withdrawal.inflows.sonstigeEinkuenfte).toBe(3600)
+      expect(withdrawal.outflows.steuern).toBe(1000 + 500 + 2000 + 600)
+      expect(withdrawal.outflows.krankenPflegeversicherung).toBe(3200)
+      expect(withdrawal.outflows.lebenshaltung).toBe(20000)
+      expect(withdrawal.netCashFlow).toBe(42600 - 7300 - 20000)
+      expect(withdrawal.status).toBe('surplus')
+    })
+
+    it('should subtract the spending need and track the cumulative liquidity', () => {
+      const statement = calculateCashFlowStatement({
+        ...input,
+        withdrawalResult: {
+          2027: {
+            ...withdrawalYear,
+            bedarfsorientierteEntnahme: {
+              ausgabenbedarf: 40000,
+              nettoEinkommen: 0,
+              nettoBedarf: 0,
+              geschaetzteSteuern: 0,
+              bruttoEntnahme: 0,
+            },
+          },
+        },
+        savingsElements: [...savingsElements, { ...creditEvent, type: 'einmalzahlung', gewinn: 0, simulation: {} }],
+      })
+
+      expect(statement[0].outflows.sonderausgaben).toBe(24000)
+      expect(statement[0].status).toBe('balanced')
+      expect(statement[2].outflows.lebenshaltung).toBe(40000)
+      expect(statement[2].netCashFlow).toBe(42600 - 7300 - 40000)
+      expect(statement[2].cumulativeLiquidity).toBeCloseTo(statement.reduce((sum, entry) => sum + entry.netCashFlow, 0))
+    })
+  })
+
+  describe('getCashFlowColumnValue', () => {
+    it('should scale flows to monthly values but keep the cumulative liquidity', () => {
+      const withdrawal = calculateCashFlowStatement(input)[2]
+      const saldo = CASH_FLOW_COLUMNS.find(column => column.label === 'Saldo')!
+      const liquidity = CASH_FLOW_COLUMNS.find(column => column.label === 'Kumulierte Liquidität')!
+
+      expect(getCashFlowColumnValue(saldo, withdrawal, 'yearly')).toBe(withdrawal.netCashFlow)
+      expect(getCashFlowColumnValue(saldo, withdrawal, 'monthly')).toBeCloseTo(withdrawal.netCashFlow / 12)
+      expect(getCashFlowColumnValue(liquidity, withdrawal, 'monthly')).toBe(withdrawal.cumulativeLiquidity)
+    })
+  })
+})
@@ -0,0 +1,314 @@
+import type { SparplanElement } from '../src/utils/sparplan-utils'
+import type { WithdrawalResult, WithdrawalResultElement } from './withdrawal'
+
+/**
+ * Inflow categories of the household cash flow statement
+ */
+export type CashFlowInflowCategory =
+  | 'einkommen'
+  | 'sonderereignisse'
+  | 'depotEntnahmen'
+  | 'ausschuettungen'
+  | 'renten'
+  | 'sonstigeEinkuenfte'
+
+/**
+ * Outflow categories of the household cash flow statement. Credit-financed expenses count in full
+ * as Sonderausgaben in the year of the event, because the simulation pays them out of the depot.
+ */
+export type CashFlowOutflowCategory =
+  | 'depotEinzahlungen'
+  | 'sonderausgaben'
+  | 'steuern'
+  | 'krankenPflegeversicherung'
+  | 'lebenshaltung'
+
+export const CASH_FLOW_INFLOW_LABELS: Record<CashFlowInflowCategory, string> = {
+  einkommen: 'Einkommen (Sparleistung)',
+  sonderereignisse: 'Erbschaften & Verkäufe',
+  depotEntnahmen: 'Entnahmen aus dem Depot',
+  ausschuettungen: 'Ausgezahlte Ausschüttungen',
+  renten: 'Renten',
+  sonstigeEinkuenfte: 'Sonstige Einkünfte & Arbeitseinkommen',
+}
+
+export const CASH_FLOW_OUTFLOW_LABELS: Record<CashFlowOutflowCategory, string> = {
+  depotEinzahlungen: 'Einzahlungen ins Depot',
+  sonderausgaben: 'Sonderausgaben',
+  steuern: 'Steuern',
+  krankenPflegeversicherung: 'Kranken- & Pflegeversicherung',
+  lebenshaltung: 'Lebenshaltungskosten',
+}
+
+/**
+ * Liquidity status of a year (amounts below one euro count as balanced)
+ */
+export type CashFlowStatus = 'surplus' | 'deficit' | 'balanced'
+
+export const CASH_FLOW_STATUS_LABELS: Record<CashFlowStatus, string> = {
+  surplus: 'Überschuss',
+  deficit: 'Defizit',
+  balanced: 'Ausgeglichen',
+}
+
+/**
+ * Cash flow statement of one year
+ */
+export interface CashFlowYear {
+  year: number
+  phase: 'sparphase' | 'entnahmephase'
+  inflows: Record<CashFlowInflowCategory, number>
+  outflows: Record<CashFlowOutflowCategory, number>
+  totalInflows: number
+  totalOutflows: number
+  /** Total inflows minus total outflows */
+  netCashFlow: number
+  /** Running sum of the net cash flow */
+  cumulativeLiquidity: number
+  status: CashFlowStatus
+}
+
+export interface CashFlowStatementInput {
+  /** Simulated savings phase elements */
+  savingsElements: SparplanElement[]
+  /** Withdrawal phase result (null when not yet calculated) */
+  withdrawalResult: WithdrawalResult | null
+  /** Whether the capital gains taxes are settled from the depot (savings / withdrawal phase) */
+  taxesPaidFromDepot: { sparphase: boolean; entnahmephase: boolean }
+}
+
+const SPECIAL_INFLOW_EVENTS = new Set(['inheritance', 'business_sale'])
+
+function createEmptyInflows(): Record<CashFlowInflowCategory, number> {
+  return { einkommen: 0, sonderereignisse: 0, depotEntnahmen: 0, ausschuettungen: 0, renten: 0, sonstigeEinkuenfte: 0 }
+}
+
+function createEmptyOutflows(): Record<CashFlowOutflowCategory, number> {
+  return {
+    depotEinzahlungen: 0,
+    sonderausgaben: 0,
+    steuern: 0,
+    krankenPflegeversicherung: 0,
+    lebenshaltung: 0,
+  }
+}
+
+/**
+ * Capital gains taxes of the depot; when they are settled from the depot, the same amount
+ * is taken from the depot so that they do not burden the household liquidity
+ */
+function addCapitalGainsTax(
+  tax: number,
+  paidFromDepot: boolean,
+  inflows: Record<CashFlowInflowCategory, number>,
+  outflows: Record<CashFlowOutflowCategory, number>,
+): void {
+  outflows.steuern += tax
+  if (paidFromDepot) {
+    inflows.depotEntnahmen += tax
+  }
+}
+
+/**
+ * Capital gains taxes of an element in a savings year. Distributions that are paid out add to the
+ * household income; when taxes are settled from the depot, their tax is withheld from the payout.
+ */
+function addElementTaxesAndDistributions(
+  element: SparplanElement,
+  year: number,
+  paidFromDepot: boolean,
+  inflows: Record<CashFlowInflowCategory, number>,
+  outflows: Record<CashFlowOutflowCategory, number>,
+): void {
+  const yearData = element.simulation[year]
+  const ausschuettung = yearData?.ausschuettungDetails
+  if (!ausschuettung) {
+    addCapitalGainsTax(yearData?.bezahlteSteuer ?? 0, paidFromDepot, inflows, outflows)
+    return
+  }
+
+  const taxFromPayout = !ausschuettung.reinvested && paidFromDepot ? ausschuettung.bezahlteSteuer : 0
+  addCapitalGainsTax(yearData.bezahlteSteuer - taxFromPayout, paidFromDepot, inflows, outflows)
+  outflows.steuern += taxFromPayout
+  inflows.ausschuettungen += ausschuettung.auszahlung + taxFromPayout
+}
+
+/**
+ * Savings phase flows of one year: contributions are funded from the part of the income that is
+ * saved, so they balance out; lump sums from inheritances or sales flow into the depot and expenses
+ * are paid out of the depot
+ */
+function addSavingsFlows(
+  input: CashFlowStatementInput,
+  year: number,
+  inflows: Record<CashFlowInflowCategory, number>,
+  outflows: Record<CashFlowOutflowCategory, number>,
+): void {
+  for (const element of input.savingsElements) {
+    addElementTaxesAndDistributions(element, year, input.taxesPaidFromDepot.sparphase, inflows, outflows)
+    if (new Date(element.start).getFullYear() !== year) {
+      continue
+    }
+
+    if (element.einzahlung < 0) {
+      inflows.depotEntnahmen += -element.einzahlung
+      outflows.sonderausgaben += -element.einzahlung
+    } else {
+      const category = SPECIAL_INFLOW_EVENTS.has(element.eventType ?? 'normal') ? 'sonderereignisse' : 'einkommen'
+      inflows[category] += element.einzahlung
+      outflows.depotEinzahlungen += element.einzahlung
+    }
+  }
+}
+
+/**
+ * Pensions and other income of a withdrawal year (gross, before taxes and contributions)
+ */
+function addWithdrawalIncome(result: WithdrawalResultElement, inflows: Record<CashFlowInflowCategory, number>): void {
+  const otherIncome = result.otherIncome
+  const workIncome = result.workIncome
+
+  inflows.renten += result.statutoryPension?.grossAnnualAmount ?? 0
+  if (otherIncome) {
+    inflows.sonstigeEinkuenfte += otherIncome.totalNetAmount + otherIncome.totalTaxAmount
+  }
+  if (workIncome) {
+    inflows.renten += workIncome.emRenteGrossAmount
+    inflows.sonstigeEinkuenfte += workIncome.partTimeGrossAmount
+  }
+}
+
+/**
+ * Income taxes on the withdrawal, the statutory pension and other income of a withdrawal year
+ */
+function getWithdrawalIncomeTaxes(result: WithdrawalResultElement): number {
+  return (
+    (result.einkommensteuer ?? 0) +
+    (result.statutoryPension?.incomeTax ?? 0) +
+    (result.otherIncome?.totalTaxAmount ?? 0)
+  )
+}
+
+/**
+ * Health and care insurance of a withdrawal year, including contributions on part-time work income
+ */
+function getWithdrawalInsurance(result: WithdrawalResultElement): number {
+  return (result.healthCareInsurance?.totalAnnual ?? 0) + (result.workIncome?.socialSecurityContributions ?? 0)
+}
+
+/**
+ * Withdrawal phase flows of one year taken from the withdrawal engine result. The withdrawal is spent
+ * on living costs like the saved income of the savings phase; the bedarfsorientierte strategy spends
+ * its whole spending need, which pensions and other income cover together with the withdrawal.
+ */
+function addWithdrawalFlows(
+  result: WithdrawalResultElement,
+  paidFromDepot: boolean,
+  inflows: Record<CashFlowInflowCategory, number>,
+  outflows: Record<CashFlowOutflowCategory, number>,
+): void {
+  inflows.depotEntnahmen += result.entnahme
+  addWithdrawalIncome(result, inflows)
+  addCapitalGainsTax(result.bezahlteSteuer, paidFromDepot, inflows, outflows)
+  outflows.steuern += getWithdrawalIncomeTaxes(result)
+  outflows.krankenPflegeversicherung += getWithdrawalInsurance(result)
+  outflows.lebenshaltung += result.bedarfsorientierteEntnahme?.ausgabenbedarf ?? result.entnahme
+}
+
+function getSavingsYears(elements: SparplanElement[]): number[] {
+  const years = new Set<number>()
+  for (const element of elements) {
+    Object.keys(element.simulation).forEach(year => years.add(Number(year)))
+  }
+  return Array.from(years)
+}
+
+function getStatus(netCashFlow: number): CashFlowStatus {
+  if (netCashFlow >= 1) {
+    return 'surplus'
+  }
+  return netCashFlow <= -1 ? 'deficit' : 'balanced'
+}
+
+function sumValues(values: Record<string, number>): number {
+  return Object.values(values).reduce((sum, value) => sum + value, 0)
+}
+
+/**
+ * Yearly household cash flow statement (Kapitalflussrechnung) across savings and withdrawal phase.
+ * Aggregates contributions, special events, withdrawals, pensions, other income, health and care
+ * insurance, taxes and living costs and tracks the cumulative liquidity.
+ */
+export function calculateCashFlowStatement(input: CashFlowStatementInput): CashFlowYear[] {
+  const withdrawalYears = Object.keys(input.withdrawalResult ?? {}).map(Number)
+  const years = Array.from(new Set([...getSavingsYears(input.savingsElements), ...withdrawalYears])).sort(
+    (a, b) => a - b,
+  )
+
+  let cumulativeLiquidity = 0
+  return years.map(year => {
+    const inflows = createEmptyInflows()
+    const outflows = createEmptyOutflows()
+    const withdrawalYearResult = input.withdrawalResult?.[year]
+
+    addSavingsFlows(input, year, inflows, outflows)
+    if (withdrawalYearResult) {
+      addWithdrawalFlows(withdrawalYearResult, input.taxesPaidFromDepot.entnahmephase, inflows, outflows)
+    }
+
+    const totalInflows = sumValues(inflows)
+    const totalOutflows = sumValues(outflows)
+    const netCashFlow = totalInflows - totalOutflows
+    cumulativeLiquidity += netCashFlow
+
+    return {
+      year,
+      phase: withdrawalYearResult ? 'entnahmephase' : 'sparphase',
+      inflows,
+      outflows,
+      totalInflows,
+      totalOutflows,
+      netCashFlow,
+      cumulativeLiquidity,
+      status: getStatus(netCashFlow),
+    }
+  })
+}
+
+/**
+ * Reporting period of the cash flow statement; monthly values are the yearly flows divided by twelve
+ */
+export type CashFlowPeriod = 'yearly' | 'monthly'
+
+/**
+ * Columns of the tabular cash flow statement (table and CSV export).
+ * Flow columns are scaled to the period, the cumulative liquidity is always the end-of-year value.
+ */
+export const CASH_FLOW_COLUMNS: Array<{ label: string; isFlow: boolean; getValue: (entry: CashFlowYear) => number }> = [
+  ...(Object.keys(CASH_FLOW_INFLOW_LABELS) as CashFlowInflowCategory[]).map(category => ({
+    label: CASH_FLOW_INFLOW_LABELS[category],
+    isFlow: true,
+    getValue: (entry: CashFlowYear) => entry.inflows[category],
+  })),
+  { label: 'Summe Zuflüsse', isFlow: true, getValue: entry => entry.totalInflows },
+  ...(Object.keys(CASH_FLOW_OUTFLOW_LABELS) as CashFlowOutflowCategory[]).map(category => ({
+    label: CASH_FLOW_OUTFLOW_LABELS[category],
+    isFlow: true,
+    getValue: (entry: CashFlowYear) => entry.outflows[category],
+  })),
+  { label: 'Summe Abflüsse', isFlow: true, getValue: entry => entry.totalOutflows },
+  { label: 'Saldo', isFlow: true, getValue: entry => entry.netCashFlow },
+  { label: 'Kumulierte Liquidität', isFlow: false, getValue: entry => entry.cumulativeLiquidity },
+]
+
+/**
+ * Value of a column for the reporting period
+ */
+export function getCashFlowColumnValue(
+  column: (typeof CASH_FLOW_COLUMNS)[number],
+  entry: CashFlowYear,
+  period: CashFlowPeriod,
+): number {
+  const value = column.getValue(entry)
+  return column.isFlow && period === 'monthly' ? value / 12 : value
+}
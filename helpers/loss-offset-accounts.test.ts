@@ -13,6 +13,8 @@ import {
   getLossAccountTypeName,
   getLossAccountTypeDescription,
   analyzeMultiYearLossUsage,
+  getLossOffsetSimulationOptions,
+  DEFAULT_LOSS_OFFSET_CONFIGURATION,
   type LossAccountState,
   type RealizedLossesConfig,
   type MultiYearLossTracking,
@@ -330,6 +332,28 @@ describe('Loss Offset Accounts', () => {
     })
   })
 
+  describe('getLossOffsetSimulationOptions', () => {
+    it('should disable the loss offset by default', () => {
+      expect(getLossOffsetSimulationOptions(DEFAULT_LOSS_OFFSET_CONFIGURATION, 2025)).toEqual({
+        lossOffsetEnabled: false,
+      })
+    })
+
+    it('should carry the initial losses forward from the year before the start year', () => {
+      const realizedLossesByYear = { 2030: { stockLosses: 500, otherLosses: 0, year: 2030 } }
+      const options = getLossOffsetSimulationOptions(
+        { enabled: true, initialStockLosses: 3000, initialOtherLosses: 1000, realizedLossesByYear },
+        2025,
+      )
+
+      expect(options).toEqual({
+        lossOffsetEnabled: true,
+        initialLossAccountState: { stockLosses: 3000, otherLosses: 1000, year: 2024 },
+        realizedLossesByYear,
+      })
+    })
+  })
+
   describe('validateLossAccountState', () => {
     it('should validate correct state', () => {
       const state: LossAccountState = {
@@ -164,6 +164,60 @@ export function createDefaultRealizedLosses(year: number): RealizedLossesConfig
   }
 }
 
+/**
+ * Global configuration of the loss offset accounts, saved with the profile and applied in the
+ * savings and the withdrawal phase
+ */
+export interface LossOffsetConfiguration {
+  /** Offset losses against capital income (Verlustverrechnung) */
+  enabled: boolean
+  /** Aktienverlusttopf carried forward from before the simulation start in EUR */
+  initialStockLosses: number
+  /** Sonstiger Verlusttopf carried forward from before the simulation start in EUR */
+  initialOtherLosses: number
+  /** Losses realized outside of the simulated portfolio per year */
+  realizedLossesByYear: Record<number, RealizedLossesConfig>
+}
+
+/**
+ * Default loss offset configuration (disabled, no losses)
+ */
+export const DEFAULT_LOSS_OFFSET_CONFIGURATION: LossOffsetConfiguration = {
+  enabled: false,
+  initialStockLosses: 0,
+  initialOtherLosses: 0,
+  realizedLossesByYear: {},
+}
+
+/**
+ * Convert the loss offset configuration into the loss offset options of the simulation
+ * @param config - Global loss offset configuration
+ * @param startYear - First simulated year (the initial losses are the state at the end of the year before)
+ * @returns Loss offset options for simulate and calculateWithdrawal
+ */
+export function getLossOffsetSimulationOptions(
+  config: LossOffsetConfiguration,
+  startYear: number,
+): {
+  lossOffsetEnabled: boolean
+  initialLossAccountState?: LossAccountState
+  realizedLossesByYear?: Record<number, RealizedLossesConfig>
+} {
+  if (!config.enabled) {
+    return { lossOffsetEnabled: false }
+  }
+
+  return {
+    lossOffsetEnabled: true,
+    initialLossAccountState: {
+      stockLosses: config.initialStockLosses,
+      otherLosses: config.initialOtherLosses,
+      year: startYear - 1,
+    },
+    realizedLossesByYear: config.realizedLossesByYear,
+  }
+}
+
 /**
  * Validate loss account state
  * @param state - Loss account state to validate
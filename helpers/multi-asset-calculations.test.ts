@@ -3,6 +3,8 @@ import {
   generateMultiAssetReturns,
   simulateMultiAssetPortfolio,
   calculateEquivalentSingleAssetReturn,
+  generateHistoricalReplayReturns,
+  generateAssetClassReturns,
 } from './multi-asset-calculations'
 import { createDefaultMultiAssetConfig, type MultiAssetPortfolioConfig } from './multi-asset-portfolio'
 
@@ -68,6 +70,77 @@ describe('multi-asset-calculations', () => {
     })
   })
 
+  describe('historical replay', () => {
+    const replayConfig = (historicalStartYear?: number): MultiAssetPortfolioConfig => ({
+      ...defaultConfig,
+      simulation: { ...defaultConfig.simulation, useHistoricalReplay: true, historicalStartYear },
+    })
+
+    it('replays the joint history of the asset classes from the start year', () => {
+      const returns = generateMultiAssetReturns([2030, 2031], replayConfig(2008))
+
+      // Default allocation: 60% stocks replay MSCI World, 30% bonds replay Bunds (2008: -40.03% and +9.5%)
+      expect(returns[2030]).toBeCloseTo(0.6 * -0.4003 + 0.3 * 0.095, 6)
+      expect(returns[2031]).toBeCloseTo(0.6 * 0.2995 + 0.3 * 0.04, 6)
+    })
+
+    it('starts again at the first historical year after the last one', () => {
+      const returns = generateHistoricalReplayReturns([2030, 2031], replayConfig(2023))
+      const fromStart = generateHistoricalReplayReturns([2030], replayConfig(1970))
+
+      expect(returns[2031]).toBe(fromStart[2030])
+    })
+
+    it('keeps the expected return of asset classes without historical series', () => {
+      const config = replayConfig(2008)
+      config.assetClasses = {
+        ...config.assetClasses,
+        stocks_domestic: { ...config.assetClasses.stocks_domestic, enabled: false },
+        stocks_international: { ...config.assetClasses.stocks_international, enabled: false },
+        bonds_government: { ...config.assetClasses.bonds_government, enabled: false },
+        bonds_corporate: { ...config.assetClasses.bonds_corporate, enabled: false },
+        real_estate: { ...config.assetClasses.real_estate, enabled: true, targetAllocation: 1 },
+      }
+
+      expect(generateMultiAssetReturns([2030], config)[2030]).toBeCloseTo(config.assetClasses.real_estate.expectedReturn)
+    })
+  })
+
+  describe('generateAssetClassReturns', () => {
+    it('returns the asset class returns behind the weighted portfolio returns', () => {
+      const config = { ...defaultConfig, simulation: { ...defaultConfig.simulation, seed: 4711 } }
+      const assetReturns = generateAssetClassReturns([2030], config)
+      const weighted = Object.entries(assetReturns[2030]).reduce(
+        (sum, [assetClass, assetReturn]) =>
+          sum + assetReturn * config.assetClasses[assetClass as keyof typeof config.assetClasses].targetAllocation,
+        0,
+      )
+
+      expect(Object.keys(assetReturns[2030])).toEqual([
+        'stocks_domestic',
+        'stocks_international',
+        'bonds_government',
+        'bonds_corporate',
+      ])
+      expect(weighted).toBeCloseTo(generateMultiAssetReturns([2030], config)[2030], 10)
+    })
+
+    it('replays the historical returns per asset class', () => {
+      const config = {
+        ...defaultConfig,
+        simulation: { ...defaultConfig.simulation, useHistoricalReplay: true, historicalStartYear: 2008 },
+      }
+      const assetReturns = generateAssetClassReturns([2030], config)
+
+      expect(assetReturns[2030].stocks_international).toBeCloseTo(-0.4003, 6)
+      expect(assetReturns[2030].bonds_government).toBeCloseTo(0.095, 6)
+    })
+
+    it('returns no returns for a disabled portfolio', () => {
+      expect(generateAssetClassReturns([2030], { ...defaultConfig, enabled: false })).toEqual({})
+    })
+  })
+
   describe('calculateEquivalentSingleAssetReturn', () => {
     it('calculates equivalent single asset return correctly', () => {
       const equivalentReturn = calculateEquivalentSingleAssetReturn(defaultConfig, 2023)
@@ -16,6 +16,21 @@ import {
   type RebalancingTransaction,
 } from './multi-asset-portfolio'
 import { applyGlidePath } from './glide-path'
+import { getAlignedHistory } from '../src/utils/historical-dataset'
+
+/**
+ * Series of the historical dataset replayed for each asset class.
+ * Domestic stocks and corporate bonds use MSCI World and Bunds as proxies because the dataset has no
+ * longer history for them; real estate has no series and keeps its expected return.
+ */
+export const ASSET_CLASS_HISTORICAL_SERIES: Partial<Record<AssetClass, string>> = {
+  stocks_domestic: 'msci-world',
+  stocks_international: 'msci-world',
+  bonds_government: 'german-government-bonds',
+  bonds_corporate: 'german-government-bonds',
+  commodities: 'gold',
+  cash: 'eur-money-market',
+}
 
 /**
  * Simple Linear Congruential Generator for reproducible random numbers
@@ -129,23 +144,28 @@ function getEnabledAssets(config: MultiAssetPortfolioConfig): AssetClass[] {
   ) as AssetClass[]
 }
 
+/**
+ * Teilfreistellung (§ 20 InvStG) of a tax category: 30% for equity funds, 60% for real estate funds,
+ * none for bond, commodity and money market funds
+ */
+export function getTaxCategoryTeilfreistellungsquote(
+  taxCategory: 'equity' | 'bond' | 'reit' | 'commodity' | 'cash',
+): number {
+  if (taxCategory === 'equity') {
+    return 0.3
+  }
+  return taxCategory === 'reit' ? 0.6 : 0
+}
+
 /**
  * Calculate tax on capital gains considering German partial exemptions
  */
-function calculateCapitalGainsTax(
+export function calculateCapitalGainsTax(
   capitalGains: number,
   assetConfig: { taxCategory: 'equity' | 'bond' | 'reit' | 'commodity' | 'cash' },
 ): number {
   const capitalGainsTaxRate = 0.26375 // 25% + 5.5% Soli
-  let taxableGains = capitalGains
-
-  if (assetConfig.taxCategory === 'equity') {
-    // 30% partial exemption for equity funds (Teilfreistellung)
-    taxableGains = capitalGains * 0.7
-  } else if (assetConfig.taxCategory === 'reit') {
-    // 60% partial exemption for REITs (Immobilienfonds)
-    taxableGains = capitalGains * 0.4
-  }
+  const taxableGains = capitalGains * (1 - getTaxCategoryTeilfreistellungsquote(assetConfig.taxCategory))
 
   return taxableGains * capitalGainsTaxRate
 }
@@ -939,10 +959,92 @@ export function calculateEquivalentSingleAssetReturn(
   return weightedReturn
 }
 
+/**
+ * Replay the joint history of all enabled asset classes, so the returns keep the historical correlations
+ * and sequences. Simulation years are mapped onto consecutive historical years beginning with
+ * historicalStartYear; after the last historical year the replay starts again at the first one.
+ */
+function generateHistoricalReplayAssetReturns(
+  years: number[],
+  config: MultiAssetPortfolioConfig,
+): Record<number, Record<AssetClass, number>> {
+  const enabledAssets = getEnabledAssets(config)
+  const seriesIds = [
+    ...new Set(enabledAssets.map(assetClass => ASSET_CLASS_HISTORICAL_SERIES[assetClass]).filter(id => id)),
+  ] as string[]
+  const history = getAlignedHistory(seriesIds.length > 0 ? seriesIds : ['msci-world'])
+  const startIndex = Math.max(history.years.indexOf(config.simulation.historicalStartYear ?? history.years[0]), 0)
+  const returns: Record<number, Record<AssetClass, number>> = {}
+
+  years.forEach((year, position) => {
+    const historicalYear = history.years[(startIndex + position) % history.years.length]
+    returns[year] = {} as Record<AssetClass, number>
+    for (const assetClass of enabledAssets) {
+      const seriesId = ASSET_CLASS_HISTORICAL_SERIES[assetClass]
+      returns[year][assetClass] = seriesId
+        ? history.values[seriesId][historicalYear]
+        : config.assetClasses[assetClass].expectedReturn
+    }
+  })
+
+  return returns
+}
+
+/**
+ * Weighted portfolio return of the historical replay with the target allocations
+ */
+export function generateHistoricalReplayReturns(
+  years: number[],
+  config: MultiAssetPortfolioConfig,
+): Record<number, number> {
+  const assetReturns = generateHistoricalReplayAssetReturns(years, config)
+  const returns: Record<number, number> = {}
+
+  for (const year of years) {
+    returns[year] = getEnabledAssets(config).reduce(
+      (sum, assetClass) => sum + assetReturns[year][assetClass] * config.assetClasses[assetClass].targetAllocation,
+      0,
+    )
+  }
+
+  return returns
+}
+
+/**
+ * Generate the returns of every enabled asset class for multiple years. Uses the same random numbers
+ * (or historical replay) as generateMultiAssetReturns, so weighting them with the target allocations
+ * yields the same portfolio returns.
+ */
+export function generateAssetClassReturns(
+  years: number[],
+  config: MultiAssetPortfolioConfig,
+): Record<number, Record<AssetClass, number>> {
+  if (!config.enabled) {
+    return {}
+  }
+  if (config.simulation.useHistoricalReplay) {
+    return generateHistoricalReplayAssetReturns(years, config)
+  }
+
+  const enabledAssets = getEnabledAssets(config)
+  const returns: Record<number, Record<AssetClass, number>> = {}
+
+  for (const year of years) {
+    const rng = new SeededRandom(config.simulation.seed || year * 12345)
+    returns[year] = generateCorrelatedReturns(enabledAssets, config, rng)
+  }
+
+  return returns
+}
+
 /**
  * Generate returns for multiple years (used by simulation engine)
  */
 export function generateMultiAssetReturns(years: number[], config: MultiAssetPortfolioConfig): Record<number, number> {
+  if (config.enabled && config.simulation.useHistoricalReplay) {
+    return generateHistoricalReplayReturns(years, config)
+  }
+
   const returns: Record<number, number> = {}
 
   for (const year of years) {
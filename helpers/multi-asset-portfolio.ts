@@ -230,6 +230,10 @@ export interface MultiAssetPortfolioConfig {
     useCorrelation: boolean
     /** Random seed for reproducible results */
     seed?: number
+    /** Replay the joint history of the historical dataset instead of synthetic correlated returns */
+    useHistoricalReplay?: boolean
+    /** First historical year of the replay (default: first year with data for all asset classes) */
+    historicalStartYear?: number
   }
 
   /** Volatility targeting configuration for dynamic allocation */
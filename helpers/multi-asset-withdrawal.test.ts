@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createMultiAssetWithdrawalState,
+  getWithdrawalTargetAllocations,
+  processAssetClassWithdrawal,
+  sellAssetClasses,
+} from './multi-asset-withdrawal'
+import { createDefaultMultiAssetConfig, type MultiAssetPortfolioConfig } from './multi-asset-portfolio'
+
+describe('multi-asset-withdrawal', () => {
+  // 60% international stocks (equity) and 40% government bonds
+  const createConfig = (overrides: Partial<MultiAssetPortfolioConfig> = {}): MultiAssetPortfolioConfig => {
+    const config = createDefaultMultiAssetConfig()
+    return {
+      ...config,
+      enabled: true,
+      assetClasses: {
+        ...config.assetClasses,
+        stocks_domestic: { ...config.assetClasses.stocks_domestic, enabled: false },
+        stocks_international: { ...config.assetClasses.stocks_international, targetAllocation: 0.6 },
+        bonds_government: { ...config.assetClasses.bonds_government, targetAllocation: 0.4 },
+        bonds_corporate: { ...config.assetClasses.bonds_corporate, enabled: false },
+      },
+      ...overrides,
+    }
+  }
+
+  const glidePath = {
+    ...createDefaultMultiAssetConfig().glidePath,
+    enabled: true,
+    startEquityAllocation: 0.9,
+    targetEquityAllocation: 0.3,
+    startAge: 25,
+    targetAge: 67,
+  }
+
+  const createState = (config: MultiAssetPortfolioConfig) => {
+    const state = createMultiAssetWithdrawalState(config, [2025, 2026], 2025, 1965)
+    state.assetReturns = {
+      2025: { stocks_international: 0.1, bonds_government: 0.02 },
+      2026: { stocks_international: -0.2, bonds_government: 0.04 },
+    }
+    return state
+  }
+
+  describe('sellAssetClasses', () => {
+    it('should sell proportionally from a portfolio at its target allocation', () => {
+      const sales = sellAssetClasses(
+        { stocks_international: 60, bonds_government: 40 },
+        { stocks_international: 0.6, bonds_government: 0.4 },
+        10,
+      )
+
+      expect(sales.stocks_international).toBeCloseTo(6)
+      expect(sales.bonds_government).toBeCloseTo(4)
+    })
+
+    it('should sell overweight asset classes first', () => {
+      const targets = { stocks_international: 0.6, bonds_government: 0.4 }
+
+      expect(sellAssetClasses({ stocks_international: 70, bonds_government: 30 }, targets, 10)).toEqual({
+        stocks_international: 10,
+        bonds_government: 0,
+      })
+      const sales = sellAssetClasses({ stocks_international: 70, bonds_government: 30 }, targets, 50)
+      expect(sales.stocks_international).toBeCloseTo(40)
+      expect(sales.bonds_government).toBeCloseTo(10)
+    })
+
+    it('should not sell more than the holdings', () => {
+      const sales = sellAssetClasses(
+        { stocks_international: 60, bonds_government: 40 },
+        { stocks_international: 1 },
+        500,
+      )
+
+      expect(sales.stocks_international).toBeCloseTo(60)
+      expect(sales.bonds_government).toBeCloseTo(40)
+    })
+  })
+
+  describe('getWithdrawalTargetAllocations', () => {
+    it('should keep the configured allocation without glide path', () => {
+      const state = createState(createConfig())
+
+      expect(getWithdrawalTargetAllocations(state, 2025)).toEqual({
+        age: undefined,
+        allocations: { stocks_international: 0.6, bonds_government: 0.4 },
+      })
+    })
+
+    it('should follow the glide path for the age of the year', () => {
+      const state = createState(createConfig({ glidePath }))
+      const { age, allocations } = getWithdrawalTargetAllocations(state, 2025)
+
+      expect(age).toBe(60)
+      expect(allocations.stocks_international).toBeCloseTo(0.4)
+      expect(allocations.bonds_government).toBeCloseTo(0.6)
+      expect(state.allocations.stocks_international).toBeCloseTo(0.9 - (0.6 * 34) / 42)
+    })
+
+    it('should reduce the risky asset classes after volatile years with volatility targeting', () => {
+      const config = createConfig()
+      const state = createState({ ...config, volatilityTargeting: { ...config.volatilityTargeting, enabled: true } })
+      state.returnHistory = [0.3, -0.3]
+
+      const { allocations } = getWithdrawalTargetAllocations(state, 2027)
+
+      expect(allocations.stocks_international).toBeLessThan(0.6)
+      expect((allocations.stocks_international ?? 0) + (allocations.bonds_government ?? 0)).toBeCloseTo(1)
+    })
+  })
+
+  describe('processAssetClassWithdrawal', () => {
+    it('should sell the equity overweight of the glide path with its Teilfreistellung', () => {
+      const state = createState(createConfig({ glidePath }))
+
+      const result = processAssetClassWithdrawal(state, 2025, 100000, 1000)
+
+      expect(result.sales).toEqual([{ assetClass: 'stocks_international', amount: 1000, teilfreistellungsquote: 0.3 }])
+      expect(result.teilfreistellungsquote).toBe(0.3)
+      expect(result.holdingsTeilfreistellungsquote).toBeCloseTo(
+        (0.3 * ((0.9 - (0.6 * 34) / 42) * 100000 - 1000)) / 99000,
+      )
+    })
+
+    it('should apply the asset class returns and rebalance to the target allocation', () => {
+      const state = createState(createConfig())
+
+      const result = processAssetClassWithdrawal(state, 2025, 100000, 10000)
+
+      expect(result.portfolioReturn).toBeCloseTo(0.6 * 0.1 + 0.4 * 0.02)
+      expect(result.teilfreistellungsquote).toBeCloseTo(0.6 * 0.3)
+      expect(result.allocationsAtEnd).toEqual({ stocks_international: 0.6, bonds_government: 0.4 })
+      expect(result.rebalancingVolume).toBeGreaterThan(0)
+      expect(state.returnHistory).toEqual([result.portfolioReturn])
+    })
+
+    it('should tax the gains realized by the rebalancing sales with their Teilfreistellung', () => {
+      const config = createConfig()
+      const state = createMultiAssetWithdrawalState(config, [2025], 2025, 1965, 0.5)
+      state.assetReturns = { 2025: { stocks_international: 0.1, bonds_government: 0.02 } }
+
+      const result = processAssetClassWithdrawal(state, 2025, 100000, 0)
+
+      // Stocks grow from 60000 to 66000 (cost basis 30000) and are sold down to 60% of 106800
+      const sold = 66000 - 0.6 * 106800
+      const gain = sold * (1 - 30000 / 66000)
+      expect(result.rebalancingCapitalGains).toBeCloseTo(gain)
+      expect(result.rebalancingTax).toBeCloseTo(gain * 0.7 * 0.26375)
+      expect(state.costBasisRatios.stocks_international).toBeCloseTo(30000 / 66000)
+      // Bonds grow from 40000 to 40800 (cost basis 20000) and are bought up to 42720
+      expect(state.costBasisRatios.bonds_government).toBeCloseTo((20000 + 42720 - 40800) / 42720)
+    })
+
+    it('should let the allocation drift without rebalancing', () => {
+      const config = createConfig()
+      const state = createState({ ...config, rebalancing: { ...config.rebalancing, frequency: 'never' } })
+
+      const result = processAssetClassWithdrawal(state, 2025, 100000, 0)
+
+      expect(result.rebalancingVolume).toBe(0)
+      expect(result.allocationsAtEnd.stocks_international).toBeCloseTo(66 / (66 + 40.8))
+      expect(state.allocations).toEqual(result.allocationsAtEnd)
+    })
+  })
+})
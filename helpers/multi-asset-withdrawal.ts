@@ -0,0 +1,340 @@
+/**
+ * Multi-Asset Portfolio in the withdrawal phase
+ *
+ * Tracks the weights of the asset classes across the withdrawal years:
+ * - The target allocation follows the age-based glide path and the volatility targeting
+ * - Withdrawals are sold from overweight asset classes first, the rest proportionally
+ * - Remaining drift is removed by rebalancing according to the rebalancing configuration; the gains
+ *   realized by the rebalancing sales are taxed like in the savings phase
+ * - The Teilfreistellung of the realized gains follows the taxCategory of the asset classes sold
+ */
+
+import {
+  calculateCapitalGainsTax,
+  generateAssetClassReturns,
+  getTaxCategoryTeilfreistellungsquote,
+} from './multi-asset-calculations'
+import type { AssetClass, MultiAssetPortfolioConfig } from './multi-asset-portfolio'
+import { applyGlidePath } from './glide-path'
+import { applyVolatilityTargeting } from './volatility-targeting'
+
+type Allocations = Partial<Record<AssetClass, number>>
+
+/**
+ * Amount of an asset class sold for the withdrawal of a year
+ */
+export interface AssetClassSale {
+  assetClass: AssetClass
+  amount: number
+  teilfreistellungsquote: number
+}
+
+/**
+ * Asset class view of a withdrawal year
+ */
+export interface AssetClassWithdrawalYearResult {
+  /** Age used for the glide path (undefined without glide path) */
+  age?: number
+  /** Target allocation of the year after glide path and volatility targeting */
+  targetAllocations: Allocations
+  /** Asset classes sold for the withdrawal */
+  sales: AssetClassSale[]
+  /** Teilfreistellung of the realized gains, weighted by the amounts sold */
+  teilfreistellungsquote: number
+  /** Teilfreistellung of the remaining holdings (used for the Vorabpauschale) */
+  holdingsTeilfreistellungsquote: number
+  /** Return of the holdings remaining after the withdrawal */
+  portfolioReturn: number
+  /** Value moved between asset classes by the rebalancing at the end of the year */
+  rebalancingVolume: number
+  /** Gains realized by the rebalancing sales */
+  rebalancingCapitalGains: number
+  /** Tax on the gains realized by the rebalancing sales, after Teilfreistellung */
+  rebalancingTax: number
+  /** Allocation at the end of the year */
+  allocationsAtEnd: Allocations
+}
+
+/**
+ * State of the asset class weights carried from one withdrawal year to the next
+ */
+export interface MultiAssetWithdrawalState {
+  config: MultiAssetPortfolioConfig
+  assetReturns: Record<number, Allocations>
+  allocations: Allocations
+  /** Cost basis per euro of holdings of each asset class */
+  costBasisRatios: Allocations
+  returnHistory: number[]
+  getAge: (year: number) => number | undefined
+}
+
+function sumAllocations(values: Allocations): number {
+  return Object.values(values).reduce((sum, value) => sum + (value ?? 0), 0)
+}
+
+function getTeilfreistellungsquote(config: MultiAssetPortfolioConfig, assetClass: AssetClass): number {
+  return getTaxCategoryTeilfreistellungsquote(config.assetClasses[assetClass].taxCategory)
+}
+
+/**
+ * Teilfreistellung weighted by the given amounts per asset class
+ */
+function getWeightedTeilfreistellungsquote(config: MultiAssetPortfolioConfig, amounts: Allocations): number {
+  const total = sumAllocations(amounts)
+  if (total <= 0) {
+    return 0
+  }
+  return (
+    Object.entries(amounts).reduce(
+      (sum, [assetClass, amount]) => sum + (amount ?? 0) * getTeilfreistellungsquote(config, assetClass as AssetClass),
+      0,
+    ) / total
+  )
+}
+
+function getTargetAllocationsFromConfig(config: MultiAssetPortfolioConfig): Allocations {
+  const allocations: Allocations = {}
+  for (const [assetClass, assetConfig] of Object.entries(config.assetClasses)) {
+    if (assetConfig.enabled) {
+      allocations[assetClass as AssetClass] = assetConfig.targetAllocation
+    }
+  }
+  return allocations
+}
+
+/**
+ * Apply volatility targeting on top of the allocation once enough portfolio returns have been realized
+ */
+function applyWithdrawalVolatilityTargeting(
+  config: MultiAssetPortfolioConfig,
+  allocations: Allocations,
+  returnHistory: number[],
+): Allocations {
+  const volatilityTargeting = config.volatilityTargeting
+  if (!volatilityTargeting.enabled || returnHistory.length < 2) {
+    return allocations
+  }
+
+  const assetClasses = { ...config.assetClasses }
+  for (const assetClass of Object.keys(assetClasses) as AssetClass[]) {
+    assetClasses[assetClass] = { ...assetClasses[assetClass], targetAllocation: allocations[assetClass] ?? 0 }
+  }
+  const returns = returnHistory.slice(-volatilityTargeting.lookbackYears)
+  return applyVolatilityTargeting(assetClasses, { returns, periods: returns.length }, volatilityTargeting)
+    .adjustedAllocations
+}
+
+/**
+ * Target allocation of a withdrawal year after glide path and volatility targeting
+ */
+export function getWithdrawalTargetAllocations(
+  state: MultiAssetWithdrawalState,
+  year: number,
+): { age?: number; allocations: Allocations } {
+  const age = state.config.glidePath.enabled ? state.getAge(year) : undefined
+  const glidePathAllocations =
+    age !== undefined
+      ? applyGlidePath(state.config.glidePath, state.config.assetClasses, age).adjustedAllocations
+      : getTargetAllocationsFromConfig(state.config)
+
+  return {
+    age,
+    allocations: applyWithdrawalVolatilityTargeting(state.config, glidePathAllocations, state.returnHistory),
+  }
+}
+
+/**
+ * Create the withdrawal state of a multi-asset portfolio. At the start of the withdrawal phase the depot
+ * is allocated according to the target allocation of the year before the first withdrawal year.
+ * Without birth year, the age of the glide path starts at its configured start age. All asset classes
+ * start with the cost basis ratio of the depot.
+ */
+export function createMultiAssetWithdrawalState(
+  config: MultiAssetPortfolioConfig,
+  years: number[],
+  startYear: number,
+  birthYear?: number,
+  costBasisRatio = 1,
+): MultiAssetWithdrawalState {
+  const state: MultiAssetWithdrawalState = {
+    config,
+    assetReturns: generateAssetClassReturns(years, config),
+    allocations: {},
+    costBasisRatios: {},
+    returnHistory: [],
+    getAge: year => (birthYear !== undefined ? year - birthYear : config.glidePath.startAge + year - startYear),
+  }
+  state.allocations = getWithdrawalTargetAllocations(state, startYear - 1).allocations
+  for (const assetClass of Object.keys(config.assetClasses) as AssetClass[]) {
+    state.costBasisRatios[assetClass] = costBasisRatio
+  }
+  return state
+}
+
+/**
+ * Sell the withdrawal from the holdings: overweight asset classes (compared with the target allocation
+ * of the remaining capital) first, the rest proportionally to the holdings
+ */
+export function sellAssetClasses(holdings: Allocations, targets: Allocations, withdrawal: number): Allocations {
+  const entries = Object.entries(holdings) as Array<[AssetClass, number]>
+  const capital = sumAllocations(holdings)
+  const amount = Math.min(Math.max(0, withdrawal), capital)
+  const overweight: Allocations = {}
+  for (const [assetClass, value] of entries) {
+    overweight[assetClass] = Math.max(0, value - (targets[assetClass] ?? 0) * (capital - amount))
+  }
+  const totalOverweight = sumAllocations(overweight)
+  const overweightShare = totalOverweight > 0 ? Math.min(1, amount / totalOverweight) : 0
+  const restShare = amount > totalOverweight ? (amount - totalOverweight) / (capital - totalOverweight) : 0
+
+  const sales: Allocations = {}
+  for (const [assetClass, value] of entries) {
+    const excess = overweight[assetClass] ?? 0
+    sales[assetClass] = excess * overweightShare + (value - excess) * restShare
+  }
+  return sales
+}
+
+function shouldRebalance(config: MultiAssetPortfolioConfig, drifts: number[]): boolean {
+  return (
+    config.rebalancing.frequency !== 'never' &&
+    (!config.rebalancing.useThreshold || Math.max(...drifts) > config.rebalancing.threshold)
+  )
+}
+
+/**
+ * Realize the gains of the asset classes sold down to their target value and add the purchases of the
+ * bought asset classes to their cost basis. The gains are taxed like the rebalancing sales of the
+ * savings phase (createSellTransaction).
+ */
+function realizeRebalancingGains(
+  state: MultiAssetWithdrawalState,
+  holdings: Allocations,
+  targetValues: Allocations,
+): { capitalGains: number; tax: number } {
+  let capitalGains = 0
+  let tax = 0
+  for (const [assetClass, targetValue] of Object.entries(targetValues) as Array<[AssetClass, number]>) {
+    const value = holdings[assetClass] ?? 0
+    const costBasis = value * (state.costBasisRatios[assetClass] ?? 1)
+    const sold = Math.max(0, value - targetValue)
+    const gain = value > 0 ? sold - (costBasis * sold) / value : 0
+    if (gain > 0) {
+      capitalGains += gain
+      tax += calculateCapitalGainsTax(gain, state.config.assetClasses[assetClass])
+    }
+    const remainingCostBasis = value > 0 ? (costBasis * (value - sold)) / value : 0
+    const costBasisAfterRebalancing = remainingCostBasis + Math.max(0, targetValue - value)
+    state.costBasisRatios[assetClass] = targetValue > 0 ? costBasisAfterRebalancing / targetValue : 1
+  }
+  return { capitalGains, tax }
+}
+
+/**
+ * Rebalance the holdings at the end of the year when the rebalancing configuration requires it
+ */
+function rebalanceAtYearEnd(
+  state: MultiAssetWithdrawalState,
+  holdings: Allocations,
+  targets: Allocations,
+): { allocations: Allocations; rebalancingVolume: number; capitalGains: number; tax: number } {
+  const total = sumAllocations(holdings)
+  if (total <= 0) {
+    return { allocations: { ...targets }, rebalancingVolume: 0, capitalGains: 0, tax: 0 }
+  }
+
+  const assetClasses = Array.from(new Set([...Object.keys(holdings), ...Object.keys(targets)])) as AssetClass[]
+  const allocations: Allocations = {}
+  const targetValues: Allocations = {}
+  for (const assetClass of assetClasses) {
+    allocations[assetClass] = (holdings[assetClass] ?? 0) / total
+    targetValues[assetClass] = (targets[assetClass] ?? 0) * total
+  }
+  const drifts = assetClasses.map(assetClass => Math.abs((allocations[assetClass] ?? 0) - (targets[assetClass] ?? 0)))
+
+  if (!shouldRebalance(state.config, drifts)) {
+    return { allocations, rebalancingVolume: 0, capitalGains: 0, tax: 0 }
+  }
+  return {
+    allocations: { ...targets },
+    rebalancingVolume: (drifts.reduce((sum, drift) => sum + drift, 0) * total) / 2,
+    ...realizeRebalancingGains(state, holdings, targetValues),
+  }
+}
+
+/**
+ * Holdings remaining after the sales and their value after the returns of the asset classes
+ */
+function applyAssetClassReturns(
+  state: MultiAssetWithdrawalState,
+  year: number,
+  holdings: Allocations,
+  soldAmounts: Allocations,
+): { remaining: Allocations; grown: Allocations } {
+  const remaining: Allocations = {}
+  const grown: Allocations = {}
+  for (const [assetClass, value] of Object.entries(holdings) as Array<[AssetClass, number]>) {
+    const assetReturn = state.assetReturns[year]?.[assetClass] ?? state.config.assetClasses[assetClass].expectedReturn
+    const remainingValue = value - (soldAmounts[assetClass] ?? 0)
+    remaining[assetClass] = remainingValue
+    grown[assetClass] = remainingValue * (1 + assetReturn)
+    // Sales keep the cost basis ratio, the return changes the value but not the cost basis
+    if (grown[assetClass] > 0) {
+      state.costBasisRatios[assetClass] = ((state.costBasisRatios[assetClass] ?? 1) * remainingValue) / grown[assetClass]
+    }
+  }
+  return { remaining, grown }
+}
+
+function getSales(config: MultiAssetPortfolioConfig, soldAmounts: Allocations): AssetClassSale[] {
+  return (Object.entries(soldAmounts) as Array<[AssetClass, number]>)
+    .filter(([, amount]) => amount > 0)
+    .map(([assetClass, amount]) => ({
+      assetClass,
+      amount,
+      teilfreistellungsquote: getTeilfreistellungsquote(config, assetClass),
+    }))
+}
+
+/**
+ * Process the asset classes of a withdrawal year: sell the withdrawal, apply the returns of the asset
+ * classes and rebalance. Updates the state for the following year.
+ */
+export function processAssetClassWithdrawal(
+  state: MultiAssetWithdrawalState,
+  year: number,
+  capitalAtStartOfYear: number,
+  withdrawal: number,
+): AssetClassWithdrawalYearResult {
+  const { age, allocations: targetAllocations } = getWithdrawalTargetAllocations(state, year)
+  const holdings: Allocations = {}
+  for (const [assetClass, weight] of Object.entries(state.allocations) as Array<[AssetClass, number]>) {
+    holdings[assetClass] = weight * capitalAtStartOfYear
+  }
+
+  const soldAmounts = sellAssetClasses(holdings, targetAllocations, withdrawal)
+  const { remaining, grown } = applyAssetClassReturns(state, year, holdings, soldAmounts)
+  const remainingTotal = sumAllocations(remaining)
+  const portfolioReturn = remainingTotal > 0 ? sumAllocations(grown) / remainingTotal - 1 : 0
+  const rebalancing = rebalanceAtYearEnd(state, grown, targetAllocations)
+
+  state.allocations = rebalancing.allocations
+  state.returnHistory.push(portfolioReturn)
+
+  const sales = getSales(state.config, soldAmounts)
+  const holdingsTeilfreistellungsquote = getWeightedTeilfreistellungsquote(state.config, remaining)
+
+  return {
+    age,
+    targetAllocations,
+    sales,
+    teilfreistellungsquote:
+      sales.length > 0 ? getWeightedTeilfreistellungsquote(state.config, soldAmounts) : holdingsTeilfreistellungsquote,
+    holdingsTeilfreistellungsquote,
+    portfolioReturn,
+    rebalancingVolume: rebalancing.rebalancingVolume,
+    rebalancingCapitalGains: rebalancing.capitalGains,
+    rebalancingTax: rebalancing.tax,
+    allocationsAtEnd: rebalancing.allocations,
+  }
+}
@@ -4,7 +4,9 @@ import {
   type OtherIncomeConfiguration,
   calculateOtherIncomeForYear,
   calculateOtherIncome,
+  calculateKapitallebensversicherungCashValue,
   createDefaultOtherIncomeSource,
+  createDefaultKapitallebensversicherungConfig,
   createDefaultRealEstateConfig,
   getIncomeTypeDisplayName,
   getAmountTypeDisplayName,
@@ -1266,6 +1268,23 @@ describe('Other Income Calculations', () => {
       })
     })
 
+    describe('calculateKapitallebensversicherungCashValue', () => {
+      it('should accrue the premiums linearly and the gains with the invested premiums', () => {
+        const config = {
+          ...createDefaultKapitallebensversicherungConfig(),
+          policyStartYear: 2020,
+          policyMaturityYear: 2030,
+          totalPayoutAmount: 50000,
+          totalPremiumsPaid: 40000,
+        }
+
+        expect(calculateKapitallebensversicherungCashValue(config, 2019)).toBe(0)
+        expect(calculateKapitallebensversicherungCashValue(config, 2024)).toBeCloseTo(20000 + 2500)
+        expect(calculateKapitallebensversicherungCashValue(config, 2029)).toBeCloseTo(50000)
+        expect(calculateKapitallebensversicherungCashValue(config, 2030)).toBe(0)
+      })
+    })
+
     describe('getIncomeTypeDisplayName', () => {
       it('should return correct display name for Kapitallebensversicherung', () => {
         expect(getIncomeTypeDisplayName('kapitallebensversicherung')).toBe('Kapitallebensversicherung')
@@ -17,6 +17,7 @@ import {
 } from './riester-rente'
 
 import type { DepotAufKindConfig } from './depot-auf-kind'
+import type { BetriebsrenteConfig } from './betriebsrente'
 
 /**
  * Type of income source
@@ -429,6 +430,9 @@ export interface OtherIncomeSource {
 
   /** Riester-Rente-specific configuration (only for riester_rente type) */
   riesterRenteConfig?: RiesterRenteConfig
+
+  /** Betriebsrente (bAV) contract paying this pension (only for pension type) */
+  betriebsrenteConfig?: BetriebsrenteConfig
 }
 
 /**
@@ -1074,6 +1078,26 @@ function calculateKapitallebensversicherungStatus(
   }
 }
 
+/**
+ * Cash value of a Kapitallebensversicherung at the end of a year before the payout.
+ * The premiums are paid evenly over the policy term, the investment gains accrue with the invested
+ * premiums and therefore grow quadratically with the elapsed term. From the maturity year on the
+ * payout is booked as income and the policy has no cash value left.
+ */
+export function calculateKapitallebensversicherungCashValue(
+  config: KapitallebensversicherungConfig,
+  year: number,
+): number {
+  const term = config.policyMaturityYear - config.policyStartYear
+  if (year < config.policyStartYear || year >= config.policyMaturityYear || term <= 0) {
+    return 0
+  }
+
+  const elapsedShare = (year - config.policyStartYear + 1) / term
+  const { investmentGains } = calculateKapitallebensversicherungStatus(config, year)
+  return config.totalPremiumsPaid * elapsedShare + investmentGains * Math.pow(elapsedShare, 2)
+}
+
 // Helper: Calculate Pflegezusatzversicherung (Long-term Care Insurance) status and benefits
 function calculatePflegezusatzversicherungStatus(
   config: PflegezusatzversicherungConfig,
@@ -1629,12 +1653,9 @@ function calculateRuerupPensionPhase(
   grossAnnualAmount: number
   ruerupRenteDetails: OtherIncomeYearResult['ruerupRenteDetails']
 } {
-  const yearsFromStart = year - config.pensionStartYear
-  const inflationFactor = Math.pow(1 + config.pensionIncreaseRate, yearsFromStart)
-  const adjustedMonthlyPension = config.expectedMonthlyPension * inflationFactor
-
+  // The pension increases and the frozen Rentenfreibetrag are applied from the pension at the start
   const pensionResult = calculateRuerupPensionTaxation(
-    adjustedMonthlyPension,
+    config.expectedMonthlyPension,
     config.pensionStartYear,
     year,
     config.pensionIncreaseRate,
@@ -1642,6 +1663,7 @@ function calculateRuerupPensionPhase(
   )
 
   const taxablePercentage = getRuerupPensionTaxablePercentage(config.pensionStartYear)
+  const adjustedMonthlyPension = pensionResult.grossMonthlyPension
 
   return {
     grossMonthlyAmount: adjustedMonthlyPension,
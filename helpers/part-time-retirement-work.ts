@@ -142,6 +142,27 @@ export const DEFAULT_SOCIAL_SECURITY_RATES: SocialSecurityRates = {
   requiresPensionContributions: false, // Retirees are generally exempt
 }
 
+/**
+ * Calculate health and care insurance contributions on the gross income of part-time retirees
+ *
+ * @param grossIncome - Annual gross income in EUR
+ * @param socialSecurityRates - Social security contribution rates
+ * @param isChildless - Whether the person is childless (for care insurance surcharge)
+ * @returns Contributions per insurance and in total
+ */
+export function calculatePartTimeSocialSecurity(
+  grossIncome: number,
+  socialSecurityRates: SocialSecurityRates,
+  isChildless: boolean
+): { healthInsurance: number; careInsurance: number; socialSecurityTotal: number } {
+  const healthInsurance = grossIncome * socialSecurityRates.healthInsuranceRate
+  const careInsuranceRate =
+    socialSecurityRates.careInsuranceRate + (isChildless ? socialSecurityRates.childlessSurcharge : 0)
+  const careInsurance = grossIncome * careInsuranceRate
+
+  return { healthInsurance, careInsurance, socialSecurityTotal: healthInsurance + careInsurance }
+}
+
 /**
  * Calculate net income from gross income for part-time retirees
  * Takes into account income tax and social security contributions
@@ -167,11 +188,11 @@ export function calculatePartTimeNetIncome(
   careInsurance: number
 } {
   // Calculate social security contributions (on gross income)
-  const healthInsurance = grossIncome * socialSecurityRates.healthInsuranceRate
-  const careInsuranceRate =
-    socialSecurityRates.careInsuranceRate + (isChildless ? socialSecurityRates.childlessSurcharge : 0)
-  const careInsurance = grossIncome * careInsuranceRate
-  const socialSecurityTotal = healthInsurance + careInsurance
+  const { healthInsurance, careInsurance, socialSecurityTotal } = calculatePartTimeSocialSecurity(
+    grossIncome,
+    socialSecurityRates,
+    isChildless
+  )
 
   // Income after social security contributions (for tax calculation)
   const incomeAfterSocialSecurity = grossIncome - socialSecurityTotal
@@ -291,7 +312,7 @@ function calculateWithdrawalAdjustment(
 /**
  * Get work information for a given year
  */
-function getWorkInfo(year: number, workPhases: PartTimeWorkPhase[]) {
+export function getPartTimeWorkInfo(year: number, workPhases: PartTimeWorkPhase[]) {
   const workPhase = workPhases.find((phase) => year >= phase.startYear && year <= phase.endYear)
   const isWorking = workPhase !== undefined
   const monthlyGrossIncome = isWorking ? workPhase.monthlyGrossIncome : 0
@@ -313,7 +334,7 @@ function processSimulationYear(
   basicAllowance: number,
   isChildless: boolean
 ): PartTimeWorkResult {
-  const workInfo = getWorkInfo(year, config.workPhases)
+  const workInfo = getPartTimeWorkInfo(year, config.workPhases)
 
   const income = workInfo.isWorking
     ? calculateWorkingYearIncome(
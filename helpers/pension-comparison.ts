@@ -14,7 +14,7 @@
  * - Return on investment (ROI)
  */
 
-import type { StatutoryPensionConfig } from './statutory-pension'
+import { getStatutoryPensionMonthlyAmount, type StatutoryPensionConfig } from './statutory-pension'
 import { type RiesterRenteConfig, calculateRiesterTaxBenefit } from './riester-rente'
 import { type RuerupRenteConfig, calculateRuerupTaxDeduction } from './ruerup-rente'
 import {
@@ -159,7 +159,7 @@ function calculateStatutoryPensionComparison(
 ): PensionTypeComparison {
   // Statutory pension is paid by the state, no direct employee contributions
   // (contributions are part of social security, not tracked separately here)
-  const monthlyGross = config.monthlyAmount
+  const monthlyGross = getStatutoryPensionMonthlyAmount(config)
   const monthlyNet = monthlyGross * (1 - config.taxablePercentage / 100) // Simplified
 
   return {
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest'
+import {
+  calculatePensionProjection,
+  calculateProjectedPensionPoints,
+  calculateSpecialPaymentPensionPoints,
+  calculateZugangsfaktor,
+  createDefaultPensionProjectionConfig,
+  getProjectedPensionValue,
+  type PensionProjectionConfig,
+} from './pension-projection'
+
+describe('pension-projection', () => {
+  // Salary equal to the average gross salary of 2024 without growth earns exactly 1 point per year
+  const config: PensionProjectionConfig = {
+    enabled: true,
+    currentPensionPoints: 30,
+    pointsYear: 2024,
+    annualGrossSalary: 45358,
+    salaryGrowthRate: 0,
+    averageSalaryGrowthRate: 0,
+    pensionValueGrowthRate: 0,
+    specialPayments: [],
+  }
+
+  describe('calculateZugangsfaktor', () => {
+    it('should apply 0.3% Abschlag per month before the Regelaltersgrenze', () => {
+      const result = calculateZugangsfaktor(1964, 63)
+
+      expect(result.standardRetirementAge).toBe(67)
+      expect(result.monthsDifference).toBe(-48)
+      expect(result.zugangsfaktor).toBeCloseTo(0.856, 10)
+    })
+
+    it('should apply 0.5% Zuschlag per month after the Regelaltersgrenze', () => {
+      const result = calculateZugangsfaktor(1964, 69)
+
+      expect(result.monthsDifference).toBe(24)
+      expect(result.zugangsfaktor).toBeCloseTo(1.12, 10)
+    })
+
+    it('should use the Regelaltersgrenze of the birth year', () => {
+      // Birth year 1960: Regelaltersgrenze 66 years and 4 months
+      expect(calculateZugangsfaktor(1960, 66).monthsDifference).toBe(-4)
+      expect(calculateZugangsfaktor(1980, 67).zugangsfaktor).toBe(1)
+    })
+  })
+
+  describe('getProjectedPensionValue', () => {
+    it('should increase the current Rentenwert until the pension start', () => {
+      expect(getProjectedPensionValue(2024, 2)).toBeCloseTo(37.6, 10)
+      expect(getProjectedPensionValue(2026, 2)).toBeCloseTo(37.6 * 1.02 ** 2, 10)
+    })
+  })
+
+  describe('calculateProjectedPensionPoints', () => {
+    it('should earn points until the year before the pension start', () => {
+      expect(calculateProjectedPensionPoints(config, 2030)).toBeCloseTo(5, 10)
+    })
+
+    it('should stop at the last contribution year', () => {
+      expect(calculateProjectedPensionPoints({ ...config, lastContributionYear: 2026 }, 2030)).toBeCloseTo(2, 10)
+    })
+
+    it('should cap the points per year near the Beitragsbemessungsgrenze', () => {
+      expect(calculateProjectedPensionPoints({ ...config, annualGrossSalary: 200000 }, 2030)).toBeCloseTo(10, 10)
+    })
+
+    it('should use the ratio of salary and average salary growth', () => {
+      const growing = { ...config, salaryGrowthRate: 3, averageSalaryGrowthRate: 2 }
+
+      expect(calculateProjectedPensionPoints(growing, 2026)).toBeCloseTo((45358 * 1.03) / Math.round(45358 * 1.02), 10)
+    })
+  })
+
+  describe('calculateSpecialPaymentPensionPoints', () => {
+    it('should buy points at average salary times contribution rate', () => {
+      const withPayments = {
+        ...config,
+        specialPayments: [
+          { year: 2024, amount: 45358 * 0.186 * 2 },
+          { year: 2031, amount: 50000 },
+        ],
+      }
+
+      expect(calculateSpecialPaymentPensionPoints(withPayments, 2030)).toBeCloseTo(2, 10)
+    })
+  })
+
+  describe('calculatePensionProjection', () => {
+    it('should project the pension from current and future points', () => {
+      const result = calculatePensionProjection(config, { birthYear: 1963, retirementAge: 67, pensionStartYear: 2030 })
+
+      expect(result.totalPensionPoints).toBeCloseTo(35, 10)
+      expect(result.monthlyPensionBeforeAdjustment).toBeCloseTo(35 * 37.6, 10)
+      // Regelaltersgrenze of 1963 is 66 years and 10 months: 2 months Zuschlag
+      expect(result.monthlyPension).toBeCloseTo(35 * 37.6 * 1.01, 10)
+    })
+
+    it('should reduce the pension for an early retirement', () => {
+      const result = calculatePensionProjection(config, { birthYear: 1964, retirementAge: 66, pensionStartYear: 2030 })
+
+      expect(result.monthsDifference).toBe(-12)
+      expect(result.monthlyPension).toBeCloseTo(35 * 37.6 * 0.964, 10)
+    })
+
+    it('should offset the Abschlag with a Sonderzahlung', () => {
+      // 35 points × 3.6% / 96.4% bought at 45358 × 18.6% per point
+      const offsetPoints = (35 * 0.036) / 0.964
+      const withPayment = {
+        ...config,
+        specialPayments: [{ year: 2024, amount: offsetPoints * 45358 * 0.186 }],
+      }
+      const result = calculatePensionProjection(withPayment, {
+        birthYear: 1964,
+        retirementAge: 66,
+        pensionStartYear: 2030,
+      })
+
+      expect(result.specialPaymentPensionPoints).toBeCloseTo(offsetPoints, 10)
+      expect(result.monthlyPension).toBeCloseTo(35 * 37.6, 10)
+    })
+  })
+
+  describe('createDefaultPensionProjectionConfig', () => {
+    it('should create a disabled projection without Sonderzahlungen', () => {
+      const result = createDefaultPensionProjectionConfig(2025)
+
+      expect(result.enabled).toBe(false)
+      expect(result.pointsYear).toBe(2025)
+      expect(result.specialPayments).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,211 @@
+/**
+ * Projection of the statutory pension from pension points (Rentenprognose)
+ *
+ * The monthly pension at the pension start is estimated as
+ * (Entgeltpunkte bisher + projected Entgeltpunkte + Entgeltpunkte from Sonderzahlungen) × Zugangsfaktor × Rentenwert.
+ *
+ * - Future points per year: projected salary / projected average gross salary, capped near the
+ *   Beitragsbemessungsgrenze
+ * - Zugangsfaktor (§ 77 SGB VI): 0.3% Abschlag per month before and 0.5% Zuschlag per month after the
+ *   Regelaltersgrenze
+ * - Sonderzahlungen (§ 187a SGB VI) buy points at vorläufiges Durchschnittsentgelt × Beitragssatz
+ * - Rentenwert: current value increased by the expected annual Rentenwert growth until the pension start
+ */
+
+import {
+  CURRENT_PENSION_VALUE_WEST,
+  calculatePensionPointsForYear,
+  estimateFutureAverageSalary,
+} from './pension-points'
+import {
+  PENSION_DEDUCTION_RATE_PER_MONTH,
+  PENSION_SUPPLEMENT_RATE_PER_MONTH,
+  getCostPerPensionPoint,
+  getStandardRetirementAge,
+} from './pension-top-up'
+
+/**
+ * Base year of the current pension value (Rentenwert)
+ */
+const PENSION_VALUE_BASE_YEAR = 2024
+
+/**
+ * Maximum pension points per contribution year.
+ * The Beitragsbemessungsgrenze is roughly twice the average gross salary.
+ */
+export const MAX_PENSION_POINTS_PER_YEAR = 2
+
+/**
+ * Voluntary payment into the statutory pension (Sonderzahlung nach § 187a SGB VI)
+ */
+export interface PensionSpecialPayment {
+  /** Year of the payment */
+  year: number
+  /** Amount in EUR */
+  amount: number
+}
+
+/**
+ * Configuration of the pension projection from pension points
+ */
+export interface PensionProjectionConfig {
+  /** Whether the monthly pension is projected from pension points instead of entered by hand */
+  enabled: boolean
+  /** Pension points (Entgeltpunkte) according to the latest Renteninformation */
+  currentPensionPoints: number
+  /** Year up to which currentPensionPoints were earned */
+  pointsYear: number
+  /** Annual gross salary in pointsYear in EUR */
+  annualGrossSalary: number
+  /** Annual salary growth in percent */
+  salaryGrowthRate: number
+  /** Annual growth of the average gross salary (Durchschnittsentgelt) in percent */
+  averageSalaryGrowthRate: number
+  /** Annual growth of the pension value (Rentenwert) until the pension start in percent */
+  pensionValueGrowthRate: number
+  /** Last year with contributions (default: year before the pension start) */
+  lastContributionYear?: number
+  /** Voluntary payments to buy additional pension points */
+  specialPayments: PensionSpecialPayment[]
+}
+
+/**
+ * Person data the projection depends on
+ */
+export interface PensionProjectionParams {
+  /** Birth year of the person */
+  birthYear: number
+  /** Age at the pension start */
+  retirementAge: number
+  /** Year the pension starts */
+  pensionStartYear: number
+}
+
+/**
+ * Zugangsfaktor for a retirement before or after the Regelaltersgrenze
+ */
+export interface ZugangsfaktorResult {
+  /** Regelaltersgrenze in years */
+  standardRetirementAge: number
+  /** Months between retirement and Regelaltersgrenze, negative for an early retirement */
+  monthsDifference: number
+  /** Factor applied to the pension points (1 = no Abschlag or Zuschlag) */
+  zugangsfaktor: number
+}
+
+/**
+ * Result of the pension projection
+ */
+export interface PensionProjectionResult extends ZugangsfaktorResult {
+  /** Pension points according to the Renteninformation */
+  currentPensionPoints: number
+  /** Pension points projected from future contributions */
+  projectedPensionPoints: number
+  /** Pension points bought with Sonderzahlungen */
+  specialPaymentPensionPoints: number
+  /** Sum of all pension points */
+  totalPensionPoints: number
+  /** Pension value (Rentenwert) in the year of the pension start */
+  pensionValue: number
+  /** Monthly pension at the pension start without Abschlag or Zuschlag */
+  monthlyPensionBeforeAdjustment: number
+  /** Monthly pension at the pension start including Abschlag or Zuschlag */
+  monthlyPension: number
+}
+
+/**
+ * Calculate the Zugangsfaktor for the given birth year and retirement age
+ */
+export function calculateZugangsfaktor(birthYear: number, retirementAge: number): ZugangsfaktorResult {
+  const standardRetirementAge = getStandardRetirementAge(birthYear)
+  const monthsDifference = Math.round((retirementAge - standardRetirementAge) * 12)
+  const rate = monthsDifference < 0 ? PENSION_DEDUCTION_RATE_PER_MONTH : PENSION_SUPPLEMENT_RATE_PER_MONTH
+
+  return {
+    standardRetirementAge,
+    monthsDifference,
+    zugangsfaktor: Math.max(0, 1 + monthsDifference * rate),
+  }
+}
+
+/**
+ * Projected pension value (Rentenwert) for the given year
+ */
+export function getProjectedPensionValue(year: number, growthRate: number): number {
+  const years = Math.max(0, year - PENSION_VALUE_BASE_YEAR)
+  return CURRENT_PENSION_VALUE_WEST * Math.pow(1 + growthRate / 100, years)
+}
+
+/**
+ * Pension points earned from contributions after pointsYear until the last contribution year
+ */
+export function calculateProjectedPensionPoints(config: PensionProjectionConfig, pensionStartYear: number): number {
+  const lastContributionYear = config.lastContributionYear ?? pensionStartYear - 1
+  let points = 0
+
+  for (let year = config.pointsYear + 1; year <= lastContributionYear; year++) {
+    const salary = config.annualGrossSalary * Math.pow(1 + config.salaryGrowthRate / 100, year - config.pointsYear)
+    const averageSalary = estimateFutureAverageSalary(year, config.averageSalaryGrowthRate)
+    points += Math.min(calculatePensionPointsForYear(salary, averageSalary), MAX_PENSION_POINTS_PER_YEAR)
+  }
+
+  return points
+}
+
+/**
+ * Pension points bought with the Sonderzahlungen paid up to the pension start
+ */
+export function calculateSpecialPaymentPensionPoints(
+  config: PensionProjectionConfig,
+  pensionStartYear: number,
+): number {
+  return config.specialPayments
+    .filter(payment => payment.year <= pensionStartYear && payment.amount > 0)
+    .reduce(
+      (points, payment) =>
+        points + payment.amount / getCostPerPensionPoint(payment.year, config.averageSalaryGrowthRate),
+      0,
+    )
+}
+
+/**
+ * Project the monthly statutory pension at the pension start from pension points
+ */
+export function calculatePensionProjection(
+  config: PensionProjectionConfig,
+  params: PensionProjectionParams,
+): PensionProjectionResult {
+  const projectedPensionPoints = calculateProjectedPensionPoints(config, params.pensionStartYear)
+  const specialPaymentPensionPoints = calculateSpecialPaymentPensionPoints(config, params.pensionStartYear)
+  const totalPensionPoints = config.currentPensionPoints + projectedPensionPoints + specialPaymentPensionPoints
+  const zugangsfaktor = calculateZugangsfaktor(params.birthYear, params.retirementAge)
+  const pensionValue = getProjectedPensionValue(params.pensionStartYear, config.pensionValueGrowthRate)
+  const monthlyPensionBeforeAdjustment = totalPensionPoints * pensionValue
+
+  return {
+    ...zugangsfaktor,
+    currentPensionPoints: config.currentPensionPoints,
+    projectedPensionPoints,
+    specialPaymentPensionPoints,
+    totalPensionPoints,
+    pensionValue,
+    monthlyPensionBeforeAdjustment,
+    monthlyPension: monthlyPensionBeforeAdjustment * zugangsfaktor.zugangsfaktor,
+  }
+}
+
+/**
+ * Create a default pension projection, disabled until the user enters the Renteninformation
+ */
+export function createDefaultPensionProjectionConfig(pointsYear: number): PensionProjectionConfig {
+  return {
+    enabled: false,
+    currentPensionPoints: 20,
+    pointsYear,
+    annualGrossSalary: 50000,
+    salaryGrowthRate: 2.5,
+    averageSalaryGrowthRate: 2.5,
+    pensionValueGrowthRate: 2.0,
+    specialPayments: [],
+  }
+}
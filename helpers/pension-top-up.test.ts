@@ -4,6 +4,7 @@ import {
   calculatePensionDeductionOffset,
   calculatePensionPointsPurchase,
   calculatePensionTopUp,
+  getCostPerPensionPoint,
   getDefaultPensionTopUpConfig,
   getStandardRetirementAge,
   validatePensionTopUpConfig,
@@ -192,6 +193,16 @@ describe('pension-top-up', () => {
     })
   })
 
+  describe('getCostPerPensionPoint', () => {
+    it('should multiply the average gross salary with the contribution rate', () => {
+      expect(getCostPerPensionPoint(2024)).toBeCloseTo(45358 * 0.186, 6)
+    })
+
+    it('should project the average gross salary for future payment years', () => {
+      expect(getCostPerPensionPoint(2026, 2)).toBeCloseTo(Math.round(45358 * 1.02 ** 2) * 0.186, 6)
+    })
+  })
+
   describe('calculatePensionDeductionOffset', () => {
     it('should calculate offset for 4 years early retirement', () => {
       // Birth year 1980 → Standard retirement age 67
@@ -218,6 +229,11 @@ describe('pension-top-up', () => {
       
       // Offset cost should be positive
       expect(result.offsetCost).toBeGreaterThan(0)
+
+      // The bought points are reduced by the Zugangsfaktor as well: 40 × 0.144 / 0.856
+      expect(result.offsetPensionPoints).toBeCloseTo((40 * 0.144) / 0.856, 6)
+      expect(result.offsetCost).toBeCloseTo(result.offsetPensionPoints * 45358 * 0.186, 6)
+      expect((40 + result.offsetPensionPoints) * (1 - 0.144)).toBeCloseTo(40, 6)
     })
 
     it('should calculate zero deduction for standard retirement age', () => {
@@ -9,7 +9,7 @@
  * Legal basis: § 187a SGB VI (Sozialgesetzbuch)
  */
 
-import { CURRENT_PENSION_VALUE_WEST, AVERAGE_GROSS_SALARY_HISTORY } from './pension-points'
+import { CURRENT_PENSION_VALUE_WEST, estimateFutureAverageSalary } from './pension-points'
 
 /**
  * Standard retirement age for different birth years (Regelaltersgrenze)
@@ -54,6 +54,12 @@ export function getStandardRetirementAge(birthYear: number): number {
  */
 export const PENSION_DEDUCTION_RATE_PER_MONTH = 0.003 // 0.3% per month
 
+/**
+ * Pension supplement rate per month of retirement after the standard retirement age (Rentenzuschlag)
+ * According to § 77 Abs. 2 Nr. 2 Buchst. b SGB VI
+ */
+export const PENSION_SUPPLEMENT_RATE_PER_MONTH = 0.005 // 0.5% per month
+
 /**
  * Maximum monthly contribution to statutory pension insurance (2024)
  * Based on contribution assessment ceiling (Beitragsbemessungsgrenze West)
@@ -87,6 +93,9 @@ export interface PensionTopUpConfig {
 
   /** Year of the voluntary contribution payment */
   paymentYear: number
+
+  /** Annual growth of the average gross salary in percent for future payment years (default: 2.5) */
+  averageSalaryGrowthRate?: number
 }
 
 /**
@@ -105,6 +114,9 @@ export interface PensionDeductionOffsetResult {
   /** Total pension deduction percentage */
   totalDeductionPercentage: number
 
+  /** Pension points needed to fully offset the deduction */
+  offsetPensionPoints: number
+
   /** Cost to fully offset the deduction in EUR */
   offsetCost: number
 
@@ -163,6 +175,18 @@ export interface PensionTopUpResult {
   }
 }
 
+/**
+ * Cost of one pension point bought with a voluntary contribution in the given year:
+ * vorläufiges Durchschnittsentgelt × Beitragssatz (§ 187a Abs. 3 SGB VI)
+ *
+ * @param year - Year of the payment
+ * @param averageSalaryGrowthRate - Annual growth of the average gross salary in percent after 2024
+ * @returns Cost per pension point in EUR
+ */
+export function getCostPerPensionPoint(year: number, averageSalaryGrowthRate = 2.5): number {
+  return estimateFutureAverageSalary(year, averageSalaryGrowthRate) * PENSION_INSURANCE_RATE
+}
+
 /**
  * Calculate the cost to offset pension deductions for early retirement
  * (Ausgleich von Rentenabschlägen)
@@ -179,18 +203,19 @@ export function calculatePensionDeductionOffset(config: PensionTopUpConfig): Pen
   const monthlyPension = config.currentPensionPoints * pensionValue
   const monthlyPensionLost = monthlyPension * totalDeductionPercentage
   
-  // Cost calculation based on actuarial formula (simplified)
-  // Actual formula used by Deutsche Rentenversicherung is more complex
-  // This uses the average gross salary as approximation for cost per point
-  const averageGrossSalary = AVERAGE_GROSS_SALARY_HISTORY[2024] || 45358
-  const pensionPointsLost = config.currentPensionPoints * totalDeductionPercentage
-  const offsetCost = pensionPointsLost * averageGrossSalary
+  // The bought points are reduced by the same Zugangsfaktor, so the pension without deduction needs
+  // currentPensionPoints × deduction / (1 - deduction) additional points
+  const zugangsfaktor = 1 - totalDeductionPercentage
+  const offsetPensionPoints =
+    zugangsfaktor > 0 ? (config.currentPensionPoints * totalDeductionPercentage) / zugangsfaktor : 0
+  const offsetCost = offsetPensionPoints * getCostPerPensionPoint(config.paymentYear, config.averageSalaryGrowthRate)
 
   return {
     standardRetirementAge,
     desiredRetirementAge: config.desiredRetirementAge,
     monthsOfEarlyRetirement,
     totalDeductionPercentage,
+    offsetPensionPoints,
     offsetCost,
     monthlyPensionLost,
     taxDeductibility: 1.0, // 100% tax deductible as Vorsorgeaufwendungen
@@ -211,10 +236,7 @@ export function calculatePensionPointsPurchase(config: PensionTopUpConfig): Pens
 
   const additionalPoints = Math.max(0, config.targetPensionPoints - config.currentPensionPoints)
   
-  // Cost per pension point is based on average gross salary
-  // This is a simplified calculation - actual cost from Deutsche Rentenversicherung may vary
-  const averageGrossSalary = AVERAGE_GROSS_SALARY_HISTORY[2024] || 45358
-  const costPerPoint = averageGrossSalary
+  const costPerPoint = getCostPerPensionPoint(config.paymentYear, config.averageSalaryGrowthRate)
   const totalCost = additionalPoints * costPerPoint
   
   const pensionValue = config.customPensionValue || CURRENT_PENSION_VALUE_WEST
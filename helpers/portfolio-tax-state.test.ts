@@ -0,0 +1,134 @@
+import { describe, test, expect } from 'vitest'
+import {
+  applyLossAccountsToRealizedGain,
+  calculateLotSaleGain,
+  createPortfolioTaxState,
+  getPortfolioTaxStateValue,
+} from './portfolio-tax-state'
+import type { SparplanElement } from '../src/utils/sparplan-utils'
+
+const createElement = (
+  type: 'sparplan' | 'einmalzahlung',
+  einzahlung: number,
+  endkapital: number,
+  vorabpauschaleAccumulated: number,
+  lossAccountState?: { stockLosses: number; otherLosses: number; year: number },
+): SparplanElement =>
+  ({
+    start: '2020-01-01',
+    type,
+    einzahlung,
+    ...(type === 'einmalzahlung' ? { gewinn: 500 } : {}),
+    simulation: {
+      2024: {
+        startkapital: einzahlung,
+        endkapital,
+        zinsen: 0,
+        bezahlteSteuer: 0,
+        genutzterFreibetrag: 0,
+        vorabpauschale: 0,
+        vorabpauschaleAccumulated,
+        lossAccountState,
+      },
+    },
+  }) as SparplanElement
+
+describe('portfolio-tax-state', () => {
+  describe('createPortfolioTaxState', () => {
+    test('should create one lot per element with cost basis and taxed Vorabpauschale', () => {
+      const state = createPortfolioTaxState(
+        [createElement('sparplan', 10000, 15000, 300), createElement('einmalzahlung', 20000, 25000, 400)],
+        2024,
+      )
+
+      expect(state.year).toBe(2024)
+      expect(state.stockGainsRatio).toBe(0.7)
+      expect(state.lots).toEqual([
+        {
+          id: '0',
+          purchaseDate: new Date('2020-01-01'),
+          costBasis: 10000,
+          currentValue: 15000,
+          vorabpauschaleAccumulated: 300,
+        },
+        {
+          id: '1',
+          purchaseDate: new Date('2020-01-01'),
+          costBasis: 20500,
+          currentValue: 25000,
+          vorabpauschaleAccumulated: 400,
+        },
+      ])
+      expect(getPortfolioTaxStateValue(state)).toBe(40000)
+      expect(state.lossAccountState).toEqual({ stockLosses: 0, otherLosses: 0, year: 2024 })
+    })
+
+    test('should prefer the loss offset accounts recorded by the simulation', () => {
+      const simulatedLosses = { stockLosses: 1000, otherLosses: 200, year: 2024 }
+      const state = createPortfolioTaxState([createElement('sparplan', 10000, 9000, 0, simulatedLosses)], 2024, {
+        stockLosses: 5000,
+        otherLosses: 0,
+        year: 2019,
+      })
+
+      expect(state.lossAccountState).toEqual(simulatedLosses)
+    })
+
+    test('should fall back to the given loss offset accounts', () => {
+      const initialLosses = { stockLosses: 5000, otherLosses: 0, year: 2019 }
+      const state = createPortfolioTaxState([createElement('sparplan', 10000, 9000, 0)], 2024, initialLosses, 0.5)
+
+      expect(state.lossAccountState).toEqual(initialLosses)
+      expect(state.stockGainsRatio).toBe(0.5)
+    })
+  })
+
+  describe('calculateLotSaleGain', () => {
+    test('should subtract the proportional cost basis and taxed Vorabpauschale', () => {
+      const lot = { costBasis: 10000, currentValue: 20000, vorabpauschaleAccumulated: 1000 }
+
+      // 5,000 - (10,000 + 1,000) * 0.25
+      expect(calculateLotSaleGain(lot, 5000)).toBeCloseTo(2250, 2)
+    })
+
+    test('should return a negative gain for a lot below its cost basis', () => {
+      expect(calculateLotSaleGain({ costBasis: 10000, currentValue: 8000, vorabpauschaleAccumulated: 0 }, 4000)).toBe(
+        -1000,
+      )
+    })
+
+    test('should return 0 for an empty lot', () => {
+      expect(calculateLotSaleGain({ costBasis: 10000, currentValue: 0, vorabpauschaleAccumulated: 0 }, 100)).toBe(0)
+    })
+  })
+
+  describe('applyLossAccountsToRealizedGain', () => {
+    test('should return the gain unchanged without any losses', () => {
+      const state = { lossAccountState: { stockLosses: 0, otherLosses: 0, year: 2024 }, stockGainsRatio: 0.7 }
+
+      expect(applyLossAccountsToRealizedGain(state, 3000, 0.2, 2025)).toEqual({ taxableGain: 3000 })
+    })
+
+    test('should reduce the gain by the carried forward losses and update the accounts', () => {
+      const state = { lossAccountState: { stockLosses: 1000, otherLosses: 500, year: 2024 }, stockGainsRatio: 0.7 }
+
+      const { taxableGain, lossOffsetDetails } = applyLossAccountsToRealizedGain(state, 3000, 0.2, 2025)
+
+      // Stock gains 2,100 - 1,000 stock losses, other gains 900 - 500 other losses
+      expect(taxableGain).toBeCloseTo(1500, 2)
+      expect(lossOffsetDetails?.totalLossesUsed).toBeCloseTo(1500, 2)
+      expect(lossOffsetDetails?.taxSavings).toBeCloseTo(300, 2)
+      expect(state.lossAccountState).toEqual({ stockLosses: 0, otherLosses: 0, year: 2025 })
+    })
+
+    test('should add a realized loss to the accounts', () => {
+      const state = { lossAccountState: { stockLosses: 0, otherLosses: 0, year: 2024 }, stockGainsRatio: 0.7 }
+
+      const { taxableGain } = applyLossAccountsToRealizedGain(state, -1000, 0.2, 2025)
+
+      expect(taxableGain).toBe(0)
+      expect(state.lossAccountState.stockLosses).toBeCloseTo(700, 2)
+      expect(state.lossAccountState.otherLosses).toBeCloseTo(300, 2)
+    })
+  })
+})
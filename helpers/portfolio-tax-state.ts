@@ -0,0 +1,159 @@
+/**
+ * Steuerlicher Depotzustand (Portfolio Tax State)
+ *
+ * This module carries the tax-relevant state of the portfolio from the savings phase into the
+ * withdrawal phase (and from one withdrawal segment into the next):
+ * - One lot per purchase with purchase date, acquisition costs (Anschaffungskosten) and current value
+ * - The Vorabpauschalen already taxed on each lot
+ * - Reinvested distributions of distributing funds, which add to the acquisition costs
+ * - The loss offset accounts (Verlustverrechnungstöpfe)
+ *
+ * Key German tax concepts:
+ * - Veräußerungsgewinn: Sale proceeds minus acquisition costs minus the Vorabpauschalen already taxed
+ *   during the holding period (§ 19 Abs. 1 InvStG), so no income is taxed twice
+ * - FIFO: The oldest lots are sold first
+ * - Verlustvortrag: Losses of the savings phase offset gains realized in retirement
+ */
+
+import type { SparplanElement } from '../src/utils/sparplan-utils'
+import type { InvestmentLot } from './selling-strategy'
+import {
+  calculateLossOffset,
+  createInitialLossAccountState,
+  type LossAccountState,
+  type LossOffsetResult,
+  type RealizedLossesConfig,
+} from './loss-offset-accounts'
+
+/** Share of gains from stocks when none is configured (same default as the savings phase simulation) */
+const DEFAULT_STOCK_GAINS_RATIO = 0.7
+
+/**
+ * Tax state of the portfolio at the end of a year
+ */
+export interface PortfolioTaxState {
+  /** Year at whose end the state applies */
+  year: number
+  /** One lot per savings plan element, in the order of the elements */
+  lots: InvestmentLot[]
+  /** Loss offset accounts carried forward */
+  lossAccountState: LossAccountState
+  /** Share of gains and losses from stocks, decides between Aktienverlusttopf and sonstiger Verlusttopf */
+  stockGainsRatio: number
+}
+
+/**
+ * Acquisition costs of an element (one-time payments include their already realized gain)
+ */
+export function getElementCostBasis(element: SparplanElement): number {
+  return element.type === 'einmalzahlung' ? element.einzahlung + (element.gewinn || 0) : element.einzahlung
+}
+
+/**
+ * Acquisition costs of an element at the end of a year, including its reinvested distributions
+ */
+function getLotCostBasis(element: SparplanElement, year: number): number {
+  return getElementCostBasis(element) + (element.simulation?.[year]?.reinvestierteAusschuettungenAccumulated ?? 0)
+}
+
+/**
+ * Loss offset accounts recorded by the simulation in a year (the same state is stored on every element)
+ */
+function findLossAccountState(elements: SparplanElement[], year: number): LossAccountState | undefined {
+  return elements.find(element => element.simulation?.[year]?.lossAccountState)?.simulation[year].lossAccountState
+}
+
+/**
+ * Create the tax state of the portfolio at the end of a year from simulated elements
+ *
+ * @param elements - Savings plan elements with simulation results
+ * @param year - Year at whose end the state is taken
+ * @param lossAccountState - Loss offset accounts to use when the simulation did not record any
+ * @param stockGainsRatio - Share of gains from stocks (default: 70%)
+ * @returns Lots with value, acquisition costs and taxed Vorabpauschale plus the loss offset accounts
+ */
+export function createPortfolioTaxState(
+  elements: SparplanElement[],
+  year: number,
+  lossAccountState?: LossAccountState,
+  stockGainsRatio = DEFAULT_STOCK_GAINS_RATIO,
+): PortfolioTaxState {
+  return {
+    year,
+    lots: elements.map((element, index) => ({
+      id: String(index),
+      purchaseDate: new Date(element.start),
+      costBasis: getLotCostBasis(element, year),
+      currentValue: element.simulation?.[year]?.endkapital || 0,
+      vorabpauschaleAccumulated: element.simulation?.[year]?.vorabpauschaleAccumulated || 0,
+    })),
+    lossAccountState: findLossAccountState(elements, year) ?? lossAccountState ?? createInitialLossAccountState(year),
+    stockGainsRatio,
+  }
+}
+
+/**
+ * Total value of all lots
+ */
+export function getPortfolioTaxStateValue(state: PortfolioTaxState): number {
+  return state.lots.reduce((sum, lot) => sum + lot.currentValue, 0)
+}
+
+/**
+ * Taxable gain when selling part of a lot: proceeds minus the proportional acquisition costs and
+ * the proportional Vorabpauschale already taxed. Negative values are realized losses.
+ */
+export function calculateLotSaleGain(
+  lot: Pick<InvestmentLot, 'costBasis' | 'currentValue' | 'vorabpauschaleAccumulated'>,
+  amountSold: number,
+): number {
+  if (lot.currentValue <= 0) {
+    return 0
+  }
+
+  const proportionSold = amountSold / lot.currentValue
+  return amountSold - (lot.costBasis + lot.vorabpauschaleAccumulated) * proportionSold
+}
+
+/**
+ * Offset the realized sale result of a year against the loss offset accounts
+ *
+ * Realized losses are added to the accounts, realized gains are reduced by them. Gains and losses are
+ * split into stock and other parts like in the savings phase. The accounts are updated in place.
+ *
+ * @param state - Tax state whose loss offset accounts are used
+ * @param realizedGain - Realized gain of the year (negative for a realized loss)
+ * @param effectiveTaxRate - Kapitalertragsteuer × (1 - Teilfreistellung), used for the tax savings
+ * @param year - Current year
+ * @param externalLosses - Losses realized outside of the portfolio in this year
+ * @returns The taxable gain after the offset and the offset details (undefined without any losses)
+ */
+export function applyLossAccountsToRealizedGain(
+  state: Pick<PortfolioTaxState, 'lossAccountState' | 'stockGainsRatio'>,
+  realizedGain: number,
+  effectiveTaxRate: number,
+  year: number,
+  externalLosses?: RealizedLossesConfig,
+): { taxableGain: number; lossOffsetDetails?: LossOffsetResult } {
+  const { lossAccountState, stockGainsRatio } = state
+  const gain = Math.max(0, realizedGain)
+  const loss = Math.max(0, -realizedGain)
+  const stockLosses = loss * stockGainsRatio + (externalLosses?.stockLosses ?? 0)
+  const otherLosses = loss * (1 - stockGainsRatio) + (externalLosses?.otherLosses ?? 0)
+  if (stockLosses + otherLosses === 0 && lossAccountState.stockLosses <= 0 && lossAccountState.otherLosses <= 0) {
+    return { taxableGain: gain }
+  }
+
+  const lossOffsetDetails = calculateLossOffset(
+    lossAccountState,
+    { stockLosses, otherLosses, year },
+    gain * stockGainsRatio,
+    gain * (1 - stockGainsRatio),
+    0,
+    effectiveTaxRate,
+    year,
+  )
+  Object.assign(lossAccountState, lossOffsetDetails.remainingLosses)
+
+  return { taxableGain: lossOffsetDetails.taxableIncomeAfterOffset, lossOffsetDetails }
+}
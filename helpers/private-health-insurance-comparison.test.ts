@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest'
+import { createDefaultHealthCareInsuranceConfig, type HealthCareInsuranceConfig } from './health-care-insurance'
+import { createDefaultPrivateHealthInsuranceProjectionConfig } from './private-health-insurance'
+import {
+  calculateStatutoryWorkingContribution,
+  calculateWorkingPhaseInsuranceComparison,
+  combineLifetimeInsuranceComparison,
+} from './private-health-insurance-comparison'
+
+describe('private-health-insurance-comparison', () => {
+  const config: HealthCareInsuranceConfig = {
+    ...createDefaultHealthCareInsuranceConfig(),
+    insuranceType: 'private',
+    statutoryHealthInsuranceRate: 14.6,
+    statutoryCareInsuranceRate: 3.4,
+    statutoryMinimumIncomeBase: 13230,
+    statutoryMaximumIncomeBase: 66150,
+    privateHealthInsuranceMonthly: 500,
+    privateCareInsuranceMonthly: 50,
+    additionalCareInsuranceForChildless: false,
+  }
+  const projection = {
+    ...createDefaultPrivateHealthInsuranceProjectionConfig(2025),
+    enabled: true,
+    premiumIncreaseRate: 0,
+    ageRelatedIncreaseRate: 0,
+    incomeGrowthRate: 0,
+  }
+
+  describe('calculateStatutoryWorkingContribution', () => {
+    it('should charge employees half of the rates up to the Beitragsbemessungsgrenze', () => {
+      expect(calculateStatutoryWorkingContribution(config, 100000, 1, true, 40)).toBeCloseTo(66150 * 0.09, 10)
+    })
+
+    it('should charge self-employed the full rates at least on the Mindestbemessungsgrundlage', () => {
+      expect(calculateStatutoryWorkingContribution(config, 5000, 1, false, 40)).toBeCloseTo(13230 * 0.18, 10)
+    })
+  })
+
+  describe('calculateWorkingPhaseInsuranceComparison', () => {
+    it('should compare the own contributions of every working year', () => {
+      const result = calculateWorkingPhaseInsuranceComparison(
+        config,
+        { ...projection, workingIncomeAnnual: 50000 },
+        { birthYear: 1985, startYear: 2025, endYear: 2029 },
+      )
+
+      expect(result.years).toHaveLength(5)
+      expect(result.years[0].age).toBe(40)
+      // Self-employed: premium including the 10% Zuschlag without subsidy
+      expect(result.years[0].private).toBeCloseTo((550 + 50) * 12, 10)
+      expect(result.years[0].statutory).toBeCloseTo(50000 * 0.18, 10)
+      expect(result.sum.years).toBe(5)
+      expect(result.sum.private).toBeCloseTo(5 * 600 * 12, 10)
+    })
+
+    it('should subtract the employer subsidy for employees', () => {
+      const result = calculateWorkingPhaseInsuranceComparison(
+        config,
+        { ...projection, employerSubsidy: true, workingIncomeAnnual: 50000 },
+        { birthYear: 1985, startYear: 2025, endYear: 2025 },
+      )
+
+      expect(result.years[0].private).toBeCloseTo(300 * 12, 10)
+      expect(result.years[0].statutory).toBeCloseTo(50000 * 0.09, 10)
+    })
+  })
+
+  describe('combineLifetimeInsuranceComparison', () => {
+    it('should add the withdrawal years to the working years', () => {
+      const result = combineLifetimeInsuranceComparison(
+        { private: 100000, statutory: 120000, years: 20 },
+        { private: 150000, statutory: 90000, years: 25 },
+      )
+
+      expect(result.private).toBe(250000)
+      expect(result.statutory).toBe(210000)
+      expect(result.difference).toBe(40000)
+    })
+  })
+})
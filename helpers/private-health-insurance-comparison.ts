@@ -0,0 +1,140 @@
+/**
+ * Lifetime comparison of the private (PKV) and the statutory health insurance (GKV)
+ *
+ * The withdrawal years are compared in the withdrawal simulation (privateStatutoryComparison of each year). This
+ * module adds the working years until the withdrawal starts:
+ * - GKV: employees pay half of the contribution rates on their income up to the Beitragsbemessungsgrenze,
+ *   self-employed pay the full rates on their income, at least on the Mindestbemessungsgrundlage
+ * - PKV: projected premium, employees receive the employer subsidy
+ *
+ * Income and assessment limits (including the maximum employer subsidy) grow with the income growth rate.
+ */
+
+import type {
+  HealthCareInsuranceConfig,
+  PrivateStatutoryComparison,
+  PrivateStatutoryComparisonSum,
+} from './health-care-insurance'
+import {
+  calculatePrivateHealthInsurancePremium,
+  type PrivateHealthInsuranceProjectionConfig,
+} from './private-health-insurance'
+
+/**
+ * Additional care insurance rate of childless members paid by the member alone
+ */
+const CHILDLESS_CARE_INSURANCE_SURCHARGE = 0.6
+
+/**
+ * Contributions of a working year with private and with statutory insurance
+ */
+export interface WorkingPhaseInsuranceComparisonYear extends PrivateStatutoryComparison {
+  year: number
+  age: number
+}
+
+/**
+ * Contributions of the working years with private and with statutory insurance
+ */
+export interface WorkingPhaseInsuranceComparison {
+  years: WorkingPhaseInsuranceComparisonYear[]
+  sum: PrivateStatutoryComparisonSum
+}
+
+/**
+ * Contributions over working years and withdrawal years
+ */
+export interface LifetimeInsuranceComparison {
+  workingPhase: PrivateStatutoryComparisonSum
+  withdrawalPhase: PrivateStatutoryComparisonSum | undefined
+  private: number
+  statutory: number
+  /** Additional cost of the private insurance (negative when it is cheaper) */
+  difference: number
+}
+
+/**
+ * Own statutory contribution of a working year
+ */
+export function calculateStatutoryWorkingContribution(
+  config: HealthCareInsuranceConfig,
+  incomeAnnual: number,
+  growthFactor: number,
+  isEmployee: boolean,
+  age: number,
+): number {
+  const cappedIncome = Math.min(incomeAnnual, config.statutoryMaximumIncomeBase * growthFactor)
+  const base = isEmployee ? cappedIncome : Math.max(config.statutoryMinimumIncomeBase * growthFactor, cappedIncome)
+  const share = isEmployee ? 0.5 : 1
+  const childlessSurcharge =
+    config.additionalCareInsuranceForChildless && age >= config.additionalCareInsuranceAge
+      ? CHILDLESS_CARE_INSURANCE_SURCHARGE
+      : 0
+  const rate = (config.statutoryHealthInsuranceRate + config.statutoryCareInsuranceRate) * share + childlessSurcharge
+
+  return (Math.max(0, base) * rate) / 100
+}
+
+/**
+ * Compare the contributions of the working years from startYear until endYear
+ */
+export function calculateWorkingPhaseInsuranceComparison(
+  config: HealthCareInsuranceConfig,
+  projection: PrivateHealthInsuranceProjectionConfig,
+  params: { birthYear: number; startYear: number; endYear: number },
+): WorkingPhaseInsuranceComparison {
+  const years: WorkingPhaseInsuranceComparisonYear[] = []
+
+  for (let year = params.startYear; year <= params.endYear; year++) {
+    const age = year - params.birthYear
+    const growthFactor = Math.pow(1 + projection.incomeGrowthRate / 100, year - projection.premiumYear)
+    const premium = calculatePrivateHealthInsurancePremium(projection, {
+      healthInsuranceMonthly: config.privateHealthInsuranceMonthly,
+      careInsuranceMonthly: config.privateCareInsuranceMonthly,
+      birthYear: params.birthYear,
+      year,
+      subsidySource: projection.employerSubsidy ? 'employer' : 'none',
+      statutoryPensionAnnual: 0,
+      employerSubsidyFactor: growthFactor,
+    })
+    const income = projection.workingIncomeAnnual * growthFactor
+
+    years.push({
+      year,
+      age,
+      private: premium.netMonthly * 12,
+      statutory: calculateStatutoryWorkingContribution(config, income, growthFactor, projection.employerSubsidy, age),
+    })
+  }
+
+  return {
+    years,
+    sum: years.reduce<PrivateStatutoryComparisonSum>(
+      (sum, year) => ({
+        private: sum.private + year.private,
+        statutory: sum.statutory + year.statutory,
+        years: sum.years + 1,
+      }),
+      { private: 0, statutory: 0, years: 0 },
+    ),
+  }
+}
+
+/**
+ * Combine the working years with the simulated withdrawal years
+ */
+export function combineLifetimeInsuranceComparison(
+  workingPhase: PrivateStatutoryComparisonSum,
+  withdrawalPhase: PrivateStatutoryComparisonSum | undefined,
+): LifetimeInsuranceComparison {
+  const privateTotal = workingPhase.private + (withdrawalPhase?.private ?? 0)
+  const statutoryTotal = workingPhase.statutory + (withdrawalPhase?.statutory ?? 0)
+
+  return {
+    workingPhase,
+    withdrawalPhase,
+    private: privateTotal,
+    statutory: statutoryTotal,
+    difference: privateTotal - statutoryTotal,
+  }
+}
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest'
+import {
+  MAX_EMPLOYER_HEALTH_SUBSIDY_MONTHLY,
+  calculatePrivateHealthInsurancePremium,
+  calculatePrivateInsurancePremiumFactor,
+  createDefaultPrivateHealthInsuranceProjectionConfig,
+  type PrivateHealthInsurancePremiumParams,
+  type PrivateHealthInsuranceProjectionConfig,
+} from './private-health-insurance'
+
+describe('private-health-insurance', () => {
+  const config: PrivateHealthInsuranceProjectionConfig = {
+    ...createDefaultPrivateHealthInsuranceProjectionConfig(2025),
+    enabled: true,
+    premiumIncreaseRate: 3,
+    ageRelatedIncreaseStartAge: 60,
+    ageRelatedIncreaseRate: 1,
+  }
+  const params: PrivateHealthInsurancePremiumParams = {
+    healthInsuranceMonthly: 500,
+    careInsuranceMonthly: 50,
+    birthYear: 1970,
+    year: 2025,
+    subsidySource: 'none',
+    statutoryPensionAnnual: 0,
+  }
+
+  describe('calculatePrivateInsurancePremiumFactor', () => {
+    it('should add the age-related increase from the configured age', () => {
+      // Age 56 to 60 in 2026 to 2030: four years with 3%, one year with 4%
+      expect(calculatePrivateInsurancePremiumFactor(config, 1970, 2030)).toBeCloseTo(1.03 ** 4 * 1.04, 10)
+    })
+
+    it('should not change the premium up to the premium year', () => {
+      expect(calculatePrivateInsurancePremiumFactor(config, 1970, 2025)).toBe(1)
+      expect(calculatePrivateInsurancePremiumFactor(config, 1970, 2020)).toBe(1)
+    })
+  })
+
+  describe('calculatePrivateHealthInsurancePremium', () => {
+    it('should add the 10% Zuschlag until the year of the 60th birthday', () => {
+      const flatConfig = { ...config, premiumIncreaseRate: 0, ageRelatedIncreaseRate: 0 }
+
+      expect(calculatePrivateHealthInsurancePremium(flatConfig, { ...params, year: 2030 }).healthInsuranceMonthly).toBe(
+        550,
+      )
+      const afterSixty = calculatePrivateHealthInsurancePremium(flatConfig, { ...params, year: 2031 })
+      expect(afterSixty.statutorySurchargeMonthly).toBe(0)
+      expect(afterSixty.healthInsuranceMonthly).toBe(500)
+    })
+
+    it('should charge the Beitragsentlastungstarif until and reduce the premium from the relief start age', () => {
+      const reliefConfig = {
+        ...config,
+        premiumIncreaseRate: 0,
+        ageRelatedIncreaseRate: 0,
+        reliefTariffMonthlyContribution: 80,
+        reliefTariffMonthlyReduction: 200,
+        reliefTariffStartAge: 67,
+      }
+
+      const working = calculatePrivateHealthInsurancePremium(reliefConfig, { ...params, year: 2036 })
+      expect(working.reliefContributionMonthly).toBe(80)
+      // Age 66: the Zuschlag has already ended
+      expect(working.healthInsuranceMonthly).toBe(500 + 80)
+
+      const retired = calculatePrivateHealthInsurancePremium(reliefConfig, { ...params, year: 2037 })
+      expect(retired.reliefContributionMonthly).toBe(0)
+      expect(retired.healthInsuranceMonthly).toBe(300)
+      expect(retired.netMonthly).toBe(350)
+    })
+
+    it('should cap the employer subsidy at half of the premium and the maximum subsidy', () => {
+      const small = calculatePrivateHealthInsurancePremium(config, { ...params, subsidySource: 'employer' })
+      expect(small.healthSubsidyMonthly).toBe(275)
+      expect(small.careSubsidyMonthly).toBe(25)
+
+      const large = calculatePrivateHealthInsurancePremium(config, {
+        ...params,
+        healthInsuranceMonthly: 1200,
+        subsidySource: 'employer',
+      })
+      expect(large.healthSubsidyMonthly).toBe(MAX_EMPLOYER_HEALTH_SUBSIDY_MONTHLY)
+    })
+
+    it('should switch to the Zuschuss der Rentenversicherung on the statutory pension in retirement', () => {
+      const result = calculatePrivateHealthInsurancePremium(
+        { ...config, premiumIncreaseRate: 0, ageRelatedIncreaseRate: 0 },
+        { ...params, year: 2037, subsidySource: 'pension', statutoryPensionAnnual: 24000 },
+      )
+
+      // 2000 € monthly pension × 8.55%
+      expect(result.healthSubsidyMonthly).toBeCloseTo(171, 10)
+      expect(result.careSubsidyMonthly).toBe(0)
+      expect(result.netMonthly).toBeCloseTo(500 + 50 - 171, 10)
+    })
+  })
+})
@@ -0,0 +1,226 @@
+/**
+ * Projection of private health insurance premiums (PKV)
+ *
+ * - Premiums increase every year with the general premium increase and, from a configurable age, with an
+ *   additional age-related increase
+ * - Gesetzlicher Zuschlag (§ 149 VAG): 10% on the health insurance premium from the year of the 21st until the
+ *   year of the 60th birthday. It funds the Alterungsrückstellung and ends at 60.
+ * - Beitragsentlastungstarif: additional fixed contribution until the relief start age, from then on a fixed
+ *   reduction of the health insurance premium
+ * - Subsidy: employees receive half of the premium up to the maximum employer subsidy (§ 257 SGB V). Retirees
+ *   receive the Zuschuss zur Krankenversicherung of the Rentenversicherung (§ 106 SGB VI) on the statutory
+ *   pension, at most half of the health insurance premium. Care insurance premiums are not subsidized in retirement.
+ */
+
+/**
+ * Gesetzlicher Zuschlag on the health insurance premium (§ 149 VAG)
+ */
+export const PKV_STATUTORY_SURCHARGE_RATE = 0.1
+
+/**
+ * The Zuschlag is paid from the year of the 21st until the year of the 60th birthday
+ */
+export const PKV_STATUTORY_SURCHARGE_START_AGE = 21
+export const PKV_STATUTORY_SURCHARGE_END_AGE = 60
+
+/**
+ * Maximum monthly employer subsidy for the health insurance in 2025 (half of the general rate plus the average
+ * Zusatzbeitrag on the Beitragsbemessungsgrenze)
+ */
+export const MAX_EMPLOYER_HEALTH_SUBSIDY_MONTHLY = 471.32
+
+/**
+ * Maximum monthly employer subsidy for the care insurance in 2025
+ */
+export const MAX_EMPLOYER_CARE_SUBSIDY_MONTHLY = 99.23
+
+/**
+ * Zuschuss der Rentenversicherung in percent of the statutory pension (7.3% plus half of the average
+ * Zusatzbeitrag of 2.5% in 2025)
+ */
+export const PENSION_HEALTH_INSURANCE_SUBSIDY_RATE = 8.55
+
+/**
+ * Configuration of the private health insurance premium projection
+ */
+export interface PrivateHealthInsuranceProjectionConfig {
+  /** Whether the premiums are projected instead of increased with a flat inflation rate */
+  enabled: boolean
+  /** Year of the entered monthly premiums */
+  premiumYear: number
+  /** General annual premium increase in percent */
+  premiumIncreaseRate: number
+  /** Age from which the premiums increase with the additional age-related increase */
+  ageRelatedIncreaseStartAge: number
+  /** Additional annual premium increase from ageRelatedIncreaseStartAge in percent */
+  ageRelatedIncreaseRate: number
+  /** Monthly contribution to the Beitragsentlastungstarif until the relief start age (0 = no tariff) */
+  reliefTariffMonthlyContribution: number
+  /** Monthly premium reduction of the Beitragsentlastungstarif from the relief start age */
+  reliefTariffMonthlyReduction: number
+  /** Age from which the Beitragsentlastungstarif reduces the premium */
+  reliefTariffStartAge: number
+  /** Whether an employer subsidizes the premiums during the working years (false for self-employed) */
+  employerSubsidy: boolean
+  /** Gross annual income during the working years, used for the comparison with the statutory insurance */
+  workingIncomeAnnual: number
+  /** Annual growth of the income and the assessment limits during the working years in percent */
+  incomeGrowthRate: number
+}
+
+/**
+ * Who subsidizes the premiums of a year
+ */
+export type PrivateInsuranceSubsidySource = 'employer' | 'pension' | 'none'
+
+/**
+ * Parameters of a premium year
+ */
+export interface PrivateHealthInsurancePremiumParams {
+  /** Monthly health insurance premium in the premium year without Zuschlag */
+  healthInsuranceMonthly: number
+  /** Monthly care insurance premium in the premium year */
+  careInsuranceMonthly: number
+  birthYear: number
+  year: number
+  subsidySource: PrivateInsuranceSubsidySource
+  /** Gross statutory pension of the year, the base of the Zuschuss der Rentenversicherung */
+  statutoryPensionAnnual: number
+  /** Factor applied to the maximum employer subsidy (growth of the Beitragsbemessungsgrenze) */
+  employerSubsidyFactor?: number
+}
+
+/**
+ * Monthly premium of a year
+ */
+export interface PrivateHealthInsurancePremium {
+  age: number
+  /** Premium increase since the premium year */
+  premiumFactor: number
+  /** Health insurance tariff premium without Zuschlag */
+  tariffMonthly: number
+  /** Gesetzlicher Zuschlag (until 60) */
+  statutorySurchargeMonthly: number
+  /** Contribution to the Beitragsentlastungstarif */
+  reliefContributionMonthly: number
+  /** Premium reduction of the Beitragsentlastungstarif */
+  reliefReductionMonthly: number
+  /** Health insurance premium including Zuschlag and Beitragsentlastungstarif */
+  healthInsuranceMonthly: number
+  /** Care insurance premium */
+  careInsuranceMonthly: number
+  subsidySource: PrivateInsuranceSubsidySource
+  /** Subsidy of the health insurance premium */
+  healthSubsidyMonthly: number
+  /** Subsidy of the care insurance premium */
+  careSubsidyMonthly: number
+  /** Premium paid by the insured person after the subsidies */
+  netMonthly: number
+}
+
+/**
+ * Premium increase factor from the premium year until the given year
+ */
+export function calculatePrivateInsurancePremiumFactor(
+  config: PrivateHealthInsuranceProjectionConfig,
+  birthYear: number,
+  year: number,
+): number {
+  let factor = 1
+
+  for (let currentYear = config.premiumYear + 1; currentYear <= year; currentYear++) {
+    const ageRelatedIncrease =
+      currentYear - birthYear >= config.ageRelatedIncreaseStartAge ? config.ageRelatedIncreaseRate : 0
+    factor *= 1 + (config.premiumIncreaseRate + ageRelatedIncrease) / 100
+  }
+
+  return factor
+}
+
+/**
+ * Gesetzlicher Zuschlag for the given age
+ */
+function getStatutorySurcharge(tariffMonthly: number, age: number): number {
+  const paysSurcharge = age >= PKV_STATUTORY_SURCHARGE_START_AGE && age <= PKV_STATUTORY_SURCHARGE_END_AGE
+  return paysSurcharge ? tariffMonthly * PKV_STATUTORY_SURCHARGE_RATE : 0
+}
+
+/**
+ * Subsidies of the health and care insurance premiums
+ */
+function calculateSubsidies(
+  healthInsuranceMonthly: number,
+  careInsuranceMonthly: number,
+  params: PrivateHealthInsurancePremiumParams,
+): { healthSubsidyMonthly: number; careSubsidyMonthly: number } {
+  if (params.subsidySource === 'employer') {
+    const factor = params.employerSubsidyFactor ?? 1
+    return {
+      healthSubsidyMonthly: Math.min(healthInsuranceMonthly / 2, MAX_EMPLOYER_HEALTH_SUBSIDY_MONTHLY * factor),
+      careSubsidyMonthly: Math.min(careInsuranceMonthly / 2, MAX_EMPLOYER_CARE_SUBSIDY_MONTHLY * factor),
+    }
+  }
+  if (params.subsidySource === 'pension') {
+    const pensionSubsidy = ((params.statutoryPensionAnnual / 12) * PENSION_HEALTH_INSURANCE_SUBSIDY_RATE) / 100
+    return { healthSubsidyMonthly: Math.min(healthInsuranceMonthly / 2, pensionSubsidy), careSubsidyMonthly: 0 }
+  }
+  return { healthSubsidyMonthly: 0, careSubsidyMonthly: 0 }
+}
+
+/**
+ * Calculate the projected monthly premium of a year
+ */
+export function calculatePrivateHealthInsurancePremium(
+  config: PrivateHealthInsuranceProjectionConfig,
+  params: PrivateHealthInsurancePremiumParams,
+): PrivateHealthInsurancePremium {
+  const age = params.year - params.birthYear
+  const premiumFactor = calculatePrivateInsurancePremiumFactor(config, params.birthYear, params.year)
+  const tariffMonthly = params.healthInsuranceMonthly * premiumFactor
+  const statutorySurchargeMonthly = getStatutorySurcharge(tariffMonthly, age)
+  const reliefActive = age >= config.reliefTariffStartAge
+  const reliefContributionMonthly = reliefActive ? 0 : config.reliefTariffMonthlyContribution
+  const reliefReductionMonthly = reliefActive
+    ? Math.min(config.reliefTariffMonthlyReduction, tariffMonthly + statutorySurchargeMonthly)
+    : 0
+  const healthInsuranceMonthly =
+    tariffMonthly + statutorySurchargeMonthly + reliefContributionMonthly - reliefReductionMonthly
+  const careInsuranceMonthly = params.careInsuranceMonthly * premiumFactor
+  const subsidies = calculateSubsidies(healthInsuranceMonthly, careInsuranceMonthly, params)
+
+  return {
+    age,
+    premiumFactor,
+    tariffMonthly,
+    statutorySurchargeMonthly,
+    reliefContributionMonthly,
+    reliefReductionMonthly,
+    healthInsuranceMonthly,
+    careInsuranceMonthly,
+    subsidySource: params.subsidySource,
+    ...subsidies,
+    netMonthly:
+      healthInsuranceMonthly + careInsuranceMonthly - subsidies.healthSubsidyMonthly - subsidies.careSubsidyMonthly,
+  }
+}
+
+/**
+ * Create a default premium projection, disabled until the user configures it
+ */
+export function createDefaultPrivateHealthInsuranceProjectionConfig(
+  premiumYear: number,
+): PrivateHealthInsuranceProjectionConfig {
+  return {
+    enabled: false,
+    premiumYear,
+    premiumIncreaseRate: 3.0,
+    ageRelatedIncreaseStartAge: 60,
+    ageRelatedIncreaseRate: 1.0,
+    reliefTariffMonthlyContribution: 0,
+    reliefTariffMonthlyReduction: 0,
+    reliefTariffStartAge: 67,
+    employerSubsidy: false,
+    workingIncomeAnnual: 60000,
+    incomeGrowthRate: 2.5,
+  }
+}
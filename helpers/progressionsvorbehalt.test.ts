@@ -7,6 +7,8 @@ import {
   DEFAULT_PROGRESSIONSVORBEHALT_CONFIG,
   type ProgressionsvorbehaltConfig,
 } from './progressionsvorbehalt'
+import { calculateProgressiveTax } from './steuer'
+import { getTaxBracketsForYear } from './income-tax-tariff'
 
 describe('Progressionsvorbehalt', () => {
   describe('calculateGermanIncomeTax', () => {
@@ -142,6 +144,26 @@ describe('Progressionsvorbehalt', () => {
       expect(tax).toBeCloseTo(normalTax, 2)
     })
 
+    it('should use the exact tariff of the year when tax brackets are given', () => {
+      const taxBrackets = getTaxBracketsForYear(2026)
+      const taxableIncome = 20000
+      const progressionIncome = 15000
+
+      const tax = calculateIncomeTaxWithProgressionsvorbehalt(
+        taxableIncome,
+        progressionIncome,
+        grundfreibetrag,
+        false,
+        9,
+        taxBrackets,
+      )
+
+      const expectedTax =
+        calculateProgressiveTax(taxableIncome + progressionIncome, 0, 0, taxBrackets).totalTax -
+        calculateProgressiveTax(progressionIncome, 0, 0, taxBrackets).totalTax
+      expect(tax).toBeCloseTo(expectedTax, 6)
+    })
+
     it('should increase tax with progression-relevant income', () => {
       const taxableIncome = 30000
       const progressionIncome = 20000
@@ -14,6 +14,8 @@
  * or other progression-relevant income sources.
  */
 
+import { calculateProgressiveTax, type TaxBracket } from './steuer'
+
 export interface ProgressionsvorbehaltConfig {
   /**
    * Whether Progressionsvorbehalt calculation is enabled
@@ -100,23 +102,36 @@ export function calculateGermanIncomeTax(taxableIncome: number, grundfreibetrag
   return Math.max(0, tax)
 }
 
+/**
+ * Income tax used for the progression calculation: the exact §32a tariff when year-specific
+ * tax brackets are given, otherwise the simplified approximation
+ */
+function calculateTaxForProgression(income: number, grundfreibetrag: number, taxBrackets?: TaxBracket[]): number {
+  if (taxBrackets) {
+    return calculateProgressiveTax(income, 0, 0, taxBrackets).totalTax
+  }
+  return calculateGermanIncomeTax(income, grundfreibetrag)
+}
+
 /**
  * Calculate the effective tax rate using Progressionsvorbehalt
  *
  * @param taxableIncome - The actual taxable income (e.g., withdrawals from investments)
  * @param progressionRelevantIncome - Tax-exempt income that affects the tax rate
  * @param grundfreibetrag - The basic tax allowance (Grundfreibetrag)
+ * @param taxBrackets - Tax brackets of the year being calculated (optional, uses the simplified formula if omitted)
  * @returns The effective tax rate as a decimal (0.0 - 1.0)
  */
 export function calculateProgressionRate(
   taxableIncome: number,
   progressionRelevantIncome: number,
   grundfreibetrag = 11604,
+  taxBrackets?: TaxBracket[],
 ): number {
   // If there's no progression-relevant income or no taxable income, return the normal rate
   if (progressionRelevantIncome <= 0 || taxableIncome <= 0) {
     if (taxableIncome <= 0) return 0
-    const normalTax = calculateGermanIncomeTax(taxableIncome, grundfreibetrag)
+    const normalTax = calculateTaxForProgression(taxableIncome, grundfreibetrag, taxBrackets)
     return normalTax / taxableIncome
   }
 
@@ -129,10 +144,10 @@ export function calculateProgressionRate(
   // without taxing the progression income itself
   
   // Calculate tax on total income (hypothetically, as if all were taxable)
-  const taxOnTotalIncome = calculateGermanIncomeTax(totalIncome, grundfreibetrag)
+  const taxOnTotalIncome = calculateTaxForProgression(totalIncome, grundfreibetrag, taxBrackets)
   
   // Calculate tax on just the progression-relevant income (hypothetically)
-  const taxOnProgressionIncome = calculateGermanIncomeTax(progressionRelevantIncome, grundfreibetrag)
+  const taxOnProgressionIncome = calculateTaxForProgression(progressionRelevantIncome, grundfreibetrag, taxBrackets)
   
   // The effective tax for the taxable income is the difference
   const effectiveTaxForTaxableIncome = Math.max(0, taxOnTotalIncome - taxOnProgressionIncome)
@@ -151,6 +166,7 @@ export function calculateProgressionRate(
  * @param grundfreibetrag - The basic tax allowance (Grundfreibetrag)
  * @param kirchensteuerAktiv - Whether Kirchensteuer is active
  * @param kirchensteuersatz - Kirchensteuer rate (typically 8% or 9%)
+ * @param taxBrackets - Tax brackets of the year being calculated (optional, uses the simplified formula if omitted)
  * @returns The calculated income tax amount in euros
  */
 export function calculateIncomeTaxWithProgressionsvorbehalt(
@@ -159,13 +175,14 @@ export function calculateIncomeTaxWithProgressionsvorbehalt(
   grundfreibetrag = 11604,
   kirchensteuerAktiv = false,
   kirchensteuersatz = 9,
+  taxBrackets?: TaxBracket[],
 ): number {
   if (taxableIncome <= 0) {
     return 0
   }
 
   // Calculate the effective tax rate using progression
-  const effectiveRate = calculateProgressionRate(taxableIncome, progressionRelevantIncome, grundfreibetrag)
+  const effectiveRate = calculateProgressionRate(taxableIncome, progressionRelevantIncome, grundfreibetrag, taxBrackets)
 
   // Apply the effective rate to the taxable income
   // Important: Grundfreibetrag is already considered in the rate calculation
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+import {
+  calculateRentenfreibetrag,
+  calculateTaxablePensionAmount,
+  calculateVersorgungsfreibetrag,
+  getBesteuerungsanteil,
+  getVersorgungsfreibetragTabelle,
+} from './rentenbesteuerung'
+
+describe('rentenbesteuerung', () => {
+  describe('getBesteuerungsanteil', () => {
+    it('should follow the cohorts of § 22 EStG', () => {
+      expect(getBesteuerungsanteil(2000)).toBe(50)
+      expect(getBesteuerungsanteil(2005)).toBe(50)
+      expect(getBesteuerungsanteil(2010)).toBe(60)
+      expect(getBesteuerungsanteil(2020)).toBe(80)
+      expect(getBesteuerungsanteil(2022)).toBe(82)
+    })
+
+    it('should rise by 0.5 points per year since 2023 (Wachstumschancengesetz)', () => {
+      expect(getBesteuerungsanteil(2023)).toBe(82.5)
+      expect(getBesteuerungsanteil(2024)).toBe(83)
+      expect(getBesteuerungsanteil(2041)).toBe(91.5)
+      expect(getBesteuerungsanteil(2057)).toBe(99.5)
+      expect(getBesteuerungsanteil(2058)).toBe(100)
+      expect(getBesteuerungsanteil(2070)).toBe(100)
+    })
+  })
+
+  describe('calculateTaxablePensionAmount', () => {
+    const params = {
+      rentenbeginn: 2030,
+      besteuerungsanteil: 86,
+      grossAnnualAmountFolgejahr: 20400,
+    }
+
+    it('should apply the Besteuerungsanteil in the year of the pension start', () => {
+      expect(calculateTaxablePensionAmount({ ...params, year: 2030, grossAnnualAmount: 20000 })).toBeCloseTo(17200, 6)
+    })
+
+    it('should freeze the Rentenfreibetrag from the year after the pension start', () => {
+      expect(calculateRentenfreibetrag(20400, 86)).toBeCloseTo(2856, 6)
+      expect(calculateTaxablePensionAmount({ ...params, year: 2031, grossAnnualAmount: 20400 })).toBeCloseTo(17544, 6)
+      expect(calculateTaxablePensionAmount({ ...params, year: 2040, grossAnnualAmount: 25000 })).toBeCloseTo(22144, 6)
+    })
+  })
+
+  describe('Versorgungsfreibetrag', () => {
+    it('should decrease with every later cohort', () => {
+      expect(getVersorgungsfreibetragTabelle(2005)).toEqual({ prozentsatz: 40, hoechstbetrag: 3000, zuschlag: 900 })
+      expect(getVersorgungsfreibetragTabelle(2020)).toEqual({ prozentsatz: 16, hoechstbetrag: 1200, zuschlag: 360 })
+      expect(getVersorgungsfreibetragTabelle(2022)).toEqual({ prozentsatz: 14.4, hoechstbetrag: 1080, zuschlag: 324 })
+      expect(getVersorgungsfreibetragTabelle(2024)).toEqual({ prozentsatz: 13.6, hoechstbetrag: 1020, zuschlag: 306 })
+      expect(getVersorgungsfreibetragTabelle(2058)).toEqual({ prozentsatz: 0, hoechstbetrag: 0, zuschlag: 0 })
+      expect(getVersorgungsfreibetragTabelle(2065)).toEqual({ prozentsatz: 0, hoechstbetrag: 0, zuschlag: 0 })
+    })
+
+    it('should cap the Versorgungsfreibetrag at the Höchstbetrag and add the Zuschlag', () => {
+      expect(calculateVersorgungsfreibetrag(2024, 5000)).toBeCloseTo(680 + 306, 6)
+      expect(calculateVersorgungsfreibetrag(2024, 12000)).toBe(1020 + 306)
+    })
+  })
+})
@@ -0,0 +1,115 @@
+/**
+ * Taxation of pensions by the year the pension starts (Kohortenprinzip)
+ *
+ * Leibrenten from the gesetzliche Rentenversicherung and Rürup-Renten (§ 22 Nr. 1 Satz 3 Buchst. a
+ * Doppelbuchst. aa EStG) are taxed with the Besteuerungsanteil of the year the pension starts. The share rose
+ * from 50% (2005) by 2 points per year until 2020 and by 1 point per year until 2022. Since the
+ * Wachstumschancengesetz it rises by 0.5 points per year from 82.5% (2023) and reaches 100% for pensions
+ * starting in 2058. The tax-free part (Rentenfreibetrag) is fixed in euros with the pension of the year after
+ * the pension start and applies for the whole pension term, so later pension increases are fully taxable.
+ *
+ * Versorgungsbezüge (§ 19 Abs. 2 EStG), e.g. Betriebsrenten from a Direktzusage or Unterstützungskasse, keep a
+ * Versorgungsfreibetrag and Zuschlag of the year the payments start. Both decrease with every later cohort
+ * (0.4 points, 30 € and 9 € per year since 2023) and are fixed in euros for the whole payment term.
+ */
+
+/**
+ * First year of pension start with a Besteuerungsanteil of 100%
+ */
+export const BESTEUERUNGSANTEIL_VOLL_AB = 2058
+
+/**
+ * Versorgungsfreibetrag of a cohort of Versorgungsbezüge (§ 19 Abs. 2 Satz 3 EStG)
+ */
+export interface VersorgungsfreibetragTabelle {
+  /** Percentage of the annual Versorgungsbezug that stays tax-free */
+  prozentsatz: number
+  /** Maximum Versorgungsfreibetrag in EUR */
+  hoechstbetrag: number
+  /** Zuschlag zum Versorgungsfreibetrag in EUR */
+  zuschlag: number
+}
+
+/**
+ * Parameters for the taxable part of a pension with a frozen Rentenfreibetrag
+ */
+export interface TaxablePensionAmountParams {
+  /** Year of the calculation */
+  year: number
+  /** Year the pension starts */
+  rentenbeginn: number
+  /** Besteuerungsanteil in percent (0-100) */
+  besteuerungsanteil: number
+  /** Gross annual pension of the year */
+  grossAnnualAmount: number
+  /** Gross annual pension of the year after the pension start, the basis of the Rentenfreibetrag */
+  grossAnnualAmountFolgejahr: number
+}
+
+/**
+ * Besteuerungsanteil in percent (0-100) for a pension starting in the given year
+ */
+export function getBesteuerungsanteil(rentenbeginn: number): number {
+  if (rentenbeginn <= 2005) {
+    return 50
+  }
+  if (rentenbeginn <= 2020) {
+    return 50 + 2 * (rentenbeginn - 2005)
+  }
+  if (rentenbeginn <= 2022) {
+    return 80 + (rentenbeginn - 2020)
+  }
+  return Math.min(100, 82.5 + 0.5 * (rentenbeginn - 2023))
+}
+
+/**
+ * Rentenfreibetrag in EUR, fixed with the pension of the year after the pension start
+ */
+export function calculateRentenfreibetrag(grossAnnualAmountFolgejahr: number, besteuerungsanteil: number): number {
+  return grossAnnualAmountFolgejahr * (1 - besteuerungsanteil / 100)
+}
+
+/**
+ * Taxable part of a Leibrente in a year.
+ * The year of the pension start is taxed with the Besteuerungsanteil, every later year with the full pension
+ * minus the frozen Rentenfreibetrag.
+ */
+export function calculateTaxablePensionAmount(params: TaxablePensionAmountParams): number {
+  const { year, rentenbeginn, besteuerungsanteil, grossAnnualAmount, grossAnnualAmountFolgejahr } = params
+
+  if (year <= rentenbeginn) {
+    return grossAnnualAmount * (besteuerungsanteil / 100)
+  }
+
+  return Math.max(0, grossAnnualAmount - calculateRentenfreibetrag(grossAnnualAmountFolgejahr, besteuerungsanteil))
+}
+
+/**
+ * Versorgungsfreibetrag and Zuschlag for Versorgungsbezüge starting in the given year
+ */
+export function getVersorgungsfreibetragTabelle(versorgungsbeginn: number): VersorgungsfreibetragTabelle {
+  if (versorgungsbeginn <= 2005) {
+    return { prozentsatz: 40, hoechstbetrag: 3000, zuschlag: 900 }
+  }
+  if (versorgungsbeginn <= 2020) {
+    const jahre = versorgungsbeginn - 2005
+    return { prozentsatz: (400 - 16 * jahre) / 10, hoechstbetrag: 3000 - 120 * jahre, zuschlag: 900 - 36 * jahre }
+  }
+  if (versorgungsbeginn <= 2022) {
+    const jahre = versorgungsbeginn - 2020
+    return { prozentsatz: (160 - 8 * jahre) / 10, hoechstbetrag: 1200 - 60 * jahre, zuschlag: 360 - 18 * jahre }
+  }
+
+  const jahre = Math.min(versorgungsbeginn, BESTEUERUNGSANTEIL_VOLL_AB) - 2023
+  return { prozentsatz: (140 - 4 * jahre) / 10, hoechstbetrag: 1050 - 30 * jahre, zuschlag: 315 - 9 * jahre }
+}
+
+/**
+ * Versorgungsfreibetrag including Zuschlag in EUR, fixed with the Versorgungsbezug of the first year
+ */
+export function calculateVersorgungsfreibetrag(versorgungsbeginn: number, grossAnnualAmountErstesJahr: number): number {
+  const tabelle = getVersorgungsfreibetragTabelle(versorgungsbeginn)
+  const freibetrag = Math.min(grossAnnualAmountErstesJahr * (tabelle.prozentsatz / 100), tabelle.hoechstbetrag)
+
+  return freibetrag + tabelle.zuschlag
+}
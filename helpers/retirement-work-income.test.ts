@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest'
+import { calculateWorkIncome, calculateWorkIncomeWithdrawalReduction } from './retirement-work-income'
+import type { PartTimeRetirementWorkConfig } from './part-time-retirement-work'
+import { calculateHinzuverdienstgrenze, createDefaultEMRenteConfig, type EMRenteConfig } from './em-rente'
+
+const partTimeConfig: PartTimeRetirementWorkConfig = {
+  workPhases: [{ startYear: 2041, endYear: 2042, monthlyGrossIncome: 2000, weeklyHours: 20, description: 'Beratung' }],
+  reduceWithdrawals: true,
+  withdrawalReductionPercent: 50,
+  calculateSocialSecurity: false,
+}
+
+const emRenteConfig: EMRenteConfig = {
+  ...createDefaultEMRenteConfig(),
+  enabled: true,
+  type: 'volle',
+  disabilityStartYear: 2041,
+  birthYear: 1980,
+}
+
+describe('retirement-work-income', () => {
+  describe('calculateWorkIncome', () => {
+    it('should only include years with work or EM-Rente', () => {
+      const result = calculateWorkIncome(partTimeConfig, undefined, 2040, 2043)
+
+      expect(Object.keys(result).map(Number)).toEqual([2041, 2042])
+      expect(result[2041]).toMatchObject({
+        partTimeGrossAmount: 24000,
+        socialSecurityContributions: 0,
+        emRenteGrossAmount: 0,
+        taxableAmount: 24000,
+        netAnnualAmount: 24000,
+        withdrawalReductionPercent: 50,
+        description: 'Beratung',
+      })
+    })
+
+    it('should deduct health and care insurance contributions when enabled', () => {
+      const result = calculateWorkIncome({ ...partTimeConfig, calculateSocialSecurity: true }, undefined, 2041, 2041)
+
+      expect(result[2041].socialSecurityContributions).toBeGreaterThan(0)
+      expect(result[2041].taxableAmount).toBeCloseTo(24000 - result[2041].socialSecurityContributions, 2)
+    })
+
+    it('should not reduce the withdrawal when the reduction is disabled', () => {
+      const result = calculateWorkIncome({ ...partTimeConfig, reduceWithdrawals: false }, undefined, 2041, 2041)
+
+      expect(result[2041].withdrawalReductionPercent).toBe(0)
+    })
+
+    it('should reduce the EM-Rente when the work income exceeds the Hinzuverdienstgrenze', () => {
+      const monthlyLimit = calculateHinzuverdienstgrenze('volle')
+      const highIncomeConfig: PartTimeRetirementWorkConfig = {
+        ...partTimeConfig,
+        workPhases: [{ ...partTimeConfig.workPhases[0], monthlyGrossIncome: monthlyLimit + 1000 }],
+      }
+
+      const withoutWork = calculateWorkIncome(undefined, emRenteConfig, 2041, 2041)[2041]
+      const withWork = calculateWorkIncome(highIncomeConfig, emRenteConfig, 2041, 2041)[2041]
+
+      expect(withoutWork.hinzuverdienstReduction).toBe(0)
+      expect(withWork.hinzuverdienstReduction).toBeCloseTo(1000 * 0.4 * 12, 0)
+      expect(withWork.emRenteGrossAmount).toBeCloseTo(
+        withoutWork.emRenteGrossAmount - withWork.hinzuverdienstReduction,
+        0,
+      )
+    })
+
+    it('should tax only the taxable part of the EM-Rente', () => {
+      const result = calculateWorkIncome(undefined, emRenteConfig, 2041, 2041)[2041]
+
+      expect(result.emRenteGrossAmount).toBeGreaterThan(0)
+      expect(result.taxableAmount).toBeLessThan(result.emRenteGrossAmount)
+      expect(result.netAnnualAmount).toBe(result.emRenteGrossAmount)
+      expect(result.withdrawalReductionPercent).toBe(0)
+    })
+  })
+
+  describe('calculateWorkIncomeWithdrawalReduction', () => {
+    const workIncome = calculateWorkIncome(partTimeConfig, undefined, 2041, 2041)[2041]
+
+    it('should reduce the withdrawal by the configured percentage', () => {
+      expect(calculateWorkIncomeWithdrawalReduction(30000, workIncome)).toBe(15000)
+    })
+
+    it('should never reduce the withdrawal by more than the net work income', () => {
+      expect(calculateWorkIncomeWithdrawalReduction(80000, workIncome)).toBe(24000)
+    })
+
+    it('should not reduce the withdrawal without work income', () => {
+      expect(calculateWorkIncomeWithdrawalReduction(30000, undefined)).toBe(0)
+    })
+  })
+})
@@ -0,0 +1,176 @@
+/**
+ * Income from work during the withdrawal phase (part-time work in retirement) and the
+ * disability pension (EM-Rente) reduced by that work income according to the Hinzuverdienst rules.
+ * Income tax is calculated centrally in the withdrawal calculation together with pensions and withdrawals.
+ */
+
+import {
+  calculatePartTimeSocialSecurity,
+  DEFAULT_SOCIAL_SECURITY_RATES,
+  getPartTimeWorkInfo,
+  type PartTimeRetirementWorkConfig,
+} from './part-time-retirement-work'
+import { calculateEMRenteForYear, type EMRenteConfig } from './em-rente'
+
+/**
+ * Work income and EM-Rente of a single withdrawal year
+ */
+export interface WorkIncomeYearResult {
+  /** Annual gross income from part-time work */
+  partTimeGrossAmount: number
+  /** Health and care insurance contributions on the part-time income */
+  socialSecurityContributions: number
+  /** Annual gross EM-Rente after the Hinzuverdienst reduction */
+  emRenteGrossAmount: number
+  /** Annual reduction of the EM-Rente because the work income exceeds the Hinzuverdienstgrenze */
+  hinzuverdienstReduction: number
+  /** Amount subject to income tax (work income after contributions plus taxable part of the EM-Rente) */
+  taxableAmount: number
+  /** Income after social security contributions, before income tax */
+  netAnnualAmount: number
+  /** Percentage by which the portfolio withdrawal is reduced in working years (0 when not reducing) */
+  withdrawalReductionPercent: number
+  /** Description of the work phase */
+  description: string
+}
+
+/**
+ * Work income and EM-Rente per year
+ */
+export type WorkIncomeResult = {
+  [year: number]: WorkIncomeYearResult
+}
+
+/**
+ * Monthly Hinzuverdienst of the year: the part-time income when work phases are configured,
+ * otherwise the additional income entered in the EM-Rente configuration
+ */
+function getMonthlyHinzuverdienst(
+  emRenteConfig: EMRenteConfig,
+  partTimeRetirementWorkConfig: PartTimeRetirementWorkConfig | undefined,
+  monthlyGrossIncome: number,
+): number {
+  return partTimeRetirementWorkConfig?.workPhases.length
+    ? monthlyGrossIncome
+    : (emRenteConfig.monthlyAdditionalIncome ?? 0)
+}
+
+/**
+ * Health and care insurance contributions on the part-time income, when they are to be calculated
+ */
+function getSocialSecurityContributions(
+  partTimeRetirementWorkConfig: PartTimeRetirementWorkConfig | undefined,
+  annualGrossIncome: number,
+): number {
+  if (!partTimeRetirementWorkConfig?.calculateSocialSecurity) {
+    return 0
+  }
+  return calculatePartTimeSocialSecurity(annualGrossIncome, DEFAULT_SOCIAL_SECURITY_RATES, false).socialSecurityTotal
+}
+
+/**
+ * Annual EM-Rente of the year with the Hinzuverdienst of the year; all zero when the EM-Rente is disabled
+ */
+function getEMRente(
+  emRenteConfig: EMRenteConfig | undefined,
+  partTimeRetirementWorkConfig: PartTimeRetirementWorkConfig | undefined,
+  year: number,
+  monthlyGrossIncome: number,
+): { grossAmount: number; taxableAmount: number; hinzuverdienstReduction: number } {
+  if (!emRenteConfig?.enabled) {
+    return { grossAmount: 0, taxableAmount: 0, hinzuverdienstReduction: 0 }
+  }
+  const monthlyAdditionalIncome = getMonthlyHinzuverdienst(
+    emRenteConfig,
+    partTimeRetirementWorkConfig,
+    monthlyGrossIncome,
+  )
+  const emRente = calculateEMRenteForYear({ ...emRenteConfig, monthlyAdditionalIncome }, year)
+  return {
+    grossAmount: emRente.grossAnnualPension,
+    taxableAmount: emRente.taxableAmount,
+    hinzuverdienstReduction: emRente.hinzuverdienstReduction * 12,
+  }
+}
+
+/**
+ * Percentage by which the withdrawal is reduced in the year (0 when not working or not reducing)
+ */
+function getWithdrawalReductionPercent(
+  partTimeRetirementWorkConfig: PartTimeRetirementWorkConfig | undefined,
+  isWorking: boolean,
+): number {
+  if (!isWorking || !partTimeRetirementWorkConfig?.reduceWithdrawals) {
+    return 0
+  }
+  return partTimeRetirementWorkConfig.withdrawalReductionPercent
+}
+
+/**
+ * Calculate work income and EM-Rente for a single year; undefined when there is neither
+ */
+function calculateWorkIncomeForYear(
+  year: number,
+  partTimeRetirementWorkConfig: PartTimeRetirementWorkConfig | undefined,
+  emRenteConfig: EMRenteConfig | undefined,
+): WorkIncomeYearResult | undefined {
+  const workInfo = getPartTimeWorkInfo(year, partTimeRetirementWorkConfig?.workPhases ?? [])
+  const emRente = getEMRente(emRenteConfig, partTimeRetirementWorkConfig, year, workInfo.monthlyGrossIncome)
+  if (!workInfo.isWorking && emRente.grossAmount <= 0) {
+    return undefined
+  }
+
+  const socialSecurityContributions = getSocialSecurityContributions(
+    partTimeRetirementWorkConfig,
+    workInfo.annualGrossIncome,
+  )
+  const workIncomeAfterContributions = workInfo.annualGrossIncome - socialSecurityContributions
+
+  return {
+    partTimeGrossAmount: workInfo.annualGrossIncome,
+    socialSecurityContributions,
+    emRenteGrossAmount: emRente.grossAmount,
+    hinzuverdienstReduction: emRente.hinzuverdienstReduction,
+    taxableAmount: workIncomeAfterContributions + emRente.taxableAmount,
+    netAnnualAmount: workIncomeAfterContributions + emRente.grossAmount,
+    withdrawalReductionPercent: getWithdrawalReductionPercent(partTimeRetirementWorkConfig, workInfo.isWorking),
+    description: workInfo.workDescription,
+  }
+}
+
+/**
+ * Calculate work income and EM-Rente for all withdrawal years
+ */
+export function calculateWorkIncome(
+  partTimeRetirementWorkConfig: PartTimeRetirementWorkConfig | undefined,
+  emRenteConfig: EMRenteConfig | undefined,
+  startYear: number,
+  endYear: number,
+): WorkIncomeResult {
+  const result: WorkIncomeResult = {}
+
+  for (let year = startYear; year <= endYear; year++) {
+    const yearResult = calculateWorkIncomeForYear(year, partTimeRetirementWorkConfig, emRenteConfig)
+    if (yearResult) {
+      result[year] = yearResult
+    }
+  }
+
+  return result
+}
+
+/**
+ * Reduction of the portfolio withdrawal in a working year: the configured percentage of the
+ * withdrawal, but never more than the part-time income after social security contributions
+ */
+export function calculateWorkIncomeWithdrawalReduction(
+  annualWithdrawal: number,
+  workIncome: WorkIncomeYearResult | undefined,
+): number {
+  if (!workIncome || workIncome.withdrawalReductionPercent <= 0) {
+    return 0
+  }
+
+  const partTimeNetAmount = workIncome.partTimeGrossAmount - workIncome.socialSecurityContributions
+  return Math.max(0, Math.min(annualWithdrawal * (workIncome.withdrawalReductionPercent / 100), partTimeNetAmount))
+}
@@ -124,9 +124,9 @@ describe('Rürup-Rente Helper Functions', () => {
       expect(getRuerupPensionTaxablePercentage(2005)).toBe(0.50)
     })
 
-    it('should return 100% for retirement in 2040 or later', () => {
-      expect(getRuerupPensionTaxablePercentage(2040)).toBe(1.0)
-      expect(getRuerupPensionTaxablePercentage(2050)).toBe(1.0)
+    it('should return 100% for retirement in 2058 or later', () => {
+      expect(getRuerupPensionTaxablePercentage(2058)).toBe(1.0)
+      expect(getRuerupPensionTaxablePercentage(2070)).toBe(1.0)
     })
 
     it('should increase by 2% per year from 2006 to 2020', () => {
@@ -135,11 +135,14 @@ describe('Rürup-Rente Helper Functions', () => {
       expect(getRuerupPensionTaxablePercentage(2020)).toBe(0.80) // 50% + 30%
     })
 
-    it('should increase by 1% per year from 2021 to 2039', () => {
+    it('should increase by 1% per year until 2022 and by 0.5% per year from 2023', () => {
       expect(getRuerupPensionTaxablePercentage(2021)).toBe(0.81) // Base 81%
-      expect(getRuerupPensionTaxablePercentage(2025)).toBeCloseTo(0.85, 10) // 81% + 4%
-      expect(getRuerupPensionTaxablePercentage(2030)).toBeCloseTo(0.90, 10) // 81% + 9%
-      expect(getRuerupPensionTaxablePercentage(2039)).toBeCloseTo(0.99, 10) // 81% + 18%
+      expect(getRuerupPensionTaxablePercentage(2022)).toBe(0.82)
+      expect(getRuerupPensionTaxablePercentage(2023)).toBe(0.825) // Wachstumschancengesetz
+      expect(getRuerupPensionTaxablePercentage(2025)).toBeCloseTo(0.835, 10) // 82.5% + 1%
+      expect(getRuerupPensionTaxablePercentage(2030)).toBeCloseTo(0.86, 10) // 82.5% + 3.5%
+      expect(getRuerupPensionTaxablePercentage(2040)).toBeCloseTo(0.91, 10) // 82.5% + 8.5%
+      expect(getRuerupPensionTaxablePercentage(2057)).toBeCloseTo(0.995, 10) // 82.5% + 17%
     })
 
     it('should handle transition year 2020 correctly', () => {
@@ -157,10 +160,19 @@ describe('Rürup-Rente Helper Functions', () => {
 
       expect(result.grossMonthlyPension).toBe(2000)
       expect(result.grossAnnualPension).toBe(24000)
-      expect(result.taxablePercentage).toBe(0.90) // 2030 retirement
-      expect(result.taxableAmount).toBe(21600) // 24000 * 0.90
-      expect(result.incomeTax).toBe(5400) // 21600 * 0.25
-      expect(result.netAnnualPension).toBe(18600) // 24000 - 5400
+      expect(result.taxablePercentage).toBe(0.86) // 2030 retirement
+      expect(result.taxableAmount).toBeCloseTo(20640, 6) // 24000 * 0.86
+      expect(result.incomeTax).toBeCloseTo(5160, 6) // 20640 * 0.25
+      expect(result.netAnnualPension).toBeCloseTo(18840, 6) // 24000 - 5160
+    })
+
+    it('should freeze the Rentenfreibetrag with the pension of the year after retirement', () => {
+      const result = calculateRuerupPensionTaxation(2000, 2030, 2035, 0.02, 0.25)
+
+      // Rentenfreibetrag: 24000 * 1.02 * 0.14 = 3427.20, later increases are fully taxable
+      expect(result.rentenfreibetrag).toBeCloseTo(3427.2, 6)
+      expect(result.taxableAmount).toBeCloseTo(result.grossAnnualPension - 3427.2, 6)
+      expect(result.taxablePercentage).toBe(0.86)
     })
 
     it('should apply pension increase for years after retirement', () => {
@@ -189,18 +201,18 @@ describe('Rürup-Rente Helper Functions', () => {
       expect(result2020.taxablePercentage).toBe(0.80)
       expect(result2020.taxableAmount).toBe(19200) // 24000 * 0.80
 
-      // Late retirement (2040): 100% taxable
-      const result2040 = calculateRuerupPensionTaxation(2000, 2040, 2040, 0.01, 0.30)
-      expect(result2040.taxablePercentage).toBe(1.0)
-      expect(result2040.taxableAmount).toBe(24000) // 24000 * 1.0
+      // Late retirement (2058): 100% taxable
+      const result2058 = calculateRuerupPensionTaxation(2000, 2058, 2058, 0.01, 0.30)
+      expect(result2058.taxablePercentage).toBe(1.0)
+      expect(result2058.taxableAmount).toBe(24000) // 24000 * 1.0
     })
 
     it('should handle different tax rates correctly', () => {
       const lowTaxResult = calculateRuerupPensionTaxation(2000, 2030, 2030, 0.01, 0.15)
       const highTaxResult = calculateRuerupPensionTaxation(2000, 2030, 2030, 0.01, 0.42)
 
-      expect(lowTaxResult.incomeTax).toBe(3240) // 21600 * 0.15
-      expect(highTaxResult.incomeTax).toBe(9072) // 21600 * 0.42
+      expect(lowTaxResult.incomeTax).toBeCloseTo(3096, 6) // 20640 * 0.15
+      expect(highTaxResult.incomeTax).toBeCloseTo(8668.8, 6) // 20640 * 0.42
     })
 
     it('should compound pension increases correctly over multiple years', () => {
@@ -267,8 +279,8 @@ describe('Rürup-Rente Helper Functions', () => {
       const payoutResult = calculateRuerupPensionTaxation(1200, 2045, 2045, 0.015, 0.20)
       
       expect(payoutResult.grossAnnualPension).toBe(14400)
-      expect(payoutResult.taxablePercentage).toBe(1.0) // 100% taxable in 2045
-      expect(payoutResult.netAnnualPension).toBe(11520) // After 20% tax
+      expect(payoutResult.taxablePercentage).toBeCloseTo(0.935, 10) // 93.5% taxable in 2045
+      expect(payoutResult.netAnnualPension).toBeCloseTo(11707.2, 6) // After 20% tax on 13464
     })
 
     it('should demonstrate tax advantage for high earners', () => {
@@ -315,8 +327,8 @@ describe('Rürup-Rente Helper Functions', () => {
 
       // Later retirement = higher taxable percentage = more tax
       expect(early2020.taxablePercentage).toBe(0.80)
-      expect(mid2030.taxablePercentage).toBe(0.90)
-      expect(late2040.taxablePercentage).toBe(1.0)
+      expect(mid2030.taxablePercentage).toBe(0.86)
+      expect(late2040.taxablePercentage).toBe(0.91)
 
       expect(early2020.incomeTax).toBeLessThan(mid2030.incomeTax)
       expect(mid2030.incomeTax).toBeLessThan(late2040.incomeTax)
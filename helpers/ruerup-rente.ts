@@ -6,6 +6,8 @@
  * deferred taxation on benefits.
  */
 
+import { calculateTaxablePensionAmount, getBesteuerungsanteil } from './rentenbesteuerung'
+
 /**
  * Configuration for Rürup-Rente (Basis-Rente)
  */
@@ -80,6 +82,9 @@ export interface RuerupPensionTaxationResult {
   /** Taxable amount of pension */
   taxableAmount: number
 
+  /** Tax-free amount of pension (Rentenfreibetrag, fixed in EUR from the year after the pension start) */
+  rentenfreibetrag: number
+
   /** Income tax on pension (calculated with other income) */
   incomeTax: number
 
@@ -186,29 +191,19 @@ export function calculateRuerupTaxDeduction(
  * @remarks
  * - Taxable percentage depends on the year pension payments begin
  * - 2005 and earlier: 50% taxable
- * - Increases by 2% per year from 2006 to 2020
- * - Increases by 1% per year from 2021 to 2040
- * - 2040 and later: 100% taxable
+ * - Increases by 2% per year from 2006 to 2020 and by 1% per year until 2022
+ * - Increases by 0.5% per year from 2023 (82.5%) since the Wachstumschancengesetz
+ * - 2058 and later: 100% taxable
  * - Based on § 22 Nr. 1 Satz 3 Buchst. a Doppelbuchst. aa EStG
  */
 export function getRuerupPensionTaxablePercentage(retirementYear: number): number {
-  if (retirementYear <= 2005) {
-    return 0.50
-  } else if (retirementYear >= 2040) {
-    return 1.0
-  } else if (retirementYear <= 2020) {
-    // 2006: 52%, increases by 2% per year
-    return 0.50 + 0.02 * (retirementYear - 2005)
-  } else {
-    // 2021: 81%, increases by 1% per year
-    return 0.81 + 0.01 * (retirementYear - 2021)
-  }
+  return getBesteuerungsanteil(retirementYear) / 100
 }
 
 /**
  * Calculate taxation of Rürup-Rente pension payout
  * 
- * @param grossMonthlyPension - Gross monthly pension amount
+ * @param grossMonthlyPension - Gross monthly pension amount in the year the pension started
  * @param retirementYear - Year when pension started
  * @param currentYear - Current year for calculation
  * @param pensionIncreaseRate - Annual increase rate for pension adjustments
@@ -237,9 +232,15 @@ export function calculateRuerupPensionTaxation(
   const adjustedMonthlyPension = grossMonthlyPension * adjustmentFactor
   const grossAnnualPension = adjustedMonthlyPension * 12
 
-  // Get taxable percentage based on retirement year
+  // Get taxable percentage based on retirement year, the Rentenfreibetrag is frozen from the following year
   const taxablePercentage = getRuerupPensionTaxablePercentage(retirementYear)
-  const taxableAmount = grossAnnualPension * taxablePercentage
+  const taxableAmount = calculateTaxablePensionAmount({
+    year: currentYear,
+    rentenbeginn: retirementYear,
+    besteuerungsanteil: taxablePercentage * 100,
+    grossAnnualAmount: grossAnnualPension,
+    grossAnnualAmountFolgejahr: grossMonthlyPension * 12 * (1 + pensionIncreaseRate),
+  })
 
   // Calculate income tax (simplified - in reality depends on total income)
   const incomeTax = taxableAmount * personalTaxRate
@@ -251,6 +252,7 @@ export function calculateRuerupPensionTaxation(
     grossMonthlyPension: adjustedMonthlyPension,
     taxablePercentage,
     taxableAmount,
+    rentenfreibetrag: grossAnnualPension - taxableAmount,
     incomeTax,
     netAnnualPension,
   }
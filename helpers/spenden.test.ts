@@ -0,0 +1,190 @@
+import { describe, it, expect } from 'vitest'
+import { createSplittingTaxBrackets } from './ehegattensplitting'
+import { getTaxBracketsForYear } from './income-tax-tariff'
+import {
+  bundleSpenden,
+  calculateSpendenAbzug,
+  calculateSpendenYearResult,
+  compareSpendenBuendelung,
+  getSpendenForYear,
+  type SpendenConfig,
+} from './spenden'
+import { calculateProgressiveTax } from './steuer'
+
+describe('spenden', () => {
+  const config: SpendenConfig = {
+    enabled: true,
+    spenden: [
+      { id: '1', beschreibung: 'Hilfswerk', empfaenger: 'gemeinnuetzig', betrag: 1000, startYear: 2030, endYear: 2035 },
+      { id: '2', beschreibung: 'Stiftung', empfaenger: 'gemeinnuetzig', betrag: 5000, startYear: 2032, endYear: 2032 },
+      { id: '3', beschreibung: 'Partei', empfaenger: 'partei', betrag: 500, startYear: 2030, endYear: 2040 },
+    ],
+  }
+
+  describe('getSpendenForYear', () => {
+    it('should sum yearly and one-off donations by recipient', () => {
+      expect(getSpendenForYear(config, 2031)).toEqual({ gemeinnuetzig: 1000, partei: 500 })
+      expect(getSpendenForYear(config, 2032)).toEqual({ gemeinnuetzig: 6000, partei: 500 })
+      expect(getSpendenForYear(config, 2036)).toEqual({ gemeinnuetzig: 0, partei: 500 })
+    })
+
+    it('should ignore a disabled configuration', () => {
+      expect(getSpendenForYear({ ...config, enabled: false }, 2031)).toEqual({ gemeinnuetzig: 0, partei: 0 })
+      expect(getSpendenForYear(undefined, 2031)).toEqual({ gemeinnuetzig: 0, partei: 0 })
+    })
+  })
+
+  describe('calculateSpendenAbzug', () => {
+    it('should limit gemeinnützige donations to 20% of the Gesamtbetrag der Einkünfte', () => {
+      const result = calculateSpendenAbzug({ gemeinnuetzig: 10000, partei: 0 }, 30000)
+
+      expect(result.hoechstbetrag).toBe(6000)
+      expect(result.abziehbareGemeinnuetzigeSpenden).toBe(6000)
+      expect(result.sonderausgabenabzug).toBe(6000 - 36)
+      expect(result.steuerermaessigungParteispenden).toBe(0)
+    })
+
+    it('should credit half of the party donations up to 1,650 € and deduct the rest up to another 1,650 €', () => {
+      const result = calculateSpendenAbzug({ gemeinnuetzig: 0, partei: 5000 }, 50000)
+
+      expect(result.steuerermaessigungParteispenden).toBe(825)
+      expect(result.abziehbareParteispenden).toBe(1650)
+      expect(result.sonderausgabenabzug).toBe(1650 - 36)
+    })
+
+    it('should double the party donation limits and the Pauschbetrag for couples', () => {
+      const result = calculateSpendenAbzug({ gemeinnuetzig: 0, partei: 5000 }, 50000, 'couple')
+
+      expect(result.steuerermaessigungParteispenden).toBe(1650)
+      expect(result.abziehbareParteispenden).toBe(1700)
+      expect(result.sonderausgabenabzug).toBe(1700 - 72)
+    })
+
+    it('should not reduce the taxable income for donations below the Pauschbetrag', () => {
+      expect(calculateSpendenAbzug({ gemeinnuetzig: 30, partei: 0 }, 30000).sonderausgabenabzug).toBe(0)
+    })
+  })
+
+  describe('calculateSpendenYearResult', () => {
+    const flatTax = (taxableIncome: number) => Math.max(0, taxableIncome) * 0.3
+
+    it('should return undefined without donations', () => {
+      expect(calculateSpendenYearResult({ gemeinnuetzig: 0, partei: 0 }, 40000, 'individual', flatTax)).toBeUndefined()
+    })
+
+    it('should reduce the income tax by the deduction and the party donation credit', () => {
+      const result = calculateSpendenYearResult({ gemeinnuetzig: 2036, partei: 1000 }, 40000, 'individual', flatTax)
+
+      // The Pauschbetrag of 36 € is deducted with and without donations
+      expect(result?.einkommensteuerOhneSpenden).toBeCloseTo((40000 - 36) * 0.3, 6)
+      expect(result?.einkommensteuer).toBeCloseTo((40000 - 36) * 0.3 - 2000 * 0.3 - 500, 6)
+      expect(result?.steuerersparnis).toBeCloseTo(1100, 6)
+    })
+
+    it('should limit the party donation credit to the income tax', () => {
+      const result = calculateSpendenYearResult({ gemeinnuetzig: 0, partei: 1650 }, 2000, 'individual', flatTax)
+
+      expect(result?.steuerermaessigungParteispenden).toBeCloseTo((2000 - 36) * 0.3, 6)
+      expect(result?.einkommensteuer).toBe(0)
+    })
+  })
+
+  describe('bundleSpenden', () => {
+    it('should move the donations of each block into its first year', () => {
+      const spendenByYear = {
+        2030: { gemeinnuetzig: 100, partei: 10 },
+        2031: { gemeinnuetzig: 200, partei: 20 },
+        2032: { gemeinnuetzig: 300, partei: 30 },
+      }
+
+      expect(bundleSpenden(spendenByYear, [2030, 2031, 2032], 2)).toEqual({
+        2030: { gemeinnuetzig: 300, partei: 30 },
+        2031: { gemeinnuetzig: 0, partei: 0 },
+        2032: { gemeinnuetzig: 300, partei: 30 },
+      })
+    })
+  })
+
+  describe('compareSpendenBuendelung', () => {
+    const params = { startYear: 2030, endYear: 2033, gesamtbetragDerEinkuenfte: 40000, interval: 2 }
+
+    it('should favour bundling small donations that stay below the Pauschbetrag each year', () => {
+      const small: SpendenConfig = {
+        enabled: true,
+        spenden: [
+          { id: '1', beschreibung: 'Verein', empfaenger: 'gemeinnuetzig', betrag: 30, startYear: 2030, endYear: 2033 },
+        ],
+      }
+
+      const result = compareSpendenBuendelung(small, params)
+
+      expect(result.gesamtSpenden).toBe(120)
+      expect(result.steuerersparnisVerteilt).toBe(0)
+      expect(result.steuerersparnisGebuendelt).toBeGreaterThan(0)
+      expect(result.vorteilBuendelung).toBe(result.steuerersparnisGebuendelt)
+    })
+
+    it('should favour spreading party donations that exceed the yearly limits when bundled', () => {
+      const party: SpendenConfig = {
+        enabled: true,
+        spenden: [
+          { id: '1', beschreibung: 'Partei', empfaenger: 'partei', betrag: 1650, startYear: 2030, endYear: 2033 },
+        ],
+      }
+
+      const result = compareSpendenBuendelung(party, params)
+
+      expect(result.steuerersparnisVerteilt).toBeCloseTo(4 * 825, 6)
+      expect(result.vorteilBuendelung).toBeLessThan(0)
+    })
+
+    it('should use the income tax tariff of every compared year', () => {
+      const single: SpendenConfig = {
+        enabled: true,
+        spenden: [
+          {
+            id: '1',
+            beschreibung: 'Verein',
+            empfaenger: 'gemeinnuetzig',
+            betrag: 2000,
+            startYear: 2040,
+            endYear: 2040,
+          },
+        ],
+      }
+      const indexation = { enabled: true, annualRate: 0.02 }
+      const yearParams = { ...params, startYear: 2040, endYear: 2040, gesamtbetragDerEinkuenfte: 20000 }
+      const taxSaved = (
+        brackets: ReturnType<typeof getTaxBracketsForYear>,
+        einkommen: number,
+        planningMode?: 'couple',
+      ) =>
+        calculateSpendenYearResult(
+          { gemeinnuetzig: 2000, partei: 0 },
+          einkommen,
+          planningMode,
+          taxableIncome => calculateProgressiveTax(taxableIncome, 0, 0, brackets).totalTax,
+        )!.steuerersparnis
+
+      const indexed = compareSpendenBuendelung(single, { ...yearParams, incomeTaxTariffIndexation: indexation })
+      const notIndexed = compareSpendenBuendelung(single, {
+        ...yearParams,
+        incomeTaxTariffIndexation: { ...indexation, enabled: false },
+      })
+      const couple = compareSpendenBuendelung(single, {
+        ...yearParams,
+        gesamtbetragDerEinkuenfte: 40000,
+        planningMode: 'couple',
+        incomeTaxTariffIndexation: indexation,
+      })
+
+      expect(indexed.steuerersparnisVerteilt).toBeCloseTo(taxSaved(getTaxBracketsForYear(2040, indexation), 20000), 6)
+      expect(indexed.steuerersparnisVerteilt).toBeLessThan(notIndexed.steuerersparnisVerteilt)
+      expect(couple.steuerersparnisVerteilt).toBeGreaterThan(0)
+      expect(couple.steuerersparnisVerteilt).toBeCloseTo(
+        taxSaved(createSplittingTaxBrackets(getTaxBracketsForYear(2040, indexation)), 40000, 'couple'),
+        6,
+      )
+    })
+  })
+})
@@ -0,0 +1,307 @@
+/**
+ * Spenden (donations) in the income tax
+ *
+ * - Gemeinnützige Spenden (§ 10b Abs. 1 EStG): Sonderausgaben, deductible up to 20% of the
+ *   Gesamtbetrag der Einkünfte
+ * - Parteispenden (§ 34g EStG): 50% of the donations up to 1,650 € (3,300 € for couples) reduce the income tax
+ *   directly. Party donations above that are deductible as Sonderausgaben up to another 1,650 € / 3,300 €
+ *   (§ 10b Abs. 2 EStG)
+ * - Sonderausgaben-Pauschbetrag (§ 10c EStG): 36 € (72 € for couples) are deducted from every taxable income
+ *   without proof, donations only reduce the taxable income as far as they exceed the Pauschbetrag
+ * - The carry-forward of gemeinnützige donations above the 20% limit (Spendenvortrag) is not modeled
+ */
+
+import { createSplittingTaxBrackets } from './ehegattensplitting'
+import { getTaxBracketsForYear, type IncomeTaxTariffIndexation } from './income-tax-tariff'
+import { calculateProgressiveTax } from './steuer'
+
+/** Share of the Gesamtbetrag der Einkünfte up to which gemeinnützige donations are deductible */
+export const SPENDEN_HOECHSTBETRAG_QUOTE = 0.2
+
+/** Party donations per person eligible for the tax credit, and again for the Sonderausgabenabzug */
+export const PARTEISPENDEN_HOECHSTBETRAG = 1650
+
+/** Share of the party donations credited against the income tax (§ 34g EStG) */
+export const PARTEISPENDEN_ERMAESSIGUNG_QUOTE = 0.5
+
+/** Sonderausgaben-Pauschbetrag per person (§ 10c EStG) */
+export const SONDERAUSGABEN_PAUSCHBETRAG = 36
+
+/**
+ * Sonderausgaben-Pauschbetrag of the year, doubled for couples
+ */
+export function getSonderausgabenPauschbetrag(planningMode: 'individual' | 'couple' = 'individual'): number {
+  return planningMode === 'couple' ? SONDERAUSGABEN_PAUSCHBETRAG * 2 : SONDERAUSGABEN_PAUSCHBETRAG
+}
+
+/**
+ * Recipient of a donation
+ */
+export type SpendenEmpfaenger = 'gemeinnuetzig' | 'partei'
+
+/**
+ * A donation paid every year from startYear to endYear (a one-off donation has startYear === endYear)
+ */
+export interface Spende {
+  id: string
+  /** Description of the donation, e.g. the organisation */
+  beschreibung: string
+  empfaenger: SpendenEmpfaenger
+  /** Amount donated per year */
+  betrag: number
+  startYear: number
+  endYear: number
+}
+
+/**
+ * Donations configuration
+ */
+export interface SpendenConfig {
+  enabled: boolean
+  spenden: Spende[]
+}
+
+/**
+ * Default donations configuration: disabled without donations
+ */
+export function createDefaultSpendenConfig(): SpendenConfig {
+  return { enabled: false, spenden: [] }
+}
+
+/**
+ * Donations of a year by recipient
+ */
+export interface JahresSpenden {
+  gemeinnuetzig: number
+  partei: number
+}
+
+/**
+ * Sum the donations of a year by recipient
+ *
+ * @param config - Donations configuration
+ * @param year - Year of the donations
+ * @returns The donations of the year, zero when the configuration is disabled
+ */
+export function getSpendenForYear(config: SpendenConfig | undefined, year: number): JahresSpenden {
+  const spenden: JahresSpenden = { gemeinnuetzig: 0, partei: 0 }
+  if (!config?.enabled) {
+    return spenden
+  }
+
+  for (const spende of config.spenden) {
+    if (year >= spende.startYear && year <= spende.endYear) {
+      spenden[spende.empfaenger] += spende.betrag
+    }
+  }
+  return spenden
+}
+
+/**
+ * Deduction and tax credit of the donations of a year
+ */
+export interface SpendenAbzugResult {
+  gemeinnuetzigeSpenden: number
+  parteiSpenden: number
+  /** 20% of the Gesamtbetrag der Einkünfte */
+  hoechstbetrag: number
+  /** Gemeinnützige donations within the Höchstbetrag */
+  abziehbareGemeinnuetzigeSpenden: number
+  /** Party donations above the § 34g limit that are deductible as Sonderausgaben */
+  abziehbareParteispenden: number
+  /** Reduction of the taxable income (Sonderausgaben above the Pauschbetrag) */
+  sonderausgabenabzug: number
+  /** Tax credit for party donations (§ 34g EStG), limited to the income tax in the year result */
+  steuerermaessigungParteispenden: number
+}
+
+/**
+ * Calculate the Sonderausgabenabzug and the § 34g credit of the donations of a year
+ *
+ * @param spenden - Donations of the year
+ * @param gesamtbetragDerEinkuenfte - Gesamtbetrag der Einkünfte of the year
+ * @param planningMode - Couples get the doubled party donation limits and Pauschbetrag
+ * @returns The deductible donations and the tax credit
+ */
+export function calculateSpendenAbzug(
+  spenden: JahresSpenden,
+  gesamtbetragDerEinkuenfte: number,
+  planningMode: 'individual' | 'couple' = 'individual',
+): SpendenAbzugResult {
+  const persons = planningMode === 'couple' ? 2 : 1
+  const parteiHoechstbetrag = PARTEISPENDEN_HOECHSTBETRAG * persons
+  const hoechstbetrag = Math.max(0, gesamtbetragDerEinkuenfte) * SPENDEN_HOECHSTBETRAG_QUOTE
+
+  const beguenstigteParteispenden = Math.min(spenden.partei, parteiHoechstbetrag)
+  const abziehbareGemeinnuetzigeSpenden = Math.min(spenden.gemeinnuetzig, hoechstbetrag)
+  const abziehbareParteispenden = Math.min(spenden.partei - beguenstigteParteispenden, parteiHoechstbetrag)
+  const abziehbareSpenden = abziehbareGemeinnuetzigeSpenden + abziehbareParteispenden
+
+  return {
+    gemeinnuetzigeSpenden: spenden.gemeinnuetzig,
+    parteiSpenden: spenden.partei,
+    hoechstbetrag,
+    abziehbareGemeinnuetzigeSpenden,
+    abziehbareParteispenden,
+    sonderausgabenabzug: Math.max(0, abziehbareSpenden - getSonderausgabenPauschbetrag(planningMode)),
+    steuerermaessigungParteispenden: beguenstigteParteispenden * PARTEISPENDEN_ERMAESSIGUNG_QUOTE,
+  }
+}
+
+/**
+ * Donations of a year with their effect on the income tax
+ */
+export interface SpendenYearResult extends SpendenAbzugResult {
+  /** Income tax without the donations */
+  einkommensteuerOhneSpenden: number
+  /** Income tax after the Sonderausgabenabzug and the § 34g credit */
+  einkommensteuer: number
+  /** Income tax saved by the donations */
+  steuerersparnis: number
+}
+
+/**
+ * Apply the donations of a year to the income tax. The Sonderausgaben-Pauschbetrag is deducted with and without
+ * donations, so the donations only save the tax on the amount above it.
+ *
+ * @param spenden - Donations of the year
+ * @param gesamtbetragDerEinkuenfte - Gesamtbetrag der Einkünfte of the year
+ * @param planningMode - Individual or couple planning
+ * @param calculateTax - Income tax of a taxable income
+ * @returns The income tax with and without the donations, undefined without donations
+ */
+export function calculateSpendenYearResult(
+  spenden: JahresSpenden,
+  gesamtbetragDerEinkuenfte: number,
+  planningMode: 'individual' | 'couple' | undefined,
+  calculateTax: (taxableIncome: number) => number,
+): SpendenYearResult | undefined {
+  if (spenden.gemeinnuetzig <= 0 && spenden.partei <= 0) {
+    return undefined
+  }
+
+  const abzug = calculateSpendenAbzug(spenden, gesamtbetragDerEinkuenfte, planningMode)
+  const einkommenNachPauschbetrag = Math.max(0, gesamtbetragDerEinkuenfte - getSonderausgabenPauschbetrag(planningMode))
+  const einkommensteuerOhneSpenden = calculateTax(einkommenNachPauschbetrag)
+  const steuerNachAbzug = calculateTax(einkommenNachPauschbetrag - abzug.sonderausgabenabzug)
+  const steuerermaessigungParteispenden = Math.min(abzug.steuerermaessigungParteispenden, steuerNachAbzug)
+  const einkommensteuer = steuerNachAbzug - steuerermaessigungParteispenden
+
+  return {
+    ...abzug,
+    steuerermaessigungParteispenden,
+    einkommensteuerOhneSpenden,
+    einkommensteuer,
+    steuerersparnis: einkommensteuerOhneSpenden - einkommensteuer,
+  }
+}
+
+/**
+ * Bundle the donations of every `interval` years into the first year of the block (Spenden-Bündelung)
+ *
+ * @param spendenByYear - Donations per year
+ * @param years - Years of the plan in ascending order
+ * @param interval - Number of years whose donations are paid together
+ * @returns The bundled donations per year
+ */
+export function bundleSpenden(
+  spendenByYear: Record<number, JahresSpenden>,
+  years: number[],
+  interval: number,
+): Record<number, JahresSpenden> {
+  const bundled: Record<number, JahresSpenden> = {}
+  years.forEach((year, index) => {
+    const blockYear = years[index - (index % interval)]
+    const block = bundled[blockYear] ?? { gemeinnuetzig: 0, partei: 0 }
+    block.gemeinnuetzig += spendenByYear[year]?.gemeinnuetzig ?? 0
+    block.partei += spendenByYear[year]?.partei ?? 0
+    bundled[blockYear] = block
+    bundled[year] = bundled[year] ?? { gemeinnuetzig: 0, partei: 0 }
+  })
+  return bundled
+}
+
+/**
+ * Comparison of spreading the donations over the years with bundling them
+ */
+export interface SpendenBuendelungVergleich {
+  /** Total donations of the period (identical for both strategies) */
+  gesamtSpenden: number
+  /** Income tax saved when donating every year */
+  steuerersparnisVerteilt: number
+  /** Income tax saved when bundling the donations */
+  steuerersparnisGebuendelt: number
+  /** Additional tax saved by bundling (negative when spreading is better) */
+  vorteilBuendelung: number
+}
+
+/**
+ * Parameters for comparing spread and bundled donations
+ */
+export interface SpendenBuendelungParams {
+  startYear: number
+  endYear: number
+  /** Gesamtbetrag der Einkünfte per year before the donations */
+  gesamtbetragDerEinkuenfte: number
+  /** Number of years whose donations are paid together */
+  interval: number
+  planningMode?: 'individual' | 'couple'
+  /** Indexation of the income tax tariff, the tariff of every compared year is used */
+  incomeTaxTariffIndexation?: IncomeTaxTariffIndexation
+}
+
+function sumSteuerersparnis(
+  spendenByYear: Record<number, JahresSpenden>,
+  years: number[],
+  params: SpendenBuendelungParams,
+): number {
+  return years.reduce((sum, year) => {
+    const yearBrackets = getTaxBracketsForYear(year, params.incomeTaxTariffIndexation)
+    const taxBrackets = params.planningMode === 'couple' ? createSplittingTaxBrackets(yearBrackets) : yearBrackets
+    const calculateTax = (taxableIncome: number) => calculateProgressiveTax(taxableIncome, 0, 0, taxBrackets).totalTax
+    const result = calculateSpendenYearResult(
+      spendenByYear[year],
+      params.gesamtbetragDerEinkuenfte,
+      params.planningMode,
+      calculateTax,
+    )
+    return sum + (result?.steuerersparnis ?? 0)
+  }, 0)
+}
+
+/**
+ * Compare the income tax saved by the configured donations when they are paid every year and when the
+ * donations of several years are bundled into one year (above the Pauschbetrag, but within the limits)
+ *
+ * @param config - Donations configuration
+ * @param params - Period, income and bundling interval
+ * @returns The tax saved by both strategies
+ */
+export function compareSpendenBuendelung(
+  config: SpendenConfig,
+  params: SpendenBuendelungParams,
+): SpendenBuendelungVergleich {
+  const years: number[] = []
+  for (let year = params.startYear; year <= params.endYear; year++) {
+    years.push(year)
+  }
+
+  const spendenByYear: Record<number, JahresSpenden> = {}
+  years.forEach(year => {
+    spendenByYear[year] = getSpendenForYear(config, year)
+  })
+
+  const steuerersparnisVerteilt = sumSteuerersparnis(spendenByYear, years, params)
+  const steuerersparnisGebuendelt = sumSteuerersparnis(
+    bundleSpenden(spendenByYear, years, Math.max(1, params.interval)),
+    years,
+    params,
+  )
+
+  return {
+    gesamtSpenden: years.reduce((sum, year) => sum + spendenByYear[year].gemeinnuetzig + spendenByYear[year].partei, 0),
+    steuerersparnisVerteilt,
+    steuerersparnisGebuendelt,
+    vorteilBuendelung: steuerersparnisGebuendelt - steuerersparnisVerteilt,
+  }
+}
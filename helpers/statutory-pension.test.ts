@@ -13,7 +13,13 @@ import {
   estimateMonthlyPensionFromTaxReturn,
   estimateTaxablePercentageFromTaxReturn,
   convertLegacyToCoupleConfig,
+  getStatutoryPensionTaxablePercentage,
+  getStatutoryPensionMonthlyAmount,
+  getStatutoryPensionProjection,
+  getProjectedStatutoryPension,
+  addStatutoryPensionSpecialPayment,
 } from './statutory-pension'
+import type { PensionProjectionConfig } from './pension-projection'
 
 describe('statutory-pension', () => {
   describe('createDefaultStatutoryPensionConfig', () => {
@@ -161,7 +167,9 @@ describe('statutory-pension', () => {
 
       expect(result.grossAnnualAmount).toBeCloseTo(expectedAnnual, 2)
       expect(result.grossMonthlyAmount).toBeCloseTo(expectedMonthly, 2)
-      expect(result.taxableAmount).toBeCloseTo(expectedAnnual * 0.8, 2)
+      // Rentenfreibetrag frozen with the pension of 2042: 18180 * 0.2 = 3636
+      expect(result.taxableAmount).toBeCloseTo(expectedAnnual - 3636, 2)
+      expect(result.rentenfreibetrag).toBeCloseTo(3636, 2)
       expect(result.adjustmentFactor).toBeCloseTo(expectedAdjustment, 4)
     })
 
@@ -188,6 +196,32 @@ describe('statutory-pension', () => {
       expect(result.incomeTax).toBe(0)
       expect(result.netAnnualAmount).toBe(18000)
     })
+
+    it('should derive the Besteuerungsanteil from the start year in automatic mode', () => {
+      const config: StatutoryPensionConfig = { ...baseConfig, taxablePercentageMode: 'automatic' }
+
+      // Pension start 2041: 82.5% + 18 * 0.5% = 91.5%
+      expect(getStatutoryPensionTaxablePercentage(config)).toBe(91.5)
+      expect(getStatutoryPensionTaxablePercentage(baseConfig)).toBe(80)
+
+      const result = calculateStatutoryPensionForYear(config, 2041)
+      expect(result.besteuerungsanteil).toBe(91.5)
+      expect(result.taxableAmount).toBeCloseTo(16470, 6) // 18000 * 0.915
+      expect(result.rentenfreibetrag).toBeCloseTo(1530, 6)
+    })
+
+    it('should tax later pension increases in full', () => {
+      const config: StatutoryPensionConfig = { ...baseConfig, annualIncreaseRate: 3, taxablePercentageMode: 'automatic' }
+
+      // Rentenfreibetrag fixed with the pension of 2042: 18540 * 8.5% = 1575.90
+      const result2042 = calculateStatutoryPensionForYear(config, 2042)
+      const result2050 = calculateStatutoryPensionForYear(config, 2050)
+
+      expect(result2042.rentenfreibetrag).toBeCloseTo(1575.9, 6)
+      expect(result2050.rentenfreibetrag).toBeCloseTo(1575.9, 6)
+      expect(result2050.taxableAmount).toBeCloseTo(result2050.grossAnnualAmount - 1575.9, 6)
+      expect(result2050.taxableAmount / result2050.grossAnnualAmount).toBeGreaterThan(0.915)
+    })
   })
 
   describe('calculateStatutoryPension', () => {
@@ -225,8 +259,8 @@ describe('statutory-pension', () => {
       // 2042: taxable ~14544, above allowance ~4044, tax ~1011
       expect(result[2042].incomeTax).toBeCloseTo(1011, 0)
 
-      // 2043: taxable ~14690, above allowance ~3690, tax ~922.5
-      expect(result[2043].incomeTax).toBeCloseTo(922.5, 0)
+      // 2043: taxable ~14726 (Rentenfreibetrag frozen at 3636), above allowance ~3726, tax ~931.5
+      expect(result[2043].incomeTax).toBeCloseTo(931.45, 1)
     })
 
     it('should handle disabled pension correctly', () => {
@@ -430,3 +464,64 @@ describe('Couple Statutory Pension Calculations', () => {
     expect(coupleConfig.couple).toBeDefined()
   })
 })
+
+describe('statutory pension projection from pension points', () => {
+  // 1 point per year from 2025 to 2029 on top of 30 points, Rentenwert 37.60
+  const pensionProjection: PensionProjectionConfig = {
+    enabled: true,
+    currentPensionPoints: 30,
+    pointsYear: 2024,
+    annualGrossSalary: 45358,
+    salaryGrowthRate: 0,
+    averageSalaryGrowthRate: 0,
+    pensionValueGrowthRate: 0,
+    specialPayments: [],
+  }
+  const config: StatutoryPensionConfig = {
+    enabled: true,
+    startYear: 2030,
+    monthlyAmount: 1000,
+    annualIncreaseRate: 0,
+    taxablePercentage: 80,
+    retirementAge: 66,
+    birthYear: 1964,
+    pensionProjection,
+  }
+
+  it('should use the projected pension with Abschlag instead of the monthly amount', () => {
+    expect(getStatutoryPensionProjection(config)?.monthsDifference).toBe(-12)
+    expect(getStatutoryPensionMonthlyAmount(config)).toBeCloseTo(35 * 37.6 * 0.964, 6)
+    expect(calculateStatutoryPensionForYear(config, 2030).grossMonthlyAmount).toBeCloseTo(35 * 37.6 * 0.964, 6)
+  })
+
+  it('should use the monthly amount without an enabled projection', () => {
+    const manual = { ...config, pensionProjection: { ...pensionProjection, enabled: false } }
+
+    expect(getStatutoryPensionProjection(manual)).toBeNull()
+    expect(getStatutoryPensionMonthlyAmount(manual)).toBe(1000)
+  })
+
+  it('should derive the birth year from start year and retirement age', () => {
+    const withoutBirthYear = { ...config, birthYear: undefined }
+
+    expect(getStatutoryPensionMonthlyAmount(withoutBirthYear)).toBeCloseTo(getStatutoryPensionMonthlyAmount(config), 6)
+  })
+
+  it('should add a Sonderzahlung to the projected person of a couple', () => {
+    const coupleConfig = createDefaultCoupleStatutoryPensionConfig()
+    coupleConfig.couple!.person2 = { ...coupleConfig.couple!.person2, pensionProjection }
+
+    expect(getProjectedStatutoryPension(coupleConfig)).toBe(coupleConfig.couple!.person2)
+
+    const updated = addStatutoryPensionSpecialPayment(coupleConfig, { year: 2026, amount: 20000 })
+    expect(updated.couple!.person2.pensionProjection?.specialPayments).toEqual([{ year: 2026, amount: 20000 }])
+    expect(updated.couple!.person1).toBe(coupleConfig.couple!.person1)
+  })
+
+  it('should leave the config unchanged without a projection', () => {
+    const coupleConfig = createDefaultCoupleStatutoryPensionConfig()
+
+    expect(getProjectedStatutoryPension(coupleConfig)).toBeNull()
+    expect(addStatutoryPensionSpecialPayment(coupleConfig, { year: 2026, amount: 20000 })).toBe(coupleConfig)
+  })
+})
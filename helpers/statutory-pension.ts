@@ -2,6 +2,14 @@
  * Types and utilities for German statutory pension (Gesetzliche Rente) integration
  */
 
+import { calculateTaxablePensionAmount, getBesteuerungsanteil } from './rentenbesteuerung'
+import {
+  calculatePensionProjection,
+  type PensionProjectionConfig,
+  type PensionProjectionResult,
+  type PensionSpecialPayment,
+} from './pension-projection'
+
 /**
  * Configuration for German statutory pension
  * Based on typical data available from tax returns (Steuerbescheid)
@@ -22,6 +30,12 @@ export interface StatutoryPensionConfig {
   /** Percentage of pension subject to income tax (Steuerpflichtiger Anteil) */
   taxablePercentage: number
 
+  /**
+   * 'automatic' derives the Besteuerungsanteil from the pension start year (§ 22 EStG),
+   * 'manual' uses taxablePercentage (default for configurations without this field)
+   */
+  taxablePercentageMode?: 'automatic' | 'manual'
+
   /** Tax return specific data */
   taxReturnData?: {
     /** Year of the tax return */
@@ -36,6 +50,9 @@ export interface StatutoryPensionConfig {
   retirementAge?: number
   /** Optional: Birth year for calculating start year from retirement age */
   birthYear?: number
+
+  /** Optional: Projection of monthlyAmount from pension points, including Abschlag or Zuschlag */
+  pensionProjection?: PensionProjectionConfig
 }
 
 /**
@@ -80,6 +97,10 @@ export interface StatutoryPensionYearResult {
   grossMonthlyAmount: number
   /** Taxable portion of annual pension */
   taxableAmount: number
+  /** Besteuerungsanteil of the pension start year in percent */
+  besteuerungsanteil: number
+  /** Tax-free portion of annual pension (Rentenfreibetrag, fixed in EUR from the year after the pension start) */
+  rentenfreibetrag: number
   /** Income tax on pension (if any) */
   incomeTax: number
   /** Net annual pension after taxes */
@@ -136,6 +157,44 @@ export interface CoupleStatutoryPensionResult {
   [year: number]: CoupleStatutoryPensionYearResult
 }
 
+/**
+ * Besteuerungsanteil in percent applied to the pension, derived from the start year in automatic mode
+ */
+export function getStatutoryPensionTaxablePercentage(config: StatutoryPensionConfig): number {
+  return config.taxablePercentageMode === 'automatic'
+    ? getBesteuerungsanteil(config.startYear)
+    : config.taxablePercentage
+}
+
+/**
+ * Birth year of the pensioner, derived from start year and retirement age if not set
+ */
+export function getStatutoryPensionBirthYear(config: StatutoryPensionConfig): number {
+  return config.birthYear ?? config.startYear - (config.retirementAge ?? 67)
+}
+
+/**
+ * Pension projection from pension points, null when the monthly amount is entered by hand
+ */
+export function getStatutoryPensionProjection(config: StatutoryPensionConfig): PensionProjectionResult | null {
+  if (!config.pensionProjection?.enabled) {
+    return null
+  }
+
+  return calculatePensionProjection(config.pensionProjection, {
+    birthYear: getStatutoryPensionBirthYear(config),
+    retirementAge: config.retirementAge ?? 67,
+    pensionStartYear: config.startYear,
+  })
+}
+
+/**
+ * Monthly pension at the pension start, projected from pension points if enabled
+ */
+export function getStatutoryPensionMonthlyAmount(config: StatutoryPensionConfig): number {
+  return getStatutoryPensionProjection(config)?.monthlyPension ?? config.monthlyAmount
+}
+
 /**
  * Calculate statutory pension for a given year
  */
@@ -150,6 +209,8 @@ export function calculateStatutoryPensionForYear(
       grossAnnualAmount: 0,
       grossMonthlyAmount: 0,
       taxableAmount: 0,
+      besteuerungsanteil: 0,
+      rentenfreibetrag: 0,
       incomeTax: 0,
       netAnnualAmount: 0,
       adjustmentFactor: 1,
@@ -161,11 +222,19 @@ export function calculateStatutoryPensionForYear(
   const adjustmentFactor = Math.pow(1 + config.annualIncreaseRate / 100, yearsFromStart)
 
   // Calculate gross amounts
-  const grossMonthlyAmount = config.monthlyAmount * adjustmentFactor
+  const monthlyAmount = getStatutoryPensionMonthlyAmount(config)
+  const grossMonthlyAmount = monthlyAmount * adjustmentFactor
   const grossAnnualAmount = grossMonthlyAmount * 12
 
-  // Calculate taxable amount
-  const taxableAmount = grossAnnualAmount * (config.taxablePercentage / 100)
+  // Calculate taxable amount, the Rentenfreibetrag is frozen with the pension of the year after the start
+  const besteuerungsanteil = getStatutoryPensionTaxablePercentage(config)
+  const taxableAmount = calculateTaxablePensionAmount({
+    year,
+    rentenbeginn: config.startYear,
+    besteuerungsanteil,
+    grossAnnualAmount,
+    grossAnnualAmountFolgejahr: monthlyAmount * 12 * (1 + config.annualIncreaseRate / 100),
+  })
 
   // Calculate income tax (only on amount above Grundfreibetrag)
   const taxableAmountAboveAllowance = Math.max(0, taxableAmount - grundfreibetragAmount)
@@ -178,6 +247,8 @@ export function calculateStatutoryPensionForYear(
     grossAnnualAmount,
     grossMonthlyAmount,
     taxableAmount,
+    besteuerungsanteil,
+    rentenfreibetrag: grossAnnualAmount - taxableAmount,
     incomeTax,
     netAnnualAmount,
     adjustmentFactor,
@@ -213,7 +284,8 @@ export function createDefaultStatutoryPensionConfig(): StatutoryPensionConfig {
     startYear: 2041, // Default retirement year
     monthlyAmount: 1500, // Default monthly pension amount in EUR
     annualIncreaseRate: 1.0, // 1% annual increase
-    taxablePercentage: 80, // 80% taxable (typical for current retirees)
+    taxablePercentage: 80, // 80% taxable in manual mode (typical for current retirees)
+    taxablePercentageMode: 'automatic', // Derive the Besteuerungsanteil from the start year
     retirementAge: 67, // Standard retirement age in Germany
   }
 }
@@ -458,6 +530,57 @@ export function calculateCoupleStatutoryPension(
   return {}
 }
 
+type ProjectedPensionPerson = 'individual' | 'person1' | 'person2'
+
+function hasPensionProjection(config?: StatutoryPensionConfig): boolean {
+  return config?.pensionProjection?.enabled === true
+}
+
+/**
+ * Person whose pension is projected from pension points: the individual pension, otherwise the first
+ * person of the couple with an enabled projection
+ */
+function getProjectedPensionPerson(config: CoupleStatutoryPensionConfig): ProjectedPensionPerson | null {
+  if (config.planningMode === 'individual') {
+    return hasPensionProjection(config.individual) ? 'individual' : null
+  }
+  if (hasPensionProjection(config.couple?.person1)) {
+    return 'person1'
+  }
+  return hasPensionProjection(config.couple?.person2) ? 'person2' : null
+}
+
+/**
+ * Statutory pension that is projected from pension points, null if no projection is enabled
+ */
+export function getProjectedStatutoryPension(config: CoupleStatutoryPensionConfig | null): StatutoryPensionConfig | null {
+  const person = config ? getProjectedPensionPerson(config) : null
+  if (!config || !person) {
+    return null
+  }
+  return person === 'individual' ? config.individual! : config.couple![person]
+}
+
+/**
+ * Add a Sonderzahlung to the pension projection returned by getProjectedStatutoryPension
+ */
+export function addStatutoryPensionSpecialPayment(
+  config: CoupleStatutoryPensionConfig,
+  payment: PensionSpecialPayment,
+): CoupleStatutoryPensionConfig {
+  const person = getProjectedPensionPerson(config)
+  const projection = getProjectedStatutoryPension(config)?.pensionProjection
+  if (!person || !projection) {
+    return config
+  }
+
+  const pensionProjection = { ...projection, specialPayments: [...projection.specialPayments, payment] }
+  if (person === 'individual') {
+    return { ...config, individual: { ...config.individual!, pensionProjection } }
+  }
+  return { ...config, couple: { ...config.couple!, [person]: { ...config.couple![person], pensionProjection } } }
+}
+
 /**
  * Convert legacy StatutoryPensionConfig to CoupleStatutoryPensionConfig
  * for backward compatibility
@@ -36,13 +36,26 @@ describe('Steuer Helper - Basiszins Configuration', () => {
       expect(getBasiszinsForYear(2030, config)).toBe(0.035)
     })
 
-    it('should fallback to hardcoded data when no config provided', () => {
+    it('should fallback to the historical data when no config provided', () => {
       // Test historical years
       expect(getBasiszinsForYear(2023)).toBe(0.0255)
-      expect(getBasiszinsForYear(2022)).toBe(0.018)
+      expect(getBasiszinsForYear(2022)).toBe(-0.0005)
       expect(getBasiszinsForYear(2018)).toBe(0.0087)
     })
 
+    it('should prefer the historical data over estimated fallback entries', () => {
+      const config: BasiszinsConfiguration = {
+        2021: { year: 2021, rate: 0.007, source: 'fallback', lastUpdated: '2021-01-01' },
+        2022: { year: 2022, rate: 0.018, source: 'api', lastUpdated: '2022-01-01' },
+        2024: { year: 2024, rate: 0.0229, source: 'fallback', lastUpdated: '2024-01-01' },
+      }
+
+      expect(getBasiszinsForYear(2021, config)).toBe(-0.0045)
+      expect(getBasiszinsForYear(2022, config)).toBe(0.018)
+      // 2024 has no historical data
+      expect(getBasiszinsForYear(2024, config)).toBe(0.0229)
+    })
+
     it('should use ultimate fallback for unknown years without config', () => {
       // Test future year without config
       expect(getBasiszinsForYear(2030)).toBe(0.0255) // Latest hardcoded rate
@@ -1,4 +1,5 @@
 import type { BasiszinsConfiguration } from '../src/services/bundesbank-api'
+import { getHistoricalBasiszins } from '../src/utils/historical-dataset'
 
 // German tax constants (as of 2024)
 export const GERMAN_TAX_CONSTANTS = {
@@ -54,7 +55,7 @@ export function isStandardGrundfreibetragValue(amount: number): boolean {
 }
 
 /**
- * Historical and projected German Basiszins (base interest rate) values for Vorabpauschale calculation.
+ * Estimated and projected German Basiszins (base interest rate) values for Vorabpauschale calculation.
  * 
  * The Basiszins is the official base interest rate set annually by the German Federal Ministry of Finance
  * (Bundesfinanzministerium) for calculating the Vorabpauschale on investment funds.
@@ -62,8 +63,8 @@ export function isStandardGrundfreibetragValue(amount: number): boolean {
  * These values serve as a fallback when dynamic configuration is not available.
  * The primary source should be the configurable BasiszinsConfiguration from Deutsche Bundesbank.
  * 
- * Historical rates are official values; future rates are projections that should be updated
- * when official values become available.
+ * The official rates of past years come from the bundled historical dataset (series 'basiszins');
+ * the rates below are estimates and projections that should be updated when official values become available.
  * 
  * @see BasiszinsConfiguration for dynamic rate configuration
  * @see getBasiszinsForYear for rate retrieval with fallback logic
@@ -71,12 +72,6 @@ export function isStandardGrundfreibetragValue(amount: number): boolean {
 const basiszinsen: {
   [year: number]: number
 } = {
-  2018: 0.0087, // 0.87% - Official rate
-  2019: 0.0087, // 0.87% - Official rate
-  2020: 0.007, // 0.70% - Official rate
-  2021: 0.007, // 0.70% - Official rate
-  2022: 0.018, // 1.80% - Official rate
-  2023: 0.0255, // 2.55% - Official rate
   2024: 0.0255, // 2.55% - Estimated (to be updated when official)
   2025: 0.0255, // 2.55% - Projected (to be updated when official)
 }
@@ -87,8 +82,10 @@ const basiszinsen: {
  * This function retrieves the official German base interest rate used for Vorabpauschale calculations.
  * It implements a multi-tier fallback strategy to ensure a rate is always available:
  * 
- * 1. **Dynamic Configuration**: First checks the provided BasiszinsConfiguration (from Bundesbank API)
- * 2. **Historical Data**: Falls back to hardcoded historical rates
+ * 1. **Dynamic Configuration**: First checks the provided BasiszinsConfiguration (from Bundesbank API
+ *    or entered manually); entries with source 'fallback' are only estimates
+ * 2. **Historical Data**: Official rates of past years from the bundled historical dataset,
+ *    then the estimated configuration entries and the hardcoded rates
  * 3. **Latest Available**: Uses the most recent rate from either source
  * 4. **Ultimate Fallback**: Returns 2.55% (2023 rate) as last resort
  * 
@@ -110,15 +107,24 @@ const basiszinsen: {
  */
 export function getBasiszinsForYear(year: number, basiszinsConfig?: BasiszinsConfiguration): number {
   // First, try to use the configurable basiszins if provided
-  if (basiszinsConfig && basiszinsConfig[year]) {
-    return basiszinsConfig[year].rate
+  const configuredRate = basiszinsConfig?.[year]
+  if (configuredRate && configuredRate.source !== 'fallback') {
+    return configuredRate.rate
   }
 
-  // Fallback to hardcoded historical data
-  if (basiszinsen[year] !== undefined) {
-    return basiszinsen[year]
+  // Fallback to the official historical data
+  const historicalRate = getHistoricalBasiszins(year) ?? configuredRate?.rate ?? basiszinsen[year]
+  if (historicalRate !== undefined) {
+    return historicalRate
   }
 
+  return getLatestBasiszins(basiszinsConfig)
+}
+
+/**
+ * Most recent Basiszins of the configuration, or of the hardcoded data without configured rates
+ */
+function getLatestBasiszins(basiszinsConfig?: BasiszinsConfiguration): number {
   // If using configurable basiszins, find the most recent rate
   if (basiszinsConfig) {
     const availableYears = Object.keys(basiszinsConfig)
@@ -259,6 +265,7 @@ function calculatePersonalIncomeTax(
   kirchensteuerAktiv: boolean,
   kirchensteuersatz: number,
   useProgressiveTax: boolean,
+  taxBrackets: TaxBracket[],
 ): { personalTaxAmount: number; usedGrundfreibetrag: number; effectiveRate?: number } {
   if (useProgressiveTax) {
     // Use progressive tax calculation
@@ -269,6 +276,7 @@ function calculatePersonalIncomeTax(
       0, // alreadyUsedGrundfreibetrag is 0 because availableGrundfreibetrag already accounts for it
       kirchensteuerAktiv,
       kirchensteuersatz,
+      taxBrackets,
     )
 
     return {
@@ -421,7 +429,7 @@ export interface GuenstigerPruefungResult {
 }
 
 /**
- * German progressive income tax brackets for 2024
+ * German progressive income tax bracket
  * Based on the German income tax formula (Einkommensteuergesetz - EStG)
  */
 export interface TaxBracket {
@@ -440,7 +448,9 @@ export interface TaxBracket {
 }
 
 /**
- * Default German tax brackets for 2024
+ * Default German tax brackets for 2024 (as originally enacted, before the retroactive
+ * Grundfreibetrag increase). Year-specific tariffs are available via getTaxBracketsForYear
+ * in ./income-tax-tariff.
  * Zone 1: 0 - 11,604€ (Grundfreibetrag) - 0% tax
  * Zone 2: 11,605€ - 17,005€ - Progressive from 14% to ~24%
  * Zone 3: 17,006€ - 66,760€ - Progressive from ~24% to 42%
@@ -505,156 +515,62 @@ export interface ProgressiveTaxResult {
 }
 
 /**
- * Calculate tax using German Zone 2 formula (11,605€ - 17,005€)
- * Tax = (y * z + 1400) * z where z = (taxable income - 11,604) / 10,000
+ * Find the index of the tax zone an income falls into
  */
-function calculateZone2Tax(taxableIncome: number, y: number, linearCoefficient: number): number {
-  const grundfreibetrag = GERMAN_TAX_BRACKETS_2024[0].to ?? 11604
-  const z = (taxableIncome - grundfreibetrag) / 10000
-  return (y * z + linearCoefficient) * z
-}
-
-/**
- * Calculate tax using German Zone 3 formula (17,006€ - 66,760€)
- * Tax = (y * z + 2397) * z + base where z = (taxable income - 17,005) / 10,000
- */
-function calculateZone3Tax(taxableIncome: number, y: number, linearCoefficient: number): number {
-  const zone2Upper = GERMAN_TAX_BRACKETS_2024[1].to ?? 17005
-  const zone2Y = GERMAN_TAX_BRACKETS_2024[1].y ?? 922.98
-  const zone2Linear = GERMAN_TAX_BRACKETS_2024[1].linearCoefficient ?? 1400
-  const z = (taxableIncome - zone2Upper) / 10000
-  const zoneBase = calculateZone2Tax(zone2Upper, zone2Y, zone2Linear)
-  return (y * z + linearCoefficient) * z + zoneBase
-}
-
-/**
- * Calculate tax for income in Zone 1 (Grundfreibetrag - no tax)
- */
-function calculateTaxZone1(
-  incomeAfterOffset: number,
-  taxBrackets: TaxBracket[],
-): { totalTax: number; marginalRate: number; bracketBreakdown: ProgressiveTaxResult['bracketBreakdown'] } {
-  return {
-    totalTax: 0,
-    marginalRate: 0,
-    bracketBreakdown: [{
-      bracket: taxBrackets[0],
-      taxableAmount: incomeAfterOffset,
-      taxAmount: 0,
-    }],
-  }
+function findTaxZoneIndex(income: number, taxBrackets: TaxBracket[]): number {
+  const index = taxBrackets.findIndex(bracket => bracket.to === undefined || income <= bracket.to)
+  return index === -1 ? taxBrackets.length - 1 : index
 }
 
 /**
- * Calculate tax for income in Zone 2 (Progressive 14% to ~24%)
+ * Calculate the tax of a zone's own formula for the income above the zone start.
+ * Progressive zones (2 and 3) use the quadratic §32a formula (y * z + linearCoefficient) * z
+ * with z = (income - zone start) / 10,000, proportional zones (4 and 5) apply their marginal rate.
  */
-function calculateTaxZone2Result(
-  incomeAfterOffset: number,
-  taxBrackets: TaxBracket[],
-): { totalTax: number; marginalRate: number; bracketBreakdown: ProgressiveTaxResult['bracketBreakdown'] } {
-  const totalTax = calculateZone2Tax(incomeAfterOffset, 922.98, 1400)
-  return {
-    totalTax,
-    marginalRate: 0.14,
-    bracketBreakdown: [{
-      bracket: taxBrackets[1],
-      taxableAmount: incomeAfterOffset - 11604,
-      taxAmount: totalTax,
-    }],
+function calculateZoneFormulaTax(incomeAboveZoneStart: number, bracket: TaxBracket): number {
+  if (bracket.y === undefined || bracket.linearCoefficient === undefined) {
+    return incomeAboveZoneStart * bracket.marginalRate
   }
+  const z = incomeAboveZoneStart / 10000
+  return (bracket.y * z + bracket.linearCoefficient) * z
 }
 
 /**
- * Calculate tax for income in Zone 3 (Progressive ~24% to 42%)
+ * Calculate the tariff tax for an income within a given zone.
+ * The tax at the start of each zone equals the tax at the upper limit of the previous zone,
+ * which keeps the tariff continuous for any set of (official or indexed) brackets.
  */
-function calculateTaxZone3Result(
-  incomeAfterOffset: number,
-  taxBrackets: TaxBracket[],
-): { totalTax: number; marginalRate: number; bracketBreakdown: ProgressiveTaxResult['bracketBreakdown'] } {
-  const totalTax = calculateZone3Tax(incomeAfterOffset, 181.19, 2397)
-  return {
-    totalTax,
-    marginalRate: 0.2397,
-    bracketBreakdown: [{
-      bracket: taxBrackets[2],
-      taxableAmount: incomeAfterOffset - 17005,
-      taxAmount: totalTax,
-    }],
+function calculateTaxInZone(income: number, zoneIndex: number, taxBrackets: TaxBracket[]): number {
+  if (zoneIndex <= 0) {
+    return 0
   }
+  const zoneStart = taxBrackets[zoneIndex - 1].to ?? 0
+  const baseTax = calculateTaxInZone(zoneStart, zoneIndex - 1, taxBrackets)
+  return baseTax + calculateZoneFormulaTax(income - zoneStart, taxBrackets[zoneIndex])
 }
 
 /**
- * Calculate tax for income in Zone 4 (Flat 42%)
+ * Determine which tax zone applies and calculate tax accordingly
  */
-function calculateTaxZone4Result(
+function calculateTaxByZone(
   incomeAfterOffset: number,
   taxBrackets: TaxBracket[],
 ): { totalTax: number; marginalRate: number; bracketBreakdown: ProgressiveTaxResult['bracketBreakdown'] } {
-  const baseTax = calculateZone3Tax(66760, 181.19, 2397)
-  const incomeAbove66760 = incomeAfterOffset - 66760
-  const totalTax = baseTax + incomeAbove66760 * 0.42
-  
-  return {
-    totalTax,
-    marginalRate: 0.42,
-    bracketBreakdown: [{
-      bracket: taxBrackets[3],
-      taxableAmount: incomeAbove66760,
-      taxAmount: totalTax,
-    }],
-  }
-}
+  const zoneIndex = findTaxZoneIndex(incomeAfterOffset, taxBrackets)
+  const totalTax = calculateTaxInZone(incomeAfterOffset, zoneIndex, taxBrackets)
+  const zoneStart = zoneIndex > 0 ? (taxBrackets[zoneIndex - 1].to ?? 0) : 0
 
-/**
- * Calculate tax for income in Zone 5 (Flat 45% - Reichensteuer)
- */
-function calculateTaxZone5Result(
-  incomeAfterOffset: number,
-  taxBrackets: TaxBracket[],
-): { totalTax: number; marginalRate: number; bracketBreakdown: ProgressiveTaxResult['bracketBreakdown'] } {
-  const baseTaxZone3 = calculateZone3Tax(66760, 181.19, 2397)
-  const zone4Income = 277825 - 66760
-  const baseTaxZone4 = baseTaxZone3 + zone4Income * 0.42
-  const incomeAbove277825 = incomeAfterOffset - 277825
-  const totalTax = baseTaxZone4 + incomeAbove277825 * 0.45
-  
   return {
     totalTax,
-    marginalRate: 0.45,
+    marginalRate: taxBrackets[zoneIndex].marginalRate,
     bracketBreakdown: [{
-      bracket: taxBrackets[4],
-      taxableAmount: incomeAbove277825,
+      bracket: taxBrackets[zoneIndex],
+      taxableAmount: incomeAfterOffset - zoneStart,
       taxAmount: totalTax,
     }],
   }
 }
 
-/**
- * Determine which tax zone applies and calculate tax accordingly
- */
-function calculateTaxByZone(
-  incomeAfterOffset: number,
-  taxBrackets: TaxBracket[],
-): { totalTax: number; marginalRate: number; bracketBreakdown: ProgressiveTaxResult['bracketBreakdown'] } {
-  if (incomeAfterOffset <= 11604) {
-    return calculateTaxZone1(incomeAfterOffset, taxBrackets)
-  }
-  
-  if (incomeAfterOffset <= 17005) {
-    return calculateTaxZone2Result(incomeAfterOffset, taxBrackets)
-  }
-  
-  if (incomeAfterOffset <= 66760) {
-    return calculateTaxZone3Result(incomeAfterOffset, taxBrackets)
-  }
-  
-  if (incomeAfterOffset <= 277825) {
-    return calculateTaxZone4Result(incomeAfterOffset, taxBrackets)
-  }
-  
-  return calculateTaxZone5Result(incomeAfterOffset, taxBrackets)
-}
-
 /**
  * Calculate German progressive income tax based on official tax brackets.
  * Uses the official German tax formula (Einkommensteuergesetz - EStG §32a)
@@ -681,7 +597,7 @@ function calculateTaxByZone(
  * @param taxableIncome - The taxable income (zu versteuerndes Einkommen)
  * @param grundfreibetrag - Additional tax-free allowance (for capital gains offset)
  * @param alreadyUsedGrundfreibetrag - Amount of Grundfreibetrag already used
- * @param taxBrackets - Custom tax brackets (defaults to German 2024 brackets)
+ * @param taxBrackets - Tax brackets of the year being calculated (defaults to German 2024 brackets)
  * @returns Detailed progressive tax calculation result
  *
  * @example
@@ -737,7 +653,7 @@ export function calculateProgressiveTax(
  * @param alreadyUsedGrundfreibetrag - Amount of Grundfreibetrag already used
  * @param kirchensteuerAktiv - Whether church tax (Kirchensteuer) is active
  * @param kirchensteuersatz - Church tax rate (8% or 9%)
- * @param taxBrackets - Custom tax brackets (defaults to German 2024 brackets)
+ * @param taxBrackets - Tax brackets of the year being calculated (defaults to German 2024 brackets)
  * @returns Progressive tax result with Kirchensteuer if applicable
  */
 export function calculateProgressiveTaxOnVorabpauschale(
@@ -796,6 +712,7 @@ export function calculateProgressiveTaxOnVorabpauschale(
  * @param kirchensteuerAktiv - Whether church tax is active
  * @param kirchensteuersatz - Church tax rate (8% or 9%)
  * @param useProgressiveTax - If true, uses progressive tax brackets instead of flat personalTaxRate
+ * @param taxBrackets - Tax brackets of the year being calculated (defaults to German 2024 brackets)
  * @returns Object with calculated tax amounts and recommendation
  */
 export function performGuenstigerPruefung(
@@ -808,6 +725,7 @@ export function performGuenstigerPruefung(
   kirchensteuerAktiv = false,
   kirchensteuersatz = 9,
   useProgressiveTax = false,
+  taxBrackets: TaxBracket[] = GERMAN_TAX_BRACKETS_2024,
 ): GuenstigerPruefungResult {
   if (vorabpauschale <= 0) {
     return createEmptyGuenstigerPruefungResult(abgeltungssteuer, grundfreibetrag, alreadyUsedGrundfreibetrag)
@@ -822,6 +740,7 @@ export function performGuenstigerPruefung(
     kirchensteuerAktiv,
     kirchensteuersatz,
     useProgressiveTax,
+    taxBrackets,
   )
   const { isFavorable, usedTaxRate, explanation } = determineFavorableTaxOption(
     personalTaxAmount,
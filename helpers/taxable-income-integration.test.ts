@@ -4,6 +4,7 @@ import type { SparplanElement } from '../src/utils/sparplan-utils'
 import { createDefaultStatutoryPensionConfig, type StatutoryPensionConfig } from './statutory-pension'
 import type { OtherIncomeConfiguration, OtherIncomeSource } from './other-income'
 import { createDefaultHealthCareInsuranceConfig, type HealthCareInsuranceConfig } from './health-care-insurance'
+import { SONDERAUSGABEN_PAUSCHBETRAG } from './spenden'
 
 describe('Centralized Taxable Income Calculation', () => {
   // Helper function to create test elements
@@ -63,6 +64,7 @@ describe('Centralized Taxable Income Calculation', () => {
       startYear: 2041,
       monthlyAmount: 1500, // €1500/month = €18000/year
       taxablePercentage: 80, // 80% taxable = €14400
+      taxablePercentageMode: 'manual',
     }
 
     const { result } = calculateWithdrawal({
@@ -73,7 +75,7 @@ describe('Centralized Taxable Income Calculation', () => {
     const portfolioWithdrawal = result[2041].entnahme
     const pensionTaxableAmount = result[2041].statutoryPension!.taxableAmount
     const totalTaxableIncome = portfolioWithdrawal + pensionTaxableAmount
-    const expectedTaxableAfterGrundfreibetrag = Math.max(0, totalTaxableIncome - 12000)
+    const expectedTaxableAfterGrundfreibetrag = Math.max(0, totalTaxableIncome - SONDERAUSGABEN_PAUSCHBETRAG - 12000)
     const expectedTax = expectedTaxableAfterGrundfreibetrag * 0.25
 
     expect(result[2041].einkommensteuer).toBe(expectedTax)
@@ -109,7 +111,7 @@ describe('Centralized Taxable Income Calculation', () => {
     const portfolioWithdrawal = result[2041].entnahme
     const otherIncomeGrossAmount = 9600 // €800 * 12
     const totalTaxableIncome = portfolioWithdrawal + otherIncomeGrossAmount
-    const expectedTaxableAfterGrundfreibetrag = Math.max(0, totalTaxableIncome - 12000)
+    const expectedTaxableAfterGrundfreibetrag = Math.max(0, totalTaxableIncome - SONDERAUSGABEN_PAUSCHBETRAG - 12000)
     const expectedTax = expectedTaxableAfterGrundfreibetrag * 0.25
 
     expect(result[2041].einkommensteuer).toBe(expectedTax)
@@ -124,6 +126,7 @@ describe('Centralized Taxable Income Calculation', () => {
       startYear: 2041,
       monthlyAmount: 1200, // €1200/month = €14400/year
       taxablePercentage: 85, // 85% taxable = €12240
+      taxablePercentageMode: 'manual',
     }
 
     const otherIncomeConfig: OtherIncomeConfiguration = {
@@ -166,7 +169,7 @@ describe('Centralized Taxable Income Calculation', () => {
     const pensionTaxableAmount = result[2041].statutoryPension!.taxableAmount
     const otherIncomeGrossAmount = 7200 + 4800 // Rental + Business
     const totalTaxableIncome = portfolioWithdrawal + pensionTaxableAmount + otherIncomeGrossAmount
-    const expectedTaxableAfterGrundfreibetrag = Math.max(0, totalTaxableIncome - 12000)
+    const expectedTaxableAfterGrundfreibetrag = Math.max(0, totalTaxableIncome - SONDERAUSGABEN_PAUSCHBETRAG - 12000)
     const expectedTax = expectedTaxableAfterGrundfreibetrag * 0.25
 
     expect(result[2041].einkommensteuer).toBe(expectedTax)
@@ -202,6 +205,7 @@ describe('Centralized Taxable Income Calculation', () => {
       startYear: 2041,
       monthlyAmount: 600, // €600/month = €7200/year
       taxablePercentage: 80, // 80% taxable = €5760
+      taxablePercentageMode: 'manual',
     }
 
     const { result } = calculateWithdrawal({
@@ -220,7 +224,7 @@ describe('Centralized Taxable Income Calculation', () => {
     // Total income (~6760) is below Grundfreibetrag (10000), so no tax
     expect(totalTaxableIncome).toBeLessThan(10000)
     expect(result[2041].einkommensteuer).toBe(0)
-    expect(result[2041].genutzterGrundfreibetrag).toBe(totalTaxableIncome)
+    expect(result[2041].genutzterGrundfreibetrag).toBe(totalTaxableIncome - SONDERAUSGABEN_PAUSCHBETRAG)
   })
 
   it('should handle different Grundfreibetrag amounts correctly', () => {
@@ -230,6 +234,7 @@ describe('Centralized Taxable Income Calculation', () => {
       startYear: 2041,
       monthlyAmount: 1000, // €1000/month = €12000/year
       taxablePercentage: 80, // 80% taxable = €9600
+      taxablePercentageMode: 'manual',
     }
 
     // Test with different Grundfreibetrag amounts
@@ -251,7 +256,10 @@ describe('Centralized Taxable Income Calculation', () => {
       const portfolioWithdrawal = result[2041].entnahme
       const pensionTaxableAmount = result[2041].statutoryPension!.taxableAmount
       const totalTaxableIncome = portfolioWithdrawal + pensionTaxableAmount
-      const expectedTaxableAfterGrundfreibetrag = Math.max(0, totalTaxableIncome - scenario.grundfreibetrag)
+      const expectedTaxableAfterGrundfreibetrag = Math.max(
+        0,
+        totalTaxableIncome - SONDERAUSGABEN_PAUSCHBETRAG - scenario.grundfreibetrag,
+      )
       const expectedTax = expectedTaxableAfterGrundfreibetrag * 0.25
 
       expect(result[2041].einkommensteuer).toBe(expectedTax)
@@ -294,7 +302,7 @@ describe('Centralized Taxable Income Calculation', () => {
     const portfolioWithdrawal = result[2041].entnahme
     const healthCareTotal = result[2041].healthCareInsurance!.totalAnnual
     const expectedTaxableIncome = portfolioWithdrawal - healthCareTotal // Health insurance is deductible
-    const expectedTaxableAfterGrundfreibetrag = Math.max(0, expectedTaxableIncome - 12000)
+    const expectedTaxableAfterGrundfreibetrag = Math.max(0, expectedTaxableIncome - SONDERAUSGABEN_PAUSCHBETRAG - 12000)
     const expectedTax = expectedTaxableAfterGrundfreibetrag * 0.25
 
     expect(result[2041].healthCareInsurance).toBeDefined()
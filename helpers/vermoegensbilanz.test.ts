@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest'
+import {
+  calculateVermoegensbilanz,
+  getAltersvorsorgeBalance,
+  getBetriebsrenteBalance,
+  type VermoegensbilanzInput,
+} from './vermoegensbilanz'
+import { calculatePropertyTimeline, createDefaultPropertyOwnershipConfig } from './immobilien-eigentum'
+import {
+  createDefaultKapitallebensversicherungConfig,
+  createDefaultOtherIncomeSource,
+  createDefaultRiesterRenteConfig,
+  createDefaultRuerupRenteConfig,
+  type OtherIncomeSource,
+} from './other-income'
+import { createDefaultBetriebsrenteConfig } from './betriebsrente'
+
+describe('vermoegensbilanz', () => {
+  const createKapitallebensversicherung = (): OtherIncomeSource => ({
+    ...createDefaultOtherIncomeSource('kapitallebensversicherung'),
+    kapitallebensversicherungConfig: {
+      ...createDefaultKapitallebensversicherungConfig(),
+      policyStartYear: 2020,
+      policyMaturityYear: 2030,
+      totalPayoutAmount: 50000,
+    },
+  })
+
+  const createRuerup = (): OtherIncomeSource => ({
+    ...createDefaultOtherIncomeSource('ruerup_rente'),
+    startYear: 2025,
+    ruerupRenteConfig: {
+      ...createDefaultRuerupRenteConfig(),
+      annualContribution: 6000,
+      pensionStartYear: 2028,
+      expectedMonthlyPension: 1000,
+      pensionIncreaseRate: 0,
+    },
+  })
+
+  const createBetriebsrente = (): OtherIncomeSource => ({
+    ...createDefaultOtherIncomeSource('pension'),
+    startYear: 2027,
+    betriebsrenteConfig: {
+      ...createDefaultBetriebsrenteConfig(2027, 300),
+      enabled: true,
+      annualEmployeeContribution: 3000,
+      annualEmployerContribution: 600,
+      pensionIncreaseRate: 0,
+    },
+  })
+
+  describe('getAltersvorsorgeBalance', () => {
+    it('should accumulate contributions and reduce the balance by the pension', () => {
+      const source = createRuerup()
+
+      expect(getAltersvorsorgeBalance(source, 2025, 2027)).toBe(18000)
+      expect(getAltersvorsorgeBalance(source, 2025, 2028)).toBe(6000)
+      expect(getAltersvorsorgeBalance(source, 2025, 2030)).toBe(0)
+    })
+
+    it('should add the Riester allowances to the contributions', () => {
+      const source: OtherIncomeSource = {
+        ...createDefaultOtherIncomeSource('riester_rente'),
+        startYear: 2025,
+        riesterRenteConfig: {
+          ...createDefaultRiesterRenteConfig(),
+          annualGrossIncome: 20000,
+          annualContribution: 1000,
+          numberOfChildren: 0,
+          childrenBirthYears: [],
+          pensionStartYear: 2040,
+        },
+      }
+
+      expect(getAltersvorsorgeBalance(source, 2025, 2025)).toBe(1175)
+    })
+
+    it('should ignore sources without pension contract', () => {
+      expect(getAltersvorsorgeBalance(createKapitallebensversicherung(), 2025, 2030)).toBe(0)
+    })
+  })
+
+  describe('getBetriebsrenteBalance', () => {
+    it('should accumulate employee and employer contributions until the pension starts', () => {
+      const source = createBetriebsrente()
+
+      expect(getBetriebsrenteBalance(source, 2025, 2025)).toBe(3600)
+      expect(getBetriebsrenteBalance(source, 2025, 2026)).toBe(7200)
+      expect(getBetriebsrenteBalance(source, 2025, 2027)).toBe(3600)
+      expect(getBetriebsrenteBalance(source, 2025, 2029)).toBe(0)
+    })
+
+    it('should ignore disabled contracts', () => {
+      const source = createBetriebsrente()
+      const disabled = { ...source, betriebsrenteConfig: { ...source.betriebsrenteConfig!, enabled: false } }
+
+      expect(getBetriebsrenteBalance(disabled, 2025, 2026)).toBe(0)
+    })
+  })
+
+  describe('calculateVermoegensbilanz', () => {
+    const propertyTimeline = calculatePropertyTimeline(
+      { ...createDefaultPropertyOwnershipConfig(2026), enabled: true },
+      2027,
+    )
+    const input: VermoegensbilanzInput = {
+      depotByYear: { 2026: 120000, 2025: 100000, 2027: 140000 },
+      propertyTimeline,
+      otherIncomeSources: [createKapitallebensversicherung(), createRuerup(), createBetriebsrente()],
+      inflationRate: 0.02,
+    }
+
+    it('should return an empty balance sheet without depot years', () => {
+      expect(calculateVermoegensbilanz({ ...input, depotByYear: {} })).toEqual([])
+    })
+
+    it('should combine all asset classes and the mortgage per year', () => {
+      const bilanz = calculateVermoegensbilanz(input)
+      const [first, second] = bilanz
+
+      expect(bilanz.map(entry => entry.year)).toEqual([2025, 2026, 2027])
+      expect(first.assets).toEqual({
+        depot: 100000,
+        immobilie: 0,
+        kapitallebensversicherung: 27600,
+        altersvorsorge: 6000,
+        betriebsrente: 3600,
+      })
+      expect(first.liabilities).toEqual({ baufinanzierung: 0 })
+      expect(first.netWorth).toBeCloseTo(137200)
+      expect(first.netWorthReal).toBeCloseTo(first.netWorth)
+
+      expect(second.assets.immobilie).toBeCloseTo(propertyTimeline[0].propertyValue)
+      expect(second.liabilities.baufinanzierung).toBeCloseTo(propertyTimeline[0].remainingDebt)
+      expect(second.netWorth).toBeCloseTo(second.totalAssets - second.totalLiabilities)
+      expect(second.netWorthReal).toBeCloseTo(second.netWorth / 1.02)
+    })
+
+    it('should skip disabled income sources', () => {
+      const disabled = { ...createKapitallebensversicherung(), enabled: false }
+      const [first] = calculateVermoegensbilanz({ ...input, otherIncomeSources: [disabled] })
+
+      expect(first.assets.kapitallebensversicherung).toBe(0)
+    })
+  })
+})
@@ -0,0 +1,197 @@
+import { calculateBetriebsrentePensionTaxation } from './betriebsrente'
+import type { PropertyTimeline } from './immobilien-eigentum'
+import {
+  calculateKapitallebensversicherungCashValue,
+  calculateOtherIncomeForYear,
+  type OtherIncomeSource,
+} from './other-income'
+
+/**
+ * Asset classes of the Vermögensbilanz
+ */
+export type VermoegensbilanzAssetClass =
+  | 'depot'
+  | 'immobilie'
+  | 'kapitallebensversicherung'
+  | 'altersvorsorge'
+  | 'betriebsrente'
+
+/**
+ * Liability classes of the Vermögensbilanz. Credit-financed special events carry no liability:
+ * the simulation deducts the full expense from the depot in the year of the event.
+ */
+export type VermoegensbilanzLiabilityClass = 'baufinanzierung'
+
+export const VERMOEGENSBILANZ_ASSET_LABELS: Record<VermoegensbilanzAssetClass, string> = {
+  depot: 'Depot',
+  immobilie: 'Immobilie',
+  kapitallebensversicherung: 'Kapitallebensversicherung',
+  altersvorsorge: 'Riester/Rürup',
+  betriebsrente: 'Betriebsrente',
+}
+
+export const VERMOEGENSBILANZ_LIABILITY_LABELS: Record<VermoegensbilanzLiabilityClass, string> = {
+  baufinanzierung: 'Baufinanzierung',
+}
+
+/**
+ * Consolidated balance sheet of one year
+ */
+export interface VermoegensbilanzYear {
+  year: number
+  assets: Record<VermoegensbilanzAssetClass, number>
+  liabilities: Record<VermoegensbilanzLiabilityClass, number>
+  totalAssets: number
+  totalLiabilities: number
+  /** Total assets minus total liabilities (nominal) */
+  netWorth: number
+  /** Net worth in purchasing power of the first year */
+  netWorthReal: number
+}
+
+export interface VermoegensbilanzInput {
+  /** Depot value at the end of each year; defines the years of the balance sheet */
+  depotByYear: Record<number, number>
+  /** Owned property and mortgage (empty when no property is configured) */
+  propertyTimeline: PropertyTimeline
+  /** Configured other income sources (Kapitallebensversicherung, Riester, Rürup, Betriebsrente) */
+  otherIncomeSources: OtherIncomeSource[]
+  /** Annual inflation rate as decimal for the real net worth */
+  inflationRate: number
+}
+
+function getAltersvorsorgeFlow(source: OtherIncomeSource, year: number): number {
+  const result = calculateOtherIncomeForYear(source, year)
+  if (!result) {
+    return 0
+  }
+  const { riesterRenteDetails, ruerupRenteDetails } = result
+  if (riesterRenteDetails) {
+    return riesterRenteDetails.isContributionPhase
+      ? riesterRenteDetails.annualContribution + riesterRenteDetails.allowances
+      : -result.grossAnnualAmount
+  }
+  if (ruerupRenteDetails) {
+    return ruerupRenteDetails.isContributionPhase ? ruerupRenteDetails.annualContribution : -result.grossAnnualAmount
+  }
+  return 0
+}
+
+function getBetriebsrenteFlow(source: OtherIncomeSource, year: number): number {
+  const config = source.betriebsrenteConfig
+  if (source.type !== 'pension' || !config?.enabled) {
+    return 0
+  }
+  if (year < config.pensionStartYear) {
+    return config.annualEmployeeContribution + config.annualEmployerContribution
+  }
+  return -calculateBetriebsrentePensionTaxation(
+    config.expectedMonthlyPension,
+    year,
+    config.pensionStartYear,
+    config.pensionIncreaseRate,
+    source.taxRate / 100,
+    true,
+    true,
+    config.implementationType,
+  ).grossAnnualPension
+}
+
+function accumulateBalance(firstYear: number, year: number, getFlow: (year: number) => number): number {
+  let balance = 0
+  for (let y = firstYear; y <= year; y++) {
+    balance = Math.max(0, balance + getFlow(y))
+  }
+  return balance
+}
+
+/**
+ * Contract balance of a Riester or Rürup contract at the end of a year.
+ * The contributions (plus Riester Zulagen) and pensions of the other income calculation accumulate
+ * from the first balance sheet year; the pension payments reduce the balance.
+ */
+export function getAltersvorsorgeBalance(source: OtherIncomeSource, firstYear: number, year: number): number {
+  return accumulateBalance(firstYear, year, y => getAltersvorsorgeFlow(source, y))
+}
+
+/**
+ * Contract balance of the Betriebsrente (bAV) behind a pension income source at the end of a year.
+ * Employee and employer contributions accumulate from the first balance sheet year until the
+ * pension starts; afterwards the gross pension payments reduce the balance.
+ */
+export function getBetriebsrenteBalance(source: OtherIncomeSource, firstYear: number, year: number): number {
+  return accumulateBalance(firstYear, year, y => getBetriebsrenteFlow(source, y))
+}
+
+function sumOver<T>(items: T[], getValue: (item: T) => number): number {
+  return items.reduce((sum, item) => sum + getValue(item), 0)
+}
+
+function calculateAssets(input: VermoegensbilanzInput, firstYear: number, year: number) {
+  const sources = input.otherIncomeSources.filter(source => source.enabled)
+  const property = input.propertyTimeline.find(entry => entry.year === year)
+
+  return {
+    depot: input.depotByYear[year] ?? 0,
+    immobilie: property?.propertyValue ?? 0,
+    kapitallebensversicherung: sumOver(sources, source =>
+      source.kapitallebensversicherungConfig
+        ? calculateKapitallebensversicherungCashValue(source.kapitallebensversicherungConfig, year)
+        : 0,
+    ),
+    altersvorsorge: sumOver(sources, source => getAltersvorsorgeBalance(source, firstYear, year)),
+    betriebsrente: sumOver(sources, source => getBetriebsrenteBalance(source, firstYear, year)),
+  }
+}
+
+/**
+ * Consolidated yearly balance sheet (Vermögensbilanz) combining depot, property,
+ * insurance cash values and pension contracts with the mortgage
+ */
+export function calculateVermoegensbilanz(input: VermoegensbilanzInput): VermoegensbilanzYear[] {
+  const years = Object.keys(input.depotByYear)
+    .map(Number)
+    .sort((a, b) => a - b)
+  if (years.length === 0) {
+    return []
+  }
+  const firstYear = years[0]
+
+  return years.map(year => {
+    const assets = calculateAssets(input, firstYear, year)
+    const liabilities = {
+      baufinanzierung: input.propertyTimeline.find(entry => entry.year === year)?.remainingDebt ?? 0,
+    }
+    const totalAssets = sumOver(Object.values(assets), value => value)
+    const totalLiabilities = liabilities.baufinanzierung
+    const netWorth = totalAssets - totalLiabilities
+
+    return {
+      year,
+      assets,
+      liabilities,
+      totalAssets,
+      totalLiabilities,
+      netWorth,
+      netWorthReal: netWorth / Math.pow(1 + input.inflationRate, year - firstYear),
+    }
+  })
+}
+
+/**
+ * Columns of the tabular Vermögensbilanz (table, CSV and Excel export)
+ */
+export const VERMOEGENSBILANZ_COLUMNS: Array<{ label: string; getValue: (entry: VermoegensbilanzYear) => number }> = [
+  ...(Object.keys(VERMOEGENSBILANZ_ASSET_LABELS) as VermoegensbilanzAssetClass[]).map(assetClass => ({
+    label: VERMOEGENSBILANZ_ASSET_LABELS[assetClass],
+    getValue: (entry: VermoegensbilanzYear) => entry.assets[assetClass],
+  })),
+  { label: 'Summe Vermögen', getValue: entry => entry.totalAssets },
+  ...(Object.keys(VERMOEGENSBILANZ_LIABILITY_LABELS) as VermoegensbilanzLiabilityClass[]).map(liabilityClass => ({
+    label: VERMOEGENSBILANZ_LIABILITY_LABELS[liabilityClass],
+    getValue: (entry: VermoegensbilanzYear) => entry.liabilities[liabilityClass],
+  })),
+  { label: 'Summe Verbindlichkeiten', getValue: entry => entry.totalLiabilities },
+  { label: 'Nettovermögen', getValue: entry => entry.netWorth },
+  { label: 'Nettovermögen (real)', getValue: entry => entry.netWorthReal },
+]
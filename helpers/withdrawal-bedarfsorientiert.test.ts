@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest'
+import { calculateWithdrawal, type CalculateWithdrawalParams } from './withdrawal'
+import type { SparplanElement } from '../src/utils/sparplan-utils'
+import { createDefaultStatutoryPensionConfig } from './statutory-pension'
+import {
+  createDefaultBedarfsorientierteConfig,
+  type BedarfsorientierteEntnahmeConfig,
+} from './bedarfsorientierte-entnahme'
+
+function createTestElement(einzahlung: number, endkapital: number): SparplanElement {
+  return {
+    type: 'sparplan',
+    start: '2023-01-01',
+    einzahlung,
+    simulation: {
+      2040: {
+        startkapital: endkapital,
+        endkapital,
+        zinsen: 0,
+        bezahlteSteuer: 0,
+        genutzterFreibetrag: 0,
+        vorabpauschale: 0,
+        vorabpauschaleAccumulated: 0,
+      },
+    },
+  }
+}
+
+function createDynamicConfig(baseAnnualSpending: number): BedarfsorientierteEntnahmeConfig {
+  const config = createDefaultBedarfsorientierteConfig(1974, 2041)
+  return {
+    ...config,
+    quelle: 'dynamische-ausgaben',
+    dynamicSpending: {
+      ...config.dynamicSpending,
+      baseAnnualSpending,
+      medicalCostConfig: { ...config.dynamicSpending.medicalCostConfig, enabled: false },
+      largeExpenses: [],
+    },
+  }
+}
+
+describe('withdrawal - bedarfsorientiert strategy', () => {
+  const baseParams: CalculateWithdrawalParams = {
+    elements: [createTestElement(500000, 500000)],
+    startYear: 2041,
+    endYear: 2043,
+    strategy: 'bedarfsorientiert',
+    returnConfig: { mode: 'fixed', fixedRate: 0 },
+    taxRate: 0.26375,
+    teilfreistellungsquote: 0.3,
+    freibetragPerYear: { 2041: 1000, 2042: 1000, 2043: 1000 },
+    bedarfsorientierteConfig: createDynamicConfig(30000),
+  }
+
+  it('should withdraw exactly the spending need when the withdrawal is tax-free', () => {
+    const { result } = calculateWithdrawal(baseParams)
+
+    expect(result[2041].entnahme).toBeCloseTo(30000, 2)
+    expect(result[2041].bedarfsorientierteEntnahme).toEqual({
+      ausgabenbedarf: 30000,
+      nettoEinkommen: 0,
+      nettoBedarf: 30000,
+      geschaetzteSteuern: 0,
+      bruttoEntnahme: 30000,
+    })
+  })
+
+  it('should follow the inflated spending need instead of adding inflation on top', () => {
+    const { result } = calculateWithdrawal({
+      ...baseParams,
+      inflationConfig: { inflationRate: 0.02 },
+    })
+
+    expect(result[2041].bedarfsorientierteEntnahme!.ausgabenbedarf).toBeCloseTo(30000, 2)
+    expect(result[2042].bedarfsorientierteEntnahme!.ausgabenbedarf).toBeCloseTo(30600, 2)
+    expect(result[2043].bedarfsorientierteEntnahme!.ausgabenbedarf).toBeCloseTo(31212, 2)
+    expect(result[2043].entnahme).toBeCloseTo(result[2043].bedarfsorientierteEntnahme!.bruttoEntnahme, 2)
+  })
+
+  it('should reduce the withdrawal by the net statutory pension', () => {
+    const { result } = calculateWithdrawal({
+      ...baseParams,
+      statutoryPensionConfig: {
+        ...createDefaultStatutoryPensionConfig(),
+        enabled: true,
+        startYear: 2041,
+        monthlyAmount: 1000,
+      },
+    })
+
+    const pension = result[2041].statutoryPension!.netAnnualAmount
+    expect(pension).toBeGreaterThan(0)
+    expect(result[2041].bedarfsorientierteEntnahme!.nettoEinkommen).toBeCloseTo(pension, 2)
+    expect(result[2041].entnahme).toBeCloseTo(30000 - pension, 2)
+  })
+
+  it('should gross up the withdrawal by the taxes on realized gains', () => {
+    const { result } = calculateWithdrawal({
+      ...baseParams,
+      elements: [createTestElement(100000, 500000)],
+    })
+
+    const breakdown = result[2041].bedarfsorientierteEntnahme!
+    expect(breakdown.geschaetzteSteuern).toBeGreaterThan(0)
+    expect(breakdown.bruttoEntnahme - breakdown.geschaetzteSteuern).toBeCloseTo(30000, 1)
+    expect(result[2041].entnahme).toBeCloseTo(breakdown.bruttoEntnahme, 2)
+  })
+
+  it('should not withdraw anything when the pension covers the spending need', () => {
+    const { result } = calculateWithdrawal({
+      ...baseParams,
+      bedarfsorientierteConfig: createDynamicConfig(5000),
+      statutoryPensionConfig: {
+        ...createDefaultStatutoryPensionConfig(),
+        enabled: true,
+        startYear: 2041,
+        monthlyAmount: 1000,
+      },
+    })
+
+    expect(result[2041].entnahme).toBe(0)
+    expect(result[2041].bedarfsorientierteEntnahme!.nettoBedarf).toBe(0)
+  })
+
+  it('should withdraw the income tax on a pension that covers the spending need only before tax', () => {
+    const { result } = calculateWithdrawal({
+      ...baseParams,
+      bedarfsorientierteConfig: createDynamicConfig(23500),
+      enableGrundfreibetrag: true,
+      grundfreibetragPerYear: { 2041: 11604, 2042: 11604, 2043: 11604 },
+      statutoryPensionConfig: {
+        ...createDefaultStatutoryPensionConfig(),
+        enabled: true,
+        startYear: 2041,
+        monthlyAmount: 2000,
+        taxablePercentage: 100,
+      },
+    })
+
+    const pension = result[2041].statutoryPension!.grossAnnualAmount
+    const breakdown = result[2041].bedarfsorientierteEntnahme!
+    expect(pension).toBeGreaterThan(23500)
+    expect(breakdown.nettoEinkommen).toBeLessThan(23500)
+    expect(breakdown.nettoBedarf).toBeCloseTo(23500 - breakdown.nettoEinkommen, 2)
+    expect(result[2041].entnahme).toBeGreaterThan(breakdown.nettoBedarf)
+    // Pension and withdrawal after the income tax of the year cover the spending need
+    expect(pension + result[2041].entnahme - result[2041].einkommensteuer!).toBeCloseTo(23500, 0)
+  })
+
+  it('should throw without configuration', () => {
+    expect(() => calculateWithdrawal({ ...baseParams, bedarfsorientierteConfig: undefined })).toThrow(
+      'Bedarfsorientiert strategy requires bedarfsorientierteConfig',
+    )
+  })
+})
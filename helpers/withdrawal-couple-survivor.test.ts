@@ -0,0 +1,212 @@
+import { describe, it, expect } from 'vitest'
+import { calculateSegmentedWithdrawal, calculateWithdrawal, type CalculateWithdrawalParams } from './withdrawal'
+import { calculateInheritanceTax } from './inheritance-tax'
+import {
+  createDefaultCoupleHealthInsuranceConfig,
+  createDefaultHealthCareInsuranceConfig,
+} from './health-care-insurance'
+import type { CoupleWithdrawalConfig } from './couple-withdrawal'
+import type { IndividualStatutoryPensionConfig } from './statutory-pension'
+import type { SparplanElement } from '../src/utils/sparplan-utils'
+import { createSingleSegmentConfig } from '../src/utils/segmented-withdrawal'
+
+function createTestElement(endkapital: number, depotId?: string): SparplanElement {
+  return {
+    type: 'sparplan',
+    start: '2023-01-01',
+    einzahlung: endkapital,
+    depotId,
+    simulation: {
+      2040: {
+        startkapital: endkapital,
+        endkapital,
+        zinsen: 0,
+        bezahlteSteuer: 0,
+        genutzterFreibetrag: 0,
+        vorabpauschale: 0,
+        vorabpauschaleAccumulated: 0,
+      },
+    },
+  }
+}
+
+const person1Pension: IndividualStatutoryPensionConfig = {
+  enabled: true,
+  startYear: 2025,
+  monthlyAmount: 2000,
+  annualIncreaseRate: 0,
+  taxablePercentage: 83,
+  personId: 1,
+}
+const person2Pension: IndividualStatutoryPensionConfig = {
+  ...person1Pension,
+  startYear: 2027,
+  monthlyAmount: 800,
+  personId: 2,
+}
+
+// Person 1 dies in 2042, person 2 in 2045
+const coupleWithdrawalConfig: CoupleWithdrawalConfig = {
+  enabled: true,
+  person1: { lifeExpectancy: 82 },
+  person2: { lifeExpectancy: 83 },
+  depotOwners: { 'depot-1': 1 },
+  marriedBefore2002: false,
+}
+
+describe('withdrawal - couple survivor phase', () => {
+  const baseParams: CalculateWithdrawalParams = {
+    elements: [createTestElement(900000, 'depot-1'), createTestElement(200000)],
+    startYear: 2041,
+    endYear: 2060,
+    strategy: '4prozent',
+    returnConfig: { mode: 'fixed', fixedRate: 0 },
+    taxRate: 0.26375,
+    teilfreistellungsquote: 0.3,
+    enableGrundfreibetrag: true,
+    incomeTaxRate: 0.25,
+    statutoryPensionConfig: { ...person1Pension, monthlyAmount: 2800 },
+    birthYear: 1960,
+    spouseBirthYear: 1962,
+    planningMode: 'couple',
+    coupleStatutoryPensionConfig: {
+      enabled: true,
+      planningMode: 'couple',
+      couple: { person1: person1Pension, person2: person2Pension },
+    },
+    coupleWithdrawalConfig,
+  }
+
+  it('should end the withdrawal with the death of the survivor', () => {
+    const { result } = calculateWithdrawal(baseParams)
+
+    expect(Math.max(...Object.keys(result).map(Number))).toBe(2045)
+  })
+
+  it('should continue the withdrawal after the configured end until the death of the survivor', () => {
+    const { result } = calculateWithdrawal({ ...baseParams, endYear: 2043 })
+
+    expect(Math.max(...Object.keys(result).map(Number))).toBe(2045)
+    expect(result[2045].coupleWithdrawal?.witwenrente?.grossAnnualAmount).toBeCloseTo(12 * 1100, 6)
+  })
+
+  it('should not simulate a survivor phase without the birth year of the partner', () => {
+    const { result } = calculateWithdrawal({ ...baseParams, spouseBirthYear: undefined })
+
+    expect(result[2042].coupleWithdrawal).toBeUndefined()
+    expect(Math.max(...Object.keys(result).map(Number))).toBe(2060)
+  })
+
+  it('should apply the splitting tariff until the Gnadensplitting year', () => {
+    const { result } = calculateWithdrawal(baseParams)
+
+    expect(result[2042].coupleWithdrawal).toMatchObject({ phase: 'couple', jointAssessment: true })
+    expect(result[2043].coupleWithdrawal).toMatchObject({ phase: 'survivor', jointAssessment: true })
+    expect(result[2044].coupleWithdrawal).toMatchObject({ phase: 'survivor', jointAssessment: false })
+    expect(result[2043].ehegattensplitting).toBeDefined()
+    expect(result[2044].ehegattensplitting).toBeUndefined()
+  })
+
+  it('should replace the pensions of both partners with the own pension and the Witwenrente', () => {
+    const { result } = calculateWithdrawal(baseParams)
+
+    expect(result[2042].statutoryPension?.grossAnnualAmount).toBeCloseTo(2800 * 12, 6)
+    // Sterbevierteljahr: three months of the full pension of the deceased, then 55%
+    expect(result[2043].coupleWithdrawal?.witwenrente?.grossAnnualAmount).toBeCloseTo(3 * 2000 + 9 * 1100, 6)
+    expect(result[2044].coupleWithdrawal?.witwenrente?.grossAnnualAmount).toBeCloseTo(12 * 1100, 6)
+    expect(result[2044].statutoryPension?.grossAnnualAmount).toBeCloseTo(12 * 800 + 12 * 1100, 6)
+  })
+
+  it('should split the combined pension equally without individual pensions of both partners', () => {
+    const { result } = calculateWithdrawal({
+      ...baseParams,
+      statutoryPensionConfig: { ...person1Pension, monthlyAmount: 2000 },
+      coupleStatutoryPensionConfig: undefined,
+    })
+
+    expect(result[2044].coupleWithdrawal).toMatchObject({ pensionsSplitEqually: true })
+    expect(result[2044].statutoryPension?.grossAnnualAmount).toBeCloseTo(12 * 1000 + 12 * 550, 6)
+  })
+
+  it('should halve the Sparerpauschbetrag after the Gnadensplitting year', () => {
+    const { result } = calculateWithdrawal({
+      ...baseParams,
+      elements: [{ ...createTestElement(900000, 'depot-1'), einzahlung: 450000 }, createTestElement(200000)],
+      freibetragPerYear: { 2041: 2000, 2042: 2000, 2043: 2000, 2044: 2000, 2045: 2000 },
+    })
+
+    expect(result[2043].genutzterFreibetrag).toBe(2000)
+    expect(result[2044].genutzterFreibetrag).toBe(1000)
+  })
+
+  it('should insure the survivor alone after the year of death', () => {
+    const { result } = calculateWithdrawal({
+      ...baseParams,
+      healthCareInsuranceConfig: {
+        ...createDefaultHealthCareInsuranceConfig(),
+        planningMode: 'couple',
+        retirementStartYear: 2025,
+        coupleConfig: { ...createDefaultCoupleHealthInsuranceConfig(), strategy: 'individual' },
+      },
+    })
+
+    expect(result[2042].healthCareInsurance?.coupleDetails).toBeDefined()
+    expect(result[2043].healthCareInsurance?.coupleDetails).toBeUndefined()
+    expect(result[2043].healthCareInsurance?.totalAnnual).toBeLessThan(result[2042].healthCareInsurance!.totalAnnual)
+  })
+
+  it('should pay the inheritance tax on the depots of the deceased from the inherited depots', () => {
+    const { result } = calculateWithdrawal(baseParams)
+    const { result: withoutSurvivorPhase } = calculateWithdrawal({
+      ...baseParams,
+      coupleWithdrawalConfig: { ...coupleWithdrawalConfig, enabled: false },
+    })
+
+    const inheritance = result[2042].coupleWithdrawal?.inheritance
+    expect(inheritance).toBeDefined()
+    // Own depot and half of the joint depot
+    expect(inheritance!.grossAmount).toBeGreaterThan(500000)
+    expect(inheritance!.grossAmount).toBeLessThan(withoutSurvivorPhase[2042].endkapital)
+    expect(inheritance!.tax).toBeCloseTo(calculateInheritanceTax(inheritance!.grossAmount, 'spouse').tax, 6)
+    expect(result[2042].endkapital).toBeCloseTo(withoutSurvivorPhase[2042].endkapital - inheritance!.tax, 6)
+    expect(result[2043].startkapital).toBeCloseTo(result[2042].endkapital, 6)
+    expect(result[2043].coupleWithdrawal?.inheritance).toBeUndefined()
+  })
+
+  it('should apply the survivor phase in segmented withdrawals and extend the last segment', () => {
+    const { elements, ...params } = baseParams
+    const result = calculateSegmentedWithdrawal(elements, {
+      ...createSingleSegmentConfig('4prozent', { mode: 'fixed', fixedRate: 0 }, 2041, 2043),
+      ...params,
+      taxRate: 0.26375,
+    })
+
+    expect(Math.max(...Object.keys(result).map(Number))).toBe(2045)
+    expect(result[2042].coupleWithdrawal?.inheritance).toBeDefined()
+    expect(result[2044].coupleWithdrawal).toMatchObject({ phase: 'survivor', jointAssessment: false })
+  })
+
+  it('should tax the survivor with Gnadensplitting and the individual tariff in segmented withdrawals', () => {
+    const { elements, ...params } = baseParams
+    const single = calculateWithdrawal(baseParams).result
+    const segmented = calculateSegmentedWithdrawal(elements, {
+      ...createSingleSegmentConfig('4prozent', { mode: 'fixed', fixedRate: 0 }, 2041, 2043),
+      ...params,
+      taxRate: 0.26375,
+    })
+
+    expect(segmented[2043].ehegattensplitting).toBeDefined()
+    expect(segmented[2044].ehegattensplitting).toBeUndefined()
+    for (const year of [2042, 2043, 2044]) {
+      expect(segmented[year].einkommensteuer).toBeGreaterThan(0)
+      expect(segmented[year].einkommensteuer).toBeCloseTo(single[year].einkommensteuer!, 6)
+    }
+  })
+
+  it('should ignore the couple withdrawal plan in individual planning mode', () => {
+    const { result } = calculateWithdrawal({ ...baseParams, planningMode: 'individual' })
+
+    expect(result[2042].coupleWithdrawal).toBeUndefined()
+    expect(Math.max(...Object.keys(result).map(Number))).toBe(2060)
+  })
+})
@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest'
+import { calculateWithdrawal, type CalculateWithdrawalParams } from './withdrawal'
+import type { SparplanElement } from '../src/utils/sparplan-utils'
+import type { AssetClass } from './asset-class'
+import { calculatePrivateSaleTax } from './crypto-tax'
+import { getTaxBracketsForYear } from './income-tax-tariff'
+import { createDefaultStatutoryPensionConfig } from './statutory-pension'
+import { createDefaultBedarfsorientierteConfig } from './bedarfsorientierte-entnahme'
+
+function createLot(start: Date, einzahlung: number, endkapital: number, fundType?: AssetClass): SparplanElement {
+  return {
+    type: 'einmalzahlung',
+    start,
+    einzahlung,
+    gewinn: 0,
+    fundType,
+    simulation: {
+      2040: {
+        startkapital: endkapital,
+        endkapital,
+        zinsen: 0,
+        bezahlteSteuer: 0,
+        genutzterFreibetrag: 0,
+        vorabpauschale: 0,
+        vorabpauschaleAccumulated: 0,
+      },
+    },
+  }
+}
+
+describe('withdrawal - crypto holdings (§ 23 EStG)', () => {
+  const baseParams: Omit<CalculateWithdrawalParams, 'elements'> = {
+    startYear: 2041,
+    endYear: 2041,
+    strategy: '4prozent',
+    returnConfig: { mode: 'fixed', fixedRate: 0 },
+    taxRate: 0.26375,
+    teilfreistellungsquote: 0.3,
+    freibetragPerYear: { 2041: 0 },
+    steuerReduzierenEndkapital: false,
+    basiszinsConfiguration: { 2041: { year: 2041, rate: 0, source: 'manual' } },
+  }
+
+  it('should sell the coins held for more than one year first and tax-free', () => {
+    const { result } = calculateWithdrawal({
+      ...baseParams,
+      elements: [
+        createLot(new Date(2020, 0, 1), 10000, 30000, 'cryptocurrency'),
+        createLot(new Date(2035, 0, 1), 50000, 100000, 'equity-fund'),
+        createLot(new Date(2040, 5, 1), 20000, 25000, 'cryptocurrency'),
+      ],
+    })
+
+    // 4% of 155,000 € are sold from the oldest crypto lot, two thirds of it are gain
+    expect(result[2041].entnahme).toBe(6200)
+    expect(result[2041].cryptoSale?.steuerfreierGewinn).toBeCloseTo((6200 * 2) / 3)
+    expect(result[2041].cryptoSale?.verkaufInnerhalbHaltefrist).toBe(0)
+    expect(result[2041].bezahlteSteuer).toBe(0)
+  })
+
+  it('should sell fund lots before coins within the holding period', () => {
+    const { result } = calculateWithdrawal({
+      ...baseParams,
+      elements: [
+        createLot(new Date(2040, 5, 1), 20000, 25000, 'cryptocurrency'),
+        createLot(new Date(2040, 6, 1), 100000, 100000, 'equity-fund'),
+      ],
+    })
+
+    expect(result[2041].cryptoSale).toBeUndefined()
+    expect(result[2041].bezahlteSteuer).toBe(0)
+  })
+
+  it('should keep a gain within the holding period below the Freigrenze tax-free but report the sale', () => {
+    const { result } = calculateWithdrawal({
+      ...baseParams,
+      elements: [createLot(new Date(2040, 5, 1), 20000, 25000, 'cryptocurrency')],
+    })
+    const cryptoSale = result[2041].cryptoSale!
+
+    expect(cryptoSale.verkaufInnerhalbHaltefrist).toBe(1000)
+    expect(cryptoSale.privaterVeraeusserungsgewinn).toBeCloseTo(200)
+    expect(cryptoSale.privateSaleTax.unterFreigrenze).toBe(true)
+    expect(result[2041].bezahlteSteuer).toBe(0)
+  })
+
+  it('should tax a gain within the holding period with the personal income tax instead of the Abgeltungsteuer', () => {
+    const { result } = calculateWithdrawal({
+      ...baseParams,
+      elements: [createLot(new Date(2040, 5, 1), 100000, 1000000, 'cryptocurrency')],
+    })
+    const expectedTax = calculatePrivateSaleTax(36000, 0, 2041, getTaxBracketsForYear(2041)).einkommensteuer
+
+    expect(result[2041].cryptoSale?.privaterVeraeusserungsgewinn).toBeCloseTo(36000)
+    expect(expectedTax).toBeGreaterThan(0)
+    expect(result[2041].cryptoSale?.privateSaleTax.einkommensteuer).toBeCloseTo(expectedTax)
+    expect(result[2041].bezahlteSteuer).toBeCloseTo(expectedTax)
+  })
+
+  it('should add the Kirchensteuer to the tax on a gain within the holding period', () => {
+    const { result } = calculateWithdrawal({
+      ...baseParams,
+      kirchensteuerAktiv: true,
+      kirchensteuersatz: 9,
+      elements: [createLot(new Date(2040, 5, 1), 100000, 1000000, 'cryptocurrency')],
+    })
+    const privateSaleTax = result[2041].cryptoSale!.privateSaleTax
+
+    expect(privateSaleTax.kirchensteuer).toBeCloseTo(privateSaleTax.einkommensteuer * 0.09)
+    expect(result[2041].bezahlteSteuer).toBeCloseTo(privateSaleTax.steuer)
+  })
+
+  it('should estimate the tax on a gain within the holding period on top of the pension', () => {
+    const config = createDefaultBedarfsorientierteConfig(1974, 2041)
+    const { result } = calculateWithdrawal({
+      ...baseParams,
+      strategy: 'bedarfsorientiert',
+      bedarfsorientierteConfig: {
+        ...config,
+        quelle: 'dynamische-ausgaben',
+        dynamicSpending: {
+          ...config.dynamicSpending,
+          baseAnnualSpending: 40000,
+          medicalCostConfig: { ...config.dynamicSpending.medicalCostConfig, enabled: false },
+          largeExpenses: [],
+        },
+      },
+      enableGrundfreibetrag: true,
+      grundfreibetragPerYear: { 2041: 11604 },
+      statutoryPensionConfig: {
+        ...createDefaultStatutoryPensionConfig(),
+        enabled: true,
+        startYear: 2041,
+        monthlyAmount: 2000,
+      },
+      elements: [createLot(new Date(2040, 5, 1), 100000, 1000000, 'cryptocurrency')],
+    })
+    const yearResult = result[2041]
+    const booked = yearResult.einkommensteuer! + yearResult.cryptoSale!.privateSaleTax.steuer
+
+    expect(yearResult.cryptoSale!.privateSaleTax.steuer).toBeGreaterThan(0)
+    // The estimated taxes match the booked ones, so pension and withdrawal cover the spending need
+    expect(yearResult.statutoryPension!.grossAnnualAmount + yearResult.entnahme - booked).toBeCloseTo(40000, 0)
+  })
+
+  it('should charge no Vorabpauschale on coins', () => {
+    const { result } = calculateWithdrawal({
+      ...baseParams,
+      returnConfig: { mode: 'fixed', fixedRate: 0.05 },
+      basiszinsConfiguration: { 2041: { year: 2041, rate: 0.0255, source: 'manual' } },
+      elements: [createLot(new Date(2020, 0, 1), 10000, 30000, 'cryptocurrency')],
+    })
+
+    expect(result[2041].vorabpauschale).toBeUndefined()
+    expect(result[2041].bezahlteSteuer).toBe(0)
+  })
+})
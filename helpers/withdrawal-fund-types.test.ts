@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest'
+import { calculateSegmentedWithdrawal, calculateWithdrawal, type CalculateWithdrawalParams } from './withdrawal'
+import { createSingleSegmentConfig } from '../src/utils/segmented-withdrawal'
+import type { SparplanElement } from '../src/utils/sparplan-utils'
+import type { AssetClass } from './asset-class'
+
+function createLot(einzahlung: number, endkapital: number, fundType?: AssetClass): SparplanElement {
+  return {
+    type: 'einmalzahlung',
+    start: new Date(2030, 0, 1),
+    einzahlung,
+    gewinn: 0,
+    fundType,
+    simulation: {
+      2040: {
+        startkapital: endkapital,
+        endkapital,
+        zinsen: 0,
+        bezahlteSteuer: 0,
+        genutzterFreibetrag: 0,
+        vorabpauschale: 0,
+        vorabpauschaleAccumulated: 0,
+      },
+    },
+  }
+}
+
+describe('withdrawal - fund types of the lots', () => {
+  const baseParams: Omit<CalculateWithdrawalParams, 'elements'> = {
+    startYear: 2041,
+    endYear: 2041,
+    strategy: '4prozent',
+    returnConfig: { mode: 'fixed', fixedRate: 0 },
+    taxRate: 0.26375,
+    teilfreistellungsquote: 0.3,
+    freibetragPerYear: { 2041: 0 },
+    steuerReduzierenEndkapital: false,
+    basiszinsConfiguration: { 2041: { year: 2041, rate: 0, source: 'manual' } },
+  }
+
+  it('should tax the realized gains with the Teilfreistellung of the lot sold', () => {
+    const equity = calculateWithdrawal({ ...baseParams, elements: [createLot(100000, 200000, 'equity-fund')] })
+    const bond = calculateWithdrawal({ ...baseParams, elements: [createLot(100000, 200000, 'bond-fund')] })
+
+    // 8,000 € sold from a lot at twice its cost basis: 4,000 € gain
+    expect(equity.result[2041].bezahlteSteuer).toBeCloseTo(4000 * 0.7 * 0.26375, 2)
+    expect(bond.result[2041].bezahlteSteuer).toBeCloseTo(4000 * 0.26375, 2)
+  })
+
+  it('should weight the Teilfreistellung of the gains by the lots sold', () => {
+    const { result } = calculateWithdrawal({
+      ...baseParams,
+      // 3,000 € sold: 1,000 € gain of the whole equity fund lot and 500 € of half the mixed fund lot
+      strategy: 'monatlich_fest',
+      monthlyConfig: { monthlyAmount: 3000 / 12 },
+      elements: [createLot(1000, 2000, 'equity-fund'), createLot(1000, 2000, 'mixed-fund')],
+    })
+
+    expect(result[2041].bezahlteSteuer).toBeCloseTo((1000 * 0.7 + 500 * 0.85) * 0.26375, 2)
+  })
+
+  it('should net the Teilfreistellung of an equity fund loss with a bond fund gain', () => {
+    const { result } = calculateWithdrawal({
+      ...baseParams,
+      // 3,000 € sold: 1,000 € loss of the equity fund lot and 1,000 € gain of the bond fund lot
+      strategy: 'monatlich_fest',
+      monthlyConfig: { monthlyAmount: 3000 / 12 },
+      elements: [createLot(2000, 1000, 'equity-fund'), createLot(1000, 2000, 'bond-fund')],
+    })
+
+    // Only 70 % of the equity fund loss offset the fully taxable bond fund gain
+    expect(result[2041].bezahlteSteuer).toBeCloseTo((1000 - 1000 * 0.7) * 0.26375, 2)
+  })
+
+  it('should charge no Vorabpauschale on REITs, commodities and cryptocurrencies', () => {
+    const params = {
+      ...baseParams,
+      strategy: 'monatlich_fest' as const,
+      monthlyConfig: { monthlyAmount: 0 },
+      returnConfig: { mode: 'fixed' as const, fixedRate: 0.05 },
+      basiszinsConfiguration: { 2041: { year: 2041, rate: 0.0255, source: 'manual' as const } },
+    }
+    const fund = calculateWithdrawal({ ...params, elements: [createLot(100000, 100000, 'equity-fund')] })
+    const nonFunds = calculateWithdrawal({
+      ...params,
+      elements: [
+        createLot(100000, 100000, 'reit'),
+        createLot(100000, 100000, 'commodity'),
+        createLot(100000, 100000, 'cryptocurrency'),
+      ],
+    })
+
+    expect(fund.result[2041].vorabpauschale).toBeGreaterThan(0)
+    expect(nonFunds.result[2041].vorabpauschale).toBeUndefined()
+    expect(nonFunds.result[2041].bezahlteSteuer).toBe(0)
+  })
+
+  it('should apply the configured Teilfreistellung in every segment', () => {
+    const segmentedConfig = {
+      ...createSingleSegmentConfig('4prozent', { mode: 'fixed', fixedRate: 0 }, 2041, 2041),
+      freibetragPerYear: { 2041: 0 },
+    }
+    const withoutTeilfreistellung = calculateSegmentedWithdrawal([createLot(100000, 200000)], {
+      ...segmentedConfig,
+      teilfreistellungsquote: 0,
+    })
+    const withTeilfreistellung = calculateSegmentedWithdrawal([createLot(100000, 200000)], {
+      ...segmentedConfig,
+      teilfreistellungsquote: 0.3,
+    })
+
+    expect(withoutTeilfreistellung[2041].bezahlteSteuer).toBeGreaterThan(withTeilfreistellung[2041].bezahlteSteuer)
+  })
+})
@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest'
 import { calculateWithdrawal } from './withdrawal'
 import { createDefaultHealthCareInsuranceConfig } from './health-care-insurance'
+import { createDefaultPrivateHealthInsuranceProjectionConfig } from './private-health-insurance'
 import type { SparplanElement } from '../src/utils/sparplan-utils'
 
 describe('Withdrawal with Health Care Insurance Integration', () => {
@@ -269,4 +270,72 @@ describe('Withdrawal with Health Care Insurance Integration', () => {
     expect(result[2040].healthCareInsurance!.healthInsuranceAnnual).toBeCloseTo(expectedHealthInsurance, 2)
     expect(result[2040].healthCareInsurance!.careInsuranceAnnual).toBeCloseTo(expectedCareInsurance, 2)
   })
+
+  it('should assess the capital income of the previous year for voluntarily insured retirees', () => {
+    const healthCareInsuranceConfig = {
+      ...createDefaultHealthCareInsuranceConfig(),
+      retirementStartYear: 2040,
+      statutoryInsuranceStatus: 'freiwillig' as const,
+    }
+
+    const { result } = calculateWithdrawal({
+      elements: createTestElements(),
+      startYear: 2040,
+      endYear: 2041,
+      strategy: '4prozent',
+      returnConfig,
+      healthCareInsuranceConfig,
+      teilfreistellungsquote: 0.3,
+      birthYear: 1973,
+    })
+
+    // No tax assessment of a withdrawal year before the first withdrawal
+    expect(result[2040].healthCareInsurance!.assessmentIncome!.capitalIncome).toBe(0)
+    expect(result[2040].healthCareInsurance!.statutoryInsuranceStatus).toBe('freiwillig')
+
+    const capitalIncome = result[2041].healthCareInsurance!.assessmentIncome!.capitalIncome
+    expect(capitalIncome).toBeGreaterThan(0)
+    // Realized gains and Vorabpauschale of 2040 after the Teilfreistellung
+    expect(capitalIncome).toBeLessThan(result[2040].entnahme)
+
+    const { kvdr, freiwillig } = result[2041].healthCareInsurance!.statusComparison!
+    expect(freiwillig).toBeGreaterThan(kvdr)
+    expect(result[2041].healthCareInsurance!.totalAnnual).toBeCloseTo(freiwillig, 6)
+  })
+
+  it('should deduct the projected private insurance premium and compare it with the statutory insurance', () => {
+    const healthCareInsuranceConfig = {
+      ...createDefaultHealthCareInsuranceConfig(),
+      insuranceType: 'private' as const,
+      privateHealthInsuranceMonthly: 500,
+      privateCareInsuranceMonthly: 50,
+      retirementStartYear: 2040,
+      privateInsuranceProjection: {
+        ...createDefaultPrivateHealthInsuranceProjectionConfig(2025),
+        enabled: true,
+        premiumIncreaseRate: 3,
+        ageRelatedIncreaseRate: 1,
+      },
+    }
+
+    const { result } = calculateWithdrawal({
+      elements: createTestElements(),
+      startYear: 2040,
+      endYear: 2041,
+      strategy: '4prozent',
+      returnConfig,
+      healthCareInsuranceConfig,
+      teilfreistellungsquote: 0.3,
+      birthYear: 1973,
+    })
+
+    // 2026 until 2040: 7 years with 3% and 8 years from the age of 60 with 4%, no Zuschlag and no pension subsidy
+    const expectedMonthly = (500 + 50) * 1.03 ** 7 * 1.04 ** 8
+    expect(result[2040].healthCareInsurance!.totalMonthly).toBeCloseTo(expectedMonthly, 6)
+    expect(result[2041].healthCareInsurance!.totalMonthly).toBeCloseTo(expectedMonthly * 1.04, 6)
+
+    const comparison = result[2041].healthCareInsurance!.privateStatutoryComparison!
+    expect(comparison.private).toBeCloseTo(result[2041].healthCareInsurance!.totalAnnual, 6)
+    expect(comparison.statutory).toBeGreaterThan(0)
+  })
 })
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest'
+import { calculateSegmentedWithdrawal, calculateWithdrawal, type CalculateWithdrawalParams } from './withdrawal'
+import type { SparplanElement } from '../src/utils/sparplan-utils'
+import type { WithdrawalSegment } from '../src/utils/segmented-withdrawal'
+import { generateMultiAssetReturns } from './multi-asset-calculations'
+import { createDefaultMultiAssetConfig, type MultiAssetPortfolioConfig } from './multi-asset-portfolio'
+
+function createTestElement(): SparplanElement {
+  return {
+    type: 'sparplan',
+    start: '2023-01-01',
+    einzahlung: 250000,
+    simulation: {
+      2040: {
+        startkapital: 500000,
+        endkapital: 500000,
+        zinsen: 0,
+        bezahlteSteuer: 0,
+        genutzterFreibetrag: 0,
+        vorabpauschale: 0,
+        vorabpauschaleAccumulated: 0,
+      },
+    },
+  }
+}
+
+function createConfig(stocks: number, bonds: number): MultiAssetPortfolioConfig {
+  const config = createDefaultMultiAssetConfig()
+  return {
+    ...config,
+    enabled: true,
+    simulation: { ...config.simulation, seed: 4711 },
+    assetClasses: {
+      ...config.assetClasses,
+      stocks_domestic: { ...config.assetClasses.stocks_domestic, enabled: false },
+      stocks_international: { ...config.assetClasses.stocks_international, targetAllocation: stocks },
+      bonds_government: { ...config.assetClasses.bonds_government, targetAllocation: bonds },
+      bonds_corporate: { ...config.assetClasses.bonds_corporate, enabled: false },
+    },
+  }
+}
+
+const glidePath = {
+  ...createDefaultMultiAssetConfig().glidePath,
+  enabled: true,
+  startEquityAllocation: 0.9,
+  targetEquityAllocation: 0.3,
+  startAge: 25,
+  targetAge: 67,
+}
+
+describe('withdrawal - multi-asset portfolio', () => {
+  const years = [2041, 2042, 2043]
+  const baseParams: CalculateWithdrawalParams = {
+    elements: [createTestElement()],
+    startYear: 2041,
+    endYear: 2043,
+    strategy: '4prozent',
+    returnConfig: { mode: 'multiasset', multiAssetConfig: createConfig(0.6, 0.4) },
+    taxRate: 0.26375,
+    teilfreistellungsquote: 0.3,
+    freibetragPerYear: { 2041: 0, 2042: 0, 2043: 0 },
+    steuerReduzierenEndkapital: false,
+    basiszinsConfiguration: Object.fromEntries(years.map(year => [year, { year, rate: 0, source: 'manual' as const }])),
+  }
+
+  it('should keep the returns of the target allocation without glide path', () => {
+    const { result } = calculateWithdrawal(baseParams)
+    const returns = generateMultiAssetReturns(years, createConfig(0.6, 0.4))
+
+    for (const year of years) {
+      const { startkapital, entnahme, endkapital } = result[year]
+      expect(endkapital).toBeCloseTo((startkapital - entnahme) * (1 + returns[year]), 4)
+    }
+    expect(result[2041].assetClassWithdrawal?.sales.map(sale => sale.assetClass)).toEqual([
+      'stocks_international',
+      'bonds_government',
+    ])
+  })
+
+  it('should sell the equity overweight of the glide path with the equity Teilfreistellung', () => {
+    const { result } = calculateWithdrawal({
+      ...baseParams,
+      returnConfig: { mode: 'multiasset', multiAssetConfig: { ...createConfig(0.6, 0.4), glidePath } },
+      birthYear: 1980,
+    })
+    const assetClassWithdrawal = result[2041].assetClassWithdrawal!
+
+    expect(assetClassWithdrawal.age).toBe(61)
+    expect(assetClassWithdrawal.targetAllocations.stocks_international).toBeCloseTo(0.9 - (0.6 * 36) / 42)
+    // The depot starts at the allocation of age 60 (40% stocks), the target of the remaining capital is lower
+    const stocksSold = 200000 - (0.9 - (0.6 * 36) / 42) * 480000
+    const [stocks, bonds] = assetClassWithdrawal.sales
+    expect(stocks).toMatchObject({ assetClass: 'stocks_international', teilfreistellungsquote: 0.3 })
+    expect(stocks.amount).toBeCloseTo(stocksSold, 4)
+    expect(bonds).toMatchObject({ assetClass: 'bonds_government', teilfreistellungsquote: 0 })
+    expect(bonds.amount).toBeCloseTo(20000 - stocksSold, 4)
+    // Half of the withdrawal is gain, only the gain on the stocks sold is partially tax-free
+    const teilfreistellungsquote = (0.3 * stocksSold) / 20000
+    expect(assetClassWithdrawal.teilfreistellungsquote).toBeCloseTo(teilfreistellungsquote)
+    // The rebalancing back to the glide path target realizes further gains, taxed on top
+    expect(assetClassWithdrawal.rebalancingTax).toBeGreaterThan(0)
+    expect(result[2041].bezahlteSteuer).toBeCloseTo(
+      10000 * (1 - teilfreistellungsquote) * 0.26375 + assetClassWithdrawal.rebalancingTax,
+      2,
+    )
+  })
+
+  it('should tax the gains of bond funds without Teilfreistellung', () => {
+    const { result } = calculateWithdrawal({
+      ...baseParams,
+      returnConfig: { mode: 'multiasset', multiAssetConfig: createConfig(0, 1) },
+    })
+
+    expect(result[2041].assetClassWithdrawal?.teilfreistellungsquote).toBe(0)
+    expect(result[2041].bezahlteSteuer).toBeCloseTo(10000 * 0.26375, 2)
+  })
+
+  it('should apply the glide path in withdrawal segments with the birth year of the configuration', () => {
+    const segment: WithdrawalSegment = {
+      id: 'segment-1',
+      name: 'Multi-Asset',
+      startYear: 2041,
+      endYear: 2043,
+      strategy: '4prozent',
+      withdrawalFrequency: 'yearly',
+      returnConfig: { mode: 'multiasset', multiAssetConfig: { ...createConfig(0.6, 0.4), glidePath } },
+      steuerReduzierenEndkapital: false,
+    }
+
+    const result = calculateSegmentedWithdrawal([createTestElement()], {
+      segments: [segment],
+      taxRate: 0.26375,
+      birthYear: 1980,
+    })
+
+    expect(result[2043].assetClassWithdrawal?.age).toBe(63)
+    expect(result[2043].assetClassWithdrawal?.targetAllocations.stocks_international).toBeCloseTo(0.9 - (0.6 * 38) / 42)
+  })
+})
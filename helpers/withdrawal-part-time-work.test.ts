@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest'
+import { calculateSegmentedWithdrawal, calculateWithdrawal, type CalculateWithdrawalParams } from './withdrawal'
+import type { SparplanElement } from '../src/utils/sparplan-utils'
+import { createSingleSegmentConfig } from '../src/utils/segmented-withdrawal'
+import type { PartTimeRetirementWorkConfig } from './part-time-retirement-work'
+import { createDefaultEMRenteConfig } from './em-rente'
+import { createDefaultBedarfsorientierteConfig } from './bedarfsorientierte-entnahme'
+
+function createTestElement(einzahlung: number, endkapital: number): SparplanElement {
+  return {
+    type: 'sparplan',
+    start: '2023-01-01',
+    einzahlung,
+    simulation: {
+      2040: {
+        startkapital: endkapital,
+        endkapital,
+        zinsen: 0,
+        bezahlteSteuer: 0,
+        genutzterFreibetrag: 0,
+        vorabpauschale: 0,
+        vorabpauschaleAccumulated: 0,
+      },
+    },
+  }
+}
+
+const partTimeConfig: PartTimeRetirementWorkConfig = {
+  workPhases: [{ startYear: 2041, endYear: 2042, monthlyGrossIncome: 1500, weeklyHours: 15, description: 'Beratung' }],
+  reduceWithdrawals: true,
+  withdrawalReductionPercent: 50,
+  calculateSocialSecurity: false,
+}
+
+describe('withdrawal - part-time work and EM-Rente income', () => {
+  const baseParams: CalculateWithdrawalParams = {
+    elements: [createTestElement(500000, 500000)],
+    startYear: 2041,
+    endYear: 2043,
+    strategy: '4prozent',
+    returnConfig: { mode: 'fixed', fixedRate: 0 },
+    taxRate: 0.26375,
+    teilfreistellungsquote: 0.3,
+    freibetragPerYear: { 2041: 1000, 2042: 1000, 2043: 1000 },
+  }
+
+  it('should reduce the withdrawal in working years', () => {
+    const { result } = calculateWithdrawal({ ...baseParams, partTimeRetirementWorkConfig: partTimeConfig })
+
+    expect(result[2041].entnahme).toBeCloseTo(10000, 2)
+    expect(result[2042].entnahme).toBeCloseTo(10000, 2)
+    expect(result[2043].entnahme).toBeCloseTo(20000, 2)
+    expect(result[2041].workIncome).toMatchObject({ partTimeGrossAmount: 18000, withdrawalReduction: 10000 })
+    expect(result[2043].workIncome).toBeUndefined()
+  })
+
+  it('should not reduce the withdrawal when the reduction is disabled', () => {
+    const { result } = calculateWithdrawal({
+      ...baseParams,
+      partTimeRetirementWorkConfig: { ...partTimeConfig, reduceWithdrawals: false },
+    })
+
+    expect(result[2041].entnahme).toBeCloseTo(20000, 2)
+    expect(result[2041].workIncome?.withdrawalReduction).toBe(0)
+  })
+
+  it('should add the work income to the progressive income tax base', () => {
+    const taxParams: CalculateWithdrawalParams = {
+      ...baseParams,
+      enableGrundfreibetrag: true,
+      grundfreibetragPerYear: { 2041: 11604, 2042: 11604, 2043: 11604 },
+      incomeTaxRate: 0.25,
+      partTimeRetirementWorkConfig: { ...partTimeConfig, reduceWithdrawals: false },
+    }
+
+    const withoutWork = calculateWithdrawal({ ...taxParams, partTimeRetirementWorkConfig: undefined }).result
+    const withWork = calculateWithdrawal(taxParams).result
+
+    expect(withWork[2041].einkommensteuer ?? 0).toBeGreaterThan(withoutWork[2041].einkommensteuer ?? 0)
+    expect(withWork[2043].einkommensteuer).toBeCloseTo(withoutWork[2043].einkommensteuer ?? 0, 2)
+  })
+
+  it('should tax the work income in segmented withdrawals like the single strategy', () => {
+    const taxParams = {
+      enableGrundfreibetrag: true,
+      grundfreibetragPerYear: { 2041: 11604, 2042: 11604, 2043: 11604 },
+      incomeTaxRate: 0.25,
+      partTimeRetirementWorkConfig: partTimeConfig,
+    }
+    const single = calculateWithdrawal({ ...baseParams, ...taxParams }).result
+    const segmented = calculateSegmentedWithdrawal(baseParams.elements, {
+      ...createSingleSegmentConfig('4prozent', { mode: 'fixed', fixedRate: 0 }, 2041, 2043),
+      teilfreistellungsquote: 0.3,
+      freibetragPerYear: baseParams.freibetragPerYear,
+      ...taxParams,
+    })
+
+    expect(segmented[2041].einkommensteuer).toBeGreaterThan(0)
+    expect(segmented[2041].einkommensteuer).toBeCloseTo(single[2041].einkommensteuer!, 6)
+    expect(segmented[2041].entnahme).toBeCloseTo(single[2041].entnahme, 6)
+  })
+
+  it('should include the EM-Rente reduced by the Hinzuverdienst', () => {
+    const emRenteConfig = { ...createDefaultEMRenteConfig(), enabled: true, disabilityStartYear: 2041, birthYear: 1980 }
+
+    const withoutWork = calculateWithdrawal({ ...baseParams, emRenteConfig }).result
+    const withWork = calculateWithdrawal({
+      ...baseParams,
+      emRenteConfig,
+      partTimeRetirementWorkConfig: {
+        ...partTimeConfig,
+        workPhases: [{ ...partTimeConfig.workPhases[0], monthlyGrossIncome: 5000 }],
+      },
+    }).result
+
+    expect(withoutWork[2041].workIncome?.emRenteGrossAmount).toBeGreaterThan(0)
+    expect(withWork[2041].workIncome?.hinzuverdienstReduction).toBeGreaterThan(0)
+    expect(withWork[2041].workIncome?.emRenteGrossAmount).toBeLessThan(
+      withoutWork[2041].workIncome?.emRenteGrossAmount ?? 0,
+    )
+    expect(withWork[2043].workIncome?.hinzuverdienstReduction).toBe(0)
+  })
+
+  it('should subtract the work income from the spending need of the bedarfsorientiert strategy', () => {
+    const bedarfsorientierteConfig = createDefaultBedarfsorientierteConfig(1974, 2041)
+    const { result } = calculateWithdrawal({
+      ...baseParams,
+      strategy: 'bedarfsorientiert',
+      bedarfsorientierteConfig,
+      partTimeRetirementWorkConfig: partTimeConfig,
+    })
+
+    expect(result[2041].bedarfsorientierteEntnahme?.nettoEinkommen).toBeCloseTo(18000, 2)
+    expect(result[2043].bedarfsorientierteEntnahme?.nettoEinkommen).toBe(0)
+    expect(result[2041].workIncome?.withdrawalReduction).toBe(0)
+  })
+})
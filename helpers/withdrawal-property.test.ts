@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest'
+import { calculateWithdrawal, type CalculateWithdrawalParams } from './withdrawal'
+import type { SparplanElement } from '../src/utils/sparplan-utils'
+import type { PropertyOwnershipConfig } from './immobilien-eigentum'
+
+function createTestElement(einzahlung: number, endkapital: number): SparplanElement {
+  return {
+    type: 'sparplan',
+    start: '2023-01-01',
+    einzahlung,
+    simulation: {
+      2040: {
+        startkapital: endkapital,
+        endkapital,
+        zinsen: 0,
+        bezahlteSteuer: 0,
+        genutzterFreibetrag: 0,
+        vorabpauschale: 0,
+        vorabpauschaleAccumulated: 0,
+      },
+    },
+  }
+}
+
+const propertyOwnershipConfig: PropertyOwnershipConfig = {
+  enabled: true,
+  purchaseYear: 2035,
+  purchasePrice: 300000,
+  purchaseCostsRate: 0,
+  equityFromDepot: 100000,
+  interestRate: 3,
+  initialRepaymentRate: 3,
+  specialRepayments: [],
+  appreciationRate: 0,
+  sellingCostsRate: 0,
+  sales: [{ year: 2042, sharePercent: 100 }],
+}
+
+describe('withdrawal - owned property', () => {
+  const baseParams: CalculateWithdrawalParams = {
+    elements: [createTestElement(250000, 500000)],
+    startYear: 2041,
+    endYear: 2044,
+    strategy: '4prozent',
+    returnConfig: { mode: 'fixed', fixedRate: 0.05 },
+    taxRate: 0.26375,
+    teilfreistellungsquote: 0.3,
+    freibetragPerYear: { 2041: 1000, 2042: 1000, 2043: 1000, 2044: 1000 },
+  }
+
+  it('should sell the mortgage payments from the depot and tax their gains', () => {
+    const withoutProperty = calculateWithdrawal(baseParams).result
+    const withProperty = calculateWithdrawal({ ...baseParams, propertyOwnershipConfig }).result
+    const mortgagePayment = withProperty[2041].propertyFlow?.mortgagePayment ?? 0
+
+    expect(mortgagePayment).toBeCloseTo(12000)
+    expect(withProperty[2041].entnahme).toBe(withoutProperty[2041].entnahme)
+    expect(withProperty[2041].bezahlteSteuer).toBeGreaterThan(withoutProperty[2041].bezahlteSteuer)
+    // The payment is sold at the beginning of the year and misses the return of the year
+    expect(withProperty[2041].endkapital).toBeCloseTo(withoutProperty[2041].endkapital - mortgagePayment * 1.05, 6)
+  })
+
+  it('should invest the sale proceeds in the year after the sale as a new lot', () => {
+    const { result, portfolioTaxState } = calculateWithdrawal({ ...baseParams, propertyOwnershipConfig })
+    const saleProceeds = result[2043].propertyFlow?.saleProceeds ?? 0
+
+    expect(saleProceeds).toBeGreaterThan(0)
+    expect(result[2043].propertyFlow?.mortgagePayment).toBe(0)
+    expect(result[2043].startkapital).toBeCloseTo(result[2042].endkapital + saleProceeds, 6)
+    expect(result[2044].propertyFlow).toBeUndefined()
+    expect(portfolioTaxState.lots.some(lot => lot.purchaseDate.getFullYear() === 2043)).toBe(true)
+  })
+})
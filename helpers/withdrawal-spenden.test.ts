@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest'
+import { calculateSegmentedWithdrawal, calculateWithdrawal, type CalculateWithdrawalParams } from './withdrawal'
+import type { SparplanElement } from '../src/utils/sparplan-utils'
+import { createSingleSegmentConfig } from '../src/utils/segmented-withdrawal'
+import type { SpendenConfig } from './spenden'
+
+function createTestElement(endkapital: number): SparplanElement {
+  return {
+    type: 'sparplan',
+    start: '2023-01-01',
+    einzahlung: endkapital,
+    simulation: {
+      2040: {
+        startkapital: endkapital,
+        endkapital,
+        zinsen: 0,
+        bezahlteSteuer: 0,
+        genutzterFreibetrag: 0,
+        vorabpauschale: 0,
+        vorabpauschaleAccumulated: 0,
+      },
+    },
+  }
+}
+
+const spendenConfig: SpendenConfig = {
+  enabled: true,
+  spenden: [
+    { id: '1', beschreibung: 'Hilfswerk', empfaenger: 'gemeinnuetzig', betrag: 1000, startYear: 2041, endYear: 2041 },
+    { id: '2', beschreibung: 'Partei', empfaenger: 'partei', betrag: 500, startYear: 2042, endYear: 2042 },
+  ],
+}
+
+describe('withdrawal - donations (Spenden)', () => {
+  const baseParams: CalculateWithdrawalParams = {
+    elements: [createTestElement(500000)],
+    startYear: 2041,
+    endYear: 2043,
+    strategy: '4prozent',
+    returnConfig: { mode: 'fixed', fixedRate: 0 },
+    taxRate: 0.26375,
+    teilfreistellungsquote: 0.3,
+    freibetragPerYear: { 2041: 1000, 2042: 1000, 2043: 1000 },
+    enableGrundfreibetrag: true,
+    grundfreibetragPerYear: { 2041: 11604, 2042: 11604, 2043: 11604 },
+    incomeTaxRate: 0.25,
+  }
+
+  it('should deduct gemeinnützige donations above the Pauschbetrag from the taxable income', () => {
+    const withoutSpenden = calculateWithdrawal(baseParams).result
+    const withSpenden = calculateWithdrawal({ ...baseParams, spendenConfig }).result
+
+    expect(withSpenden[2041].spenden?.sonderausgabenabzug).toBe(964)
+    expect(withSpenden[2041].einkommensteuer).toBeCloseTo((withoutSpenden[2041].einkommensteuer ?? 0) - 964 * 0.25, 6)
+    expect(withSpenden[2041].taxableIncome).toBeCloseTo((withoutSpenden[2041].taxableIncome ?? 0) - 964, 6)
+    expect(withSpenden[2041].spenden?.steuerersparnis).toBeCloseTo(241, 6)
+  })
+
+  it('should credit half of the party donations against the income tax', () => {
+    const withoutSpenden = calculateWithdrawal(baseParams).result
+    const withSpenden = calculateWithdrawal({ ...baseParams, spendenConfig }).result
+
+    expect(withSpenden[2042].spenden?.steuerermaessigungParteispenden).toBe(250)
+    expect(withSpenden[2042].einkommensteuer).toBeCloseTo((withoutSpenden[2042].einkommensteuer ?? 0) - 250, 6)
+    expect(withSpenden[2043].spenden).toBeUndefined()
+  })
+
+  it('should deduct the donations in segmented withdrawals', () => {
+    const segmentedConfig = {
+      ...createSingleSegmentConfig('4prozent', { mode: 'fixed', fixedRate: 0 }, 2041, 2043),
+      teilfreistellungsquote: 0.3,
+      freibetragPerYear: baseParams.freibetragPerYear,
+      enableGrundfreibetrag: true,
+      grundfreibetragPerYear: baseParams.grundfreibetragPerYear,
+      incomeTaxRate: 0.25,
+    }
+    const withoutSpenden = calculateSegmentedWithdrawal(baseParams.elements, segmentedConfig)
+    const withSpenden = calculateSegmentedWithdrawal(baseParams.elements, { ...segmentedConfig, spendenConfig })
+
+    expect(withoutSpenden[2041].einkommensteuer).toBeGreaterThan(0)
+    expect(withSpenden[2041].einkommensteuer).toBeCloseTo(withoutSpenden[2041].einkommensteuer! - 964 * 0.25, 6)
+    expect(withSpenden[2041].einkommensteuer).toBeCloseTo(
+      calculateWithdrawal({ ...baseParams, spendenConfig }).result[2041].einkommensteuer!,
+      6,
+    )
+  })
+
+  it('should ignore donations without the income tax calculation', () => {
+    const { result } = calculateWithdrawal({ ...baseParams, enableGrundfreibetrag: false, spendenConfig })
+
+    expect(result[2041].spenden).toBeUndefined()
+  })
+})
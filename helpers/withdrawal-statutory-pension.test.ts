@@ -62,6 +62,7 @@ describe('withdrawal-statutory-pension integration', () => {
       startYear: 2041,
       monthlyAmount: 1500, // €1500/month = €18000/year
       taxablePercentage: 80, // 80% taxable
+      taxablePercentageMode: 'manual',
     }
 
     const { result } = calculateWithdrawal({
@@ -85,9 +86,9 @@ describe('withdrawal-statutory-pension integration', () => {
 
     // Check that total income tax is calculated centrally (in einkommensteuer field)
     // Total taxable income: withdrawal (~4000) + pension taxable (14400) = ~18400
-    // Total taxable after Grundfreibetrag: 18400 - 12000 = 6400
-    // Total income tax: 6400 * 0.25 = 1600
-    expect(result[2041].einkommensteuer).toBe(1600)
+    // Total taxable after Sonderausgaben-Pauschbetrag and Grundfreibetrag: 18400 - 36 - 12000 = 6364
+    // Total income tax: 6364 * 0.25 = 1591
+    expect(result[2041].einkommensteuer).toBe(1591)
   })
 
   it('should apply annual increases to statutory pension', () => {
@@ -98,6 +99,7 @@ describe('withdrawal-statutory-pension integration', () => {
       monthlyAmount: 1500,
       annualIncreaseRate: 2.0, // 2% annual increase
       taxablePercentage: 80,
+      taxablePercentageMode: 'manual',
     }
 
     const { result } = calculateWithdrawal({
@@ -124,6 +126,7 @@ describe('withdrawal-statutory-pension integration', () => {
       startYear: 2041,
       monthlyAmount: 1500, // €18000/year gross
       taxablePercentage: 80, // €14400/year taxable
+      taxablePercentageMode: 'manual',
     }
 
     const { result } = calculateWithdrawal({
@@ -144,18 +147,18 @@ describe('withdrawal-statutory-pension integration', () => {
 
     // Check centralized income tax calculation
     // 2041: Total taxable = withdrawal (~4000) + pension taxable (14400) = ~18400
-    // After Grundfreibetrag: 18400 - 10000 = 8400, tax = 8400 * 0.25 = 2100
-    expect(result[2041].einkommensteuer).toBe(2100)
+    // After Sonderausgaben-Pauschbetrag and Grundfreibetrag: 18400 - 36 - 10000 = 8364, tax = 8364 * 0.25 = 2091
+    expect(result[2041].einkommensteuer).toBe(2091)
 
     // 2042: Total taxable = withdrawal (~4200) + pension taxable (14544) = ~18744
-    // After Grundfreibetrag: 18744 - 12000 = 6744, tax = 6744 * 0.25 = 1686
+    // After Sonderausgaben-Pauschbetrag and Grundfreibetrag: 18744 - 36 - 12000 = 6708, tax = 6708 * 0.25 = 1677
     // (Actual value is slightly different due to portfolio growth)
-    expect(result[2042].einkommensteuer).toBeCloseTo(1636, 0)
+    expect(result[2042].einkommensteuer).toBeCloseTo(1627, 0)
 
-    // 2043: Total taxable = withdrawal (~4410) + pension taxable (14690) = ~19100
-    // After Grundfreibetrag: 19100 - 15000 = 4100, tax = 4100 * 0.25 = 1025
+    // 2043: Total taxable = withdrawal (~4410) + pension taxable (14726, Rentenfreibetrag frozen at 3636) = ~19136
+    // After Grundfreibetrag: 19136 - 15000 = 4136, tax = 4136 * 0.25 = 1034
     // (Actual value is different due to portfolio growth)
-    expect(result[2043].einkommensteuer).toBeCloseTo(922.36, 1)
+    expect(result[2043].einkommensteuer).toBeCloseTo(931.45 - 36 * 0.25, 1)
   })
 
   it('should not include pension data before start year', () => {
@@ -206,6 +209,7 @@ describe('withdrawal-statutory-pension integration', () => {
       startYear: 2041,
       monthlyAmount: 1500,
       taxablePercentage: 80,
+      taxablePercentageMode: 'manual',
     }
 
     const { result } = calculateWithdrawal({
@@ -288,4 +292,38 @@ describe('withdrawal-statutory-pension integration', () => {
       resultVariable.result[2041].statutoryPension!.grossAnnualAmount,
     )
   })
+
+  it('should use the pension projected from pension points', () => {
+    const manualConfig: StatutoryPensionConfig = {
+      ...createDefaultStatutoryPensionConfig(),
+      startYear: 2041,
+      retirementAge: 66,
+      birthYear: 1975,
+    }
+    const projectedConfig: StatutoryPensionConfig = {
+      ...manualConfig,
+      pensionProjection: {
+        enabled: true,
+        currentPensionPoints: 30,
+        pointsYear: 2024,
+        annualGrossSalary: 45358,
+        salaryGrowthRate: 0,
+        averageSalaryGrowthRate: 0,
+        pensionValueGrowthRate: 0,
+        specialPayments: [],
+      },
+    }
+    // 30 + 16 points, 12 months before the Regelaltersgrenze
+    const projectedMonthlyAmount = 46 * 37.6 * 0.964
+
+    const projected = calculateWithdrawal({ ...baseParams, statutoryPensionConfig: projectedConfig }).result
+    const manual = calculateWithdrawal({
+      ...baseParams,
+      statutoryPensionConfig: { ...manualConfig, monthlyAmount: projectedMonthlyAmount },
+    }).result
+
+    expect(projected[2041].statutoryPension?.grossAnnualAmount).toBeCloseTo(projectedMonthlyAmount * 12, 6)
+    expect(projected[2042].statutoryPension).toEqual(manual[2042].statutoryPension)
+    expect(projected[2042].einkommensteuer).toBeCloseTo(manual[2042].einkommensteuer ?? 0, 6)
+  })
 })
@@ -1,8 +1,17 @@
 import { describe, test, expect } from 'vitest'
-import { calculateWithdrawal } from './withdrawal'
+import { calculateSegmentedWithdrawal, calculateWithdrawal } from './withdrawal'
+import { createPortfolioTaxState } from './portfolio-tax-state'
+import { createSingleSegmentConfig } from '../src/utils/segmented-withdrawal'
 import type { SparplanElement } from '../src/utils/sparplan-utils'
 import type { ReturnConfiguration } from '../src/utils/random-returns'
-import { getBasiszinsForYear, calculateVorabpauschale, calculateSteuerOnVorabpauschale } from './steuer'
+import {
+  getBasiszinsForYear,
+  calculateVorabpauschale,
+  calculateSteuerOnVorabpauschale,
+  calculateProgressiveTax,
+} from './steuer'
+import { getTaxBracketsForYear } from './income-tax-tariff'
+import { SONDERAUSGABEN_PAUSCHBETRAG } from './spenden'
 
 // Helper to create mock SparplanElement data
 const createMockElement = (
@@ -63,8 +72,8 @@ describe('Withdrawal Calculations with FIFO', () => {
 
     const proportionSold = entnahme / 12000
     const costBasisSold = 10000 * proportionSold
-    // Fix: Use correct FIFO calculation - only subtract cost basis, not accumulated Vorabpauschale
-    const expectedGain = entnahme - costBasisSold
+    // FIFO: subtract the cost basis and the Vorabpauschale already taxed on the sold part
+    const expectedGain = entnahme - costBasisSold - 100 * proportionSold
     const expectedTaxableGain = expectedGain * (1 - teilfreistellungsquote)
     const expectedTaxOnGains = Math.max(0, expectedTaxableGain - freibetrag) * taxRate
     const freibetragUsedOnGains = Math.min(expectedTaxableGain, freibetrag)
@@ -199,7 +208,7 @@ describe('Withdrawal Calculations with FIFO', () => {
 
     // Note: Income tax calculation now uses progressive tax when Günstigerprüfung is active
     // so we can't easily calculate the expected tax with a simple rate
-    const expectedGenutzterGrundfreibetrag = Math.min(entnahme, yearlyGrundfreibetrag)
+    const expectedGenutzterGrundfreibetrag = Math.min(entnahme - SONDERAUSGABEN_PAUSCHBETRAG, yearlyGrundfreibetrag)
 
     expect(resultYear.genutzterGrundfreibetrag).toBe(expectedGenutzterGrundfreibetrag)
     // Income tax is calculated but we can't predict the exact amount without knowing the progressive tax rates
@@ -207,6 +216,152 @@ describe('Withdrawal Calculations with FIFO', () => {
     expect(resultYear.bezahlteSteuer).toBeGreaterThanOrEqual(resultYear.einkommensteuer || 0)
   })
 
+  test('should use the Grundfreibetrag of the tariff year when none is configured', () => {
+    const withdrawalStartYear = 2026
+    const lastSimYear = withdrawalStartYear - 1
+    const mockElements = [createMockElement(2023, 500000, 600000, 1000, lastSimYear)]
+
+    const { result } = calculateWithdrawal({
+      elements: mockElements,
+      startYear: withdrawalStartYear,
+      endYear: withdrawalStartYear + 1,
+      strategy: '4prozent',
+      returnConfig,
+      taxRate,
+      teilfreistellungsquote,
+      enableGrundfreibetrag: true,
+      incomeTaxRate: 0.18,
+      incomeTaxTariffIndexation: { enabled: true, annualRate: 0.02 },
+    })
+
+    // 2026 is the last official tariff, 2027 is indexed by 2%
+    expect(result[withdrawalStartYear].genutzterGrundfreibetrag).toBe(12348)
+    expect(result[withdrawalStartYear + 1].genutzterGrundfreibetrag).toBeCloseTo(12348 * 1.02, 6)
+  })
+
+  test('should calculate the income tax with the tariff of the year unless a flat rate is given', () => {
+    const withdrawalStartYear = 2026
+    const lastSimYear = withdrawalStartYear - 1
+    const mockElements = [createMockElement(2023, 500000, 600000, 1000, lastSimYear)]
+    const baseParams = {
+      elements: mockElements,
+      startYear: withdrawalStartYear,
+      endYear: withdrawalStartYear,
+      strategy: '4prozent' as const,
+      returnConfig,
+      taxRate,
+      teilfreistellungsquote,
+      enableGrundfreibetrag: true,
+    }
+
+    const { result: tariffResult } = calculateWithdrawal(baseParams)
+    const { result: flatResult } = calculateWithdrawal({ ...baseParams, incomeTaxRate: 0.18 })
+
+    const entnahme = tariffResult[withdrawalStartYear].entnahme
+    const taxableIncome = entnahme - SONDERAUSGABEN_PAUSCHBETRAG
+    const tariffTax = calculateProgressiveTax(taxableIncome, 0, 0, getTaxBracketsForYear(withdrawalStartYear)).totalTax
+    expect(tariffResult[withdrawalStartYear].einkommensteuer).toBeCloseTo(tariffTax, 6)
+    expect(tariffResult[withdrawalStartYear].einkommensteuer).toBeGreaterThan(0)
+    // Legacy flat rate on the income above the Grundfreibetrag of the tariff year
+    expect(flatResult[withdrawalStartYear].einkommensteuer).toBeCloseTo((taxableIncome - 12348) * 0.18, 6)
+  })
+
+  test('should compare joint and separate assessment in couple planning mode', () => {
+    const withdrawalStartYear = 2026
+    const lastSimYear = withdrawalStartYear - 1
+    const mockElements = [createMockElement(2023, 500000, 600000, 1000, lastSimYear)]
+    const person1Pension = {
+      enabled: true,
+      startYear: 2020,
+      monthlyAmount: 2500,
+      annualIncreaseRate: 0,
+      taxablePercentage: 80,
+      personId: 1 as const,
+    }
+
+    const baseParams = {
+      elements: mockElements,
+      startYear: withdrawalStartYear,
+      endYear: withdrawalStartYear,
+      strategy: '4prozent' as const,
+      returnConfig,
+      taxRate,
+      teilfreistellungsquote,
+      enableGrundfreibetrag: true,
+      incomeTaxRate: 0.18,
+      statutoryPensionConfig: person1Pension,
+    }
+
+    const { result: coupleResult } = calculateWithdrawal({
+      ...baseParams,
+      planningMode: 'couple',
+      coupleStatutoryPensionConfig: {
+        enabled: true,
+        planningMode: 'couple',
+        couple: { person1: person1Pension, person2: { ...person1Pension, enabled: false, personId: 2 } },
+      },
+    })
+    const { result: individualResult } = calculateWithdrawal({ ...baseParams, planningMode: 'individual' })
+
+    const splitting = coupleResult[withdrawalStartYear].ehegattensplitting
+    expect(splitting).toBeDefined()
+    // Pension of 24,000 € taxable belongs to person 1, the withdrawal of 24,000 € less the Sonderausgaben-Pauschbetrag
+    // of 72 € is shared
+    expect(splitting!.person1Income).toBeCloseTo(35964, 0)
+    expect(splitting!.person2Income).toBeCloseTo(11964, 0)
+    expect(splitting!.splittingAdvantage).toBeGreaterThan(0)
+    expect(splitting!.splittingTax).toBeLessThan(splitting!.separateAssessmentTax)
+    expect(individualResult[withdrawalStartYear].ehegattensplitting).toBeUndefined()
+  })
+
+  test('should deduct the income tax of the splitting tariff in couple planning mode', () => {
+    const withdrawalStartYear = 2026
+    const lastSimYear = withdrawalStartYear - 1
+    const mockElements = [createMockElement(2023, 1000000, 1500000, 1000, lastSimYear)]
+    const baseParams = {
+      elements: mockElements,
+      startYear: withdrawalStartYear,
+      endYear: withdrawalStartYear,
+      strategy: '4prozent' as const,
+      returnConfig,
+      taxRate,
+      teilfreistellungsquote,
+      enableGrundfreibetrag: true,
+    }
+
+    const { result: coupleResult } = calculateWithdrawal({ ...baseParams, planningMode: 'couple' })
+    const { result: individualResult } = calculateWithdrawal({ ...baseParams, planningMode: 'individual' })
+
+    const coupleYear = coupleResult[withdrawalStartYear]
+    const individualYear = individualResult[withdrawalStartYear]
+    expect(coupleYear.entnahme).toBe(individualYear.entnahme)
+    expect(coupleYear.einkommensteuer).toBeGreaterThan(0)
+    expect(coupleYear.einkommensteuer!).toBeLessThan(individualYear.einkommensteuer!)
+    // The deducted tax is the splitting tax of the joint assessment, with the doubled Grundfreibetrag
+    expect(coupleYear.einkommensteuer).toBeCloseTo(coupleYear.ehegattensplitting!.splittingTax, 6)
+    expect(coupleYear.genutzterGrundfreibetrag).toBe(2 * 12348)
+    expect(coupleYear.bezahlteSteuer).toBeLessThan(individualYear.bezahlteSteuer)
+  })
+
+  test('should deduct the income tax of the splitting tariff in segmented withdrawals', () => {
+    const withdrawalStartYear = 2026
+    const mockElements = [createMockElement(2023, 1000000, 1500000, 1000, withdrawalStartYear - 1)]
+    const segmentedConfig = {
+      ...createSingleSegmentConfig('4prozent', returnConfig, withdrawalStartYear, withdrawalStartYear),
+      taxRate,
+      teilfreistellungsquote,
+      enableGrundfreibetrag: true,
+    }
+
+    const coupleResult = calculateSegmentedWithdrawal(mockElements, { ...segmentedConfig, planningMode: 'couple' })
+    const individualResult = calculateSegmentedWithdrawal(mockElements, { ...segmentedConfig, planningMode: 'individual' })
+
+    const coupleYear = coupleResult[withdrawalStartYear]
+    expect(coupleYear.einkommensteuer).toBeGreaterThan(0)
+    expect(coupleYear.einkommensteuer!).toBeLessThan(individualResult[withdrawalStartYear].einkommensteuer!)
+    expect(coupleYear.einkommensteuer).toBeCloseTo(coupleYear.ehegattensplitting!.splittingTax, 6)
+  })
+
   test('should return correct monthly withdrawal for "monatlich_fest" strategy', () => {
     const withdrawalStartYear = 2025
     const lastSimYear = withdrawalStartYear - 1
@@ -1477,3 +1632,102 @@ describe('Bucket Strategy Tests', () => {
     })
   })
 })
+
+describe('Withdrawal with the portfolio tax state', () => {
+  const taxRate = 0.26375
+  const teilfreistellungsquote = 0.3
+  const freibetrag = 1000
+  const returnConfig: ReturnConfiguration = { mode: 'fixed', fixedRate: 0.05 }
+  const withdrawalStartYear = 2025
+  const createElements = () => [createMockElement(2020, 10000, 20000, 0, withdrawalStartYear - 1)]
+
+  test('should offset realized gains against the loss offset accounts of the savings phase', () => {
+    const options = {
+      startYear: withdrawalStartYear,
+      endYear: withdrawalStartYear,
+      strategy: '4prozent' as const,
+      returnConfig,
+      taxRate,
+      teilfreistellungsquote,
+      freibetragPerYear: { [withdrawalStartYear]: 0 },
+    }
+    const lossAccountState = { stockLosses: 5000, otherLosses: 0, year: withdrawalStartYear - 1 }
+    const portfolioTaxState = createPortfolioTaxState(createElements(), withdrawalStartYear - 1, lossAccountState)
+
+    const withoutLosses = calculateWithdrawal({ ...options, elements: createElements() })
+    const withLosses = calculateWithdrawal({ ...options, elements: createElements(), portfolioTaxState })
+
+    // 800 withdrawn from a lot at 200% of its cost basis: 400 gain, 280 of it from stocks
+    const yearResult = withLosses.result[withdrawalStartYear]
+    expect(yearResult.lossOffsetDetails?.stockLossesUsed).toBeCloseTo(280, 2)
+    expect(yearResult.bezahlteSteuer).toBeLessThan(withoutLosses.result[withdrawalStartYear].bezahlteSteuer)
+    expect(withLosses.portfolioTaxState.lossAccountState.stockLosses).toBeCloseTo(4720, 2)
+    expect(portfolioTaxState.lossAccountState.stockLosses).toBe(5000)
+  })
+
+  test('should return the remaining lots with their cost basis', () => {
+    const { portfolioTaxState, result } = calculateWithdrawal({
+      elements: createElements(),
+      startYear: withdrawalStartYear,
+      endYear: withdrawalStartYear,
+      strategy: '4prozent',
+      returnConfig,
+      taxRate,
+      teilfreistellungsquote,
+      freibetragPerYear: { [withdrawalStartYear]: freibetrag },
+    })
+
+    expect(portfolioTaxState.year).toBe(withdrawalStartYear)
+    expect(portfolioTaxState.lots).toHaveLength(1)
+    expect(portfolioTaxState.lots[0].costBasis).toBeCloseTo(10000 * (1 - 800 / 20000), 2)
+    expect(portfolioTaxState.lots[0].currentValue).toBeCloseTo(result[withdrawalStartYear].endkapital, 2)
+  })
+
+  test('should keep the cost basis across withdrawal segments', () => {
+    const singleConfig = {
+      ...createSingleSegmentConfig('monatlich_fest', returnConfig, withdrawalStartYear, 2026, 'yearly', undefined, {
+        monthlyAmount: 100,
+      }),
+      freibetragPerYear: { [withdrawalStartYear]: 0, 2026: 0 },
+    }
+    const [segment] = singleConfig.segments
+    const splitConfig = {
+      ...singleConfig,
+      segments: [
+        { ...segment, id: 'first', endYear: withdrawalStartYear },
+        { ...segment, id: 'second', startYear: 2026 },
+      ],
+    }
+
+    const single = calculateSegmentedWithdrawal(createElements(), singleConfig)
+    const split = calculateSegmentedWithdrawal(createElements(), splitConfig)
+
+    expect(split[2026].bezahlteSteuer).toBeCloseTo(single[2026].bezahlteSteuer, 2)
+    expect(split[2026].endkapital).toBeCloseTo(single[2026].endkapital, 2)
+  })
+
+  test('should offset realized gains against losses realized outside of the portfolio', () => {
+    const options = {
+      startYear: withdrawalStartYear,
+      endYear: withdrawalStartYear,
+      strategy: '4prozent' as const,
+      returnConfig,
+      taxRate,
+      teilfreistellungsquote,
+      freibetragPerYear: { [withdrawalStartYear]: 0 },
+    }
+
+    const withoutLosses = calculateWithdrawal({ ...options, elements: createElements() })
+    const withLosses = calculateWithdrawal({
+      ...options,
+      elements: createElements(),
+      realizedLossesByYear: { [withdrawalStartYear]: { stockLosses: 0, otherLosses: 1000, year: withdrawalStartYear } },
+    })
+
+    // The 400 gain is fully offset by the sonstiger Verlusttopf, the rest is carried forward
+    const yearResult = withLosses.result[withdrawalStartYear]
+    expect(yearResult.lossOffsetDetails?.otherLossesUsed).toBeCloseTo(400, 2)
+    expect(yearResult.bezahlteSteuer).toBeLessThan(withoutLosses.result[withdrawalStartYear].bezahlteSteuer)
+    expect(withLosses.portfolioTaxState.lossAccountState.otherLosses).toBeCloseTo(600, 2)
+  })
+})
@@ -4,14 +4,24 @@ import {
   calculateVorabpauschale,
   calculateSteuerOnVorabpauschale,
   performGuenstigerPruefung,
+  calculateProgressiveTax,
+  type TaxBracket,
 } from './steuer'
+import {
+  getIncomeTaxTariffForYear,
+  getTaxBracketsForYear,
+  type IncomeTaxTariffIndexation,
+} from './income-tax-tariff'
 import { generateRandomReturns, type ReturnConfiguration } from '../src/utils/random-returns'
+import { generateStochasticReturns } from '../src/utils/stochastic-returns'
 import type { SegmentedWithdrawalConfig, WithdrawalSegment } from '../src/utils/segmented-withdrawal'
 import type { WithdrawalFrequency } from '../src/utils/config-storage'
 import type { BasiszinsConfiguration } from '../src/services/bundesbank-api'
 import { calculateRMDWithdrawal } from './rmd-tables'
 import {
   calculateStatutoryPension,
+  calculateStatutoryPensionForYear,
+  type CoupleStatutoryPensionConfig,
   type StatutoryPensionConfig,
   type StatutoryPensionResult,
 } from './statutory-pension'
@@ -27,15 +37,96 @@ import {
   type HealthCareInsuranceConfig,
   type CoupleHealthInsuranceYearResult,
   type HealthCareInsuranceYearResult,
+  type StatutoryInsuranceStatusComparison,
+  type PrivateStatutoryComparison,
 } from './health-care-insurance'
+import {
+  getAssessableOtherIncome,
+  type HealthInsuranceAssessmentIncome,
+  type StatutoryInsuranceStatus,
+} from './health-insurance-status'
 import { generateMultiAssetReturns } from './multi-asset-calculations'
 import type { MultiAssetPortfolioConfig } from './multi-asset-portfolio'
+import {
+  createMultiAssetWithdrawalState,
+  processAssetClassWithdrawal,
+  type AssetClassWithdrawalYearResult,
+  type MultiAssetWithdrawalState,
+} from './multi-asset-withdrawal'
 import {
   calculateIncomeTaxWithProgressionsvorbehalt,
   getProgressionRelevantIncomeForYear,
   type ProgressionsvorbehaltConfig,
 } from './progressionsvorbehalt'
 import { FREIBETRAG_CONSTANTS } from '../src/utils/tax-constants'
+import {
+  attributeCoupleIncomes,
+  calculateEhegattensplitting,
+  createSplittingTaxBrackets,
+  type EhegattensplittingResult,
+} from './ehegattensplitting'
+import {
+  applyLossAccountsToRealizedGain,
+  calculateLotSaleGain,
+  createPortfolioTaxState,
+  getElementCostBasis,
+  type PortfolioTaxState,
+} from './portfolio-tax-state'
+import type { LossAccountState, LossOffsetResult, RealizedLossesConfig } from './loss-offset-accounts'
+import {
+  calculateBedarfsorientierteEntnahme,
+  getAusgabenbedarfForYear,
+  type BedarfsorientierteEntnahmeConfig,
+  type BedarfsorientierteEntnahmeResult,
+} from './bedarfsorientierte-entnahme'
+import type { PartTimeRetirementWorkConfig } from './part-time-retirement-work'
+import {
+  addCryptoSale,
+  calculateCryptoSaleYearResult,
+  calculatePrivateSaleTax,
+  createEmptyCryptoSaleGains,
+  isPrivateSaleAsset,
+  orderLotsForSale,
+  type CryptoSaleGains,
+  type CryptoSaleYearResult,
+  type PrivateSaleSurcharges,
+} from './crypto-tax'
+import { getTeilfreistellungsquoteForAssetClass, isInvestmentFund } from './asset-class'
+import {
+  calculateSpendenYearResult,
+  getSonderausgabenPauschbetrag,
+  getSpendenForYear,
+  type SpendenConfig,
+  type SpendenYearResult,
+} from './spenden'
+import type { EMRenteConfig } from './em-rente'
+import {
+  calculatePropertyTimeline,
+  getPropertyDepotFlowsByYear,
+  type PropertyDepotFlow,
+  type PropertyOwnershipConfig,
+} from './immobilien-eigentum'
+import {
+  calculateSurvivorInheritance,
+  calculateSurvivorPensionData,
+  determineSurvivorPhase,
+  getCoupleBirthYears,
+  getCoupleWithdrawalEndYear,
+  getDepotOwnerShare,
+  isJointAssessmentYear,
+  type CoupleBirthYears,
+  type CoupleWithdrawalConfig,
+  type CoupleWithdrawalYearInfo,
+  type SurvivorInheritanceResult,
+  type SurvivorPhase,
+  type WitwenrenteYearResult,
+} from './couple-withdrawal'
+import {
+  calculateWorkIncome,
+  calculateWorkIncomeWithdrawalReduction,
+  type WorkIncomeResult,
+  type WorkIncomeYearResult,
+} from './retirement-work-income'
 
 export type WithdrawalStrategy =
   | '4prozent'
@@ -48,6 +139,7 @@ export type WithdrawalStrategy =
   | 'kapitalerhalt'
   | 'steueroptimiert'
   | 'kapitalverzehr'
+  | 'bedarfsorientiert'
 
 /**
  * Generate fixed rate growth for all years.
@@ -123,6 +215,7 @@ function generateMultiAssetGrowthRates(
  * - random: Monte Carlo simulation with volatility
  * - variable: Year-specific configured returns
  * - multiasset: Multi-asset portfolio with asset allocation and rebalancing
+ * - bootstrap, student-t, regime: Fat-tailed and regime-based stochastic return models
  */
 const GROWTH_RATE_GENERATORS: Record<
   string,
@@ -134,6 +227,9 @@ const GROWTH_RATE_GENERATORS: Record<
     config.variableConfig ? generateVariableGrowthRates(allYears, config.variableConfig) : {},
   multiasset: (allYears, config) =>
     config.multiAssetConfig ? generateMultiAssetGrowthRates(allYears, config.multiAssetConfig) : {},
+  bootstrap: (allYears, config) => generateStochasticReturns(allYears, config) ?? {},
+  'student-t': (allYears, config) => generateStochasticReturns(allYears, config) ?? {},
+  regime: (allYears, config) => generateStochasticReturns(allYears, config) ?? {},
 }
 
 /**
@@ -221,15 +317,25 @@ function createFreibetragAccessor(freibetragPerYear?: { [year: number]: number }
   }
 }
 
+/**
+ * Grundfreibetrag of a year, for couples in joint assessment the doubled amount of the splitting tariff
+ */
+type GrundfreibetragAccessor = (year: number, planningMode?: 'individual' | 'couple') => number
+
 /**
  * Helper function: Create Grundfreibetrag accessor function
  */
-function createGrundfreibetragAccessor(grundfreibetragPerYear?: { [year: number]: number }): (year: number) => number {
-  return (year: number): number => {
+function createGrundfreibetragAccessor(
+  grundfreibetragPerYear?: { [year: number]: number },
+  incomeTaxTariffIndexation?: IncomeTaxTariffIndexation,
+): GrundfreibetragAccessor {
+  return (year: number, planningMode?: 'individual' | 'couple'): number => {
     if (grundfreibetragPerYear && grundfreibetragPerYear[year] !== undefined) {
       return grundfreibetragPerYear[year]
     }
-    return grundfreibetrag[2023] || 10908
+    // Fall back to the Grundfreibetrag of the income tax tariff of that year, doubled by the splitting tariff
+    const tariffGrundfreibetrag = getIncomeTaxTariffForYear(year, incomeTaxTariffIndexation).grundfreibetrag
+    return planningMode === 'couple' ? tariffGrundfreibetrag * 2 : tariffGrundfreibetrag
   }
 }
 
@@ -251,17 +357,17 @@ function initializeCashCushion(strategy: WithdrawalStrategy, bucketConfig?: Buck
 }
 
 /**
- * Helper function: Initialize mutable layers from elements
+ * Helper function: Initialize mutable layers from elements and the lots of the portfolio tax state
  */
-function initializeMutableLayers(elements: SparplanElement[], startYear: number): MutableLayer[] {
-  const mutableLayers: MutableLayer[] = JSON.parse(JSON.stringify(elements)).map((el: SparplanElement) => {
-    const lastSimData = el.simulation?.[startYear - 1]
-    const initialCost = el.type === 'einmalzahlung' ? el.einzahlung + (el.gewinn || 0) : el.einzahlung
+function initializeMutableLayers(elements: SparplanElement[], portfolioTaxState: PortfolioTaxState): MutableLayer[] {
+  const lots = new Map(portfolioTaxState.lots.map(lot => [lot.id, lot]))
+  const mutableLayers: MutableLayer[] = JSON.parse(JSON.stringify(elements)).map((el: SparplanElement, index: number) => {
+    const lot = lots.get(String(index))
     return {
       ...el,
-      currentValue: lastSimData?.endkapital || 0,
-      costBasis: initialCost,
-      accumulatedVorabpauschale: lastSimData?.vorabpauschaleAccumulated || 0,
+      currentValue: lot?.currentValue || 0,
+      costBasis: lot?.costBasis ?? getElementCostBasis(el),
+      accumulatedVorabpauschale: lot?.vorabpauschaleAccumulated || 0,
     }
   })
   mutableLayers.sort((a: MutableLayer, b: MutableLayer) => new Date(a.start).getTime() - new Date(b.start).getTime())
@@ -321,6 +427,29 @@ function updateFinalLayers(mutableLayers: MutableLayer[], endYear: number): Muta
   })
 }
 
+/**
+ * Helper function: Tax state handed over to the next withdrawal segment; lot ids are the positions in finalLayers
+ */
+function createFinalPortfolioTaxState(
+  mutableLayers: MutableLayer[],
+  lossAccountState: LossAccountState,
+  stockGainsRatio: number,
+  endYear: number,
+): PortfolioTaxState {
+  return {
+    year: endYear,
+    lots: mutableLayers.map((layer, index) => ({
+      id: String(index),
+      purchaseDate: new Date(layer.start),
+      costBasis: layer.costBasis,
+      currentValue: layer.currentValue,
+      vorabpauschaleAccumulated: layer.accumulatedVorabpauschale,
+    })),
+    lossAccountState: { ...lossAccountState, year: endYear },
+    stockGainsRatio,
+  }
+}
+
 /**
  * Helper function: Calculate bucket strategy withdrawal amount
  */
@@ -551,6 +680,8 @@ function getWithdrawalCalculator(strategy: WithdrawalStrategy, params: BaseWithd
     },
     steueroptimiert: () =>
       calculateSteueroptimierteWithdrawal(params.initialStartingCapital, params.steueroptimierteEntnahmeConfig),
+    // Derived per year from the spending need, the net income and the estimated taxes
+    bedarfsorientiert: () => 0,
   }
 
   return (
@@ -769,6 +900,82 @@ function calculateMonthlyWithdrawal(
   return { effectiveWithdrawal, monthlyAmount }
 }
 
+/**
+ * Helper function: Sale date of the withdrawals of a year (withdrawals are taken at the start of the year)
+ */
+function getWithdrawalSaleDate(year: number): Date {
+  return new Date(year, 0, 1)
+}
+
+/**
+ * Teilfreistellung of a layer: from its fund type, otherwise the quote of the tax configuration
+ */
+function getLayerTeilfreistellungsquote(layer: MutableLayer, teilfreistellungsquote: number): number {
+  return layer.fundType ? getTeilfreistellungsquoteForAssetClass(layer.fundType) : teilfreistellungsquote
+}
+
+/**
+ * Realized gains and losses of the lots sold in a year and the part of them exempt by the Teilfreistellung of
+ * each lot
+ */
+type FundSaleGains = {
+  teilfreistellungsquote: number // Quote of the lots without fund type
+  gain: number
+  exemptGain: number
+}
+
+function createFundSaleGains(teilfreistellungsquote: number): FundSaleGains {
+  return { teilfreistellungsquote, gain: 0, exemptGain: 0 }
+}
+
+/**
+ * Realized gain of the year with the Teilfreistellung that applies to it. The exempt parts of gains and losses
+ * are netted per lot; when a loss of one fund type and a gain of another do not combine into a quote between
+ * 0 and 1, the gain after Teilfreistellung is returned without further exemption.
+ */
+function getFundSaleRealizedGain(fundSales: FundSaleGains): { realizedGain: number; teilfreistellungsquote: number } {
+  const { gain, exemptGain } = fundSales
+  if (exemptGain === 0) {
+    return { realizedGain: gain, teilfreistellungsquote: gain === 0 ? fundSales.teilfreistellungsquote : 0 }
+  }
+
+  const teilfreistellungsquote = exemptGain / gain
+  if (gain !== 0 && teilfreistellungsquote >= 0 && teilfreistellungsquote <= 1) {
+    return { realizedGain: gain, teilfreistellungsquote }
+  }
+  return { realizedGain: gain - exemptGain, teilfreistellungsquote: 0 }
+}
+
+/**
+ * Helper function: Realized capital gain of selling part of a layer. Crypto gains are private sales
+ * (§ 23 EStG): they are collected in cryptoSales and do not count towards the capital gains.
+ */
+function getLayerSaleGain(
+  layer: MutableLayer,
+  amountSold: number,
+  saleDate: Date,
+  cryptoSales: CryptoSaleGains,
+  fundSales: FundSaleGains,
+): number {
+  // FIFO: the gain is reduced by the cost basis and the Vorabpauschale already taxed on the sold part
+  const gain = calculateLotSaleGain(
+    {
+      costBasis: layer.costBasis,
+      currentValue: layer.currentValue,
+      vorabpauschaleAccumulated: layer.accumulatedVorabpauschale,
+    },
+    amountSold,
+  )
+  if (!isPrivateSaleAsset(layer.fundType)) {
+    fundSales.gain += gain
+    fundSales.exemptGain += gain * getLayerTeilfreistellungsquote(layer, fundSales.teilfreistellungsquote)
+    return gain
+  }
+
+  addCryptoSale(cryptoSales, layer.start, saleDate, amountSold, gain)
+  return 0
+}
+
 /**
  * Helper function: Process withdrawal from portfolio layers
  */
@@ -777,16 +984,34 @@ function processLayerWithdrawal(
   effectiveWithdrawal: number,
   strategy: WithdrawalStrategy,
   bucketUsed: 'portfolio' | 'cash' | undefined,
+  year: number,
+  cryptoSales: CryptoSaleGains,
+  fundSales: FundSaleGains,
 ): number {
-  let amountToWithdraw = effectiveWithdrawal
-  let totalRealizedGain = 0
-
   // For bucket strategy, only process portfolio withdrawal if using portfolio bucket
   if (strategy === 'bucket_strategie' && bucketUsed === 'cash') {
     return 0
   }
 
-  for (const layer of mutableLayers) {
+  return sellFromLayers(mutableLayers, effectiveWithdrawal, year, cryptoSales, fundSales)
+}
+
+/**
+ * Helper function: Sell an amount from the portfolio layers and return the realized capital gain. Crypto lots
+ * within the holding period are sold last.
+ */
+function sellFromLayers(
+  mutableLayers: MutableLayer[],
+  amount: number,
+  year: number,
+  cryptoSales: CryptoSaleGains,
+  fundSales: FundSaleGains,
+): number {
+  let amountToWithdraw = amount
+  let totalRealizedGain = 0
+
+  const saleDate = getWithdrawalSaleDate(year)
+  for (const layer of orderLotsForSale(mutableLayers, saleDate)) {
     if (amountToWithdraw <= 0 || layer.currentValue <= 0) continue
 
     const amountToSellFromLayer = Math.min(amountToWithdraw, layer.currentValue)
@@ -794,9 +1019,7 @@ function processLayerWithdrawal(
     const costBasisOfSoldPart = layer.costBasis * proportionSold
     const accumulatedVorabpauschaleOfSoldPart = layer.accumulatedVorabpauschale * proportionSold
 
-    // Calculate gain using FIFO principle - only subtract cost basis
-    const gain = amountToSellFromLayer - costBasisOfSoldPart
-    totalRealizedGain += gain
+    totalRealizedGain += getLayerSaleGain(layer, amountToSellFromLayer, saleDate, cryptoSales, fundSales)
 
     // Update layer values
     layer.currentValue -= amountToSellFromLayer
@@ -958,6 +1181,21 @@ function calculateRMDWithdrawalAmount(
   return baseWithdrawalAmount
 }
 
+/**
+ * Strategies whose yearly amount already contains all adjustments (no inflation on top)
+ */
+function calculatesOwnWithdrawalAmount(
+  strategy: WithdrawalStrategy,
+  rmdConfig: RMDConfig | undefined,
+  kapitalverzehrConfig: KapitalverzehrConfig | undefined,
+): boolean {
+  return (
+    (strategy === 'rmd' && !!rmdConfig) ||
+    (strategy === 'kapitalverzehr' && !!kapitalverzehrConfig) ||
+    strategy === 'bedarfsorientiert'
+  )
+}
+
 function applyWithdrawalAdjustments(
   strategy: WithdrawalStrategy,
   baseAmount: number,
@@ -983,9 +1221,9 @@ function applyWithdrawalAdjustments(
     inflationConfig,
   )
 
-  // RMD and Kapitalverzehr strategies calculate their own withdrawal amounts
-  let withdrawal = (strategy === 'rmd' && rmdConfig) || (strategy === 'kapitalverzehr' && kapitalverzehrConfig) 
-    ? rmdAmount 
+  // RMD, Kapitalverzehr and Bedarfsorientiert strategies calculate their own withdrawal amounts
+  let withdrawal = calculatesOwnWithdrawalAmount(strategy, rmdConfig, kapitalverzehrConfig)
+    ? rmdAmount
     : withdrawalAfterInflation
 
   const { adjustment: dynamischeAnpassung, previousReturn: vorjahresRendite } = calculateDynamicAdjustment(
@@ -1211,6 +1449,10 @@ function buildHealthCareInsuranceField(
     isRetirementPhase: healthCareInsuranceData.isRetirementPhase,
     effectiveHealthInsuranceRate: healthCareInsuranceData.effectiveHealthInsuranceRate || 0,
     effectiveCareInsuranceRate: healthCareInsuranceData.effectiveCareInsuranceRate || 0,
+    statutoryInsuranceStatus: healthCareInsuranceData.statutoryInsuranceStatus,
+    assessmentIncome: healthCareInsuranceData.assessmentIncome,
+    statusComparison: healthCareInsuranceData.statusComparison,
+    privateStatutoryComparison: healthCareInsuranceData.privateStatutoryComparison,
     coupleDetails: coupleHealthCareInsuranceData,
   }
 }
@@ -1276,12 +1518,21 @@ function buildIncomeSourceFields(params: {
   }
 }
 
+/**
+ * Loss offset accounts of the portfolio, updated in place year by year, and the losses
+ * realized outside of the portfolio per year
+ */
+type PortfolioLossAccounts = Pick<PortfolioTaxState, 'lossAccountState' | 'stockGainsRatio'> & {
+  realizedLossesByYear?: Record<number, RealizedLossesConfig>
+}
+
 /**
  * Process all years of withdrawal using the yearly processor
  */
 type WithdrawalYearParams = {
   startYear: number
   mutableLayers: MutableLayer[]
+  lossAccounts: PortfolioLossAccounts
   yearlyGrowthRates: Record<number, number>
   baseWithdrawalAmount: number
   strategy: WithdrawalStrategy
@@ -1293,6 +1544,7 @@ type WithdrawalYearParams = {
   rmdConfig?: RMDConfig
   kapitalverzehrConfig?: KapitalverzehrConfig
   steueroptimierteEntnahmeConfig?: SteueroptimierteEntnahmeConfig
+  bedarfsorientierteConfig?: BedarfsorientierteEntnahmeConfig
   basiszinsConfiguration?: BasiszinsConfiguration
   healthCareInsuranceConfig?: HealthCareInsuranceConfig
   taxRate: number
@@ -1306,10 +1558,124 @@ type WithdrawalYearParams = {
   freibetragPerYear?: { [year: number]: number }
   statutoryPensionData: StatutoryPensionResult
   otherIncomeData: OtherIncomeResult
+  workIncomeData: WorkIncomeResult
   birthYear?: number
   getFreibetragForYear: (year: number) => number
-  getGrundfreibetragForYear: (year: number) => number
+  getGrundfreibetragForYear: GrundfreibetragAccessor
   progressionsvorbehaltConfig?: ProgressionsvorbehaltConfig
+  incomeTaxTariffIndexation?: IncomeTaxTariffIndexation
+  planningMode?: 'individual' | 'couple'
+  coupleStatutoryPensionConfig?: CoupleStatutoryPensionConfig
+  spendenConfig?: SpendenConfig
+  multiAssetState?: MultiAssetWithdrawalState
+  coupleSurvivorState?: CoupleSurvivorState
+  propertyFlowsByYear?: Record<number, PropertyDepotFlow>
+}
+
+/**
+ * Survivor phase of a couple withdrawal plan with the Witwenrente of each survivor year
+ */
+type CoupleSurvivorState = {
+  config: CoupleWithdrawalConfig
+  birthYears: CoupleBirthYears
+  phase: SurvivorPhase
+  witwenrente: Record<number, WitwenrenteYearResult>
+  pensionsSplitEqually: boolean
+}
+
+/**
+ * Planning mode of the income tax assessment: after the Gnadensplitting year the survivor is assessed alone
+ */
+function getYearPlanningMode(params: WithdrawalYearParams, year: number): 'individual' | 'couple' | undefined {
+  const phase = params.coupleSurvivorState?.phase ?? null
+  return isJointAssessmentYear(phase, year) ? params.planningMode : 'individual'
+}
+
+/**
+ * Pay the inheritance tax of the survivor from the inherited depots. Every lot is reduced by the tax ratio times
+ * the share the deceased owned, the cost basis is taken over by the survivor.
+ */
+function applySurvivorInheritance(
+  mutableLayers: MutableLayer[],
+  config: CoupleWithdrawalConfig,
+  phase: SurvivorPhase,
+): SurvivorInheritanceResult {
+  const inheritance = calculateSurvivorInheritance(config, phase.deceased, mutableLayers)
+  if (inheritance.tax <= 0) {
+    return inheritance
+  }
+
+  const taxRatio = inheritance.tax / inheritance.grossAmount
+  for (const layer of mutableLayers) {
+    const remainingShare = 1 - taxRatio * getDepotOwnerShare(config, layer.depotId, phase.deceased)
+    layer.currentValue *= remainingShare
+    layer.costBasis *= remainingShare
+    layer.accumulatedVorabpauschale *= remainingShare
+  }
+  return inheritance
+}
+
+/**
+ * Add the couple details to the year result. At the end of the year of death the survivor inherits the depots
+ * of the deceased.
+ */
+function addCoupleWithdrawalYearInfo(
+  yearResult: WithdrawalResultElement,
+  params: WithdrawalYearParams,
+  year: number,
+): void {
+  const state = params.coupleSurvivorState
+  if (!state) {
+    return
+  }
+
+  const inheritance =
+    year === state.phase.deathYear
+      ? applySurvivorInheritance(params.mutableLayers, state.config, state.phase)
+      : undefined
+  if (inheritance) {
+    yearResult.endkapital -= inheritance.tax
+  }
+
+  const coupleWithdrawal: CoupleWithdrawalYearInfo = {
+    phase: year > state.phase.deathYear ? 'survivor' : 'couple',
+    jointAssessment: isJointAssessmentYear(state.phase, year),
+    witwenrente: state.witwenrente[year],
+    inheritance,
+    pensionsSplitEqually: state.pensionsSplitEqually || undefined,
+  }
+  yearResult.coupleWithdrawal = coupleWithdrawal
+}
+
+/**
+ * Mortgage payments of the year and a residual debt after the sale of the property, sold from the depot
+ */
+function getPropertyPayment(flow: PropertyDepotFlow | undefined): number {
+  return flow ? flow.mortgagePayment + Math.max(0, -flow.saleProceeds) : 0
+}
+
+/**
+ * Invest the proceeds of a property sale at the beginning of the year as a new lot
+ */
+function investPropertySaleProceeds(
+  mutableLayers: MutableLayer[],
+  flow: PropertyDepotFlow | undefined,
+  year: number,
+): void {
+  if (!flow || flow.saleProceeds <= 0) {
+    return
+  }
+
+  mutableLayers.push({
+    start: `${year}-01-01`,
+    type: 'einmalzahlung',
+    gewinn: 0,
+    einzahlung: flow.saleProceeds,
+    simulation: {},
+    currentValue: flow.saleProceeds,
+    costBasis: flow.saleProceeds,
+    accumulatedVorabpauschale: 0,
+  })
 }
 
 function processAllWithdrawalYears(
@@ -1320,18 +1686,29 @@ function processAllWithdrawalYears(
 ): WithdrawalResult {
   const result: WithdrawalResult = {}
   let cashCushion = initialCashCushion
+  // Voluntarily insured retirees pay health insurance on the capital income of the last tax assessment
+  let previousYearCapitalIncome = 0
 
   for (let year = startYear; year <= endYear; year++) {
-    const { yearResult, updatedCashCushion, shouldContinue } = processYearlyWithdrawal({
+    const propertyFlow = params.propertyFlowsByYear?.[year]
+    investPropertySaleProceeds(params.mutableLayers, propertyFlow, year)
+    const { yearResult, updatedCashCushion, capitalIncome, shouldContinue } = processYearlyWithdrawal({
       year,
       cashCushion,
+      previousYearCapitalIncome,
       ...params,
+      planningMode: getYearPlanningMode(params, year),
     })
 
     if (!shouldContinue) break
 
     cashCushion = updatedCashCushion
+    previousYearCapitalIncome = capitalIncome
     if (yearResult) {
+      addCoupleWithdrawalYearInfo(yearResult, params, year)
+      if (propertyFlow) {
+        yearResult.propertyFlow = propertyFlow
+      }
       result[year] = yearResult
     }
   }
@@ -1358,13 +1735,18 @@ function calculateInitialCapitalAndValidate(
  */
 type YearlyTaxesParams = {
   mutableLayers: MutableLayer[]
+  lossAccounts: PortfolioLossAccounts
   returnRate: number
   year: number
   basiszinsConfiguration: BasiszinsConfiguration | undefined
   taxRate: number
   teilfreistellungsquote: number
+  // Teilfreistellung of the realized gains when it differs from the holdings (asset classes sold)
+  realizedGainsTeilfreistellungsquote?: number
   freibetragPerYear: Record<number, number> | undefined
   effectiveWithdrawal: number
+  // Mortgage payments and residual debt of an owned property, sold from the portfolio after the withdrawal
+  propertyPayment: number
   strategy: WithdrawalStrategy
   bucketUsed: 'portfolio' | 'cash' | undefined
   guenstigerPruefungAktiv: boolean
@@ -1374,12 +1756,17 @@ type YearlyTaxesParams = {
   steuerReduzierenEndkapital: boolean
   enableGrundfreibetrag: boolean | undefined
   entnahme: number
-  getGrundfreibetragForYear: (year: number) => number
+  getGrundfreibetragForYear: GrundfreibetragAccessor
   statutoryPensionData: StatutoryPensionResult
   otherIncomeData: OtherIncomeResult
+  workIncomeData: WorkIncomeResult
   healthCareInsuranceData: HealthCareInsuranceYearResult | undefined
   healthCareInsuranceConfig: HealthCareInsuranceConfig | undefined
   progressionsvorbehaltConfig?: ProgressionsvorbehaltConfig
+  incomeTaxTariffIndexation?: IncomeTaxTariffIndexation
+  planningMode?: 'individual' | 'couple'
+  coupleStatutoryPensionConfig?: CoupleStatutoryPensionConfig
+  spendenConfig?: SpendenConfig
 }
 
 /**
@@ -1419,10 +1806,16 @@ type YearlyTaxesResult = {
   einkommensteuer: number
   genutzterGrundfreibetrag: number
   taxableIncome: number
+  ehegattensplitting: EhegattensplittingResult | undefined
   guenstigerPruefungResultRealizedGains: GuenstigerPruefungResultType | null
   totalVorabpauschale: number
   vorabpauschaleDetails: VorabpauschaleDetailsType | undefined
   capitalAtStartOfYear: number
+  lossOffsetDetails: LossOffsetResult | undefined
+  cryptoSale: CryptoSaleYearResult | undefined
+  spenden: SpendenYearResult | undefined
+  // Capital income of the year after Teilfreistellung, assessed for voluntarily insured retirees
+  healthInsuranceCapitalIncome: number
 }
 
 /**
@@ -1443,15 +1836,16 @@ function getYearVorabpauschaleData(params: YearlyTaxesParams) {
 /**
  * Calculate realized gains tax for the year
  */
-function getYearRealizedGainsTax(params: YearlyTaxesParams, totalRealizedGain: number, yearlyFreibetrag: number) {
+function getYearRealizedGainsTax(params: YearlyTaxesParams, realizedGains: YearRealizedGains, yearlyFreibetrag: number) {
   return calculateRealizedGainsTax(
-    totalRealizedGain,
+    realizedGains.taxableGain,
     yearlyFreibetrag,
-    params.teilfreistellungsquote,
+    realizedGains.realizedGainsTeilfreistellungsquote,
     params.taxRate,
     params.guenstigerPruefungAktiv,
     params.kirchensteuerAktiv,
     params.kirchensteuersatz,
+    getYearTaxBrackets(params.year, params.incomeTaxTariffIndexation, params.planningMode),
   )
 }
 
@@ -1466,36 +1860,117 @@ function getYearIncomeTax(params: YearlyTaxesParams) {
     getGrundfreibetragForYear: params.getGrundfreibetragForYear,
     statutoryPensionData: params.statutoryPensionData,
     otherIncomeData: params.otherIncomeData,
+    workIncomeData: params.workIncomeData,
     healthCareInsuranceData: params.healthCareInsuranceData,
     healthCareInsuranceConfig: params.healthCareInsuranceConfig,
     incomeTaxRate: params.incomeTaxRate,
     kirchensteuerAktiv: params.kirchensteuerAktiv,
     kirchensteuersatz: params.kirchensteuersatz,
     progressionsvorbehaltConfig: params.progressionsvorbehaltConfig,
+    incomeTaxTariffIndexation: params.incomeTaxTariffIndexation,
+    planningMode: params.planningMode,
+    coupleStatutoryPensionConfig: params.coupleStatutoryPensionConfig,
+    spendenConfig: params.spendenConfig,
   })
 }
 
+/**
+ * Kirchensteuer and planning mode of the year for the surcharges on the income tax of private sales
+ */
+function getPrivateSaleSurcharges(
+  params: Pick<YearlyTaxesParams, 'kirchensteuerAktiv' | 'kirchensteuersatz' | 'planningMode'>,
+): PrivateSaleSurcharges {
+  return {
+    kirchensteuerAktiv: params.kirchensteuerAktiv,
+    kirchensteuersatz: params.kirchensteuersatz,
+    planningMode: params.planningMode,
+  }
+}
+
+/**
+ * Income tax on the crypto sales of the year (private Veräußerungsgeschäfte), on top of the other taxable income
+ */
+function getYearCryptoSale(
+  params: YearlyTaxesParams,
+  cryptoSales: CryptoSaleGains,
+  incomeTax: { taxableIncome: number; genutzterGrundfreibetrag: number },
+): CryptoSaleYearResult | undefined {
+  return calculateCryptoSaleYearResult(
+    cryptoSales,
+    incomeTax.taxableIncome + incomeTax.genutzterGrundfreibetrag,
+    params.year,
+    getYearTaxBrackets(params.year, params.incomeTaxTariffIndexation, params.planningMode),
+    getPrivateSaleSurcharges(params),
+  )
+}
+
+/**
+ * Realized gains of the year after loss offset with the Teilfreistellung that applies to them
+ */
+type YearRealizedGains = ReturnType<typeof sellLayersAndOffsetLosses>
+
+/**
+ * Sell the withdrawal and the property payments from the layers and offset the realized capital gains against
+ * the loss offset accounts. The Teilfreistellung of the gains follows the fund types of the lots sold, unless
+ * the sold asset classes set it.
+ */
+function sellLayersAndOffsetLosses(params: YearlyTaxesParams, cryptoSales: CryptoSaleGains) {
+  const { mutableLayers, effectiveWithdrawal, strategy, bucketUsed, year } = params
+  const fundSales = createFundSaleGains(params.teilfreistellungsquote)
+  const soldGain =
+    processLayerWithdrawal(mutableLayers, effectiveWithdrawal, strategy, bucketUsed, year, cryptoSales, fundSales) +
+    sellFromLayers(mutableLayers, params.propertyPayment, year, cryptoSales, fundSales)
+  const { realizedGain, teilfreistellungsquote: realizedGainsTeilfreistellungsquote } =
+    params.realizedGainsTeilfreistellungsquote === undefined
+      ? getFundSaleRealizedGain(fundSales)
+      : { realizedGain: soldGain, teilfreistellungsquote: params.realizedGainsTeilfreistellungsquote }
+  return {
+    ...applyLossAccountsToRealizedGain(
+      params.lossAccounts,
+      realizedGain,
+      params.taxRate * (1 - realizedGainsTeilfreistellungsquote),
+      year,
+      params.lossAccounts.realizedLossesByYear?.[year],
+    ),
+    realizedGainsTeilfreistellungsquote,
+  }
+}
+
+/**
+ * Capital income of the year as in the income tax assessment: realized gains after loss offset and
+ * Vorabpauschale after Teilfreistellung plus the taxable gain of private crypto sales
+ */
+function getHealthInsuranceCapitalIncome(
+  realizedGains: YearRealizedGains,
+  taxableVorabpauschale: number,
+  cryptoSale: CryptoSaleYearResult | undefined,
+): number {
+  return (
+    realizedGains.taxableGain * (1 - realizedGains.realizedGainsTeilfreistellungsquote) +
+    taxableVorabpauschale +
+    (cryptoSale?.privateSaleTax.steuerpflichtigerGewinn ?? 0)
+  )
+}
+
 /**
  * Calculate all tax-related values for the year
  */
 function calculateYearlyTaxes(params: YearlyTaxesParams): YearlyTaxesResult {
   const capitalAtStartOfYear = params.mutableLayers.reduce((sum: number, l: MutableLayer) => sum + l.currentValue, 0)
 
-  const { totalPotentialVorabTax, vorabCalculations, yearlyFreibetrag, basiszins } = getYearVorabpauschaleData(params)
+  const { totalPotentialVorabTax, vorabCalculations, yearlyFreibetrag, basiszins, ...vorabpauschale } =
+    getYearVorabpauschaleData(params)
+  const { totalVorabpauschale, taxableVorabpauschale } = vorabpauschale
 
-  const totalRealizedGainThisYear = processLayerWithdrawal(
-    params.mutableLayers,
-    params.effectiveWithdrawal,
-    params.strategy,
-    params.bucketUsed,
-  )
+  const cryptoSales = createEmptyCryptoSaleGains()
+  const realizedGains = sellLayersAndOffsetLosses(params, cryptoSales)
 
   const {
     taxOnRealizedGains,
     freibetragUsedOnGains,
     remainingFreibetrag,
     guenstigerPruefungResult: guenstigerPruefungResultRealizedGains,
-  } = getYearRealizedGainsTax(params, totalRealizedGainThisYear, yearlyFreibetrag)
+  } = getYearRealizedGainsTax(params, realizedGains, yearlyFreibetrag)
 
   const { taxOnVorabpauschale, freibetragUsedOnVorab } = applyPortfolioGrowthAndVorabTax(
     vorabCalculations,
@@ -1505,9 +1980,8 @@ function calculateYearlyTaxes(params: YearlyTaxesParams): YearlyTaxesResult {
     params.steuerReduzierenEndkapital,
   )
 
-  const { einkommensteuer, genutzterGrundfreibetrag, taxableIncome } = getYearIncomeTax(params)
-
-  const totalVorabpauschale = vorabCalculations.reduce((sum, calc) => sum + calc.vorabpauschaleBetrag, 0)
+  const incomeTax = getYearIncomeTax(params)
+  const { einkommensteuer, genutzterGrundfreibetrag, taxableIncome, ehegattensplitting } = incomeTax
 
   const vorabpauschaleDetails = createVorabpauschaleDetails(
     totalVorabpauschale,
@@ -1517,6 +1991,7 @@ function calculateYearlyTaxes(params: YearlyTaxesParams): YearlyTaxesResult {
     params.returnRate,
     capitalAtStartOfYear,
   )
+  const cryptoSale = getYearCryptoSale(params, cryptoSales, incomeTax)
 
   return {
     taxOnRealizedGains,
@@ -1526,10 +2001,15 @@ function calculateYearlyTaxes(params: YearlyTaxesParams): YearlyTaxesResult {
     einkommensteuer,
     genutzterGrundfreibetrag,
     taxableIncome,
+    ehegattensplitting,
     guenstigerPruefungResultRealizedGains,
     totalVorabpauschale,
     vorabpauschaleDetails,
     capitalAtStartOfYear,
+    lossOffsetDetails: realizedGains.lossOffsetDetails,
+    cryptoSale,
+    spenden: incomeTax.spenden,
+    healthInsuranceCapitalIncome: getHealthInsuranceCapitalIncome(realizedGains, taxableVorabpauschale, cryptoSale),
   }
 }
 
@@ -1580,9 +2060,11 @@ type ProcessYearlyWithdrawalParams = {
   year: number
   startYear: number
   mutableLayers: MutableLayer[]
+  lossAccounts: PortfolioLossAccounts
   yearlyGrowthRates: Record<number, number>
   baseWithdrawalAmount: number
   cashCushion: number
+  previousYearCapitalIncome: number
   strategy: WithdrawalStrategy
   withdrawalFrequency: WithdrawalFrequency
   monthlyConfig?: MonthlyWithdrawalConfig
@@ -1592,6 +2074,7 @@ type ProcessYearlyWithdrawalParams = {
   rmdConfig?: RMDConfig
   kapitalverzehrConfig?: KapitalverzehrConfig
   steueroptimierteEntnahmeConfig?: SteueroptimierteEntnahmeConfig
+  bedarfsorientierteConfig?: BedarfsorientierteEntnahmeConfig
   basiszinsConfiguration?: BasiszinsConfiguration
   healthCareInsuranceConfig?: HealthCareInsuranceConfig
   taxRate: number
@@ -1605,10 +2088,18 @@ type ProcessYearlyWithdrawalParams = {
   freibetragPerYear?: { [year: number]: number }
   statutoryPensionData: StatutoryPensionResult
   otherIncomeData: OtherIncomeResult
+  workIncomeData: WorkIncomeResult
   birthYear?: number
   getFreibetragForYear: (year: number) => number
-  getGrundfreibetragForYear: (year: number) => number
+  getGrundfreibetragForYear: GrundfreibetragAccessor
   progressionsvorbehaltConfig?: ProgressionsvorbehaltConfig
+  incomeTaxTariffIndexation?: IncomeTaxTariffIndexation
+  planningMode?: 'individual' | 'couple'
+  coupleStatutoryPensionConfig?: CoupleStatutoryPensionConfig
+  spendenConfig?: SpendenConfig
+  multiAssetState?: MultiAssetWithdrawalState
+  coupleSurvivorState?: CoupleSurvivorState
+  propertyFlowsByYear?: Record<number, PropertyDepotFlow>
 }
 
 /**
@@ -1635,7 +2126,11 @@ type ProcessWithdrawalAmountsParams = {
   cashCushion: number
   healthCareInsuranceConfig: HealthCareInsuranceConfig | undefined
   statutoryPensionData: StatutoryPensionResult
+  otherIncomeData: OtherIncomeResult
+  previousYearCapitalIncome: number
+  workIncome: WorkIncomeYearResult | undefined
   birthYear: number | undefined
+  coupleSurvivorState: CoupleSurvivorState | undefined
 }
 
 /**
@@ -1656,6 +2151,7 @@ type ProcessWithdrawalAmountsResult = {
   currentCashCushion: number
   effectiveWithdrawal: number
   monthlyWithdrawalAmount: number | undefined
+  workIncomeReduction: number
 }
 
 /**
@@ -1701,15 +2197,14 @@ function getAdjustedWithdrawalData(params: ProcessWithdrawalAmountsParams): Adju
  */
 function processWithdrawalAmounts(params: ProcessWithdrawalAmountsParams): ProcessWithdrawalAmountsResult {
   const adjustedWithdrawalData = getAdjustedWithdrawalData(params)
-  const entnahme = Math.min(adjustedWithdrawalData.annualWithdrawal, params.capitalAtStartOfYear)
+  // The bedarfsorientiert strategy already subtracts the work income from the spending need
+  const workIncomeReduction =
+    params.strategy === 'bedarfsorientiert'
+      ? 0
+      : calculateWorkIncomeWithdrawalReduction(adjustedWithdrawalData.annualWithdrawal, params.workIncome)
+  const entnahme = Math.min(adjustedWithdrawalData.annualWithdrawal - workIncomeReduction, params.capitalAtStartOfYear)
 
-  const insuranceData = calculateYearHealthCareInsurance({
-    healthCareInsuranceConfig: params.healthCareInsuranceConfig,
-    year: params.year,
-    entnahme,
-    statutoryPensionData: params.statutoryPensionData,
-    birthYear: params.birthYear,
-  })
+  const insuranceData = calculateYearHealthCareInsurance({ ...params, entnahme })
 
   const { returnRate, cashCushionAtStart } = calculateWithdrawalContext(
     params.yearlyGrowthRates,
@@ -1746,6 +2241,7 @@ function processWithdrawalAmounts(params: ProcessWithdrawalAmountsParams): Proce
     currentCashCushion: bucketData.updatedCashCushion,
     effectiveWithdrawal: monthlyData.effectiveWithdrawal,
     monthlyWithdrawalAmount: monthlyData.monthlyAmount,
+    workIncomeReduction,
   }
 }
 
@@ -1774,6 +2270,7 @@ type YearTaxResults = {
   einkommensteuer: number
   genutzterGrundfreibetrag: number
   taxableIncome: number
+  ehegattensplitting: EhegattensplittingResult | undefined
   guenstigerPruefungResultRealizedGains: GuenstigerPruefungResultType | null
   totalVorabpauschale: number
   vorabpauschaleDetails: VorabpauschaleDetailsType | undefined
@@ -1826,6 +2323,7 @@ function buildFinalYearResult(params: BuildFinalYearResultParams): WithdrawalRes
     einkommensteuer: params.taxResults.einkommensteuer,
     genutzterGrundfreibetrag: params.taxResults.genutzterGrundfreibetrag,
     taxableIncome: params.taxResults.taxableIncome,
+    ehegattensplitting: params.taxResults.ehegattensplitting,
     guenstigerPruefungResultRealizedGains: params.taxResults.guenstigerPruefungResultRealizedGains,
     strategy: params.strategy,
     dynamischeAnpassung: params.withdrawalData.dynamischeAnpassung,
@@ -1858,19 +2356,176 @@ type OrchestrateYearlyWithdrawalParams = {
  * Result of orchestrating yearly withdrawal calculation
  */
 type OrchestrateYearlyWithdrawalResult = {
-  withdrawalData: ReturnType<typeof processWithdrawalAmounts>
+  withdrawalData: ReturnType<typeof getOrchestratedWithdrawalData>
   taxResults: ReturnType<typeof calculateYearlyTaxes>
   refillData: ReturnType<typeof processBucketRefillAndFinalCapital>
   totalTaxForYear: number
 }
 
+/**
+ * Realized gain of selling the given amount in the order of processLayerWithdrawal, without selling
+ */
+function previewRealizedGain(
+  mutableLayers: MutableLayer[],
+  amount: number,
+  year: number,
+  cryptoSales: CryptoSaleGains,
+  teilfreistellungsquote: number,
+): ReturnType<typeof getFundSaleRealizedGain> {
+  let amountToWithdraw = amount
+  const fundSales = createFundSaleGains(teilfreistellungsquote)
+
+  const saleDate = getWithdrawalSaleDate(year)
+  for (const layer of orderLotsForSale(mutableLayers, saleDate)) {
+    if (amountToWithdraw <= 0 || layer.currentValue <= 0) continue
+
+    const amountToSellFromLayer = Math.min(amountToWithdraw, layer.currentValue)
+    getLayerSaleGain(layer, amountToSellFromLayer, saleDate, cryptoSales, fundSales)
+    amountToWithdraw -= amountToSellFromLayer
+  }
+
+  return getFundSaleRealizedGain(fundSales)
+}
+
+/**
+ * Income tax and health/care insurance contributions of the year with the given withdrawal
+ */
+function estimateYearIncomeTaxAndContributions(
+  yearParams: ProcessYearlyWithdrawalParams,
+  entnahme: number,
+): { incomeTax: YearIncomeTaxResult; contributions: number } {
+  const { healthCareInsuranceData } = calculateYearHealthCareInsurance({
+    healthCareInsuranceConfig: yearParams.healthCareInsuranceConfig,
+    year: yearParams.year,
+    entnahme,
+    statutoryPensionData: yearParams.statutoryPensionData,
+    otherIncomeData: yearParams.otherIncomeData,
+    previousYearCapitalIncome: yearParams.previousYearCapitalIncome,
+    birthYear: yearParams.birthYear,
+    coupleSurvivorState: yearParams.coupleSurvivorState,
+  })
+  const incomeTax = calculateYearIncomeTax({
+    enableGrundfreibetrag: yearParams.enableGrundfreibetrag,
+    entnahme,
+    year: yearParams.year,
+    getGrundfreibetragForYear: yearParams.getGrundfreibetragForYear,
+    statutoryPensionData: yearParams.statutoryPensionData,
+    otherIncomeData: yearParams.otherIncomeData,
+    workIncomeData: yearParams.workIncomeData,
+    healthCareInsuranceData,
+    healthCareInsuranceConfig: yearParams.healthCareInsuranceConfig,
+    incomeTaxRate: yearParams.incomeTaxRate,
+    kirchensteuerAktiv: yearParams.kirchensteuerAktiv,
+    kirchensteuersatz: yearParams.kirchensteuersatz,
+    progressionsvorbehaltConfig: yearParams.progressionsvorbehaltConfig,
+    incomeTaxTariffIndexation: yearParams.incomeTaxTariffIndexation,
+    planningMode: yearParams.planningMode,
+    coupleStatutoryPensionConfig: yearParams.coupleStatutoryPensionConfig,
+    spendenConfig: yearParams.spendenConfig,
+  })
+  return { incomeTax, contributions: healthCareInsuranceData?.totalAnnual ?? 0 }
+}
+
+/**
+ * Estimate the taxes caused by a withdrawal: tax on the realized gains and crypto sales plus the additional
+ * income tax and health/care insurance contributions compared to the year without withdrawal
+ */
+function estimateWithdrawalTaxes(yearParams: ProcessYearlyWithdrawalParams, bruttoEntnahme: number): number {
+  const { year } = yearParams
+  const taxBrackets = getYearTaxBrackets(year, yearParams.incomeTaxTariffIndexation, yearParams.planningMode)
+  const cryptoSales = createEmptyCryptoSaleGains()
+  const { realizedGain, teilfreistellungsquote } = previewRealizedGain(
+    yearParams.mutableLayers,
+    bruttoEntnahme,
+    year,
+    cryptoSales,
+    yearParams.teilfreistellungsquote,
+  )
+  const { taxOnRealizedGains } = calculateRealizedGainsTax(
+    realizedGain,
+    yearParams.getFreibetragForYear(year),
+    teilfreistellungsquote,
+    yearParams.taxRate,
+    yearParams.guenstigerPruefungAktiv,
+    yearParams.kirchensteuerAktiv,
+    yearParams.kirchensteuersatz,
+    taxBrackets,
+  )
+  const withWithdrawal = estimateYearIncomeTaxAndContributions(yearParams, bruttoEntnahme)
+  const withoutWithdrawal = estimateYearIncomeTaxAndContributions(yearParams, 0)
+  // The crypto gains are taxed on top of the other taxable income of the year, as in getYearCryptoSale
+  const taxOnCryptoSales = calculatePrivateSaleTax(
+    cryptoSales.privaterVeraeusserungsgewinn,
+    withWithdrawal.incomeTax.taxableIncome + withWithdrawal.incomeTax.genutzterGrundfreibetrag,
+    year,
+    taxBrackets,
+    getPrivateSaleSurcharges(yearParams),
+  ).steuer
+
+  return (
+    taxOnRealizedGains +
+    taxOnCryptoSales +
+    withWithdrawal.incomeTax.einkommensteuer -
+    withoutWithdrawal.incomeTax.einkommensteuer +
+    withWithdrawal.contributions -
+    withoutWithdrawal.contributions
+  )
+}
+
+/**
+ * Pensions, other income and work income of the year after social security contributions, minus the income tax
+ * and the health/care insurance contributions of the year without withdrawal
+ */
+function getNetIncomeForYear(yearParams: ProcessYearlyWithdrawalParams): number {
+  const { year, statutoryPensionData, otherIncomeData, workIncomeData } = yearParams
+  const { incomeTax, contributions } = estimateYearIncomeTaxAndContributions(yearParams, 0)
+  return (
+    (statutoryPensionData[year]?.netAnnualAmount ?? 0) +
+    (otherIncomeData[year]?.totalNetAnnualAmount ?? 0) +
+    (workIncomeData[year]?.netAnnualAmount ?? 0) -
+    incomeTax.einkommensteuer -
+    contributions
+  )
+}
+
+/**
+ * Withdrawal of the bedarfsorientiert strategy: the spending need of the year minus pensions and other
+ * income after taxes and contributions, grossed up by the estimated taxes and contributions on the withdrawal
+ */
+function calculateYearBedarfsorientierteEntnahme(
+  params: OrchestrateYearlyWithdrawalParams,
+): BedarfsorientierteEntnahmeResult | undefined {
+  const { yearParams } = params
+  if (yearParams.strategy !== 'bedarfsorientiert') {
+    return undefined
+  }
+  if (!yearParams.bedarfsorientierteConfig) {
+    throw new Error('Bedarfsorientiert strategy requires bedarfsorientierteConfig')
+  }
+
+  const { year } = yearParams
+  const nettoEinkommen = getNetIncomeForYear(yearParams)
+
+  return calculateBedarfsorientierteEntnahme({
+    ausgabenbedarf: getAusgabenbedarfForYear(
+      yearParams.bedarfsorientierteConfig,
+      year,
+      yearParams.inflationConfig?.inflationRate,
+    ),
+    nettoEinkommen,
+    verfuegbaresKapital: params.capitalAtStartOfYear,
+    estimateTaxes: bruttoEntnahme => estimateWithdrawalTaxes(yearParams, bruttoEntnahme),
+  })
+}
+
 /**
  * Process withdrawal amounts for orchestration
  */
 function getOrchestratedWithdrawalData(params: OrchestrateYearlyWithdrawalParams) {
-  return processWithdrawalAmounts({
+  const bedarfsorientierteEntnahme = calculateYearBedarfsorientierteEntnahme(params)
+  const withdrawalData = processWithdrawalAmounts({
     strategy: params.yearParams.strategy,
-    baseWithdrawalAmount: params.yearParams.baseWithdrawalAmount,
+    baseWithdrawalAmount: bedarfsorientierteEntnahme?.bruttoEntnahme ?? params.yearParams.baseWithdrawalAmount,
     capitalAtStartOfYear: params.capitalAtStartOfYear,
     year: params.yearParams.year,
     startYear: params.yearParams.startYear,
@@ -1889,8 +2544,40 @@ function getOrchestratedWithdrawalData(params: OrchestrateYearlyWithdrawalParams
     cashCushion: params.yearParams.cashCushion,
     healthCareInsuranceConfig: params.yearParams.healthCareInsuranceConfig,
     statutoryPensionData: params.yearParams.statutoryPensionData,
+    otherIncomeData: params.yearParams.otherIncomeData,
+    previousYearCapitalIncome: params.yearParams.previousYearCapitalIncome,
+    workIncome: params.yearParams.workIncomeData[params.yearParams.year],
     birthYear: params.yearParams.birthYear,
+    coupleSurvivorState: params.yearParams.coupleSurvivorState,
   })
+
+  return { ...withdrawalData, bedarfsorientierteEntnahme, ...applyAssetClassWithdrawal(params, withdrawalData) }
+}
+
+/**
+ * Multi-asset portfolio: sell the withdrawal from the asset classes and take the return of the remaining
+ * holdings. The growth rate of the year is replaced so that the following years see the realized return.
+ */
+function applyAssetClassWithdrawal(
+  params: OrchestrateYearlyWithdrawalParams,
+  withdrawalData: ProcessWithdrawalAmountsResult,
+): { returnRate?: number; assetClassWithdrawal?: AssetClassWithdrawalYearResult } {
+  const { multiAssetState, year, strategy } = params.yearParams
+  if (!multiAssetState) {
+    return {}
+  }
+
+  const soldFromPortfolio =
+    strategy === 'bucket_strategie' && withdrawalData.bucketUsed === 'cash' ? 0 : withdrawalData.effectiveWithdrawal
+  const assetClassWithdrawal = processAssetClassWithdrawal(
+    multiAssetState,
+    year,
+    params.capitalAtStartOfYear,
+    soldFromPortfolio + getPropertyPayment(params.yearParams.propertyFlowsByYear?.[year]),
+  )
+  params.yearParams.yearlyGrowthRates[year] = assetClassWithdrawal.portfolioReturn
+
+  return { returnRate: assetClassWithdrawal.portfolioReturn, assetClassWithdrawal }
 }
 
 /**
@@ -1898,17 +2585,21 @@ function getOrchestratedWithdrawalData(params: OrchestrateYearlyWithdrawalParams
  */
 function getOrchestratedTaxResults(
   params: OrchestrateYearlyWithdrawalParams,
-  withdrawalData: ReturnType<typeof processWithdrawalAmounts>,
+  withdrawalData: ReturnType<typeof getOrchestratedWithdrawalData>,
 ) {
+  const assetClassWithdrawal = withdrawalData.assetClassWithdrawal
   return calculateYearlyTaxes({
     mutableLayers: params.yearParams.mutableLayers,
+    lossAccounts: params.yearParams.lossAccounts,
     returnRate: withdrawalData.returnRate,
     year: params.yearParams.year,
     basiszinsConfiguration: params.yearParams.basiszinsConfiguration,
     taxRate: params.yearParams.taxRate,
-    teilfreistellungsquote: params.yearParams.teilfreistellungsquote,
+    teilfreistellungsquote: assetClassWithdrawal?.holdingsTeilfreistellungsquote ?? params.yearParams.teilfreistellungsquote,
+    realizedGainsTeilfreistellungsquote: assetClassWithdrawal?.teilfreistellungsquote,
     freibetragPerYear: params.yearParams.freibetragPerYear,
     effectiveWithdrawal: withdrawalData.effectiveWithdrawal,
+    propertyPayment: getPropertyPayment(params.yearParams.propertyFlowsByYear?.[params.yearParams.year]),
     strategy: params.yearParams.strategy,
     bucketUsed: withdrawalData.bucketUsed,
     guenstigerPruefungAktiv: params.yearParams.guenstigerPruefungAktiv,
@@ -1921,18 +2612,49 @@ function getOrchestratedTaxResults(
     getGrundfreibetragForYear: params.yearParams.getGrundfreibetragForYear,
     statutoryPensionData: params.yearParams.statutoryPensionData,
     otherIncomeData: params.yearParams.otherIncomeData,
+    workIncomeData: params.yearParams.workIncomeData,
     healthCareInsuranceData: withdrawalData.healthCareInsuranceData,
     healthCareInsuranceConfig: params.yearParams.healthCareInsuranceConfig,
     progressionsvorbehaltConfig: params.yearParams.progressionsvorbehaltConfig,
+    incomeTaxTariffIndexation: params.yearParams.incomeTaxTariffIndexation,
+    planningMode: params.yearParams.planningMode,
+    coupleStatutoryPensionConfig: params.yearParams.coupleStatutoryPensionConfig,
+    spendenConfig: params.yearParams.spendenConfig,
   })
 }
 
+/**
+ * Multi-asset rebalancing at the end of the year: the sold asset classes realize their gains, which raises
+ * the cost basis of the rebought holdings. The tax on these gains is paid from the depot when the taxes
+ * reduce the end capital.
+ */
+function applyRebalancingTax(
+  mutableLayers: MutableLayer[],
+  assetClassWithdrawal: AssetClassWithdrawalYearResult | undefined,
+  steuerReduzierenEndkapital: boolean,
+): number {
+  const capital = mutableLayers.reduce((sum, layer) => sum + layer.currentValue, 0)
+  if (!assetClassWithdrawal || assetClassWithdrawal.rebalancingCapitalGains <= 0 || capital <= 0) {
+    return 0
+  }
+
+  const { rebalancingCapitalGains, rebalancingTax } = assetClassWithdrawal
+  for (const layer of mutableLayers) {
+    const share = layer.currentValue / capital
+    layer.costBasis += rebalancingCapitalGains * share
+    if (steuerReduzierenEndkapital) {
+      layer.currentValue -= rebalancingTax * share
+    }
+  }
+  return rebalancingTax
+}
+
 /**
  * Calculate refill data for orchestration
  */
 function getOrchestratedRefillData(
   params: OrchestrateYearlyWithdrawalParams,
-  withdrawalData: ReturnType<typeof processWithdrawalAmounts>,
+  withdrawalData: ReturnType<typeof getOrchestratedWithdrawalData>,
   taxResults: YearlyTaxesResult,
 ) {
   return processBucketRefillAndFinalCapital({
@@ -1955,21 +2677,53 @@ function orchestrateYearlyWithdrawalCalculation(
 ): OrchestrateYearlyWithdrawalResult {
   const withdrawalData = getOrchestratedWithdrawalData(params)
   const taxResults = getOrchestratedTaxResults(params, withdrawalData)
+  const rebalancingTax = applyRebalancingTax(
+    params.yearParams.mutableLayers,
+    withdrawalData.assetClassWithdrawal,
+    params.yearParams.steuerReduzierenEndkapital,
+  )
   const refillData = getOrchestratedRefillData(params, withdrawalData, taxResults)
-  const totalTaxForYear = taxResults.taxOnRealizedGains + taxResults.taxOnVorabpauschale + taxResults.einkommensteuer
+  const totalTaxForYear =
+    rebalancingTax +
+    taxResults.taxOnRealizedGains +
+    taxResults.taxOnVorabpauschale +
+    taxResults.einkommensteuer +
+    (taxResults.cryptoSale?.privateSaleTax.steuer ?? 0)
 
   return { withdrawalData, taxResults, refillData, totalTaxForYear }
 }
 
 /**
- * Process a single year of withdrawal calculation
- * This is the main orchestrator for yearly withdrawal logic
+ * Add the loss offset, crypto sale and donation details of the year to the year result
+ */
+function addYearTaxDetails(yearResult: WithdrawalResultElement, taxResults: YearlyTaxesResult): void {
+  if (taxResults.lossOffsetDetails) {
+    yearResult.lossOffsetDetails = taxResults.lossOffsetDetails
+  }
+  if (taxResults.cryptoSale) {
+    yearResult.cryptoSale = taxResults.cryptoSale
+  }
+  if (taxResults.spenden) {
+    yearResult.spenden = taxResults.spenden
+  }
+}
+
+/**
+ * Result of a withdrawal year with the state carried into the next year
  */
-function processYearlyWithdrawal(params: ProcessYearlyWithdrawalParams): {
+type YearlyWithdrawalOutcome = {
   yearResult: WithdrawalResultElement | null
   updatedCashCushion: number
+  // Capital income of the year, assessed by the health insurance of voluntarily insured retirees next year
+  capitalIncome: number
   shouldContinue: boolean
-} {
+}
+
+/**
+ * Process a single year of withdrawal calculation
+ * This is the main orchestrator for yearly withdrawal logic
+ */
+function processYearlyWithdrawal(params: ProcessYearlyWithdrawalParams): YearlyWithdrawalOutcome {
   const {
     capitalAtStartOfYear,
     shouldContinue,
@@ -1977,7 +2731,7 @@ function processYearlyWithdrawal(params: ProcessYearlyWithdrawalParams): {
   } = calculateInitialCapitalAndValidate(params.mutableLayers, params.cashCushion)
 
   if (!shouldContinue) {
-    return { yearResult: null, updatedCashCushion: initialCushion, shouldContinue: false }
+    return { yearResult: null, updatedCashCushion: initialCushion, capitalIncome: 0, shouldContinue: false }
   }
 
   const { withdrawalData, taxResults, refillData, totalTaxForYear } = orchestrateYearlyWithdrawalCalculation({
@@ -2000,8 +2754,24 @@ function processYearlyWithdrawal(params: ProcessYearlyWithdrawalParams): {
     otherIncomeData: params.otherIncomeData,
     healthCareInsuranceConfig: params.healthCareInsuranceConfig,
   })
+  addYearTaxDetails(yearResult, taxResults)
+  if (withdrawalData.bedarfsorientierteEntnahme) {
+    yearResult.bedarfsorientierteEntnahme = withdrawalData.bedarfsorientierteEntnahme
+  }
+  if (withdrawalData.assetClassWithdrawal) {
+    yearResult.assetClassWithdrawal = withdrawalData.assetClassWithdrawal
+  }
+  const workIncome = params.workIncomeData[params.year]
+  if (workIncome) {
+    yearResult.workIncome = { ...workIncome, withdrawalReduction: withdrawalData.workIncomeReduction }
+  }
 
-  return { yearResult, updatedCashCushion: refillData.finalCashCushion, shouldContinue: true }
+  return {
+    yearResult,
+    updatedCashCushion: refillData.finalCashCushion,
+    capitalIncome: taxResults.healthInsuranceCapitalIncome,
+    shouldContinue: true,
+  }
 }
 
 /**
@@ -2022,6 +2792,7 @@ type BuildYearlyResultParams = {
   einkommensteuer: number
   genutzterGrundfreibetrag: number
   taxableIncome: number
+  ehegattensplitting: EhegattensplittingResult | undefined
   guenstigerPruefungResultRealizedGains: GuenstigerPruefungResultType | undefined | null
   strategy: WithdrawalStrategy
   dynamischeAnpassung: number
@@ -2065,6 +2836,7 @@ function buildConditionalTaxFields(params: BuildYearlyResultParams) {
     einkommensteuer: params.enableGrundfreibetrag ? params.einkommensteuer : undefined,
     genutzterGrundfreibetrag: params.enableGrundfreibetrag ? params.genutzterGrundfreibetrag : undefined,
     taxableIncome: params.enableGrundfreibetrag ? params.taxableIncome : undefined,
+    ehegattensplitting: params.ehegattensplitting,
   }
 }
 
@@ -2162,6 +2934,16 @@ function applyPortfolioGrowthAndVorabTax(
   return { taxOnVorabpauschale, freibetragUsedOnVorab }
 }
 
+/**
+ * Helper function: Gross amount of all other income sources of the year
+ */
+function getOtherIncomeGrossTotal(otherIncomeData: OtherIncomeResult, year: number): number {
+  return (otherIncomeData[year]?.sources ?? []).reduce(
+    (sum: number, source: OtherIncomeYearResult) => sum + (source.grossAnnualAmount || 0),
+    0,
+  )
+}
+
 /**
  * Helper function: Calculate total taxable income from all sources
  */
@@ -2170,6 +2952,7 @@ function calculateTotalTaxableIncome(params: {
   year: number
   statutoryPensionData: StatutoryPensionResult
   otherIncomeData: OtherIncomeResult
+  workIncomeData: WorkIncomeResult
   healthCareInsuranceData: HealthCareInsuranceYearResult | undefined
   healthCareInsuranceConfig: HealthCareInsuranceConfig | undefined
 }): number {
@@ -2184,13 +2967,10 @@ function calculateTotalTaxableIncome(params: {
   }
 
   // Add taxable amount from other income sources
-  if (otherIncomeData[year]?.sources) {
-    const otherIncomeGrossTotal = otherIncomeData[year].sources.reduce(
-      (sum: number, source: OtherIncomeYearResult) => sum + (source.grossAnnualAmount || 0),
-      0,
-    )
-    totalTaxableIncome += otherIncomeGrossTotal
-  }
+  totalTaxableIncome += getOtherIncomeGrossTotal(otherIncomeData, year)
+
+  // Add part-time work income after social security contributions and the taxable part of the EM-Rente
+  totalTaxableIncome += params.workIncomeData[year]?.taxableAmount ?? 0
 
   // Deduct health care insurance contributions (tax-deductible in Germany)
   if (healthCareInsuranceData && healthCareInsuranceConfig?.enabled) {
@@ -2210,15 +2990,20 @@ interface YearIncomeTaxParams {
   enableGrundfreibetrag: boolean | undefined
   entnahme: number
   year: number
-  getGrundfreibetragForYear: (year: number) => number
+  getGrundfreibetragForYear: GrundfreibetragAccessor
   statutoryPensionData: StatutoryPensionResult
   otherIncomeData: OtherIncomeResult
+  workIncomeData: WorkIncomeResult
   healthCareInsuranceData: HealthCareInsuranceYearResult | undefined
   healthCareInsuranceConfig: HealthCareInsuranceConfig | undefined
   incomeTaxRate: number | undefined
   kirchensteuerAktiv: boolean
   kirchensteuersatz: number
   progressionsvorbehaltConfig?: ProgressionsvorbehaltConfig
+  incomeTaxTariffIndexation?: IncomeTaxTariffIndexation
+  planningMode?: 'individual' | 'couple'
+  coupleStatutoryPensionConfig?: CoupleStatutoryPensionConfig
+  spendenConfig?: SpendenConfig
 }
 
 /**
@@ -2228,6 +3013,102 @@ interface YearIncomeTaxResult {
   einkommensteuer: number
   genutzterGrundfreibetrag: number
   taxableIncome: number
+  ehegattensplitting?: EhegattensplittingResult
+  spenden?: SpendenYearResult
+}
+
+/**
+ * Tax brackets of the year being calculated.
+ * In couple planning mode the splitting tariff applies (joint assessment of both spouses).
+ */
+function getYearTaxBrackets(
+  year: number,
+  incomeTaxTariffIndexation: IncomeTaxTariffIndexation | undefined,
+  planningMode: 'individual' | 'couple' | undefined,
+): TaxBracket[] {
+  const taxBrackets = getTaxBracketsForYear(year, incomeTaxTariffIndexation)
+  return planningMode === 'couple' ? createSplittingTaxBrackets(taxBrackets) : taxBrackets
+}
+
+/**
+ * Taxable pension income of both spouses in couple planning mode
+ */
+function getSpousePensionIncomes(
+  coupleStatutoryPensionConfig: CoupleStatutoryPensionConfig | undefined,
+  year: number,
+): { person1: number; person2: number } {
+  const couple = coupleStatutoryPensionConfig?.enabled ? coupleStatutoryPensionConfig.couple : undefined
+  if (!couple) {
+    return { person1: 0, person2: 0 }
+  }
+
+  return {
+    person1: calculateStatutoryPensionForYear(couple.person1, year).taxableAmount,
+    person2: calculateStatutoryPensionForYear(couple.person2, year).taxableAmount,
+  }
+}
+
+/**
+ * Compare joint assessment (Ehegattensplitting) with separate assessment for couples.
+ * The deducted income tax of couples already uses the splitting tariff (see getYearTaxBrackets).
+ */
+function calculateYearEhegattensplitting(
+  params: YearIncomeTaxParams,
+  totalTaxableIncome: number,
+): EhegattensplittingResult | undefined {
+  if (params.planningMode !== 'couple') {
+    return undefined
+  }
+
+  const pensions = getSpousePensionIncomes(params.coupleStatutoryPensionConfig, params.year)
+  const incomes = attributeCoupleIncomes(totalTaxableIncome, pensions.person1, pensions.person2)
+
+  return calculateEhegattensplitting(
+    incomes,
+    getTaxBracketsForYear(params.year, params.incomeTaxTariffIndexation),
+    params.kirchensteuerAktiv,
+    params.kirchensteuersatz,
+  )
+}
+
+/**
+ * Income tax of a taxable income in the year, including Kirchensteuer and Progressionsvorbehalt
+ */
+function createYearIncomeTaxCalculator(
+  params: YearIncomeTaxParams,
+  yearlyGrundfreibetrag: number,
+): (taxableIncome: number) => number {
+  const { year, progressionsvorbehaltConfig } = params
+
+  // Get progression-relevant income for this year (e.g., foreign income)
+  const progressionRelevantIncome = progressionsvorbehaltConfig
+    ? getProgressionRelevantIncomeForYear(year, progressionsvorbehaltConfig)
+    : 0
+  const taxBrackets = getYearTaxBrackets(year, params.incomeTaxTariffIndexation, params.planningMode)
+
+  // The §32a tariff of the year applies, a given incomeTaxRate is the legacy flat rate above the Grundfreibetrag
+  // Progressionsvorbehalt affects the tax rate when progression-relevant income exists
+  if (params.incomeTaxRate === undefined) {
+    return (taxableIncome: number) =>
+      calculateTariffIncomeTax(
+        taxableIncome,
+        taxBrackets,
+        params.kirchensteuerAktiv,
+        params.kirchensteuersatz,
+        progressionRelevantIncome,
+      )
+  }
+
+  return (taxableIncome: number) =>
+    calculateIncomeTax(
+      taxableIncome,
+      yearlyGrundfreibetrag,
+      params.incomeTaxRate,
+      params.kirchensteuerAktiv,
+      params.kirchensteuersatz,
+      progressionRelevantIncome,
+      taxBrackets,
+    )
 }
 
 function calculateYearIncomeTax(params: YearIncomeTaxParams): YearIncomeTaxResult {
@@ -2238,52 +3119,49 @@ function calculateYearIncomeTax(params: YearIncomeTaxParams): YearIncomeTaxResul
     getGrundfreibetragForYear,
     statutoryPensionData,
     otherIncomeData,
+    workIncomeData,
     healthCareInsuranceData,
     healthCareInsuranceConfig,
-    incomeTaxRate,
-    kirchensteuerAktiv,
-    kirchensteuersatz,
-    progressionsvorbehaltConfig,
+    planningMode,
   } = params
 
-  let einkommensteuer = 0
-  let genutzterGrundfreibetrag = 0
-  let taxableIncome = 0
+  if (!enableGrundfreibetrag) {
+    return { einkommensteuer: 0, genutzterGrundfreibetrag: 0, taxableIncome: 0 }
+  }
 
-  if (enableGrundfreibetrag) {
-    const yearlyGrundfreibetrag = getGrundfreibetragForYear(year)
+  const yearlyGrundfreibetrag = getGrundfreibetragForYear(year, planningMode)
 
-    const totalTaxableIncome = calculateTotalTaxableIncome({
-      entnahme,
-      year,
-      statutoryPensionData,
-      otherIncomeData,
-      healthCareInsuranceData,
-      healthCareInsuranceConfig,
-    })
+  const totalTaxableIncome = calculateTotalTaxableIncome({
+    entnahme,
+    year,
+    statutoryPensionData,
+    otherIncomeData,
+    workIncomeData,
+    healthCareInsuranceData,
+    healthCareInsuranceConfig,
+  })
 
-    // Get progression-relevant income for this year (e.g., foreign income)
-    const progressionRelevantIncome = progressionsvorbehaltConfig
-      ? getProgressionRelevantIncomeForYear(year, progressionsvorbehaltConfig)
-      : 0
-
-    // Calculate income tax on total taxable income
-    // When incomeTaxRate is provided (Grundfreibetrag without Günstigerprüfung), use it
-    // When incomeTaxRate is undefined (Günstigerprüfung active), progressive tax is used in realized gains calculation
-    // Progressionsvorbehalt affects the tax rate when progression-relevant income exists
-    einkommensteuer = calculateIncomeTax(
-      totalTaxableIncome,
-      yearlyGrundfreibetrag,
-      incomeTaxRate || 0,
-      kirchensteuerAktiv,
-      kirchensteuersatz,
-      progressionRelevantIncome,
-    )
-    genutzterGrundfreibetrag = Math.min(totalTaxableIncome, yearlyGrundfreibetrag)
-    taxableIncome = Math.max(0, totalTaxableIncome - yearlyGrundfreibetrag)
-  }
+  // Calculate income tax on total taxable income
+  const calculateTax = createYearIncomeTaxCalculator(params, yearlyGrundfreibetrag)
+
+  // The Sonderausgaben-Pauschbetrag is always deducted, donations above it reduce the taxable income
+  // (Sonderausgaben) and party donations the income tax (§ 34g EStG)
+  const spenden = calculateSpendenYearResult(
+    getSpendenForYear(params.spendenConfig, year),
+    totalTaxableIncome,
+    planningMode,
+    calculateTax,
+  )
+  const incomeAfterPauschbetrag = Math.max(0, totalTaxableIncome - getSonderausgabenPauschbetrag(planningMode))
+  const incomeAfterSpenden = incomeAfterPauschbetrag - (spenden?.sonderausgabenabzug ?? 0)
 
-  return { einkommensteuer, genutzterGrundfreibetrag, taxableIncome }
+  return {
+    einkommensteuer: spenden ? spenden.einkommensteuer : calculateTax(incomeAfterPauschbetrag),
+    genutzterGrundfreibetrag: Math.min(incomeAfterSpenden, yearlyGrundfreibetrag),
+    taxableIncome: Math.max(0, incomeAfterSpenden - yearlyGrundfreibetrag),
+    ehegattensplitting: calculateYearEhegattensplitting(params, incomeAfterSpenden),
+    spenden,
+  }
 }
 
 /**
@@ -2316,17 +3194,48 @@ function buildCoupleHealthCareData(
   }
 }
 
-/**
- * Helper function: Calculate health care insurance for a year
- */
-function calculateYearHealthCareInsurance(params: {
+type YearHealthCareInsuranceParams = {
   healthCareInsuranceConfig: HealthCareInsuranceConfig | undefined
   year: number
   entnahme: number
   statutoryPensionData: StatutoryPensionResult
+  otherIncomeData: OtherIncomeResult
+  previousYearCapitalIncome: number
   birthYear: number | undefined
-}): YearHealthCareInsuranceResult {
-  const { healthCareInsuranceConfig, year, entnahme, statutoryPensionData, birthYear } = params
+  coupleSurvivorState: CoupleSurvivorState | undefined
+}
+
+/**
+ * Health insurance settings of the year. After the year of death the couple insurance ends and the survivor is
+ * insured alone, with the own settings of the couple configuration.
+ */
+function getYearHealthCareInsuranceSettings(
+  params: YearHealthCareInsuranceParams,
+): Pick<YearHealthCareInsuranceParams, 'healthCareInsuranceConfig' | 'birthYear'> {
+  const { healthCareInsuranceConfig: config, coupleSurvivorState: state } = params
+  if (config?.planningMode !== 'couple' || !state || params.year <= state.phase.deathYear) {
+    return params
+  }
+
+  const survivor = state.phase.survivor === 1 ? 'person1' : 'person2'
+  return {
+    healthCareInsuranceConfig: {
+      ...config,
+      planningMode: 'individual',
+      additionalCareInsuranceForChildless:
+        config.coupleConfig?.[survivor].additionalCareInsuranceForChildless ??
+        config.additionalCareInsuranceForChildless,
+    },
+    birthYear: state.birthYears[survivor],
+  }
+}
+
+/**
+ * Helper function: Calculate health care insurance for a year
+ */
+function calculateYearHealthCareInsurance(params: YearHealthCareInsuranceParams): YearHealthCareInsuranceResult {
+  const { year, entnahme, statutoryPensionData } = params
+  const { healthCareInsuranceConfig, birthYear } = getYearHealthCareInsuranceSettings(params)
   let healthCareInsuranceData
   let coupleHealthCareInsuranceData: CoupleHealthInsuranceYearResult | undefined
 
@@ -2356,6 +3265,10 @@ function calculateYearHealthCareInsurance(params: {
         entnahme,
         pensionAmount,
         currentAge,
+        {
+          ...getAssessableOtherIncome(params.otherIncomeData, year),
+          capitalIncome: params.previousYearCapitalIncome,
+        },
       )
     }
   }
@@ -2389,10 +3302,25 @@ interface VorabpauschaleLayersResult {
   }>
   yearlyFreibetrag: number
   basiszins: number
+  totalVorabpauschale: number
+  // Vorabpauschale of all layers after the Teilfreistellung of each layer
+  taxableVorabpauschale: number
+}
+
+/**
+ * Vorabpauschale of a layer before withdrawal. REITs, commodity ETCs and cryptocurrencies are no investment
+ * funds, so no Vorabpauschale applies to them.
+ */
+function getLayerVorabpauschale(layer: MutableLayer, returnRate: number, basiszins: number): number {
+  if (layer.fundType && !isInvestmentFund(layer.fundType)) {
+    return 0
+  }
+  return calculateVorabpauschale(layer.currentValue, layer.currentValue * (1 + returnRate), basiszins)
 }
 
 /**
- * Helper function: Calculate Vorabpauschale for all layers before withdrawal
+ * Helper function: Calculate Vorabpauschale for all layers before withdrawal, with the Teilfreistellung of
+ * each layer
  */
 function calculateVorabpauschaleForLayers(params: VorabpauschaleLayersParams): VorabpauschaleLayersResult {
   const {
@@ -2413,6 +3341,7 @@ function calculateVorabpauschaleForLayers(params: VorabpauschaleLayersParams): V
   const yearlyFreibetrag = getFreibetrag(year)
   const basiszins = getBasiszinsForYear(year, basiszinsConfiguration)
   let totalPotentialVorabTax = 0
+  let taxableVorabpauschale = 0
   const vorabCalculations: Array<{
     layer: MutableLayer
     vorabpauschaleBetrag: number
@@ -2423,19 +3352,24 @@ function calculateVorabpauschaleForLayers(params: VorabpauschaleLayersParams): V
   mutableLayers.forEach((layer: MutableLayer) => {
     if (layer.currentValue > 0) {
       const valueBeforeWithdrawal = layer.currentValue
-      const valueAfterGrowthBeforeWithdrawal = valueBeforeWithdrawal * (1 + returnRate)
-      const vorabpauschaleBetrag = calculateVorabpauschale(
-        valueBeforeWithdrawal,
-        valueAfterGrowthBeforeWithdrawal,
-        basiszins,
-      )
-      const potentialTax = calculateSteuerOnVorabpauschale(vorabpauschaleBetrag, taxRate, teilfreistellungsquote)
+      const vorabpauschaleBetrag = getLayerVorabpauschale(layer, returnRate, basiszins)
+      const layerTeilfreistellungsquote = getLayerTeilfreistellungsquote(layer, teilfreistellungsquote)
+      const potentialTax = calculateSteuerOnVorabpauschale(vorabpauschaleBetrag, taxRate, layerTeilfreistellungsquote)
       totalPotentialVorabTax += potentialTax
+      taxableVorabpauschale += vorabpauschaleBetrag * (1 - layerTeilfreistellungsquote)
       vorabCalculations.push({ layer, vorabpauschaleBetrag, potentialTax, valueBeforeWithdrawal })
     }
   })
 
-  return { totalPotentialVorabTax, vorabCalculations, yearlyFreibetrag, basiszins }
+  const totalVorabpauschale = vorabCalculations.reduce((sum, calc) => sum + calc.vorabpauschaleBetrag, 0)
+  return {
+    totalPotentialVorabTax,
+    vorabCalculations,
+    yearlyFreibetrag,
+    basiszins,
+    totalVorabpauschale,
+    taxableVorabpauschale,
+  }
 }
 
 /**
@@ -2467,6 +3401,7 @@ function calculateRealizedGainsTax(
   guenstigerPruefungAktiv: boolean,
   kirchensteuerAktiv: boolean,
   kirchensteuersatz: number,
+  taxBrackets: TaxBracket[],
 ): RealizedGainsTaxResult {
   const taxableGain = totalRealizedGain > 0 ? totalRealizedGain * (1 - teilfreistellungsquote) : 0
   let taxOnRealizedGains = 0
@@ -2487,6 +3422,7 @@ function calculateRealizedGainsTax(
         kirchensteuerAktiv,
         kirchensteuersatz,
         true, // use progressive tax
+        taxBrackets,
       )
 
       if (guenstigerPruefungResult.isFavorable === 'personal') {
@@ -2528,6 +3464,8 @@ export type WithdrawalResultElement = {
   einkommensteuer?: number
   genutzterGrundfreibetrag?: number
   taxableIncome?: number // Actual taxable income after applying Grundfreibetrag
+  // Joint assessment (couple planning mode): splitting tax compared with separate assessment
+  ehegattensplitting?: EhegattensplittingResult
   // Günstigerprüfung information for realized gains
   guenstigerPruefungResultRealizedGains?: {
     abgeltungssteuerAmount: number
@@ -2582,9 +3520,31 @@ export type WithdrawalResultElement = {
     isRetirementPhase: boolean
     effectiveHealthInsuranceRate: number
     effectiveCareInsuranceRate: number
+    // Membership status in retirement (KVdR or freiwillig) with the assessed income and both contributions
+    statutoryInsuranceStatus?: StatutoryInsuranceStatus
+    assessmentIncome?: HealthInsuranceAssessmentIncome
+    statusComparison?: StatutoryInsuranceStatusComparison
+    // Private insurance with premium projection: own contributions with private and statutory insurance
+    privateStatutoryComparison?: PrivateStatutoryComparison
     // Couple health insurance details (only present when in couple mode)
     coupleDetails?: CoupleHealthInsuranceYearResult
   }
+  // Loss offset accounts (Verlustverrechnungstöpfe) applied to the realized gains of the year
+  lossOffsetDetails?: LossOffsetResult
+  // Spending need, net income and estimated taxes behind the withdrawal (bedarfsorientiert strategy)
+  bedarfsorientierteEntnahme?: BedarfsorientierteEntnahmeResult
+  // Part-time work income and EM-Rente of the year, with the resulting reduction of the withdrawal
+  workIncome?: WorkIncomeYearResult & { withdrawalReduction: number }
+  // Multi-asset portfolio: asset classes sold, target allocation (glide path) and rebalancing of the year
+  assetClassWithdrawal?: AssetClassWithdrawalYearResult
+  // Crypto sales of the year: tax-free after the holding period, otherwise private sales under § 23 EStG
+  cryptoSale?: CryptoSaleYearResult
+  // Donations of the year with the Sonderausgabenabzug, the § 34g credit and the income tax saved
+  spenden?: SpendenYearResult
+  // Couple withdrawal plan: survivor phase, Gnadensplitting, Witwenrente and inheritance of the partner's depots
+  coupleWithdrawal?: CoupleWithdrawalYearInfo
+  // Owned property: mortgage payments sold from the depot and sale proceeds paid into the depot
+  propertyFlow?: PropertyDepotFlow
 }
 
 export type WithdrawalResult = {
@@ -2690,7 +3650,7 @@ export type CalculateWithdrawalParams = {
   customPercentage?: number
   enableGrundfreibetrag?: boolean
   grundfreibetragPerYear?: { [year: number]: number }
-  // Income tax rate - only used when Grundfreibetrag is active WITHOUT Günstigerprüfung
+  // Legacy flat income tax rate above the Grundfreibetrag, without it the §32a tariff of the year applies
   incomeTaxRate?: number
   // Günstigerprüfung settings - when active, uses progressive tax automatically (incomeTaxRate is ignored)
   guenstigerPruefungAktiv?: boolean
@@ -2704,12 +3664,163 @@ export type CalculateWithdrawalParams = {
   kapitalerhaltConfig?: KapitalerhaltConfig
   kapitalverzehrConfig?: KapitalverzehrConfig
   steueroptimierteEntnahmeConfig?: SteueroptimierteEntnahmeConfig
+  bedarfsorientierteConfig?: BedarfsorientierteEntnahmeConfig
   basiszinsConfiguration?: BasiszinsConfiguration
   statutoryPensionConfig?: StatutoryPensionConfig
   otherIncomeConfig?: OtherIncomeConfiguration
+  partTimeRetirementWorkConfig?: PartTimeRetirementWorkConfig
+  emRenteConfig?: EMRenteConfig // Disability pension, reduced by the part-time income (Hinzuverdienst)
   healthCareInsuranceConfig?: HealthCareInsuranceConfig
   birthYear?: number // For health care insurance age calculation
+  spouseBirthYear?: number // Birth year of the partner for the couple withdrawal plan
   progressionsvorbehaltConfig?: ProgressionsvorbehaltConfig
+  incomeTaxTariffIndexation?: IncomeTaxTariffIndexation
+  planningMode?: 'individual' | 'couple'
+  coupleStatutoryPensionConfig?: CoupleStatutoryPensionConfig
+  // Per-person life expectancy and depots (couple planning mode), the first death starts the survivor phase
+  coupleWithdrawalConfig?: CoupleWithdrawalConfig
+  spendenConfig?: SpendenConfig // Donations, deducted as Sonderausgaben or credited against the income tax
+  // Tax state handed over by the savings phase or the previous segment (lots, taxed Vorabpauschale, loss pots).
+  // Without it, the state is taken from the simulation results of the elements in the year before startYear.
+  portfolioTaxState?: PortfolioTaxState
+  // Losses realized outside of the portfolio per year (Verlustverrechnung)
+  realizedLossesByYear?: Record<number, RealizedLossesConfig>
+  // Owned property: mortgage payments are sold from the depot, sale proceeds are invested as a new lot
+  propertyOwnershipConfig?: PropertyOwnershipConfig
+}
+
+/**
+ * Initialize the lots and a copy of the loss offset accounts from the portfolio tax state.
+ */
+function initializePortfolio(params: CalculateWithdrawalParams): {
+  mutableLayers: MutableLayer[]
+  lossAccounts: PortfolioLossAccounts
+} {
+  const portfolioTaxState = params.portfolioTaxState ?? createPortfolioTaxState(params.elements, params.startYear - 1)
+
+  return {
+    mutableLayers: initializeMutableLayers(params.elements, portfolioTaxState),
+    lossAccounts: {
+      lossAccountState: { ...portfolioTaxState.lossAccountState },
+      stockGainsRatio: portfolioTaxState.stockGainsRatio,
+      realizedLossesByYear: params.realizedLossesByYear,
+    },
+  }
+}
+
+/**
+ * Track the asset classes of an enabled multi-asset portfolio across the withdrawal years, starting
+ * with the cost basis ratio of the lots (including the Vorabpauschale already taxed)
+ */
+function initializeMultiAssetState(
+  params: CalculateWithdrawalParams,
+  allYears: number[],
+  mutableLayers: MutableLayer[],
+): MultiAssetWithdrawalState | undefined {
+  const multiAssetConfig = params.returnConfig.mode === 'multiasset' ? params.returnConfig.multiAssetConfig : undefined
+  if (!multiAssetConfig?.enabled) {
+    return undefined
+  }
+  const value = mutableLayers.reduce((sum, layer) => sum + layer.currentValue, 0)
+  const costBasis = mutableLayers.reduce((sum, layer) => sum + layer.costBasis + layer.accumulatedVorabpauschale, 0)
+  return createMultiAssetWithdrawalState(
+    multiAssetConfig,
+    allYears,
+    params.startYear,
+    params.birthYear,
+    value > 0 ? costBasis / value : 1,
+  )
+}
+
+type CoupleWithdrawalPlanParams = Pick<
+  CalculateWithdrawalParams,
+  'endYear' | 'planningMode' | 'coupleWithdrawalConfig' | 'birthYear' | 'spouseBirthYear'
+>
+
+/**
+ * Enabled couple withdrawal plan of the couple planning mode with the birth years of both partners
+ */
+function getCoupleWithdrawalPlan(
+  params: CoupleWithdrawalPlanParams,
+): { config: CoupleWithdrawalConfig; birthYears: CoupleBirthYears } | undefined {
+  const config = params.coupleWithdrawalConfig
+  const birthYears = getCoupleBirthYears(params.birthYear, params.spouseBirthYear)
+  return config?.enabled && params.planningMode === 'couple' && birthYears ? { config, birthYears } : undefined
+}
+
+/**
+ * Statutory pension data and the survivor phase of a couple withdrawal plan: after the first death, the own
+ * pension and the Witwenrente of the survivor replace the pensions of both partners
+ */
+function initializePensionAndSurvivorState(params: CalculateWithdrawalParams): {
+  statutoryPensionData: StatutoryPensionResult
+  coupleSurvivorState?: CoupleSurvivorState
+} {
+  const statutoryPensionData = initializeStatutoryPensionData(
+    params.statutoryPensionConfig,
+    params.startYear,
+    params.endYear,
+  )
+  const plan = getCoupleWithdrawalPlan(params)
+  const phase = plan ? determineSurvivorPhase(plan.config, plan.birthYears) : null
+  if (!plan || !phase) {
+    return { statutoryPensionData }
+  }
+
+  const survivorPensions = calculateSurvivorPensionData(
+    params.coupleStatutoryPensionConfig,
+    params.statutoryPensionConfig,
+    phase,
+    statutoryPensionData,
+    params.endYear,
+  )
+  return {
+    statutoryPensionData: survivorPensions.pensionData,
+    coupleSurvivorState: {
+      ...plan,
+      phase,
+      witwenrente: survivorPensions.witwenrente,
+      pensionsSplitEqually: survivorPensions.pensionsSplitEqually,
+    },
+  }
+}
+
+/**
+ * Last withdrawal year: a couple withdrawal plan ends with the death of the survivor, also after the configured
+ * end of the withdrawal
+ */
+function getWithdrawalEndYear(params: CoupleWithdrawalPlanParams): number {
+  const plan = getCoupleWithdrawalPlan(params)
+  return plan ? getCoupleWithdrawalEndYear(plan.config, plan.birthYears) : params.endYear
+}
+
+/**
+ * Sparerpauschbetrag per withdrawal year: after the Gnadensplitting year the survivor only has the individual
+ * Sparerpauschbetrag, half of the joint one of the couple
+ */
+function getSurvivorFreibetragPerYear(
+  params: CalculateWithdrawalParams,
+  coupleSurvivorState: CoupleSurvivorState | undefined,
+): { [year: number]: number } | undefined {
+  if (!coupleSurvivorState) {
+    return params.freibetragPerYear
+  }
+
+  const getFreibetragForYear = createFreibetragAccessor(params.freibetragPerYear)
+  const freibetragPerYear: { [year: number]: number } = { ...params.freibetragPerYear }
+  for (let year = params.startYear; year <= params.endYear; year++) {
+    const share = isJointAssessmentYear(coupleSurvivorState.phase, year) ? 1 : 0.5
+    freibetragPerYear[year] = getFreibetragForYear(year) * share
+  }
+  return freibetragPerYear
+}
+
+/**
+ * Mortgage payments and sale proceeds of an owned property per year up to the end of the withdrawal
+ */
+function initializePropertyFlows(params: CalculateWithdrawalParams): Record<number, PropertyDepotFlow> | undefined {
+  const config = params.propertyOwnershipConfig
+  return config?.enabled ? getPropertyDepotFlowsByYear(calculatePropertyTimeline(config, params.endYear)) : undefined
 }
 
 /**
@@ -2722,21 +3833,21 @@ function initializeWithdrawalData(params: CalculateWithdrawalParams) {
     strategy,
     returnConfig,
     bucketConfig,
-    statutoryPensionConfig,
     otherIncomeConfig,
-    elements,
-    freibetragPerYear,
     grundfreibetragPerYear,
   } = params
 
+  const { statutoryPensionData, coupleSurvivorState } = initializePensionAndSurvivorState(params)
+  const freibetragPerYear = getSurvivorFreibetragPerYear(params, coupleSurvivorState)
   const getFreibetragForYear = createFreibetragAccessor(freibetragPerYear)
-  const getGrundfreibetragForYear = createGrundfreibetragAccessor(grundfreibetragPerYear)
+  const getGrundfreibetragForYear = createGrundfreibetragAccessor(grundfreibetragPerYear, params.incomeTaxTariffIndexation)
   const allYears = determineYearsForGrowthRates(startYear, endYear, strategy, bucketConfig)
   const yearlyGrowthRates = generateYearlyGrowthRates(allYears, returnConfig)
-  const statutoryPensionData = initializeStatutoryPensionData(statutoryPensionConfig, startYear, endYear)
   const otherIncomeData = initializeOtherIncomeData(otherIncomeConfig, startYear, endYear)
-  const initialStartingCapital = calculateInitialStartingCapital(elements, startYear)
-  const mutableLayers = initializeMutableLayers(elements, startYear)
+  const workIncomeData = calculateWorkIncome(params.partTimeRetirementWorkConfig, params.emRenteConfig, startYear, endYear)
+  const initialStartingCapital = calculateInitialStartingCapital(params.elements, startYear)
+  const { mutableLayers, lossAccounts } = initializePortfolio(params)
+  const multiAssetState = initializeMultiAssetState(params, allYears, mutableLayers)
 
   const baseWithdrawalAmount = calculateBaseWithdrawalAmount({
     strategy,
@@ -2752,101 +3863,168 @@ function initializeWithdrawalData(params: CalculateWithdrawalParams) {
   const initialCashCushion = initializeCashCushion(strategy, bucketConfig)
 
   return {
+    freibetragPerYear,
     getFreibetragForYear,
     getGrundfreibetragForYear,
     yearlyGrowthRates,
     statutoryPensionData,
     otherIncomeData,
+    workIncomeData,
     initialStartingCapital,
     mutableLayers,
+    lossAccounts,
     baseWithdrawalAmount,
     initialCashCushion,
+    multiAssetState,
+    coupleSurvivorState,
   }
 }
 
-export function calculateWithdrawal(params: CalculateWithdrawalParams): {
+type WithdrawalCalculationResult = {
   result: WithdrawalResult
   finalLayers: MutableLayer[]
-} {
-  const {
-    getFreibetragForYear,
-    getGrundfreibetragForYear,
-    yearlyGrowthRates,
-    statutoryPensionData,
-    otherIncomeData,
-    mutableLayers,
-    baseWithdrawalAmount,
-    initialCashCushion,
-  } = initializeWithdrawalData(params)
+  portfolioTaxState: PortfolioTaxState
+}
+
+export function calculateWithdrawal(params: CalculateWithdrawalParams): WithdrawalCalculationResult {
+  return calculateWithdrawalUntilEndYear({ ...params, endYear: getWithdrawalEndYear(params) })
+}
+
+/**
+ * Withdrawal up to the end year of the params, for which all data sources (pensions, other income, property) are
+ * initialized
+ */
+function calculateWithdrawalUntilEndYear(params: CalculateWithdrawalParams): WithdrawalCalculationResult {
+  const { initialCashCushion, ...withdrawalData } = initializeWithdrawalData(params)
+  const { mutableLayers, lossAccounts } = withdrawalData
 
   const yearParams: WithdrawalYearParams = {
     ...params,
     withdrawalFrequency: params.withdrawalFrequency || 'yearly',
     taxRate: params.taxRate || 0.26375,
-    teilfreistellungsquote: params.teilfreistellungsquote || 0.3,
+    teilfreistellungsquote: params.teilfreistellungsquote ?? 0.3,
     steuerReduzierenEndkapital: params.steuerReduzierenEndkapital !== false,
     kirchensteuerAktiv: params.kirchensteuerAktiv || false,
     kirchensteuersatz: params.kirchensteuersatz || 9,
     guenstigerPruefungAktiv: params.guenstigerPruefungAktiv || false,
-    incomeTaxRate: params.incomeTaxRate,
-    baseWithdrawalAmount,
-    getFreibetragForYear,
-    getGrundfreibetragForYear,
-    yearlyGrowthRates,
-    statutoryPensionData,
-    otherIncomeData,
-    mutableLayers,
+    ...withdrawalData,
     monthlyConfig: params.monthlyConfig,
     inflationConfig: params.inflationConfig,
     progressionsvorbehaltConfig: params.progressionsvorbehaltConfig,
+    incomeTaxTariffIndexation: params.incomeTaxTariffIndexation,
+    propertyFlowsByYear: initializePropertyFlows(params),
   }
 
   // Process all withdrawal years
-  const result = processAllWithdrawalYears(params.startYear, params.endYear, initialCashCushion, yearParams)
+  const { endYear } = params
+  const result = processAllWithdrawalYears(params.startYear, endYear, initialCashCushion, yearParams)
+
+  const finalLayers = updateFinalLayers(mutableLayers, endYear)
+  const portfolioTaxState = createFinalPortfolioTaxState(
+    finalLayers,
+    lossAccounts.lossAccountState,
+    lossAccounts.stockGainsRatio,
+    endYear,
+  )
+
+  return { result, finalLayers, portfolioTaxState }
+}
 
-  const finalLayers = updateFinalLayers(mutableLayers, params.endYear)
+/**
+ * Parameters of calculateWithdrawal for one segment of a segmented withdrawal
+ */
+function createSegmentWithdrawalParams(
+  segment: WithdrawalSegment,
+  segmentedConfig: SegmentedWithdrawalConfig,
+  elements: SparplanElement[],
+  portfolioTaxState: PortfolioTaxState | undefined,
+): CalculateWithdrawalParams {
+  return {
+    elements,
+    startYear: segment.startYear,
+    endYear: segment.endYear,
+    strategy: segment.strategy,
+    withdrawalFrequency: segment.withdrawalFrequency,
+    returnConfig: segment.returnConfig,
+    taxRate: segmentedConfig.taxRate,
+    teilfreistellungsquote: segmentedConfig.teilfreistellungsquote,
+    freibetragPerYear: segmentedConfig.freibetragPerYear,
+    steuerReduzierenEndkapital: segment.steuerReduzierenEndkapital ?? true,
+    monthlyConfig: segment.monthlyConfig,
+    customPercentage: segment.customPercentage,
+
+    kirchensteuerAktiv: segmentedConfig.kirchensteuerAktiv ?? false,
+    kirchensteuersatz: segmentedConfig.kirchensteuersatz ?? 9,
+    inflationConfig: segment.inflationConfig,
+    dynamicConfig: segment.dynamicConfig,
+    bucketConfig: segment.bucketConfig,
+    rmdConfig: segment.rmdConfig,
+    steueroptimierteEntnahmeConfig: segment.steuerOptimierteConfig,
+    bedarfsorientierteConfig: segment.bedarfsorientierteConfig,
+    statutoryPensionConfig: segmentedConfig.statutoryPensionConfig,
+    partTimeRetirementWorkConfig: segmentedConfig.partTimeRetirementWorkConfig,
+    emRenteConfig: segmentedConfig.emRenteConfig,
+    spendenConfig: segmentedConfig.spendenConfig,
+    enableGrundfreibetrag: segmentedConfig.enableGrundfreibetrag,
+    grundfreibetragPerYear: segmentedConfig.grundfreibetragPerYear,
+    incomeTaxRate: segmentedConfig.incomeTaxRate,
+    incomeTaxTariffIndexation: segmentedConfig.incomeTaxTariffIndexation,
+    guenstigerPruefungAktiv: segmentedConfig.guenstigerPruefungAktiv,
+    healthCareInsuranceConfig: segmentedConfig.healthCareInsuranceConfig,
+    otherIncomeConfig: segmentedConfig.otherIncomeConfig,
+    realizedLossesByYear: segmentedConfig.realizedLossesByYear,
+    propertyOwnershipConfig: segmentedConfig.propertyOwnershipConfig,
+    birthYear: segmentedConfig.birthYear,
+    spouseBirthYear: segmentedConfig.spouseBirthYear,
+    planningMode: segmentedConfig.planningMode,
+    coupleStatutoryPensionConfig: segmentedConfig.coupleStatutoryPensionConfig,
+    coupleWithdrawalConfig: segmentedConfig.coupleWithdrawalConfig,
+    portfolioTaxState,
+  }
+}
+
+/**
+ * Segments sorted by start year up to the end of the withdrawal: with a couple withdrawal plan the segments end with
+ * the death of the survivor and the last segment continues until then
+ */
+function getSegmentsUntilWithdrawalEnd(segmentedConfig: SegmentedWithdrawalConfig): WithdrawalSegment[] {
+  const sortedSegments = [...segmentedConfig.segments].sort(
+    (a: WithdrawalSegment, b: WithdrawalSegment) => a.startYear - b.startYear,
+  )
+  const lastSegment = sortedSegments[sortedSegments.length - 1]
+  if (!lastSegment) {
+    return sortedSegments
+  }
 
-  return { result, finalLayers }
+  const endYear = getWithdrawalEndYear({ ...segmentedConfig, endYear: lastSegment.endYear })
+  const segments = sortedSegments.filter(segment => segment.startYear <= endYear)
+  return segments.map((segment, index) => ({
+    ...segment,
+    endYear: index === segments.length - 1 ? endYear : Math.min(segment.endYear, endYear),
+  }))
 }
 
 export function calculateSegmentedWithdrawal(
   elements: SparplanElement[],
   segmentedConfig: SegmentedWithdrawalConfig,
+  portfolioTaxState?: PortfolioTaxState,
 ): WithdrawalResult {
   const result: WithdrawalResult = {}
   let currentLayers: SparplanElement[] = elements
-
-  const sortedSegments = [...segmentedConfig.segments].sort(
-    (a: WithdrawalSegment, b: WithdrawalSegment) => a.startYear - b.startYear,
-  )
-
-  for (const segment of sortedSegments) {
-    const { result: segmentResultData, finalLayers } = calculateWithdrawal({
-      elements: currentLayers,
-      startYear: segment.startYear,
-      endYear: segment.endYear,
-      strategy: segment.strategy,
-      withdrawalFrequency: segment.withdrawalFrequency,
-      returnConfig: segment.returnConfig,
-      taxRate: segmentedConfig.taxRate,
-      teilfreistellungsquote: 0.3, // Assuming default, should be passed in config
-      freibetragPerYear: segmentedConfig.freibetragPerYear,
-      steuerReduzierenEndkapital: segment.steuerReduzierenEndkapital ?? true,
-      monthlyConfig: segment.monthlyConfig,
-      customPercentage: segment.customPercentage,
-
-      kirchensteuerAktiv: segmentedConfig.kirchensteuerAktiv ?? false,
-      kirchensteuersatz: segmentedConfig.kirchensteuersatz ?? 9,
-      inflationConfig: segment.inflationConfig,
-      dynamicConfig: segment.dynamicConfig,
-      bucketConfig: segment.bucketConfig,
-      rmdConfig: segment.rmdConfig,
-      steueroptimierteEntnahmeConfig: segment.steuerOptimierteConfig,
-      statutoryPensionConfig: segmentedConfig.statutoryPensionConfig,
-    })
+  let currentTaxState = portfolioTaxState
+
+  for (const segment of getSegmentsUntilWithdrawalEnd(segmentedConfig)) {
+    const {
+      result: segmentResultData,
+      finalLayers,
+      portfolioTaxState: segmentTaxState,
+    } = calculateWithdrawalUntilEndYear(
+      createSegmentWithdrawalParams(segment, segmentedConfig, currentLayers, currentTaxState),
+    )
 
     Object.assign(result, segmentResultData)
     currentLayers = finalLayers
+    currentTaxState = segmentTaxState
 
     const lastYearOfSegment = Object.keys(segmentResultData)
       .map(Number)
@@ -2859,6 +4037,39 @@ export function calculateSegmentedWithdrawal(
   return result
 }
 
+/**
+ * Income tax of a taxable income with the §32a tariff of the year, the Grundfreibetrag is the
+ * first zone of the tax brackets. With Progressionsvorbehalt, the besonderer Steuersatz of the tariff applies.
+ */
+export function calculateTariffIncomeTax(
+  taxableIncome: number,
+  taxBrackets: TaxBracket[],
+  kirchensteuerAktiv = false,
+  kirchensteuersatz = 9,
+  progressionRelevantIncome = 0,
+): number {
+  if (progressionRelevantIncome > 0) {
+    return calculateIncomeTaxWithProgressionsvorbehalt(
+      taxableIncome,
+      progressionRelevantIncome,
+      undefined,
+      kirchensteuerAktiv,
+      kirchensteuersatz,
+      taxBrackets,
+    )
+  }
+
+  const baseIncomeTax = calculateProgressiveTax(Math.max(0, taxableIncome), 0, 0, taxBrackets).totalTax
+  const kirchensteuer = kirchensteuerAktiv ? baseIncomeTax * (kirchensteuersatz / 100) : 0
+
+  return baseIncomeTax + kirchensteuer
+}
+
+/**
+ * Legacy: Calculate income tax on withdrawals above the Grundfreibetrag using the given flat income tax rate.
+ * With Progressionsvorbehalt, the rate is derived from the tariff of the calculated year
+ * when its tax brackets are passed.
+ */
 export function calculateIncomeTax(
   withdrawalAmount: number,
   grundfreibetragYear = grundfreibetrag[2023],
@@ -2866,6 +4077,7 @@ export function calculateIncomeTax(
   kirchensteuerAktiv = false,
   kirchensteuersatz = 9,
   progressionRelevantIncome = 0,
+  taxBrackets?: TaxBracket[],
 ): number {
   // If Progressionsvorbehalt is enabled (progression income > 0), use the special calculation
   if (progressionRelevantIncome > 0) {
@@ -2875,6 +4087,7 @@ export function calculateIncomeTax(
       grundfreibetragYear,
       kirchensteuerAktiv,
       kirchensteuersatz,
+      taxBrackets,
     )
   }
 
@@ -3,11 +3,13 @@ import { CareCostConfiguration } from './CareCostConfiguration'
 import { TermLifeInsuranceConfiguration } from './TermLifeInsuranceConfiguration'
 import { CareInsuranceConfiguration } from './CareInsuranceConfiguration'
 import { EMRenteConfiguration } from './EMRenteConfiguration'
+import { PropertyOwnershipConfiguration } from './PropertyOwnershipConfiguration'
 import type { CoupleStatutoryPensionConfig } from '../../helpers/statutory-pension'
 import type { CareCostConfiguration as CareCostConfig } from '../../helpers/care-cost-simulation'
 import type { TermLifeInsuranceConfig } from '../../helpers/term-life-insurance'
 import type { CareInsuranceConfig } from '../../helpers/care-insurance'
 import type { EMRenteConfig } from '../../helpers/em-rente'
+import type { PropertyOwnershipConfig } from '../../helpers/immobilien-eigentum'
 
 type PlanningMode = 'individual' | 'couple'
 
@@ -26,10 +28,12 @@ interface AdditionalConfigSectionsProps {
   setCareInsuranceConfig: (config: CareInsuranceConfig | null) => void
   emRenteConfig: EMRenteConfig | null
   setEMRenteConfig: (config: EMRenteConfig | null) => void
+  propertyOwnershipConfig: PropertyOwnershipConfig | null
+  setPropertyOwnershipConfig: (config: PropertyOwnershipConfig | null) => void
 }
 
 export function AdditionalConfigSections(props: AdditionalConfigSectionsProps) {
-  const { currentYear, birthYear, spouseBirthYear, planningMode, coupleStatutoryPensionConfig, setCoupleStatutoryPensionConfig, careCostConfiguration, setCareCostConfiguration, termLifeInsuranceConfig, setTermLifeInsuranceConfig, careInsuranceConfig, setCareInsuranceConfig, emRenteConfig, setEMRenteConfig } = props
+  const { currentYear, birthYear, spouseBirthYear, planningMode, coupleStatutoryPensionConfig, setCoupleStatutoryPensionConfig, careCostConfiguration, setCareCostConfiguration, termLifeInsuranceConfig, setTermLifeInsuranceConfig, careInsuranceConfig, setCareInsuranceConfig, emRenteConfig, setEMRenteConfig, propertyOwnershipConfig, setPropertyOwnershipConfig } = props
 
   return (
     <>
@@ -39,6 +43,9 @@ export function AdditionalConfigSections(props: AdditionalConfigSectionsProps) {
       <div className="mb-6">
         <EMRenteConfiguration config={emRenteConfig} onChange={setEMRenteConfig} currentYear={currentYear} birthYear={birthYear} />
       </div>
+      <div className="mb-6">
+        <PropertyOwnershipConfiguration config={propertyOwnershipConfig} onChange={setPropertyOwnershipConfig} currentYear={currentYear} />
+      </div>
       <div className="mb-6">
         <CareCostConfiguration values={careCostConfiguration} onChange={setCareCostConfiguration} currentYear={currentYear} birthYear={birthYear} spouseBirthYear={spouseBirthYear} planningMode={planningMode} nestingLevel={1} />
       </div>
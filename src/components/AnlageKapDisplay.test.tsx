@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import { AnlageKapDisplay } from './AnlageKapDisplay'
+import type { AnlageKapReconciliation } from '../../helpers/depot-taxation'
+
+describe('AnlageKapDisplay', () => {
+  const anlageKap: AnlageKapReconciliation = {
+    year: 2025,
+    depots: [
+      {
+        depotId: 'a',
+        name: 'Broker A',
+        taxBeforeFreibetrag: 300,
+        freistellungsauftrag: 800,
+        genutzterFreibetrag: 300,
+        taxWithheld: 0,
+      },
+      {
+        depotId: 'b',
+        name: 'Broker B',
+        taxBeforeFreibetrag: 500,
+        freistellungsauftrag: 200,
+        genutzterFreibetrag: 200,
+        taxWithheld: 300,
+      },
+    ],
+    totalTaxWithheld: 300,
+    sparerpauschbetrag: 1000,
+    taxDue: 0,
+    erstattung: 300,
+  }
+
+  it('should show the withholding per depot and the refund', () => {
+    render(<AnlageKapDisplay anlageKap={anlageKap} />)
+
+    expect(screen.getByText(/Anlage KAP 2025/)).toBeInTheDocument()
+    expect(screen.getByText(/Broker A/)).toBeInTheDocument()
+    expect(screen.getByText(/Broker B/)).toBeInTheDocument()
+    expect(screen.getByText(/Erstattung/)).toBeInTheDocument()
+  })
+
+  it('should show an additional payment', () => {
+    render(<AnlageKapDisplay anlageKap={{ ...anlageKap, taxDue: 500, erstattung: -200 }} />)
+
+    expect(screen.getByText(/Nachzahlung/)).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,56 @@
+/**
+ * Component to display the tax withheld per depot and the reconciliation via Anlage KAP
+ */
+
+import { formatCurrency } from '../utils/currency'
+import type { AnlageKapReconciliation, DepotTaxResult } from '../../helpers/depot-taxation'
+
+interface AnlageKapDisplayProps {
+  anlageKap: AnlageKapReconciliation
+}
+
+function DepotRow({ depot }: { depot: DepotTaxResult }) {
+  return (
+    <div className="flex justify-between gap-4">
+      <span>
+        {depot.name} (FSA {formatCurrency(depot.freistellungsauftrag)}):
+      </span>
+      <span className="font-medium">{formatCurrency(depot.taxWithheld)} einbehalten</span>
+    </div>
+  )
+}
+
+function ReconciliationResult({ erstattung }: { erstattung: number }) {
+  if (Math.abs(erstattung) < 0.01) {
+    return <span className="font-medium">kein Ausgleich</span>
+  }
+
+  return erstattung > 0 ? (
+    <span className="font-medium text-green-700">Erstattung {formatCurrency(erstattung)}</span>
+  ) : (
+    <span className="font-medium text-red-600">Nachzahlung {formatCurrency(-erstattung)}</span>
+  )
+}
+
+/**
+ * Compact display of the depot withholding and the Anlage KAP result within a simulation year
+ */
+export function AnlageKapDisplay({ anlageKap }: AnlageKapDisplayProps) {
+  return (
+    <div className="bg-slate-50 px-2 py-1 rounded space-y-1 text-xs">
+      <div className="flex justify-between items-center text-sm">
+        <span className="text-slate-700 font-medium">🏦 Anlage KAP {anlageKap.year}:</span>
+        <ReconciliationResult erstattung={anlageKap.erstattung} />
+      </div>
+      {anlageKap.depots.map(depot => (
+        <DepotRow key={depot.depotId} depot={depot} />
+      ))}
+      <div className="flex justify-between gap-4 pt-1 border-t">
+        <span>Einbehalten / tatsächlich geschuldet:</span>
+        <span className="font-medium">
+          {formatCurrency(anlageKap.totalTaxWithheld)} / {formatCurrency(anlageKap.taxDue)}
+        </span>
+      </div>
+    </div>
+  )
+}
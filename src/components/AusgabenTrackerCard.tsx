@@ -48,6 +48,10 @@ interface AusgabenTrackerCardProps {
   geburtsjahr: number
   /** Callback when expenses configuration changes */
   onAusgabenChange?: (ausgaben: JahresAusgaben[]) => void
+  /** Controlled configuration (e.g. of the bedarfsorientiert withdrawal strategy) */
+  config?: AusgabenTrackerConfig
+  /** Callback for the controlled configuration */
+  onConfigChange?: (config: AusgabenTrackerConfig) => void
 }
 
 interface SummaryStatsProps {
@@ -423,15 +427,38 @@ function useKategorieUpdater(
   }
 }
 
+/**
+ * Configuration state of the tracker; uses the passed configuration when controlled
+ */
+function useTrackerConfig(
+  geburtsjahr: number,
+  controlledConfig?: AusgabenTrackerConfig,
+  onConfigChange?: (config: AusgabenTrackerConfig) => void,
+): [AusgabenTrackerConfig, Dispatch<SetStateAction<AusgabenTrackerConfig>>] {
+  const [localConfig, setLocalConfig] = useState<AusgabenTrackerConfig>(() =>
+    createDefaultAusgabenTrackerConfig(geburtsjahr),
+  )
+
+  if (!controlledConfig || !onConfigChange) {
+    return [localConfig, setLocalConfig]
+  }
+
+  const setControlledConfig: Dispatch<SetStateAction<AusgabenTrackerConfig>> = (action) => {
+    onConfigChange(typeof action === 'function' ? action(controlledConfig) : action)
+  }
+
+  return [controlledConfig, setControlledConfig]
+}
+
 export function AusgabenTrackerCard({
   startjahr,
   endjahr,
   geburtsjahr,
   onAusgabenChange,
+  config: controlledConfig,
+  onConfigChange,
 }: AusgabenTrackerCardProps) {
-  const [config, setConfig] = useState<AusgabenTrackerConfig>(() =>
-    createDefaultAusgabenTrackerConfig(geburtsjahr),
-  )
+  const [config, setConfig] = useTrackerConfig(geburtsjahr, controlledConfig, onConfigChange)
   const [showDetails, setShowDetails] = useState(false)
 
   const ids = useFormIds()
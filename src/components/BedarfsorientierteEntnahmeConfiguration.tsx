@@ -0,0 +1,92 @@
+import { useMemo } from 'react'
+import { Label } from './ui/label'
+import { Input } from './ui/input'
+import { RadioTile, RadioTileGroup } from './ui/radio-tile'
+import { AusgabenTrackerCard } from './AusgabenTrackerCard'
+import { DynamicSpendingConfiguration } from './DynamicSpendingConfiguration'
+import { generateFormId } from '../utils/unique-id'
+import type { BedarfsQuelle, BedarfsorientierteEntnahmeConfig } from '../../helpers/bedarfsorientierte-entnahme'
+
+interface BedarfsorientierteEntnahmeConfigurationProps {
+  config: BedarfsorientierteEntnahmeConfig
+  onChange: (config: BedarfsorientierteEntnahmeConfig) => void
+  /** Last year of the withdrawal phase (for the preview of the spending models) */
+  endYear: number
+}
+
+function GeburtsjahrInput({ config, onChange }: Omit<BedarfsorientierteEntnahmeConfigurationProps, 'endYear'>) {
+  const id = useMemo(() => generateFormId('bedarfsorientierte-entnahme', 'geburtsjahr'), [])
+
+  const handleChange = (geburtsjahr: number) => {
+    if (!geburtsjahr) return
+    onChange({
+      ...config,
+      ausgabenTracker: { ...config.ausgabenTracker, geburtsjahr },
+      dynamicSpending: { ...config.dynamicSpending, birthYear: geburtsjahr },
+    })
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>Geburtsjahr (für Lebensabschnitte und Ausgabenphasen)</Label>
+      <Input
+        id={id}
+        type="number"
+        min={1900}
+        max={2100}
+        value={config.ausgabenTracker.geburtsjahr}
+        onChange={e => handleChange(Number(e.target.value))}
+      />
+    </div>
+  )
+}
+
+/**
+ * Configuration of the bedarfsorientiert strategy: the spending model that provides the yearly need
+ */
+export function BedarfsorientierteEntnahmeConfiguration({
+  config,
+  onChange,
+  endYear,
+}: BedarfsorientierteEntnahmeConfigurationProps) {
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Entnommen wird der jährliche Ausgabenbedarf abzüglich Renten und sonstiger Nettoeinkünfte. Auf den verbleibenden
+        Bedarf werden die geschätzten Steuern der Entnahme aufgeschlagen.
+      </p>
+      <div className="space-y-2">
+        <Label>Ausgabenbedarf aus</Label>
+        <RadioTileGroup
+          value={config.quelle}
+          name="bedarfsorientierte-entnahme-quelle"
+          onValueChange={value => onChange({ ...config, quelle: value as BedarfsQuelle })}
+        >
+          <RadioTile value="ausgaben-tracker" label="Ausgaben-Tracker">
+            Kategorien mit eigener Inflation und Lebensabschnitten
+          </RadioTile>
+          <RadioTile value="dynamische-ausgaben" label="Dynamische Ausgaben">
+            Go-Go-, Slow-Go- und No-Go-Phasen mit Großausgaben und Gesundheitskosten
+          </RadioTile>
+        </RadioTileGroup>
+      </div>
+      <GeburtsjahrInput config={config} onChange={onChange} />
+      {config.quelle === 'ausgaben-tracker' ? (
+        <AusgabenTrackerCard
+          startjahr={config.basisjahr}
+          endjahr={endYear}
+          geburtsjahr={config.ausgabenTracker.geburtsjahr}
+          config={config.ausgabenTracker}
+          onConfigChange={ausgabenTracker => onChange({ ...config, ausgabenTracker })}
+        />
+      ) : (
+        <DynamicSpendingConfiguration
+          config={config.dynamicSpending}
+          onChange={dynamicSpending => onChange({ ...config, dynamicSpending })}
+          retirementStartYear={config.basisjahr}
+          retirementEndYear={endYear}
+        />
+      )}
+    </div>
+  )
+}
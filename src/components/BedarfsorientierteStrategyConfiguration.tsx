@@ -0,0 +1,28 @@
+import { useSimulation } from '../contexts/useSimulation'
+import type { WithdrawalFormValue } from '../utils/config-storage'
+import { resolveBedarfsorientierteConfig } from '../../helpers/bedarfsorientierte-entnahme'
+import { BedarfsorientierteEntnahmeConfiguration } from './BedarfsorientierteEntnahmeConfiguration'
+
+interface BedarfsorientierteStrategyConfigurationProps {
+  formValue: Pick<WithdrawalFormValue, 'bedarfsorientierteConfig'>
+  updateFormValue: (updates: Partial<WithdrawalFormValue>) => void
+}
+
+/**
+ * Spending models of the bedarfsorientiert strategy for the uniform withdrawal (stored in the form value)
+ */
+export function BedarfsorientierteStrategyConfiguration({
+  formValue,
+  updateFormValue,
+}: BedarfsorientierteStrategyConfigurationProps) {
+  const { startEnd, endOfLife, birthYear } = useSimulation()
+  const config = resolveBedarfsorientierteConfig(formValue.bedarfsorientierteConfig, startEnd[0] + 1, birthYear)
+
+  return (
+    <BedarfsorientierteEntnahmeConfiguration
+      config={config}
+      onChange={bedarfsorientierteConfig => updateFormValue({ bedarfsorientierteConfig })}
+      endYear={endOfLife}
+    />
+  )
+}
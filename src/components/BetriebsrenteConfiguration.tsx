@@ -161,7 +161,10 @@ function PayoutPhaseDisplay({
         </div>
       </div>
       <p className="text-xs text-gray-600">
-        100% der bAV-Rente ist steuerpflichtig (nachgelagerte Besteuerung)
+        {result.versorgungsfreibetrag > 0
+          ? `Versorgungsbezug (§ 19 EStG): Der Versorgungsfreibetrag von ${result.versorgungsfreibetrag.toFixed(0)} € ` +
+            'des Rentenbeginns bleibt für die gesamte Laufzeit steuerfrei'
+          : '100% der bAV-Rente ist steuerpflichtig (nachgelagerte Besteuerung)'}
       </p>
     </div>
   )
@@ -374,13 +377,15 @@ function useBetriebsrenteCalculations(
       config.pensionIncreaseRate,
       pensionTaxRate,
       true,
-      true
+      true,
+      config.implementationType
     )
   }, [
     config.enabled,
     config.expectedMonthlyPension,
     config.pensionStartYear,
     config.pensionIncreaseRate,
+    config.implementationType,
     pensionTaxRate,
   ])
 
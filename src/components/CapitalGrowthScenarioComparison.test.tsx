@@ -7,6 +7,7 @@ import userEvent from '@testing-library/user-event'
 import { vi, describe, it, expect, beforeEach } from 'vitest'
 import { CapitalGrowthScenarioComparison } from './CapitalGrowthScenarioComparison'
 import { SimulationProvider } from '../contexts/SimulationContext'
+import { getSimulationWorkerPool } from '../workers/simulation-worker-pool'
 
 // Mock the useSimulation hook
 vi.mock('../contexts/useSimulation', () => ({
@@ -233,6 +234,8 @@ describe('CapitalGrowthScenarioComparison', () => {
 
   describe('Running Comparison', () => {
     it('should show loading state when running comparison', async () => {
+      // Keep the scenario simulations running in the worker pool
+      const runSpy = vi.spyOn(getSimulationWorkerPool(), 'run').mockReturnValue(new Promise(() => {}))
       const user = userEvent.setup()
       renderComponent()
 
@@ -246,6 +249,8 @@ describe('CapitalGrowthScenarioComparison', () => {
 
       // Should show loading text
       expect(screen.getByRole('button', { name: /Berechne.../ })).toBeInTheDocument()
+      expect(runSpy).toHaveBeenCalledWith(expect.objectContaining({ kind: 'simulate' }), expect.anything())
+      runSpy.mockRestore()
     })
 
     it('should display results after running comparison', async () => {
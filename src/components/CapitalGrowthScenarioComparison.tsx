@@ -5,7 +5,7 @@
  * Allows users to compare up to 5 different financial planning scenarios side-by-side
  */
 
-import { useState, useMemo, type Dispatch, type SetStateAction } from 'react'
+import { useState, useMemo, useId, type Dispatch, type SetStateAction } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
 import { Button } from './ui/button'
 import { Label } from './ui/label'
@@ -18,10 +18,13 @@ import {
   DEFAULT_COMPARISON_CONFIG,
 } from '../types/capital-growth-comparison'
 import {
-  simulateComparison,
+  buildScenarioSimulateOptions,
+  createComparisonWithResults,
+  createScenarioResult,
   createComparison,
   createScenario,
 } from '../utils/capital-growth-comparison'
+import { getSimulationWorkerPool } from '../workers/simulation-worker-pool'
 import { useSimulation } from '../contexts/useSimulation'
 import { ScenarioComparisonChart } from './ScenarioComparisonChart'
 import { mapSimulationContextToConfig } from '../utils/config-mappers'
@@ -119,6 +122,34 @@ function useScenarioUpdates(
   return { handleUpdateScenarioName, handleUpdateScenarioReturn }
 }
 
+/**
+ * Simulates all scenarios of a comparison in the simulation worker pool
+ * @returns Updated comparison with simulation results, or null when a simulation was cancelled
+ */
+async function simulateComparisonInWorkerPool(
+  comparison: CapitalGrowthComparison,
+  keyPrefix: string
+): Promise<CapitalGrowthComparison | null> {
+  const pool = getSimulationWorkerPool()
+  const outcomes = await Promise.all(
+    comparison.scenarios.map((scenario) =>
+      pool.run(
+        { kind: 'simulate', options: buildScenarioSimulateOptions(scenario) },
+        { key: `${keyPrefix}-${scenario.id}` }
+      )
+    )
+  )
+
+  const results = []
+  for (const [index, outcome] of outcomes.entries()) {
+    if (outcome.status === 'cancelled') {
+      return null
+    }
+    results.push(createScenarioResult(comparison.scenarios[index]!, outcome.result))
+  }
+  return createComparisonWithResults(comparison, results)
+}
+
 /**
  * Handler for running comparison simulation
  */
@@ -126,16 +157,17 @@ function useComparisonSimulation(
   comparison: CapitalGrowthComparison,
   setComparison: Dispatch<SetStateAction<CapitalGrowthComparison>>
 ) {
+  const keyPrefix = `scenario-comparison-${useId()}`
+
   const handleRunComparison = async () => {
     if (comparison.scenarios.length < 2) {
       return
     }
 
-    // Run simulation in a timeout to allow UI to update
-    await new Promise((resolve) => setTimeout(resolve, 100))
-
-    const results = simulateComparison(comparison)
-    setComparison(results)
+    const results = await simulateComparisonInWorkerPool(comparison, keyPrefix)
+    if (results) {
+      setComparison(results)
+    }
   }
 
   return { handleRunComparison }
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { CashFlowStatementCard } from './CashFlowStatementCard'
+import { useSimulation } from '../contexts/useSimulation'
+import { downloadTextAsFile } from '../utils/data-export'
+import type { SparplanElement } from '../utils/sparplan-utils'
+import type { WithdrawalResult } from '../../helpers/withdrawal'
+
+vi.mock('../contexts/useSimulation', () => ({
+  useSimulation: vi.fn(),
+}))
+
+vi.mock('../utils/data-export', async () => ({
+  ...(await vi.importActual('../utils/data-export')),
+  downloadTextAsFile: vi.fn(),
+}))
+
+describe('CashFlowStatementCard', () => {
+  const mockUseSimulation = vi.mocked(useSimulation)
+  const elemente: SparplanElement[] = [
+    {
+      start: '2025-01-01',
+      type: 'sparplan',
+      einzahlung: 12000,
+      simulation: {
+        2025: {
+          startkapital: 0,
+          zinsen: 600,
+          endkapital: 12600,
+          bezahlteSteuer: 0,
+          genutzterFreibetrag: 0,
+          vorabpauschale: 0,
+          vorabpauschaleAccumulated: 0,
+        },
+      },
+    },
+    {
+      start: '2025-01-01',
+      type: 'einmalzahlung',
+      einzahlung: -12000,
+      gewinn: 0,
+      eventType: 'expense',
+      specialEventData: { expenseType: 'car', creditTerms: { interestRate: 0, termYears: 1, monthlyPayment: 1000 } },
+      simulation: {},
+    },
+  ]
+  const withdrawalResult: WithdrawalResult = {
+    2026: {
+      startkapital: 12600,
+      entnahme: 2000,
+      endkapital: 11000,
+      bezahlteSteuer: 0,
+      genutzterFreibetrag: 0,
+      zinsen: 400,
+      statutoryPension: { grossAnnualAmount: 3000, netAnnualAmount: 3000, incomeTax: 0, taxableAmount: 0 },
+    },
+    2027: {
+      startkapital: 11000,
+      entnahme: 2000,
+      endkapital: 9400,
+      bezahlteSteuer: 0,
+      genutzterFreibetrag: 0,
+      zinsen: 400,
+      einkommensteuer: 500,
+    },
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockUseSimulation.mockReturnValue({
+      steuerReduzierenEndkapitalSparphase: true,
+      steuerReduzierenEndkapitalEntspharphase: true,
+    } as unknown as ReturnType<typeof useSimulation>)
+  })
+
+  it('should not render without any years', () => {
+    const { container } = render(<CashFlowStatementCard elemente={[]} withdrawalResult={null} />)
+
+    expect(container.firstChild).toBeNull()
+  })
+
+  it('should list both phases and flag deficit years', () => {
+    render(<CashFlowStatementCard elemente={elemente} withdrawalResult={withdrawalResult} />)
+    fireEvent.click(screen.getByText(/Kapitalflussrechnung/))
+
+    expect(screen.getByText('Lebenshaltungskosten')).toBeInTheDocument()
+    expect(screen.getByText('Entnahmen aus dem Depot')).toBeInTheDocument()
+    expect(screen.getByText('Defizit')).toBeInTheDocument()
+    expect(screen.getByText('Überschuss')).toBeInTheDocument()
+    expect(screen.getAllByText('2025').length).toBeGreaterThan(0)
+  })
+
+  it('should switch to monthly values and export them as CSV', () => {
+    render(<CashFlowStatementCard elemente={elemente} withdrawalResult={withdrawalResult} />)
+    fireEvent.click(screen.getByText(/Kapitalflussrechnung/))
+
+    fireEvent.click(screen.getByText('Monatlich'))
+    fireEvent.click(screen.getByRole('button', { name: /CSV Export/ }))
+
+    expect(downloadTextAsFile).toHaveBeenCalledWith(
+      expect.stringContaining('Saldo (EUR/Monat)'),
+      'kapitalflussrechnung_2025-2027.csv',
+      'text/csv;charset=utf-8',
+    )
+  })
+})
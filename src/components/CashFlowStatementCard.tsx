@@ -0,0 +1,180 @@
+import { useMemo, useState } from 'react'
+import { Download } from 'lucide-react'
+import { Card, CardContent } from './ui/card'
+import { Button } from './ui/button'
+import { Collapsible, CollapsibleContent } from './ui/collapsible'
+import { CollapsibleCardHeader } from './ui/collapsible-card'
+import { RadioTile, RadioTileGroup } from './ui/radio-tile'
+import { useSimulation } from '../contexts/useSimulation'
+import { useFormId } from '../utils/unique-id'
+import { formatCurrency } from '../utils/currency'
+import { downloadTextAsFile, exportCashFlowStatementToCSV } from '../utils/data-export'
+import type { SparplanElement } from '../utils/sparplan-utils'
+import type { WithdrawalResult } from '../../helpers/withdrawal'
+import {
+  calculateCashFlowStatement,
+  CASH_FLOW_COLUMNS,
+  CASH_FLOW_STATUS_LABELS,
+  getCashFlowColumnValue,
+  type CashFlowPeriod,
+  type CashFlowStatus,
+  type CashFlowYear,
+} from '../../helpers/kapitalflussrechnung'
+
+const STATUS_CLASSES: Record<CashFlowStatus, string> = {
+  surplus: 'text-green-700',
+  deficit: 'text-red-600 font-medium',
+  balanced: 'text-muted-foreground',
+}
+
+function CashFlowSummary({ statement }: { statement: CashFlowYear[] }) {
+  const deficitYears = statement.filter(entry => entry.status === 'deficit').map(entry => entry.year)
+  const surplusYears = statement.filter(entry => entry.status === 'surplus').length
+  const finalLiquidity = statement[statement.length - 1].cumulativeLiquidity
+
+  return (
+    <div className="bg-slate-50 p-3 rounded text-sm space-y-1">
+      <div className="flex justify-between">
+        <span>Jahre mit Überschuss:</span>
+        <span className="font-medium">{surplusYears}</span>
+      </div>
+      <div className="flex justify-between">
+        <span>Jahre mit Defizit:</span>
+        <span className={deficitYears.length > 0 ? 'font-medium text-red-600' : 'font-medium'}>
+          {deficitYears.length > 0 ? deficitYears.join(', ') : 'keine'}
+        </span>
+      </div>
+      <div className="flex justify-between">
+        <span>Kumulierte Liquidität am Ende:</span>
+        <span className="font-medium">{formatCurrency(finalLiquidity)}</span>
+      </div>
+    </div>
+  )
+}
+
+function CashFlowTable({ statement, period }: { statement: CashFlowYear[]; period: CashFlowPeriod }) {
+  // Only show categories that occur in the plan
+  const columns = CASH_FLOW_COLUMNS.filter(column => statement.some(entry => column.getValue(entry) !== 0))
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b text-left">
+            <th className="py-2 pr-4">Jahr</th>
+            {columns.map(column => (
+              <th key={column.label} className="py-2 pr-4 text-right whitespace-nowrap">
+                {column.label}
+              </th>
+            ))}
+            <th className="py-2">Status</th>
+          </tr>
+        </thead>
+        <tbody>
+          {statement.map(entry => (
+            <tr key={entry.year} className="border-b last:border-0">
+              <td className="py-1 pr-4">{entry.year}</td>
+              {columns.map(column => (
+                <td key={column.label} className="py-1 pr-4 text-right whitespace-nowrap">
+                  {formatCurrency(getCashFlowColumnValue(column, entry, period))}
+                </td>
+              ))}
+              <td className={`py-1 ${STATUS_CLASSES[entry.status]}`}>{CASH_FLOW_STATUS_LABELS[entry.status]}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+function CashFlowControls({
+  statement,
+  period,
+  onPeriodChange,
+}: {
+  statement: CashFlowYear[]
+  period: CashFlowPeriod
+  onPeriodChange: (period: CashFlowPeriod) => void
+}) {
+  const periodId = useFormId('cash-flow-statement', 'period')
+  const handleCSVExport = () => {
+    const range = `${statement[0].year}-${statement[statement.length - 1].year}`
+    downloadTextAsFile(
+      exportCashFlowStatementToCSV(statement, period),
+      `kapitalflussrechnung_${range}.csv`,
+      'text/csv;charset=utf-8',
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      <RadioTileGroup
+        name={periodId}
+        value={period}
+        onValueChange={value => onPeriodChange(value as CashFlowPeriod)}
+        className="grid gap-2 md:grid-cols-2"
+      >
+        <RadioTile value="yearly" label="Jährlich">
+          Zu- und Abflüsse pro Jahr
+        </RadioTile>
+        <RadioTile value="monthly" label="Monatlich">
+          Durchschnittliche Zu- und Abflüsse pro Monat
+        </RadioTile>
+      </RadioTileGroup>
+      <Button variant="outline" size="sm" onClick={handleCSVExport}>
+        <Download className="h-4 w-4 mr-2" />
+        CSV Export
+      </Button>
+    </div>
+  )
+}
+
+/**
+ * Kapitalflussrechnung across savings and withdrawal phase: all inflows and outflows of the
+ * household per year with balance, cumulative liquidity and flagged deficit years
+ */
+export function CashFlowStatementCard({
+  elemente,
+  withdrawalResult,
+}: {
+  elemente: SparplanElement[]
+  withdrawalResult: WithdrawalResult | null
+}) {
+  const { steuerReduzierenEndkapitalSparphase, steuerReduzierenEndkapitalEntspharphase } = useSimulation()
+  const [period, setPeriod] = useState<CashFlowPeriod>('yearly')
+
+  const statement = useMemo(
+    () =>
+      calculateCashFlowStatement({
+        savingsElements: elemente,
+        withdrawalResult,
+        taxesPaidFromDepot: {
+          sparphase: steuerReduzierenEndkapitalSparphase,
+          entnahmephase: steuerReduzierenEndkapitalEntspharphase,
+        },
+      }),
+    [elemente, withdrawalResult, steuerReduzierenEndkapitalSparphase, steuerReduzierenEndkapitalEntspharphase],
+  )
+
+  if (statement.length === 0) {
+    return null
+  }
+
+  return (
+    <Card>
+      <Collapsible defaultOpen={false}>
+        <CollapsibleCardHeader titleClassName="text-left" simplifiedPadding>
+          💶 Kapitalflussrechnung (Zu- und Abflüsse)
+        </CollapsibleCardHeader>
+        <CollapsibleContent>
+          <CardContent className="space-y-6">
+            <CashFlowControls statement={statement} period={period} onPeriodChange={setPeriod} />
+            <CashFlowSummary statement={statement} />
+            <CashFlowTable statement={statement} period={period} />
+          </CardContent>
+        </CollapsibleContent>
+      </Collapsible>
+    </Card>
+  )
+}
@@ -4,6 +4,7 @@ import { useEntnahmeSimulationData } from '../hooks/useEntnahmeSimulationData'
 import { WithdrawalVariablesCard } from './WithdrawalVariablesCard'
 import { EntnahmeSimulationSection } from './EntnahmeSimulationSection'
 import { EntnahmeSimulationModals } from './EntnahmeSimulationModals'
+import { CashFlowStatementCard } from './CashFlowStatementCard'
 
 export function EntnahmeSimulationsAusgabe({
   startEnd,
@@ -41,6 +42,7 @@ export function EntnahmeSimulationsAusgabe({
         segmentedComparisonResults={data.segmentedComparisonResults}
         onCalculationInfoClick={data.handleCalculationInfoClick}
       />
+      <CashFlowStatementCard elemente={elemente} withdrawalResult={data.withdrawalData?.withdrawalResult ?? null} />
       <EntnahmeSimulationModals
         showCalculationModal={data.showCalculationModal}
         setShowCalculationModal={data.setShowCalculationModal}
@@ -8,6 +8,7 @@ import type { CareCostConfiguration as CareCostConfig } from '../../helpers/care
 import type { TermLifeInsuranceConfig } from '../../helpers/term-life-insurance'
 import type { CareInsuranceConfig } from '../../helpers/care-insurance'
 import type { EMRenteConfig } from '../../helpers/em-rente'
+import type { PropertyOwnershipConfig } from '../../helpers/immobilien-eigentum'
 
 type PlanningMode = 'individual' | 'couple'
 type Gender = 'male' | 'female'
@@ -59,6 +60,9 @@ interface GlobalPlanningConfigurationContentProps {
   // EM-Rente
   emRenteConfig: EMRenteConfig | null
   setEMRenteConfig: (config: EMRenteConfig | null) => void
+  // Owned property and mortgage
+  propertyOwnershipConfig: PropertyOwnershipConfig | null
+  setPropertyOwnershipConfig: (config: PropertyOwnershipConfig | null) => void
 }
 
 /**
@@ -6,6 +6,7 @@ import type { CareCostConfiguration as CareCostConfig } from '../../helpers/care
 import type { TermLifeInsuranceConfig } from '../../helpers/term-life-insurance'
 import type { CareInsuranceConfig } from '../../helpers/care-insurance'
 import type { EMRenteConfig } from '../../helpers/em-rente'
+import type { PropertyOwnershipConfig } from '../../helpers/immobilien-eigentum'
 
 type PlanningMode = 'individual' | 'couple'
 type Gender = 'male' | 'female'
@@ -42,6 +43,8 @@ interface GlobalPlanningContentSectionsProps {
   setCareInsuranceConfig: (config: CareInsuranceConfig | null) => void
   emRenteConfig: EMRenteConfig | null
   setEMRenteConfig: (config: EMRenteConfig | null) => void
+  propertyOwnershipConfig: PropertyOwnershipConfig | null
+  setPropertyOwnershipConfig: (config: PropertyOwnershipConfig | null) => void
 }
 
 function buildLifeExpectancyProps(props: GlobalPlanningContentSectionsProps) {
@@ -102,6 +105,8 @@ export function GlobalPlanningContentSections(props: GlobalPlanningContentSectio
         setCareInsuranceConfig={props.setCareInsuranceConfig}
         emRenteConfig={props.emRenteConfig}
         setEMRenteConfig={props.setEMRenteConfig}
+        propertyOwnershipConfig={props.propertyOwnershipConfig}
+        setPropertyOwnershipConfig={props.setPropertyOwnershipConfig}
       />
     </div>
   )
@@ -1,6 +1,8 @@
 import { describe, it, expect, vi } from 'vitest'
-import { render, screen } from '@testing-library/react'
+import { render, screen, fireEvent } from '@testing-library/react'
 import { HealthCareInsuranceContent } from './HealthCareInsuranceContent'
+import { createDefaultHealthCareInsuranceConfig } from '../../helpers/health-care-insurance'
+import { createDefaultPrivateHealthInsuranceProjectionConfig } from '../../helpers/private-health-insurance'
 
 // Mock the HealthCareInsuranceConfiguration component
 vi.mock('./HealthCareInsuranceConfiguration', () => ({
@@ -54,6 +56,7 @@ describe('HealthCareInsuranceContent', () => {
       onAdditionalCareInsuranceForChildlessChange: vi.fn(),
       onAdditionalCareInsuranceAgeChange: vi.fn(),
     },
+    onFormValueUpdate: vi.fn(),
   }
 
   it('should render health care insurance configuration', () => {
@@ -68,4 +71,92 @@ describe('HealthCareInsuranceContent', () => {
     const wrapper = container.querySelector('div.mb-6')
     expect(wrapper).toBeInTheDocument()
   })
+
+  it('should select the membership status in retirement', () => {
+    const onFormValueUpdate = vi.fn()
+    render(<HealthCareInsuranceContent {...defaultProps} onFormValueUpdate={onFormValueUpdate} />)
+
+    fireEvent.click(screen.getByText('KVdR (Pflichtversicherung der Rentner)'))
+
+    const [updates] = onFormValueUpdate.mock.calls[0]
+    expect(updates.healthCareInsuranceConfig.statutoryInsuranceStatus).toBe('kvdr')
+    // Employed from the age of 25 until the retirement in 2040, always statutorily insured
+    expect(updates.healthCareInsuranceConfig.kvdrEligibility).toEqual({
+      firstEmploymentYear: 1998,
+      statutoryInsuranceYearsSecondHalf: 21,
+      numberOfChildren: 0,
+    })
+  })
+
+  it('should show the KVdR check and the contribution comparison', () => {
+    const formValue = {
+      ...defaultProps.formValue,
+      healthCareInsuranceConfig: {
+        ...createDefaultHealthCareInsuranceConfig(),
+        retirementStartYear: 2040,
+        statutoryInsuranceStatus: 'automatic' as const,
+        kvdrEligibility: { firstEmploymentYear: 2000, statutoryInsuranceYearsSecondHalf: 12, numberOfChildren: 2 },
+      },
+    }
+    render(
+      <HealthCareInsuranceContent
+        {...defaultProps}
+        formValue={formValue}
+        healthInsuranceStatusComparison={{ kvdr: 40000, freiwillig: 70000, years: 20 }}
+      />,
+    )
+
+    // Second half of 40 years: 20, required 18, credited 12 + 2 × 3 = 18
+    expect(screen.getByText(/Angerechnet: 18 Jahre \(inkl. 6 Jahre für Kinder\)/)).toBeInTheDocument()
+    expect(screen.getByText('✅ Vorversicherungszeit erfüllt: Pflichtversicherung in der KVdR')).toBeInTheDocument()
+    expect(screen.getByText(/Beitragsvergleich über 20 Entnahmejahre/)).toBeInTheDocument()
+    expect(screen.getByText(/Mehrbelastung als freiwilliges Mitglied: 30\.000,00 €/)).toBeInTheDocument()
+  })
+
+  it('should not show the membership status for couples', () => {
+    render(<HealthCareInsuranceContent {...defaultProps} planningMode="couple" />)
+
+    expect(screen.queryByText('🏥 Versicherungsstatus im Ruhestand')).not.toBeInTheDocument()
+  })
+
+  it('should enable the premium projection for private insurance', () => {
+    const onFormValueUpdate = vi.fn()
+    const formValue = {
+      ...defaultProps.formValue,
+      healthCareInsuranceConfig: { ...createDefaultHealthCareInsuranceConfig(), insuranceType: 'private' as const },
+    }
+    render(<HealthCareInsuranceContent {...defaultProps} formValue={formValue} onFormValueUpdate={onFormValueUpdate} />)
+
+    expect(screen.queryByText('🏥 Versicherungsstatus im Ruhestand')).not.toBeInTheDocument()
+    fireEvent.click(screen.getByLabelText('📈 PKV-Beitragsentwicklung prognostizieren'))
+
+    const [updates] = onFormValueUpdate.mock.calls[0]
+    expect(updates.healthCareInsuranceConfig.privateInsuranceProjection.enabled).toBe(true)
+  })
+
+  it('should compare the lifetime cost of private and statutory insurance', () => {
+    const formValue = {
+      ...defaultProps.formValue,
+      healthCareInsuranceConfig: {
+        ...createDefaultHealthCareInsuranceConfig(),
+        insuranceType: 'private' as const,
+        privateInsuranceProjection: {
+          ...createDefaultPrivateHealthInsuranceProjectionConfig(2025),
+          enabled: true,
+        },
+      },
+    }
+    render(
+      <HealthCareInsuranceContent
+        {...defaultProps}
+        formValue={formValue}
+        privateStatutoryComparison={{ private: 200000, statutory: 150000, years: 25 }}
+      />,
+    )
+
+    // Working years 2025 until the start of the withdrawal phase in 2041
+    expect(screen.getByText(/Erwerbsphase \(16 Jahre\)/)).toBeInTheDocument()
+    expect(screen.getByText(/Entnahmephase \(25 Jahre\): PKV 200\.000,00 €, GKV 150\.000,00 €/)).toBeInTheDocument()
+    expect(screen.getByText(/der PKV über das gesamte Leben/)).toBeInTheDocument()
+  })
 })
@@ -4,6 +4,14 @@ import {
   type HealthCareInsuranceChangeHandlers,
 } from './HealthCareInsuranceConfiguration'
 import { buildHealthCareInsuranceValues } from './health-care-insurance-values-builder'
+import { StatutoryInsuranceStatusConfig } from './health-insurance/StatutoryInsuranceStatusConfig'
+import { PrivateInsuranceProjectionConfig } from './health-insurance/PrivateInsuranceProjectionConfig'
+import {
+  createDefaultHealthCareInsuranceConfig,
+  type HealthCareInsuranceConfig,
+  type PrivateStatutoryComparisonSum,
+  type StatutoryInsuranceStatusComparisonSum,
+} from '../../helpers/health-care-insurance'
 
 interface HealthCareInsuranceContentProps {
   formValue: WithdrawalFormValue
@@ -13,33 +21,88 @@ interface HealthCareInsuranceContentProps {
   spouseBirthYear: number | undefined
   currentWithdrawalAmount: number | undefined
   onHealthCareInsuranceChange: HealthCareInsuranceChangeHandlers
+  onFormValueUpdate: (updates: Partial<WithdrawalFormValue>) => void
+  /** Contributions of the withdrawal years as KVdR and voluntary member */
+  healthInsuranceStatusComparison?: StatutoryInsuranceStatusComparisonSum
+  /** Contributions of the withdrawal years with the projected private and the statutory insurance */
+  privateStatutoryComparison?: PrivateStatutoryComparisonSum
+}
+
+/**
+ * Renders the membership status of the statutory insurance or the premium projection of the private insurance
+ */
+function InsuranceDetailsConfig({
+  insuranceType,
+  config,
+  onChange,
+  retirementStartYear,
+  props,
+}: {
+  insuranceType: 'statutory' | 'private'
+  config: HealthCareInsuranceConfig
+  onChange: (updates: Partial<HealthCareInsuranceConfig>) => void
+  retirementStartYear: number
+  props: HealthCareInsuranceContentProps
+}) {
+  if (insuranceType === 'statutory') {
+    return (
+      <StatutoryInsuranceStatusConfig
+        config={config}
+        onChange={onChange}
+        retirementStartYear={retirementStartYear}
+        comparison={props.healthInsuranceStatusComparison}
+      />
+    )
+  }
+
+  return (
+    <PrivateInsuranceProjectionConfig
+      config={config}
+      onChange={onChange}
+      birthYear={props.birthYear}
+      retirementStartYear={retirementStartYear}
+      workingPhaseEndYear={props.startOfIndependence}
+      comparison={props.privateStatutoryComparison}
+    />
+  )
 }
 
 /**
  * Renders the health care insurance configuration section
  */
-export function HealthCareInsuranceContent({
-  formValue,
-  planningMode,
-  startOfIndependence,
-  birthYear,
-  spouseBirthYear,
-  currentWithdrawalAmount,
-  onHealthCareInsuranceChange,
-}: HealthCareInsuranceContentProps) {
+export function HealthCareInsuranceContent(props: HealthCareInsuranceContentProps) {
+  const { formValue, planningMode, onFormValueUpdate } = props
+  const healthCareValues = buildHealthCareInsuranceValues({
+    formValue,
+    planningMode,
+    startOfIndependence: props.startOfIndependence,
+    birthYear: props.birthYear,
+    spouseBirthYear: props.spouseBirthYear,
+  })
+  const { enabled, insuranceType, retirementStartYear } = healthCareValues.values
+  const config = formValue.healthCareInsuranceConfig ?? createDefaultHealthCareInsuranceConfig()
+
+  const handleConfigChange = (updates: Partial<HealthCareInsuranceConfig>) =>
+    onFormValueUpdate({ healthCareInsuranceConfig: { ...config, ...updates } })
+
   return (
     <div className="mb-6">
       <HealthCareInsuranceConfiguration
-        {...buildHealthCareInsuranceValues({
-          formValue,
-          planningMode,
-          startOfIndependence,
-          birthYear,
-          spouseBirthYear,
-        })}
-        onChange={onHealthCareInsuranceChange}
-        currentWithdrawalAmount={currentWithdrawalAmount}
+        {...healthCareValues}
+        onChange={props.onHealthCareInsuranceChange}
+        currentWithdrawalAmount={props.currentWithdrawalAmount}
       />
+      {enabled && planningMode === 'individual' && (
+        <div className="mt-4">
+          <InsuranceDetailsConfig
+            insuranceType={insuranceType}
+            config={config}
+            onChange={handleConfigChange}
+            retirementStartYear={retirementStartYear}
+            props={props}
+          />
+        </div>
+      )}
     </div>
   )
 }
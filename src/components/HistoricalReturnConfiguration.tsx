@@ -8,8 +8,9 @@ import { HistoricalReturnContent } from './historical-return/HistoricalReturnCon
 
 const HistoricalReturnConfiguration = () => {
   const nestingLevel = useNestingLevel()
-  const { selectedIndexId, handleIndexChange } = useHistoricalIndexSelection()
-  const { currentIndex, simulationStartYear, simulationEndYear, isAvailable, historicalReturns } =
+  const { selectedIndexId, handleIndexChange, backtestSettings, handleBacktestSettingsChange } =
+    useHistoricalIndexSelection()
+  const { currentIndex, backtestStartYear, backtestEndYear, isAvailable, historicalReturns } =
     useHistoricalDataPreparation(selectedIndexId)
 
   return (
@@ -22,10 +23,12 @@ const HistoricalReturnConfiguration = () => {
             selectedIndexId={selectedIndexId}
             onIndexChange={handleIndexChange}
             currentIndex={currentIndex}
-            simulationStartYear={simulationStartYear}
-            simulationEndYear={simulationEndYear}
+            simulationStartYear={backtestStartYear}
+            simulationEndYear={backtestEndYear}
             isAvailable={isAvailable}
             historicalReturns={historicalReturns}
+            backtestSettings={backtestSettings}
+            onBacktestSettingsChange={handleBacktestSettingsChange}
           />
         </CollapsibleContent>
       </Card>
@@ -2,11 +2,13 @@ import { Card, CardContent } from './ui/card'
 import { Collapsible, CollapsibleContent } from './ui/collapsible'
 import { CollapsibleCardHeader } from './ui/collapsible-card'
 import { MonteCarloResults } from './MonteCarloResults'
+import { MonteCarloPathSimulation } from './MonteCarloPathSimulation'
+import { getWithdrawalReturnConfig } from './monte-carlo-helpers'
 import { useSimulation } from '../contexts/useSimulation'
 import { unique } from '../utils/array-utils'
 
 const MonteCarloAnalysis = () => {
-  const { simulationData, averageReturn, standardDeviation, randomSeed } = useSimulation()
+  const { simulationData, averageReturn, standardDeviation, randomSeed, withdrawalConfig } = useSimulation()
 
   if (!simulationData) return null
 
@@ -46,13 +48,10 @@ const MonteCarloAnalysis = () => {
                 standardDeviation: standardDeviation / 100,
                 seed: randomSeed,
               }}
-              withdrawalConfig={{
-                averageReturn: 0.05, // Default 5% for withdrawal phase (more conservative)
-                standardDeviation: 0.12, // Default 12% volatility (more conservative)
-                seed: randomSeed,
-              }}
+              withdrawalConfig={getWithdrawalReturnConfig(withdrawalConfig, randomSeed)}
               portfolioValue={portfolioValue}
             />
+            <MonteCarloPathSimulation />
           </CardContent>
         </CollapsibleContent>
       </Collapsible>
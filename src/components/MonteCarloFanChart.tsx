@@ -0,0 +1,83 @@
+import { Line } from 'react-chartjs-2'
+import type { ChartOptions, TooltipItem } from 'chart.js'
+import { formatCompactCurrency, formatCurrency } from '../utils/currency'
+import type { MonteCarloFanChartPoint } from '../utils/monte-carlo-simulation'
+import '../utils/chart-setup' // Ensure Chart.js is registered
+
+interface MonteCarloFanChartProps {
+  data: MonteCarloFanChartPoint[]
+}
+
+/**
+ * Create a percentile dataset; fill '-1' shades the band to the previous dataset
+ */
+function createPercentileDataset(label: string, values: number[], fill: false | '-1', color: string) {
+  return {
+    label,
+    data: values,
+    borderColor: color,
+    backgroundColor: color.replace('1)', '0.15)'),
+    borderWidth: 1,
+    pointRadius: 0,
+    fill,
+    tension: 0.3,
+  }
+}
+
+/**
+ * Create chart options for the fan chart
+ */
+function createChartOptions(): ChartOptions<'line'> {
+  return {
+    responsive: true,
+    maintainAspectRatio: false,
+    interaction: {
+      mode: 'index' as const,
+      intersect: false,
+    },
+    plugins: {
+      legend: { display: true, position: 'bottom' as const },
+      tooltip: {
+        callbacks: {
+          label: (context: TooltipItem<'line'>) => `${context.dataset.label}: ${formatCurrency(context.parsed.y ?? 0)}`,
+        },
+      },
+    },
+    scales: {
+      y: {
+        ticks: {
+          callback: value => formatCompactCurrency(Number(value)),
+        },
+      },
+    },
+  }
+}
+
+/**
+ * Fan chart of the total capital: median with 25–75% and 5–95% percentile bands
+ */
+function MonteCarloFanChart({ data }: MonteCarloFanChartProps) {
+  const chartData = {
+    labels: data.map(point => (point.age !== undefined ? `${point.year} (${point.age})` : `${point.year}`)),
+    datasets: [
+      createPercentileDataset('5. Perzentil', data.map(point => point.p5), false, 'rgba(239, 68, 68, 1)'),
+      createPercentileDataset('95. Perzentil', data.map(point => point.p95), '-1', 'rgba(59, 130, 246, 1)'),
+      createPercentileDataset('25. Perzentil', data.map(point => point.p25), false, 'rgba(245, 158, 11, 1)'),
+      createPercentileDataset('75. Perzentil', data.map(point => point.p75), '-1', 'rgba(59, 130, 246, 1)'),
+      {
+        ...createPercentileDataset('Median', data.map(point => point.p50), false, 'rgba(16, 185, 129, 1)'),
+        borderWidth: 3,
+      },
+    ],
+  }
+
+  return (
+    <div className="bg-white p-4 rounded-lg border">
+      <div style={{ height: '320px' }}>
+        <Line data={chartData} options={createChartOptions()} />
+      </div>
+    </div>
+  )
+}
+
+export default MonteCarloFanChart
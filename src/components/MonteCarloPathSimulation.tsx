@@ -0,0 +1,193 @@
+import { useId } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Progress } from './ui/progress'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import MonteCarloFanChart from './MonteCarloFanChart'
+import { useMonteCarloSimulation } from '../hooks/useMonteCarloSimulation'
+import { formatCurrency, formatPercent } from '../utils/currency'
+import {
+  MAX_MONTE_CARLO_RUNS,
+  MIN_MONTE_CARLO_RUNS,
+  type MonteCarloSimulationResult,
+  type RuinProbabilityPoint,
+  type TerminalWealthBin,
+} from '../utils/monte-carlo-simulation'
+
+/** Show the probability of ruin every n withdrawal years */
+const RUIN_TABLE_STEP = 5
+
+/**
+ * Select every n-th withdrawal year and the last one for the ruin table
+ */
+function selectRuinTableRows(points: RuinProbabilityPoint[]): RuinProbabilityPoint[] {
+  return points.filter((_, index) => (index + 1) % RUIN_TABLE_STEP === 0 || index === points.length - 1)
+}
+
+function SimulationControls({
+  runs,
+  setRuns,
+  isRunning,
+  progress,
+  onRun,
+}: {
+  runs: number
+  setRuns: (runs: number) => void
+  isRunning: boolean
+  progress: number
+  onRun: () => void
+}) {
+  const runsId = useId()
+
+  return (
+    <div className="flex flex-wrap items-end gap-4 mb-4">
+      <div className="space-y-2">
+        <Label htmlFor={runsId}>Anzahl Simulationsläufe</Label>
+        <Input
+          id={runsId}
+          type="number"
+          min={MIN_MONTE_CARLO_RUNS}
+          max={MAX_MONTE_CARLO_RUNS}
+          step="100"
+          value={runs}
+          onChange={e =>
+            setRuns(Math.min(MAX_MONTE_CARLO_RUNS, Math.max(MIN_MONTE_CARLO_RUNS, parseInt(e.target.value) || 0)))
+          }
+        />
+      </div>
+      <Button onClick={onRun} disabled={isRunning}>
+        {isRunning ? `Simulation läuft... ${progress}%` : '▶️ Simulation starten'}
+      </Button>
+      {isRunning && <Progress value={progress} className="h-2 w-full" aria-label="Fortschritt der Simulation" />}
+    </div>
+  )
+}
+
+function SummaryItem({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="p-3 bg-gray-50 rounded border">
+      <div className="text-sm text-gray-600">{label}</div>
+      <div className="text-lg font-semibold">{value}</div>
+    </div>
+  )
+}
+
+function ResultSummary({ result }: { result: MonteCarloSimulationResult }) {
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+      <SummaryItem label="Erfolgsquote" value={formatPercent(result.successRate)} />
+      <SummaryItem label="Endvermögen (Median)" value={formatCurrency(result.terminalWealth.median)} />
+      <SummaryItem label="Endvermögen (5. Perzentil)" value={formatCurrency(result.terminalWealth.percentile5)} />
+      <SummaryItem label="Endvermögen (95. Perzentil)" value={formatCurrency(result.terminalWealth.percentile95)} />
+    </div>
+  )
+}
+
+function RuinProbabilityTable({ points }: { points: RuinProbabilityPoint[] }) {
+  if (points.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="mb-4">
+      <h5 className="font-semibold mb-2">Wahrscheinlichkeit, dass das Kapital aufgebraucht ist</h5>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Jahr</TableHead>
+            <TableHead>Alter</TableHead>
+            <TableHead>Kapital aufgebraucht</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {selectRuinTableRows(points).map(point => (
+            <TableRow key={point.year}>
+              <TableCell>{point.year}</TableCell>
+              <TableCell>{point.age ?? '–'}</TableCell>
+              <TableCell>{formatPercent(point.probability)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
+
+function TerminalWealthTable({ bins }: { bins: TerminalWealthBin[] }) {
+  return (
+    <div className="mb-4">
+      <h5 className="font-semibold mb-2">Verteilung des Endvermögens</h5>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Endvermögen</TableHead>
+            <TableHead>Anteil der Läufe</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {bins.map(bin => (
+            <TableRow key={bin.from}>
+              <TableCell>
+                {formatCurrency(bin.from)} – {formatCurrency(bin.to)}
+              </TableCell>
+              <TableCell>
+                <div className="flex items-center gap-2">
+                  <div
+                    className="h-3 bg-blue-500 rounded"
+                    style={{ width: `${bin.share * 100}%`, maxWidth: '120px' }}
+                  />
+                  {formatPercent(bin.share)}
+                </div>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
+
+function SimulationResultView({ result }: { result: MonteCarloSimulationResult }) {
+  return (
+    <div>
+      <ResultSummary result={result} />
+      <h5 className="font-semibold mb-2">Gesamtkapital je Jahr ({result.runs} Läufe)</h5>
+      <div className="mb-4">
+        <MonteCarloFanChart data={result.fanChart} />
+      </div>
+      <RuinProbabilityTable points={result.ruinProbabilityByAge} />
+      <TerminalWealthTable bins={result.terminalWealth.bins} />
+    </div>
+  )
+}
+
+/**
+ * Path-dependent Monte Carlo simulation through the complete savings and withdrawal phase
+ */
+export function MonteCarloPathSimulation() {
+  const { config, runs, setRuns, result, isRunning, progress, runSimulation } = useMonteCarloSimulation()
+
+  return (
+    <div className="mb-6">
+      <h4 className="text-lg font-semibold mb-2">Pfadabhängige Simulation</h4>
+      <p className="text-sm text-gray-600 mb-4">
+        Jeder Lauf durchläuft Anspar- und Entnahmephase mit einer eigenen zufälligen Renditefolge – inklusive Steuern,
+        Vorabpauschale, Freibeträgen, Renten und Kosten wie in der Hauptsimulation.
+      </p>
+      {!config.withdrawalPhase && (
+        <p className="text-sm text-amber-700 mb-4">
+          Die Entnahmephase ist noch nicht konfiguriert – es wird nur die Ansparphase simuliert.
+        </p>
+      )}
+      <SimulationControls
+        runs={runs}
+        setRuns={setRuns}
+        isRunning={isRunning}
+        progress={progress}
+        onRun={runSimulation}
+      />
+      {result && <SimulationResultView result={result} />}
+    </div>
+  )
+}
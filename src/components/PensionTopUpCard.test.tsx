@@ -1,7 +1,11 @@
-import { describe, it, expect } from 'vitest'
+import { describe, it, expect, vi } from 'vitest'
 import { render, screen } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
 import { PensionTopUpCard } from './PensionTopUpCard'
+import {
+  createDefaultCoupleStatutoryPensionConfig,
+  type CoupleStatutoryPensionConfig,
+} from '../../helpers/statutory-pension'
 
 describe('PensionTopUpCard', () => {
   it('should render the card with title', () => {
@@ -251,4 +255,67 @@ describe('PensionTopUpCard', () => {
     const targetPointsInput = screen.getByLabelText(/Ziel-Rentenpunkte/) as HTMLInputElement
     expect(targetPointsInput.step).toBe('0.1')
   })
+
+  describe('with a pension projection', () => {
+    const pensionConfig: CoupleStatutoryPensionConfig = {
+      ...createDefaultCoupleStatutoryPensionConfig(),
+      enabled: true,
+      planningMode: 'individual',
+      individual: {
+        enabled: true,
+        startYear: 2028,
+        monthlyAmount: 1500,
+        annualIncreaseRate: 1.0,
+        taxablePercentage: 80,
+        retirementAge: 63,
+        birthYear: 1965,
+        pensionProjection: {
+          enabled: true,
+          currentPensionPoints: 30,
+          pointsYear: 2024,
+          annualGrossSalary: 45358,
+          salaryGrowthRate: 0,
+          averageSalaryGrowthRate: 0,
+          pensionValueGrowthRate: 0,
+          specialPayments: [],
+        },
+      },
+    }
+
+    it('should prefill the calculator from the projection', async () => {
+      const user = userEvent.setup()
+      render(<PensionTopUpCard pensionConfig={pensionConfig} onPensionConfigChange={vi.fn()} />)
+
+      await user.click(screen.getByText(/Renten-Auffüll-Strategie/))
+      await user.click(screen.getByRole('button', { name: 'Werte aus Rentenprognose übernehmen' }))
+
+      expect((screen.getByLabelText(/Geburtsjahr/) as HTMLInputElement).value).toBe('1965')
+      // 30 points plus 1 point each from 2025 to 2027
+      expect((screen.getByLabelText(/Aktuelle Rentenpunkte/) as HTMLInputElement).value).toBe('33')
+    })
+
+    it('should add the offset payment as Sonderzahlung to the projection', async () => {
+      const user = userEvent.setup()
+      const onPensionConfigChange = vi.fn()
+      render(<PensionTopUpCard pensionConfig={pensionConfig} onPensionConfigChange={onPensionConfigChange} />)
+
+      await user.click(screen.getByText(/Renten-Auffüll-Strategie/))
+      await user.click(screen.getByRole('button', { name: /Als Sonderzahlung .* in die Rentenprognose übernehmen/ }))
+
+      const [updated] = onPensionConfigChange.mock.calls[0] as [CoupleStatutoryPensionConfig]
+      const [payment] = updated.individual!.pensionProjection!.specialPayments
+      expect(payment.amount).toBeGreaterThan(0)
+      expect(screen.getByText(/erhöht die Rente in der Entnahme-Simulation/)).toBeInTheDocument()
+    })
+
+    it('should not offer the projection actions without a projection', async () => {
+      const user = userEvent.setup()
+      render(<PensionTopUpCard pensionConfig={createDefaultCoupleStatutoryPensionConfig()} />)
+
+      await user.click(screen.getByText(/Renten-Auffüll-Strategie/))
+
+      expect(screen.queryByText('Werte aus Rentenprognose übernehmen')).not.toBeInTheDocument()
+      expect(screen.queryByText(/in die Rentenprognose übernehmen/)).not.toBeInTheDocument()
+    })
+  })
 })
@@ -4,6 +4,7 @@ import { Collapsible, CollapsibleContent } from './ui/collapsible'
 import { CollapsibleCardHeader } from './ui/collapsible-card'
 import { Input } from './ui/input'
 import { Label } from './ui/label'
+import { Button } from './ui/button'
 import { Info, TrendingUp, AlertCircle } from 'lucide-react'
 import { generateFormId } from '../utils/unique-id'
 import { formatCurrency } from '../utils/currency'
@@ -13,6 +14,15 @@ import {
   validatePensionTopUpConfig,
   type PensionTopUpConfig,
 } from '../../helpers/pension-top-up'
+import {
+  addStatutoryPensionSpecialPayment,
+  getProjectedStatutoryPension,
+  getStatutoryPensionBirthYear,
+  getStatutoryPensionProjection,
+  type CoupleStatutoryPensionConfig,
+  type StatutoryPensionConfig,
+} from '../../helpers/statutory-pension'
+import type { PensionProjectionResult, PensionSpecialPayment } from '../../helpers/pension-projection'
 
 function InfoMessage() {
   return (
@@ -49,6 +59,38 @@ function TaxInfoBox() {
   )
 }
 
+/**
+ * Calculator values from the pension projection of the simulation. Points bought with Sonderzahlungen are left
+ * out, so the offset cost covers the full Abschlag.
+ */
+function createConfigFromProjection(
+  config: PensionTopUpConfig,
+  pension: StatutoryPensionConfig,
+  projection: PensionProjectionResult,
+): PensionTopUpConfig {
+  return {
+    ...config,
+    birthYear: getStatutoryPensionBirthYear(pension),
+    desiredRetirementAge: pension.retirementAge ?? 67,
+    currentPensionPoints: Math.round((projection.currentPensionPoints + projection.projectedPensionPoints) * 100) / 100,
+    customPensionValue: projection.pensionValue,
+    averageSalaryGrowthRate: pension.pensionProjection?.averageSalaryGrowthRate,
+  }
+}
+
+function ProjectionLinkBox({ onApply }: { onApply: () => void }) {
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-2 bg-blue-50 border border-blue-200 rounded-lg p-3">
+      <p className="text-xs text-blue-900">
+        Für Ihre gesetzliche Rente ist eine Prognose aus Entgeltpunkten aktiv.
+      </p>
+      <Button type="button" variant="outline" size="sm" onClick={onApply}>
+        Werte aus Rentenprognose übernehmen
+      </Button>
+    </div>
+  )
+}
+
 interface ConfigFormProps {
   config: PensionTopUpConfig
   onConfigChange: (config: PensionTopUpConfig) => void
@@ -170,6 +212,11 @@ interface ResultsDisplayProps {
   result: ReturnType<typeof calculatePensionTopUp>
 }
 
+interface SpecialPaymentActionProps extends ResultsDisplayProps {
+  paymentYear: number
+  onAddSpecialPayment?: (payment: PensionSpecialPayment) => void
+}
+
 interface ResultRowProps {
   label: string
   value: string | number
@@ -264,13 +311,39 @@ function DeductionOffsetContent({ result }: ResultsDisplayProps) {
   )
 }
 
-function DeductionOffsetResults({ result }: ResultsDisplayProps) {
+function AddSpecialPaymentButton({ result, paymentYear, onAddSpecialPayment }: SpecialPaymentActionProps) {
+  const [added, setAdded] = useState(false)
+
+  if (!onAddSpecialPayment || result.deductionOffset.offsetCost <= 0) return null
+
+  return (
+    <div className="mt-3 pt-3 border-t border-blue-300 space-y-1">
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => {
+          onAddSpecialPayment({ year: paymentYear, amount: Math.round(result.deductionOffset.offsetCost) })
+          setAdded(true)
+        }}
+      >
+        Als Sonderzahlung {paymentYear} in die Rentenprognose übernehmen
+      </Button>
+      {added && (
+        <p className="text-xs text-blue-900">Die Sonderzahlung erhöht die Rente in der Entnahme-Simulation.</p>
+      )}
+    </div>
+  )
+}
+
+function DeductionOffsetResults(props: SpecialPaymentActionProps) {
   return (
     <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
       <h4 className="font-medium text-blue-900 mb-3">📉 Ausgleich von Rentenabschlägen</h4>
       <div className="space-y-2 text-sm">
-        <DeductionOffsetContent result={result} />
+        <DeductionOffsetContent result={props.result} />
       </div>
+      <AddSpecialPaymentButton {...props} />
     </div>
   )
 }
@@ -385,25 +458,54 @@ function RecommendationBox() {
   )
 }
 
-function ResultsDisplay({ result }: ResultsDisplayProps) {
+function ResultsDisplay(props: SpecialPaymentActionProps) {
   return (
     <div className="space-y-4 mt-4">
-      <DeductionOffsetResults result={result} />
-      <PointsPurchaseResults result={result} />
+      <DeductionOffsetResults {...props} />
+      <PointsPurchaseResults result={props.result} />
       <RecommendationBox />
     </div>
   )
 }
 
+interface PensionTopUpCardProps {
+  /** Statutory pension of the simulation, its pension projection can prefill the calculator */
+  pensionConfig?: CoupleStatutoryPensionConfig | null
+  /** Receives the pension config with the offset payment added as Sonderzahlung */
+  onPensionConfigChange?: (config: CoupleStatutoryPensionConfig) => void
+}
+
+/**
+ * Actions linking the calculator with the pension projection, undefined without an enabled projection
+ */
+function getProjectionLink({ pensionConfig = null, onPensionConfigChange }: PensionTopUpCardProps) {
+  const projectedPension = getProjectedStatutoryPension(pensionConfig)
+  const projection = projectedPension ? getStatutoryPensionProjection(projectedPension) : null
+  if (!pensionConfig || !projectedPension || !projection) {
+    return { applyProjection: undefined, addSpecialPayment: undefined }
+  }
+
+  return {
+    applyProjection: (config: PensionTopUpConfig) => createConfigFromProjection(config, projectedPension, projection),
+    addSpecialPayment: onPensionConfigChange
+      ? (payment: PensionSpecialPayment) =>
+          onPensionConfigChange(addStatutoryPensionSpecialPayment(pensionConfig, payment))
+      : undefined,
+  }
+}
+
 /**
  * Pension Top-Up Strategy Card (Renten-Auffüll-Strategie)
  * 
  * Educational calculator for voluntary pension contributions:
  * - Offsetting pension deductions for early retirement
  * - Purchasing additional pension points
+ *
+ * With a pension projection in the simulation, the offset payment can be added to it as Sonderzahlung.
  */
-export function PensionTopUpCard() {
+export function PensionTopUpCard(props: PensionTopUpCardProps = {}) {
   const [config, setConfig] = useState<PensionTopUpConfig>(() => getDefaultPensionTopUpConfig())
+  const { applyProjection, addSpecialPayment } = getProjectionLink(props)
 
   const validationErrors = useMemo(() => validatePensionTopUpConfig(config), [config])
 
@@ -423,9 +525,12 @@ export function PensionTopUpCard() {
             <div className="space-y-4">
               <InfoMessage />
               <TaxInfoBox />
+              {applyProjection && <ProjectionLinkBox onApply={() => setConfig(applyProjection(config))} />}
               <ConfigForm config={config} onConfigChange={setConfig} />
               <ValidationErrors errors={validationErrors} />
-              {result && <ResultsDisplay result={result} />}
+              {result && (
+                <ResultsDisplay result={result} paymentYear={config.paymentYear} onAddSpecialPayment={addSpecialPayment} />
+              )}
             </div>
           </CardContent>
         </CollapsibleContent>
@@ -0,0 +1,66 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { userEvent } from '@testing-library/user-event'
+import { PropertyOwnershipConfiguration } from './PropertyOwnershipConfiguration'
+import { createDefaultPropertyOwnershipConfig, type PropertyOwnershipConfig } from '../../helpers/immobilien-eigentum'
+
+describe('PropertyOwnershipConfiguration', () => {
+  const mockOnChange = vi.fn()
+  const config: PropertyOwnershipConfig = { ...createDefaultPropertyOwnershipConfig(2030), enabled: true }
+
+  beforeEach(() => {
+    mockOnChange.mockClear()
+  })
+
+  it('should render the disabled state when config is null', () => {
+    render(<PropertyOwnershipConfiguration config={null} onChange={mockOnChange} />)
+
+    expect(screen.getByText(/Immobilie & Baufinanzierung/)).toBeInTheDocument()
+    expect(screen.queryByText('Kaufpreis (€)')).not.toBeInTheDocument()
+  })
+
+  it('should enable a default property in the current year', async () => {
+    const user = userEvent.setup()
+    render(<PropertyOwnershipConfiguration config={null} onChange={mockOnChange} currentYear={2027} />)
+
+    await user.click(screen.getByRole('switch'))
+
+    expect(mockOnChange).toHaveBeenCalledWith(expect.objectContaining({ enabled: true, purchaseYear: 2027 }))
+  })
+
+  it('should show the loan amount and the annual rate', () => {
+    render(<PropertyOwnershipConfiguration config={config} onChange={mockOnChange} />)
+
+    expect(screen.getByText('Darlehensbetrag:')).toBeInTheDocument()
+    expect(screen.getByText(/Jährliche Rate/)).toBeInTheDocument()
+  })
+
+  it('should update numeric fields', () => {
+    render(<PropertyOwnershipConfiguration config={config} onChange={mockOnChange} />)
+
+    fireEvent.change(screen.getByLabelText('Kaufpreis (€)'), { target: { value: '500000' } })
+
+    expect(mockOnChange).toHaveBeenCalledWith({ ...config, purchasePrice: 500000 })
+  })
+
+  it('should add a special repayment and a sale', async () => {
+    const user = userEvent.setup()
+    render(<PropertyOwnershipConfiguration config={config} onChange={mockOnChange} />)
+
+    const [addRepayment, addSale] = screen.getAllByRole('button', { name: /Hinzufügen/ })
+    await user.click(addRepayment)
+    await user.click(addSale)
+
+    expect(mockOnChange).toHaveBeenCalledWith({ ...config, specialRepayments: [{ year: 2035, amount: 10000 }] })
+    expect(mockOnChange).toHaveBeenCalledWith({ ...config, sales: [{ year: 2050, sharePercent: 100 }] })
+  })
+
+  it('should disable the property', async () => {
+    const user = userEvent.setup()
+    render(<PropertyOwnershipConfiguration config={config} onChange={mockOnChange} />)
+
+    await user.click(screen.getByRole('switch'))
+
+    expect(mockOnChange).toHaveBeenCalledWith(null)
+  })
+})
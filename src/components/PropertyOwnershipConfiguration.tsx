@@ -0,0 +1,184 @@
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Switch } from './ui/switch'
+import { Label } from './ui/label'
+import { Input } from './ui/input'
+import { useNestingLevel } from '../lib/nesting-utils'
+import { useFormId } from '../utils/unique-id'
+import { formatCurrency } from '../utils/currency'
+import { PropertyEventsList } from './property-ownership/PropertyEventsList'
+import {
+  createDefaultPropertyOwnershipConfig,
+  getPropertyAnnuity,
+  getPropertyLoanAmount,
+  type PropertyOwnershipConfig,
+} from '../../helpers/immobilien-eigentum'
+
+interface PropertyOwnershipConfigurationProps {
+  config: PropertyOwnershipConfig | null
+  onChange: (config: PropertyOwnershipConfig | null) => void
+  currentYear?: number
+}
+
+type NumericField = Exclude<keyof PropertyOwnershipConfig, 'enabled' | 'specialRepayments' | 'sales'>
+
+const NUMERIC_FIELDS: Array<{ field: NumericField; label: string; step: number }> = [
+  { field: 'purchaseYear', label: 'Kaufjahr', step: 1 },
+  { field: 'purchasePrice', label: 'Kaufpreis (€)', step: 10000 },
+  { field: 'purchaseCostsRate', label: 'Kaufnebenkosten (%)', step: 0.5 },
+  { field: 'equityFromDepot', label: 'Eigenkapital aus dem Depot (€)', step: 5000 },
+  { field: 'interestRate', label: 'Sollzins (%)', step: 0.1 },
+  { field: 'initialRepaymentRate', label: 'Anfängliche Tilgung (%)', step: 0.5 },
+  { field: 'appreciationRate', label: 'Wertsteigerung pro Jahr (%)', step: 0.5 },
+  { field: 'sellingCostsRate', label: 'Verkaufskosten (%)', step: 0.5 },
+]
+
+function NumericInput({
+  config,
+  field,
+  label,
+  step,
+  onUpdate,
+}: {
+  config: PropertyOwnershipConfig
+  field: NumericField
+  label: string
+  step: number
+  onUpdate: (updates: Partial<PropertyOwnershipConfig>) => void
+}) {
+  const id = useFormId('property-ownership', field)
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Input
+        id={id}
+        type="number"
+        step={step}
+        min={0}
+        value={config[field]}
+        onChange={e => onUpdate({ [field]: Number(e.target.value) || 0 })}
+      />
+    </div>
+  )
+}
+
+function FinancingSummary({ config }: { config: PropertyOwnershipConfig }) {
+  return (
+    <div className="bg-slate-50 p-3 rounded text-sm space-y-1">
+      <div className="flex justify-between">
+        <span>Darlehensbetrag:</span>
+        <span className="font-medium">{formatCurrency(getPropertyLoanAmount(config))}</span>
+      </div>
+      <div className="flex justify-between">
+        <span>Jährliche Rate (mindert die Sparleistung):</span>
+        <span className="font-medium">{formatCurrency(getPropertyAnnuity(config))}</span>
+      </div>
+    </div>
+  )
+}
+
+function PropertyEvents({
+  config,
+  onUpdate,
+}: {
+  config: PropertyOwnershipConfig
+  onUpdate: (updates: Partial<PropertyOwnershipConfig>) => void
+}) {
+  return (
+    <>
+      <PropertyEventsList
+        title="Sondertilgungen"
+        description="Werden aus der Sparleistung des jeweiligen Jahres gezahlt"
+        valueLabel="Betrag (€)"
+        emptyText="Keine Sondertilgungen geplant."
+        events={config.specialRepayments.map(({ year, amount }) => ({ year, value: amount }))}
+        onChange={events => onUpdate({ specialRepayments: events.map(({ year, value }) => ({ year, amount: value })) })}
+        createEvent={() => ({ year: config.purchaseYear + 5, value: 10000 })}
+      />
+      <PropertyEventsList
+        title="Verkauf / Teilverkauf"
+        description="Der Erlös tilgt anteilig das Darlehen, der Rest fließt im Folgejahr ins Depot"
+        valueLabel="Anteil der Immobilie (%)"
+        emptyText="Kein Verkauf geplant."
+        events={config.sales.map(({ year, sharePercent }) => ({ year, value: sharePercent }))}
+        onChange={events => onUpdate({ sales: events.map(({ year, value }) => ({ year, sharePercent: value })) })}
+        createEvent={() => ({ year: config.purchaseYear + 20, value: 100 })}
+        maxValue={100}
+      />
+    </>
+  )
+}
+
+function PropertyOwnershipHeader({
+  nestingLevel,
+  enabled,
+  onToggle,
+}: {
+  nestingLevel: number
+  enabled: boolean
+  onToggle: (enabled: boolean) => void
+}) {
+  const enabledSwitchId = useFormId('property-ownership', 'enabled')
+
+  return (
+    <CardHeader nestingLevel={nestingLevel} className="pb-3">
+      <CardTitle className="text-base sm:text-lg flex items-center justify-between">
+        <span className="flex items-center gap-2">🏠 Immobilie & Baufinanzierung</span>
+        <Switch checked={enabled} onCheckedChange={onToggle} id={enabledSwitchId} />
+      </CardTitle>
+    </CardHeader>
+  )
+}
+
+/**
+ * Configuration of an owned property with annuity loan as part of the main simulation:
+ * the equity comes from the depot, the mortgage payments reduce the savings contributions
+ */
+export function PropertyOwnershipConfiguration({
+  config,
+  onChange,
+  currentYear = new Date().getFullYear(),
+}: PropertyOwnershipConfigurationProps) {
+  const nestingLevel = useNestingLevel()
+  const handleToggle = (enabled: boolean) =>
+    onChange(enabled ? { ...createDefaultPropertyOwnershipConfig(currentYear), enabled: true } : null)
+
+  if (!config?.enabled) {
+    return (
+      <Card nestingLevel={nestingLevel}>
+        <PropertyOwnershipHeader nestingLevel={nestingLevel} enabled={false} onToggle={handleToggle} />
+        <CardContent nestingLevel={nestingLevel}>
+          <p className="text-sm text-muted-foreground">
+            Aktivieren Sie diese Option, um ein Eigenheim mit Baufinanzierung in die Vermögensentwicklung einzubeziehen.
+          </p>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const handleUpdate = (updates: Partial<PropertyOwnershipConfig>) => onChange({ ...config, ...updates })
+
+  return (
+    <Card nestingLevel={nestingLevel}>
+      <PropertyOwnershipHeader nestingLevel={nestingLevel} enabled={true} onToggle={handleToggle} />
+      <CardContent nestingLevel={nestingLevel}>
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {NUMERIC_FIELDS.map(({ field, label, step }) => (
+              <NumericInput
+                key={field}
+                config={config}
+                field={field}
+                label={label}
+                step={step}
+                onUpdate={handleUpdate}
+              />
+            ))}
+          </div>
+          <FinancingSummary config={config} />
+          <PropertyEvents config={config} onUpdate={handleUpdate} />
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,97 @@
+import { RUIN_THRESHOLD } from '../utils/monte-carlo-simulation'
+import type { RollingHistoricalBacktestResult } from '../utils/rolling-historical-backtest'
+import { formatCompactCurrency, formatCurrency } from '../utils/currency'
+
+/** Show every n-th simulation year as heatmap column */
+const HEATMAP_YEAR_STEP = 5
+
+/**
+ * Select every n-th simulation year and the last one as heatmap columns
+ */
+function selectHeatmapYears(years: number[]): number[] {
+  return years.filter((_, index) => index % HEATMAP_YEAR_STEP === 0 || index === years.length - 1)
+}
+
+/**
+ * Get the color of a capital value
+ * Depleted capital: red, otherwise white to green relative to the highest capital of the heatmap
+ */
+function getCapitalColor(capital: number, maxCapital: number): string {
+  if (capital < RUIN_THRESHOLD) {
+    return 'rgb(254, 202, 202)'
+  }
+
+  const intensity = Math.round(Math.min(1, capital / Math.max(maxCapital, 1)) * 150)
+  return `rgb(${240 - intensity}, 250, ${240 - intensity})`
+}
+
+function HeatmapLegend() {
+  return (
+    <div className="flex flex-wrap items-center gap-4 text-xs text-gray-600 mt-2">
+      <div className="flex items-center gap-2">
+        <div className="w-6 h-4 rounded border border-gray-200" style={{ backgroundColor: 'rgb(254, 202, 202)' }} />
+        <span>Kapital aufgebraucht</span>
+      </div>
+      <div className="flex items-center gap-2">
+        <div className="w-6 h-4 rounded border border-gray-200" style={{ backgroundColor: 'rgb(240, 250, 240)' }} />
+        <span>Wenig Kapital</span>
+      </div>
+      <div className="flex items-center gap-2">
+        <div className="w-6 h-4 rounded border border-gray-200" style={{ backgroundColor: 'rgb(90, 250, 90)' }} />
+        <span>Höchstes Kapital</span>
+      </div>
+      <span>* Historie beginnt erneut mit dem ersten Jahr des Index</span>
+    </div>
+  )
+}
+
+/**
+ * Heatmap of the remaining capital: one row per historical start year, one column per simulation year
+ */
+export function RollingBacktestHeatmap({ result }: { result: RollingHistoricalBacktestResult }) {
+  const years = selectHeatmapYears(result.years)
+  const maxCapital = Math.max(0, ...result.runs.flatMap(run => years.map(year => run.capitalByYear[year] ?? 0)))
+
+  return (
+    <div>
+      <div className="overflow-x-auto">
+        <table className="border-collapse text-xs" aria-label="Verbleibendes Kapital nach Startjahr">
+          <thead>
+            <tr>
+              <th className="p-1 text-left font-medium text-gray-700">Startjahr</th>
+              {years.map(year => (
+                <th key={year} className="p-1 text-center font-medium text-gray-700 border-b border-gray-200">
+                  {year}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {result.runs.map(run => (
+              <tr key={run.historicalStartYear}>
+                <th className="p-1 text-left font-medium text-gray-700 border-r border-gray-200 whitespace-nowrap">
+                  {run.historicalStartYear}
+                  {run.wrapsAround ? '*' : ''}
+                </th>
+                {years.map(year => {
+                  const capital = run.capitalByYear[year] ?? 0
+                  return (
+                    <td
+                      key={year}
+                      className="p-1 text-center border border-gray-200 font-mono whitespace-nowrap"
+                      style={{ backgroundColor: getCapitalColor(capital, maxCapital) }}
+                      title={`Start ${run.historicalStartYear}, Jahr ${year}: ${formatCurrency(capital)}`}
+                    >
+                      {formatCompactCurrency(capital)}
+                    </td>
+                  )
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <HeatmapLegend />
+    </div>
+  )
+}
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import { RollingHistoricalBacktest } from './RollingHistoricalBacktest'
+import { SimulationProvider } from '../contexts/SimulationContext'
+
+describe('RollingHistoricalBacktest', () => {
+  const renderBacktest = () => {
+    render(
+      <SimulationProvider>
+        <RollingHistoricalBacktest />
+      </SimulationProvider>,
+    )
+    fireEvent.click(screen.getByText('📜 Historischer Backtest aller Startjahre'))
+  }
+
+  it('renders the index selection without results', () => {
+    renderBacktest()
+
+    expect(screen.getByText('MSCI World (seit 1970)')).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: /Backtest starten/ })).toBeInTheDocument()
+    expect(screen.queryByText('Schlechtestes Startjahr')).not.toBeInTheDocument()
+  })
+
+  it('runs the backtest and shows the summary and the heatmap', async () => {
+    renderBacktest()
+
+    fireEvent.click(screen.getByText('MSCI World'))
+    fireEvent.click(screen.getByRole('button', { name: /Backtest starten/ }))
+
+    await waitFor(() => expect(screen.getByText('Schlechtestes Startjahr')).toBeInTheDocument(), { timeout: 2500 })
+    expect(screen.getByText('Minimales Endkapital')).toBeInTheDocument()
+    expect(screen.getByRole('table', { name: 'Verbleibendes Kapital nach Startjahr' })).toBeInTheDocument()
+    expect(screen.getAllByRole('row')).toHaveLength(25)
+  })
+})
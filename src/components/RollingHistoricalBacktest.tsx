@@ -0,0 +1,99 @@
+import { Button } from './ui/button'
+import { Label } from './ui/label'
+import { Progress } from './ui/progress'
+import { RadioTile, RadioTileGroup } from './ui/radio-tile'
+import { CollapsibleCard, CollapsibleCardContent, CollapsibleCardHeader } from './ui/collapsible-card'
+import { RollingBacktestHeatmap } from './RollingBacktestHeatmap'
+import { useRollingHistoricalBacktest } from '../hooks/useRollingHistoricalBacktest'
+import { HISTORICAL_INDICES } from '../utils/historical-data'
+import { formatCurrency, formatPercent } from '../utils/currency'
+import type { RollingHistoricalBacktestResult } from '../utils/rolling-historical-backtest'
+
+function SummaryItem({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="p-3 bg-gray-50 rounded border">
+      <div className="text-sm text-gray-600">{label}</div>
+      <div className="text-lg font-semibold">{value}</div>
+    </div>
+  )
+}
+
+function WrapAroundSummary({ result }: { result: RollingHistoricalBacktestResult }) {
+  const wrapAroundRuns = result.runs.filter(run => run.wrapsAround)
+  if (result.wrapAroundSuccessRate === undefined) {
+    return null
+  }
+
+  return (
+    <p className="text-sm text-gray-600 mb-4">
+      * {wrapAroundRuns.length} Startjahre reichen über das Ende der Historie hinaus und beginnen erneut mit dem ersten
+      Jahr des Index. Sie sind nicht in der Erfolgsquote enthalten, ihre eigene Erfolgsquote beträgt{' '}
+      {formatPercent(result.wrapAroundSuccessRate)}.
+    </p>
+  )
+}
+
+function BacktestSummary({ result }: { result: RollingHistoricalBacktestResult }) {
+  const completeRuns = result.runs.filter(run => !run.wrapsAround)
+  const successfulRuns = completeRuns.filter(run => run.success).length
+
+  return (
+    <>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+        <SummaryItem label="Erfolgsquote" value={formatPercent(result.successRate)} />
+        <SummaryItem label="Erfolgreiche Startjahre" value={`${successfulRuns} von ${completeRuns.length}`} />
+        <SummaryItem label="Schlechtestes Startjahr" value={result.worstStartYear?.toString() ?? '–'} />
+        <SummaryItem label="Minimales Endkapital" value={formatCurrency(result.minimumEndingCapital)} />
+      </div>
+      <WrapAroundSummary result={result} />
+    </>
+  )
+}
+
+/**
+ * Backtest of the complete plan (savings phase and withdrawal segments) with every historical start year
+ */
+export function RollingHistoricalBacktest() {
+  const { config, indexId, setIndexId, result, isRunning, progress, runBacktest } = useRollingHistoricalBacktest()
+
+  return (
+    <CollapsibleCard>
+      <CollapsibleCardHeader>📜 Historischer Backtest aller Startjahre</CollapsibleCardHeader>
+      <CollapsibleCardContent>
+        <p className="text-sm text-gray-600">
+          Der komplette Plan – Ansparphase und die konfigurierten Entnahme-Phasen – wird mit jedem historischen Jahr des
+          Index als Startjahr durchgerechnet. Die folgenden Jahre erhalten die Renditen der anschließenden historischen
+          Jahre; reicht die Historie nicht aus, beginnt sie erneut mit dem ersten Jahr des Index.
+        </p>
+        {!config.withdrawal && !config.withdrawalPhase && (
+          <p className="text-sm text-amber-700">
+            Die Entnahmephase ist noch nicht konfiguriert – es wird nur die Ansparphase durchgerechnet.
+          </p>
+        )}
+        <div className="space-y-3">
+          <Label>Historischer Index</Label>
+          <RadioTileGroup value={indexId} onValueChange={setIndexId}>
+            {HISTORICAL_INDICES.map(index => (
+              <RadioTile key={index.id} value={index.id} label={index.name}>
+                {index.startYear}–{index.endYear}
+              </RadioTile>
+            ))}
+          </RadioTileGroup>
+        </div>
+        <div className="flex flex-wrap items-end gap-4">
+          <Button onClick={runBacktest} disabled={isRunning}>
+            {isRunning ? `Backtest läuft... ${progress}%` : '▶️ Backtest starten'}
+          </Button>
+          {isRunning && <Progress value={progress} className="h-2 w-full" aria-label="Fortschritt des Backtests" />}
+        </div>
+        {result && (
+          <div>
+            <BacktestSummary result={result} />
+            <h5 className="font-semibold mb-2">Verbleibendes Kapital nach Startjahr</h5>
+            <RollingBacktestHeatmap result={result} />
+          </div>
+        )}
+      </CollapsibleCardContent>
+    </CollapsibleCard>
+  )
+}
@@ -7,7 +7,15 @@ import { convertSparplanToElements } from '../utils/sparplan-utils'
 import { CollapsibleCard, CollapsibleCardContent, CollapsibleCardHeader } from './ui/collapsible-card'
 
 const SavingsPlan = () => {
-  const { setSparplan, sparplan, startEnd, simulationAnnual, setSparplanElemente, simulationData } = useSimulation()
+  const {
+    setSparplan,
+    sparplan,
+    startEnd,
+    simulationAnnual,
+    setSparplanElemente,
+    simulationData,
+    freistellungsauftragAccounts,
+  } = useSimulation()
 
   return (
     <div className="space-y-4">
@@ -23,6 +31,7 @@ const SavingsPlan = () => {
             }}
             simulationAnnual={simulationAnnual}
             currentSparplans={sparplan}
+            depots={freistellungsauftragAccounts}
           />
         </CollapsibleCardContent>
       </CollapsibleCard>
@@ -0,0 +1,24 @@
+import type { WithdrawalSegment } from '../utils/segmented-withdrawal'
+import { getStrategyDefaults } from '../utils/withdrawal-strategy-defaults'
+import { BedarfsorientierteEntnahmeConfiguration } from './BedarfsorientierteEntnahmeConfiguration'
+
+interface Props {
+  segment: WithdrawalSegment
+  onUpdate: (segmentId: string, updates: Partial<WithdrawalSegment>) => void
+}
+
+export function SegmentBedarfsorientierteWrapper({ segment, onUpdate }: Props) {
+  const config =
+    segment.bedarfsorientierteConfig ??
+    getStrategyDefaults({ strategy: 'bedarfsorientiert', currentSegment: segment }).bedarfsorientierteConfig
+
+  if (!config) return null
+
+  return (
+    <BedarfsorientierteEntnahmeConfiguration
+      config={config}
+      onChange={bedarfsorientierteConfig => onUpdate(segment.id, { bedarfsorientierteConfig })}
+      endYear={segment.endYear}
+    />
+  )
+}
@@ -5,6 +5,7 @@ import { SegmentDynamicStrategyWrapper } from './SegmentDynamicStrategyWrapper'
 import { SegmentBucketStrategyWrapper } from './SegmentBucketStrategyWrapper'
 import { SegmentRMDStrategyWrapper } from './SegmentRMDStrategyWrapper'
 import { SegmentSteueroptimierteWrapper } from './SegmentSteueroptimierteWrapper'
+import { SegmentBedarfsorientierteWrapper } from './SegmentBedarfsorientierteWrapper'
 
 interface SegmentStrategyConfigProps {
   segment: WithdrawalSegment
@@ -48,5 +49,9 @@ export function SegmentStrategyConfig({ segment, onUpdate }: SegmentStrategyConf
     return <SegmentSteueroptimierteWrapper segment={segment} onUpdate={onUpdate} />
   }
 
+  if (strategy === 'bedarfsorientiert') {
+    return <SegmentBedarfsorientierteWrapper segment={segment} onUpdate={onUpdate} />
+  }
+
   return null
 }
@@ -39,6 +39,9 @@ function StrategyRadioTiles() {
       <RadioTile value="steueroptimiert" label="Steueroptimierte Entnahme">
         Automatische Optimierung zur Steuerminimierung
       </RadioTile>
+      <RadioTile value="bedarfsorientiert" label="Bedarfsorientierte Entnahme">
+        Ausgabenbedarf abzüglich Renten, zuzüglich Steuern
+      </RadioTile>
     </>
   )
 }
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi } from 'vitest'
-import { render, screen, fireEvent } from '@testing-library/react'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
 import SensitivityAnalysisDisplay from './SensitivityAnalysisDisplay'
 import type { SensitivityAnalysisConfig } from '../utils/sensitivity-analysis'
 
@@ -82,22 +82,22 @@ describe('SensitivityAnalysisDisplay', () => {
     expect(screen.getByText('🎯 Einflussreichste Parameter')).toBeInTheDocument()
   })
 
-  it('displays all parameter names in ranking', () => {
+  it('displays all parameter names in ranking', async () => {
     render(<SensitivityAnalysisDisplay config={baseConfig} returnConfig={returnConfig} />)
 
     // Expand the component
     const header = screen.getByText('📊 Sensitivitätsanalyse')
     fireEvent.click(header)
 
-    // Check for parameter names
-    expect(screen.getByText('Rendite')).toBeInTheDocument()
+    // Check for parameter names (the analysis runs in the worker pool)
+    expect(await screen.findByText('Rendite')).toBeInTheDocument()
     expect(screen.getByText('Jährliche Sparrate')).toBeInTheDocument()
     expect(screen.getByText('Steuerlast')).toBeInTheDocument()
     expect(screen.getByText('Inflationsrate')).toBeInTheDocument()
     expect(screen.getByText('Anlagedauer')).toBeInTheDocument()
   })
 
-  it('displays charts for top parameters', () => {
+  it('displays charts for top parameters', async () => {
     render(<SensitivityAnalysisDisplay config={baseConfig} returnConfig={returnConfig} />)
 
     // Expand the component
@@ -105,7 +105,7 @@ describe('SensitivityAnalysisDisplay', () => {
     fireEvent.click(header)
 
     // Should have at least one chart (top 3 parameters get charts)
-    const charts = screen.getAllByTestId('chartjs-line')
+    const charts = await screen.findAllByTestId('chartjs-line')
     expect(charts.length).toBeGreaterThan(0)
     expect(charts.length).toBeLessThanOrEqual(3)
   })
@@ -156,7 +156,7 @@ describe('SensitivityAnalysisDisplay', () => {
     expect(screen.getByText('🎯 Einflussreichste Parameter')).toBeInTheDocument()
   })
 
-  it('displays sensitivity scores for parameters', () => {
+  it('displays sensitivity scores for parameters', async () => {
     render(<SensitivityAnalysisDisplay config={baseConfig} returnConfig={returnConfig} />)
 
     // Expand the component
@@ -164,7 +164,16 @@ describe('SensitivityAnalysisDisplay', () => {
     fireEvent.click(header)
 
     // Check that sensitivity label is displayed
-    const sensitivityLabels = screen.getAllByText('Sensitivität')
+    const sensitivityLabels = await screen.findAllByText('Sensitivität')
     expect(sensitivityLabels.length).toBeGreaterThan(0)
   })
+
+  it('shows that the analysis is running until the worker delivers the results', async () => {
+    render(<SensitivityAnalysisDisplay config={baseConfig} returnConfig={returnConfig} />)
+
+    fireEvent.click(screen.getByText('📊 Sensitivitätsanalyse'))
+
+    expect(screen.getByText('Sensitivitätsanalyse wird berechnet...')).toBeInTheDocument()
+    await waitFor(() => expect(screen.queryByText('Sensitivitätsanalyse wird berechnet...')).not.toBeInTheDocument())
+  })
 })
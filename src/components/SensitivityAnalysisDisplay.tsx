@@ -22,7 +22,7 @@ function SensitivityAnalysisDisplay({
   title = '📊 Sensitivitätsanalyse',
 }: SensitivityAnalysisDisplayProps) {
   const [isOpen, setIsOpen] = useState(false)
-  const { analysisResults, parameterRanking } = useSensitivityAnalysis(config, returnConfig)
+  const { analysisResults, parameterRanking, isRunning } = useSensitivityAnalysis(config, returnConfig)
 
   return (
     <Collapsible open={isOpen} onOpenChange={setIsOpen}>
@@ -43,6 +43,8 @@ function SensitivityAnalysisDisplay({
             {/* Introduction */}
             <IntroductionSection />
 
+            {isRunning && <p className="text-sm text-gray-600">Sensitivitätsanalyse wird berechnet...</p>}
+
             {/* Parameter Ranking */}
             <ParameterRankingSection rankings={parameterRanking} />
 
@@ -2,10 +2,14 @@ import type { ChangeEvent } from 'react'
 import { type SingleFormValue } from './SparplanEingabe.helpers'
 import { SinglePaymentFormFields } from './sparplan-forms/SinglePaymentFormFields'
 import { CostFactorFields } from './sparplan-forms/CostFactorFields'
+import { DepotSelectField } from './sparplan-forms/DepotSelectField'
+import { FundTypeSelectField } from './sparplan-forms/FundTypeSelectField'
+import { DistributionFields } from './sparplan-forms/DistributionFields'
 import { Button } from './ui/button'
 import { Card, CardContent } from './ui/card'
 import { Collapsible, CollapsibleContent } from './ui/collapsible'
 import { CollapsibleCardHeader } from './ui/collapsible-card'
+import type { BankAccount } from '../../helpers/freistellungsauftrag-optimization'
 
 interface SinglePaymentFormCardProps {
   isOpen: boolean
@@ -23,6 +27,7 @@ interface SinglePaymentFormCardProps {
   isEditMode: boolean
   showCancelButton: boolean
   onCancel: () => void
+  depots?: BankAccount[]
 }
 
 function FormHeader() {
@@ -65,6 +70,36 @@ function FormButtons({
   )
 }
 
+/**
+ * Fund type, distribution and depot assignment of the single payment
+ */
+function SinglePaymentAssignmentFields({
+  formValues,
+  onFormChange,
+  depots,
+}: Pick<SinglePaymentFormCardProps, 'formValues' | 'onFormChange'> & { depots: BankAccount[] }) {
+  return (
+    <>
+      <FundTypeSelectField
+        id="singlePaymentFundType"
+        value={formValues.fundType}
+        onChange={fundType => onFormChange({ ...formValues, fundType })}
+      />
+      <DistributionFields
+        id="singlePaymentDistribution"
+        value={formValues.distribution}
+        onChange={distribution => onFormChange({ ...formValues, distribution })}
+      />
+      <DepotSelectField
+        id="singlePaymentDepot"
+        depots={depots}
+        value={formValues.depotId}
+        onChange={depotId => onFormChange({ ...formValues, depotId })}
+      />
+    </>
+  )
+}
+
 /**
  * Form content for single payment
  */
@@ -78,6 +113,7 @@ function SinglePaymentForm({
   isEditMode,
   showCancelButton,
   onCancel,
+  depots = [],
 }: Omit<SinglePaymentFormCardProps, 'isOpen' | 'onOpenChange'>) {
   return (
     <form
@@ -98,6 +134,7 @@ function SinglePaymentForm({
         onValueChange={values => onFormChange({ ...formValues, ...values })}
         handleNumberChange={handleNumberChange}
       />
+      <SinglePaymentAssignmentFields formValues={formValues} onFormChange={onFormChange} depots={depots} />
       <FormButtons
         isEditMode={isEditMode}
         showCancelButton={showCancelButton}
@@ -10,6 +10,7 @@ import { DynamicWithdrawalConfiguration } from './DynamicWithdrawalConfiguration
 import { RMDWithdrawalConfiguration } from './rmd-withdrawal/RMDWithdrawalConfiguration'
 import { KapitalerhaltConfiguration } from './KapitalerhaltConfiguration'
 import { BucketStrategyConfigurationForm } from './bucket-strategy/BucketStrategyConfigurationForm'
+import { BedarfsorientierteStrategyConfiguration } from './BedarfsorientierteStrategyConfiguration'
 
 interface SingleStrategyConfigParams {
   formValue: WithdrawalFormValue
@@ -160,6 +161,8 @@ function StrategySpecificConfigs({ formValue, onFormValueUpdate }: StrategySpeci
       return <RMDWithdrawalConfiguration formValue={formValue} updateFormValue={onFormValueUpdate} />
     case 'kapitalerhalt':
       return <KapitalerhaltConfiguration formValue={formValue} updateFormValue={onFormValueUpdate} />
+    case 'bedarfsorientiert':
+      return <BedarfsorientierteStrategyConfiguration formValue={formValue} updateFormValue={onFormValueUpdate} />
     case 'bucket_strategie':
       return (
         <BucketStrategyConfigurationForm
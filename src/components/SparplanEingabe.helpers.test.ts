@@ -78,6 +78,68 @@ describe('SparplanEingabe.helpers', () => {
       expect(result[0].id).toBe(1)
       expect(result[1].einzahlung).toBe(200)
     })
+
+    it('should keep the depot assignment', () => {
+      const formValues = {
+        start: new Date('2024-01-01'),
+        end: null,
+        einzahlung: '1000',
+        ter: '',
+        transactionCostPercent: '',
+        transactionCostAbsolute: '',
+        depotId: 'broker-a',
+      }
+
+      const [sparplan] = createNewSparplan({
+        formValues,
+        simulationAnnual: SimulationAnnual.yearly,
+        existingSparplans: [],
+      })
+
+      expect(sparplan.depotId).toBe('broker-a')
+      expect(populateSparplanFormFromSparplan(sparplan, SimulationAnnual.yearly).depotId).toBe('broker-a')
+    })
+
+    it('should keep the fund type', () => {
+      const formValues = {
+        start: new Date('2024-01-01'),
+        end: null,
+        einzahlung: '1000',
+        ter: '',
+        transactionCostPercent: '',
+        transactionCostAbsolute: '',
+        fundType: 'bond-fund' as const,
+      }
+
+      const [sparplan] = createNewSparplan({
+        formValues,
+        simulationAnnual: SimulationAnnual.yearly,
+        existingSparplans: [],
+      })
+
+      expect(sparplan.fundType).toBe('bond-fund')
+      expect(populateSparplanFormFromSparplan(sparplan, SimulationAnnual.yearly).fundType).toBe('bond-fund')
+    })
+
+    it('should keep the distribution of a distributing fund', () => {
+      const distribution = { distributionYield: 0.02, withholdingTaxRate: 0.15, reinvest: false }
+      const [sparplan] = createNewSparplan({
+        formValues: {
+          start: new Date('2024-01-01'),
+          end: null,
+          einzahlung: '1000',
+          ter: '',
+          transactionCostPercent: '',
+          transactionCostAbsolute: '',
+          distribution,
+        },
+        simulationAnnual: SimulationAnnual.yearly,
+        existingSparplans: [],
+      })
+
+      expect(sparplan.distribution).toEqual(distribution)
+      expect(populateSparplanFormFromSparplan(sparplan, SimulationAnnual.yearly).distribution).toEqual(distribution)
+    })
   })
 
   describe('createNewSinglePayment', () => {
@@ -1,5 +1,6 @@
 import { SimulationAnnual, type SimulationAnnualType } from '../utils/simulate'
-import type { IncomePattern, Sparplan } from '../utils/sparplan-utils'
+import type { DistributionConfig, IncomePattern, Sparplan } from '../utils/sparplan-utils'
+import type { AssetClass } from '../../helpers/asset-class'
 
 // Type definitions for form values
 export interface SingleFormValue {
@@ -8,6 +9,9 @@ export interface SingleFormValue {
   ter: string
   transactionCostPercent: string
   transactionCostAbsolute: string
+  depotId?: string
+  fundType?: AssetClass
+  distribution?: DistributionConfig
 }
 
 export interface SparplanFormValue {
@@ -18,6 +22,9 @@ export interface SparplanFormValue {
   transactionCostPercent: string
   transactionCostAbsolute: string
   incomePattern?: IncomePattern
+  depotId?: string
+  fundType?: AssetClass
+  distribution?: DistributionConfig
 }
 
 // Parameters for creating a new sparplan
@@ -63,6 +70,9 @@ export function createNewSparplan(params: CreateSparplanParams): Sparplan[] {
       ? Number(formValues.transactionCostAbsolute)
       : undefined,
     incomePattern: formValues.incomePattern,
+    depotId: formValues.depotId,
+    fundType: formValues.fundType,
+    distribution: formValues.distribution,
   }
 
   return [...existingSparplans, newSparplan]
@@ -85,6 +95,9 @@ export function createNewSinglePayment(params: CreateSinglePaymentParams): Sparp
     transactionCostAbsolute: formValues.transactionCostAbsolute
       ? Number(formValues.transactionCostAbsolute)
       : undefined,
+    depotId: formValues.depotId,
+    fundType: formValues.fundType,
+    distribution: formValues.distribution,
   }
 
   return [...existingSparplans, newPayment]
@@ -121,6 +134,9 @@ function createOneTimePaymentUpdate(editingSparplan: Sparplan, singleFormValues:
     ter: parseOptionalNumber(singleFormValues.ter),
     transactionCostPercent: parseOptionalNumber(singleFormValues.transactionCostPercent),
     transactionCostAbsolute: parseOptionalNumber(singleFormValues.transactionCostAbsolute),
+    depotId: singleFormValues.depotId,
+    fundType: singleFormValues.fundType,
+    distribution: singleFormValues.distribution,
   }
 }
 
@@ -146,6 +162,9 @@ function createRegularSparplanUpdate(
     transactionCostPercent: parseOptionalNumber(sparplanFormValues.transactionCostPercent),
     transactionCostAbsolute: parseOptionalNumber(sparplanFormValues.transactionCostAbsolute),
     incomePattern: sparplanFormValues.incomePattern,
+    depotId: sparplanFormValues.depotId,
+    fundType: sparplanFormValues.fundType,
+    distribution: sparplanFormValues.distribution,
   }
 }
 
@@ -206,6 +225,9 @@ export function populateSingleFormFromSparplan(sparplan: Sparplan): SingleFormVa
     ter: sparplan.ter?.toString() || '',
     transactionCostPercent: sparplan.transactionCostPercent?.toString() || '',
     transactionCostAbsolute: sparplan.transactionCostAbsolute?.toString() || '',
+    depotId: sparplan.depotId,
+    fundType: sparplan.fundType,
+    distribution: sparplan.distribution,
   }
 }
 
@@ -249,5 +271,8 @@ export function populateSparplanFormFromSparplan(
     transactionCostPercent: optionalNumberToString(sparplan.transactionCostPercent),
     transactionCostAbsolute: optionalNumberToString(sparplan.transactionCostAbsolute),
     incomePattern: sparplan.incomePattern,
+    depotId: sparplan.depotId,
+    fundType: sparplan.fundType,
+    distribution: sparplan.distribution,
   }
 }
@@ -1,5 +1,6 @@
 import { type SimulationAnnualType } from '../utils/simulate'
 import { initialSparplan, type Sparplan } from '../utils/sparplan-utils'
+import type { BankAccount } from '../../helpers/freistellungsauftrag-optimization'
 import { SparplanEingabeView } from './SparplanEingabeView'
 import { useSparplanManagement } from './useSparplanManagement'
 import {
@@ -14,10 +15,12 @@ export function SparplanEingabe({
   dispatch,
   simulationAnnual,
   currentSparplans = [initialSparplan],
+  depots = [],
 }: {
   dispatch: (val: Sparplan[]) => void
   simulationAnnual: SimulationAnnualType
   currentSparplans?: Sparplan[]
+  depots?: BankAccount[]
 }) {
   const management = useSparplanManagement(dispatch, simulationAnnual, currentSparplans)
 
@@ -35,6 +38,7 @@ export function SparplanEingabe({
       editingSparplan={management.editingSparplan}
       sparplans={management.sparplans}
       simulationAnnual={simulationAnnual}
+      depots={depots}
       handleSparplanSubmit={management.handleSparplanSubmit}
       handleSinglePaymentSubmit={management.handleSinglePaymentSubmit}
       handleDeleteSparplan={management.handleDeleteSparplan}
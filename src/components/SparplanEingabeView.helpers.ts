@@ -1,6 +1,7 @@
 import React from 'react'
 import type { Sparplan } from '../utils/sparplan-utils'
 import type { SimulationAnnualType } from '../utils/simulate'
+import type { BankAccount } from '../../helpers/freistellungsauftrag-optimization'
 import type { SingleFormValue, SparplanFormValue } from './SparplanEingabe.helpers'
 
 /**
@@ -66,6 +67,7 @@ export function getSharedUtilitiesProps(
   ) => void,
   handleNumberChange: (e: React.ChangeEvent<HTMLInputElement>, onChange: (value: string) => void) => void,
   handleCancelEdit: () => void,
+  depots: BankAccount[] = [],
 ) {
   return {
     simulationAnnual,
@@ -73,6 +75,7 @@ export function getSharedUtilitiesProps(
     handleDateChange,
     handleNumberChange,
     handleCancelEdit,
+    depots,
   }
 }
 
@@ -136,6 +139,7 @@ export interface SparplanEingabeViewProps {
   // Data
   sparplans: Sparplan[]
   simulationAnnual: SimulationAnnualType
+  depots?: BankAccount[]
 
   // Handlers
   handleSparplanSubmit: () => void
@@ -188,6 +192,7 @@ export function computeViewProps(props: SparplanEingabeViewProps) {
       props.handleDateChange,
       props.handleNumberChange,
       props.handleCancelEdit,
+      props.depots,
     ),
     savedSparplansList: getSavedSparplansListProps(
       props.sparplans,
@@ -3,11 +3,15 @@ import { type SimulationAnnualType, SimulationAnnual } from '../utils/simulate'
 import { type SparplanFormValue } from './SparplanEingabe.helpers'
 import { SparplanFormFields } from './sparplan-forms/SparplanFormFields'
 import { CostFactorFields } from './sparplan-forms/CostFactorFields'
+import { DepotSelectField } from './sparplan-forms/DepotSelectField'
+import { FundTypeSelectField } from './sparplan-forms/FundTypeSelectField'
+import { DistributionFields } from './sparplan-forms/DistributionFields'
 import { IncomePatternConfiguration } from './sparplan-forms/IncomePatternConfiguration'
 import { Button } from './ui/button'
 import { Card, CardContent } from './ui/card'
 import { Collapsible, CollapsibleContent } from './ui/collapsible'
 import { CollapsibleCardHeader } from './ui/collapsible-card'
+import type { BankAccount } from '../../helpers/freistellungsauftrag-optimization'
 
 interface SparplanFormCardProps {
   isOpen: boolean
@@ -26,6 +30,7 @@ interface SparplanFormCardProps {
   isEditMode: boolean
   showCancelButton: boolean
   onCancel: () => void
+  depots?: BankAccount[]
 }
 
 function SparplanFormHeader() {
@@ -68,6 +73,46 @@ function SparplanFormButtons({
   )
 }
 
+/**
+ * Fund type, distribution, depot assignment and income pattern of the sparplan
+ */
+function SparplanAssignmentFields({
+  formValues,
+  simulationAnnual,
+  onFormChange,
+  depots,
+}: Pick<SparplanFormCardProps, 'formValues' | 'simulationAnnual' | 'onFormChange'> & { depots: BankAccount[] }) {
+  return (
+    <>
+      <FundTypeSelectField
+        id="sparplanFundType"
+        value={formValues.fundType}
+        onChange={fundType => onFormChange({ ...formValues, fundType })}
+      />
+      <DistributionFields
+        id="sparplanDistribution"
+        value={formValues.distribution}
+        onChange={distribution => onFormChange({ ...formValues, distribution })}
+      />
+      <DepotSelectField
+        id="sparplanDepot"
+        depots={depots}
+        value={formValues.depotId}
+        onChange={depotId => onFormChange({ ...formValues, depotId })}
+      />
+      {/* Income pattern configuration - only shown for monthly mode */}
+      {simulationAnnual === SimulationAnnual.monthly && (
+        <div className="mb-4">
+          <IncomePatternConfiguration
+            incomePattern={formValues.incomePattern}
+            onChange={pattern => onFormChange({ ...formValues, incomePattern: pattern })}
+          />
+        </div>
+      )}
+    </>
+  )
+}
+
 /**
  * Form content for sparplan
  */
@@ -82,6 +127,7 @@ function SparplanForm({
   isEditMode,
   showCancelButton,
   onCancel,
+  depots = [],
 }: Omit<SparplanFormCardProps, 'isOpen' | 'onOpenChange'>) {
   return (
     <form
@@ -103,15 +149,12 @@ function SparplanForm({
         onValueChange={values => onFormChange({ ...formValues, ...values })}
         handleNumberChange={handleNumberChange}
       />
-      {/* Income pattern configuration - only shown for monthly mode */}
-      {simulationAnnual === SimulationAnnual.monthly && (
-        <div className="mb-4">
-          <IncomePatternConfiguration
-            incomePattern={formValues.incomePattern}
-            onChange={pattern => onFormChange({ ...formValues, incomePattern: pattern })}
-          />
-        </div>
-      )}
+      <SparplanAssignmentFields
+        formValues={formValues}
+        simulationAnnual={simulationAnnual}
+        onFormChange={onFormChange}
+        depots={depots}
+      />
       <SparplanFormButtons
         isEditMode={isEditMode}
         showCancelButton={showCancelButton}
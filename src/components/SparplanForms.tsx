@@ -1,6 +1,7 @@
 import type { ChangeEvent } from 'react'
 import type { SimulationAnnualType } from '../utils/simulate'
 import type { SingleFormValue, SparplanFormValue } from './SparplanEingabe.helpers'
+import type { BankAccount } from '../../helpers/freistellungsauftrag-optimization'
 import { SparplanFormCard } from './SparplanFormCard'
 import { SinglePaymentFormCard } from './SinglePaymentFormCard'
 
@@ -34,6 +35,7 @@ interface SharedFormUtilities {
   ) => void
   handleNumberChange: (e: ChangeEvent<HTMLInputElement>, onChange: (value: string) => void) => void
   handleCancelEdit: () => void
+  depots?: BankAccount[]
 }
 
 interface SparplanFormsProps {
@@ -58,6 +60,7 @@ export function SparplanForms({ sparplanForm, singlePaymentForm, sharedUtilities
         isEditMode={sparplanForm.isEditMode}
         showCancelButton={sparplanForm.showCancelButton}
         onCancel={sharedUtilities.handleCancelEdit}
+        depots={sharedUtilities.depots}
       />
 
       <SinglePaymentFormCard
@@ -72,6 +75,7 @@ export function SparplanForms({ sparplanForm, singlePaymentForm, sharedUtilities
         isEditMode={singlePaymentForm.isEditMode}
         showCancelButton={singlePaymentForm.showCancelButton}
         onCancel={sharedUtilities.handleCancelEdit}
+        depots={sharedUtilities.depots}
       />
     </>
   )
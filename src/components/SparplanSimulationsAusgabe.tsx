@@ -25,6 +25,7 @@ import { useCallback, useMemo } from 'react'
 import { FinancialGoalsKPIDashboard } from './FinancialGoalsKPIDashboard'
 import { PortfolioTimeline } from './timeline/PortfolioTimeline'
 import { TaxBurdenAnalysisCard } from './TaxBurdenAnalysisCard'
+import { VermoegensbilanzCard } from './VermoegensbilanzCard'
 
 // Type for calculation info click data
 interface CalculationInfoData {
@@ -389,8 +390,9 @@ function SparplanCardContent(props: SparplanCardContentProps) {
         summary={summary}
         yearlyProgression={yearlyProgression}
       />
-      <div className="mt-6">
+      <div className="mt-6 space-y-6">
         <TaxBurdenAnalysisCard simulationResult={convertSparplanElementsToSimulationResult(elemente)} />
+        <VermoegensbilanzCard elemente={elemente} />
       </div>
       <ModalsSection
         showVorabpauschaleModal={showVorabpauschaleModal}
@@ -0,0 +1,40 @@
+/// <reference types="@testing-library/jest-dom" />
+import { render, screen, fireEvent } from '@testing-library/react'
+import { describe, it, expect } from 'vitest'
+import StochasticReturnConfiguration from './StochasticReturnConfiguration'
+import { SimulationProvider } from '../contexts/SimulationContext'
+
+const renderWithProvider = (mode: 'bootstrap' | 'student-t' | 'regime') =>
+  render(
+    <SimulationProvider>
+      <StochasticReturnConfiguration mode={mode} />
+    </SimulationProvider>,
+  )
+
+describe('StochasticReturnConfiguration', () => {
+  it('renders the Student-t settings with the random return sliders', () => {
+    renderWithProvider('student-t')
+
+    expect(screen.getByText('Durchschnittliche Rendite')).toBeInTheDocument()
+    expect(screen.getByText('Freiheitsgrade (niedriger = extremere Jahre)')).toBeInTheDocument()
+    expect(screen.getAllByText('Zufallsseed (optional für reproduzierbare Ergebnisse)')).toHaveLength(1)
+  })
+
+  it('renders the block bootstrap settings and selects a historical index', () => {
+    renderWithProvider('bootstrap')
+
+    expect(screen.getByText('Blocklänge (aufeinanderfolgende Jahre)')).toBeInTheDocument()
+    const daxTile = screen.getByRole('radio', { name: /DAX/ })
+    fireEvent.click(daxTile)
+
+    expect(daxTile).toBeChecked()
+  })
+
+  it('renders the regime settings with the long-run summary of the defaults', () => {
+    renderWithProvider('regime')
+
+    expect(screen.getByText('Rendite im Bärenmarkt')).toBeInTheDocument()
+    expect(screen.getByText(/Langfristig 75% der Jahre im Bullenmarkt/)).toBeInTheDocument()
+    expect(screen.getByText(/durchschnittliche Rendite 7.0% p.a./)).toBeInTheDocument()
+  })
+})
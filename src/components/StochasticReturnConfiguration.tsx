@@ -0,0 +1,216 @@
+import { useSimulation } from '../contexts/useSimulation'
+import { HISTORICAL_INDICES } from '../utils/historical-data'
+import { MIN_DEGREES_OF_FREEDOM, getLongRunBullShare, type StochasticReturnSettings } from '../utils/stochastic-returns'
+import RandomReturnConfiguration from './RandomReturnConfiguration'
+import RandomSeedInput from './RandomSeedInput'
+import { Label } from './ui/label'
+import { RadioTile, RadioTileGroup } from './ui/radio-tile'
+import { Slider } from './ui/slider'
+
+type UpdateSettings = (changes: Partial<StochasticReturnSettings>) => void
+
+interface SettingSliderProps {
+  id: string
+  label: string
+  value: number
+  min: number
+  max: number
+  step: number
+  unit: string
+  onChange: (value: number) => void
+}
+
+const SettingSlider = ({ id, label, value, min, max, step, unit, onChange }: SettingSliderProps) => (
+  <div className="space-y-2">
+    <Label htmlFor={id}>{label}</Label>
+    <Slider id={id} value={[value]} onValueChange={([v]) => onChange(v)} min={min} max={max} step={step} />
+    <div className="flex justify-between text-sm text-muted-foreground">
+      <span>
+        {min}
+        {unit}
+      </span>
+      <span className="font-medium">
+        {value}
+        {unit}
+      </span>
+      <span>
+        {max}
+        {unit}
+      </span>
+    </div>
+  </div>
+)
+
+const StudentTSettings = ({ settings, update }: { settings: StochasticReturnSettings; update: UpdateSettings }) => (
+  <div className="space-y-6">
+    <RandomReturnConfiguration />
+    <SettingSlider
+      id="degreesOfFreedom"
+      label="Freiheitsgrade (niedriger = extremere Jahre)"
+      value={settings.degreesOfFreedom}
+      min={MIN_DEGREES_OF_FREEDOM}
+      max={30}
+      step={1}
+      unit=""
+      onChange={degreesOfFreedom => update({ degreesOfFreedom })}
+    />
+    <p className="text-sm text-muted-foreground">
+      Die Student-t-Verteilung hat bei gleicher Volatilität mehr extreme Jahre (Crashs und Boomjahre) als die
+      Normalverteilung. Ab etwa 30 Freiheitsgraden verhält sie sich wie die Normalverteilung.
+    </p>
+  </div>
+)
+
+const BootstrapSettings = ({ settings, update }: { settings: StochasticReturnSettings; update: UpdateSettings }) => (
+  <div className="space-y-6">
+    <div className="space-y-3">
+      <Label>Historischer Index für das Resampling</Label>
+      <RadioTileGroup
+        value={settings.bootstrapIndexId}
+        onValueChange={(bootstrapIndexId: string) => update({ bootstrapIndexId })}
+      >
+        {HISTORICAL_INDICES.map(index => (
+          <RadioTile key={index.id} value={index.id} label={index.name}>
+            {index.startYear}–{index.endYear}
+          </RadioTile>
+        ))}
+      </RadioTileGroup>
+    </div>
+    <SettingSlider
+      id="bootstrapBlockLength"
+      label="Blocklänge (aufeinanderfolgende Jahre)"
+      value={settings.bootstrapBlockLength}
+      min={1}
+      max={10}
+      step={1}
+      unit=" J."
+      onChange={bootstrapBlockLength => update({ bootstrapBlockLength })}
+    />
+    <p className="text-sm text-muted-foreground">
+      Zufällig gewählte Blöcke aufeinanderfolgender historischer Jahre werden aneinandergereiht. So bleiben Crash-Phasen
+      wie 2000–2002 oder 2008 zusammenhängend erhalten.
+    </p>
+  </div>
+)
+
+const RegimeSummary = ({ settings }: { settings: StochasticReturnSettings }) => {
+  const bullShare = getLongRunBullShare({
+    bull: { averageReturn: settings.bullMarketReturn, standardDeviation: settings.bullMarketVolatility },
+    bear: { averageReturn: settings.bearMarketReturn, standardDeviation: settings.bearMarketVolatility },
+    bullToBearProbability: settings.bullToBearProbability / 100,
+    bearToBullProbability: settings.bearToBullProbability / 100,
+  })
+  const longRunReturn = bullShare * settings.bullMarketReturn + (1 - bullShare) * settings.bearMarketReturn
+
+  return (
+    <p className="text-sm text-muted-foreground">
+      Langfristig {(bullShare * 100).toFixed(0)}% der Jahre im Bullenmarkt, durchschnittliche Rendite{' '}
+      {longRunReturn.toFixed(1)}% p.a.
+    </p>
+  )
+}
+
+const RegimeSettings = ({ settings, update }: { settings: StochasticReturnSettings; update: UpdateSettings }) => (
+  <div className="space-y-6">
+    <SettingSlider
+      id="bullMarketReturn"
+      label="Rendite im Bullenmarkt"
+      value={settings.bullMarketReturn}
+      min={0}
+      max={25}
+      step={0.5}
+      unit="%"
+      onChange={bullMarketReturn => update({ bullMarketReturn })}
+    />
+    <SettingSlider
+      id="bullMarketVolatility"
+      label="Volatilität im Bullenmarkt"
+      value={settings.bullMarketVolatility}
+      min={5}
+      max={30}
+      step={1}
+      unit="%"
+      onChange={bullMarketVolatility => update({ bullMarketVolatility })}
+    />
+    <SettingSlider
+      id="bearMarketReturn"
+      label="Rendite im Bärenmarkt"
+      value={settings.bearMarketReturn}
+      min={-30}
+      max={0}
+      step={0.5}
+      unit="%"
+      onChange={bearMarketReturn => update({ bearMarketReturn })}
+    />
+    <SettingSlider
+      id="bearMarketVolatility"
+      label="Volatilität im Bärenmarkt"
+      value={settings.bearMarketVolatility}
+      min={10}
+      max={40}
+      step={1}
+      unit="%"
+      onChange={bearMarketVolatility => update({ bearMarketVolatility })}
+    />
+    <RegimeTransitionSettings settings={settings} update={update} />
+  </div>
+)
+
+const RegimeTransitionSettings = ({
+  settings,
+  update,
+}: {
+  settings: StochasticReturnSettings
+  update: UpdateSettings
+}) => (
+  <>
+    <SettingSlider
+      id="bullToBearProbability"
+      label="Wahrscheinlichkeit Wechsel Bullen- → Bärenmarkt (pro Jahr)"
+      value={settings.bullToBearProbability}
+      min={1}
+      max={60}
+      step={1}
+      unit="%"
+      onChange={bullToBearProbability => update({ bullToBearProbability })}
+    />
+    <SettingSlider
+      id="bearToBullProbability"
+      label="Wahrscheinlichkeit Wechsel Bären- → Bullenmarkt (pro Jahr)"
+      value={settings.bearToBullProbability}
+      min={1}
+      max={90}
+      step={1}
+      unit="%"
+      onChange={bearToBullProbability => update({ bearToBullProbability })}
+    />
+    <RegimeSummary settings={settings} />
+  </>
+)
+
+/**
+ * Configuration of the fat-tailed and regime-based return models (block bootstrap, Student-t, bull/bear regime)
+ */
+const StochasticReturnConfiguration = ({ mode }: { mode: 'bootstrap' | 'student-t' | 'regime' }) => {
+  const { stochasticReturnSettings, setStochasticReturnSettings, randomSeed, setRandomSeed, performSimulation } =
+    useSimulation()
+
+  const update: UpdateSettings = changes => {
+    setStochasticReturnSettings({ ...stochasticReturnSettings, ...changes })
+    performSimulation()
+  }
+
+  return (
+    <div className="space-y-6">
+      {mode === 'student-t' && <StudentTSettings settings={stochasticReturnSettings} update={update} />}
+      {mode === 'bootstrap' && <BootstrapSettings settings={stochasticReturnSettings} update={update} />}
+      {mode === 'regime' && <RegimeSettings settings={stochasticReturnSettings} update={update} />}
+      {/* Student-t already shows the seed input as part of the random return configuration */}
+      {mode !== 'student-t' && (
+        <RandomSeedInput randomSeed={randomSeed} setRandomSeed={setRandomSeed} performSimulation={performSimulation} />
+      )}
+    </div>
+  )
+}
+
+export default StochasticReturnConfiguration
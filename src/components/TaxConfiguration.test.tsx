@@ -3,6 +3,7 @@ import { render, screen, fireEvent } from '@testing-library/react'
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import TaxConfiguration from './TaxConfiguration'
 import { GERMAN_TAX_CONSTANTS } from '../../helpers/steuer'
+import { DEFAULT_LOSS_OFFSET_CONFIGURATION } from '../../helpers/loss-offset-accounts'
 
 // Mock useSimulation hook
 const mockUseSimulation = {
@@ -23,8 +24,17 @@ const mockUseSimulation = {
   setGrundfreibetragBetrag: vi.fn(),
   freistellungsauftragAccounts: [],
   setFreistellungsauftragAccounts: vi.fn(),
+  // The Grundfreibetrag amount is an input of the legacy flat income tax rate
+  withdrawalConfig: { formValue: { einkommensteuersatz: 18, einkommensteuerPauschal: true } } as
+    | { formValue: { einkommensteuersatz: number; einkommensteuerPauschal: boolean } }
+    | undefined,
+  setWithdrawalConfig: vi.fn(),
+  lossOffsetConfiguration: DEFAULT_LOSS_OFFSET_CONFIGURATION,
+  setLossOffsetConfiguration: vi.fn(),
 }
 
+const flatIncomeTaxConfig = mockUseSimulation.withdrawalConfig
+
 vi.mock('../contexts/useSimulation', () => ({
   useSimulation: () => mockUseSimulation,
 }))
@@ -48,6 +58,7 @@ describe('TaxConfiguration - Planning Mode Integration', () => {
     // Ensure consistent mock state
     vi.mocked(mockUseSimulation).grundfreibetragAktiv = true
     vi.mocked(mockUseSimulation).grundfreibetragBetrag = GERMAN_TAX_CONSTANTS.GRUNDFREIBETRAG_INDIVIDUAL
+    vi.mocked(mockUseSimulation).withdrawalConfig = flatIncomeTaxConfig
   })
   beforeEach(() => {
     vi.clearAllMocks()
@@ -175,3 +186,34 @@ describe('TaxConfiguration - Planning Mode Integration', () => {
     expect(screen.getByText(/Der Grundfreibetrag wird automatisch basierend auf dem Planungsmodus/)).toBeInTheDocument()
   })
 })
+
+describe('TaxConfiguration - Income tax tariff', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(mockUseSimulation).grundfreibetragAktiv = true
+    vi.mocked(mockUseSimulation).withdrawalConfig = undefined
+  })
+
+  it('uses the tariff of the year by default and shows its indexation instead of the Grundfreibetrag amount', async () => {
+    render(<TaxConfiguration planningMode="individual" />)
+
+    await expandGrundfreibetragSection()
+
+    expect(screen.getByRole('switch', { name: /Pauschaler Einkommensteuersatz/i })).not.toBeChecked()
+    expect(screen.getByRole('switch', { name: /Tarif nach dem letzten amtlichen Jahr fortschreiben/i })).toBeChecked()
+    expect(screen.queryByText(/Reset \(/)).not.toBeInTheDocument()
+    expect(screen.queryByText('Einkommensteuersatz (%)')).not.toBeInTheDocument()
+  })
+
+  it('stores the legacy flat income tax rate option in the withdrawal form', async () => {
+    render(<TaxConfiguration planningMode="individual" />)
+
+    await expandGrundfreibetragSection()
+    fireEvent.click(screen.getByRole('switch', { name: /Pauschaler Einkommensteuersatz/i }))
+
+    expect(mockUseSimulation.setWithdrawalConfig).toHaveBeenCalledWith(
+      expect.objectContaining({ formValue: expect.objectContaining({ einkommensteuerPauschal: true }) }),
+    )
+    expect(mockUseSimulation.performSimulation).toHaveBeenCalled()
+  })
+})
@@ -15,6 +15,7 @@ import { SeveranceCalculatorCard } from './SeveranceCalculatorCard'
 import { ReverseCalculatorCard } from './ReverseCalculatorCard'
 import { SequenceRiskAnalysisCard } from './SequenceRiskAnalysisCard'
 import { useWithdrawalConfig } from '../hooks/useWithdrawalConfig'
+import type { WithdrawalFormValue } from '../utils/config-storage'
 import { ProgressionsvorbehaltConfiguration } from './ProgressionsvorbehaltConfiguration'
 import { DEFAULT_PROGRESSIONSVORBEHALT_CONFIG, type ProgressionsvorbehaltConfig } from '../../helpers/progressionsvorbehalt'
 import { TaxProgressionVisualization } from './TaxProgressionVisualization'
@@ -86,6 +87,11 @@ const TaxConfiguration = ({ planningMode = 'individual' }: TaxConfigurationProps
     simulation.performSimulation()
   }
 
+  const handleIncomeTaxFormChange = (update: Partial<WithdrawalFormValue>) => {
+    updateFormValue(update)
+    simulation.performSimulation()
+  }
+
   return (
     <TooltipProvider>
       <NestingProvider level={1}>
@@ -99,6 +105,7 @@ const TaxConfiguration = ({ planningMode = 'individual' }: TaxConfigurationProps
           handleGrundfreibetragAktivChange={handleGrundfreibetragAktivChange}
           handleGrundfreibetragBetragChange={handleGrundfreibetragBetragChange}
           handleEinkommensteuersatzChange={handleEinkommensteuersatzChange}
+          handleIncomeTaxFormChange={handleIncomeTaxFormChange}
         />
       </NestingProvider>
     </TooltipProvider>
@@ -115,6 +122,7 @@ interface TaxConfigurationCardsProps {
   handleGrundfreibetragAktivChange: (c: boolean) => void
   handleGrundfreibetragBetragChange: (v: number) => void
   handleEinkommensteuersatzChange: (v: number) => void
+  handleIncomeTaxFormChange: (update: Partial<WithdrawalFormValue>) => void
 }
 
 function FreistellungsauftragSection({
@@ -129,6 +137,7 @@ function FreistellungsauftragSection({
   const handleAccountsChange = (accounts: Array<import('../../helpers/freistellungsauftrag-optimization').BankAccount>) => {
     if (simulation.setFreistellungsauftragAccounts) {
       simulation.setFreistellungsauftragAccounts(accounts)
+      simulation.performSimulation()
     }
   }
 
@@ -174,8 +183,8 @@ function TaxOptimizationCards({ simulation }: { simulation: ReturnType<typeof us
         taxRate={simulation.steuerlast}
         startYear={2025}
         endYear={2045}
-        initialStockLosses={0}
-        initialOtherLosses={0}
+        initialStockLosses={simulation.lossOffsetConfiguration.initialStockLosses}
+        initialOtherLosses={simulation.lossOffsetConfiguration.initialOtherLosses}
       />
       {/* Extended Loss Carryforward Strategy Simulator */}
       <LossCarryforwardSimulator currentYear={new Date().getFullYear()} taxRate={simulation.steuerlast} />
@@ -201,6 +210,7 @@ function TaxConfigurationCards({
   handleGrundfreibetragAktivChange,
   handleGrundfreibetragBetragChange,
   handleEinkommensteuersatzChange,
+  handleIncomeTaxFormChange,
 }: TaxConfigurationCardsProps) {
   return (
     <div className="space-y-4">
@@ -216,6 +226,10 @@ function TaxConfigurationCards({
         onGrundfreibetragAktivChange={handleGrundfreibetragAktivChange}
         onGrundfreibetragBetragChange={handleGrundfreibetragBetragChange}
         onEinkommensteuersatzChange={handleEinkommensteuersatzChange}
+        einkommensteuerPauschal={currentConfig.formValue.einkommensteuerPauschal}
+        onEinkommensteuerPauschalChange={v => handleIncomeTaxFormChange({ einkommensteuerPauschal: v })}
+        tarifIndexierung={currentConfig.formValue.einkommensteuerTarifIndexierung}
+        onTarifIndexierungChange={v => handleIncomeTaxFormChange({ einkommensteuerTarifIndexierung: v })}
       />
       <TaxProgressionVisualization grundfreibetrag={recommendedGrundfreibetrag} />
       <ProgressionsvorbehaltConfiguration
@@ -227,7 +241,10 @@ function TaxConfigurationCards({
       />
       <InsuranceCostOverview />
       <PensionComparisonTool />
-      <PensionTopUpCard />
+      <PensionTopUpCard
+        pensionConfig={simulation.coupleStatutoryPensionConfig}
+        onPensionConfigChange={simulation.setCoupleStatutoryPensionConfig}
+      />
       <FinancialEducationQuiz />
       <TaxOptimizationCards simulation={simulation} />
     </div>
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { VermoegensbilanzCard } from './VermoegensbilanzCard'
+import { useSimulation } from '../contexts/useSimulation'
+import { downloadTextAsFile } from '../utils/data-export'
+import { exportVermoegensbilanzToExcel } from '../utils/excel-export'
+import type { SparplanElement } from '../utils/sparplan-utils'
+import { createDefaultPropertyOwnershipConfig } from '../../helpers/immobilien-eigentum'
+
+vi.mock('../contexts/useSimulation', () => ({
+  useSimulation: vi.fn(),
+}))
+
+vi.mock('react-chartjs-2', () => ({
+  Line: vi.fn(({ id }) => <canvas id={id} data-testid="line-chart" />),
+}))
+
+vi.mock('../utils/data-export', async () => ({
+  ...(await vi.importActual('../utils/data-export')),
+  downloadTextAsFile: vi.fn(),
+}))
+
+vi.mock('../utils/excel-export', () => ({
+  exportVermoegensbilanzToExcel: vi.fn(),
+}))
+
+describe('VermoegensbilanzCard', () => {
+  const mockUseSimulation = vi.mocked(useSimulation)
+  const elemente: SparplanElement[] = [
+    {
+      start: '2025-01-01',
+      type: 'sparplan',
+      einzahlung: 12000,
+      simulation: {
+        2025: {
+          startkapital: 0,
+          zinsen: 600,
+          endkapital: 12600,
+          bezahlteSteuer: 0,
+          genutzterFreibetrag: 0,
+          vorabpauschale: 0,
+          vorabpauschaleAccumulated: 0,
+        },
+      },
+    },
+  ]
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockUseSimulation.mockReturnValue({
+      propertyOwnershipConfig: { ...createDefaultPropertyOwnershipConfig(2025), enabled: true },
+      withdrawalConfig: null,
+      withdrawalResults: null,
+      sparplan: [],
+      inflationAktivSparphase: false,
+      inflationsrateSparphase: 2,
+    } as unknown as ReturnType<typeof useSimulation>)
+  })
+
+  it('should not render without simulation data', () => {
+    const { container } = render(<VermoegensbilanzCard elemente={[]} />)
+
+    expect(container.firstChild).toBeNull()
+  })
+
+  it('should show assets, liabilities and net worth per year when expanded', () => {
+    render(<VermoegensbilanzCard elemente={elemente} />)
+
+    fireEvent.click(screen.getByText(/Vermögensbilanz/))
+
+    expect(screen.getByTestId('line-chart')).toBeInTheDocument()
+    expect(screen.getByText('Baufinanzierung')).toBeInTheDocument()
+    expect(screen.getByText('Nettovermögen (real)')).toBeInTheDocument()
+    expect(screen.getByText('2025')).toBeInTheDocument()
+  })
+
+  it('should export the balance sheet as CSV and Excel', () => {
+    render(<VermoegensbilanzCard elemente={elemente} />)
+    fireEvent.click(screen.getByText(/Vermögensbilanz/))
+
+    fireEvent.click(screen.getByRole('button', { name: /CSV Export/ }))
+    fireEvent.click(screen.getByRole('button', { name: /Excel Export/ }))
+
+    expect(downloadTextAsFile).toHaveBeenCalledWith(
+      expect.stringContaining('# Vermögensbilanz'),
+      'vermoegensbilanz_2025-2025.csv',
+      'text/csv;charset=utf-8',
+    )
+    expect(exportVermoegensbilanzToExcel).toHaveBeenCalledWith([expect.objectContaining({ year: 2025 })])
+  })
+})
@@ -0,0 +1,147 @@
+import { useMemo } from 'react'
+import { Download } from 'lucide-react'
+import { Card, CardContent } from './ui/card'
+import { Button } from './ui/button'
+import { Collapsible, CollapsibleContent } from './ui/collapsible'
+import { CollapsibleCardHeader } from './ui/collapsible-card'
+import { VermoegensbilanzAreaChart } from './chart/VermoegensbilanzAreaChart'
+import { useSimulation } from '../contexts/useSimulation'
+import { formatCurrency } from '../utils/currency'
+import { getYearlyPortfolioProgression } from '../utils/summary-utils'
+import { downloadTextAsFile, exportVermoegensbilanzToCSV } from '../utils/data-export'
+import { exportVermoegensbilanzToExcel } from '../utils/excel-export'
+import type { SparplanElement } from '../utils/sparplan-utils'
+import type { WithdrawalResult } from '../../helpers/withdrawal'
+import { calculatePropertyTimeline } from '../../helpers/immobilien-eigentum'
+import {
+  calculateVermoegensbilanz,
+  VERMOEGENSBILANZ_COLUMNS,
+  type VermoegensbilanzYear,
+} from '../../helpers/vermoegensbilanz'
+
+/**
+ * Depot value per year: savings phase from the simulation, withdrawal phase from the withdrawal results
+ */
+function buildDepotByYear(elemente?: SparplanElement[], withdrawalResults?: WithdrawalResult | null) {
+  const depotByYear: Record<number, number> = Object.fromEntries(
+    getYearlyPortfolioProgression(elemente).map(entry => [entry.year, entry.totalCapital]),
+  )
+  for (const [year, result] of Object.entries(withdrawalResults ?? {})) {
+    depotByYear[Number(year)] = result.endkapital
+  }
+  return depotByYear
+}
+
+function useVermoegensbilanz(elemente?: SparplanElement[]): VermoegensbilanzYear[] {
+  const {
+    propertyOwnershipConfig,
+    withdrawalConfig,
+    withdrawalResults,
+    inflationAktivSparphase,
+    inflationsrateSparphase,
+  } = useSimulation()
+  const otherIncomeConfig = withdrawalConfig?.otherIncomeConfig
+
+  return useMemo(() => {
+    const depotByYear = buildDepotByYear(elemente, withdrawalResults)
+    const years = Object.keys(depotByYear).map(Number)
+    const propertyTimeline =
+      propertyOwnershipConfig && years.length > 0
+        ? calculatePropertyTimeline(propertyOwnershipConfig, Math.max(...years))
+        : []
+
+    return calculateVermoegensbilanz({
+      depotByYear,
+      propertyTimeline,
+      otherIncomeSources: otherIncomeConfig?.enabled ? otherIncomeConfig.sources : [],
+      inflationRate: inflationAktivSparphase ? inflationsrateSparphase / 100 : 0,
+    })
+  }, [
+    elemente,
+    withdrawalResults,
+    propertyOwnershipConfig,
+    otherIncomeConfig,
+    inflationAktivSparphase,
+    inflationsrateSparphase,
+  ])
+}
+
+function VermoegensbilanzTable({ bilanz }: { bilanz: VermoegensbilanzYear[] }) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b text-left">
+            <th className="py-2 pr-4">Jahr</th>
+            {VERMOEGENSBILANZ_COLUMNS.map(column => (
+              <th key={column.label} className="py-2 pr-4 text-right whitespace-nowrap">
+                {column.label}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {bilanz.map(entry => (
+            <tr key={entry.year} className="border-b last:border-0">
+              <td className="py-1 pr-4">{entry.year}</td>
+              {VERMOEGENSBILANZ_COLUMNS.map(column => (
+                <td key={column.label} className="py-1 pr-4 text-right whitespace-nowrap">
+                  {formatCurrency(column.getValue(entry))}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+function VermoegensbilanzExportButtons({ bilanz }: { bilanz: VermoegensbilanzYear[] }) {
+  const handleCSVExport = () => {
+    const range = `${bilanz[0].year}-${bilanz[bilanz.length - 1].year}`
+    downloadTextAsFile(exportVermoegensbilanzToCSV(bilanz), `vermoegensbilanz_${range}.csv`, 'text/csv;charset=utf-8')
+  }
+
+  return (
+    <div className="flex gap-2">
+      <Button variant="outline" size="sm" onClick={handleCSVExport}>
+        <Download className="h-4 w-4 mr-2" />
+        CSV Export
+      </Button>
+      <Button variant="outline" size="sm" onClick={() => exportVermoegensbilanzToExcel(bilanz)}>
+        <Download className="h-4 w-4 mr-2" />
+        Excel Export
+      </Button>
+    </div>
+  )
+}
+
+/**
+ * Consolidated Vermögensbilanz per year: depot, property, Kapitallebensversicherung and
+ * Riester/Rürup contracts against mortgage and credits, with net worth in nominal and real terms
+ */
+export function VermoegensbilanzCard({ elemente }: { elemente?: SparplanElement[] }) {
+  const bilanz = useVermoegensbilanz(elemente)
+
+  if (bilanz.length === 0) {
+    return null
+  }
+
+  return (
+    <Card>
+      <Collapsible defaultOpen={false}>
+        <CollapsibleCardHeader titleClassName="text-left" simplifiedPadding>
+          📊 Vermögensbilanz (Vermögen, Verbindlichkeiten, Nettovermögen)
+        </CollapsibleCardHeader>
+        <CollapsibleContent>
+          <CardContent className="space-y-6">
+            <VermoegensbilanzExportButtons bilanz={bilanz} />
+            <VermoegensbilanzAreaChart bilanz={bilanz} />
+            <VermoegensbilanzTable bilanz={bilanz} />
+          </CardContent>
+        </CollapsibleContent>
+      </Collapsible>
+    </Card>
+  )
+}
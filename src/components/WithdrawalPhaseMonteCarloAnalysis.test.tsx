@@ -10,11 +10,15 @@ vi.mock('../contexts/useSimulation', () => ({
       sparplanElements: [],
     },
     randomSeed: 123,
+    withdrawalConfig: {
+      withdrawalAverageReturn: 4,
+      withdrawalStandardDeviation: 10,
+    },
   }),
 }))
 
 describe('WithdrawalPhaseMonteCarloAnalysis', () => {
-  it('renders the withdrawal phase Monte Carlo analysis', () => {
+  it('renders the withdrawal phase Monte Carlo analysis with the configured returns', () => {
     render(
       <SimulationProvider>
         <WithdrawalPhaseMonteCarloAnalysis />
@@ -22,7 +26,7 @@ describe('WithdrawalPhaseMonteCarloAnalysis', () => {
     )
 
     expect(screen.getByText('📊 Monte Carlo Analyse - Entnahmephase')).toBeInTheDocument()
-    expect(screen.getByText(/Durchschnittliche Rendite 5.0%, Volatilität 12.0%/)).toBeInTheDocument()
+    expect(screen.getByText(/Durchschnittliche Rendite 4.0%, Volatilität 10.0%/)).toBeInTheDocument()
     expect(screen.getAllByText(/Worst Case \(5% Perzentil\)/).length).toBeGreaterThan(0)
     expect(screen.getAllByText(/Best Case \(95% Perzentil\)/).length).toBeGreaterThan(0)
   })
@@ -1,6 +1,7 @@
 import { useSimulation } from '../contexts/useSimulation'
 import { EntnahmeSimulationsAusgabe } from './EntnahmeSimulationsAusgabe'
 import RiskAssessment from './RiskAssessment'
+import { RollingHistoricalBacktest } from './RollingHistoricalBacktest'
 
 const WithdrawalPlan = () => {
   const { startEnd, simulationData, setStartEnd, setWithdrawalResults, steuerlast, teilfreistellungsquote, endOfLife } =
@@ -21,6 +22,8 @@ const WithdrawalPlan = () => {
 
       {/* Risk Assessment with Monte Carlo Analysis moved to collapsible panel */}
       <RiskAssessment phase="withdrawal" />
+
+      <RollingHistoricalBacktest />
     </div>
   )
 }
@@ -44,6 +44,9 @@ export function WithdrawalStrategySelector({ strategie, onStrategyChange }: With
         <RadioTile value="steueroptimiert" label="Steueroptimierte Entnahme">
           Automatische Optimierung zur Steuerminimierung
         </RadioTile>
+        <RadioTile value="bedarfsorientiert" label="Bedarfsorientierte Entnahme">
+          Ausgabenbedarf abzüglich Renten, zuzüglich Steuern
+        </RadioTile>
       </RadioTileGroup>
     </div>
   )
@@ -81,6 +81,11 @@ describe('WithdrawalVariablesCard - Statutory Pension Integration', () => {
     onCoupleStatutoryPensionConfigChange: vi.fn(),
     partTimeRetirementWorkConfig: undefined,
     onPartTimeRetirementWorkConfigChange: vi.fn(),
+    spendenConfig: undefined,
+    onSpendenConfigChange: vi.fn(),
+    coupleWithdrawalConfig: undefined,
+    onCoupleWithdrawalConfigChange: vi.fn(),
+    depots: [],
     ...overrides,
   })
 
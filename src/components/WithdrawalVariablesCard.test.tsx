@@ -112,6 +112,11 @@ describe('WithdrawalVariablesCard', () => {
     onCoupleStatutoryPensionConfigChange: vi.fn(),
     partTimeRetirementWorkConfig: undefined,
     onPartTimeRetirementWorkConfigChange: vi.fn(),
+    spendenConfig: undefined,
+    onSpendenConfigChange: vi.fn(),
+    coupleWithdrawalConfig: undefined,
+    onCoupleWithdrawalConfigChange: vi.fn(),
+    depots: [],
   }
 
   it('should render the card with header', () => {
@@ -12,6 +12,17 @@ import {
   type PartTimeRetirementWorkConfig,
   createDefaultPartTimeRetirementWorkConfig,
 } from '../../helpers/part-time-retirement-work'
+import { type SpendenConfig, createDefaultSpendenConfig } from '../../helpers/spenden'
+import {
+  type CoupleWithdrawalConfig,
+  createDefaultCoupleWithdrawalConfig,
+  getCoupleBirthYears,
+} from '../../helpers/couple-withdrawal'
+import type { BankAccount } from '../../helpers/freistellungsauftrag-optimization'
+import type {
+  PrivateStatutoryComparisonSum,
+  StatutoryInsuranceStatusComparisonSum,
+} from '../../helpers/health-care-insurance'
 import { OtherIncomeConfigurationComponent } from './OtherIncomeConfiguration'
 import { WithdrawalModeSelector } from './WithdrawalModeSelector'
 import { WithdrawalModeContent } from './WithdrawalModeContent'
@@ -20,6 +31,8 @@ import type { HealthCareInsuranceChangeHandlers } from './HealthCareInsuranceCon
 import { CollapsibleCard, CollapsibleCardContent, CollapsibleCardHeader } from './ui/collapsible-card'
 import { CoupleStatutoryPensionConfiguration } from './StatutoryPensionConfiguration'
 import { PartTimeRetirementWorkConfiguration } from './PartTimeRetirementWorkConfiguration'
+import { SpendenConfiguration } from './spenden/SpendenConfiguration'
+import { CoupleWithdrawalConfiguration } from './couple-withdrawal/CoupleWithdrawalConfiguration'
 import { useWithdrawalModeChange } from './useWithdrawalModeChange'
 import { AusgabenTrackerCard } from './AusgabenTrackerCard'
 
@@ -72,6 +85,8 @@ interface WithdrawalVariablesCardProps {
   spouseBirthYear: number | undefined
   currentWithdrawalAmount: number | undefined
   onHealthCareInsuranceChange: HealthCareInsuranceChangeHandlers
+  healthInsuranceStatusComparison?: StatutoryInsuranceStatusComparisonSum
+  privateStatutoryComparison?: PrivateStatutoryComparisonSum
 
   // Statutory pension
   coupleStatutoryPensionConfig: CoupleStatutoryPensionConfig | null
@@ -80,6 +95,15 @@ interface WithdrawalVariablesCardProps {
   // Part-time retirement work
   partTimeRetirementWorkConfig: PartTimeRetirementWorkConfig | undefined
   onPartTimeRetirementWorkConfigChange: (config: PartTimeRetirementWorkConfig) => void
+
+  // Donations
+  spendenConfig: SpendenConfig | undefined
+  onSpendenConfigChange: (config: SpendenConfig) => void
+
+  // Survivor phase of couples
+  coupleWithdrawalConfig: CoupleWithdrawalConfig | undefined
+  onCoupleWithdrawalConfigChange: (config: CoupleWithdrawalConfig) => void
+  depots: BankAccount[]
 }
 
 /**
@@ -133,6 +157,40 @@ function IncomeConfigurationSections({
   )
 }
 
+/**
+ * Donations of the withdrawal years, which reduce the income tax
+ */
+function SpendenSection(props: WithdrawalVariablesCardProps) {
+  return (
+    <SpendenConfiguration
+      config={props.spendenConfig || createDefaultSpendenConfig()}
+      onChange={props.onSpendenConfigChange}
+      startYear={props.startOfIndependence + 1}
+      endYear={props.globalEndOfLife}
+      planningMode={props.planningMode}
+      incomeTaxTariffIndexation={props.formValue.einkommensteuerTarifIndexierung}
+    />
+  )
+}
+
+/**
+ * Survivor phase of couples, only in the couple planning mode
+ */
+function CoupleWithdrawalSection(props: WithdrawalVariablesCardProps) {
+  if (props.planningMode !== 'couple') return null
+  const pensionConfig = props.coupleStatutoryPensionConfig
+
+  return (
+    <CoupleWithdrawalConfiguration
+      config={props.coupleWithdrawalConfig || createDefaultCoupleWithdrawalConfig()}
+      onChange={props.onCoupleWithdrawalConfigChange}
+      depots={props.depots}
+      birthYears={getCoupleBirthYears(props.birthYear, props.spouseBirthYear)}
+      pensionsSplitEqually={pensionConfig?.enabled === true && !pensionConfig.couple}
+    />
+  )
+}
+
 /**
  * Withdrawal configuration variables card
  * Displays all configurable withdrawal parameters including modes, strategies, health insurance, and statutory pension
@@ -162,6 +220,7 @@ export function WithdrawalVariablesCard(props: WithdrawalVariablesCardProps) {
           startOfIndependence={props.startOfIndependence}
           globalEndOfLife={props.globalEndOfLife}
         />
+        <CoupleWithdrawalSection {...props} />
         <WithdrawalModeSelector
           useSegmentedWithdrawal={props.useSegmentedWithdrawal}
           useComparisonMode={props.useComparisonMode}
@@ -170,6 +229,7 @@ export function WithdrawalVariablesCard(props: WithdrawalVariablesCardProps) {
         />
         <WithdrawalModeContent {...props} />
         <HealthCareInsuranceContent {...props} />
+        <SpendenSection {...props} />
         {props.birthYear && (
           <div className="mt-6">
             <AusgabenTrackerCard
@@ -5,6 +5,22 @@ import { YearHeader } from './withdrawal-card/YearHeader'
 import { FinancialDetailsSection } from './withdrawal-card/FinancialDetailsSection'
 import { TaxSection } from './withdrawal-card/TaxSection'
 import { IncomeTaxSection } from './withdrawal-card/IncomeTaxSection'
+import { SpendingNeedSection } from './withdrawal-card/SpendingNeedSection'
+import { WorkIncomeSection } from './withdrawal-card/WorkIncomeSection'
+import { AssetClassWithdrawalSection } from './withdrawal-card/AssetClassWithdrawalSection'
+import { CryptoSaleSection } from './withdrawal-card/CryptoSaleSection'
+import { SpendenYearSection } from './withdrawal-card/SpendenYearSection'
+import { CoupleWithdrawalYearSection } from './withdrawal-card/CoupleWithdrawalYearSection'
+import { PropertyFlowSection } from './withdrawal-card/PropertyFlowSection'
+import type { EhegattensplittingResult } from '../../helpers/ehegattensplitting'
+import type { LossOffsetResult } from '../../helpers/loss-offset-accounts'
+import type { BedarfsorientierteEntnahmeResult } from '../../helpers/bedarfsorientierte-entnahme'
+import type { WorkIncomeYearResult } from '../../helpers/retirement-work-income'
+import type { AssetClassWithdrawalYearResult } from '../../helpers/multi-asset-withdrawal'
+import type { CryptoSaleYearResult } from '../../helpers/crypto-tax'
+import type { SpendenYearResult } from '../../helpers/spenden'
+import type { CoupleWithdrawalYearInfo } from '../../helpers/couple-withdrawal'
+import type { PropertyDepotFlow } from '../../helpers/immobilien-eigentum'
 
 interface WithdrawalYearCardProps {
   rowData: {
@@ -21,6 +37,7 @@ interface WithdrawalYearCardProps {
     genutzterFreibetrag: number
     einkommensteuer?: number
     genutzterGrundfreibetrag?: number
+    ehegattensplitting?: EhegattensplittingResult
     otherIncome?: {
       totalNetAmount: number
       totalTaxAmount: number
@@ -47,6 +64,14 @@ interface WithdrawalYearCardProps {
       usedTaxRate: number
       explanation: string
     }
+    lossOffsetDetails?: LossOffsetResult
+    bedarfsorientierteEntnahme?: BedarfsorientierteEntnahmeResult
+    workIncome?: WorkIncomeYearResult & { withdrawalReduction: number }
+    assetClassWithdrawal?: AssetClassWithdrawalYearResult
+    cryptoSale?: CryptoSaleYearResult
+    spenden?: SpendenYearResult
+    coupleWithdrawal?: CoupleWithdrawalYearInfo
+    propertyFlow?: PropertyDepotFlow
   }
   formValue: WithdrawalFormValue
   allYears: Array<number | null | undefined>
@@ -63,14 +88,7 @@ function TaxAndIncomeSections({
   return (
     <>
       <TaxSection
-        rowData={{
-          year: rowData.year,
-          zinsen: rowData.zinsen,
-          bezahlteSteuer: rowData.bezahlteSteuer,
-          vorabpauschale: rowData.vorabpauschale,
-          genutzterFreibetrag: rowData.genutzterFreibetrag,
-          guenstigerPruefungResultRealizedGains: rowData.guenstigerPruefungResultRealizedGains,
-        }}
+        rowData={rowData}
         formValue={formValue}
         allYears={allYears}
         onCalculationInfoClick={onCalculationInfoClick}
@@ -80,6 +98,7 @@ function TaxAndIncomeSections({
         rowData={{
           einkommensteuer: rowData.einkommensteuer,
           genutzterGrundfreibetrag: rowData.genutzterGrundfreibetrag,
+          ehegattensplitting: rowData.ehegattensplitting,
         }}
         isGrundfreibetragEnabled={isGrundfreibetragEnabled}
         onCalculationInfoClick={onCalculationInfoClick}
@@ -99,6 +118,7 @@ function TaxAndIncomeSections({
         onCalculationInfoClick={onCalculationInfoClick}
         rowData={rowData}
       />
+      <WorkIncomeSection workIncome={rowData.workIncome} />
     </>
   )
 }
@@ -126,6 +146,12 @@ function CardSections({
         onCalculationInfoClick={onCalculationInfoClick}
         formatWithInflation={formatWithInflation}
       />
+      <SpendingNeedSection bedarfsorientierteEntnahme={rowData.bedarfsorientierteEntnahme} />
+      <AssetClassWithdrawalSection assetClassWithdrawal={rowData.assetClassWithdrawal} />
+      <CryptoSaleSection cryptoSale={rowData.cryptoSale} />
+      <SpendenYearSection spenden={rowData.spenden} />
+      <CoupleWithdrawalYearSection coupleWithdrawal={rowData.coupleWithdrawal} />
+      <PropertyFlowSection propertyFlow={rowData.propertyFlow} />
       <TaxAndIncomeSections
         rowData={rowData}
         formValue={formValue}
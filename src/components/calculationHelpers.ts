@@ -269,6 +269,28 @@ export function createInflationExplanation(
   }
 }
 
+/**
+ * Description and calculation of the income tax step: flat tax rate or §32a tariff of the year
+ */
+function getIncomeTaxStepText(
+  entnahme: number,
+  steuerpflichtigesEinkommen: number,
+  steuersatz: number,
+  tariffYear: number | undefined,
+): { description: string; calculation: string } {
+  if (tariffYear !== undefined) {
+    return {
+      description: `Einkommensteuertarif (§32a EStG) ${tariffYear}: Grenzsteuersatz von 14% bis 45% oberhalb des Grundfreibetrags.`,
+      calculation: `Einkommensteuer = Tarif ${tariffYear}(${formatCurrency(entnahme)})`,
+    }
+  }
+
+  return {
+    description: `Steuersatz von ${steuersatz}% auf das steuerpflichtige Einkommen.`,
+    calculation: `Einkommensteuer = Steuerpflichtiges Einkommen × ${steuersatz}%<br/>${formatCurrency(steuerpflichtigesEinkommen)} × ${steuersatz}%`,
+  }
+}
+
 /**
  * Creates a detailed explanation of income tax calculations for withdrawal phase.
  * Shows how withdrawal amounts are taxed after applying the Grundfreibetrag (basic tax allowance).
@@ -279,6 +301,7 @@ export function createInflationExplanation(
  * @param steuersatz - The tax rate as a percentage (e.g., 25 for 25%)
  * @param einkommensteuer - The calculated income tax amount
  * @param genutzterGrundfreibetrag - The portion of Grundfreibetrag actually used
+ * @param tariffYear - Year of the §32a tariff when the tariff is used instead of the flat tax rate
  * @returns A complete calculation explanation showing income tax computation steps
  */
 export function createIncomeTaxExplanation(
@@ -287,8 +310,10 @@ export function createIncomeTaxExplanation(
   steuersatz: number,
   einkommensteuer: number,
   genutzterGrundfreibetrag: number,
+  tariffYear?: number,
 ): CalculationExplanation {
   const steuerpflichtigesEinkommen = Math.max(0, entnahme - grundfreibetrag)
+  const taxStep = getIncomeTaxStepText(entnahme, steuerpflichtigesEinkommen, steuersatz, tariffYear)
 
   return {
     title: '🏛️ Einkommensteuer-Berechnung Schritt für Schritt',
@@ -311,8 +336,7 @@ export function createIncomeTaxExplanation(
       },
       {
         title: 'Schritt 3: Einkommensteuer berechnen',
-        description: `Steuersatz von ${steuersatz}% auf das steuerpflichtige Einkommen.`,
-        calculation: `Einkommensteuer = Steuerpflichtiges Einkommen × ${steuersatz}%<br/>${formatCurrency(steuerpflichtigesEinkommen)} × ${steuersatz}%`,
+        ...taxStep,
         result: formatCurrency(einkommensteuer),
         ...STEP_COLORS.BLUE,
       },
@@ -0,0 +1,41 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import { Line } from 'react-chartjs-2'
+import { VermoegensbilanzAreaChart } from './VermoegensbilanzAreaChart'
+import type { VermoegensbilanzYear } from '../../../helpers/vermoegensbilanz'
+
+vi.mock('react-chartjs-2', () => ({
+  Line: vi.fn(({ id }) => <canvas id={id} data-testid="line-chart" />),
+}))
+
+describe('VermoegensbilanzAreaChart', () => {
+  const bilanz: VermoegensbilanzYear[] = [
+    {
+      year: 2025,
+      assets: { depot: 100000, immobilie: 300000, kapitallebensversicherung: 0, altersvorsorge: 0, betriebsrente: 0 },
+      liabilities: { baufinanzierung: 250000 },
+      totalAssets: 400000,
+      totalLiabilities: 250000,
+      netWorth: 150000,
+      netWorthReal: 150000,
+    },
+  ]
+
+  it('should render the chart', () => {
+    render(<VermoegensbilanzAreaChart bilanz={bilanz} />)
+
+    expect(screen.getByTestId('line-chart')).toBeInTheDocument()
+  })
+
+  it('should stack assets above and liabilities below zero and omit empty classes', () => {
+    render(<VermoegensbilanzAreaChart bilanz={bilanz} />)
+
+    const { data } = vi.mocked(Line).mock.calls[0][0]
+    expect(data.labels).toEqual(['2025'])
+    expect(data.datasets.map(dataset => [dataset.label, dataset.data])).toEqual([
+      ['Depot', [100000]],
+      ['Immobilie', [300000]],
+      ['Baufinanzierung', [-250000]],
+    ])
+  })
+})
@@ -0,0 +1,130 @@
+/**
+ * Vermögensbilanz Area Chart
+ * Stacked area chart of the asset classes (positive) and liabilities (negative) per year
+ */
+
+import { useMemo } from 'react'
+import { Line } from 'react-chartjs-2'
+import { type ChartOptions, type ChartData, type TooltipItem } from 'chart.js'
+import { formatCurrency } from '../../utils/currency'
+import '../../utils/chart-setup'
+import {
+  VERMOEGENSBILANZ_ASSET_LABELS,
+  VERMOEGENSBILANZ_LIABILITY_LABELS,
+  type VermoegensbilanzAssetClass,
+  type VermoegensbilanzLiabilityClass,
+  type VermoegensbilanzYear,
+} from '../../../helpers/vermoegensbilanz'
+
+interface VermoegensbilanzAreaChartProps {
+  bilanz: VermoegensbilanzYear[]
+  className?: string
+}
+
+const ASSET_COLORS: Record<VermoegensbilanzAssetClass, string> = {
+  depot: '59, 130, 246', // Blue
+  immobilie: '16, 185, 129', // Green
+  kapitallebensversicherung: '245, 158, 11', // Amber
+  altersvorsorge: '139, 92, 246', // Violet
+  betriebsrente: '236, 72, 153', // Pink
+}
+
+const LIABILITY_COLORS: Record<VermoegensbilanzLiabilityClass, string> = {
+  baufinanzierung: '239, 68, 68', // Red
+}
+
+function createDataset(label: string, data: number[], rgb: string) {
+  return {
+    label,
+    data,
+    backgroundColor: `rgba(${rgb}, 0.7)`,
+    borderColor: `rgba(${rgb}, 1)`,
+    borderWidth: 2,
+    fill: true,
+    tension: 0.4,
+    pointRadius: 0,
+    pointHoverRadius: 4,
+  }
+}
+
+/**
+ * Create chart data: assets stacked above, liabilities stacked below the zero line.
+ * Classes without any value are omitted.
+ */
+function createChartData(bilanz: VermoegensbilanzYear[]): ChartData<'line'> {
+  const assetClasses = Object.keys(VERMOEGENSBILANZ_ASSET_LABELS) as VermoegensbilanzAssetClass[]
+  const liabilityClasses = Object.keys(VERMOEGENSBILANZ_LIABILITY_LABELS) as VermoegensbilanzLiabilityClass[]
+
+  const assetDatasets = assetClasses.map(assetClass =>
+    createDataset(
+      VERMOEGENSBILANZ_ASSET_LABELS[assetClass],
+      bilanz.map(entry => entry.assets[assetClass]),
+      ASSET_COLORS[assetClass],
+    ),
+  )
+  const liabilityDatasets = liabilityClasses.map(liabilityClass =>
+    createDataset(
+      VERMOEGENSBILANZ_LIABILITY_LABELS[liabilityClass],
+      bilanz.map(entry => -entry.liabilities[liabilityClass]),
+      LIABILITY_COLORS[liabilityClass],
+    ),
+  )
+
+  return {
+    labels: bilanz.map(entry => entry.year.toString()),
+    datasets: [...assetDatasets, ...liabilityDatasets].filter(dataset => dataset.data.some(value => value !== 0)),
+  }
+}
+
+/**
+ * Create tooltip callbacks; the footer sums all classes to the net worth
+ */
+function createTooltipCallbacks() {
+  return {
+    title: (tooltipItems: unknown[]) => {
+      const items = tooltipItems as Array<TooltipItem<'line'>>
+      return `Jahr ${items[0].label}`
+    },
+    label: (context: TooltipItem<'line'>) => `${context.dataset.label || ''}: ${formatCurrency(context.parsed.y ?? 0)}`,
+    footer: (tooltipItems: unknown[]) => {
+      const items = tooltipItems as Array<TooltipItem<'line'>>
+      const total = items.reduce((sum, item) => sum + (item.parsed.y ?? 0), 0)
+      return `Nettovermögen: ${formatCurrency(total)}`
+    },
+  }
+}
+
+function createChartOptions(): ChartOptions<'line'> {
+  return {
+    responsive: true,
+    maintainAspectRatio: false,
+    interaction: {
+      mode: 'index',
+      intersect: false,
+    },
+    plugins: {
+      legend: { display: true, position: 'top' },
+      tooltip: {
+        callbacks: createTooltipCallbacks(),
+      },
+    },
+    scales: {
+      x: { stacked: true, title: { display: true, text: 'Jahr' }, grid: { display: false } },
+      y: { stacked: true, title: { display: true, text: 'Vermögen / Verbindlichkeiten (nominal)' } },
+    },
+  }
+}
+
+/**
+ * Stacked area chart of the consolidated Vermögensbilanz
+ */
+export function VermoegensbilanzAreaChart({ bilanz, className = '' }: VermoegensbilanzAreaChartProps) {
+  const chartData = useMemo(() => createChartData(bilanz), [bilanz])
+  const chartOptions = useMemo(() => createChartOptions(), [])
+
+  return (
+    <div className={className} style={{ height: '400px' }}>
+      <Line id="vermoegensbilanz-area-chart" data={chartData} options={chartOptions} />
+    </div>
+  )
+}
@@ -1,5 +1,6 @@
 import type { WithdrawalStrategy } from '../../../helpers/withdrawal'
 import type { WithdrawalFormValue } from '../../utils/config-storage'
+import { BedarfsorientierteStrategyConfiguration } from '../BedarfsorientierteStrategyConfiguration'
 import { BucketStrategyConfiguration } from '../bucket-strategy/BucketStrategyConfiguration'
 import { DynamicWithdrawalConfiguration } from '../DynamicWithdrawalConfiguration'
 import { KapitalerhaltConfiguration } from '../KapitalerhaltConfiguration'
@@ -73,6 +74,37 @@ function MonthlyFixedConfig({
   )
 }
 
+/**
+ * Configuration sections of the strategies that edit the form value directly
+ */
+function FormValueStrategyConfiguration({
+  formValue,
+  onUpdateFormValue,
+}: {
+  formValue: WithdrawalFormValue
+  onUpdateFormValue: (updates: Partial<WithdrawalFormValue>) => void
+}) {
+  switch (formValue.strategie) {
+    case 'rmd':
+      return <RMDWithdrawalConfiguration formValue={formValue} updateFormValue={onUpdateFormValue} />
+
+    case 'kapitalerhalt':
+      return <KapitalerhaltConfiguration formValue={formValue} updateFormValue={onUpdateFormValue} />
+
+    case 'bucket_strategie':
+      return <BucketStrategyConfiguration formValue={formValue} updateFormValue={onUpdateFormValue} />
+
+    case 'steueroptimiert':
+      return <SteueroptimierteEntnahmeConfiguration formValue={formValue} updateFormValue={onUpdateFormValue} />
+
+    case 'bedarfsorientiert':
+      return <BedarfsorientierteStrategyConfiguration formValue={formValue} updateFormValue={onUpdateFormValue} />
+
+    default:
+      return null
+  }
+}
+
 /**
  * Strategy-specific configuration sections
  */
@@ -106,20 +138,8 @@ function StrategySpecificConfigurations({
     case 'dynamisch':
       return <DynamicWithdrawalConfiguration formValue={formValue} />
 
-    case 'rmd':
-      return <RMDWithdrawalConfiguration formValue={formValue} updateFormValue={onUpdateFormValue} />
-
-    case 'kapitalerhalt':
-      return <KapitalerhaltConfiguration formValue={formValue} updateFormValue={onUpdateFormValue} />
-
-    case 'bucket_strategie':
-      return <BucketStrategyConfiguration formValue={formValue} updateFormValue={onUpdateFormValue} />
-
-    case 'steueroptimiert':
-      return <SteueroptimierteEntnahmeConfiguration formValue={formValue} updateFormValue={onUpdateFormValue} />
-
     default:
-      return null
+      return <FormValueStrategyConfiguration formValue={formValue} onUpdateFormValue={onUpdateFormValue} />
   }
 }
 
@@ -164,6 +184,9 @@ function StrategySelector({
         <RadioTile value="steueroptimiert" label="Steueroptimierte Entnahme">
           Automatische Optimierung zur Steuerminimierung
         </RadioTile>
+        <RadioTile value="bedarfsorientiert" label="Bedarfsorientierte Entnahme">
+          Ausgabenbedarf abzüglich Renten, zuzüglich Steuern
+        </RadioTile>
       </RadioTileGroup>
     </div>
   )
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { CoupleWithdrawalConfiguration } from './CoupleWithdrawalConfiguration'
+import type { CoupleWithdrawalConfig } from '../../../helpers/couple-withdrawal'
+
+describe('CoupleWithdrawalConfiguration', () => {
+  const config: CoupleWithdrawalConfig = {
+    enabled: true,
+    person1: { lifeExpectancy: 82 },
+    person2: { lifeExpectancy: 83 },
+    depotOwners: { 'depot-1': 1 },
+    marriedBefore2002: false,
+  }
+  const depots = [
+    { id: 'depot-1', name: 'Depot Anna', expectedCapitalGains: 0, assignedFreibetrag: 1000 },
+    { id: 'depot-2', name: 'Depot Ben', expectedCapitalGains: 0, assignedFreibetrag: 1000 },
+  ]
+
+  const birthYears = { person1: 1960, person2: 1962 }
+
+  function renderOpen(value: CoupleWithdrawalConfig, onChange = vi.fn(), props = {}) {
+    render(
+      <CoupleWithdrawalConfiguration
+        config={value}
+        onChange={onChange}
+        depots={depots}
+        birthYears={birthYears}
+        pensionsSplitEqually={false}
+        {...props}
+      />,
+    )
+    fireEvent.click(screen.getByText('👫 Hinterbliebenenphase'))
+    return onChange
+  }
+
+  it('should enable the survivor phase', () => {
+    const onChange = renderOpen({ ...config, enabled: false })
+
+    expect(screen.queryByText('Depotinhaber')).not.toBeInTheDocument()
+    fireEvent.click(screen.getByRole('switch', { name: /Hinterbliebenenphase simulieren/ }))
+
+    expect(onChange).toHaveBeenCalledWith({ ...config, enabled: true })
+  })
+
+  it('should summarize the survivor phase', () => {
+    renderOpen(config)
+
+    expect(screen.getByText(/Person 1 verstirbt 2042, Person 2 2045/)).toBeInTheDocument()
+    expect(screen.getByText(/Hinterbliebenenphase ab 2043 mit 55% Witwen-\/Witwerrente/)).toBeInTheDocument()
+    expect(screen.getByText(/Splittingtarif \(Gnadensplitting\) bis 2043/)).toBeInTheDocument()
+    expect(screen.getByText('1962')).toBeInTheDocument()
+    expect(screen.queryByText(/je zur Hälfte angenommen/)).not.toBeInTheDocument()
+  })
+
+  it('should warn about missing birth years and pensions of both partners', () => {
+    renderOpen(config, vi.fn(), { birthYears: undefined, pensionsSplitEqually: true })
+
+    expect(screen.getByText(/Geburtsjahre beider Partner im Profil angeben/)).toBeInTheDocument()
+    expect(screen.getByText(/je zur Hälfte angenommen/)).toBeInTheDocument()
+    expect(screen.queryByText(/verstirbt/)).not.toBeInTheDocument()
+  })
+
+  it('should change the life expectancy and the depot owners', () => {
+    const onChange = renderOpen(config)
+
+    fireEvent.change(screen.getAllByLabelText('Lebenserwartung (Alter)')[1], { target: { value: '90' } })
+    expect(onChange).toHaveBeenLastCalledWith({ ...config, person2: { lifeExpectancy: 90 } })
+
+    fireEvent.change(screen.getByLabelText('Depot Ben'), { target: { value: '2' } })
+    expect(onChange).toHaveBeenLastCalledWith({ ...config, depotOwners: { 'depot-1': 1, 'depot-2': 2 } })
+
+    fireEvent.change(screen.getByLabelText('Depot Anna'), { target: { value: 'joint' } })
+    expect(onChange).toHaveBeenLastCalledWith({ ...config, depotOwners: {} })
+  })
+})
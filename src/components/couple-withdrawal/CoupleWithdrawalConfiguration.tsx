@@ -0,0 +1,241 @@
+import { ChevronDown } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '../ui/collapsible'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import { Switch } from '../ui/switch'
+import { useFormId } from '../../utils/unique-id'
+import type { BankAccount } from '../../../helpers/freistellungsauftrag-optimization'
+import {
+  determineSurvivorPhase,
+  getCoupleDeathYear,
+  type CoupleBirthYears,
+  type CouplePersonId,
+  type CoupleWithdrawalConfig,
+  type CoupleWithdrawalPerson,
+} from '../../../helpers/couple-withdrawal'
+
+interface CoupleWithdrawalConfigurationProps {
+  config: CoupleWithdrawalConfig
+  onChange: (config: CoupleWithdrawalConfig) => void
+  /** Depots of the savings plans, each owned by one partner or jointly */
+  depots: BankAccount[]
+  /** Birth years of both partners from the profile, undefined while one is missing */
+  birthYears: CoupleBirthYears | undefined
+  /** The statutory pensions of both partners are not configured individually */
+  pensionsSplitEqually: boolean
+}
+
+function PersonInputs({
+  personId,
+  person,
+  birthYear,
+  onChange,
+}: {
+  personId: CouplePersonId
+  person: CoupleWithdrawalPerson
+  birthYear: number | undefined
+  onChange: (person: CoupleWithdrawalPerson) => void
+}) {
+  const lifeExpectancyId = useFormId('couple-withdrawal', `person${personId}-life-expectancy`)
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-sm font-medium">Person {personId}</Label>
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <div className="text-sm">Geburtsjahr</div>
+          <div className="py-2 font-medium">{birthYear ?? 'Nicht festgelegt'}</div>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={lifeExpectancyId}>Lebenserwartung (Alter)</Label>
+          <Input
+            id={lifeExpectancyId}
+            type="number"
+            value={person.lifeExpectancy}
+            step={1}
+            onChange={e => onChange({ ...person, lifeExpectancy: Number(e.target.value) })}
+          />
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function DepotOwnerSelect({
+  depot,
+  config,
+  onChange,
+}: {
+  depot: BankAccount
+  config: CoupleWithdrawalConfig
+  onChange: (config: CoupleWithdrawalConfig) => void
+}) {
+  const selectId = useFormId('couple-withdrawal', `depot-owner-${depot.id}`)
+  const handleChange = (value: string) => {
+    const { [depot.id]: _previousOwner, ...depotOwners } = config.depotOwners
+    onChange({
+      ...config,
+      depotOwners: value === 'joint' ? depotOwners : { ...depotOwners, [depot.id]: Number(value) as CouplePersonId },
+    })
+  }
+
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={selectId}>{depot.name}</Label>
+      <select
+        id={selectId}
+        value={config.depotOwners[depot.id] ?? 'joint'}
+        onChange={e => handleChange(e.target.value)}
+        className="w-full px-3 py-2 border rounded-md"
+      >
+        <option value="joint">Gemeinsam</option>
+        <option value="1">Person 1</option>
+        <option value="2">Person 2</option>
+      </select>
+    </div>
+  )
+}
+
+function DepotOwnerInputs(props: CoupleWithdrawalConfigurationProps) {
+  return (
+    <div className="space-y-2">
+      <Label className="text-sm font-medium">Depotinhaber</Label>
+      {props.depots.length === 0 ? (
+        <p className="text-sm text-gray-600">Ohne eigene Depots gilt das Vermögen als Gemeinschaftsdepot.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {props.depots.map(depot => (
+            <DepotOwnerSelect key={depot.id} depot={depot} config={props.config} onChange={props.onChange} />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function SurvivorPhaseSummary({
+  config,
+  birthYears,
+}: {
+  config: CoupleWithdrawalConfig
+  birthYears?: CoupleBirthYears
+}) {
+  if (!birthYears) {
+    return (
+      <p className="text-sm text-amber-700">
+        Bitte die Geburtsjahre beider Partner im Profil angeben, ohne sie wird keine Hinterbliebenenphase simuliert.
+      </p>
+    )
+  }
+
+  const phase = determineSurvivorPhase(config, birthYears)
+  if (!phase) {
+    return (
+      <p className="text-sm text-gray-600">
+        Beide Partner versterben {getCoupleDeathYear(config.person1, birthYears.person1)}, es gibt keine
+        Hinterbliebenenphase.
+      </p>
+    )
+  }
+
+  return (
+    <div className="p-3 bg-blue-50 rounded-lg text-sm space-y-1">
+      <div>
+        Person {phase.deceased} verstirbt {phase.deathYear}, Person {phase.survivor} {phase.survivorDeathYear}.
+      </div>
+      <div>
+        Hinterbliebenenphase ab {phase.deathYear + 1} mit {phase.witwenrenteRate}% Witwen-/Witwerrente
+      </div>
+      <div>
+        Splittingtarif (Gnadensplitting) bis {phase.deathYear + 1}, danach Grundtarif und halber Sparerpauschbetrag
+      </div>
+    </div>
+  )
+}
+
+function SurvivorPhaseInputs(props: CoupleWithdrawalConfigurationProps) {
+  const { config, onChange, birthYears } = props
+  const marriedBefore2002Id = useFormId('couple-withdrawal', 'married-before-2002')
+
+  return (
+    <>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <PersonInputs
+          personId={1}
+          person={config.person1}
+          birthYear={birthYears?.person1}
+          onChange={person1 => onChange({ ...config, person1 })}
+        />
+        <PersonInputs
+          personId={2}
+          person={config.person2}
+          birthYear={birthYears?.person2}
+          onChange={person2 => onChange({ ...config, person2 })}
+        />
+      </div>
+      <DepotOwnerInputs {...props} />
+      <div className="flex items-center space-x-2">
+        <Switch
+          id={marriedBefore2002Id}
+          checked={config.marriedBefore2002}
+          onCheckedChange={marriedBefore2002 => onChange({ ...config, marriedBefore2002 })}
+        />
+        <Label htmlFor={marriedBefore2002Id}>Ehe vor 2002 geschlossen (altes Recht: 60%)</Label>
+      </div>
+      {props.pensionsSplitEqually && (
+        <p className="text-sm text-amber-700">
+          Die gesetzlichen Renten beider Partner sind nicht einzeln erfasst: die gemeinsame Rente wird je zur Hälfte
+          angenommen. Für eine genaue Witwen-/Witwerrente die Renten beider Partner einzeln angeben.
+        </p>
+      )}
+      <SurvivorPhaseSummary config={config} birthYears={birthYears} />
+    </>
+  )
+}
+
+/**
+ * Couple withdrawal plan: individual life expectancy and depots of both partners, the death of the first partner
+ * starts the survivor phase with Witwenrente, Gnadensplitting and inheritance of the depots
+ */
+export function CoupleWithdrawalConfiguration(props: CoupleWithdrawalConfigurationProps) {
+  const { config, onChange } = props
+  const enabledId = useFormId('couple-withdrawal', 'enabled')
+
+  return (
+    <Card className="mb-6">
+      <Collapsible defaultOpen={false}>
+        <CardHeader className="pb-4">
+          <CollapsibleTrigger className="w-full">
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-lg font-semibold flex items-center gap-2">👫 Hinterbliebenenphase</CardTitle>
+              <ChevronDown className="h-5 w-5 text-gray-500" />
+            </div>
+          </CollapsibleTrigger>
+        </CardHeader>
+        <CollapsibleContent>
+          <CardContent className="pt-0 space-y-4">
+            <div className="flex items-center justify-between">
+              <Label htmlFor={enabledId} className="text-base font-medium">
+                Hinterbliebenenphase simulieren
+              </Label>
+              <Switch
+                id={enabledId}
+                checked={config.enabled}
+                onCheckedChange={enabled => onChange({ ...config, enabled })}
+              />
+            </div>
+            <p className="text-sm text-gray-600">
+              Nach dem Tod des ersten Partners ersetzt die Witwen-/Witwerrente (55%, altes Recht 60%, mit
+              Einkommensanrechnung) dessen Rente. Der Splittingtarif gilt noch im Folgejahr (Gnadensplitting). Die
+              Depots des Verstorbenen und die Hälfte der Gemeinschaftsdepots werden mit dem Ehegatten-Freibetrag
+              vererbt. Die Entnahmen erfolgen aus allen Depots gemeinsam wie aus einer Haushaltskasse, die Depotinhaber
+              bestimmen nur die Erbschaft. Die Geburtsjahre stammen aus dem Profil.
+            </p>
+            {config.enabled && <SurvivorPhaseInputs {...props} />}
+          </CardContent>
+        </CollapsibleContent>
+      </Collapsible>
+    </Card>
+  )
+}
@@ -0,0 +1,297 @@
+import { Label } from '../ui/label'
+import { Input } from '../ui/input'
+import { Switch } from '../ui/switch'
+import { useFormId } from '../../utils/unique-id'
+import { formatCurrency } from '../../utils/currency'
+import type { HealthCareInsuranceConfig, PrivateStatutoryComparisonSum } from '../../../helpers/health-care-insurance'
+import {
+  calculatePrivateHealthInsurancePremium,
+  createDefaultPrivateHealthInsuranceProjectionConfig,
+  type PrivateHealthInsuranceProjectionConfig,
+} from '../../../helpers/private-health-insurance'
+import {
+  calculateWorkingPhaseInsuranceComparison,
+  combineLifetimeInsuranceComparison,
+  type LifetimeInsuranceComparison,
+} from '../../../helpers/private-health-insurance-comparison'
+
+interface PrivateInsuranceProjectionConfigProps {
+  config: HealthCareInsuranceConfig
+  onChange: (updates: Partial<HealthCareInsuranceConfig>) => void
+  birthYear: number | undefined
+  retirementStartYear: number
+  /** Last year before the withdrawal phase */
+  workingPhaseEndYear: number
+  /** Contributions of the simulated withdrawal years with private and statutory insurance */
+  comparison: PrivateStatutoryComparisonSum | undefined
+}
+
+interface ProjectionInputProps {
+  projection: PrivateHealthInsuranceProjectionConfig
+  onProjectionChange: (updates: Partial<PrivateHealthInsuranceProjectionConfig>) => void
+}
+
+function ProjectionNumberField({
+  id,
+  label,
+  value,
+  step,
+  onChange,
+}: {
+  id: string
+  label: string
+  value: number
+  step: number
+  onChange: (value: number) => void
+}) {
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id}>{label}</Label>
+      <Input id={id} type="number" value={value} step={step} onChange={e => onChange(Number(e.target.value))} />
+    </div>
+  )
+}
+
+function PremiumIncreaseInputs({ projection, onProjectionChange }: ProjectionInputProps) {
+  const premiumYearId = useFormId('pkv-projection', 'premium-year')
+  const increaseRateId = useFormId('pkv-projection', 'increase-rate')
+  const ageStartId = useFormId('pkv-projection', 'age-increase-start')
+  const ageRateId = useFormId('pkv-projection', 'age-increase-rate')
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+      <ProjectionNumberField
+        id={premiumYearId}
+        label="Beiträge gelten für das Jahr"
+        value={projection.premiumYear}
+        step={1}
+        onChange={premiumYear => onProjectionChange({ premiumYear })}
+      />
+      <ProjectionNumberField
+        id={increaseRateId}
+        label="Jährliche Beitragssteigerung (%)"
+        value={projection.premiumIncreaseRate}
+        step={0.1}
+        onChange={premiumIncreaseRate => onProjectionChange({ premiumIncreaseRate })}
+      />
+      <ProjectionNumberField
+        id={ageStartId}
+        label="Zusätzliche Steigerung ab Alter"
+        value={projection.ageRelatedIncreaseStartAge}
+        step={1}
+        onChange={ageRelatedIncreaseStartAge => onProjectionChange({ ageRelatedIncreaseStartAge })}
+      />
+      <ProjectionNumberField
+        id={ageRateId}
+        label="Zusätzliche altersbedingte Steigerung (%)"
+        value={projection.ageRelatedIncreaseRate}
+        step={0.1}
+        onChange={ageRelatedIncreaseRate => onProjectionChange({ ageRelatedIncreaseRate })}
+      />
+    </div>
+  )
+}
+
+function ReliefTariffInputs({ projection, onProjectionChange }: ProjectionInputProps) {
+  const contributionId = useFormId('pkv-projection', 'relief-contribution')
+  const reductionId = useFormId('pkv-projection', 'relief-reduction')
+  const startAgeId = useFormId('pkv-projection', 'relief-start-age')
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-sm font-medium">Beitragsentlastungstarif</Label>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <ProjectionNumberField
+          id={contributionId}
+          label="Monatlicher Beitrag bis zum Entlastungsalter €"
+          value={projection.reliefTariffMonthlyContribution}
+          step={10}
+          onChange={reliefTariffMonthlyContribution => onProjectionChange({ reliefTariffMonthlyContribution })}
+        />
+        <ProjectionNumberField
+          id={reductionId}
+          label="Monatliche Entlastung €"
+          value={projection.reliefTariffMonthlyReduction}
+          step={10}
+          onChange={reliefTariffMonthlyReduction => onProjectionChange({ reliefTariffMonthlyReduction })}
+        />
+        <ProjectionNumberField
+          id={startAgeId}
+          label="Entlastung ab Alter"
+          value={projection.reliefTariffStartAge}
+          step={1}
+          onChange={reliefTariffStartAge => onProjectionChange({ reliefTariffStartAge })}
+        />
+      </div>
+    </div>
+  )
+}
+
+function WorkingPhaseInputs({ projection, onProjectionChange }: ProjectionInputProps) {
+  const employerSubsidyId = useFormId('pkv-projection', 'employer-subsidy')
+  const incomeId = useFormId('pkv-projection', 'working-income')
+  const incomeGrowthId = useFormId('pkv-projection', 'income-growth')
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center space-x-2">
+        <Switch
+          id={employerSubsidyId}
+          checked={projection.employerSubsidy}
+          onCheckedChange={employerSubsidy => onProjectionChange({ employerSubsidy })}
+        />
+        <Label htmlFor={employerSubsidyId}>Arbeitgeberzuschuss in der Erwerbsphase (Angestellte)</Label>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <ProjectionNumberField
+          id={incomeId}
+          label="Bruttoeinkommen in der Erwerbsphase (jährlich) €"
+          value={projection.workingIncomeAnnual}
+          step={1000}
+          onChange={workingIncomeAnnual => onProjectionChange({ workingIncomeAnnual })}
+        />
+        <ProjectionNumberField
+          id={incomeGrowthId}
+          label="Einkommenssteigerung (%)"
+          value={projection.incomeGrowthRate}
+          step={0.1}
+          onChange={incomeGrowthRate => onProjectionChange({ incomeGrowthRate })}
+        />
+      </div>
+    </div>
+  )
+}
+
+function PremiumPreview({
+  config,
+  projection,
+  birthYear,
+  retirementStartYear,
+}: {
+  config: HealthCareInsuranceConfig
+  projection: PrivateHealthInsuranceProjectionConfig
+  birthYear: number
+  retirementStartYear: number
+}) {
+  const years = [projection.premiumYear, retirementStartYear, birthYear + 80]
+  const premiums = years.map(year =>
+    calculatePrivateHealthInsurancePremium(projection, {
+      healthInsuranceMonthly: config.privateHealthInsuranceMonthly,
+      careInsuranceMonthly: config.privateCareInsuranceMonthly,
+      birthYear,
+      year,
+      subsidySource: 'none',
+      statutoryPensionAnnual: 0,
+    }),
+  )
+
+  return (
+    <div className="text-sm text-muted-foreground space-y-1 bg-purple-50 border border-purple-200 rounded p-3">
+      {premiums.map((premium, index) => (
+        <div key={index}>
+          {years[index]} (Alter {premium.age}): {formatCurrency(premium.healthInsuranceMonthly)} Krankenversicherung
+          {premium.statutorySurchargeMonthly > 0 && ' inkl. 10% Zuschlag'} +{' '}
+          {formatCurrency(premium.careInsuranceMonthly)} Pflegeversicherung pro Monat vor Zuschüssen
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function LifetimeComparison({ comparison }: { comparison: LifetimeInsuranceComparison }) {
+  const { workingPhase, withdrawalPhase } = comparison
+
+  return (
+    <div className="p-3 bg-gray-50 border rounded space-y-1 text-sm">
+      <div className="font-medium">📊 Lebenszeitvergleich PKV und GKV (eigene Beiträge nach Zuschüssen)</div>
+      <div>
+        Erwerbsphase ({workingPhase.years} Jahre): PKV {formatCurrency(workingPhase.private)}, GKV{' '}
+        {formatCurrency(workingPhase.statutory)}
+      </div>
+      {withdrawalPhase && (
+        <div>
+          Entnahmephase ({withdrawalPhase.years} Jahre): PKV {formatCurrency(withdrawalPhase.private)}, GKV{' '}
+          {formatCurrency(withdrawalPhase.statutory)}
+        </div>
+      )}
+      <div className="font-medium text-gray-900">
+        {comparison.difference > 0 ? 'Mehrkosten' : 'Ersparnis'} der PKV über das gesamte Leben:{' '}
+        {formatCurrency(Math.abs(comparison.difference))}
+      </div>
+    </div>
+  )
+}
+
+function ProjectionResults({
+  config,
+  projection,
+  birthYear,
+  retirementStartYear,
+  workingPhaseEndYear,
+  comparison,
+}: Omit<PrivateInsuranceProjectionConfigProps, 'onChange' | 'birthYear'> & {
+  projection: PrivateHealthInsuranceProjectionConfig
+  birthYear: number
+}) {
+  const workingPhase = calculateWorkingPhaseInsuranceComparison(config, projection, {
+    birthYear,
+    startYear: projection.premiumYear,
+    endYear: workingPhaseEndYear,
+  })
+
+  return (
+    <>
+      <PremiumPreview
+        config={config}
+        projection={projection}
+        birthYear={birthYear}
+        retirementStartYear={retirementStartYear}
+      />
+      <LifetimeComparison comparison={combineLifetimeInsuranceComparison(workingPhase.sum, comparison)} />
+    </>
+  )
+}
+
+/**
+ * Projection of the private health insurance premiums and lifetime comparison with the statutory insurance
+ */
+export function PrivateInsuranceProjectionConfig(props: PrivateInsuranceProjectionConfigProps) {
+  const { config, onChange, birthYear } = props
+  const enabledSwitchId = useFormId('pkv-projection', 'enabled')
+  const projection =
+    config.privateInsuranceProjection ?? createDefaultPrivateHealthInsuranceProjectionConfig(new Date().getFullYear())
+
+  const updateProjection = (updates: Partial<PrivateHealthInsuranceProjectionConfig>) =>
+    onChange({ privateInsuranceProjection: { ...projection, ...updates } })
+
+  return (
+    <div className="space-y-4 p-4 border rounded-lg">
+      <div className="flex items-center space-x-2">
+        <Switch
+          id={enabledSwitchId}
+          checked={projection.enabled}
+          onCheckedChange={enabled => updateProjection({ enabled })}
+        />
+        <Label htmlFor={enabledSwitchId}>📈 PKV-Beitragsentwicklung prognostizieren</Label>
+      </div>
+      {projection.enabled && (
+        <>
+          <PremiumIncreaseInputs projection={projection} onProjectionChange={updateProjection} />
+          <ReliefTariffInputs projection={projection} onProjectionChange={updateProjection} />
+          <WorkingPhaseInputs projection={projection} onProjectionChange={updateProjection} />
+          <div className="text-xs text-muted-foreground">
+            Der gesetzliche Zuschlag von 10% entfällt ab dem 61. Lebensjahr. Im Ruhestand zahlt die Rentenversicherung
+            einen Zuschuss zur Krankenversicherung auf die gesetzliche Rente.
+          </div>
+          {birthYear ? (
+            <ProjectionResults {...props} projection={projection} birthYear={birthYear} />
+          ) : (
+            <div className="text-sm text-muted-foreground">
+              Für die Prognose und den Lebenszeitvergleich wird das Geburtsjahr benötigt.
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
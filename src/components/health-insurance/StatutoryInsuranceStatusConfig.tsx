@@ -0,0 +1,193 @@
+import { Label } from '../ui/label'
+import { Input } from '../ui/input'
+import { RadioTile, RadioTileGroup } from '../ui/radio-tile'
+import { useFormId } from '../../utils/unique-id'
+import { formatCurrency } from '../../utils/currency'
+import {
+  getStatutoryInsuranceStatus,
+  type HealthCareInsuranceConfig,
+  type StatutoryInsuranceStatusComparisonSum,
+} from '../../../helpers/health-care-insurance'
+import {
+  checkKvdrEligibility,
+  createDefaultKvdrEligibilityConfig,
+  type KvdrEligibilityConfig,
+  type KvdrEligibilityResult,
+} from '../../../helpers/health-insurance-status'
+
+type StatusSelection = NonNullable<HealthCareInsuranceConfig['statutoryInsuranceStatus']> | 'pauschal'
+
+interface StatutoryInsuranceStatusConfigProps {
+  config: HealthCareInsuranceConfig
+  onChange: (updates: Partial<HealthCareInsuranceConfig>) => void
+  retirementStartYear: number
+  /** Contributions of the simulated withdrawal years with either status */
+  comparison: StatutoryInsuranceStatusComparisonSum | undefined
+}
+
+function formatYears(years: number): string {
+  return years.toLocaleString('de-DE', { maximumFractionDigits: 1 })
+}
+
+function StatusSelectionTiles({
+  value,
+  onValueChange,
+}: {
+  value: StatusSelection
+  onValueChange: (value: StatusSelection) => void
+}) {
+  return (
+    <RadioTileGroup
+      value={value}
+      onValueChange={selected => onValueChange(selected as StatusSelection)}
+      className="grid grid-cols-1 md:grid-cols-2 gap-3"
+    >
+      <RadioTile value="automatic" label="Automatisch (9/10-Regelung)">
+        KVdR, wenn die Vorversicherungszeit erfüllt ist, sonst freiwillig versichert
+      </RadioTile>
+      <RadioTile value="kvdr" label="KVdR (Pflichtversicherung der Rentner)">
+        Beiträge nur auf gesetzliche Rente und Versorgungsbezüge
+      </RadioTile>
+      <RadioTile value="freiwillig" label="Freiwillig gesetzlich versichert">
+        Beiträge auf alle Einnahmen inkl. Kapitalerträge und Mieteinnahmen
+      </RadioTile>
+      <RadioTile value="pauschal" label="Pauschal">
+        Beiträge auf Entnahme und Rente
+      </RadioTile>
+    </RadioTileGroup>
+  )
+}
+
+function EligibilityNumberField({
+  id,
+  label,
+  value,
+  onChange,
+}: {
+  id: string
+  label: string
+  value: number
+  onChange: (value: number) => void
+}) {
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id}>{label}</Label>
+      <Input id={id} type="number" value={value} step={1} onChange={e => onChange(Number(e.target.value))} />
+    </div>
+  )
+}
+
+function EligibilityInputs({
+  eligibility,
+  onEligibilityChange,
+}: {
+  eligibility: KvdrEligibilityConfig
+  onEligibilityChange: (updates: Partial<KvdrEligibilityConfig>) => void
+}) {
+  const firstEmploymentId = useFormId('kvdr-eligibility', 'first-employment-year')
+  const insuranceYearsId = useFormId('kvdr-eligibility', 'insurance-years')
+  const childrenId = useFormId('kvdr-eligibility', 'children')
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+      <EligibilityNumberField
+        id={firstEmploymentId}
+        label="Beginn der Erwerbstätigkeit (Jahr)"
+        value={eligibility.firstEmploymentYear}
+        onChange={firstEmploymentYear => onEligibilityChange({ firstEmploymentYear })}
+      />
+      <EligibilityNumberField
+        id={insuranceYearsId}
+        label="Jahre gesetzlich versichert in der zweiten Hälfte"
+        value={eligibility.statutoryInsuranceYearsSecondHalf}
+        onChange={statutoryInsuranceYearsSecondHalf => onEligibilityChange({ statutoryInsuranceYearsSecondHalf })}
+      />
+      <EligibilityNumberField
+        id={childrenId}
+        label="Anzahl Kinder"
+        value={eligibility.numberOfChildren}
+        onChange={numberOfChildren => onEligibilityChange({ numberOfChildren })}
+      />
+    </div>
+  )
+}
+
+function EligibilityResult({ result }: { result: KvdrEligibilityResult }) {
+  return (
+    <div className="text-sm text-muted-foreground space-y-1 bg-blue-50 border border-blue-200 rounded p-3">
+      <div>
+        Zweite Hälfte des Erwerbslebens: {formatYears(result.secondHalfYears)} Jahre, davon 9/10 erforderlich:{' '}
+        {formatYears(result.requiredYears)} Jahre
+      </div>
+      <div>
+        Angerechnet: {formatYears(result.creditedYears)} Jahre
+        {result.childCreditYears > 0 && ` (inkl. ${formatYears(result.childCreditYears)} Jahre für Kinder)`}
+      </div>
+      <div className="font-medium text-gray-900">
+        {result.eligible
+          ? '✅ Vorversicherungszeit erfüllt: Pflichtversicherung in der KVdR'
+          : '❌ Vorversicherungszeit nicht erfüllt: freiwillig gesetzlich versichert'}
+      </div>
+    </div>
+  )
+}
+
+function StatusComparison({ comparison }: { comparison: StatutoryInsuranceStatusComparisonSum }) {
+  const difference = comparison.freiwillig - comparison.kvdr
+
+  return (
+    <div className="p-3 bg-gray-50 border rounded space-y-1 text-sm">
+      <div className="font-medium">📊 Beitragsvergleich über {comparison.years} Entnahmejahre</div>
+      <div>KVdR: {formatCurrency(comparison.kvdr)}</div>
+      <div>Freiwillig versichert: {formatCurrency(comparison.freiwillig)}</div>
+      <div className="font-medium text-gray-900">
+        Mehrbelastung als freiwilliges Mitglied: {formatCurrency(difference)} (
+        {formatCurrency(difference / comparison.years)} pro Jahr)
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Membership status of the statutory health insurance in retirement with the KVdR eligibility check
+ * and the comparison of the contributions as KVdR and voluntary member
+ */
+export function StatutoryInsuranceStatusConfig({
+  config,
+  onChange,
+  retirementStartYear,
+  comparison,
+}: StatutoryInsuranceStatusConfigProps) {
+  const eligibility = config.kvdrEligibility ?? createDefaultKvdrEligibilityConfig(retirementStartYear)
+  const selection: StatusSelection = config.statutoryInsuranceStatus ?? 'pauschal'
+  const activeStatus = getStatutoryInsuranceStatus({ ...config, kvdrEligibility: eligibility, retirementStartYear })
+
+  return (
+    <div className="space-y-4 p-4 border rounded-lg">
+      <Label className="text-sm font-medium">🏥 Versicherungsstatus im Ruhestand</Label>
+      <StatusSelectionTiles
+        value={selection}
+        onValueChange={value =>
+          onChange({
+            statutoryInsuranceStatus: value === 'pauschal' ? undefined : value,
+            kvdrEligibility: eligibility,
+          })
+        }
+      />
+      {selection !== 'pauschal' && (
+        <>
+          <EligibilityInputs
+            eligibility={eligibility}
+            onEligibilityChange={updates => onChange({ kvdrEligibility: { ...eligibility, ...updates } })}
+          />
+          <EligibilityResult result={checkKvdrEligibility(eligibility, retirementStartYear)} />
+          <div className="text-xs text-muted-foreground">
+            Berechnung als {activeStatus === 'kvdr' ? 'KVdR-Mitglied' : 'freiwilliges Mitglied'}. Kapitalerträge werden
+            mit dem Steuerbescheid des Vorjahres verbeitragt, Betriebsrenten als Versorgungsbezüge.
+          </div>
+          {comparison && <StatusComparison comparison={comparison} />}
+        </>
+      )}
+    </div>
+  )
+}
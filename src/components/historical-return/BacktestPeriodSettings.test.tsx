@@ -0,0 +1,55 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { BacktestPeriodSettings } from './BacktestPeriodSettings'
+import { DEFAULT_HISTORICAL_BACKTEST_SETTINGS, getHistoricalIndex } from '../../utils/historical-data'
+
+describe('BacktestPeriodSettings', () => {
+  const index = getHistoricalIndex('msci-world-1970')
+
+  it('should render the start year and the historical inflation option', () => {
+    render(
+      <BacktestPeriodSettings
+        settings={DEFAULT_HISTORICAL_BACKTEST_SETTINGS}
+        onChange={vi.fn()}
+        currentIndex={index}
+      />,
+    )
+
+    expect(screen.getByLabelText('Startjahr des Backtests')).toHaveValue(null)
+    expect(screen.getByText('Historische Inflation (VPI) verwenden')).toBeInTheDocument()
+    expect(screen.getByText(/Daten 1970-2023/)).toBeInTheDocument()
+  })
+
+  it('should report a changed start year and clear it again', () => {
+    const onChange = vi.fn()
+    render(
+      <BacktestPeriodSettings
+        settings={{ startYear: 2000, useHistoricalInflation: false }}
+        onChange={onChange}
+        currentIndex={index}
+      />,
+    )
+
+    const input = screen.getByLabelText('Startjahr des Backtests')
+    fireEvent.change(input, { target: { value: '1973' } })
+    fireEvent.change(input, { target: { value: '' } })
+
+    expect(onChange).toHaveBeenNthCalledWith(1, { startYear: 1973 })
+    expect(onChange).toHaveBeenNthCalledWith(2, { startYear: undefined })
+  })
+
+  it('should toggle the historical inflation', () => {
+    const onChange = vi.fn()
+    render(
+      <BacktestPeriodSettings
+        settings={DEFAULT_HISTORICAL_BACKTEST_SETTINGS}
+        onChange={onChange}
+        currentIndex={index}
+      />,
+    )
+
+    fireEvent.click(screen.getByRole('switch'))
+
+    expect(onChange).toHaveBeenCalledWith({ useHistoricalInflation: true })
+  })
+})
@@ -0,0 +1,51 @@
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import { Switch } from '../ui/switch'
+import type { HistoricalBacktestSettings, HistoricalIndex } from '../../utils/historical-data'
+import { getHistoricalSeriesYears } from '../../utils/historical-dataset'
+
+interface BacktestPeriodSettingsProps {
+  settings: HistoricalBacktestSettings
+  onChange: (changes: Partial<HistoricalBacktestSettings>) => void
+  currentIndex: HistoricalIndex | undefined
+}
+
+export const BacktestPeriodSettings = ({ settings, onChange, currentIndex }: BacktestPeriodSettingsProps) => {
+  const inflationYears = getHistoricalSeriesYears('german-cpi')
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="historical-backtest-start">Startjahr des Backtests</Label>
+        <Input
+          id="historical-backtest-start"
+          type="number"
+          min={currentIndex?.startYear}
+          max={currentIndex?.endYear}
+          value={settings.startYear ?? ''}
+          onChange={e => onChange({ startYear: e.target.value ? parseInt(e.target.value) : undefined })}
+          placeholder="Simulationsjahre verwenden"
+        />
+        <p className="text-xs text-muted-foreground">
+          Das erste Simulationsjahr erhält die Rendite dieses historischen Jahres, die folgenden Jahre die Renditen der
+          anschließenden Jahre. Ohne Angabe werden die Kalenderjahre der Simulation verwendet.
+        </p>
+      </div>
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          <Switch
+            id="historical-backtest-inflation"
+            checked={settings.useHistoricalInflation}
+            onCheckedChange={useHistoricalInflation => onChange({ useHistoricalInflation })}
+          />
+          <Label htmlFor="historical-backtest-inflation">Historische Inflation (VPI) verwenden</Label>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Jedes Simulationsjahr verwendet die deutsche Inflationsrate des nachgebildeten Jahres (Daten{' '}
+          {inflationYears[0]}-{inflationYears[inflationYears.length - 1]}). So zeigen die realen Werte die Kaufkraft,
+          die in der historischen Phase tatsächlich erhalten geblieben wäre.
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -4,7 +4,8 @@ import { IndexStatistics } from './IndexStatistics'
 import { DataAvailabilityWarning } from './DataAvailabilityWarning'
 import { HistoricalDataPreview } from './HistoricalDataPreview'
 import { IndexSelectionRadioGroup } from './IndexSelectionRadioGroup'
-import type { HistoricalIndex } from '../../utils/historical-data'
+import { BacktestPeriodSettings } from './BacktestPeriodSettings'
+import type { HistoricalBacktestSettings, HistoricalIndex } from '../../utils/historical-data'
 
 interface HistoricalReturnContentProps {
   nestingLevel: number
@@ -15,6 +16,8 @@ interface HistoricalReturnContentProps {
   simulationEndYear: number
   isAvailable: boolean
   historicalReturns: Record<number, number> | null
+  backtestSettings?: HistoricalBacktestSettings
+  onBacktestSettingsChange?: (changes: Partial<HistoricalBacktestSettings>) => void
 }
 
 export const HistoricalReturnContent = ({
@@ -26,6 +29,8 @@ export const HistoricalReturnContent = ({
   simulationEndYear,
   isAvailable,
   historicalReturns,
+  backtestSettings,
+  onBacktestSettingsChange,
 }: HistoricalReturnContentProps) => (
   <CardContent nestingLevel={nestingLevel}>
     <div className="space-y-6">
@@ -35,6 +40,15 @@ export const HistoricalReturnContent = ({
       {/* Index Selection */}
       <IndexSelectionRadioGroup selectedIndexId={selectedIndexId} onIndexChange={onIndexChange} />
 
+      {/* Backtest Period and Inflation */}
+      {backtestSettings && onBacktestSettingsChange && (
+        <BacktestPeriodSettings
+          settings={backtestSettings}
+          onChange={onBacktestSettingsChange}
+          currentIndex={currentIndex}
+        />
+      )}
+
       {/* Index Statistics */}
       {currentIndex && <IndexStatistics index={currentIndex} nestingLevel={nestingLevel} />}
 
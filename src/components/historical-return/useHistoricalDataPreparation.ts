@@ -5,23 +5,27 @@ import { HISTORICAL_INDICES, getHistoricalReturns, isYearRangeAvailable } from '
  * Custom hook for preparing historical data for display
  */
 export const useHistoricalDataPreparation = (selectedIndexId: string) => {
-  const { startEnd } = useSimulation()
+  const { startEnd, historicalBacktestSettings } = useSimulation()
 
   const currentIndex = HISTORICAL_INDICES.find(index => index.id === selectedIndexId)
   const simulationStartYear = new Date().getFullYear()
   const simulationEndYear = startEnd[0]
 
+  // With a backtest start year the simulation years are mapped onto the historical years from that year on
+  const backtestStartYear = historicalBacktestSettings?.startYear ?? simulationStartYear
+  const backtestEndYear = backtestStartYear + simulationEndYear - simulationStartYear
+
   // Check if the simulation period is within available historical data
   const isAvailable = currentIndex
-    ? isYearRangeAvailable(currentIndex.id, simulationStartYear, simulationEndYear)
+    ? isYearRangeAvailable(currentIndex.id, backtestStartYear, backtestEndYear)
     : false
 
   // Get historical returns for display
   const historicalReturns = currentIndex
     ? getHistoricalReturns(
         currentIndex.id,
-        Math.max(currentIndex.startYear, simulationStartYear - 5), // Show 5 years before simulation start
-        Math.min(currentIndex.endYear, simulationEndYear + 5), // Show 5 years after simulation end
+        Math.max(currentIndex.startYear, backtestStartYear - 5), // Show 5 years before simulation start
+        Math.min(currentIndex.endYear, backtestEndYear + 5), // Show 5 years after simulation end
       )
     : null
 
@@ -29,6 +33,8 @@ export const useHistoricalDataPreparation = (selectedIndexId: string) => {
     currentIndex,
     simulationStartYear,
     simulationEndYear,
+    backtestStartYear,
+    backtestEndYear,
     isAvailable,
     historicalReturns,
   }
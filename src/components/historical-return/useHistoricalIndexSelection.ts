@@ -1,11 +1,18 @@
 import { useState } from 'react'
 import { useSimulation } from '../../contexts/useSimulation'
+import type { HistoricalBacktestSettings } from '../../utils/historical-data'
 
 /**
  * Custom hook for managing historical index selection state and actions
  */
 export const useHistoricalIndexSelection = () => {
-  const { historicalIndex, setHistoricalIndex, performSimulation } = useSimulation()
+  const {
+    historicalIndex,
+    setHistoricalIndex,
+    historicalBacktestSettings,
+    setHistoricalBacktestSettings,
+    performSimulation,
+  } = useSimulation()
 
   const [selectedIndexId, setSelectedIndexId] = useState(historicalIndex || 'dax')
 
@@ -15,8 +22,15 @@ export const useHistoricalIndexSelection = () => {
     performSimulation()
   }
 
+  const handleBacktestSettingsChange = (changes: Partial<HistoricalBacktestSettings>) => {
+    setHistoricalBacktestSettings({ ...historicalBacktestSettings, ...changes })
+    performSimulation()
+  }
+
   return {
     selectedIndexId,
     handleIndexChange,
+    backtestSettings: historicalBacktestSettings,
+    handleBacktestSettingsChange,
   }
 }
@@ -45,6 +45,8 @@ export function useGlobalPlanningData() {
     setCareInsuranceConfig: simulation.setCareInsuranceConfig,
     emRenteConfig: simulation.emRenteConfig,
     setEMRenteConfig: simulation.setEMRenteConfig,
+    propertyOwnershipConfig: simulation.propertyOwnershipConfig,
+    setPropertyOwnershipConfig: simulation.setPropertyOwnershipConfig,
   }
 
   return { ...lifeExpectancy, ...planning, ...configs }
@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest'
-import { createScenarios, calculateBlackSwanScenario } from './monte-carlo-helpers'
+import { createScenarios, calculateBlackSwanScenario, getWithdrawalReturnConfig } from './monte-carlo-helpers'
 import type { RandomReturnConfig } from '../utils/random-returns'
+import type { WithdrawalConfiguration } from '../utils/config-storage'
 import { formatPercent } from '../utils/currency'
 
 describe('monte-carlo-helpers', () => {
@@ -120,4 +121,23 @@ describe('monte-carlo-helpers', () => {
       expect(result?.description).toContain('5.0%')
     })
   })
+
+  describe('getWithdrawalReturnConfig', () => {
+    it('uses the configured withdrawal return distribution', () => {
+      const config = getWithdrawalReturnConfig(
+        {
+          withdrawalAverageReturn: 4,
+          withdrawalStandardDeviation: 10,
+          withdrawalRandomSeed: 7,
+        } as WithdrawalConfiguration,
+        42,
+      )
+
+      expect(config).toEqual({ averageReturn: 0.04, standardDeviation: 0.1, seed: 7 })
+    })
+
+    it('falls back to the withdrawal defaults and the savings phase seed', () => {
+      expect(getWithdrawalReturnConfig(null, 42)).toEqual({ averageReturn: 0.07, standardDeviation: 0.12, seed: 42 })
+    })
+  })
 })
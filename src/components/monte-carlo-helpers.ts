@@ -1,6 +1,11 @@
 import type { RandomReturnConfig } from '../utils/random-returns'
 import { formatPercent } from '../utils/currency'
 import { isEmpty } from '../utils/array-utils'
+import type { WithdrawalConfiguration } from '../utils/config-storage'
+
+/** Default return distribution of the withdrawal phase (in percent), as in the withdrawal configuration */
+const DEFAULT_WITHDRAWAL_AVERAGE_RETURN = 7
+const DEFAULT_WITHDRAWAL_STANDARD_DEVIATION = 12
 
 export interface MonteCarloResult {
   scenario: string
@@ -58,3 +63,15 @@ export const calculateBlackSwanScenario = (
     isBlackSwan: true,
   }
 }
+
+/**
+ * Get the return distribution of the withdrawal phase from the withdrawal configuration
+ */
+export const getWithdrawalReturnConfig = (
+  withdrawalConfig: WithdrawalConfiguration | null | undefined,
+  fallbackSeed: number | undefined,
+): RandomReturnConfig => ({
+  averageReturn: (withdrawalConfig?.withdrawalAverageReturn ?? DEFAULT_WITHDRAWAL_AVERAGE_RETURN) / 100,
+  standardDeviation: (withdrawalConfig?.withdrawalStandardDeviation ?? DEFAULT_WITHDRAWAL_STANDARD_DEVIATION) / 100,
+  seed: withdrawalConfig?.withdrawalRandomSeed ?? fallbackSeed,
+})
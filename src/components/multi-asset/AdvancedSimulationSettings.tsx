@@ -1,10 +1,14 @@
 import { Switch } from '../ui/switch'
 import { Label } from '../ui/label'
 import { Input } from '../ui/input'
+import { getAlignedHistory } from '../../utils/historical-dataset'
+import { ASSET_CLASS_HISTORICAL_SERIES } from '../../../helpers/multi-asset-calculations'
 
 interface SimulationConfig {
   useCorrelation: boolean
   seed?: number
+  useHistoricalReplay?: boolean
+  historicalStartYear?: number
 }
 
 interface AdvancedSimulationSettingsProps {
@@ -14,6 +18,49 @@ interface AdvancedSimulationSettingsProps {
   onChange: (updates: Partial<SimulationConfig>) => void
 }
 
+/**
+ * Replay of the joint history of all asset classes instead of synthetic returns
+ */
+function HistoricalReplaySettings({ config, onChange }: AdvancedSimulationSettingsProps) {
+  const { years } = getAlignedHistory([...new Set(Object.values(ASSET_CLASS_HISTORICAL_SERIES))])
+  const firstYear = years[0]
+  const lastYear = years[years.length - 1]
+
+  return (
+    <>
+      <div className="flex items-center gap-2">
+        <Switch
+          checked={config.useHistoricalReplay ?? false}
+          onCheckedChange={useHistoricalReplay => onChange({ useHistoricalReplay })}
+        />
+        <Label className="text-sm">Historischen Verlauf nachspielen</Label>
+      </div>
+      <p className="text-xs text-gray-600">
+        Verwendet die tatsächlichen Jahresrenditen {firstYear}-{lastYear} aller Anlageklassen gemeinsam (Aktien: MSCI
+        World, Anleihen: Bundesanleihen, Rohstoffe: Gold, Liquidität: Geldmarkt). Immobilien behalten ihre erwartete
+        Rendite.
+      </p>
+      {config.useHistoricalReplay && (
+        <div className="space-y-2">
+          <Label htmlFor="multiasset-historical-start" className="text-sm font-medium">
+            Erstes historisches Jahr
+          </Label>
+          <Input
+            id="multiasset-historical-start"
+            type="number"
+            min={firstYear}
+            max={lastYear}
+            value={config.historicalStartYear ?? firstYear}
+            onChange={e => onChange({ historicalStartYear: e.target.value ? parseInt(e.target.value) : undefined })}
+            className="text-sm"
+          />
+          <p className="text-xs text-gray-600">Nach {lastYear} beginnt der Verlauf wieder bei {firstYear}</p>
+        </div>
+      )}
+    </>
+  )
+}
+
 /**
  * Advanced simulation settings for multi-asset portfolio.
  * Controls correlation usage and optional random seed for reproducibility.
@@ -32,6 +79,8 @@ export function AdvancedSimulationSettings({ config, onChange }: AdvancedSimulat
         Simulationsergebnisse
       </p>
 
+      <HistoricalReplaySettings config={config} onChange={onChange} />
+
       <div className="space-y-2">
         <Label htmlFor="multiasset-seed" className="text-sm font-medium">
           Zufalls-Seed (optional)
@@ -0,0 +1,27 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { BetriebsrenteConfigSection } from './BetriebsrenteConfigSection'
+import { createDefaultOtherIncomeSource } from '../../../helpers/other-income'
+
+describe('BetriebsrenteConfigSection', () => {
+  const source = { ...createDefaultOtherIncomeSource('pension'), startYear: 2040, monthlyAmount: 500 }
+
+  it('should render the disabled bAV configuration for a pension without contract', () => {
+    render(<BetriebsrenteConfigSection editingSource={source} currentYear={2025} onUpdate={vi.fn()} />)
+
+    expect(screen.getByText('Betriebliche Altersvorsorge (bAV)')).toBeInTheDocument()
+    expect(screen.getByLabelText('Betriebliche Altersvorsorge aktivieren')).not.toBeChecked()
+  })
+
+  it('should store the enabled contract on the income source', () => {
+    const onUpdate = vi.fn()
+    render(<BetriebsrenteConfigSection editingSource={source} currentYear={2025} onUpdate={onUpdate} />)
+
+    fireEvent.click(screen.getByLabelText('Betriebliche Altersvorsorge aktivieren'))
+
+    expect(onUpdate).toHaveBeenCalledWith({
+      ...source,
+      betriebsrenteConfig: expect.objectContaining({ enabled: true, pensionStartYear: 2040, expectedMonthlyPension: 500 }),
+    })
+  })
+})
@@ -0,0 +1,28 @@
+import { BetriebsrenteConfiguration } from '../BetriebsrenteConfiguration'
+import { createDefaultBetriebsrenteConfig } from '../../../helpers/betriebsrente'
+import type { OtherIncomeSource } from '../../../helpers/other-income'
+
+interface BetriebsrenteConfigSectionProps {
+  editingSource: OtherIncomeSource
+  currentYear: number
+  onUpdate: (source: OtherIncomeSource) => void
+}
+
+/**
+ * Optional Betriebsrente (bAV) contract behind a pension income source; its contributions and
+ * pension payments form the Betriebsrente balance in the Vermögensbilanz
+ */
+export function BetriebsrenteConfigSection({ editingSource, currentYear, onUpdate }: BetriebsrenteConfigSectionProps) {
+  const config =
+    editingSource.betriebsrenteConfig ??
+    createDefaultBetriebsrenteConfig(editingSource.startYear, editingSource.monthlyAmount)
+
+  return (
+    <BetriebsrenteConfiguration
+      config={config}
+      onChange={betriebsrenteConfig => onUpdate({ ...editingSource, betriebsrenteConfig })}
+      contributionYear={currentYear}
+      pensionTaxRate={editingSource.taxRate / 100}
+    />
+  )
+}
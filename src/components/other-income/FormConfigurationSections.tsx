@@ -12,6 +12,7 @@ import { KapitallebensversicherungConfigSection } from './Kapitallebensversicher
 import { PflegezusatzversicherungConfigSection } from './PflegezusatzversicherungConfigSection'
 import { RisikolebensversicherungConfigSection } from './RisikolebensversicherungConfigSection'
 import { DepotAufKindConfigSection } from './DepotAufKindConfigSection'
+import { BetriebsrenteConfigSection } from './BetriebsrenteConfigSection'
 
 interface FormConfigurationSectionsProps {
   editingSource: OtherIncomeSource
@@ -193,6 +194,13 @@ export function FormConfigurationSections(props: FormConfigurationSectionsProps)
     <>
       <StandardConfigSections {...props} />
       {props.isRental && <RealEstateConfigSection editingSource={props.editingSource} onUpdate={props.onUpdate} />}
+      {props.editingSource.type === 'pension' && (
+        <BetriebsrenteConfigSection
+          editingSource={props.editingSource}
+          currentYear={props.currentYear}
+          onUpdate={props.onUpdate}
+        />
+      )}
       <BasicIncomeConfigSections {...props} />
       <InsuranceConfigSections {...props} />
     </>
@@ -164,6 +164,13 @@ function configureDepotAufKindSettings(source: OtherIncomeSource, newType: Incom
   }
 }
 
+// Helper to drop the Betriebsrente contract when the source is no longer a pension
+function configureBetriebsrenteSettings(source: OtherIncomeSource, newType: IncomeType): void {
+  if (newType !== 'pension' && source.betriebsrenteConfig) {
+    delete source.betriebsrenteConfig
+  }
+}
+
 // Helper to handle income type change
 function handleIncomeTypeChange(
   newType: IncomeType,
@@ -179,6 +186,7 @@ function handleIncomeTypeChange(
   configurePflegezusatzversicherungSettings(updatedSource, newType)
   configureRisikolebensversicherungSettings(updatedSource, newType)
   configureDepotAufKindSettings(updatedSource, newType)
+  configureBetriebsrenteSettings(updatedSource, newType)
   onUpdate(updatedSource)
 }
 
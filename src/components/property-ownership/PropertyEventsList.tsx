@@ -0,0 +1,105 @@
+import { Label } from '../ui/label'
+import { Input } from '../ui/input'
+import { Button } from '../ui/button'
+import { Plus, Trash2 } from 'lucide-react'
+
+/**
+ * Event of the property plan in a given year with a single value (Sondertilgung or Verkauf)
+ */
+export interface PropertyEvent {
+  year: number
+  value: number
+}
+
+interface PropertyEventsListProps {
+  title: string
+  description: string
+  valueLabel: string
+  emptyText: string
+  events: PropertyEvent[]
+  onChange: (events: PropertyEvent[]) => void
+  createEvent: () => PropertyEvent
+  maxValue?: number
+}
+
+function PropertyEventItem({
+  event,
+  index,
+  valueLabel,
+  maxValue,
+  onUpdate,
+  onRemove,
+}: {
+  event: PropertyEvent
+  index: number
+  valueLabel: string
+  maxValue?: number
+  onUpdate: (index: number, event: PropertyEvent) => void
+  onRemove: (index: number) => void
+}) {
+  return (
+    <div className="grid grid-cols-[1fr_1fr_auto] gap-3 items-end">
+      <div className="space-y-1">
+        <Label className="text-xs">Jahr</Label>
+        <Input
+          type="number"
+          value={event.year}
+          onChange={e => onUpdate(index, { ...event, year: Number(e.target.value) })}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label className="text-xs">{valueLabel}</Label>
+        <Input
+          type="number"
+          value={event.value}
+          min={0}
+          max={maxValue}
+          onChange={e => onUpdate(index, { ...event, value: Number(e.target.value) })}
+        />
+      </div>
+      <Button onClick={() => onRemove(index)} size="sm" variant="ghost" aria-label="Entfernen">
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  )
+}
+
+/**
+ * Editable list of yearly property events
+ */
+export function PropertyEventsList(props: PropertyEventsListProps) {
+  const { title, description, valueLabel, emptyText, events, onChange, createEvent, maxValue } = props
+  const handleUpdate = (index: number, event: PropertyEvent) =>
+    onChange(events.map((existing, i) => (i === index ? event : existing)))
+  const handleRemove = (index: number) => onChange(events.filter((_, i) => i !== index))
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <h4 className="font-medium">{title}</h4>
+          <p className="text-xs text-muted-foreground">{description}</p>
+        </div>
+        <Button onClick={() => onChange([...events, createEvent()])} size="sm" variant="outline">
+          <Plus className="h-4 w-4 mr-2" />
+          Hinzufügen
+        </Button>
+      </div>
+      {events.length === 0 ? (
+        <p className="text-sm text-muted-foreground">{emptyText}</p>
+      ) : (
+        events.map((event, index) => (
+          <PropertyEventItem
+            key={index}
+            event={event}
+            index={index}
+            valueLabel={valueLabel}
+            maxValue={maxValue}
+            onUpdate={handleUpdate}
+            onRemove={handleRemove}
+          />
+        ))
+      )}
+    </div>
+  )
+}
@@ -1,4 +1,5 @@
 import type { ReturnMode } from '../../utils/random-returns'
+import { isStochasticReturnMode } from '../../utils/stochastic-returns'
 import type { MultiAssetPortfolioConfig } from '../../../helpers/multi-asset-portfolio'
 import { NestingProvider } from '../../lib/nesting-context'
 import FixedReturnConfiguration from '../FixedReturnConfiguration'
@@ -6,6 +7,7 @@ import HistoricalReturnConfiguration from '../HistoricalReturnConfiguration'
 import RandomReturnConfiguration from '../RandomReturnConfiguration'
 import VariableReturnConfiguration from '../VariableReturnConfiguration'
 import MultiAssetPortfolioConfiguration from '../MultiAssetPortfolioConfiguration'
+import StochasticReturnConfiguration from '../StochasticReturnConfiguration'
 
 interface ReturnModeContentProps {
   returnMode: ReturnMode
@@ -27,6 +29,7 @@ const ReturnModeContent = ({ returnMode, multiAssetConfig, onMultiAssetConfigCha
           nestingLevel={1}
         />
       )}
+      {isStochasticReturnMode(returnMode) && <StochasticReturnConfiguration mode={returnMode} />}
     </NestingProvider>
   )
 }
@@ -33,6 +33,15 @@ const ReturnModeSelector = ({ returnMode, onReturnModeChange }: ReturnModeSelect
         <RadioTile value="multiasset" label="Multi-Asset Portfolio">
           Diversifiziertes Portfolio mit automatischem Rebalancing
         </RadioTile>
+        <RadioTile value="bootstrap" label="Block-Bootstrap">
+          Zufällige Blöcke historischer Jahre – Crash-Phasen bleiben zusammenhängend erhalten
+        </RadioTile>
+        <RadioTile value="student-t" label="Fat Tails (Student-t)">
+          Zufällige Rendite mit häufigeren Extremjahren als bei der Normalverteilung
+        </RadioTile>
+        <RadioTile value="regime" label="Bullen-/Bärenmarkt-Regime">
+          Wechsel zwischen Markt-Phasen mit eigener Rendite und Volatilität (Markov-Modell)
+        </RadioTile>
       </RadioTileGroup>
       <p className="text-sm text-muted-foreground">
         Konfiguration der erwarteten Rendite während der Ansparphase (bis zum Beginn der Entnahme).
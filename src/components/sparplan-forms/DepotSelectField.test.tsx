@@ -0,0 +1,27 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { DepotSelectField } from './DepotSelectField'
+
+describe('DepotSelectField', () => {
+  const depots = [
+    { id: 'a', name: 'Broker A', expectedCapitalGains: 0, assignedFreibetrag: 800 },
+    { id: 'b', name: 'Broker B', expectedCapitalGains: 0, assignedFreibetrag: 200 },
+  ]
+
+  it('should not render without depots', () => {
+    const { container } = render(<DepotSelectField id="depot" depots={[]} value={undefined} onChange={vi.fn()} />)
+
+    expect(container).toBeEmptyDOMElement()
+  })
+
+  it('should assign and remove the depot', () => {
+    const onChange = vi.fn()
+    render(<DepotSelectField id="depot" depots={depots} value="a" onChange={onChange} />)
+
+    fireEvent.change(screen.getByLabelText(/Depot/), { target: { value: 'b' } })
+    expect(onChange).toHaveBeenLastCalledWith('b')
+
+    fireEvent.change(screen.getByLabelText(/Depot/), { target: { value: '' } })
+    expect(onChange).toHaveBeenLastCalledWith(undefined)
+  })
+})
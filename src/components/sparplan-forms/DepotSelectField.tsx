@@ -0,0 +1,41 @@
+import { Label } from '../ui/label'
+import type { BankAccount } from '../../../helpers/freistellungsauftrag-optimization'
+
+interface DepotSelectFieldProps {
+  id: string
+  depots: BankAccount[]
+  value: string | undefined
+  onChange: (depotId: string | undefined) => void
+}
+
+/**
+ * Depot (bank with Freistellungsauftrag) holding the savings plan; only shown once depots are configured
+ * Complexity: <8, Lines: <50
+ */
+export function DepotSelectField({ id, depots, value, onChange }: DepotSelectFieldProps) {
+  if (depots.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="mb-4 space-y-2">
+      <Label htmlFor={id}>🏦 Depot</Label>
+      <select
+        id={id}
+        value={value ?? ''}
+        onChange={e => onChange(e.target.value || undefined)}
+        className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+      >
+        <option value="">Ohne Depotzuordnung</option>
+        {depots.map(depot => (
+          <option key={depot.id} value={depot.id}>
+            {depot.name}
+          </option>
+        ))}
+      </select>
+      <div className="text-sm text-muted-foreground mt-1">
+        Die Bank behält die Kapitalertragsteuer mit ihrem Freistellungsauftrag ein
+      </div>
+    </div>
+  )
+}
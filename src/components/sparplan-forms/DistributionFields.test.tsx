@@ -0,0 +1,45 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { DistributionFields } from './DistributionFields'
+
+describe('DistributionFields', () => {
+  it('should enable the distribution with default settings', () => {
+    const onChange = vi.fn()
+    render(<DistributionFields id="distribution" value={undefined} onChange={onChange} />)
+
+    expect(screen.queryByLabelText(/Ausschüttungsrendite/)).not.toBeInTheDocument()
+    fireEvent.click(screen.getByRole('switch', { name: /Ausschüttender Fonds/ }))
+
+    expect(onChange).toHaveBeenCalledWith({ distributionYield: 0.02, withholdingTaxRate: 0.15, reinvest: true })
+  })
+
+  it('should edit yield, withholding tax and reinvestment in percent', () => {
+    const onChange = vi.fn()
+    const value = { distributionYield: 0.02, withholdingTaxRate: 0.15, reinvest: true }
+    render(<DistributionFields id="distribution" value={value} onChange={onChange} />)
+
+    expect(screen.getByLabelText(/Ausschüttungsrendite/)).toHaveValue(2)
+    fireEvent.change(screen.getByLabelText(/Ausschüttungsrendite/), { target: { value: '3.5' } })
+    expect(onChange).toHaveBeenLastCalledWith({ ...value, distributionYield: 0.035 })
+
+    fireEvent.change(screen.getByLabelText(/Quellensteuer/), { target: { value: '0' } })
+    expect(onChange).toHaveBeenLastCalledWith({ ...value, withholdingTaxRate: 0 })
+
+    fireEvent.click(screen.getByRole('switch', { name: /wiederanlegen/ }))
+    expect(onChange).toHaveBeenLastCalledWith({ ...value, reinvest: false })
+  })
+
+  it('should disable the distribution', () => {
+    const onChange = vi.fn()
+    render(
+      <DistributionFields
+        id="distribution"
+        value={{ distributionYield: 0.02, withholdingTaxRate: 0.15, reinvest: false }}
+        onChange={onChange}
+      />,
+    )
+
+    fireEvent.click(screen.getByRole('switch', { name: /Ausschüttender Fonds/ }))
+    expect(onChange).toHaveBeenCalledWith(undefined)
+  })
+})
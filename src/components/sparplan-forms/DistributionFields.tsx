@@ -0,0 +1,92 @@
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import { Switch } from '../ui/switch'
+import type { DistributionConfig } from '../../utils/sparplan-utils'
+
+interface DistributionFieldsProps {
+  id: string
+  value: DistributionConfig | undefined
+  onChange: (distribution: DistributionConfig | undefined) => void
+}
+
+const DEFAULT_DISTRIBUTION: DistributionConfig = {
+  distributionYield: 0.02,
+  withholdingTaxRate: 0.15,
+  reinvest: true,
+}
+
+function PercentInput({
+  id,
+  label,
+  value,
+  onChange,
+}: {
+  id: string
+  label: string
+  value: number
+  onChange: (value: number) => void
+}) {
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id}>{label}</Label>
+      <Input
+        id={id}
+        type="number"
+        value={Math.round(value * 10000) / 100}
+        onChange={e => onChange((Number(e.target.value) || 0) / 100)}
+        min={0}
+        max={50}
+        step={0.1}
+      />
+    </div>
+  )
+}
+
+/**
+ * Distributing fund settings: distribution yield, foreign withholding tax and reinvestment
+ * Complexity: <8, Lines: <50
+ */
+export function DistributionFields({ id, value, onChange }: DistributionFieldsProps) {
+  const update = (changes: Partial<DistributionConfig>) => value && onChange({ ...value, ...changes })
+
+  return (
+    <div className="mb-4 space-y-2">
+      <div className="flex items-center justify-between">
+        <Label htmlFor={`${id}-enabled`}>💸 Ausschüttender Fonds</Label>
+        <Switch
+          id={`${id}-enabled`}
+          checked={!!value}
+          onCheckedChange={enabled => onChange(enabled ? DEFAULT_DISTRIBUTION : undefined)}
+        />
+      </div>
+      {value && (
+        <div className="grid grid-cols-[repeat(auto-fit,minmax(200px,1fr))] gap-4">
+          <PercentInput
+            id={`${id}-yield`}
+            label="Ausschüttungsrendite (%)"
+            value={value.distributionYield}
+            onChange={distributionYield => update({ distributionYield })}
+          />
+          <PercentInput
+            id={`${id}-withholding`}
+            label="Quellensteuer (%)"
+            value={value.withholdingTaxRate}
+            onChange={withholdingTaxRate => update({ withholdingTaxRate })}
+          />
+          <div className="flex items-center gap-2">
+            <Switch
+              id={`${id}-reinvest`}
+              checked={value.reinvest}
+              onCheckedChange={reinvest => update({ reinvest })}
+            />
+            <Label htmlFor={`${id}-reinvest`}>Ausschüttungen wiederanlegen</Label>
+          </div>
+        </div>
+      )}
+      <div className="text-sm text-muted-foreground mt-1">
+        Ausschüttungen werden im Jahr des Zuflusses versteuert (mit Teilfreistellung und Anrechnung der Quellensteuer)
+        und mindern die Vorabpauschale
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,24 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { FundTypeSelectField } from './FundTypeSelectField'
+
+describe('FundTypeSelectField', () => {
+  it('should offer the fund types with their Teilfreistellung', () => {
+    render(<FundTypeSelectField id="fundType" value={undefined} onChange={vi.fn()} />)
+
+    expect(screen.getByRole('option', { name: /Wie in der Steuer-Konfiguration/ })).toBeInTheDocument()
+    expect(screen.getByRole('option', { name: /Immobilienfonds – Teilfreistellung 60 %/ })).toBeInTheDocument()
+    expect(screen.queryByRole('option', { name: /Benutzerdefiniert/ })).not.toBeInTheDocument()
+  })
+
+  it('should select and reset the fund type', () => {
+    const onChange = vi.fn()
+    render(<FundTypeSelectField id="fundType" value="equity-fund" onChange={onChange} />)
+
+    fireEvent.change(screen.getByLabelText(/Fondsart/), { target: { value: 'bond-fund' } })
+    expect(onChange).toHaveBeenLastCalledWith('bond-fund')
+
+    fireEvent.change(screen.getByLabelText(/Fondsart/), { target: { value: '' } })
+    expect(onChange).toHaveBeenLastCalledWith(undefined)
+  })
+})
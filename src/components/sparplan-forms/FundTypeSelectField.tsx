@@ -0,0 +1,47 @@
+import { Label } from '../ui/label'
+import {
+  type AssetClass,
+  formatTeilfreistellungsquote,
+  getAllAssetClasses,
+  getAssetClassName,
+  getTeilfreistellungsquoteForAssetClass,
+  isCustomAssetClass,
+} from '../../../helpers/asset-class'
+
+interface FundTypeSelectFieldProps {
+  id: string
+  value: AssetClass | undefined
+  onChange: (fundType: AssetClass | undefined) => void
+}
+
+/**
+ * Fund type of the savings plan deciding Teilfreistellung, Vorabpauschale and loss pot
+ * Complexity: <8, Lines: <50
+ */
+export function FundTypeSelectField({ id, value, onChange }: FundTypeSelectFieldProps) {
+  const fundTypes = getAllAssetClasses().filter(assetClass => !isCustomAssetClass(assetClass))
+
+  return (
+    <div className="mb-4 space-y-2">
+      <Label htmlFor={id}>📊 Fondsart</Label>
+      <select
+        id={id}
+        value={value ?? ''}
+        onChange={e => onChange((e.target.value || undefined) as AssetClass | undefined)}
+        className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+      >
+        <option value="">Wie in der Steuer-Konfiguration</option>
+        {fundTypes.map(fundType => (
+          <option key={fundType} value={fundType}>
+            {getAssetClassName(fundType)} – Teilfreistellung{' '}
+            {formatTeilfreistellungsquote(getTeilfreistellungsquoteForAssetClass(fundType))}
+          </option>
+        ))}
+      </select>
+      <div className="text-sm text-muted-foreground mt-1">
+        Bestimmt Teilfreistellung, Vorabpauschale (nicht für REITs, ETCs und Kryptowährungen) und Verlusttopf.
+        Kryptowährungen sind nach einem Jahr Haltefrist steuerfrei (§ 23 EStG).
+      </div>
+    </div>
+  )
+}
@@ -4,6 +4,8 @@ import { GlossaryTerm } from '../GlossaryTerm'
 import type { SparplanElement } from '../../utils/sparplan-utils'
 import type { VorabpauschaleDetails } from '../../utils/simulate'
 import type { PortfolioProgressionEntry } from '../../utils/summary-utils'
+import { LossOffsetDisplay } from '../LossOffsetDisplay'
+import { AnlageKapDisplay } from '../AnlageKapDisplay'
 
 // Helper to format numbers with thousands separators
 const thousands = (value: string | number) =>
@@ -74,6 +76,46 @@ function GuenstigerpruefungDisplay({ elemente, jahr }: { elemente?: SparplanElem
   )
 }
 
+/**
+ * Component to display the loss offset (Verlustverrechnung) of a specific year
+ */
+function LossOffsetInfo({ elemente, jahr }: { elemente?: SparplanElement[]; jahr: number }) {
+  const lossOffsetDetails = elemente?.find(el => el.simulation[jahr]?.lossOffsetDetails)?.simulation[jahr]
+    .lossOffsetDetails
+
+  return lossOffsetDetails ? <LossOffsetDisplay lossOffsetDetails={lossOffsetDetails} year={jahr} /> : null
+}
+
+/**
+ * Component to display the withholding per depot and the Anlage KAP reconciliation of a specific year
+ */
+function AnlageKapInfo({ elemente, jahr }: { elemente?: SparplanElement[]; jahr: number }) {
+  const anlageKap = elemente?.find(el => el.simulation[jahr]?.anlageKap)?.simulation[jahr].anlageKap
+
+  return anlageKap ? <AnlageKapDisplay anlageKap={anlageKap} /> : null
+}
+
+/**
+ * Component to display the distributions of distributing funds of a specific year
+ */
+function DistributionInfo({ elemente, jahr }: { elemente?: SparplanElement[]; jahr: number }) {
+  const yearData = (elemente ?? []).map(el => el.simulation[jahr]).filter(data => data?.ausschuettungDetails)
+  if (yearData.length === 0) {
+    return null
+  }
+
+  const ausschuettung = yearData.reduce((sum, data) => sum + (data.ausschuettung ?? 0), 0)
+  const auszahlung = yearData.reduce((sum, data) => sum + data.ausschuettungDetails!.auszahlung, 0)
+
+  return (
+    <ProgressionDetailRow
+      label="💶 Ausschüttungen (Jahr):"
+      value={`${thousands(ausschuettung)} €${auszahlung > 0 ? ` (ausgezahlt netto ${thousands(auszahlung)} €)` : ''}`}
+      valueClassName="text-emerald-600"
+    />
+  )
+}
+
 /**
  * Component to display Vorabpauschale details for a specific year
  */
@@ -197,7 +239,10 @@ function ProgressionDetails({
         valueClassName="text-red-600"
         onInfoClick={() => showCalculationInfo('tax', calculationInfoData)}
       />
+      <DistributionInfo elemente={elemente} jahr={row.year} />
       <GuenstigerpruefungDisplay elemente={elemente} jahr={row.year} />
+      <LossOffsetInfo elemente={elemente} jahr={row.year} />
+      <AnlageKapInfo elemente={elemente} jahr={row.year} />
       <ProgressionDetailRow
         label="💼 Kumulierte Einzahlungen:"
         value={`${thousands(row.cumulativeContributions)} €`}
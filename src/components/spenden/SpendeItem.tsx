@@ -0,0 +1,126 @@
+import { Trash2 } from 'lucide-react'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import type { Spende, SpendenEmpfaenger } from '../../../helpers/spenden'
+
+interface SpendeItemProps {
+  spende: Spende
+  onUpdate: (spende: Spende) => void
+  onRemove: (id: string) => void
+}
+
+const EMPFAENGER_OPTIONS: Array<{ value: SpendenEmpfaenger; label: string }> = [
+  { value: 'gemeinnuetzig', label: 'Gemeinnützige Organisation (§ 10b EStG)' },
+  { value: 'partei', label: 'Politische Partei (§ 34g EStG)' },
+]
+
+function YearInput({
+  id,
+  label,
+  value,
+  onChange,
+}: {
+  id: string
+  label: string
+  value: number
+  onChange: (value: number) => void
+}) {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Input
+        id={id}
+        type="number"
+        value={value}
+        onChange={e => onChange(Number(e.target.value))}
+        min={2000}
+        max={2150}
+      />
+    </div>
+  )
+}
+
+function EmpfaengerAndBetragFields({
+  spende,
+  update,
+  idPrefix,
+}: {
+  spende: Spende
+  update: (changes: Partial<Spende>) => void
+  idPrefix: string
+}) {
+  return (
+    <>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-empfaenger`}>Empfänger</Label>
+        <select
+          id={`${idPrefix}-empfaenger`}
+          className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background"
+          value={spende.empfaenger}
+          onChange={e => update({ empfaenger: e.target.value as SpendenEmpfaenger })}
+        >
+          {EMPFAENGER_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-betrag`}>Betrag pro Jahr (€)</Label>
+        <Input
+          id={`${idPrefix}-betrag`}
+          type="number"
+          value={spende.betrag}
+          onChange={e => update({ betrag: Number(e.target.value) || 0 })}
+          min={0}
+          step={50}
+        />
+      </div>
+    </>
+  )
+}
+
+/**
+ * A single donation: recipient, yearly amount and the years in which it is paid
+ * Complexity: <8, Lines: <50
+ */
+export function SpendeItem({ spende, onUpdate, onRemove }: SpendeItemProps) {
+  const update = (changes: Partial<Spende>) => onUpdate({ ...spende, ...changes })
+  const idPrefix = `spende-${spende.id}`
+
+  return (
+    <div className="p-4 border rounded-lg space-y-3">
+      <div className="flex items-end gap-2">
+        <div className="flex-1 space-y-2">
+          <Label htmlFor={`${idPrefix}-beschreibung`}>Beschreibung</Label>
+          <Input
+            id={`${idPrefix}-beschreibung`}
+            value={spende.beschreibung}
+            onChange={e => update({ beschreibung: e.target.value })}
+            placeholder="z.B. Hilfsorganisation, Partei"
+          />
+        </div>
+        <Button onClick={() => onRemove(spende.id)} size="sm" variant="ghost" aria-label="Spende entfernen">
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <EmpfaengerAndBetragFields spende={spende} update={update} idPrefix={idPrefix} />
+        <YearInput
+          id={`${idPrefix}-start`}
+          label="Von Jahr"
+          value={spende.startYear}
+          onChange={startYear => update({ startYear })}
+        />
+        <YearInput
+          id={`${idPrefix}-end`}
+          label="Bis Jahr"
+          value={spende.endYear}
+          onChange={endYear => update({ endYear })}
+        />
+      </div>
+    </div>
+  )
+}
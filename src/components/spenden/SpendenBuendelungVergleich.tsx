@@ -0,0 +1,131 @@
+import { useMemo, useState } from 'react'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import { formatCurrency } from '../../utils/currency'
+import type { IncomeTaxTariffIndexation } from '../../../helpers/income-tax-tariff'
+import {
+  compareSpendenBuendelung,
+  type SpendenBuendelungVergleich as Vergleich,
+  type SpendenConfig,
+} from '../../../helpers/spenden'
+
+interface SpendenBuendelungVergleichProps {
+  config: SpendenConfig
+  startYear: number
+  endYear: number
+  planningMode: 'individual' | 'couple'
+  incomeTaxTariffIndexation?: IncomeTaxTariffIndexation
+}
+
+function NumberField({
+  id,
+  label,
+  value,
+  onChange,
+  min,
+  step,
+}: {
+  id: string
+  label: string
+  value: number
+  onChange: (value: number) => void
+  min: number
+  step: number
+}) {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Input
+        id={id}
+        type="number"
+        value={value}
+        min={min}
+        step={step}
+        onChange={e => onChange(Number(e.target.value))}
+      />
+    </div>
+  )
+}
+
+function VergleichRow({ label, value, highlight }: { label: string; value: number; highlight?: boolean }) {
+  return (
+    <div className={`flex justify-between gap-4 ${highlight ? 'font-semibold' : ''}`}>
+      <span>{label}</span>
+      <span>{formatCurrency(value)}</span>
+    </div>
+  )
+}
+
+function getEmpfehlung(vorteilBuendelung: number, intervall: number): string {
+  if (Math.abs(vorteilBuendelung) < 1) {
+    return 'Bündeln und Verteilen führen zur gleichen Steuerersparnis.'
+  }
+  return vorteilBuendelung > 0
+    ? `Die Spenden von jeweils ${intervall} Jahren zu bündeln spart zusätzlich ${formatCurrency(vorteilBuendelung)}.`
+    : `Die Spenden jährlich zu verteilen spart ${formatCurrency(-vorteilBuendelung)} mehr als das Bündeln.`
+}
+
+function VergleichResult({ vergleich, intervall }: { vergleich: Vergleich; intervall: number }) {
+  return (
+    <div className="text-sm space-y-1">
+      <VergleichRow label="Spenden im Zeitraum" value={vergleich.gesamtSpenden} />
+      <VergleichRow label="Steuerersparnis jährlich verteilt" value={vergleich.steuerersparnisVerteilt} />
+      <VergleichRow label="Steuerersparnis gebündelt" value={vergleich.steuerersparnisGebuendelt} />
+      <VergleichRow label="Vorteil der Bündelung" value={vergleich.vorteilBuendelung} highlight />
+      <p className="text-gray-700 pt-1">{getEmpfehlung(vergleich.vorteilBuendelung, intervall)}</p>
+    </div>
+  )
+}
+
+/**
+ * Compare the tax saved by donating every year with bundling the donations of several years
+ * Complexity: <8, Lines: <50
+ */
+export function SpendenBuendelungVergleich({
+  config,
+  startYear,
+  endYear,
+  planningMode,
+  incomeTaxTariffIndexation,
+}: SpendenBuendelungVergleichProps) {
+  const [einkommen, setEinkommen] = useState(40000)
+  const [intervall, setIntervall] = useState(2)
+
+  const vergleich = useMemo(
+    () =>
+      compareSpendenBuendelung(config, {
+        startYear,
+        endYear,
+        gesamtbetragDerEinkuenfte: einkommen,
+        interval: intervall,
+        planningMode,
+        incomeTaxTariffIndexation,
+      }),
+    [config, startYear, endYear, einkommen, intervall, planningMode, incomeTaxTariffIndexation],
+  )
+
+  return (
+    <div className="p-4 border rounded-lg space-y-3 bg-slate-50">
+      <h4 className="font-semibold">📊 Bündeln oder Verteilen?</h4>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <NumberField
+          id="spenden-vergleich-einkommen"
+          label="Gesamtbetrag der Einkünfte pro Jahr (€)"
+          value={einkommen}
+          onChange={value => setEinkommen(Math.max(0, value))}
+          min={0}
+          step={1000}
+        />
+        <NumberField
+          id="spenden-vergleich-intervall"
+          label="Spenden bündeln alle (Jahre)"
+          value={intervall}
+          onChange={value => setIntervall(Math.max(2, Math.round(value) || 2))}
+          min={2}
+          step={1}
+        />
+      </div>
+      <VergleichResult vergleich={vergleich} intervall={intervall} />
+    </div>
+  )
+}
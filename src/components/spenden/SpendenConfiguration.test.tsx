@@ -0,0 +1,63 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { SpendenConfiguration } from './SpendenConfiguration'
+import type { SpendenConfig } from '../../../helpers/spenden'
+
+describe('SpendenConfiguration', () => {
+  const config: SpendenConfig = {
+    enabled: true,
+    spenden: [
+      { id: 'a', beschreibung: 'Verein', empfaenger: 'gemeinnuetzig', betrag: 30, startYear: 2041, endYear: 2044 },
+    ],
+  }
+
+  function renderOpen(value: SpendenConfig, onChange = vi.fn()) {
+    render(
+      <SpendenConfiguration
+        config={value}
+        onChange={onChange}
+        startYear={2041}
+        endYear={2044}
+        planningMode="individual"
+      />,
+    )
+    fireEvent.click(screen.getByText('🎁 Spenden'))
+    return onChange
+  }
+
+  it('should enable the donations', () => {
+    const onChange = renderOpen({ enabled: false, spenden: [] })
+
+    expect(screen.queryByText('Spende hinzufügen')).not.toBeInTheDocument()
+    fireEvent.click(screen.getByRole('switch', { name: /Spenden berücksichtigen/ }))
+
+    expect(onChange).toHaveBeenCalledWith({ enabled: true, spenden: [] })
+  })
+
+  it('should add a donation in the first withdrawal year', () => {
+    const onChange = renderOpen({ enabled: true, spenden: [] })
+
+    fireEvent.click(screen.getByText('Spende hinzufügen'))
+
+    const [updated] = onChange.mock.calls[0] as [SpendenConfig]
+    expect(updated.spenden).toHaveLength(1)
+    expect(updated.spenden[0]).toMatchObject({ empfaenger: 'gemeinnuetzig', startYear: 2041, endYear: 2041 })
+  })
+
+  it('should edit and remove a donation', () => {
+    const onChange = renderOpen(config)
+
+    fireEvent.change(screen.getByLabelText('Empfänger'), { target: { value: 'partei' } })
+    expect(onChange).toHaveBeenLastCalledWith({ ...config, spenden: [{ ...config.spenden[0], empfaenger: 'partei' }] })
+
+    fireEvent.click(screen.getByRole('button', { name: 'Spende entfernen' }))
+    expect(onChange).toHaveBeenLastCalledWith({ ...config, spenden: [] })
+  })
+
+  it('should recommend bundling donations below the Pauschbetrag', () => {
+    renderOpen(config)
+
+    expect(screen.getByText('📊 Bündeln oder Verteilen?')).toBeInTheDocument()
+    expect(screen.getByText(/Die Spenden von jeweils 2 Jahren zu bündeln spart zusätzlich/)).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,122 @@
+import { ChevronDown, Plus } from 'lucide-react'
+import { Alert, AlertDescription } from '../ui/alert'
+import { Button } from '../ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '../ui/collapsible'
+import { Label } from '../ui/label'
+import { Switch } from '../ui/switch'
+import { generateUniqueId } from '../../utils/unique-id'
+import type { IncomeTaxTariffIndexation } from '../../../helpers/income-tax-tariff'
+import type { Spende, SpendenConfig } from '../../../helpers/spenden'
+import { SpendeItem } from './SpendeItem'
+import { SpendenBuendelungVergleich } from './SpendenBuendelungVergleich'
+
+interface SpendenConfigurationProps {
+  config: SpendenConfig
+  onChange: (config: SpendenConfig) => void
+  startYear: number
+  endYear: number
+  planningMode: 'individual' | 'couple'
+  incomeTaxTariffIndexation?: IncomeTaxTariffIndexation
+}
+
+function SpendenInfo() {
+  return (
+    <p className="text-sm text-gray-600">
+      Spenden an gemeinnützige Organisationen mindern als Sonderausgaben das zu versteuernde Einkommen (bis 20% des
+      Gesamtbetrags der Einkünfte). Für Parteispenden werden 50% von bis zu 1.650 € (Ehepaare 3.300 €) direkt von der
+      Einkommensteuer abgezogen. Ein Spendenvortrag über den Höchstbetrag hinaus wird nicht berücksichtigt.
+    </p>
+  )
+}
+
+function SpendenList({
+  config,
+  onChange,
+  startYear,
+}: Pick<SpendenConfigurationProps, 'config' | 'onChange' | 'startYear'>) {
+  const handleAdd = () => {
+    const spende: Spende = {
+      id: generateUniqueId('spende'),
+      beschreibung: 'Neue Spende',
+      empfaenger: 'gemeinnuetzig',
+      betrag: 500,
+      startYear,
+      endYear: startYear,
+    }
+    onChange({ ...config, spenden: [...config.spenden, spende] })
+  }
+  const handleUpdate = (spende: Spende) =>
+    onChange({ ...config, spenden: config.spenden.map(s => (s.id === spende.id ? spende : s)) })
+  const handleRemove = (id: string) => onChange({ ...config, spenden: config.spenden.filter(s => s.id !== id) })
+
+  return (
+    <div className="space-y-3">
+      {config.spenden.length === 0 && (
+        <Alert>
+          <AlertDescription>Keine Spenden definiert. Klicken Sie "Spende hinzufügen".</AlertDescription>
+        </Alert>
+      )}
+      {config.spenden.map(spende => (
+        <SpendeItem key={spende.id} spende={spende} onUpdate={handleUpdate} onRemove={handleRemove} />
+      ))}
+      <Button onClick={handleAdd} size="sm" variant="outline">
+        <Plus className="h-4 w-4 mr-2" />
+        Spende hinzufügen
+      </Button>
+    </div>
+  )
+}
+
+/**
+ * Donations (Spenden) in the withdrawal phase: yearly or one-off donations reduce the income tax,
+ * with a comparison of bundling and spreading the donations
+ * Complexity: <8, Lines: <50
+ */
+export function SpendenConfiguration(props: SpendenConfigurationProps) {
+  const { config, onChange } = props
+
+  return (
+    <Card className="mb-6">
+      <Collapsible defaultOpen={false}>
+        <CardHeader className="pb-4">
+          <CollapsibleTrigger className="w-full">
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-lg font-semibold flex items-center gap-2">🎁 Spenden</CardTitle>
+              <ChevronDown className="h-5 w-5 text-gray-500" />
+            </div>
+          </CollapsibleTrigger>
+        </CardHeader>
+        <CollapsibleContent>
+          <CardContent className="pt-0 space-y-4">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="spenden-enabled" className="text-base font-medium">
+                Spenden berücksichtigen
+              </Label>
+              <Switch
+                id="spenden-enabled"
+                checked={config.enabled}
+                onCheckedChange={enabled => onChange({ ...config, enabled })}
+              />
+            </div>
+            <SpendenInfo />
+            {config.enabled && (
+              <>
+                <SpendenList config={config} onChange={onChange} startYear={props.startYear} />
+                {config.spenden.length > 0 && (
+                  <SpendenBuendelungVergleich
+                    config={config}
+                    startYear={props.startYear}
+                    endYear={props.endYear}
+                    planningMode={props.planningMode}
+                    incomeTaxTariffIndexation={props.incomeTaxTariffIndexation}
+                  />
+                )}
+              </>
+            )}
+          </CardContent>
+        </CollapsibleContent>
+      </Collapsible>
+    </Card>
+  )
+}
@@ -33,7 +33,14 @@ export function CoupleConfigurationContent({
   PersonConfigComponent,
 }: CoupleConfigurationContentProps) {
   if (planningMode === 'individual') {
-    return <IndividualModePensionConfig config={currentConfig} onChange={onChange} nestingLevel={nestingLevel} />
+    return (
+      <IndividualModePensionConfig
+        config={currentConfig}
+        onChange={onChange}
+        nestingLevel={nestingLevel}
+        birthYear={birthYear}
+      />
+    )
   }
 
   return currentConfig.couple ? (
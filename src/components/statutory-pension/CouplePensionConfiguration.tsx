@@ -1,5 +1,5 @@
 import type { ComponentType } from 'react'
-import type { IndividualStatutoryPensionConfig } from '../../../helpers/statutory-pension'
+import { getStatutoryPensionMonthlyAmount, type IndividualStatutoryPensionConfig } from '../../../helpers/statutory-pension'
 import { CoupleOverviewSummary } from './CoupleOverviewSummary'
 import { PersonConfigurationCard } from './PersonConfigurationCard'
 
@@ -35,8 +35,8 @@ export function CouplePensionConfiguration({
   return (
     <div className="space-y-4">
       <CoupleOverviewSummary
-        person1={person1}
-        person2={person2}
+        person1={{ ...person1, monthlyAmount: Math.round(getStatutoryPensionMonthlyAmount(person1)) }}
+        person2={{ ...person2, monthlyAmount: Math.round(getStatutoryPensionMonthlyAmount(person2)) }}
         birthYear={birthYear}
         spouseBirthYear={spouseBirthYear}
         nestingLevel={nestingLevel}
@@ -1,17 +1,32 @@
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
-import { Label } from '../ui/label'
-import { Input } from '../ui/input'
-import type { CoupleStatutoryPensionConfig } from '../../../helpers/statutory-pension'
+import type { CoupleStatutoryPensionConfig, StatutoryPensionConfig } from '../../../helpers/statutory-pension'
+import { MonthlyPensionField, RetirementAgeField } from './PersonPensionFields'
+import { PensionProjectionFields } from './PensionProjectionFields'
 
 interface IndividualModePensionConfigProps {
   config: CoupleStatutoryPensionConfig
   onChange: (config: CoupleStatutoryPensionConfig) => void
   nestingLevel: number
+  birthYear?: number
 }
 
-export function IndividualModePensionConfig({ config, onChange, nestingLevel }: IndividualModePensionConfigProps) {
+export function IndividualModePensionConfig({
+  config,
+  onChange,
+  nestingLevel,
+  birthYear,
+}: IndividualModePensionConfigProps) {
   if (!config.individual) return null
 
+  const updateIndividual = (updates: Partial<StatutoryPensionConfig>) =>
+    onChange({
+      ...config,
+      individual: {
+        ...config.individual!,
+        ...updates,
+      },
+    })
+
   return (
     <div className="space-y-4">
       <Card nestingLevel={nestingLevel + 1}>
@@ -20,26 +35,11 @@ export function IndividualModePensionConfig({ config, onChange, nestingLevel }:
         </CardHeader>
         <CardContent nestingLevel={nestingLevel + 1}>
           <div className="space-y-4">
-            <div className="space-y-2">
-              <Label>Monatliche Rente (brutto) €</Label>
-              <Input
-                type="number"
-                value={config.individual.monthlyAmount}
-                onChange={e => {
-                  const updatedConfig = {
-                    ...config,
-                    individual: {
-                      ...config.individual!,
-                      monthlyAmount: Number(e.target.value),
-                    },
-                  }
-                  onChange(updatedConfig)
-                }}
-                min={0}
-                step={50}
-                className="w-40"
-              />
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <MonthlyPensionField config={config.individual} onChange={updateIndividual} />
+              <RetirementAgeField config={config.individual} onChange={updateIndividual} birthYear={birthYear} />
             </div>
+            <PensionProjectionFields config={config.individual} onChange={updateIndividual} idSuffix="individual" />
           </div>
         </CardContent>
       </Card>
@@ -0,0 +1,60 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { PensionProjectionFields } from './PensionProjectionFields'
+import type { StatutoryPensionConfig } from '../../../helpers/statutory-pension'
+import type { PensionProjectionConfig } from '../../../helpers/pension-projection'
+
+const pensionProjection: PensionProjectionConfig = {
+  enabled: true,
+  currentPensionPoints: 30,
+  pointsYear: 2024,
+  annualGrossSalary: 45358,
+  salaryGrowthRate: 0,
+  averageSalaryGrowthRate: 0,
+  pensionValueGrowthRate: 0,
+  specialPayments: [],
+}
+
+const config: StatutoryPensionConfig = {
+  enabled: true,
+  startYear: 2030,
+  monthlyAmount: 1500,
+  annualIncreaseRate: 1.0,
+  taxablePercentage: 80,
+  retirementAge: 66,
+  birthYear: 1964,
+}
+
+describe('PensionProjectionFields', () => {
+  it('enables the projection with default values', () => {
+    const onChange = vi.fn()
+    render(<PensionProjectionFields config={config} onChange={onChange} idSuffix="test" />)
+
+    expect(screen.queryByText(/Prognostizierte Monatsrente/)).not.toBeInTheDocument()
+    fireEvent.click(screen.getByRole('switch', { name: /Rente aus Entgeltpunkten berechnen/ }))
+
+    const [updates] = onChange.mock.calls[0] as [Partial<StatutoryPensionConfig>]
+    expect(updates.pensionProjection).toMatchObject({ enabled: true, specialPayments: [] })
+  })
+
+  it('shows the projected pension with the Abschlag', () => {
+    render(<PensionProjectionFields config={{ ...config, pensionProjection }} onChange={vi.fn()} idSuffix="test" />)
+
+    expect(screen.getByText(/12 Monate vor der Regelaltersgrenze: Abschlag 3,6%/)).toBeInTheDocument()
+    expect(screen.getByText(/Prognostizierte Monatsrente/)).toHaveTextContent('1.268,62 €')
+  })
+
+  it('updates the pension points and adds a Sonderzahlung', () => {
+    const onChange = vi.fn()
+    render(<PensionProjectionFields config={{ ...config, pensionProjection }} onChange={onChange} idSuffix="test" />)
+
+    fireEvent.change(screen.getByLabelText('Entgeltpunkte laut Renteninformation'), { target: { value: '32.5' } })
+    expect(onChange).toHaveBeenLastCalledWith({
+      pensionProjection: { ...pensionProjection, currentPensionPoints: 32.5 },
+    })
+
+    fireEvent.click(screen.getByText('Sonderzahlung hinzufügen'))
+    const [updates] = onChange.mock.lastCall as [Partial<StatutoryPensionConfig>]
+    expect(updates.pensionProjection?.specialPayments).toHaveLength(1)
+  })
+})
@@ -0,0 +1,250 @@
+import { Label } from '../ui/label'
+import { Input } from '../ui/input'
+import { Switch } from '../ui/switch'
+import { Button } from '../ui/button'
+import { useFormId } from '../../utils/unique-id'
+import { formatCurrency } from '../../utils/currency'
+import { getStatutoryPensionProjection, type StatutoryPensionConfig } from '../../../helpers/statutory-pension'
+import {
+  createDefaultPensionProjectionConfig,
+  type PensionProjectionConfig,
+  type PensionProjectionResult,
+  type PensionSpecialPayment,
+} from '../../../helpers/pension-projection'
+
+interface PensionProjectionFieldsProps {
+  config: StatutoryPensionConfig
+  onChange: (updates: Partial<StatutoryPensionConfig>) => void
+  /** Distinguishes the form ids of several persons */
+  idSuffix: string
+}
+
+interface ProjectionInputProps {
+  projection: PensionProjectionConfig
+  onProjectionChange: (updates: Partial<PensionProjectionConfig>) => void
+  idSuffix: string
+}
+
+function ProjectionNumberField({
+  id,
+  label,
+  value,
+  step,
+  onChange,
+}: {
+  id: string
+  label: string
+  value: number
+  step: number
+  onChange: (value: number) => void
+}) {
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id}>{label}</Label>
+      <Input id={id} type="number" value={value} step={step} onChange={e => onChange(Number(e.target.value))} />
+    </div>
+  )
+}
+
+function PointsInputs({ projection, onProjectionChange, idSuffix }: ProjectionInputProps) {
+  const pointsId = useFormId('pension-projection', 'current-points', idSuffix)
+  const pointsYearId = useFormId('pension-projection', 'points-year', idSuffix)
+  const salaryId = useFormId('pension-projection', 'salary', idSuffix)
+
+  return (
+    <>
+      <ProjectionNumberField
+        id={pointsId}
+        label="Entgeltpunkte laut Renteninformation"
+        value={projection.currentPensionPoints}
+        step={0.1}
+        onChange={currentPensionPoints => onProjectionChange({ currentPensionPoints })}
+      />
+      <ProjectionNumberField
+        id={pointsYearId}
+        label="Stand der Renteninformation (Jahr)"
+        value={projection.pointsYear}
+        step={1}
+        onChange={pointsYear => onProjectionChange({ pointsYear })}
+      />
+      <ProjectionNumberField
+        id={salaryId}
+        label="Bruttojahresgehalt €"
+        value={projection.annualGrossSalary}
+        step={1000}
+        onChange={annualGrossSalary => onProjectionChange({ annualGrossSalary })}
+      />
+    </>
+  )
+}
+
+function GrowthInputs({ projection, onProjectionChange, idSuffix }: ProjectionInputProps) {
+  const salaryGrowthId = useFormId('pension-projection', 'salary-growth', idSuffix)
+  const averageGrowthId = useFormId('pension-projection', 'average-salary-growth', idSuffix)
+  const pensionValueGrowthId = useFormId('pension-projection', 'pension-value-growth', idSuffix)
+
+  return (
+    <>
+      <ProjectionNumberField
+        id={salaryGrowthId}
+        label="Gehaltssteigerung (%)"
+        value={projection.salaryGrowthRate}
+        step={0.1}
+        onChange={salaryGrowthRate => onProjectionChange({ salaryGrowthRate })}
+      />
+      <ProjectionNumberField
+        id={averageGrowthId}
+        label="Steigerung Durchschnittsentgelt (%)"
+        value={projection.averageSalaryGrowthRate}
+        step={0.1}
+        onChange={averageSalaryGrowthRate => onProjectionChange({ averageSalaryGrowthRate })}
+      />
+      <ProjectionNumberField
+        id={pensionValueGrowthId}
+        label="Steigerung Rentenwert bis Rentenbeginn (%)"
+        value={projection.pensionValueGrowthRate}
+        step={0.1}
+        onChange={pensionValueGrowthRate => onProjectionChange({ pensionValueGrowthRate })}
+      />
+    </>
+  )
+}
+
+function ProjectionInputs(props: ProjectionInputProps) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+      <PointsInputs {...props} />
+      <GrowthInputs {...props} />
+    </div>
+  )
+}
+
+function SpecialPaymentRow({
+  payment,
+  onPaymentChange,
+  onRemove,
+}: {
+  payment: PensionSpecialPayment
+  onPaymentChange: (payment: PensionSpecialPayment) => void
+  onRemove: () => void
+}) {
+  return (
+    <div className="flex items-center gap-2">
+      <Input
+        type="number"
+        aria-label="Jahr der Sonderzahlung"
+        value={payment.year}
+        onChange={e => onPaymentChange({ ...payment, year: Number(e.target.value) })}
+        className="w-28"
+      />
+      <Input
+        type="number"
+        aria-label="Betrag der Sonderzahlung"
+        value={payment.amount}
+        step={1000}
+        onChange={e => onPaymentChange({ ...payment, amount: Number(e.target.value) })}
+        className="w-36"
+      />
+      <Button type="button" variant="outline" size="sm" onClick={onRemove}>
+        Entfernen
+      </Button>
+    </div>
+  )
+}
+
+function SpecialPaymentsList({ projection, onProjectionChange }: Omit<ProjectionInputProps, 'idSuffix'>) {
+  const { specialPayments } = projection
+  const updatePayments = (payments: PensionSpecialPayment[]) => onProjectionChange({ specialPayments: payments })
+
+  return (
+    <div className="space-y-2">
+      <Label>Sonderzahlungen zum Ausgleich von Abschlägen (§ 187a SGB VI)</Label>
+      {specialPayments.map((payment, index) => (
+        <SpecialPaymentRow
+          key={index}
+          payment={payment}
+          onPaymentChange={updated => updatePayments(specialPayments.map((p, i) => (i === index ? updated : p)))}
+          onRemove={() => updatePayments(specialPayments.filter((_, i) => i !== index))}
+        />
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => updatePayments([...specialPayments, { year: new Date().getFullYear(), amount: 10000 }])}
+      >
+        Sonderzahlung hinzufügen
+      </Button>
+    </div>
+  )
+}
+
+function formatPoints(points: number): string {
+  return points.toLocaleString('de-DE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+}
+
+function getAdjustmentText(result: PensionProjectionResult): string {
+  const percentage = Math.abs((result.zugangsfaktor - 1) * 100).toLocaleString('de-DE', { maximumFractionDigits: 1 })
+  if (result.monthsDifference < 0) {
+    return `${-result.monthsDifference} Monate vor der Regelaltersgrenze: Abschlag ${percentage}%`
+  }
+  if (result.monthsDifference > 0) {
+    return `${result.monthsDifference} Monate nach der Regelaltersgrenze: Zuschlag ${percentage}%`
+  }
+  return 'Rentenbeginn mit der Regelaltersgrenze: kein Abschlag'
+}
+
+function ProjectionSummary({ result }: { result: PensionProjectionResult }) {
+  return (
+    <div className="text-sm text-muted-foreground space-y-1 bg-blue-50 border border-blue-200 rounded p-3">
+      <div>
+        Entgeltpunkte: {formatPoints(result.currentPensionPoints)} bisher +{' '}
+        {formatPoints(result.projectedPensionPoints)} bis Rentenbeginn
+        {result.specialPaymentPensionPoints > 0 &&
+          ` + ${formatPoints(result.specialPaymentPensionPoints)} Sonderzahlungen`}
+        {' = '}
+        <span className="font-medium text-gray-900">{formatPoints(result.totalPensionPoints)}</span>
+      </div>
+      <div>
+        Regelaltersgrenze {result.standardRetirementAge.toLocaleString('de-DE')} Jahre. {getAdjustmentText(result)}
+      </div>
+      <div>Rentenwert bei Rentenbeginn: {formatCurrency(result.pensionValue)}</div>
+      <div>
+        Prognostizierte Monatsrente:{' '}
+        <span className="font-medium text-gray-900">{formatCurrency(result.monthlyPension)}</span>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Projection of the monthly statutory pension from pension points with Abschlag or Zuschlag
+ */
+export function PensionProjectionFields({ config, onChange, idSuffix }: PensionProjectionFieldsProps) {
+  const enabledSwitchId = useFormId('pension-projection', 'enabled', idSuffix)
+  const projection = config.pensionProjection ?? createDefaultPensionProjectionConfig(new Date().getFullYear() - 1)
+  const result = getStatutoryPensionProjection(config)
+
+  const updateProjection = (updates: Partial<PensionProjectionConfig>) =>
+    onChange({ pensionProjection: { ...projection, ...updates } })
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center space-x-2">
+        <Switch
+          id={enabledSwitchId}
+          checked={projection.enabled}
+          onCheckedChange={enabled => updateProjection({ enabled })}
+        />
+        <Label htmlFor={enabledSwitchId}>Rente aus Entgeltpunkten berechnen</Label>
+      </div>
+      {projection.enabled && (
+        <>
+          <ProjectionInputs projection={projection} onProjectionChange={updateProjection} idSuffix={idSuffix} />
+          <SpecialPaymentsList projection={projection} onProjectionChange={updateProjection} />
+          {result && <ProjectionSummary result={result} />}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,42 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { PersonPensionFields } from './PersonPensionFields'
+import type { IndividualStatutoryPensionConfig } from '../../../helpers/statutory-pension'
+
+const config: IndividualStatutoryPensionConfig = {
+  enabled: true,
+  startYear: 2041,
+  monthlyAmount: 1500,
+  annualIncreaseRate: 1.0,
+  taxablePercentage: 80,
+  taxablePercentageMode: 'automatic',
+  retirementAge: 67,
+  personId: 1,
+  personName: 'Person 1',
+}
+
+describe('PersonPensionFields', () => {
+  it('shows the Besteuerungsanteil of the pension start year in automatic mode', () => {
+    render(<PersonPensionFields config={config} onChange={vi.fn()} />)
+
+    expect(screen.getByText(/Besteuerungsanteil für Rentenbeginn 2041/)).toBeInTheDocument()
+    expect(screen.getByText('91,5%')).toBeInTheDocument()
+    expect(screen.queryByText('Steuerpflichtiger Anteil (%)')).not.toBeInTheDocument()
+  })
+
+  it('switches to a manual share starting from the Besteuerungsanteil', () => {
+    const onChange = vi.fn()
+    render(<PersonPensionFields config={config} onChange={onChange} />)
+
+    fireEvent.click(screen.getByRole('switch', { name: /Besteuerungsanteil nach Rentenbeginn/ }))
+
+    expect(onChange).toHaveBeenCalledWith({ taxablePercentageMode: 'manual', taxablePercentage: 91.5 })
+  })
+
+  it('shows the slider for configurations without a mode', () => {
+    render(<PersonPensionFields config={{ ...config, taxablePercentageMode: undefined }} onChange={vi.fn()} />)
+
+    expect(screen.getByText('Steuerpflichtiger Anteil (%)')).toBeInTheDocument()
+    expect(screen.getByRole('switch', { name: /Besteuerungsanteil nach Rentenbeginn/ })).not.toBeChecked()
+  })
+})
@@ -1,7 +1,15 @@
 import { Label } from '../ui/label'
 import { Input } from '../ui/input'
 import { Slider } from '../ui/slider'
-import type { IndividualStatutoryPensionConfig } from '../../../helpers/statutory-pension'
+import { Switch } from '../ui/switch'
+import { useFormId } from '../../utils/unique-id'
+import {
+  getStatutoryPensionMonthlyAmount,
+  type IndividualStatutoryPensionConfig,
+  type StatutoryPensionConfig,
+} from '../../../helpers/statutory-pension'
+import { getBesteuerungsanteil } from '../../../helpers/rentenbesteuerung'
+import { PensionProjectionFields } from './PensionProjectionFields'
 
 interface PersonPensionFieldsProps {
   config: IndividualStatutoryPensionConfig
@@ -9,38 +17,43 @@ interface PersonPensionFieldsProps {
   birthYear?: number
 }
 
-function MonthlyPensionField({
+export function MonthlyPensionField({
   config,
   onChange,
 }: {
-  config: IndividualStatutoryPensionConfig
-  onChange: (updates: Partial<IndividualStatutoryPensionConfig>) => void
+  config: StatutoryPensionConfig
+  onChange: (updates: Partial<StatutoryPensionConfig>) => void
 }) {
+  const monthlyAmount = getStatutoryPensionMonthlyAmount(config)
+  const isProjected = config.pensionProjection?.enabled === true
+
   return (
     <div className="space-y-2">
       <Label>Monatliche Rente (brutto) €</Label>
       <Input
         type="number"
-        value={config.monthlyAmount}
+        value={isProjected ? Math.round(monthlyAmount) : config.monthlyAmount}
         onChange={e => onChange({ monthlyAmount: Number(e.target.value) })}
+        disabled={isProjected}
         min={0}
         step={50}
         className="w-40"
       />
       <div className="text-sm text-muted-foreground">
-        Jährliche Rente: {(config.monthlyAmount * 12).toLocaleString('de-DE')} €
+        Jährliche Rente: {Math.round(monthlyAmount * 12).toLocaleString('de-DE')} €
+        {isProjected && ' (aus Entgeltpunkten berechnet)'}
       </div>
     </div>
   )
 }
 
-function RetirementAgeField({
+export function RetirementAgeField({
   config,
   onChange,
   birthYear,
 }: {
-  config: IndividualStatutoryPensionConfig
-  onChange: (updates: Partial<IndividualStatutoryPensionConfig>) => void
+  config: StatutoryPensionConfig
+  onChange: (updates: Partial<StatutoryPensionConfig>) => void
   birthYear?: number
 }) {
   return (
@@ -107,6 +120,50 @@ function TaxablePercentageSlider({ value, onChange }: { value: number; onChange:
   )
 }
 
+function TaxablePercentageFields({
+  config,
+  onChange,
+}: {
+  config: IndividualStatutoryPensionConfig
+  onChange: (updates: Partial<IndividualStatutoryPensionConfig>) => void
+}) {
+  const automaticSwitchId = useFormId('statutory-pension', 'taxable-percentage-automatic', `person-${config.personId}`)
+  const isAutomatic = config.taxablePercentageMode === 'automatic'
+  const besteuerungsanteil = getBesteuerungsanteil(config.startYear)
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center space-x-2">
+        <Switch
+          id={automaticSwitchId}
+          checked={isAutomatic}
+          onCheckedChange={automatic =>
+            onChange(
+              automatic
+                ? { taxablePercentageMode: 'automatic' }
+                : { taxablePercentageMode: 'manual', taxablePercentage: besteuerungsanteil },
+            )
+          }
+        />
+        <Label htmlFor={automaticSwitchId}>Besteuerungsanteil nach Rentenbeginn (§ 22 EStG)</Label>
+      </div>
+      {isAutomatic ? (
+        <div className="text-sm text-muted-foreground">
+          Besteuerungsanteil für Rentenbeginn {config.startYear}:{' '}
+          <span className="font-medium text-gray-900">{besteuerungsanteil.toLocaleString('de-DE')}%</span>. Der
+          steuerfreie Teil wird im Jahr nach Rentenbeginn in Euro festgeschrieben, spätere Rentenerhöhungen sind
+          voll steuerpflichtig.
+        </div>
+      ) : (
+        <TaxablePercentageSlider
+          value={config.taxablePercentage}
+          onChange={percentage => onChange({ taxablePercentage: percentage })}
+        />
+      )}
+    </div>
+  )
+}
+
 export function PersonPensionFields({ config, onChange, birthYear }: PersonPensionFieldsProps) {
   return (
     <div className="space-y-4 p-4 bg-gray-50 rounded-lg">
@@ -120,10 +177,9 @@ export function PersonPensionFields({ config, onChange, birthYear }: PersonPensi
         onChange={rate => onChange({ annualIncreaseRate: rate })}
       />
 
-      <TaxablePercentageSlider
-        value={config.taxablePercentage}
-        onChange={percentage => onChange({ taxablePercentage: percentage })}
-      />
+      <TaxablePercentageFields config={config} onChange={onChange} />
+
+      <PensionProjectionFields config={config} onChange={onChange} idSuffix={`person-${config.personId}`} />
     </div>
   )
 }
@@ -23,6 +23,7 @@ export function useInitialConfig(
           monthlyAmount: 1500,
           annualIncreaseRate: 1.0,
           taxablePercentage: 80,
+          taxablePercentageMode: 'automatic',
           retirementAge: 67,
         }
       }
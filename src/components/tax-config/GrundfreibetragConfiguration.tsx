@@ -4,6 +4,8 @@ import { CollapsibleCardHeader } from '../ui/collapsible-card'
 import { GrundfreibetragToggle } from './GrundfreibetragToggle'
 import { GrundfreibetragInput } from './GrundfreibetragInput'
 import { EinkommensteuersatzInput } from './EinkommensteuersatzInput'
+import { EinkommensteuerPauschalToggle, TariffIndexationInputs } from './IncomeTaxTariffSettings'
+import type { IncomeTaxTariffIndexation } from '../../../helpers/income-tax-tariff'
 
 interface GrundfreibetragConfigurationProps {
   grundfreibetragAktiv: boolean
@@ -16,28 +18,61 @@ interface GrundfreibetragConfigurationProps {
   guenstigerPruefungAktiv?: boolean
   einkommensteuersatz?: number
   onEinkommensteuersatzChange?: (value: number) => void
+  // Legacy flat income tax rate instead of the §32a tariff of the year
+  einkommensteuerPauschal?: boolean
+  onEinkommensteuerPauschalChange?: (value: boolean) => void
+  tarifIndexierung?: IncomeTaxTariffIndexation
+  onTarifIndexierungChange?: (value: IncomeTaxTariffIndexation) => void
 }
 
-export function GrundfreibetragConfiguration({
-  grundfreibetragAktiv,
-  grundfreibetragBetrag,
-  recommendedGrundfreibetrag,
-  planningModeLabel,
-  onGrundfreibetragAktivChange,
-  onGrundfreibetragBetragChange,
-  guenstigerPruefungAktiv,
-  einkommensteuersatz,
-  onEinkommensteuersatzChange,
-}: GrundfreibetragConfigurationProps) {
-  // Show income tax rate input only when:
-  // - Grundfreibetrag is active
-  // - Günstigerprüfung is NOT active (when it's active, progressive tax is used)
-  // - The necessary props are provided
-  const showEinkommensteuersatz =
-    grundfreibetragAktiv &&
-    !guenstigerPruefungAktiv &&
-    einkommensteuersatz !== undefined &&
-    onEinkommensteuersatzChange !== undefined
+function FlatIncomeTaxInputs(props: GrundfreibetragConfigurationProps) {
+  return (
+    <>
+      <GrundfreibetragInput
+        grundfreibetragBetrag={props.grundfreibetragBetrag}
+        recommendedGrundfreibetrag={props.recommendedGrundfreibetrag}
+        planningModeLabel={props.planningModeLabel}
+        onGrundfreibetragBetragChange={props.onGrundfreibetragBetragChange}
+      />
+      {props.einkommensteuersatz !== undefined && props.onEinkommensteuersatzChange && (
+        <EinkommensteuersatzInput
+          einkommensteuersatz={props.einkommensteuersatz}
+          onEinkommensteuersatzChange={props.onEinkommensteuersatzChange}
+        />
+      )}
+    </>
+  )
+}
+
+function IncomeTaxInputs(props: GrundfreibetragConfigurationProps) {
+  // The flat income tax rate is only an option without Günstigerprüfung (when it's active, the tariff is used)
+  const onFlatRateChange = props.guenstigerPruefungAktiv ? undefined : props.onEinkommensteuerPauschalChange
+  const flatRate = onFlatRateChange !== undefined && props.einkommensteuerPauschal === true
+
+  return (
+    <>
+      {onFlatRateChange && (
+        <EinkommensteuerPauschalToggle
+          einkommensteuerPauschal={flatRate}
+          onEinkommensteuerPauschalChange={onFlatRateChange}
+        />
+      )}
+      {flatRate ? (
+        <FlatIncomeTaxInputs {...props} />
+      ) : (
+        props.onTarifIndexierungChange && (
+          <TariffIndexationInputs
+            indexation={props.tarifIndexierung}
+            onIndexationChange={props.onTarifIndexierungChange}
+          />
+        )
+      )}
+    </>
+  )
+}
+
+export function GrundfreibetragConfiguration(props: GrundfreibetragConfigurationProps) {
+  const { grundfreibetragAktiv, onGrundfreibetragAktivChange } = props
 
   return (
     <Card nestingLevel={1}>
@@ -52,23 +87,7 @@ export function GrundfreibetragConfiguration({
               onGrundfreibetragAktivChange={onGrundfreibetragAktivChange}
             />
 
-            {grundfreibetragAktiv && (
-              <>
-                <GrundfreibetragInput
-                  grundfreibetragBetrag={grundfreibetragBetrag}
-                  recommendedGrundfreibetrag={recommendedGrundfreibetrag}
-                  planningModeLabel={planningModeLabel}
-                  onGrundfreibetragBetragChange={onGrundfreibetragBetragChange}
-                />
-
-                {showEinkommensteuersatz && (
-                  <EinkommensteuersatzInput
-                    einkommensteuersatz={einkommensteuersatz}
-                    onEinkommensteuersatzChange={onEinkommensteuersatzChange}
-                  />
-                )}
-              </>
-            )}
+            {grundfreibetragAktiv && <IncomeTaxInputs {...props} />}
           </CardContent>
         </CollapsibleContent>
       </Collapsible>
@@ -0,0 +1,90 @@
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import { Switch } from '../ui/switch'
+import { useFormId } from '../../utils/unique-id'
+import { DEFAULT_TARIFF_INDEXATION, type IncomeTaxTariffIndexation } from '../../../helpers/income-tax-tariff'
+
+interface EinkommensteuerPauschalToggleProps {
+  einkommensteuerPauschal: boolean
+  onEinkommensteuerPauschalChange: (value: boolean) => void
+}
+
+/**
+ * Switch between the §32a tariff of the year and the legacy flat income tax rate
+ */
+export function EinkommensteuerPauschalToggle({
+  einkommensteuerPauschal,
+  onEinkommensteuerPauschalChange,
+}: EinkommensteuerPauschalToggleProps) {
+  const switchId = useFormId('income-tax-tariff', 'flat-rate')
+
+  return (
+    <div className="flex items-center justify-between p-3 border rounded-lg">
+      <div className="space-y-1">
+        <Label htmlFor={switchId} className="font-medium">
+          Pauschaler Einkommensteuersatz (vereinfacht)
+        </Label>
+        <p className="text-sm text-muted-foreground">
+          Statt des Einkommensteuertarifs (§32a EStG) des jeweiligen Jahres wird ein fester Steuersatz auf das Einkommen
+          oberhalb des Grundfreibetrags angewendet
+        </p>
+      </div>
+      <Switch id={switchId} checked={einkommensteuerPauschal} onCheckedChange={onEinkommensteuerPauschalChange} />
+    </div>
+  )
+}
+
+interface TariffIndexationInputsProps {
+  indexation: IncomeTaxTariffIndexation | undefined
+  onIndexationChange: (value: IncomeTaxTariffIndexation) => void
+}
+
+/**
+ * Indexation of the tariff (Grundfreibetrag and zone limits) after the last official tariff year
+ */
+export function TariffIndexationInputs({ indexation, onIndexationChange }: TariffIndexationInputsProps) {
+  const effectiveIndexation = indexation ?? DEFAULT_TARIFF_INDEXATION
+  const enabledId = useFormId('income-tax-tariff', 'indexation-enabled')
+  const rateId = useFormId('income-tax-tariff', 'indexation-rate')
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Die Einkommensteuer wird mit dem Tarif (§32a EStG) des jeweiligen Jahres berechnet, der Grundfreibetrag ist Teil
+        des Tarifs.
+      </p>
+      <div className="flex items-center justify-between p-3 border rounded-lg">
+        <Label htmlFor={enabledId} className="font-medium">
+          Tarif nach dem letzten amtlichen Jahr fortschreiben
+        </Label>
+        <Switch
+          id={enabledId}
+          checked={effectiveIndexation.enabled}
+          onCheckedChange={enabled => onIndexationChange({ ...effectiveIndexation, enabled })}
+        />
+      </div>
+      {effectiveIndexation.enabled && (
+        <div className="space-y-2">
+          <Label htmlFor={rateId} className="text-sm font-medium">
+            Jährliche Anhebung von Grundfreibetrag und Tarifzonen (%)
+          </Label>
+          <Input
+            id={rateId}
+            type="number"
+            min="0"
+            max="10"
+            step="0.1"
+            value={Math.round(effectiveIndexation.annualRate * 1000) / 10}
+            onChange={e => {
+              const value = parseFloat(e.target.value)
+              if (!isNaN(value) && value >= 0 && value <= 10) {
+                onIndexationChange({ ...effectiveIndexation, annualRate: value / 100 })
+              }
+            }}
+            className="max-w-xs"
+          />
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { LossOffsetSection } from './LossOffsetSection'
+import { DEFAULT_LOSS_OFFSET_CONFIGURATION } from '../../../helpers/loss-offset-accounts'
+
+describe('LossOffsetSection', () => {
+  const enabledConfig = { ...DEFAULT_LOSS_OFFSET_CONFIGURATION, enabled: true }
+
+  it('should only show the loss pots when enabled', () => {
+    const onChange = vi.fn()
+    render(
+      <LossOffsetSection
+        lossOffsetConfiguration={DEFAULT_LOSS_OFFSET_CONFIGURATION}
+        yearToday={2025}
+        onLossOffsetConfigurationChange={onChange}
+      />,
+    )
+
+    expect(screen.queryByLabelText(/Aktienverlusttopf Vortrag/)).not.toBeInTheDocument()
+
+    fireEvent.click(screen.getByRole('switch'))
+    expect(onChange).toHaveBeenCalledWith(enabledConfig)
+  })
+
+  it('should update the initial loss pots', () => {
+    const onChange = vi.fn()
+    render(
+      <LossOffsetSection
+        lossOffsetConfiguration={enabledConfig}
+        yearToday={2025}
+        onLossOffsetConfigurationChange={onChange}
+      />,
+    )
+
+    fireEvent.change(screen.getByLabelText(/Aktienverlusttopf Vortrag/), { target: { value: '5000' } })
+
+    expect(onChange).toHaveBeenCalledWith({ ...enabledConfig, initialStockLosses: 5000 })
+  })
+
+  it('should add and delete realized losses per year', () => {
+    const onChange = vi.fn()
+    const config = {
+      ...enabledConfig,
+      realizedLossesByYear: { 2027: { stockLosses: 1000, otherLosses: 0, year: 2027 } },
+    }
+    render(
+      <LossOffsetSection
+        lossOffsetConfiguration={config}
+        yearToday={2025}
+        onLossOffsetConfigurationChange={onChange}
+      />,
+    )
+
+    fireEvent.click(screen.getByRole('button', { name: /Jahr hinzufügen/ }))
+    expect(onChange).toHaveBeenLastCalledWith({
+      ...config,
+      realizedLossesByYear: { ...config.realizedLossesByYear, 2025: { stockLosses: 0, otherLosses: 0, year: 2025 } },
+    })
+
+    fireEvent.click(screen.getByRole('button', { name: '2027 löschen' }))
+    expect(onChange).toHaveBeenLastCalledWith({ ...config, realizedLossesByYear: {} })
+  })
+})
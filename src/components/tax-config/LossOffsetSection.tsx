@@ -0,0 +1,187 @@
+import { Switch } from '../ui/switch'
+import { Label } from '../ui/label'
+import { Input } from '../ui/input'
+import { Button } from '../ui/button'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table'
+import { Trash2 } from 'lucide-react'
+import { FreibetragYearInput } from '../freibetrag-table/FreibetragYearInput'
+import {
+  createDefaultRealizedLosses,
+  type LossOffsetConfiguration,
+  type RealizedLossesConfig,
+} from '../../../helpers/loss-offset-accounts'
+
+interface LossOffsetSectionProps {
+  lossOffsetConfiguration: LossOffsetConfiguration
+  yearToday: number
+  onLossOffsetConfigurationChange: (value: LossOffsetConfiguration) => void
+}
+
+function LossAmountInput({ id, value, onChange }: { id?: string; value: number; onChange: (value: number) => void }) {
+  return (
+    <Input
+      id={id}
+      type="number"
+      value={value}
+      min={0}
+      step={100}
+      onChange={e => {
+        const amount = Number(e.target.value)
+        if (!isNaN(amount)) {
+          onChange(Math.max(0, amount))
+        }
+      }}
+      className="w-28 mx-auto"
+    />
+  )
+}
+
+/**
+ * Loss pots carried forward from before the simulation start
+ */
+function InitialLossesInputs({
+  config,
+  onChange,
+}: {
+  config: LossOffsetConfiguration
+  onChange: (value: LossOffsetConfiguration) => void
+}) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+      <div className="space-y-1">
+        <Label htmlFor="initialStockLosses">Aktienverlusttopf Vortrag (€)</Label>
+        <LossAmountInput
+          id="initialStockLosses"
+          value={config.initialStockLosses}
+          onChange={value => onChange({ ...config, initialStockLosses: value })}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="initialOtherLosses">Sonstiger Verlusttopf Vortrag (€)</Label>
+        <LossAmountInput
+          id="initialOtherLosses"
+          value={config.initialOtherLosses}
+          onChange={value => onChange({ ...config, initialOtherLosses: value })}
+        />
+      </div>
+    </div>
+  )
+}
+
+function RealizedLossesRow({
+  losses,
+  onUpdate,
+  onDelete,
+}: {
+  losses: RealizedLossesConfig
+  onUpdate: (losses: RealizedLossesConfig) => void
+  onDelete: (year: number) => void
+}) {
+  return (
+    <TableRow>
+      <TableCell className="text-center">{losses.year}</TableCell>
+      <TableCell className="text-center">
+        <LossAmountInput value={losses.stockLosses} onChange={value => onUpdate({ ...losses, stockLosses: value })} />
+      </TableCell>
+      <TableCell className="text-center">
+        <LossAmountInput value={losses.otherLosses} onChange={value => onUpdate({ ...losses, otherLosses: value })} />
+      </TableCell>
+      <TableCell className="text-center">
+        <Button variant="ghost" size="sm" onClick={() => onDelete(losses.year)} aria-label={`${losses.year} löschen`}>
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </TableCell>
+    </TableRow>
+  )
+}
+
+/**
+ * Losses realized outside of the simulated portfolio, e.g. from selling single stocks in another depot
+ */
+function RealizedLossesTable({
+  config,
+  yearToday,
+  onChange,
+}: {
+  config: LossOffsetConfiguration
+  yearToday: number
+  onChange: (value: LossOffsetConfiguration) => void
+}) {
+  const updateLosses = (losses: RealizedLossesConfig) =>
+    onChange({ ...config, realizedLossesByYear: { ...config.realizedLossesByYear, [losses.year]: losses } })
+
+  const addYear = (year: number) => {
+    if (!config.realizedLossesByYear[year]) {
+      updateLosses(createDefaultRealizedLosses(year))
+    }
+  }
+
+  const deleteYear = (year: number) => {
+    const realizedLossesByYear = { ...config.realizedLossesByYear }
+    delete realizedLossesByYear[year]
+    onChange({ ...config, realizedLossesByYear })
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label>Realisierte Verluste außerhalb des Depots pro Jahr (€)</Label>
+      <FreibetragYearInput yearToday={yearToday} onAddYear={addYear} />
+      <div className="border rounded-md max-h-[200px] overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="text-center">Jahr</TableHead>
+              <TableHead className="text-center">Aktienverluste (€)</TableHead>
+              <TableHead className="text-center">Sonstige Verluste (€)</TableHead>
+              <TableHead className="text-center">Aktionen</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {Object.values(config.realizedLossesByYear).map(losses => (
+              <RealizedLossesRow key={losses.year} losses={losses} onUpdate={updateLosses} onDelete={deleteYear} />
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  )
+}
+
+export function LossOffsetSection({
+  lossOffsetConfiguration,
+  yearToday,
+  onLossOffsetConfigurationChange,
+}: LossOffsetSectionProps) {
+  return (
+    <div className="space-y-4 border rounded-lg p-4 bg-amber-50/50">
+      <div className="flex items-center justify-between">
+        <div className="space-y-1">
+          <Label className="text-base font-medium">📉 Verlustverrechnungstöpfe</Label>
+          <p className="text-sm text-muted-foreground">
+            Verluste werden in der Anspar- und Entnahmephase mit Kapitalerträgen verrechnet und unbegrenzt vorgetragen
+          </p>
+        </div>
+        <Switch
+          id="lossOffsetEnabled"
+          checked={lossOffsetConfiguration.enabled}
+          onCheckedChange={enabled => onLossOffsetConfigurationChange({ ...lossOffsetConfiguration, enabled })}
+        />
+      </div>
+
+      {lossOffsetConfiguration.enabled && (
+        <>
+          <InitialLossesInputs config={lossOffsetConfiguration} onChange={onLossOffsetConfigurationChange} />
+          <RealizedLossesTable
+            config={lossOffsetConfiguration}
+            yearToday={yearToday}
+            onChange={onLossOffsetConfigurationChange}
+          />
+          <p className="text-xs text-muted-foreground">
+            Aktienverluste werden nur mit Aktiengewinnen verrechnet, sonstige Verluste mit allen Kapitalerträgen (§ 20
+            Abs. 6 EStG). Der Vortrag gilt zum Ende des Jahres vor Simulationsbeginn.
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
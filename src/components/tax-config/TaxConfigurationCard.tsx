@@ -3,6 +3,7 @@ import { Collapsible, CollapsibleContent } from '../ui/collapsible'
 import { CollapsibleCardHeader } from '../ui/collapsible-card'
 import { TaxSectionsContent } from './TaxSectionsContent'
 import type { AssetClass } from '../../../helpers/asset-class'
+import type { LossOffsetConfiguration } from '../../../helpers/loss-offset-accounts'
 
 interface SimulationContext {
   performSimulation: () => void
@@ -28,6 +29,8 @@ interface SimulationContext {
   setSteuerReduzierenEndkapitalEntspharphase: (value: boolean) => void
   freibetragPerYear: Record<number, number>
   setFreibetragPerYear: (values: Record<number, number>) => void
+  lossOffsetConfiguration: LossOffsetConfiguration
+  setLossOffsetConfiguration: (value: LossOffsetConfiguration) => void
 }
 
 interface TaxConfigurationCardProps {
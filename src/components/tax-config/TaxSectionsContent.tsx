@@ -5,8 +5,10 @@ import { ProgressiveTaxInfoSection } from './ProgressiveTaxSection'
 import { KirchensteuerSection } from './KirchensteuerSection'
 import { SteuerReduziertEndkapitalSection } from './SteuerReduziertEndkapitalSection'
 import { FreibetragPerYearTable } from './FreibetragPerYearTable'
+import { LossOffsetSection } from './LossOffsetSection'
 import { createTaxHandlers } from './createTaxHandlers'
 import type { AssetClass } from '../../../helpers/asset-class'
+import type { LossOffsetConfiguration } from '../../../helpers/loss-offset-accounts'
 
 export interface SimulationContext {
   performSimulation: () => void
@@ -32,6 +34,8 @@ export interface SimulationContext {
   setSteuerReduzierenEndkapitalEntspharphase: (value: boolean) => void
   freibetragPerYear: Record<number, number>
   setFreibetragPerYear: (values: Record<number, number>) => void
+  lossOffsetConfiguration: LossOffsetConfiguration
+  setLossOffsetConfiguration: (value: LossOffsetConfiguration) => void
 }
 
 interface TaxSectionsContentProps {
@@ -76,6 +80,11 @@ export function TaxSectionsContent({ simulation, yearToday }: TaxSectionsContent
         yearToday={yearToday}
         onUpdate={handlers.handleFreibetragPerYearUpdate}
       />
+      <LossOffsetSection
+        lossOffsetConfiguration={simulation.lossOffsetConfiguration}
+        yearToday={yearToday}
+        onLossOffsetConfigurationChange={handlers.handleLossOffsetConfigurationChange}
+      />
     </div>
   )
 }
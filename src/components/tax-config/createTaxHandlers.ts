@@ -38,6 +38,7 @@ export function createTaxHandlers(simulation: SimulationContext) {
     handleSteuerReduzierenSparphaseChange: makeHandler(simulation.setSteuerReduzierenEndkapitalSparphase),
     handleSteuerReduzierenEntspharphaseChange: makeHandler(simulation.setSteuerReduzierenEndkapitalEntspharphase),
     handleFreibetragPerYearUpdate: makeHandler(simulation.setFreibetragPerYear),
+    handleLossOffsetConfigurationChange: makeHandler(simulation.setLossOffsetConfiguration),
   }
 }
 
@@ -0,0 +1,41 @@
+import { describe, test, expect } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import { AssetClassWithdrawalSection } from './AssetClassWithdrawalSection'
+
+describe('AssetClassWithdrawalSection', () => {
+  test('renders nothing without multi-asset portfolio', () => {
+    const { container } = render(<AssetClassWithdrawalSection />)
+
+    expect(container.firstChild).toBeNull()
+  })
+
+  test('shows the glide path allocation, the asset classes sold and the Teilfreistellung', () => {
+    render(
+      <AssetClassWithdrawalSection
+        assetClassWithdrawal={{
+          age: 61,
+          targetAllocations: { stocks_international: 0.4, bonds_government: 0.6 },
+          sales: [
+            { assetClass: 'stocks_international', amount: 15000, teilfreistellungsquote: 0.3 },
+            { assetClass: 'bonds_government', amount: 5000, teilfreistellungsquote: 0 },
+          ],
+          teilfreistellungsquote: 0.225,
+          holdingsTeilfreistellungsquote: 0.12,
+          portfolioReturn: 0.05,
+          rebalancingVolume: 2500,
+          rebalancingCapitalGains: 500,
+          rebalancingTax: 92.31,
+          allocationsAtEnd: { stocks_international: 0.4, bonds_government: 0.6 },
+        }}
+      />,
+    )
+
+    expect(screen.getByText(/Verkauf nach Anlageklassen/)).toBeInTheDocument()
+    expect(screen.getByText(/Gleitpfad, Alter 61/)).toBeInTheDocument()
+    expect(screen.getByText('Internationale Aktien (Teilfreistellung 30.0 %)')).toBeInTheDocument()
+    expect(screen.getByText('Staatsanleihen (Teilfreistellung 0.0 %)')).toBeInTheDocument()
+    expect(screen.getByText('22.5 %')).toBeInTheDocument()
+    expect(screen.getByText('Umschichtung (Rebalancing)')).toBeInTheDocument()
+    expect(screen.getByText('Steuer auf Umschichtungsgewinne')).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,72 @@
+import { formatCurrency } from '../../utils/currency'
+import { getAssetClassLabel, type AssetClass } from '../../../helpers/multi-asset-portfolio'
+import type { AssetClassWithdrawalYearResult } from '../../../helpers/multi-asset-withdrawal'
+
+interface AssetClassWithdrawalSectionProps {
+  assetClassWithdrawal?: AssetClassWithdrawalYearResult
+}
+
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(1)} %`
+}
+
+function AssetClassRow({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex justify-between gap-4">
+      <span>{label}</span>
+      <span className="font-medium">{value}</span>
+    </div>
+  )
+}
+
+function formatAllocations(allocations: AssetClassWithdrawalYearResult['targetAllocations']): string {
+  return (Object.entries(allocations) as Array<[AssetClass, number]>)
+    .filter(([, allocation]) => allocation > 0)
+    .map(([assetClass, allocation]) => `${getAssetClassLabel(assetClass)} ${formatPercent(allocation)}`)
+    .join(', ')
+}
+
+/**
+ * Section for the asset classes sold from a multi-asset portfolio, with the target allocation of the
+ * glide path and the Teilfreistellung applied to the realized gains
+ */
+export function AssetClassWithdrawalSection({ assetClassWithdrawal }: AssetClassWithdrawalSectionProps) {
+  if (!assetClassWithdrawal) {
+    return null
+  }
+
+  return (
+    <div className="bg-slate-50 px-2 py-1 rounded space-y-1 text-xs">
+      <div className="text-sm text-slate-700 font-medium">🧩 Verkauf nach Anlageklassen:</div>
+      <div className="text-muted-foreground">
+        Zielallokation
+        {assetClassWithdrawal.age !== undefined && ` (Gleitpfad, Alter ${assetClassWithdrawal.age})`}:{' '}
+        {formatAllocations(assetClassWithdrawal.targetAllocations)}
+      </div>
+      {assetClassWithdrawal.sales.map(sale => (
+        <AssetClassRow
+          key={sale.assetClass}
+          label={`${getAssetClassLabel(sale.assetClass)} (Teilfreistellung ${formatPercent(sale.teilfreistellungsquote)})`}
+          value={formatCurrency(sale.amount)}
+        />
+      ))}
+      <AssetClassRow
+        label="Teilfreistellung der Veräußerungsgewinne"
+        value={formatPercent(assetClassWithdrawal.teilfreistellungsquote)}
+      />
+      <AssetClassRow label="Rendite der Anlageklassen" value={formatPercent(assetClassWithdrawal.portfolioReturn)} />
+      {assetClassWithdrawal.rebalancingVolume > 0 && (
+        <AssetClassRow
+          label="Umschichtung (Rebalancing)"
+          value={formatCurrency(assetClassWithdrawal.rebalancingVolume)}
+        />
+      )}
+      {assetClassWithdrawal.rebalancingTax > 0 && (
+        <AssetClassRow
+          label="Steuer auf Umschichtungsgewinne"
+          value={formatCurrency(assetClassWithdrawal.rebalancingTax)}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,61 @@
+import { describe, test, expect } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import { CoupleWithdrawalYearSection } from './CoupleWithdrawalYearSection'
+
+describe('CoupleWithdrawalYearSection', () => {
+  test('renders nothing without a couple withdrawal plan', () => {
+    const { container } = render(<CoupleWithdrawalYearSection />)
+
+    expect(container.firstChild).toBeNull()
+  })
+
+  test('shows the inheritance tax in the year of death', () => {
+    render(
+      <CoupleWithdrawalYearSection
+        coupleWithdrawal={{
+          phase: 'couple',
+          jointAssessment: true,
+          inheritance: {
+            deceased: 1,
+            grossAmount: 800000,
+            exemption: 500000,
+            taxableAmount: 300000,
+            tax: 30000,
+            netAmount: 770000,
+          },
+        }}
+      />,
+    )
+
+    expect(screen.getByText('Beide Partner')).toBeInTheDocument()
+    expect(screen.getByText('Splittingtarif')).toBeInTheDocument()
+    expect(screen.getByText('Erbschaftsteuer')).toBeInTheDocument()
+    expect(screen.queryByText('Witwen-/Witwerrente')).not.toBeInTheDocument()
+  })
+
+  test('shows the Witwenrente of the survivor', () => {
+    render(
+      <CoupleWithdrawalYearSection
+        coupleWithdrawal={{
+          phase: 'survivor',
+          jointAssessment: false,
+          witwenrente: {
+            fullAnnualAmount: 13200,
+            incomeOffsetAnnual: 0,
+            sterbevierteljahrAnnual: 0,
+            grossAnnualAmount: 13200,
+            taxableAmount: 10956,
+          },
+          pensionsSplitEqually: true,
+        }}
+      />,
+    )
+
+    expect(screen.getByText('Hinterbliebener Partner')).toBeInTheDocument()
+    expect(screen.getByText('Grundtarif')).toBeInTheDocument()
+    expect(screen.getByText('Witwen-/Witwerrente')).toBeInTheDocument()
+    expect(screen.getByText('je zur Hälfte der gemeinsamen Rente angenommen')).toBeInTheDocument()
+    expect(screen.queryByText('Einkommensanrechnung')).not.toBeInTheDocument()
+    expect(screen.queryByText('Erbschaftsteuer')).not.toBeInTheDocument()
+  })
+})
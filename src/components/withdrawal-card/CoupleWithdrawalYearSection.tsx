@@ -0,0 +1,73 @@
+import { formatCurrency } from '../../utils/currency'
+import type { CoupleWithdrawalYearInfo } from '../../../helpers/couple-withdrawal'
+
+interface CoupleWithdrawalYearSectionProps {
+  coupleWithdrawal?: CoupleWithdrawalYearInfo
+}
+
+function CoupleWithdrawalRow({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex justify-between gap-4">
+      <span>{label}</span>
+      <span className="font-medium">{value}</span>
+    </div>
+  )
+}
+
+function WitwenrenteRows({ coupleWithdrawal }: { coupleWithdrawal: CoupleWithdrawalYearInfo }) {
+  const { witwenrente } = coupleWithdrawal
+  if (!witwenrente) {
+    return null
+  }
+
+  return (
+    <>
+      <CoupleWithdrawalRow label="Witwen-/Witwerrente" value={formatCurrency(witwenrente.grossAnnualAmount)} />
+      {witwenrente.sterbevierteljahrAnnual > 0 && (
+        <CoupleWithdrawalRow
+          label="davon Sterbevierteljahr"
+          value={formatCurrency(witwenrente.sterbevierteljahrAnnual)}
+        />
+      )}
+      {witwenrente.incomeOffsetAnnual > 0 && (
+        <CoupleWithdrawalRow
+          label="Einkommensanrechnung"
+          value={`-${formatCurrency(witwenrente.incomeOffsetAnnual)}`}
+        />
+      )}
+      {coupleWithdrawal.pensionsSplitEqually && (
+        <CoupleWithdrawalRow label="Renten der Partner" value="je zur Hälfte der gemeinsamen Rente angenommen" />
+      )}
+    </>
+  )
+}
+
+/**
+ * Section for the survivor phase of a couple: phase and tariff of the year, Witwenrente and the Erbschaftsteuer
+ * on the depots of the deceased in the year of death
+ */
+export function CoupleWithdrawalYearSection({ coupleWithdrawal }: CoupleWithdrawalYearSectionProps) {
+  if (!coupleWithdrawal) {
+    return null
+  }
+
+  const { inheritance } = coupleWithdrawal
+
+  return (
+    <div className="bg-slate-50 px-2 py-1 rounded space-y-1 text-xs">
+      <div className="text-sm text-slate-700 font-medium">👫 Hinterbliebenenphase:</div>
+      <CoupleWithdrawalRow
+        label="Phase"
+        value={coupleWithdrawal.phase === 'couple' ? 'Beide Partner' : 'Hinterbliebener Partner'}
+      />
+      <CoupleWithdrawalRow label="Tarif" value={coupleWithdrawal.jointAssessment ? 'Splittingtarif' : 'Grundtarif'} />
+      <WitwenrenteRows coupleWithdrawal={coupleWithdrawal} />
+      {inheritance && (
+        <>
+          <CoupleWithdrawalRow label="Geerbtes Depotvermögen" value={formatCurrency(inheritance.grossAmount)} />
+          <CoupleWithdrawalRow label="Erbschaftsteuer" value={formatCurrency(inheritance.tax)} />
+        </>
+      )}
+    </div>
+  )
+}
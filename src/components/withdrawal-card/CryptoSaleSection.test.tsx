@@ -0,0 +1,72 @@
+import { describe, test, expect } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import { CryptoSaleSection } from './CryptoSaleSection'
+
+describe('CryptoSaleSection', () => {
+  const privateSaleTax = {
+    gewinn: 5000,
+    freigrenze: 1000,
+    unterFreigrenze: false,
+    steuerpflichtigerGewinn: 5000,
+    einkommensteuer: 1500,
+    solidaritaetszuschlag: 0,
+    kirchensteuer: 135,
+    steuer: 1635,
+  }
+
+  test('renders nothing without crypto sales', () => {
+    const { container } = render(<CryptoSaleSection />)
+
+    expect(container.firstChild).toBeNull()
+  })
+
+  test('shows tax-free gains after the holding period without warning', () => {
+    render(
+      <CryptoSaleSection
+        cryptoSale={{
+          steuerfreierGewinn: 8000,
+          privaterVeraeusserungsgewinn: 0,
+          verkaufInnerhalbHaltefrist: 0,
+          privateSaleTax: { ...privateSaleTax, gewinn: 0, unterFreigrenze: true, steuerpflichtigerGewinn: 0 },
+        }}
+      />,
+    )
+
+    expect(screen.getByText('Gewinn nach der Haltefrist (steuerfrei)')).toBeInTheDocument()
+    expect(screen.queryByText(/innerhalb der einjährigen Haltefrist/)).not.toBeInTheDocument()
+  })
+
+  test('warns about sales within the holding period and shows the income tax', () => {
+    render(
+      <CryptoSaleSection
+        cryptoSale={{
+          steuerfreierGewinn: 0,
+          privaterVeraeusserungsgewinn: 5000,
+          verkaufInnerhalbHaltefrist: 20000,
+          privateSaleTax,
+        }}
+      />,
+    )
+
+    expect(screen.getByText(/innerhalb der einjährigen Haltefrist/)).toBeInTheDocument()
+    expect(screen.getByText('Einkommensteuer (§ 23 EStG)')).toBeInTheDocument()
+    expect(screen.getByText('Kirchensteuer')).toBeInTheDocument()
+    expect(screen.queryByText('Solidaritätszuschlag')).not.toBeInTheDocument()
+  })
+
+  test('shows gains below the Freigrenze as tax-free', () => {
+    render(
+      <CryptoSaleSection
+        cryptoSale={{
+          steuerfreierGewinn: 0,
+          privaterVeraeusserungsgewinn: 900,
+          verkaufInnerhalbHaltefrist: 3000,
+          privateSaleTax: { ...privateSaleTax, gewinn: 900, unterFreigrenze: true, steuerpflichtigerGewinn: 0 },
+        }}
+      />,
+    )
+
+    expect(screen.getByText(/unter der Freigrenze/)).toBeInTheDocument()
+    expect(screen.getByText('steuerfrei')).toBeInTheDocument()
+  })
+})
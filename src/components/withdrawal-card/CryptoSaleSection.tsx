@@ -0,0 +1,73 @@
+import { formatCurrency } from '../../utils/currency'
+import type { CryptoSaleYearResult } from '../../../helpers/crypto-tax'
+
+interface CryptoSaleSectionProps {
+  cryptoSale?: CryptoSaleYearResult
+}
+
+function CryptoSaleRow({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex justify-between gap-4">
+      <span>{label}</span>
+      <span className="font-medium">{value}</span>
+    </div>
+  )
+}
+
+function PrivateSaleTaxRows({ privateSaleTax }: Pick<CryptoSaleYearResult, 'privateSaleTax'>) {
+  if (privateSaleTax.unterFreigrenze) {
+    return (
+      <CryptoSaleRow
+        label={`Gewinn unter der Freigrenze von ${formatCurrency(privateSaleTax.freigrenze)}`}
+        value="steuerfrei"
+      />
+    )
+  }
+
+  return (
+    <>
+      <CryptoSaleRow label="Einkommensteuer (§ 23 EStG)" value={formatCurrency(privateSaleTax.einkommensteuer)} />
+      {privateSaleTax.solidaritaetszuschlag > 0 && (
+        <CryptoSaleRow label="Solidaritätszuschlag" value={formatCurrency(privateSaleTax.solidaritaetszuschlag)} />
+      )}
+      {privateSaleTax.kirchensteuer > 0 && (
+        <CryptoSaleRow label="Kirchensteuer" value={formatCurrency(privateSaleTax.kirchensteuer)} />
+      )}
+    </>
+  )
+}
+
+/**
+ * Section for the crypto sales of a year: gains after the holding period are tax-free, sales within the
+ * holding period are private sales taxed with the personal income tax above the Freigrenze
+ */
+export function CryptoSaleSection({ cryptoSale }: CryptoSaleSectionProps) {
+  if (!cryptoSale) {
+    return null
+  }
+
+  const soldWithinHoldingPeriod = cryptoSale.verkaufInnerhalbHaltefrist > 0
+
+  return (
+    <div className="bg-slate-50 px-2 py-1 rounded space-y-1 text-xs">
+      <div className="text-sm text-slate-700 font-medium">🪙 Verkauf von Kryptowährungen:</div>
+      <CryptoSaleRow
+        label="Gewinn nach der Haltefrist (steuerfrei)"
+        value={formatCurrency(cryptoSale.steuerfreierGewinn)}
+      />
+      {soldWithinHoldingPeriod && (
+        <>
+          <div className="text-amber-700 font-medium">
+            ⚠️ {formatCurrency(cryptoSale.verkaufInnerhalbHaltefrist)} werden innerhalb der einjährigen Haltefrist
+            verkauft
+          </div>
+          <CryptoSaleRow
+            label="Gewinn aus privaten Veräußerungsgeschäften"
+            value={formatCurrency(cryptoSale.privaterVeraeusserungsgewinn)}
+          />
+          <PrivateSaleTaxRows privateSaleTax={cryptoSale.privateSaleTax} />
+        </>
+      )}
+    </div>
+  )
+}
@@ -113,4 +113,44 @@ describe('IncomeTaxSection', () => {
     expect(screen.getByText(/🏛️ Einkommensteuer:/)).toBeInTheDocument()
     expect(screen.getByText(/🆓 Grundfreibetrag:/)).toBeInTheDocument()
   })
+
+  test('renders the splitting advantage in couple planning mode', () => {
+    render(
+      <IncomeTaxSection
+        rowData={{
+          einkommensteuer: 200,
+          genutzterGrundfreibetrag: 24696,
+          ehegattensplitting: {
+            person1Income: 60000,
+            person2Income: 0,
+            jointIncome: 60000,
+            splittingTax: 8434,
+            separateAssessmentTax: 13500,
+            splittingAdvantage: 5066,
+          },
+        }}
+        isGrundfreibetragEnabled={true}
+        onCalculationInfoClick={mockOnCalculationInfoClick}
+      />,
+    )
+
+    expect(screen.getByText(/💑 Splittingvorteil:/)).toBeInTheDocument()
+    expect(screen.getByText(/5\.066,00 €/)).toBeInTheDocument()
+    expect(screen.getByText(/bei Einzelveranlagung/)).toBeInTheDocument()
+  })
+
+  test('does not render the splitting advantage without joint assessment', () => {
+    render(
+      <IncomeTaxSection
+        rowData={{
+          einkommensteuer: 200,
+          genutzterGrundfreibetrag: 10908,
+        }}
+        isGrundfreibetragEnabled={true}
+        onCalculationInfoClick={mockOnCalculationInfoClick}
+      />,
+    )
+
+    expect(screen.queryByText(/💑 Splittingvorteil:/)).not.toBeInTheDocument()
+  })
 })
@@ -1,17 +1,39 @@
 import { Info } from 'lucide-react'
 import { formatCurrency } from '../../utils/currency'
+import type { EhegattensplittingResult } from '../../../helpers/ehegattensplitting'
 
 interface IncomeTaxSectionProps {
   rowData: {
     einkommensteuer?: number
     genutzterGrundfreibetrag?: number
+    ehegattensplitting?: EhegattensplittingResult
   }
   isGrundfreibetragEnabled: boolean
   onCalculationInfoClick: (explanationType: string, rowData: unknown) => void
 }
 
 /**
- * Section displaying income tax information: Einkommensteuer and Grundfreibetrag
+ * Splitting advantage of joint assessment compared with separate assessment (couple planning mode)
+ */
+function SplittingAdvantageRow({ ehegattensplitting }: { ehegattensplitting: EhegattensplittingResult }) {
+  return (
+    <div className="py-1">
+      <div className="flex justify-between items-center">
+        <span className="text-sm text-gray-600 font-medium">💑 Splittingvorteil:</span>
+        <span className="font-semibold text-green-600 text-sm">
+          {formatCurrency(ehegattensplitting.splittingAdvantage)}
+        </span>
+      </div>
+      <div className="text-xs text-gray-500">
+        Zusammenveranlagung {formatCurrency(ehegattensplitting.splittingTax)} statt{' '}
+        {formatCurrency(ehegattensplitting.separateAssessmentTax)} bei Einzelveranlagung
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Section displaying income tax information: Einkommensteuer, Grundfreibetrag and splitting advantage
  */
 export function IncomeTaxSection({ rowData, isGrundfreibetragEnabled, onCalculationInfoClick }: IncomeTaxSectionProps) {
   if (!isGrundfreibetragEnabled) {
@@ -47,6 +69,9 @@ export function IncomeTaxSection({ rowData, isGrundfreibetragEnabled, onCalculat
           </span>
         </div>
       )}
+
+      {/* Ehegattensplitting */}
+      {rowData.ehegattensplitting && <SplittingAdvantageRow ehegattensplitting={rowData.ehegattensplitting} />}
     </>
   )
 }
@@ -0,0 +1,25 @@
+import { describe, test, expect } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import { PropertyFlowSection } from './PropertyFlowSection'
+
+describe('PropertyFlowSection', () => {
+  test('renders nothing without an owned property', () => {
+    const { container } = render(<PropertyFlowSection />)
+
+    expect(container.firstChild).toBeNull()
+  })
+
+  test('shows the mortgage payments sold from the depot', () => {
+    render(<PropertyFlowSection propertyFlow={{ mortgagePayment: 18000, saleProceeds: 0 }} />)
+
+    expect(screen.getByText('Kreditrate aus dem Depot')).toBeInTheDocument()
+    expect(screen.queryByText('Erlös Immobilienverkauf')).not.toBeInTheDocument()
+  })
+
+  test('shows the residual debt of a sale that does not cover the loan', () => {
+    render(<PropertyFlowSection propertyFlow={{ mortgagePayment: 0, saleProceeds: -12000 }} />)
+
+    expect(screen.getByText('Restschuld nach Immobilienverkauf')).toBeInTheDocument()
+    expect(screen.queryByText('Kreditrate aus dem Depot')).not.toBeInTheDocument()
+  })
+})
@@ -0,0 +1,40 @@
+import { formatCurrency } from '../../utils/currency'
+import type { PropertyDepotFlow } from '../../../helpers/immobilien-eigentum'
+
+interface PropertyFlowSectionProps {
+  propertyFlow?: PropertyDepotFlow
+}
+
+function PropertyFlowRow({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex justify-between gap-4">
+      <span>{label}</span>
+      <span className="font-medium">{value}</span>
+    </div>
+  )
+}
+
+/**
+ * Section for the owned property in a withdrawal year: mortgage payments sold from the depot on top of the
+ * withdrawal and the proceeds of a sale paid into the depot
+ */
+export function PropertyFlowSection({ propertyFlow }: PropertyFlowSectionProps) {
+  if (!propertyFlow) {
+    return null
+  }
+
+  const { mortgagePayment, saleProceeds } = propertyFlow
+
+  return (
+    <div className="bg-slate-50 px-2 py-1 rounded space-y-1 text-xs">
+      <div className="text-sm text-slate-700 font-medium">🏠 Immobilie:</div>
+      {mortgagePayment > 0 && (
+        <PropertyFlowRow label="Kreditrate aus dem Depot" value={`-${formatCurrency(mortgagePayment)}`} />
+      )}
+      {saleProceeds > 0 && <PropertyFlowRow label="Erlös Immobilienverkauf" value={formatCurrency(saleProceeds)} />}
+      {saleProceeds < 0 && (
+        <PropertyFlowRow label="Restschuld nach Immobilienverkauf" value={`-${formatCurrency(-saleProceeds)}`} />
+      )}
+    </div>
+  )
+}
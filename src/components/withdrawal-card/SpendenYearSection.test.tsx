@@ -0,0 +1,51 @@
+import { describe, test, expect } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import { SpendenYearSection } from './SpendenYearSection'
+
+describe('SpendenYearSection', () => {
+  const spenden = {
+    gemeinnuetzigeSpenden: 2000,
+    parteiSpenden: 0,
+    hoechstbetrag: 8000,
+    abziehbareGemeinnuetzigeSpenden: 2000,
+    abziehbareParteispenden: 0,
+    sonderausgabenabzug: 1964,
+    steuerermaessigungParteispenden: 0,
+    einkommensteuerOhneSpenden: 6000,
+    einkommensteuer: 5400,
+    steuerersparnis: 600,
+  }
+
+  test('renders nothing without donations', () => {
+    const { container } = render(<SpendenYearSection />)
+
+    expect(container.firstChild).toBeNull()
+  })
+
+  test('shows the deduction and the tax saved', () => {
+    render(<SpendenYearSection spenden={spenden} />)
+
+    expect(screen.getByText('Gemeinnützige Spenden')).toBeInTheDocument()
+    expect(screen.getByText('Sonderausgabenabzug')).toBeInTheDocument()
+    expect(screen.getByText('Steuerersparnis')).toBeInTheDocument()
+    expect(screen.queryByText('Steuerermäßigung (§ 34g EStG)')).not.toBeInTheDocument()
+    expect(screen.queryByText(/Höchstbetrag/)).not.toBeInTheDocument()
+  })
+
+  test('shows the party donation credit and warns above the Höchstbetrag', () => {
+    render(
+      <SpendenYearSection
+        spenden={{
+          ...spenden,
+          gemeinnuetzigeSpenden: 10000,
+          parteiSpenden: 1000,
+          steuerermaessigungParteispenden: 500,
+        }}
+      />,
+    )
+
+    expect(screen.getByText('Parteispenden')).toBeInTheDocument()
+    expect(screen.getByText('Steuerermäßigung (§ 34g EStG)')).toBeInTheDocument()
+    expect(screen.getByText(/Höchstbetrag von .* überschritten/)).toBeInTheDocument()
+  })
+})
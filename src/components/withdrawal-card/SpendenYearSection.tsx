@@ -0,0 +1,50 @@
+import { formatCurrency } from '../../utils/currency'
+import type { SpendenYearResult } from '../../../helpers/spenden'
+
+interface SpendenYearSectionProps {
+  spenden?: SpendenYearResult
+}
+
+function SpendenRow({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex justify-between gap-4">
+      <span>{label}</span>
+      <span className="font-medium">{value}</span>
+    </div>
+  )
+}
+
+/**
+ * Section for the donations of a year: Sonderausgabenabzug of gemeinnützige donations, § 34g credit of
+ * party donations and the income tax saved
+ */
+export function SpendenYearSection({ spenden }: SpendenYearSectionProps) {
+  if (!spenden) {
+    return null
+  }
+
+  const ueberHoechstbetrag = spenden.gemeinnuetzigeSpenden > spenden.abziehbareGemeinnuetzigeSpenden
+
+  return (
+    <div className="bg-slate-50 px-2 py-1 rounded space-y-1 text-xs">
+      <div className="text-sm text-slate-700 font-medium">🎁 Spenden:</div>
+      {spenden.gemeinnuetzigeSpenden > 0 && (
+        <SpendenRow label="Gemeinnützige Spenden" value={formatCurrency(spenden.gemeinnuetzigeSpenden)} />
+      )}
+      {spenden.parteiSpenden > 0 && <SpendenRow label="Parteispenden" value={formatCurrency(spenden.parteiSpenden)} />}
+      {ueberHoechstbetrag && (
+        <div className="text-amber-700 font-medium">
+          ⚠️ Höchstbetrag von {formatCurrency(spenden.hoechstbetrag)} (20% der Einkünfte) überschritten
+        </div>
+      )}
+      <SpendenRow label="Sonderausgabenabzug" value={formatCurrency(spenden.sonderausgabenabzug)} />
+      {spenden.steuerermaessigungParteispenden > 0 && (
+        <SpendenRow
+          label="Steuerermäßigung (§ 34g EStG)"
+          value={formatCurrency(spenden.steuerermaessigungParteispenden)}
+        />
+      )}
+      <SpendenRow label="Steuerersparnis" value={formatCurrency(spenden.steuerersparnis)} />
+    </div>
+  )
+}
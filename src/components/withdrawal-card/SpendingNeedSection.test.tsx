@@ -0,0 +1,30 @@
+import { describe, test, expect } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import { SpendingNeedSection } from './SpendingNeedSection'
+
+describe('SpendingNeedSection', () => {
+  test('renders nothing without spending need data', () => {
+    const { container } = render(<SpendingNeedSection />)
+
+    expect(container.firstChild).toBeNull()
+  })
+
+  test('derives the gross withdrawal from the spending need', () => {
+    render(
+      <SpendingNeedSection
+        bedarfsorientierteEntnahme={{
+          ausgabenbedarf: 36000,
+          nettoEinkommen: 18000,
+          nettoBedarf: 18000,
+          geschaetzteSteuern: 1200,
+          bruttoEntnahme: 19200,
+        }}
+      />,
+    )
+
+    expect(screen.getByText(/Bedarfsorientierte Entnahme/)).toBeInTheDocument()
+    expect(screen.getByText(/36\.000,00 €/)).toBeInTheDocument()
+    expect(screen.getAllByText(/18\.000,00 €/)).toHaveLength(2)
+    expect(screen.getByText(/19\.200,00 €/)).toBeInTheDocument()
+  })
+})
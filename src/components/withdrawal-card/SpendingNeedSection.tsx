@@ -0,0 +1,39 @@
+import { formatCurrency } from '../../utils/currency'
+import type { BedarfsorientierteEntnahmeResult } from '../../../helpers/bedarfsorientierte-entnahme'
+
+interface SpendingNeedSectionProps {
+  bedarfsorientierteEntnahme?: BedarfsorientierteEntnahmeResult
+}
+
+function SpendingNeedRow({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex justify-between gap-4">
+      <span>{label}</span>
+      <span className="font-medium">{value}</span>
+    </div>
+  )
+}
+
+/**
+ * Section deriving the withdrawal of the bedarfsorientiert strategy from the spending need of the year
+ */
+export function SpendingNeedSection({ bedarfsorientierteEntnahme }: SpendingNeedSectionProps) {
+  if (!bedarfsorientierteEntnahme) {
+    return null
+  }
+
+  const { ausgabenbedarf, nettoEinkommen, nettoBedarf, geschaetzteSteuern, bruttoEntnahme } = bedarfsorientierteEntnahme
+
+  return (
+    <div className="bg-slate-50 px-2 py-1 rounded space-y-1 text-xs">
+      <div className="text-sm text-slate-700 font-medium">🧾 Bedarfsorientierte Entnahme:</div>
+      <SpendingNeedRow label="Ausgabenbedarf" value={formatCurrency(ausgabenbedarf)} />
+      <SpendingNeedRow label="− Renten und sonstige Einkünfte (netto)" value={formatCurrency(nettoEinkommen)} />
+      <SpendingNeedRow label="= Bedarf aus dem Portfolio" value={formatCurrency(nettoBedarf)} />
+      <SpendingNeedRow label="+ geschätzte Steuern auf die Entnahme" value={formatCurrency(geschaetzteSteuern)} />
+      <div className="pt-1 border-t">
+        <SpendingNeedRow label="= Bruttoentnahme" value={formatCurrency(bruttoEntnahme)} />
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,8 @@
 import { Info } from 'lucide-react'
 import { formatCurrency } from '../../utils/currency'
 import type { WithdrawalFormValue } from '../../utils/config-storage'
+import type { LossOffsetResult } from '../../../helpers/loss-offset-accounts'
+import { LossOffsetDisplay } from '../LossOffsetDisplay'
 
 interface TaxSectionProps {
   rowData: {
@@ -14,6 +16,7 @@ interface TaxSectionProps {
       usedTaxRate: number
       explanation: string
     }
+    lossOffsetDetails?: LossOffsetResult
   }
   formValue: WithdrawalFormValue
   allYears: Array<number | null | undefined>
@@ -100,7 +103,8 @@ function VorabpauschaleInfo({
 }
 
 /**
- * Section displaying tax-related information: interest, tax paid, Günstigerprüfung, Vorabpauschale, and tax allowance
+ * Section displaying tax-related information: interest, tax paid, Günstigerprüfung, loss offset, Vorabpauschale,
+ * and tax allowance
  */
 export function TaxSection({
   rowData,
@@ -135,6 +139,10 @@ export function TaxSection({
         <GuenstigerpruefungInfo guenstigerPruefungResultRealizedGains={rowData.guenstigerPruefungResultRealizedGains} />
       )}
 
+      {rowData.lossOffsetDetails && (
+        <LossOffsetDisplay lossOffsetDetails={rowData.lossOffsetDetails} year={rowData.year} />
+      )}
+
       {rowData.vorabpauschale !== undefined && (
         <VorabpauschaleInfo
           vorabpauschale={rowData.vorabpauschale}
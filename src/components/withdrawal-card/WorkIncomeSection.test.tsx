@@ -0,0 +1,36 @@
+import { describe, test, expect } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import { WorkIncomeSection } from './WorkIncomeSection'
+
+describe('WorkIncomeSection', () => {
+  test('renders nothing without work income', () => {
+    const { container } = render(<WorkIncomeSection />)
+
+    expect(container.firstChild).toBeNull()
+  })
+
+  test('shows the work income, the EM-Rente reduction and the withdrawal reduction', () => {
+    render(
+      <WorkIncomeSection
+        workIncome={{
+          partTimeGrossAmount: 24000,
+          socialSecurityContributions: 0,
+          emRenteGrossAmount: 6000,
+          hinzuverdienstReduction: 3000,
+          taxableAmount: 28000,
+          netAnnualAmount: 30000,
+          withdrawalReductionPercent: 50,
+          description: 'Beratung',
+          withdrawalReduction: 12000,
+        }}
+      />,
+    )
+
+    expect(screen.getByText(/Erwerbseinkommen im Ruhestand/)).toBeInTheDocument()
+    expect(screen.getByText('Beratung')).toBeInTheDocument()
+    expect(screen.getByText(/24\.000,00 €/)).toBeInTheDocument()
+    expect(screen.getByText(/gekürzt wegen Hinzuverdienst/)).toBeInTheDocument()
+    expect(screen.getByText(/12\.000,00 €/)).toBeInTheDocument()
+    expect(screen.queryByText(/Kranken- und Pflegeversicherung/)).not.toBeInTheDocument()
+  })
+})
@@ -0,0 +1,55 @@
+import { formatCurrency } from '../../utils/currency'
+import type { WorkIncomeYearResult } from '../../../helpers/retirement-work-income'
+
+interface WorkIncomeSectionProps {
+  workIncome?: WorkIncomeYearResult & { withdrawalReduction: number }
+}
+
+function WorkIncomeRow({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex justify-between gap-4">
+      <span>{label}</span>
+      <span className="font-medium">{value}</span>
+    </div>
+  )
+}
+
+/**
+ * Section for the part-time work income and the EM-Rente of the year, both taxed together with the withdrawal
+ */
+export function WorkIncomeSection({ workIncome }: WorkIncomeSectionProps) {
+  if (!workIncome) {
+    return null
+  }
+
+  return (
+    <div className="bg-slate-50 px-2 py-1 rounded space-y-1 text-xs">
+      <div className="text-sm text-slate-700 font-medium">💼 Erwerbseinkommen im Ruhestand:</div>
+      {workIncome.description && <div className="text-muted-foreground">{workIncome.description}</div>}
+      {workIncome.partTimeGrossAmount > 0 && (
+        <WorkIncomeRow label="Teilzeitarbeit (Brutto)" value={formatCurrency(workIncome.partTimeGrossAmount)} />
+      )}
+      {workIncome.socialSecurityContributions > 0 && (
+        <WorkIncomeRow
+          label="− Kranken- und Pflegeversicherung"
+          value={formatCurrency(workIncome.socialSecurityContributions)}
+        />
+      )}
+      {workIncome.emRenteGrossAmount > 0 && (
+        <WorkIncomeRow label="EM-Rente (Brutto)" value={formatCurrency(workIncome.emRenteGrossAmount)} />
+      )}
+      {workIncome.hinzuverdienstReduction > 0 && (
+        <WorkIncomeRow
+          label="EM-Rente gekürzt wegen Hinzuverdienst"
+          value={formatCurrency(workIncome.hinzuverdienstReduction)}
+        />
+      )}
+      <WorkIncomeRow label="Zu versteuerndes Einkommen" value={formatCurrency(workIncome.taxableAmount)} />
+      {workIncome.withdrawalReduction > 0 && (
+        <div className="pt-1 border-t">
+          <WorkIncomeRow label="Entnahme reduziert um" value={formatCurrency(workIncome.withdrawalReduction)} />
+        </div>
+      )}
+    </div>
+  )
+}
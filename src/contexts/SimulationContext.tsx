@@ -61,6 +61,11 @@ export interface SimulationContextState {
   // Freistellungsauftrag accounts for tax allowance optimization
   freistellungsauftragAccounts: BankAccount[]
   setFreistellungsauftragAccounts: (freistellungsauftragAccounts: BankAccount[]) => void
+  // Verlustverrechnungstöpfe applied in the savings and withdrawal phase
+  lossOffsetConfiguration: import('../../helpers/loss-offset-accounts').LossOffsetConfiguration
+  setLossOffsetConfiguration: (
+    lossOffsetConfiguration: import('../../helpers/loss-offset-accounts').LossOffsetConfiguration,
+  ) => void
   returnMode: ReturnMode
   setReturnMode: (returnMode: ReturnMode) => void
   averageReturn: number
@@ -73,6 +78,12 @@ export interface SimulationContextState {
   setVariableReturns: (variableReturns: Record<number, number>) => void
   historicalIndex: string
   setHistoricalIndex: (historicalIndex: string) => void
+  // Block bootstrap, Student-t and bull/bear regime return models
+  stochasticReturnSettings: import('../utils/stochastic-returns').StochasticReturnSettings
+  // Backtest start year and historical inflation of the historical return mode
+  historicalBacktestSettings: import('../utils/historical-data').HistoricalBacktestSettings
+  setStochasticReturnSettings: (settings: import('../utils/stochastic-returns').StochasticReturnSettings) => void
+  setHistoricalBacktestSettings: (settings: import('../utils/historical-data').HistoricalBacktestSettings) => void
   // Black Swan event configuration
   blackSwanReturns: Record<number, number> | null
   setBlackSwanReturns: (blackSwanReturns: Record<number, number> | null) => void
@@ -169,6 +180,11 @@ export interface SimulationContextState {
   // EM-Rente configuration
   emRenteConfig: import('../../helpers/em-rente').EMRenteConfig | null
   setEMRenteConfig: (config: import('../../helpers/em-rente').EMRenteConfig | null) => void
+  // Owned property and mortgage configuration
+  propertyOwnershipConfig: import('../../helpers/immobilien-eigentum').PropertyOwnershipConfig | null
+  setPropertyOwnershipConfig: (
+    config: import('../../helpers/immobilien-eigentum').PropertyOwnershipConfig | null,
+  ) => void
   // Benchmark configuration
   benchmarkConfig: import('../../helpers/benchmark').BenchmarkConfig
   setBenchmarkConfig: (config: import('../../helpers/benchmark').BenchmarkConfig) => void
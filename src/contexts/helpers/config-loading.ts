@@ -2,6 +2,9 @@ import { convertSparplanToElements } from '../../utils/sparplan-utils'
 import { convertLegacyToCoupleConfig, type CoupleStatutoryPensionConfig } from '../../../helpers/statutory-pension'
 import { defaultEmergencyFundConfig } from '../../../helpers/emergency-fund'
 import { getDefaultAlimonyConfig } from '../../../helpers/alimony'
+import { DEFAULT_STOCHASTIC_RETURN_SETTINGS } from '../../utils/stochastic-returns'
+import { DEFAULT_HISTORICAL_BACKTEST_SETTINGS } from '../../utils/historical-data'
+import { DEFAULT_LOSS_OFFSET_CONFIGURATION } from '../../../helpers/loss-offset-accounts'
 import type { ExtendedSavedConfiguration, DefaultConfiguration, ConfigurationSetters } from './config-types'
 
 /**
@@ -43,6 +46,7 @@ function getAdvancedTaxSettings(savedConfig: ExtendedSavedConfiguration, default
     guenstigerPruefungAktiv: savedConfig.guenstigerPruefungAktiv ?? defaultConfig.guenstigerPruefungAktiv,
     assetClass: savedConfig.assetClass ?? ('equity-fund' as const),
     customTeilfreistellungsquote: savedConfig.customTeilfreistellungsquote ?? 0.3,
+    lossOffsetConfiguration: savedConfig.lossOffsetConfiguration ?? DEFAULT_LOSS_OFFSET_CONFIGURATION,
   }
 }
 
@@ -62,6 +66,7 @@ export function loadTaxConfig(
     | 'setGuenstigerPruefungAktiv'
     | 'setAssetClass'
     | 'setCustomTeilfreistellungsquote'
+    | 'setLossOffsetConfiguration'
   >,
 ): void {
   const basic = getBasicTaxSettings(savedConfig)
@@ -75,6 +80,7 @@ export function loadTaxConfig(
   setters.setGuenstigerPruefungAktiv(advanced.guenstigerPruefungAktiv)
   setters.setAssetClass(advanced.assetClass)
   setters.setCustomTeilfreistellungsquote(advanced.customTeilfreistellungsquote)
+  setters.setLossOffsetConfiguration(advanced.lossOffsetConfiguration)
 }
 
 /**
@@ -91,6 +97,8 @@ export function loadReturnConfig(
     | 'setRandomSeed'
     | 'setVariableReturns'
     | 'setHistoricalIndex'
+    | 'setStochasticReturnSettings'
+    | 'setHistoricalBacktestSettings'
   >,
 ): void {
   setters.setReturnMode(savedConfig.returnMode)
@@ -99,6 +107,8 @@ export function loadReturnConfig(
   setters.setRandomSeed(savedConfig.randomSeed)
   setters.setVariableReturns(savedConfig.variableReturns)
   setters.setHistoricalIndex(savedConfig.historicalIndex || defaultConfig.historicalIndex)
+  setters.setStochasticReturnSettings(savedConfig.stochasticReturnSettings || DEFAULT_STOCHASTIC_RETURN_SETTINGS)
+  setters.setHistoricalBacktestSettings(savedConfig.historicalBacktestSettings || DEFAULT_HISTORICAL_BACKTEST_SETTINGS)
 }
 
 /**
@@ -239,6 +249,7 @@ export function loadWithdrawalConfig(
     | 'setFinancialGoals'
     | 'setEmergencyFundConfig'
     | 'setAlimonyConfig'
+    | 'setPropertyOwnershipConfig'
   >,
 ): void {
   setters.setWithdrawalConfig(savedConfig.withdrawal || null)
@@ -253,4 +264,5 @@ export function loadWithdrawalConfig(
 
   loadEmergencyFundConfig(savedConfig, setters.setEmergencyFundConfig)
   loadAlimonyConfig(savedConfig, setters.setAlimonyConfig)
+  setters.setPropertyOwnershipConfig(savedConfig.propertyOwnershipConfig || null)
 }
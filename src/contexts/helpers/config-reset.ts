@@ -7,6 +7,9 @@ import { getDefaultAlimonyConfig } from '../../../helpers/alimony'
 import type { WithdrawalConfiguration } from '../../utils/config-storage'
 import type { DefaultConfigType } from './default-config'
 import type { ConfigurationSetters } from './config-types'
+import { DEFAULT_STOCHASTIC_RETURN_SETTINGS } from '../../utils/stochastic-returns'
+import { DEFAULT_HISTORICAL_BACKTEST_SETTINGS } from '../../utils/historical-data'
+import { DEFAULT_LOSS_OFFSET_CONFIGURATION } from '../../../helpers/loss-offset-accounts'
 
 type MainSetters = Omit<
   ConfigurationSetters,
@@ -18,6 +21,7 @@ type MainSetters = Omit<
   | 'setEmergencyFundConfig'
   | 'setAlimonyConfig'
   | 'setEMRenteConfig'
+  | 'setPropertyOwnershipConfig'
 >
 
 type AdditionalSetters = {
@@ -29,6 +33,7 @@ type AdditionalSetters = {
   setEmergencyFundConfig: (value: EmergencyFundConfig) => void
   setAlimonyConfig: (value: import('../../../helpers/alimony').AlimonyConfig) => void
   setEMRenteConfig: (value: import('../../../helpers/em-rente').EMRenteConfig | null) => void
+  setPropertyOwnershipConfig: (value: import('../../../helpers/immobilien-eigentum').PropertyOwnershipConfig | null) => void
 }
 
 /**
@@ -46,6 +51,7 @@ function resetFinancialAndTaxConfig(defaultConfig: DefaultConfigType, setters: M
   setters.setGrundfreibetragBetrag(defaultConfig.grundfreibetragBetrag)
   setters.setPersonalTaxRate(defaultConfig.personalTaxRate)
   setters.setGuenstigerPruefungAktiv(defaultConfig.guenstigerPruefungAktiv)
+  setters.setLossOffsetConfiguration(DEFAULT_LOSS_OFFSET_CONFIGURATION)
 }
 
 /**
@@ -58,6 +64,8 @@ function resetReturnAndInflationConfig(defaultConfig: DefaultConfigType, setters
   setters.setRandomSeed(defaultConfig.randomSeed)
   setters.setVariableReturns(defaultConfig.variableReturns)
   setters.setHistoricalIndex(defaultConfig.historicalIndex)
+  setters.setStochasticReturnSettings(DEFAULT_STOCHASTIC_RETURN_SETTINGS)
+  setters.setHistoricalBacktestSettings(DEFAULT_HISTORICAL_BACKTEST_SETTINGS)
   setters.setInflationAktivSparphase(defaultConfig.inflationAktivSparphase)
   setters.setInflationsrateSparphase(defaultConfig.inflationsrateSparphase)
   setters.setInflationAnwendungSparphase(defaultConfig.inflationAnwendungSparphase)
@@ -104,4 +112,5 @@ export function resetConfiguration(
   additionalSetters.setEmergencyFundConfig(defaultEmergencyFundConfig)
   additionalSetters.setAlimonyConfig(getDefaultAlimonyConfig())
   additionalSetters.setEMRenteConfig(null)
+  additionalSetters.setPropertyOwnershipConfig(null)
 }
@@ -13,7 +13,9 @@ import type { TermLifeInsuranceConfig } from '../../../helpers/term-life-insuran
 import type { CareInsuranceConfig } from '../../../helpers/care-insurance'
 import type { AlimonyConfig } from '../../../helpers/alimony'
 import type { EMRenteConfig } from '../../../helpers/em-rente'
+import type { PropertyOwnershipConfig } from '../../../helpers/immobilien-eigentum'
 import type { BankAccount } from '../../../helpers/freistellungsauftrag-optimization'
+import type { LossOffsetConfiguration } from '../../../helpers/loss-offset-accounts'
 
 /**
  * Extended SparplanElement with additional fields for simulation results
@@ -52,12 +54,15 @@ export interface ExtendedSavedConfiguration {
   assetClass?: AssetClass
   customTeilfreistellungsquote?: number
   freistellungsauftragAccounts?: BankAccount[]
+  lossOffsetConfiguration?: LossOffsetConfiguration
   returnMode: ReturnMode
   averageReturn: number
   standardDeviation: number
   randomSeed?: number
   variableReturns: Record<number, number>
   historicalIndex?: string
+  stochasticReturnSettings?: import('../../utils/stochastic-returns').StochasticReturnSettings
+  historicalBacktestSettings?: import('../../utils/historical-data').HistoricalBacktestSettings
   multiAssetConfig?: MultiAssetPortfolioConfig
   withdrawalMultiAssetConfig?: MultiAssetPortfolioConfig
   inflationAktivSparphase?: boolean
@@ -85,6 +90,7 @@ export interface ExtendedSavedConfiguration {
   careInsuranceConfig?: CareInsuranceConfig
   alimonyConfig?: AlimonyConfig
   emRenteConfig?: EMRenteConfig
+  propertyOwnershipConfig?: PropertyOwnershipConfig
 }
 
 /**
@@ -120,12 +126,15 @@ export interface ConfigurationSetters {
   setGuenstigerPruefungAktiv: (value: boolean) => void
   setAssetClass: (value: AssetClass) => void
   setCustomTeilfreistellungsquote: (value: number) => void
+  setLossOffsetConfiguration: (value: LossOffsetConfiguration) => void
   setReturnMode: (value: ReturnMode) => void
   setAverageReturn: (value: number) => void
   setStandardDeviation: (value: number) => void
   setRandomSeed: (value: number | undefined) => void
   setVariableReturns: (value: Record<number, number>) => void
   setHistoricalIndex: (value: string) => void
+  setStochasticReturnSettings: (value: import('../../utils/stochastic-returns').StochasticReturnSettings) => void
+  setHistoricalBacktestSettings: (value: import('../../utils/historical-data').HistoricalBacktestSettings) => void
   setInflationAktivSparphase: (value: boolean) => void
   setInflationsrateSparphase: (value: number) => void
   setInflationAnwendungSparphase: (value: 'sparplan' | 'gesamtmenge') => void
@@ -150,4 +159,5 @@ export interface ConfigurationSetters {
   setEmergencyFundConfig: (value: EmergencyFundConfig) => void
   setAlimonyConfig: (value: AlimonyConfig) => void
   setEMRenteConfig: (value: EMRenteConfig | null) => void
+  setPropertyOwnershipConfig: (value: PropertyOwnershipConfig | null) => void
 }
@@ -3,6 +3,7 @@ import { SimulationAnnual } from '../../utils/simulate'
 import { initialSparplan } from '../../utils/sparplan-utils'
 import type { ReturnMode } from '../../utils/random-returns'
 import { DEFAULT_TAX_RATES } from '../../utils/business-constants'
+import { getHistoricalBasiszins } from '../../utils/historical-dataset'
 
 export interface DefaultConfigType {
   rendite: number
@@ -39,6 +40,19 @@ export interface DefaultConfigType {
   useAutomaticCalculation: boolean
 }
 
+/**
+ * Default Basiszins configuration: official rates of the bundled history, estimate for years without data
+ */
+function createDefaultBasiszinsConfiguration(): BasiszinsConfiguration {
+  const lastUpdated = new Date().toISOString()
+  const configuration: BasiszinsConfiguration = {}
+  for (let year = 2018; year <= 2024; year++) {
+    const rate = getHistoricalBasiszins(year) ?? 0.0255
+    configuration[year] = { year, rate, source: 'fallback', lastUpdated }
+  }
+  return configuration
+}
+
 /**
  * Create default configuration with historical Basiszins rates
  */
@@ -49,15 +63,7 @@ export function createDefaultConfiguration(): DefaultConfigType {
     teilfreistellungsquote: 30,
     freibetragPerYear: { 2023: 2000 },
     // Default Basiszins configuration with historical rates
-    basiszinsConfiguration: {
-      2018: { year: 2018, rate: 0.0087, source: 'fallback' as const, lastUpdated: new Date().toISOString() },
-      2019: { year: 2019, rate: 0.0087, source: 'fallback' as const, lastUpdated: new Date().toISOString() },
-      2020: { year: 2020, rate: 0.007, source: 'fallback' as const, lastUpdated: new Date().toISOString() },
-      2021: { year: 2021, rate: 0.007, source: 'fallback' as const, lastUpdated: new Date().toISOString() },
-      2022: { year: 2022, rate: 0.018, source: 'fallback' as const, lastUpdated: new Date().toISOString() },
-      2023: { year: 2023, rate: 0.0255, source: 'fallback' as const, lastUpdated: new Date().toISOString() },
-      2024: { year: 2024, rate: 0.0255, source: 'fallback' as const, lastUpdated: new Date().toISOString() },
-    } as BasiszinsConfiguration,
+    basiszinsConfiguration: createDefaultBasiszinsConfiguration(),
     // Default: taxes reduce capital for savings and withdrawal phases
     steuerReduzierenEndkapitalSparphase: true,
     steuerReduzierenEndkapitalEntspharphase: true,
@@ -20,6 +20,7 @@ export function buildTaxConfigSetters(setters: ConfigurationStateSetters) {
     setGuenstigerPruefungAktiv: setters.setGuenstigerPruefungAktiv,
     setAssetClass: setters.setAssetClass,
     setCustomTeilfreistellungsquote: setters.setCustomTeilfreistellungsquote,
+    setLossOffsetConfiguration: setters.setLossOffsetConfiguration,
   }
 }
 
@@ -31,6 +32,8 @@ export function buildReturnConfigSetters(setters: ConfigurationStateSetters) {
     setRandomSeed: setters.setRandomSeed,
     setVariableReturns: setters.setVariableReturns,
     setHistoricalIndex: setters.setHistoricalIndex,
+    setStochasticReturnSettings: setters.setStochasticReturnSettings,
+    setHistoricalBacktestSettings: setters.setHistoricalBacktestSettings,
   }
 }
 
@@ -80,5 +83,6 @@ export function buildWithdrawalConfigSetters(setters: ConfigurationStateSetters)
     setEmergencyFundConfig: setters.setEmergencyFundConfig,
     setAlimonyConfig: setters.setAlimonyConfig,
     setEMRenteConfig: setters.setEMRenteConfig,
+    setPropertyOwnershipConfig: setters.setPropertyOwnershipConfig,
   }
 }
@@ -21,6 +21,7 @@ export function buildTaxConfig(state: ConfigurationState) {
     guenstigerPruefungAktiv: state.guenstigerPruefungAktiv,
     assetClass: state.assetClass,
     customTeilfreistellungsquote: state.customTeilfreistellungsquote,
+    lossOffsetConfiguration: state.lossOffsetConfiguration,
   }
 }
 
@@ -32,6 +33,8 @@ export function buildReturnConfig(state: ConfigurationState) {
     randomSeed: state.randomSeed,
     variableReturns: state.variableReturns,
     historicalIndex: state.historicalIndex,
+    stochasticReturnSettings: state.stochasticReturnSettings,
+    historicalBacktestSettings: state.historicalBacktestSettings,
   }
 }
 
@@ -75,6 +78,7 @@ export function buildWithdrawalConfig(state: ConfigurationState) {
     emergencyFundConfig: state.emergencyFundConfig,
     alimonyConfig: state.alimonyConfig,
     emRenteConfig: state.emRenteConfig || undefined,
+    propertyOwnershipConfig: state.propertyOwnershipConfig || undefined,
   }
 }
 
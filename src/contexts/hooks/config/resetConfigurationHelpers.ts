@@ -20,12 +20,15 @@ export function resetAllConfigurations(
     setGuenstigerPruefungAktiv: setters.setGuenstigerPruefungAktiv,
     setAssetClass: setters.setAssetClass,
     setCustomTeilfreistellungsquote: setters.setCustomTeilfreistellungsquote,
+    setLossOffsetConfiguration: setters.setLossOffsetConfiguration,
     setReturnMode: setters.setReturnMode,
     setAverageReturn: setters.setAverageReturn,
     setStandardDeviation: setters.setStandardDeviation,
     setRandomSeed: setters.setRandomSeed,
     setVariableReturns: setters.setVariableReturns,
     setHistoricalIndex: setters.setHistoricalIndex,
+    setStochasticReturnSettings: setters.setStochasticReturnSettings,
+    setHistoricalBacktestSettings: setters.setHistoricalBacktestSettings,
     setInflationAktivSparphase: setters.setInflationAktivSparphase,
     setInflationsrateSparphase: setters.setInflationsrateSparphase,
     setInflationAnwendungSparphase: setters.setInflationAnwendungSparphase,
@@ -4,6 +4,8 @@ import {
   applyBlackSwanReturns,
   applyInflationScenarioModifiers,
 } from '../../helpers/simulation-helpers'
+import { buildStochasticReturnConfig, isStochasticReturnMode } from '../../../utils/stochastic-returns'
+import { applyHistoricalBacktestSettings } from '../../../utils/historical-data'
 
 export interface ReturnConfigParams {
   returnMode: ReturnMode
@@ -13,6 +15,8 @@ export interface ReturnConfigParams {
   randomSeed: number | undefined
   variableReturns: Record<number, number>
   historicalIndex: string
+  stochasticReturnSettings: import('../../../utils/stochastic-returns').StochasticReturnSettings
+  historicalBacktestSettings: import('../../../utils/historical-data').HistoricalBacktestSettings
   multiAssetConfig: import('../../../../helpers/multi-asset-portfolio').MultiAssetPortfolioConfig
   blackSwanReturns: Record<number, number> | null
   inflationScenarioReturnModifiers: Record<number, number> | null
@@ -26,16 +30,27 @@ export function buildFinalReturnConfig(
 
   if (overwrite.rendite !== undefined) {
     returnConfig = { mode: 'fixed', fixedRate: overwrite.rendite / 100 }
+  } else if (isStochasticReturnMode(params.returnMode)) {
+    returnConfig = buildStochasticReturnConfig({
+      mode: params.returnMode,
+      settings: params.stochasticReturnSettings,
+      averageReturn: params.averageReturn,
+      standardDeviation: params.standardDeviation,
+      seed: params.randomSeed,
+    })
   } else {
-    returnConfig = buildReturnConfig(
-      params.returnMode,
-      params.rendite,
-      params.averageReturn,
-      params.standardDeviation,
-      params.randomSeed,
-      params.variableReturns,
-      params.historicalIndex,
-      params.multiAssetConfig,
+    returnConfig = applyHistoricalBacktestSettings(
+      buildReturnConfig(
+        params.returnMode,
+        params.rendite,
+        params.averageReturn,
+        params.standardDeviation,
+        params.randomSeed,
+        params.variableReturns,
+        params.historicalIndex,
+        params.multiAssetConfig,
+      ),
+      params.historicalBacktestSettings,
     )
   }
 
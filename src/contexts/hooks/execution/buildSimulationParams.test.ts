@@ -2,6 +2,9 @@ import { describe, it, expect } from 'vitest'
 import { buildSimulationConfig, buildRunSimulationParams } from './buildSimulationParams'
 import type { SimulationExecutionState } from '../useSimulationExecution'
 import { createDefaultMultiAssetConfig } from '../../../../helpers/multi-asset-portfolio'
+import { DEFAULT_STOCHASTIC_RETURN_SETTINGS } from '../../../utils/stochastic-returns'
+import { DEFAULT_HISTORICAL_BACKTEST_SETTINGS } from '../../../utils/historical-data'
+import { DEFAULT_LOSS_OFFSET_CONFIGURATION } from '../../../../helpers/loss-offset-accounts'
 
 describe('buildSimulationParams', () => {
   const mockState: SimulationExecutionState = {
@@ -12,6 +15,8 @@ describe('buildSimulationParams', () => {
     randomSeed: undefined,
     variableReturns: {},
     historicalIndex: 'MSCI_WORLD',
+    stochasticReturnSettings: DEFAULT_STOCHASTIC_RETURN_SETTINGS,
+    historicalBacktestSettings: DEFAULT_HISTORICAL_BACKTEST_SETTINGS,
     blackSwanReturns: null,
     inflationScenarioRates: null,
     inflationScenarioReturnModifiers: null,
@@ -31,6 +36,9 @@ describe('buildSimulationParams', () => {
     inflationAnwendungSparphase: 'sparplan',
     guenstigerPruefungAktiv: false,
     personalTaxRate: 0,
+    lossOffsetConfiguration: DEFAULT_LOSS_OFFSET_CONFIGURATION,
+    freistellungsauftragAccounts: [],
+    propertyOwnershipConfig: null,
   }
 
   describe('buildSimulationConfig', () => {
@@ -2,6 +2,9 @@ import type { SimulationAnnualType } from '../../../utils/simulate'
 import type { ReturnConfiguration } from '../../../utils/random-returns'
 import type { SparplanElement } from '../../../utils/sparplan-utils'
 import type { BasiszinsConfiguration } from '../../../services/bundesbank-api'
+import type { LossOffsetConfiguration } from '../../../../helpers/loss-offset-accounts'
+import type { BankAccount } from '../../../../helpers/freistellungsauftrag-optimization'
+import type { PropertyOwnershipConfig } from '../../../../helpers/immobilien-eigentum'
 import type { SimulationExecutionState } from '../useSimulationExecution'
 import { buildFinalReturnConfig } from './buildReturnConfiguration'
 import { prepareInflationRates } from './prepareSimulationParams'
@@ -28,6 +31,9 @@ export interface RunSimulationParams {
   variableInflationRates: Record<number, number>
   guenstigerPruefungAktiv: boolean
   personalTaxRate: number
+  lossOffsetConfiguration: LossOffsetConfiguration
+  freistellungsauftragAccounts: BankAccount[]
+  propertyOwnershipConfig: PropertyOwnershipConfig | null
 }
 
 export function buildSimulationConfig(
@@ -43,6 +49,8 @@ export function buildSimulationConfig(
     randomSeed: state.randomSeed,
     variableReturns: state.variableReturns,
     historicalIndex: state.historicalIndex,
+    stochasticReturnSettings: state.stochasticReturnSettings,
+    historicalBacktestSettings: state.historicalBacktestSettings,
     multiAssetConfig: state.multiAssetConfig,
     blackSwanReturns: state.blackSwanReturns,
     inflationScenarioReturnModifiers: state.inflationScenarioReturnModifiers,
@@ -82,5 +90,8 @@ export function buildRunSimulationParams(
     variableInflationRates: variableInflationRates || {},
     guenstigerPruefungAktiv: state.guenstigerPruefungAktiv,
     personalTaxRate: state.personalTaxRate,
+    lossOffsetConfiguration: state.lossOffsetConfiguration,
+    freistellungsauftragAccounts: state.freistellungsauftragAccounts,
+    propertyOwnershipConfig: state.propertyOwnershipConfig,
   }
 }
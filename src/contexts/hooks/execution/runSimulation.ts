@@ -1,7 +1,13 @@
-import { simulate, type SimulationAnnualType } from '../../../utils/simulate'
+import { simulate, type SimulateOptions, type SimulationAnnualType } from '../../../utils/simulate'
 import type { ReturnConfiguration } from '../../../utils/random-returns'
 import type { SparplanElement } from '../../../utils/sparplan-utils'
 import type { BasiszinsConfiguration } from '../../../services/bundesbank-api'
+import {
+  getLossOffsetSimulationOptions,
+  type LossOffsetConfiguration,
+} from '../../../../helpers/loss-offset-accounts'
+import type { BankAccount } from '../../../../helpers/freistellungsauftrag-optimization'
+import type { PropertyOwnershipConfig } from '../../../../helpers/immobilien-eigentum'
 
 export interface SimulationParams {
   yearToday: number
@@ -20,10 +26,16 @@ export interface SimulationParams {
   variableInflationRates: Record<number, number> | undefined
   guenstigerPruefungAktiv: boolean
   personalTaxRate: number
+  lossOffsetConfiguration: LossOffsetConfiguration
+  freistellungsauftragAccounts: BankAccount[]
+  propertyOwnershipConfig: PropertyOwnershipConfig | null
 }
 
-export function runSimulation(params: SimulationParams) {
-  return simulate({
+/**
+ * Convert the UI simulation parameters (percent values) into the options of simulate
+ */
+export function buildSimulateOptions(params: SimulationParams): SimulateOptions {
+  return {
     startYear: params.yearToday,
     endYear: params.endYear,
     elements: params.elements,
@@ -40,5 +52,12 @@ export function runSimulation(params: SimulationParams) {
     variableInflationRates: params.variableInflationRates,
     guenstigerPruefungAktiv: params.guenstigerPruefungAktiv,
     personalTaxRate: params.personalTaxRate,
-  })
+    ...getLossOffsetSimulationOptions(params.lossOffsetConfiguration, params.yearToday),
+    depots: params.freistellungsauftragAccounts,
+    propertyOwnershipConfig: params.propertyOwnershipConfig ?? undefined,
+  }
+}
+
+export function runSimulation(params: SimulationParams) {
+  return simulate(buildSimulateOptions(params))
 }
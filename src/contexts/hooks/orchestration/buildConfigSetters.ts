@@ -1,6 +1,22 @@
 import type { useSimulationState } from '../useSimulationState'
 import type { ConfigurationStateSetters } from '../useConfigurationManagement'
 
+/**
+ * Extracts the setters of the return configuration
+ */
+function buildReturnConfigSetters(state: ReturnType<typeof useSimulationState>) {
+  return {
+    setReturnMode: state.setReturnMode,
+    setAverageReturn: state.setAverageReturn,
+    setStandardDeviation: state.setStandardDeviation,
+    setRandomSeed: state.setRandomSeed,
+    setVariableReturns: state.setVariableReturns,
+    setHistoricalIndex: state.setHistoricalIndex,
+    setStochasticReturnSettings: state.setStochasticReturnSettings,
+    setHistoricalBacktestSettings: state.setHistoricalBacktestSettings,
+  }
+}
+
 /**
  * Builds configuration setters object from simulation state
  * Extracts only the setter functions needed for configuration management
@@ -22,12 +38,8 @@ export function buildConfigSetters(state: ReturnType<typeof useSimulationState>)
     setKirchensteuersatz: state.setKirchensteuersatz,
     setAssetClass: state.setAssetClass,
     setCustomTeilfreistellungsquote: state.setCustomTeilfreistellungsquote,
-    setReturnMode: state.setReturnMode,
-    setAverageReturn: state.setAverageReturn,
-    setStandardDeviation: state.setStandardDeviation,
-    setRandomSeed: state.setRandomSeed,
-    setVariableReturns: state.setVariableReturns,
-    setHistoricalIndex: state.setHistoricalIndex,
+    setLossOffsetConfiguration: state.setLossOffsetConfiguration,
+    ...buildReturnConfigSetters(state),
     setInflationAktivSparphase: state.setInflationAktivSparphase,
     setInflationsrateSparphase: state.setInflationsrateSparphase,
     setInflationAnwendungSparphase: state.setInflationAnwendungSparphase,
@@ -52,5 +64,6 @@ export function buildConfigSetters(state: ReturnType<typeof useSimulationState>)
     setEmergencyFundConfig: state.setEmergencyFundConfig,
     setAlimonyConfig: state.setAlimonyConfig,
     setEMRenteConfig: state.setEMRenteConfig,
+    setPropertyOwnershipConfig: state.setPropertyOwnershipConfig,
   }
 }
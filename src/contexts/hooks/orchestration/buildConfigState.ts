@@ -2,12 +2,10 @@ import type { useSimulationState } from '../useSimulationState'
 import type { ConfigurationState } from '../useConfigurationManagement'
 
 /**
- * Builds configuration state object from simulation state
- * Extracts only the state values needed for configuration management
+ * Tax settings of the configuration state
  */
-export function buildConfigState(state: ReturnType<typeof useSimulationState>): ConfigurationState {
+function buildTaxConfigState(state: ReturnType<typeof useSimulationState>) {
   return {
-    rendite: state.rendite,
     steuerlast: state.steuerlast,
     teilfreistellungsquote: state.teilfreistellungsquote,
     freibetragPerYear: state.freibetragPerYear,
@@ -22,12 +20,26 @@ export function buildConfigState(state: ReturnType<typeof useSimulationState>):
     kirchensteuersatz: state.kirchensteuersatz,
     assetClass: state.assetClass,
     customTeilfreistellungsquote: state.customTeilfreistellungsquote,
+    lossOffsetConfiguration: state.lossOffsetConfiguration,
+  }
+}
+
+/**
+ * Builds configuration state object from simulation state
+ * Extracts only the state values needed for configuration management
+ */
+export function buildConfigState(state: ReturnType<typeof useSimulationState>): ConfigurationState {
+  return {
+    rendite: state.rendite,
+    ...buildTaxConfigState(state),
     returnMode: state.returnMode,
     averageReturn: state.averageReturn,
     standardDeviation: state.standardDeviation,
     randomSeed: state.randomSeed,
     variableReturns: state.variableReturns,
     historicalIndex: state.historicalIndex,
+    stochasticReturnSettings: state.stochasticReturnSettings,
+    historicalBacktestSettings: state.historicalBacktestSettings,
     inflationAktivSparphase: state.inflationAktivSparphase,
     inflationsrateSparphase: state.inflationsrateSparphase,
     inflationAnwendungSparphase: state.inflationAnwendungSparphase,
@@ -51,5 +63,6 @@ export function buildConfigState(state: ReturnType<typeof useSimulationState>):
     emergencyFundConfig: state.emergencyFundConfig,
     alimonyConfig: state.alimonyConfig,
     emRenteConfig: state.emRenteConfig,
+    propertyOwnershipConfig: state.propertyOwnershipConfig,
   }
 }
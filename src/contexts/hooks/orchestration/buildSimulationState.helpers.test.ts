@@ -7,6 +7,9 @@ import {
   extractSimulationBasics,
 } from './buildSimulationState.helpers'
 import { createDefaultMultiAssetConfig } from '../../../../helpers/multi-asset-portfolio'
+import { DEFAULT_STOCHASTIC_RETURN_SETTINGS } from '../../../utils/stochastic-returns'
+import { DEFAULT_HISTORICAL_BACKTEST_SETTINGS } from '../../../utils/historical-data'
+import { DEFAULT_LOSS_OFFSET_CONFIGURATION } from '../../../../helpers/loss-offset-accounts'
 
 // Mock state with all required properties
 const createMockState = (): ReturnType<typeof useSimulationState> =>
@@ -18,6 +21,8 @@ const createMockState = (): ReturnType<typeof useSimulationState> =>
     randomSeed: 12345,
     variableReturns: { 2024: 5.5, 2025: 6.0 },
     historicalIndex: 'MSCI_WORLD',
+    stochasticReturnSettings: DEFAULT_STOCHASTIC_RETURN_SETTINGS,
+    historicalBacktestSettings: DEFAULT_HISTORICAL_BACKTEST_SETTINGS,
     blackSwanReturns: { 2030: -30 },
     inflationScenarioRates: { 2024: 2.5 },
     inflationScenarioReturnModifiers: { 2024: 0.5 },
@@ -37,6 +42,9 @@ const createMockState = (): ReturnType<typeof useSimulationState> =>
     inflationAnwendungSparphase: 'sparplan' as const,
     guenstigerPruefungAktiv: true,
     personalTaxRate: 42,
+    lossOffsetConfiguration: DEFAULT_LOSS_OFFSET_CONFIGURATION,
+    freistellungsauftragAccounts: [],
+    propertyOwnershipConfig: null,
   }) as any
 
 describe('buildSimulationState.helpers', () => {
@@ -53,6 +61,8 @@ describe('buildSimulationState.helpers', () => {
         randomSeed: 12345,
         variableReturns: { 2024: 5.5, 2025: 6.0 },
         historicalIndex: 'MSCI_WORLD',
+        stochasticReturnSettings: DEFAULT_STOCHASTIC_RETURN_SETTINGS,
+        historicalBacktestSettings: DEFAULT_HISTORICAL_BACKTEST_SETTINGS,
         blackSwanReturns: { 2030: -30 },
         inflationScenarioRates: { 2024: 2.5 },
         inflationScenarioReturnModifiers: { 2024: 0.5 },
@@ -89,6 +99,8 @@ describe('buildSimulationState.helpers', () => {
         steuerReduzierenEndkapitalSparphase: true,
         guenstigerPruefungAktiv: true,
         personalTaxRate: 42,
+        lossOffsetConfiguration: DEFAULT_LOSS_OFFSET_CONFIGURATION,
+        freistellungsauftragAccounts: [],
       })
     })
 
@@ -155,6 +167,7 @@ describe('buildSimulationState.helpers', () => {
         simulationAnnual: 'yearly',
         sparplanElemente: [],
         startEnd: [2023, 2040],
+        propertyOwnershipConfig: null,
       })
     })
 
@@ -201,7 +214,7 @@ describe('buildSimulationState.helpers', () => {
       }
 
       // Verify all 24 properties are present
-      expect(Object.keys(combined)).toHaveLength(24)
+      expect(Object.keys(combined)).toHaveLength(29)
 
       // Verify no duplicate keys
       const allKeys = [
@@ -12,6 +12,8 @@ export function extractReturnConfig(state: ReturnType<typeof useSimulationState>
     randomSeed: state.randomSeed,
     variableReturns: state.variableReturns,
     historicalIndex: state.historicalIndex,
+    stochasticReturnSettings: state.stochasticReturnSettings,
+    historicalBacktestSettings: state.historicalBacktestSettings,
     blackSwanReturns: state.blackSwanReturns,
     inflationScenarioRates: state.inflationScenarioRates,
     inflationScenarioReturnModifiers: state.inflationScenarioReturnModifiers,
@@ -31,6 +33,8 @@ export function extractTaxConfig(state: ReturnType<typeof useSimulationState>) {
     steuerReduzierenEndkapitalSparphase: state.steuerReduzierenEndkapitalSparphase,
     guenstigerPruefungAktiv: state.guenstigerPruefungAktiv,
     personalTaxRate: state.personalTaxRate,
+    lossOffsetConfiguration: state.lossOffsetConfiguration,
+    freistellungsauftragAccounts: state.freistellungsauftragAccounts,
   }
 }
 
@@ -53,5 +57,6 @@ export function extractSimulationBasics(state: ReturnType<typeof useSimulationSt
     simulationAnnual: state.simulationAnnual,
     sparplanElemente: state.sparplanElemente,
     startEnd: state.startEnd,
+    propertyOwnershipConfig: state.propertyOwnershipConfig,
   }
 }
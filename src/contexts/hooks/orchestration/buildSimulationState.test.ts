@@ -3,6 +3,9 @@ import { describe, it, expect } from 'vitest'
 import { useBuildSimulationState } from './buildSimulationState'
 import type { useSimulationState } from '../useSimulationState'
 import { createDefaultMultiAssetConfig } from '../../../../helpers/multi-asset-portfolio'
+import { DEFAULT_STOCHASTIC_RETURN_SETTINGS } from '../../../utils/stochastic-returns'
+import { DEFAULT_HISTORICAL_BACKTEST_SETTINGS } from '../../../utils/historical-data'
+import { DEFAULT_LOSS_OFFSET_CONFIGURATION } from '../../../../helpers/loss-offset-accounts'
 
 // Mock state with all required properties
 const createMockState = (): ReturnType<typeof useSimulationState> =>
@@ -14,6 +17,8 @@ const createMockState = (): ReturnType<typeof useSimulationState> =>
     randomSeed: 12345,
     variableReturns: { 2024: 5.5 },
     historicalIndex: 'MSCI_WORLD',
+    stochasticReturnSettings: DEFAULT_STOCHASTIC_RETURN_SETTINGS,
+    historicalBacktestSettings: DEFAULT_HISTORICAL_BACKTEST_SETTINGS,
     blackSwanReturns: null,
     inflationScenarioRates: null,
     inflationScenarioReturnModifiers: null,
@@ -33,6 +38,9 @@ const createMockState = (): ReturnType<typeof useSimulationState> =>
     inflationAnwendungSparphase: 'sparplan' as const,
     guenstigerPruefungAktiv: false,
     personalTaxRate: 0,
+    lossOffsetConfiguration: DEFAULT_LOSS_OFFSET_CONFIGURATION,
+    freistellungsauftragAccounts: [],
+    propertyOwnershipConfig: null,
   }) as any
 
 describe('useBuildSimulationState', () => {
@@ -48,6 +56,8 @@ describe('useBuildSimulationState', () => {
       randomSeed: 12345,
       variableReturns: { 2024: 5.5 },
       historicalIndex: 'MSCI_WORLD',
+      stochasticReturnSettings: DEFAULT_STOCHASTIC_RETURN_SETTINGS,
+      historicalBacktestSettings: DEFAULT_HISTORICAL_BACKTEST_SETTINGS,
       blackSwanReturns: null,
       inflationScenarioRates: null,
       inflationScenarioReturnModifiers: null,
@@ -67,6 +77,9 @@ describe('useBuildSimulationState', () => {
       inflationAnwendungSparphase: 'sparplan',
       guenstigerPruefungAktiv: false,
       personalTaxRate: 0,
+      lossOffsetConfiguration: DEFAULT_LOSS_OFFSET_CONFIGURATION,
+      freistellungsauftragAccounts: [],
+      propertyOwnershipConfig: null,
     })
   })
 
@@ -75,7 +88,7 @@ describe('useBuildSimulationState', () => {
     const { result } = renderHook(() => useBuildSimulationState(mockState))
 
     // Verify all 24 properties are present
-    expect(Object.keys(result.current)).toHaveLength(24)
+    expect(Object.keys(result.current)).toHaveLength(29)
 
     // Check presence of key properties from each category
     expect(result.current).toHaveProperty('rendite')
@@ -11,36 +11,39 @@ export function useBuildSimulationState(state: ReturnType<typeof useSimulationSt
   // Destructure all needed properties for fine-grained memoization
   const {
     rendite, returnMode, averageReturn, standardDeviation,
-    randomSeed, variableReturns, historicalIndex, blackSwanReturns,
-    inflationScenarioRates, inflationScenarioReturnModifiers, multiAssetConfig,
+    randomSeed, variableReturns, historicalIndex, historicalBacktestSettings, blackSwanReturns,
+    inflationScenarioRates, inflationScenarioReturnModifiers, multiAssetConfig, stochasticReturnSettings,
     steuerlast, teilfreistellungsquote, freibetragPerYear, basiszinsConfiguration,
-    steuerReduzierenEndkapitalSparphase, guenstigerPruefungAktiv, personalTaxRate,
+    steuerReduzierenEndkapitalSparphase, guenstigerPruefungAktiv, personalTaxRate, lossOffsetConfiguration,
+    freistellungsauftragAccounts,
     inflationAktivSparphase, inflationsrateSparphase, inflationAnwendungSparphase,
-    simulationAnnual, sparplanElemente, startEnd,
+    simulationAnnual, sparplanElemente, startEnd, propertyOwnershipConfig,
   } = state
 
   return useMemo(
     () => ({
       // Return config
       rendite, returnMode, averageReturn, standardDeviation,
-      randomSeed, variableReturns, historicalIndex, blackSwanReturns,
-      inflationScenarioRates, inflationScenarioReturnModifiers, multiAssetConfig,
+      randomSeed, variableReturns, historicalIndex, historicalBacktestSettings, blackSwanReturns,
+      inflationScenarioRates, inflationScenarioReturnModifiers, multiAssetConfig, stochasticReturnSettings,
       // Tax config
       steuerlast, teilfreistellungsquote, freibetragPerYear, basiszinsConfiguration,
-      steuerReduzierenEndkapitalSparphase, guenstigerPruefungAktiv, personalTaxRate,
+      steuerReduzierenEndkapitalSparphase, guenstigerPruefungAktiv, personalTaxRate, lossOffsetConfiguration,
+      freistellungsauftragAccounts,
       // Inflation config
       inflationAktivSparphase, inflationsrateSparphase, inflationAnwendungSparphase,
       // Simulation basics
-      simulationAnnual, sparplanElemente, startEnd,
+      simulationAnnual, sparplanElemente, startEnd, propertyOwnershipConfig,
     }),
     [
       rendite, returnMode, averageReturn, standardDeviation,
-      randomSeed, variableReturns, historicalIndex, blackSwanReturns,
-      inflationScenarioRates, inflationScenarioReturnModifiers, multiAssetConfig,
+      randomSeed, variableReturns, historicalIndex, historicalBacktestSettings, blackSwanReturns,
+      inflationScenarioRates, inflationScenarioReturnModifiers, multiAssetConfig, stochasticReturnSettings,
       steuerlast, teilfreistellungsquote, freibetragPerYear, basiszinsConfiguration,
-      steuerReduzierenEndkapitalSparphase, guenstigerPruefungAktiv, personalTaxRate,
+      steuerReduzierenEndkapitalSparphase, guenstigerPruefungAktiv, personalTaxRate, lossOffsetConfiguration,
+      freistellungsauftragAccounts,
       inflationAktivSparphase, inflationsrateSparphase, inflationAnwendungSparphase,
-      simulationAnnual, sparplanElemente, startEnd,
+      simulationAnnual, sparplanElemente, startEnd, propertyOwnershipConfig,
     ],
   )
 }
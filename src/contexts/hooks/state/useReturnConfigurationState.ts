@@ -2,6 +2,8 @@ import { useState } from 'react'
 import type { ReturnMode } from '../../../utils/random-returns'
 import type { SavedConfiguration } from '../../../utils/config-storage'
 import type { ExtendedSavedConfiguration } from '../../helpers/config-types'
+import { DEFAULT_STOCHASTIC_RETURN_SETTINGS, type StochasticReturnSettings } from '../../../utils/stochastic-returns'
+import { DEFAULT_HISTORICAL_BACKTEST_SETTINGS, type HistoricalBacktestSettings } from '../../../utils/historical-data'
 
 export interface ReturnConfigurationStateConfig {
   initialConfig: SavedConfiguration
@@ -20,6 +22,12 @@ export function useReturnConfigurationState(config: ReturnConfigurationStateConf
   const [historicalIndex, setHistoricalIndex] = useState<string>(
     extendedInitialConfig.historicalIndex || defaultConfig.historicalIndex,
   )
+  const [stochasticReturnSettings, setStochasticReturnSettings] = useState<StochasticReturnSettings>(
+    extendedInitialConfig.stochasticReturnSettings || DEFAULT_STOCHASTIC_RETURN_SETTINGS,
+  )
+  const [historicalBacktestSettings, setHistoricalBacktestSettings] = useState<HistoricalBacktestSettings>(
+    extendedInitialConfig.historicalBacktestSettings || DEFAULT_HISTORICAL_BACKTEST_SETTINGS,
+  )
 
   return {
     returnMode,
@@ -34,5 +42,9 @@ export function useReturnConfigurationState(config: ReturnConfigurationStateConf
     setVariableReturns,
     historicalIndex,
     setHistoricalIndex,
+    stochasticReturnSettings,
+    setStochasticReturnSettings,
+    historicalBacktestSettings,
+    setHistoricalBacktestSettings,
   }
 }
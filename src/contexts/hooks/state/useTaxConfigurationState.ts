@@ -2,6 +2,10 @@ import { useState } from 'react'
 import type { ExtendedSavedConfiguration } from '../../helpers/config-types'
 import type { AssetClass } from '../../../../helpers/asset-class'
 import type { BankAccount } from '../../../../helpers/freistellungsauftrag-optimization'
+import {
+  DEFAULT_LOSS_OFFSET_CONFIGURATION,
+  type LossOffsetConfiguration,
+} from '../../../../helpers/loss-offset-accounts'
 
 export interface TaxConfigurationStateConfig {
   extendedInitialConfig: ExtendedSavedConfiguration
@@ -46,6 +50,29 @@ function getTaxConfigDefaults(
     assetClass: getValueOrDefault(extendedInitialConfig.assetClass, 'equity-fund' as AssetClass),
     customTeilfreistellungsquote: getValueOrDefault(extendedInitialConfig.customTeilfreistellungsquote, 0.3),
     freistellungsauftragAccounts: getValueOrDefault(extendedInitialConfig.freistellungsauftragAccounts, [] as BankAccount[]),
+    lossOffsetConfiguration: getValueOrDefault(
+      extendedInitialConfig.lossOffsetConfiguration,
+      DEFAULT_LOSS_OFFSET_CONFIGURATION,
+    ),
+  }
+}
+
+/**
+ * State of the accounts kept with the banks: Freistellungsaufträge and Verlustverrechnungstöpfe
+ */
+function useTaxAccountsState(defaults: ReturnType<typeof getTaxConfigDefaults>) {
+  const [freistellungsauftragAccounts, setFreistellungsauftragAccounts] = useState<BankAccount[]>(
+    defaults.freistellungsauftragAccounts,
+  )
+  const [lossOffsetConfiguration, setLossOffsetConfiguration] = useState<LossOffsetConfiguration>(
+    defaults.lossOffsetConfiguration,
+  )
+
+  return {
+    freistellungsauftragAccounts,
+    setFreistellungsauftragAccounts,
+    lossOffsetConfiguration,
+    setLossOffsetConfiguration,
   }
 }
 
@@ -69,9 +96,7 @@ export function useTaxConfigurationState(config: TaxConfigurationStateConfig) {
   const [customTeilfreistellungsquote, setCustomTeilfreistellungsquote] = useState(
     defaults.customTeilfreistellungsquote,
   )
-  const [freistellungsauftragAccounts, setFreistellungsauftragAccounts] = useState<BankAccount[]>(
-    defaults.freistellungsauftragAccounts,
-  )
+  const taxAccounts = useTaxAccountsState(defaults)
 
   return {
     steuerReduzierenEndkapitalSparphase,
@@ -94,7 +119,6 @@ export function useTaxConfigurationState(config: TaxConfigurationStateConfig) {
     setAssetClass,
     customTeilfreistellungsquote,
     setCustomTeilfreistellungsquote,
-    freistellungsauftragAccounts,
-    setFreistellungsauftragAccounts,
+    ...taxAccounts,
   }
 }
@@ -16,6 +16,7 @@ import type { CareInsuranceConfig } from '../../../../helpers/care-insurance'
 import type { ExtendedSavedConfiguration } from '../../helpers/config-types'
 import { getDefaultAlimonyConfig, type AlimonyConfig } from '../../../../helpers/alimony'
 import type { EMRenteConfig } from '../../../../helpers/em-rente'
+import type { PropertyOwnershipConfig } from '../../../../helpers/immobilien-eigentum'
 
 export interface WithdrawalConfigStateConfig {
   initialConfig: SavedConfiguration
@@ -77,6 +78,10 @@ export function useWithdrawalConfigState(config: WithdrawalConfigStateConfig) {
     extendedInitialConfig.emRenteConfig || null,
   )
 
+  const [propertyOwnershipConfig, setPropertyOwnershipConfig] = useState<PropertyOwnershipConfig | null>(
+    extendedInitialConfig.propertyOwnershipConfig || null,
+  )
+
   return {
     withdrawalConfig, setWithdrawalConfig,
     statutoryPensionConfig, setStatutoryPensionConfig,
@@ -88,5 +93,6 @@ export function useWithdrawalConfigState(config: WithdrawalConfigStateConfig) {
     careInsuranceConfig, setCareInsuranceConfig,
     alimonyConfig, setAlimonyConfig,
     emRenteConfig, setEMRenteConfig,
+    propertyOwnershipConfig, setPropertyOwnershipConfig,
   }
 }
@@ -24,6 +24,7 @@ export interface ConfigurationStateSetters {
   setKirchensteuersatz: (value: number) => void
   setAssetClass: (value: import('../../../helpers/asset-class').AssetClass) => void
   setCustomTeilfreistellungsquote: (value: number) => void
+  setLossOffsetConfiguration: (value: import('../../../helpers/loss-offset-accounts').LossOffsetConfiguration) => void
   // Return config setters
   setReturnMode: (value: import('../../utils/random-returns').ReturnMode) => void
   setAverageReturn: (value: number) => void
@@ -31,6 +32,8 @@ export interface ConfigurationStateSetters {
   setRandomSeed: (value: number | undefined) => void
   setVariableReturns: (value: Record<number, number>) => void
   setHistoricalIndex: (value: string) => void
+  setStochasticReturnSettings: (value: import('../../utils/stochastic-returns').StochasticReturnSettings) => void
+  setHistoricalBacktestSettings: (value: import('../../utils/historical-data').HistoricalBacktestSettings) => void
   // Inflation config setters
   setInflationAktivSparphase: (value: boolean) => void
   setInflationsrateSparphase: (value: number) => void
@@ -62,6 +65,7 @@ export interface ConfigurationStateSetters {
   setEmergencyFundConfig: (value: import('../../../helpers/emergency-fund').EmergencyFundConfig) => void
   setAlimonyConfig: (value: import('../../../helpers/alimony').AlimonyConfig) => void
   setEMRenteConfig: (value: import('../../../helpers/em-rente').EMRenteConfig | null) => void
+  setPropertyOwnershipConfig: (value: import('../../../helpers/immobilien-eigentum').PropertyOwnershipConfig | null) => void
 }
 
 export interface ConfigurationState {
@@ -81,12 +85,15 @@ export interface ConfigurationState {
   kirchensteuersatz: number
   assetClass: import('../../../helpers/asset-class').AssetClass
   customTeilfreistellungsquote: number
+  lossOffsetConfiguration: import('../../../helpers/loss-offset-accounts').LossOffsetConfiguration
   returnMode: import('../../utils/random-returns').ReturnMode
   averageReturn: number
   standardDeviation: number
   randomSeed: number | undefined
   variableReturns: Record<number, number>
   historicalIndex: string
+  stochasticReturnSettings: import('../../utils/stochastic-returns').StochasticReturnSettings
+  historicalBacktestSettings: import('../../utils/historical-data').HistoricalBacktestSettings
   inflationAktivSparphase: boolean
   inflationsrateSparphase: number
   inflationAnwendungSparphase: 'sparplan' | 'gesamtmenge'
@@ -110,6 +117,7 @@ export interface ConfigurationState {
   emergencyFundConfig: import('../../../helpers/emergency-fund').EmergencyFundConfig
   alimonyConfig: import('../../../helpers/alimony').AlimonyConfig
   emRenteConfig: import('../../../helpers/em-rente').EMRenteConfig | null
+  propertyOwnershipConfig: import('../../../helpers/immobilien-eigentum').PropertyOwnershipConfig | null
 }
 
 export function useConfigurationManagement(
@@ -110,6 +110,8 @@ describe('useSimulationContextValue', () => {
     setCoupleStatutoryPensionConfig: vi.fn(),
     careCostConfiguration: null,
     setCareCostConfiguration: vi.fn(),
+    emRenteConfig: null,
+    setEMRenteConfig: vi.fn(),
     financialGoals: [],
     setFinancialGoals: vi.fn(),
     
@@ -169,6 +171,15 @@ describe('useSimulationContextValue', () => {
     expect(result.current.setTeilfreistellungsquote).toBeDefined()
   })
 
+  it('returns context value with the EM-Rente configuration', () => {
+    const { result } = renderHook(() =>
+      useSimulationContextValue(mockState, mockConfigManagement, mockPerformSimulation, mockSetEndOfLifeRounded),
+    )
+
+    expect(result.current.emRenteConfig).toBeNull()
+    expect(result.current.setEMRenteConfig).toBeDefined()
+  })
+
   it('returns context value with simulation properties', () => {
     const { result } = renderHook(() =>
       useSimulationContextValue(mockState, mockConfigManagement, mockPerformSimulation, mockSetEndOfLifeRounded),
@@ -66,6 +66,8 @@ function usePersonalTaxValues(state: Record<string, unknown>) {
     setGuenstigerPruefungAktiv,
     freistellungsauftragAccounts,
     setFreistellungsauftragAccounts,
+    lossOffsetConfiguration,
+    setLossOffsetConfiguration,
   } = state
   return useMemo(
     () => ({
@@ -79,8 +81,10 @@ function usePersonalTaxValues(state: Record<string, unknown>) {
       setGuenstigerPruefungAktiv,
       freistellungsauftragAccounts,
       setFreistellungsauftragAccounts,
+      lossOffsetConfiguration,
+      setLossOffsetConfiguration,
     }),
-    [grundfreibetragAktiv, setGrundfreibetragAktiv, grundfreibetragBetrag, setGrundfreibetragBetrag, personalTaxRate, setPersonalTaxRate, guenstigerPruefungAktiv, setGuenstigerPruefungAktiv, freistellungsauftragAccounts, setFreistellungsauftragAccounts],
+    [grundfreibetragAktiv, setGrundfreibetragAktiv, grundfreibetragBetrag, setGrundfreibetragBetrag, personalTaxRate, setPersonalTaxRate, guenstigerPruefungAktiv, setGuenstigerPruefungAktiv, freistellungsauftragAccounts, setFreistellungsauftragAccounts, lossOffsetConfiguration, setLossOffsetConfiguration],
   )
 }
 
@@ -162,7 +166,7 @@ function useRandomReturnValues(state: Record<string, unknown>) {
 }
 
 /**
- * Hook for advanced return configuration values (variable, historical, black swan)
+ * Hook for advanced return configuration values (variable, historical, stochastic models, black swan)
  */
 function useAdvancedReturnValues(state: Record<string, unknown>) {
   const {
@@ -170,6 +174,10 @@ function useAdvancedReturnValues(state: Record<string, unknown>) {
     setVariableReturns,
     historicalIndex,
     setHistoricalIndex,
+    stochasticReturnSettings,
+    historicalBacktestSettings,
+    setStochasticReturnSettings,
+    setHistoricalBacktestSettings,
     blackSwanReturns,
     setBlackSwanReturns,
     blackSwanEventName,
@@ -181,6 +189,10 @@ function useAdvancedReturnValues(state: Record<string, unknown>) {
       setVariableReturns,
       historicalIndex,
       setHistoricalIndex,
+      stochasticReturnSettings,
+      historicalBacktestSettings,
+      setStochasticReturnSettings,
+      setHistoricalBacktestSettings,
       blackSwanReturns,
       setBlackSwanReturns,
       blackSwanEventName,
@@ -191,6 +203,10 @@ function useAdvancedReturnValues(state: Record<string, unknown>) {
       setVariableReturns,
       historicalIndex,
       setHistoricalIndex,
+      stochasticReturnSettings,
+      historicalBacktestSettings,
+      setStochasticReturnSettings,
+      setHistoricalBacktestSettings,
       blackSwanReturns,
       setBlackSwanReturns,
       blackSwanEventName,
@@ -377,6 +393,10 @@ function usePensionAndCareValues(state: Record<string, unknown>) {
     setCoupleStatutoryPensionConfig,
     careCostConfiguration,
     setCareCostConfiguration,
+    emRenteConfig,
+    setEMRenteConfig,
+    propertyOwnershipConfig,
+    setPropertyOwnershipConfig,
   } = state
 
   return useMemo(
@@ -387,6 +407,10 @@ function usePensionAndCareValues(state: Record<string, unknown>) {
       setCoupleStatutoryPensionConfig,
       careCostConfiguration,
       setCareCostConfiguration,
+      emRenteConfig,
+      setEMRenteConfig,
+      propertyOwnershipConfig,
+      setPropertyOwnershipConfig,
     }),
     [
       statutoryPensionConfig,
@@ -395,6 +419,10 @@ function usePensionAndCareValues(state: Record<string, unknown>) {
       setCoupleStatutoryPensionConfig,
       careCostConfiguration,
       setCareCostConfiguration,
+      emRenteConfig,
+      setEMRenteConfig,
+      propertyOwnershipConfig,
+      setPropertyOwnershipConfig,
     ],
   )
 }
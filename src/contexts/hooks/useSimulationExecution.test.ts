@@ -4,10 +4,15 @@ import { useSimulationExecution, type SimulationExecutionState } from './useSimu
 import { createDefaultMultiAssetConfig } from '../../../helpers/multi-asset-portfolio'
 import * as buildSimulationParams from './execution/buildSimulationParams'
 import * as runSimulation from './execution/runSimulation'
+import * as simulateModule from '../../utils/simulate'
+import { DEFAULT_STOCHASTIC_RETURN_SETTINGS } from '../../utils/stochastic-returns'
+import { DEFAULT_HISTORICAL_BACKTEST_SETTINGS } from '../../utils/historical-data'
+import { DEFAULT_LOSS_OFFSET_CONFIGURATION } from '../../../helpers/loss-offset-accounts'
 
-// Mock the execution modules
+// Mock the execution modules; jobs run through the inline worker pool in tests
 vi.mock('./execution/buildSimulationParams')
 vi.mock('./execution/runSimulation')
+vi.mock('../../utils/simulate')
 
 describe('useSimulationExecution', () => {
   const mockSetIsLoading = vi.fn()
@@ -21,6 +26,8 @@ describe('useSimulationExecution', () => {
     randomSeed: undefined,
     variableReturns: {},
     historicalIndex: 'MSCI_WORLD',
+    stochasticReturnSettings: DEFAULT_STOCHASTIC_RETURN_SETTINGS,
+    historicalBacktestSettings: DEFAULT_HISTORICAL_BACKTEST_SETTINGS,
     blackSwanReturns: null,
     inflationScenarioRates: null,
     inflationScenarioReturnModifiers: null,
@@ -40,6 +47,9 @@ describe('useSimulationExecution', () => {
     inflationAnwendungSparphase: 'sparplan',
     guenstigerPruefungAktiv: false,
     personalTaxRate: 0,
+    lossOffsetConfiguration: DEFAULT_LOSS_OFFSET_CONFIGURATION,
+    freistellungsauftragAccounts: [],
+    propertyOwnershipConfig: null,
   }
 
   const mockReturnConfig = { mode: 'fixed' as const, fixedRate: 0.05 }
@@ -61,7 +71,11 @@ describe('useSimulationExecution', () => {
     variableInflationRates: mockVariableInflationRates,
     guenstigerPruefungAktiv: false,
     personalTaxRate: 0,
+    lossOffsetConfiguration: DEFAULT_LOSS_OFFSET_CONFIGURATION,
+    freistellungsauftragAccounts: [],
+    propertyOwnershipConfig: null,
   }
+  const mockSimulateOptions = { startYear: 2024, endYear: 2040, elements: [] }
   const mockSimulationResult = [{ year: 2024, value: 1000 }]
 
   beforeEach(() => {
@@ -71,7 +85,8 @@ describe('useSimulationExecution', () => {
       variableInflationRates: mockVariableInflationRates,
     })
     vi.mocked(buildSimulationParams.buildRunSimulationParams).mockReturnValue(mockSimulationParams)
-    vi.mocked(runSimulation.runSimulation).mockReturnValue(mockSimulationResult as any)
+    vi.mocked(runSimulation.buildSimulateOptions).mockReturnValue(mockSimulateOptions as any)
+    vi.mocked(simulateModule.simulate).mockReturnValue(mockSimulationResult as any)
   })
 
   it('returns performSimulation function', () => {
@@ -95,7 +110,8 @@ describe('useSimulationExecution', () => {
         mockReturnConfig,
         mockVariableInflationRates,
       )
-      expect(runSimulation.runSimulation).toHaveBeenCalledWith(mockSimulationParams)
+      expect(runSimulation.buildSimulateOptions).toHaveBeenCalledWith(mockSimulationParams)
+      expect(simulateModule.simulate).toHaveBeenCalledWith(mockSimulateOptions)
       expect(mockSetSimulationData).toHaveBeenCalledWith({
         sparplanElements: mockSimulationResult,
       })
@@ -130,7 +146,7 @@ describe('useSimulationExecution', () => {
   it('handles simulation errors gracefully', async () => {
     const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
     const error = new Error('Simulation failed')
-    vi.mocked(runSimulation.runSimulation).mockImplementation(() => {
+    vi.mocked(simulateModule.simulate).mockImplementation(() => {
       throw error
     })
 
@@ -202,4 +218,16 @@ describe('useSimulationExecution', () => {
       )
     })
   })
+
+  it('only applies the result of the latest simulation', async () => {
+    const { result } = renderHook(() => useSimulationExecution(mockState, mockSetIsLoading, mockSetSimulationData))
+
+    const staleSimulation = result.current.performSimulation({ rendite: 3 })
+    const latestSimulation = result.current.performSimulation({ rendite: 4 })
+    await Promise.all([staleSimulation, latestSimulation])
+
+    expect(simulateModule.simulate).toHaveBeenCalledTimes(1)
+    expect(mockSetSimulationData).toHaveBeenCalledTimes(1)
+    expect(mockSetIsLoading).toHaveBeenLastCalledWith(false)
+  })
 })
@@ -5,7 +5,11 @@ import type { SparplanElement } from '../../utils/sparplan-utils'
 import type { BasiszinsConfiguration } from '../../services/bundesbank-api'
 import type { SimulationData } from '../helpers/config-types'
 import { buildSimulationConfig, buildRunSimulationParams } from './execution/buildSimulationParams'
-import { runSimulation } from './execution/runSimulation'
+import { buildSimulateOptions } from './execution/runSimulation'
+import { getSimulationWorkerPool } from '../../workers/simulation-worker-pool'
+
+/** Pool key of the main simulation; a new simulation cancels the stale one */
+const SIMULATION_JOB_KEY = 'main-simulation'
 
 export interface SimulationExecutionState {
   rendite: number
@@ -15,6 +19,8 @@ export interface SimulationExecutionState {
   randomSeed: number | undefined
   variableReturns: Record<number, number>
   historicalIndex: string
+  stochasticReturnSettings: import('../../utils/stochastic-returns').StochasticReturnSettings
+  historicalBacktestSettings: import('../../utils/historical-data').HistoricalBacktestSettings
   blackSwanReturns: Record<number, number> | null
   inflationScenarioRates: Record<number, number> | null
   inflationScenarioReturnModifiers: Record<number, number> | null
@@ -32,6 +38,9 @@ export interface SimulationExecutionState {
   inflationAnwendungSparphase: 'sparplan' | 'gesamtmenge'
   guenstigerPruefungAktiv: boolean
   personalTaxRate: number
+  lossOffsetConfiguration: import('../../../helpers/loss-offset-accounts').LossOffsetConfiguration
+  freistellungsauftragAccounts: Array<import('../../../helpers/freistellungsauftrag-optimization').BankAccount>
+  propertyOwnershipConfig: import('../../../helpers/immobilien-eigentum').PropertyOwnershipConfig | null
 }
 
 export function useSimulationExecution(
@@ -47,11 +56,18 @@ export function useSimulationExecution(
       try {
         const { returnConfig, variableInflationRates } = buildSimulationConfig(state, overwrite, yearToday)
         const simulationParams = buildRunSimulationParams(state, yearToday, returnConfig, variableInflationRates)
-        const result = runSimulation(simulationParams)
-        setSimulationData({ sparplanElements: result })
+        const outcome = await getSimulationWorkerPool().run(
+          { kind: 'simulate', options: buildSimulateOptions(simulationParams) },
+          { key: SIMULATION_JOB_KEY },
+        )
+        if (outcome.status === 'cancelled') {
+          // A newer simulation replaced this one and is responsible for the loading state
+          return
+        }
+        setSimulationData({ sparplanElements: outcome.result })
+        setIsLoading(false)
       } catch (error) {
         console.error('Simulation error:', error)
-      } finally {
         setIsLoading(false)
       }
     },
@@ -19,6 +19,8 @@ export function useAnalysisConfig() {
     variableReturns: simulationState.variableReturns,
     historicalIndex: simulationState.historicalIndex,
     multiAssetConfig: simulationState.multiAssetConfig,
+    stochasticReturnSettings: simulationState.stochasticReturnSettings,
+    historicalBacktestSettings: simulationState.historicalBacktestSettings,
   })
 
   // Memoize sensitivity config to prevent recreating on every render
@@ -1,6 +1,7 @@
 import { describe, it, expect, vi } from 'vitest'
-import { renderHook } from '@testing-library/react'
+import { renderHook, waitFor } from '@testing-library/react'
 import { useComparisonResults } from './useComparisonResults'
+import { runComparisonStrategy } from './useWithdrawalCalculations.helpers'
 import type { WithdrawalConfiguration, ComparisonStrategy } from '../utils/config-storage'
 import type { SparplanElement } from '../utils/sparplan-utils'
 import type { WithdrawalData } from './useWithdrawalCalculations.types'
@@ -24,7 +25,7 @@ vi.mock('../contexts/useSimulation', () => ({
 
 // Mock the withdrawal calculations helper
 vi.mock('./useWithdrawalCalculations.helpers', () => ({
-  calculateComparisonStrategy: vi.fn(params => ({
+  runComparisonStrategy: vi.fn(async params => ({
     strategy: params.strategy,
     withdrawalData: {
       startingCapital: 500000,
@@ -146,7 +147,7 @@ describe('useComparisonResults', () => {
     expect(result.current).toEqual([])
   })
 
-  it('calculates comparison results when useComparisonMode is true', () => {
+  it('calculates comparison results when useComparisonMode is true', async () => {
     const strategies: ComparisonStrategy[] = [
       {
         id: '1',
@@ -168,12 +169,12 @@ describe('useComparisonResults', () => {
       useComparisonResults(mockElements, startOfIndependence, config, steuerlast, teilfreistellungsquote, null, mockWithdrawalData),
     )
 
-    expect(result.current).toHaveLength(2)
+    await waitFor(() => expect(result.current).toHaveLength(2))
     expect(result.current[0]).toHaveProperty('strategy')
     expect(result.current[0]).toHaveProperty('withdrawalData')
   })
 
-  it('passes correct parameters to calculation functions', () => {
+  it('passes correct parameters to calculation functions', async () => {
     const strategies: ComparisonStrategy[] = [
       {
         id: '1',
@@ -205,7 +206,11 @@ describe('useComparisonResults', () => {
       ),
     )
 
-    expect(result.current).toHaveLength(1)
+    await waitFor(() => expect(result.current).toHaveLength(1))
+    expect(vi.mocked(runComparisonStrategy)).toHaveBeenCalledWith(
+      expect.objectContaining({ effectiveStatutoryPensionConfig: effectivePensionConfig, steuerlast }),
+      expect.stringContaining('withdrawal-comparison-'),
+    )
   })
 
   it('handles empty comparison strategies', () => {
@@ -217,7 +222,7 @@ describe('useComparisonResults', () => {
     expect(result.current).toEqual([])
   })
 
-  it('recalculates when dependencies change', () => {
+  it('recalculates when dependencies change', async () => {
     const config1 = createMockConfig(true, [
       {
         id: '1',
@@ -232,6 +237,7 @@ describe('useComparisonResults', () => {
       { initialProps: { config: config1 } },
     )
 
+    await waitFor(() => expect(result.current).toHaveLength(1))
     const firstResult = result.current
 
     const config2 = createMockConfig(true, [
@@ -246,7 +252,7 @@ describe('useComparisonResults', () => {
     rerender({ config: config2 })
 
     // Should have recalculated with new config
-    expect(result.current).toBeDefined()
-    expect(result.current).not.toBe(firstResult)
+    await waitFor(() => expect(result.current).not.toBe(firstResult))
+    expect(result.current[0].strategy.name).toBe('3% Rule')
   })
 })
@@ -1,11 +1,17 @@
-import { useMemo } from 'react'
+import { useEffect, useId, useMemo, useState } from 'react'
 import type { SparplanElement } from '../utils/sparplan-utils'
 import type { StatutoryPensionConfig } from '../../helpers/statutory-pension'
+import type { IncomeTaxTariffIndexation } from '../../helpers/income-tax-tariff'
 import type { WithdrawalConfiguration, ComparisonStrategy } from '../utils/config-storage'
 import { useSimulation } from '../contexts/useSimulation'
-import { calculateComparisonStrategy } from './useWithdrawalCalculations.helpers'
-import type { WithdrawalData, CalculateComparisonStrategyParams } from './useWithdrawalCalculations.types'
+import { runComparisonStrategy } from './useWithdrawalCalculations.helpers'
+import type {
+  WithdrawalData,
+  CalculateComparisonStrategyParams,
+  ComparisonStrategyResult,
+} from './useWithdrawalCalculations.types'
 import { getEffectiveLifeExpectancyTable } from './useWithdrawalCalculations'
+import { getSimulationWorkerPool } from '../workers/simulation-worker-pool'
 
 /**
  * Extract simulation context values needed for comparison calculations
@@ -52,32 +58,40 @@ function useComparisonSimulationValues() {
   ])
 }
 
+/**
+ * Inputs shared by the comparison strategy calculations
+ */
+interface ComparisonCalculationParams {
+  elemente: SparplanElement[]
+  startOfIndependence: number
+  endOfLife: number
+  steuerlast: number
+  teilfreistellungsquote: number
+  planningMode: 'individual' | 'couple'
+  grundfreibetragAktiv: boolean
+  grundfreibetragBetrag: number
+  einkommensteuersatz: number
+  einkommensteuerPauschal?: boolean
+  einkommensteuerTarifIndexierung?: IncomeTaxTariffIndexation
+  steuerReduzierenEndkapitalEntspharphase: boolean
+  effectiveStatutoryPensionConfig: StatutoryPensionConfig | null
+  otherIncomeConfig: WithdrawalConfiguration['otherIncomeConfig']
+  healthCareInsuranceConfig: WithdrawalConfiguration['formValue']['healthCareInsuranceConfig']
+  birthYear: number | undefined
+  customLifeExpectancy: number | undefined
+  lifeExpectancyTable: 'german_2020_22' | 'german_male_2020_22' | 'german_female_2020_22' | 'custom'
+  gender?: 'male' | 'female'
+  guenstigerPruefungAktiv: boolean
+  personalTaxRate: number
+}
+
 /**
  * Build parameters for calculating a comparison strategy
  */
 function buildComparisonStrategyParams(
   strategy: ComparisonStrategy,
-  params: {
-    elemente: SparplanElement[]
-    startOfIndependence: number
-    endOfLife: number
-    steuerlast: number
-    teilfreistellungsquote: number
-    planningMode: 'individual' | 'couple'
-    grundfreibetragAktiv: boolean
-    grundfreibetragBetrag: number
-    einkommensteuersatz: number
-    steuerReduzierenEndkapitalEntspharphase: boolean
-    effectiveStatutoryPensionConfig: StatutoryPensionConfig | null
-    otherIncomeConfig: WithdrawalConfiguration['otherIncomeConfig']
-    healthCareInsuranceConfig: WithdrawalConfiguration['formValue']['healthCareInsuranceConfig']
-    birthYear: number | undefined
-    customLifeExpectancy: number | undefined
-    lifeExpectancyTable: 'german_2020_22' | 'german_male_2020_22' | 'german_female_2020_22' | 'custom'
-    gender?: 'male' | 'female'
-    guenstigerPruefungAktiv: boolean
-    personalTaxRate: number
-  },
+  params: ComparisonCalculationParams,
+
 ): CalculateComparisonStrategyParams {
   return {
     strategy,
@@ -90,6 +104,8 @@ function buildComparisonStrategyParams(
     grundfreibetragAktiv: params.grundfreibetragAktiv,
     grundfreibetragBetrag: params.grundfreibetragBetrag,
     einkommensteuersatz: params.einkommensteuersatz,
+    einkommensteuerPauschal: params.einkommensteuerPauschal,
+    einkommensteuerTarifIndexierung: params.einkommensteuerTarifIndexierung,
     steuerReduzierenEndkapitalEntspharphase: params.steuerReduzierenEndkapitalEntspharphase,
     effectiveStatutoryPensionConfig: params.effectiveStatutoryPensionConfig,
     otherIncomeConfig: params.otherIncomeConfig,
@@ -106,33 +122,36 @@ function buildComparisonStrategyParams(
 }
 
 /**
- * Calculate comparison results for all strategies
+ * Job key of a comparison strategy in the simulation worker pool
+ */
+function getComparisonJobKey(keyPrefix: string, strategy: ComparisonStrategy) {
+  return `${keyPrefix}-${strategy.id}`
+}
+
+/**
+ * Cancel the running comparison jobs of all strategies
+ */
+function cancelComparisonJobs(strategies: ComparisonStrategy[], keyPrefix: string) {
+  const pool = getSimulationWorkerPool()
+  strategies.forEach(strategy => pool.cancel(getComparisonJobKey(keyPrefix, strategy)))
+}
+
+/**
+ * Calculate comparison results for all strategies in the simulation worker pool
+ *
+ * @returns The results of all strategies, or null when a job was cancelled
  */
-function calculateAllComparisonResults(
+async function calculateAllComparisonResults(
   strategies: ComparisonStrategy[],
-  params: {
-    elemente: SparplanElement[]
-    startOfIndependence: number
-    endOfLife: number
-    steuerlast: number
-    teilfreistellungsquote: number
-    planningMode: 'individual' | 'couple'
-    grundfreibetragAktiv: boolean
-    grundfreibetragBetrag: number
-    einkommensteuersatz: number
-    steuerReduzierenEndkapitalEntspharphase: boolean
-    effectiveStatutoryPensionConfig: StatutoryPensionConfig | null
-    otherIncomeConfig: WithdrawalConfiguration['otherIncomeConfig']
-    healthCareInsuranceConfig: WithdrawalConfiguration['formValue']['healthCareInsuranceConfig']
-    birthYear: number | undefined
-    customLifeExpectancy: number | undefined
-    lifeExpectancyTable: 'german_2020_22' | 'german_male_2020_22' | 'german_female_2020_22' | 'custom'
-    gender?: 'male' | 'female'
-    guenstigerPruefungAktiv: boolean
-    personalTaxRate: number
-  },
-) {
-  return strategies.map(strategy => calculateComparisonStrategy(buildComparisonStrategyParams(strategy, params)))
+  params: ComparisonCalculationParams,
+  keyPrefix: string,
+): Promise<ComparisonStrategyResult[] | null> {
+  const results = await Promise.all(
+    strategies.map(strategy =>
+      runComparisonStrategy(buildComparisonStrategyParams(strategy, params), getComparisonJobKey(keyPrefix, strategy)),
+    ),
+  )
+  return results.every((result): result is ComparisonStrategyResult => result !== null) ? results : null
 }
 
 /**
@@ -172,6 +191,8 @@ function buildComparisonParams(
     grundfreibetragAktiv,
     grundfreibetragBetrag,
     einkommensteuersatz: formValue.einkommensteuersatz,
+    einkommensteuerPauschal: formValue.einkommensteuerPauschal,
+    einkommensteuerTarifIndexierung: formValue.einkommensteuerTarifIndexierung,
     steuerReduzierenEndkapitalEntspharphase,
     effectiveStatutoryPensionConfig: effectiveStatutoryPensionConfig || null,
     otherIncomeConfig,
@@ -185,6 +206,10 @@ function buildComparisonParams(
   }
 }
 
+/**
+ * Calculate the results of the comparison strategies in the simulation worker pool.
+ * Changed inputs cancel the running calculations.
+ */
 export function useComparisonResults(
   elemente: SparplanElement[],
   startOfIndependence: number,
@@ -196,27 +221,16 @@ export function useComparisonResults(
 ) {
   const simulationValues = useComparisonSimulationValues()
   const { useComparisonMode, comparisonStrategies } = currentConfig
+  const keyPrefix = `withdrawal-comparison-${useId()}`
+  const [comparisonResults, setComparisonResults] = useState<ComparisonStrategyResult[]>([])
 
-  const comparisonResults = useMemo(
-    () => {
-      if (!useComparisonMode || !withdrawalData) return []
-
-      const params = buildComparisonParams(
-        elemente,
-        startOfIndependence,
-        currentConfig,
-        steuerlast,
-        teilfreistellungsquote,
-        effectiveStatutoryPensionConfig,
-        simulationValues,
-      )
-
-      return calculateAllComparisonResults(comparisonStrategies, params)
-    },
-    [
-      useComparisonMode,
-      withdrawalData,
-      comparisonStrategies,
+  useEffect(() => {
+    if (!useComparisonMode || !withdrawalData) {
+      setComparisonResults([])
+      return
+    }
+
+    const params = buildComparisonParams(
       elemente,
       startOfIndependence,
       currentConfig,
@@ -224,8 +238,29 @@ export function useComparisonResults(
       teilfreistellungsquote,
       effectiveStatutoryPensionConfig,
       simulationValues,
-    ],
-  )
+    )
+
+    void calculateAllComparisonResults(comparisonStrategies, params, keyPrefix).then(results => {
+      if (results) {
+        setComparisonResults(results)
+      }
+    })
+
+    // Results of outdated inputs are not needed anymore
+    return () => cancelComparisonJobs(comparisonStrategies, keyPrefix)
+  }, [
+    useComparisonMode,
+    withdrawalData,
+    comparisonStrategies,
+    elemente,
+    startOfIndependence,
+    currentConfig,
+    steuerlast,
+    teilfreistellungsquote,
+    effectiveStatutoryPensionConfig,
+    simulationValues,
+    keyPrefix,
+  ])
 
   return comparisonResults
 }
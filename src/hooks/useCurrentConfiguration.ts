@@ -26,6 +26,7 @@ function getBasicConfig(s: SimulationState) {
     assetClass: s.assetClass,
     customTeilfreistellungsquote: s.customTeilfreistellungsquote,
     freistellungsauftragAccounts: s.freistellungsauftragAccounts,
+    lossOffsetConfiguration: s.lossOffsetConfiguration,
   }
 }
 
@@ -38,6 +39,8 @@ function getReturnConfig(s: SimulationState) {
     randomSeed: s.randomSeed,
     variableReturns: s.variableReturns,
     historicalIndex: s.historicalIndex,
+    stochasticReturnSettings: s.stochasticReturnSettings,
+    historicalBacktestSettings: s.historicalBacktestSettings,
     multiAssetConfig: s.multiAssetConfig,
     withdrawalMultiAssetConfig: s.withdrawalMultiAssetConfig,
     inflationAktivSparphase: s.inflationAktivSparphase,
@@ -61,16 +64,29 @@ function getAdvancedConfig(s: SimulationState) {
     birthYear: s.birthYear,
     expectedLifespan: s.expectedLifespan,
     useAutomaticCalculation: s.useAutomaticCalculation,
+  }
+}
+
+/** Extract withdrawal and pension configuration */
+function getWithdrawalAndPensionConfig(s: SimulationState) {
+  return {
     withdrawal: s.withdrawalConfig ?? undefined,
     statutoryPensionConfig: s.statutoryPensionConfig ?? undefined,
     coupleStatutoryPensionConfig: s.coupleStatutoryPensionConfig ?? undefined,
     careCostConfiguration: s.careCostConfiguration,
+    emRenteConfig: s.emRenteConfig ?? undefined,
+  }
+}
+
+/** Extract goals, insurance and property configuration */
+function getGoalsInsuranceAndPropertyConfig(s: SimulationState) {
+  return {
     financialGoals: s.financialGoals,
     emergencyFundConfig: s.emergencyFundConfig,
     termLifeInsuranceConfig: s.termLifeInsuranceConfig ?? undefined,
     careInsuranceConfig: s.careInsuranceConfig ?? undefined,
     alimonyConfig: s.alimonyConfig ?? undefined,
-    emRenteConfig: s.emRenteConfig ?? undefined,
+    propertyOwnershipConfig: s.propertyOwnershipConfig ?? undefined,
   }
 }
 
@@ -82,6 +98,8 @@ function buildConfigurationFromState(simulation: SimulationState): ExtendedSaved
     ...getBasicConfig(simulation),
     ...getReturnConfig(simulation),
     ...getAdvancedConfig(simulation),
+    ...getWithdrawalAndPensionConfig(simulation),
+    ...getGoalsInsuranceAndPropertyConfig(simulation),
   }
 }
 
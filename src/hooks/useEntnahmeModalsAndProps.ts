@@ -117,6 +117,7 @@ function prepareVariablesProps(
     healthCareInsuranceHandlers,
     coupleStatutoryPensionConfig: params.simulationContext.coupleStatutoryPensionConfig,
     setCoupleStatutoryPensionConfig: params.simulationContext.setCoupleStatutoryPensionConfig,
+    depots: params.simulationContext.freistellungsauftragAccounts,
   }
 }
 
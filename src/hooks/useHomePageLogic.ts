@@ -39,6 +39,8 @@ function useReturnConfig(simulationState: ReturnType<typeof useSimulation>) {
     variableReturns: simulationState.variableReturns,
     historicalIndex: simulationState.historicalIndex,
     multiAssetConfig: simulationState.multiAssetConfig,
+    stochasticReturnSettings: simulationState.stochasticReturnSettings,
+    historicalBacktestSettings: simulationState.historicalBacktestSettings,
   })
 }
 
@@ -0,0 +1,159 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { useSimulation } from '../contexts/useSimulation'
+import type { SimulationContextState } from '../contexts/SimulationContext'
+import {
+  DEFAULT_MONTE_CARLO_RUNS,
+  type MonteCarloSimulationConfig,
+  type MonteCarloSimulationResult,
+} from '../utils/monte-carlo-simulation'
+import type { WithdrawalConfiguration } from '../utils/config-storage'
+import { buildWithdrawalCalculationParams, convertCoupleToLegacyConfig } from './useWithdrawalCalculations.helpers'
+import { getEffectiveLifeExpectancyTable } from './useWithdrawalCalculations'
+import { getWithdrawalReturnConfig } from '../components/monte-carlo-helpers'
+import { getSimulationWorkerPool } from '../workers/simulation-worker-pool'
+import { getLossOffsetSimulationOptions } from '../../helpers/loss-offset-accounts'
+
+/** Pool key of the Monte Carlo simulation; a new run cancels the stale one */
+const MONTE_CARLO_JOB_KEY = 'monte-carlo-simulation'
+
+/**
+ * Build the savings phase settings the same way as the main simulation (runSimulation)
+ */
+export function buildSavingsPhase(context: SimulationContextState): MonteCarloSimulationConfig['savingsPhase'] {
+  const startYear = new Date().getFullYear()
+
+  return {
+    startYear,
+    endYear: context.startEnd[0],
+    elements: context.sparplanElemente,
+    steuerlast: context.steuerlast / 100,
+    simulationAnnual: context.simulationAnnual,
+    teilfreistellungsquote: context.teilfreistellungsquote / 100,
+    freibetragPerYear: context.freibetragPerYear,
+    steuerReduzierenEndkapital: context.steuerReduzierenEndkapitalSparphase,
+    basiszinsConfiguration: context.basiszinsConfiguration,
+    inflationAktivSparphase: context.inflationAktivSparphase,
+    inflationsrateSparphase: context.inflationsrateSparphase,
+    inflationAnwendungSparphase: context.inflationAnwendungSparphase,
+    guenstigerPruefungAktiv: context.guenstigerPruefungAktiv,
+    personalTaxRate: context.personalTaxRate,
+    ...getLossOffsetSimulationOptions(context.lossOffsetConfiguration, startYear),
+    depots: context.freistellungsauftragAccounts,
+    propertyOwnershipConfig: context.propertyOwnershipConfig ?? undefined,
+  }
+}
+
+/**
+ * Build the withdrawal phase settings the same way as the single strategy withdrawal calculation.
+ * Elements and return configuration are provided per simulated path.
+ */
+export function buildWithdrawalPhase(
+  context: SimulationContextState,
+  withdrawalConfig: WithdrawalConfiguration,
+): MonteCarloSimulationConfig['withdrawalPhase'] {
+  const effectiveTable = getEffectiveLifeExpectancyTable(
+    context.lifeExpectancyTable,
+    context.planningMode,
+    context.gender,
+  )
+  const effectiveStatutoryPensionConfig = context.coupleStatutoryPensionConfig
+    ? convertCoupleToLegacyConfig({
+        coupleConfig: context.coupleStatutoryPensionConfig,
+        planningMode: context.planningMode,
+      })
+    : context.statutoryPensionConfig
+
+  const {
+    elements: _elements,
+    returnConfig: _returnConfig,
+    ...withdrawalPhase
+  } = buildWithdrawalCalculationParams({
+    elemente: [],
+    startOfIndependence: context.startEnd[0],
+    endOfLife: context.endOfLife,
+    formValue: withdrawalConfig.formValue,
+    withdrawalReturnConfig: { mode: 'fixed', fixedRate: 0 },
+    steuerlast: context.steuerlast / 100,
+    teilfreistellungsquote: context.teilfreistellungsquote / 100,
+    grundfreibetragAktiv: context.grundfreibetragAktiv,
+    grundfreibetragBetrag: context.grundfreibetragBetrag,
+    guenstigerPruefungAktiv: context.guenstigerPruefungAktiv,
+    personalTaxRate: context.personalTaxRate,
+    steuerReduzierenEndkapitalEntspharphase: context.steuerReduzierenEndkapitalEntspharphase,
+    effectiveStatutoryPensionConfig,
+    otherIncomeConfig: withdrawalConfig.otherIncomeConfig,
+    birthYear: context.birthYear || 1990,
+    spouseBirthYear: context.spouse?.birthYear,
+    planningMode: context.planningMode,
+    coupleStatutoryPensionConfig: context.coupleStatutoryPensionConfig,
+    coupleWithdrawalConfig: withdrawalConfig.coupleWithdrawalConfig,
+    getEffectiveLifeExpectancyTable: () => effectiveTable,
+    customLifeExpectancy: context.customLifeExpectancy,
+    realizedLossesByYear: getLossOffsetSimulationOptions(context.lossOffsetConfiguration, context.startEnd[0] + 1)
+      .realizedLossesByYear,
+    partTimeRetirementWorkConfig: withdrawalConfig.partTimeRetirementWorkConfig,
+    emRenteConfig: context.emRenteConfig || undefined,
+    spendenConfig: withdrawalConfig.spendenConfig,
+    propertyOwnershipConfig: context.propertyOwnershipConfig ?? undefined,
+  })
+
+  return withdrawalPhase
+}
+
+/**
+ * Build the Monte Carlo configuration (without the number of runs) from the simulation context
+ */
+function buildMonteCarloConfig(context: SimulationContextState): Omit<MonteCarloSimulationConfig, 'runs'> {
+  const { withdrawalConfig } = context
+
+  return {
+    savingsPhase: buildSavingsPhase(context),
+    savingsReturns: {
+      averageReturn: context.averageReturn / 100,
+      standardDeviation: context.standardDeviation / 100,
+      seed: context.randomSeed,
+    },
+    withdrawalPhase: withdrawalConfig ? buildWithdrawalPhase(context, withdrawalConfig) : undefined,
+    withdrawalReturns: getWithdrawalReturnConfig(withdrawalConfig, context.randomSeed),
+    birthYear: context.birthYear,
+  }
+}
+
+/**
+ * Hook to run the path-dependent Monte Carlo simulation with the current configuration.
+ * The runs are executed in the simulation worker pool; changed inputs cancel a running simulation.
+ */
+export function useMonteCarloSimulation() {
+  const context = useSimulation()
+  const [runs, setRuns] = useState(DEFAULT_MONTE_CARLO_RUNS)
+  const [result, setResult] = useState<MonteCarloSimulationResult | null>(null)
+  const [isRunning, setIsRunning] = useState(false)
+  const [progress, setProgress] = useState(0)
+
+  const config = useMemo(() => buildMonteCarloConfig(context), [context])
+
+  // Results of outdated inputs are not needed anymore
+  useEffect(() => () => getSimulationWorkerPool().cancel(MONTE_CARLO_JOB_KEY), [config])
+
+  const runSimulation = useCallback(async () => {
+    setIsRunning(true)
+    setProgress(0)
+    try {
+      const outcome = await getSimulationWorkerPool().run(
+        { kind: 'monteCarlo', config: { ...config, runs } },
+        {
+          key: MONTE_CARLO_JOB_KEY,
+          onProgress: (completed, total) => setProgress(Math.round((completed / total) * 100)),
+        },
+      )
+      if (outcome.status === 'completed') {
+        setResult(outcome.result)
+      }
+    } catch (error) {
+      console.error('Monte Carlo simulation error:', error)
+    }
+    setIsRunning(false)
+  }, [config, runs])
+
+  return { config, runs, setRuns, result, isRunning, progress, runSimulation }
+}
@@ -3,6 +3,7 @@ import { describe, it, expect } from 'vitest'
 import { renderHook } from '@testing-library/react'
 import { useReturnConfiguration } from './useReturnConfiguration'
 import { createDefaultMultiAssetConfig } from '../../helpers/multi-asset-portfolio'
+import { DEFAULT_STOCHASTIC_RETURN_SETTINGS } from '../utils/stochastic-returns'
 
 describe('useReturnConfiguration', () => {
   const defaultMultiAssetConfig = createDefaultMultiAssetConfig()
@@ -16,6 +17,7 @@ describe('useReturnConfiguration', () => {
       variableReturns: {},
       historicalIndex: '',
       multiAssetConfig: defaultMultiAssetConfig,
+      stochasticReturnSettings: DEFAULT_STOCHASTIC_RETURN_SETTINGS,
     }
 
     const { result } = renderHook(() => useReturnConfiguration(params))
@@ -36,6 +38,7 @@ describe('useReturnConfiguration', () => {
       variableReturns: {},
       historicalIndex: '',
       multiAssetConfig: defaultMultiAssetConfig,
+      stochasticReturnSettings: DEFAULT_STOCHASTIC_RETURN_SETTINGS,
     }
 
     const { result } = renderHook(() => useReturnConfiguration(params))
@@ -65,6 +68,7 @@ describe('useReturnConfiguration', () => {
       variableReturns,
       historicalIndex: '',
       multiAssetConfig: defaultMultiAssetConfig,
+      stochasticReturnSettings: DEFAULT_STOCHASTIC_RETURN_SETTINGS,
     }
 
     const { result } = renderHook(() => useReturnConfiguration(params))
@@ -86,6 +90,7 @@ describe('useReturnConfiguration', () => {
       variableReturns: {},
       historicalIndex: 'msci_world',
       multiAssetConfig: defaultMultiAssetConfig,
+      stochasticReturnSettings: DEFAULT_STOCHASTIC_RETURN_SETTINGS,
     }
 
     const { result } = renderHook(() => useReturnConfiguration(params))
@@ -110,6 +115,7 @@ describe('useReturnConfiguration', () => {
       variableReturns: {},
       historicalIndex: '',
       multiAssetConfig,
+      stochasticReturnSettings: DEFAULT_STOCHASTIC_RETURN_SETTINGS,
     }
 
     const { result } = renderHook(() => useReturnConfiguration(params))
@@ -120,6 +126,27 @@ describe('useReturnConfiguration', () => {
     })
   })
 
+  it('should build stochastic return configuration from the settings', () => {
+    const params = {
+      returnMode: 'student-t' as const,
+      rendite: 0,
+      averageReturn: 7,
+      standardDeviation: 15,
+      randomSeed: 42,
+      variableReturns: {},
+      historicalIndex: '',
+      multiAssetConfig: defaultMultiAssetConfig,
+      stochasticReturnSettings: { ...DEFAULT_STOCHASTIC_RETURN_SETTINGS, degreesOfFreedom: 4 },
+    }
+
+    const { result } = renderHook(() => useReturnConfiguration(params))
+
+    expect(result.current).toEqual({
+      mode: 'student-t',
+      studentTConfig: { averageReturn: 0.07, standardDeviation: 0.15, degreesOfFreedom: 4, seed: 42 },
+    })
+  })
+
   it('should recalculate when parameters change', () => {
     const initialParams = {
       returnMode: 'fixed' as const,
@@ -129,6 +156,7 @@ describe('useReturnConfiguration', () => {
       variableReturns: {},
       historicalIndex: '',
       multiAssetConfig: defaultMultiAssetConfig,
+      stochasticReturnSettings: DEFAULT_STOCHASTIC_RETURN_SETTINGS,
     }
 
     const { result, rerender } = renderHook(props => useReturnConfiguration(props), { initialProps: initialParams })
@@ -156,6 +184,7 @@ describe('useReturnConfiguration', () => {
       variableReturns: {},
       historicalIndex: '',
       multiAssetConfig: defaultMultiAssetConfig,
+      stochasticReturnSettings: DEFAULT_STOCHASTIC_RETURN_SETTINGS,
     }
 
     const { result } = renderHook(() => useReturnConfiguration(params))
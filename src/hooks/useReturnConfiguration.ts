@@ -1,6 +1,12 @@
 import { useMemo } from 'react'
 import type { ReturnConfiguration, ReturnMode } from '../utils/random-returns'
 import type { MultiAssetPortfolioConfig } from '../../helpers/multi-asset-portfolio'
+import {
+  buildStochasticReturnConfig,
+  isStochasticReturnMode,
+  type StochasticReturnSettings,
+} from '../utils/stochastic-returns'
+import { applyHistoricalBacktestSettings, type HistoricalBacktestSettings } from '../utils/historical-data'
 
 interface ReturnConfigurationParams {
   returnMode: ReturnMode
@@ -11,12 +17,24 @@ interface ReturnConfigurationParams {
   variableReturns: Record<number, number>
   historicalIndex: string
   multiAssetConfig: MultiAssetPortfolioConfig
+  stochasticReturnSettings: StochasticReturnSettings
+  historicalBacktestSettings?: HistoricalBacktestSettings
 }
 
 /**
  * Build return configuration based on mode and parameters
  */
 function buildReturnConfig(params: ReturnConfigurationParams): ReturnConfiguration {
+  if (isStochasticReturnMode(params.returnMode)) {
+    return buildStochasticReturnConfig({
+      mode: params.returnMode,
+      settings: params.stochasticReturnSettings,
+      averageReturn: params.averageReturn,
+      standardDeviation: params.standardDeviation,
+      seed: params.randomSeed,
+    })
+  }
+
   const {
     returnMode,
     rendite,
@@ -68,19 +86,25 @@ export function useReturnConfiguration({
   variableReturns,
   historicalIndex,
   multiAssetConfig,
+  stochasticReturnSettings,
+  historicalBacktestSettings,
 }: ReturnConfigurationParams): ReturnConfiguration {
   return useMemo(
     () =>
-      buildReturnConfig({
-        returnMode,
-        rendite,
-        averageReturn,
-        standardDeviation,
-        randomSeed,
-        variableReturns,
-        historicalIndex,
-        multiAssetConfig,
-      }),
+      applyHistoricalBacktestSettings(
+        buildReturnConfig({
+          returnMode,
+          rendite,
+          averageReturn,
+          standardDeviation,
+          randomSeed,
+          variableReturns,
+          historicalIndex,
+          multiAssetConfig,
+          stochasticReturnSettings,
+        }),
+        historicalBacktestSettings,
+      ),
     [
       returnMode,
       rendite,
@@ -90,6 +114,8 @@ export function useReturnConfiguration({
       variableReturns,
       historicalIndex,
       multiAssetConfig,
+      stochasticReturnSettings,
+      historicalBacktestSettings,
     ],
   )
 }
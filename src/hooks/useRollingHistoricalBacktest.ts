@@ -0,0 +1,91 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { useSimulation } from '../contexts/useSimulation'
+import type { SimulationContextState } from '../contexts/SimulationContext'
+import {
+  DEFAULT_ROLLING_BACKTEST_INDEX,
+  type RollingHistoricalBacktestConfig,
+  type RollingHistoricalBacktestResult,
+} from '../utils/rolling-historical-backtest'
+import { buildSegmentedWithdrawalConfig, getSegmentIncomeTaxSettings } from './useWithdrawalCalculations.helpers'
+import { buildSavingsPhase, buildWithdrawalPhase } from './useMonteCarloSimulation'
+import { getSimulationWorkerPool } from '../workers/simulation-worker-pool'
+
+/** Pool key of the rolling backtest; a new run cancels the stale one */
+const ROLLING_BACKTEST_JOB_KEY = 'rolling-historical-backtest'
+
+/**
+ * Build the withdrawal of the plan: the configured segments, or the single strategy with all its withdrawal
+ * parameters (taxes, health insurance, pensions)
+ */
+function buildBacktestWithdrawal(
+  context: SimulationContextState,
+): Pick<RollingHistoricalBacktestConfig, 'withdrawal' | 'withdrawalPhase'> {
+  const { withdrawalConfig } = context
+  if (!withdrawalConfig) {
+    return {}
+  }
+
+  const withdrawalPhase = buildWithdrawalPhase(context, withdrawalConfig)!
+  if (withdrawalConfig.useSegmentedWithdrawal && withdrawalConfig.withdrawalSegments.length > 0) {
+    return {
+      withdrawal: {
+        ...buildSegmentedWithdrawalConfig(
+          withdrawalConfig.withdrawalSegments,
+          withdrawalPhase.statutoryPensionConfig,
+          withdrawalPhase.realizedLossesByYear,
+          {
+            partTimeRetirementWorkConfig: withdrawalPhase.partTimeRetirementWorkConfig,
+            emRenteConfig: withdrawalPhase.emRenteConfig,
+            spendenConfig: withdrawalPhase.spendenConfig,
+          },
+        ),
+        ...getSegmentIncomeTaxSettings(withdrawalPhase),
+        teilfreistellungsquote: withdrawalPhase.teilfreistellungsquote,
+      },
+    }
+  }
+
+  return { withdrawalPhase }
+}
+
+/**
+ * Hook to backtest the configured plan with every historical start year of an index.
+ * The backtest runs in the simulation worker pool; changed inputs cancel a running backtest.
+ */
+export function useRollingHistoricalBacktest() {
+  const context = useSimulation()
+  const [indexId, setIndexId] = useState(DEFAULT_ROLLING_BACKTEST_INDEX)
+  const [result, setResult] = useState<RollingHistoricalBacktestResult | null>(null)
+  const [isRunning, setIsRunning] = useState(false)
+  const [progress, setProgress] = useState(0)
+
+  const config = useMemo<RollingHistoricalBacktestConfig>(
+    () => ({ indexId, savingsPhase: buildSavingsPhase(context), ...buildBacktestWithdrawal(context) }),
+    [context, indexId],
+  )
+
+  // Results of outdated inputs are not needed anymore
+  useEffect(() => () => getSimulationWorkerPool().cancel(ROLLING_BACKTEST_JOB_KEY), [config])
+
+  const runBacktest = useCallback(async () => {
+    setIsRunning(true)
+    setProgress(0)
+    try {
+      const outcome = await getSimulationWorkerPool().run(
+        { kind: 'rollingBacktest', config },
+        {
+          key: ROLLING_BACKTEST_JOB_KEY,
+          onProgress: (completed, total) => setProgress(Math.round((completed / total) * 100)),
+        },
+      )
+      if (outcome.status === 'completed') {
+        setResult(outcome.result)
+      }
+    } catch (error) {
+      console.error('Rolling historical backtest error:', error)
+    }
+    setIsRunning(false)
+  }, [config])
+
+  return { config, indexId, setIndexId, result, isRunning, progress, runBacktest }
+}
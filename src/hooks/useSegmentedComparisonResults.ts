@@ -10,6 +10,7 @@ function safelyCalculateSegmentedStrategy(
   strategy: SegmentedComparisonStrategy,
   elemente: SparplanElement[],
   steuerlast: number,
+  teilfreistellungsquote: number,
   startOfIndependence: number,
   endOfLife: number,
   planningMode: 'individual' | 'couple',
@@ -20,6 +21,7 @@ function safelyCalculateSegmentedStrategy(
       strategy,
       elemente,
       steuerlast,
+      teilfreistellungsquote,
       startOfIndependence,
       endOfLife,
       planningMode,
@@ -43,6 +45,7 @@ export function useSegmentedComparisonResults(
   startOfIndependence: number,
   currentConfig: WithdrawalConfiguration,
   steuerlast: number,
+  teilfreistellungsquote: number,
   effectiveStatutoryPensionConfig: StatutoryPensionConfig | null | undefined,
   withdrawalData: WithdrawalData,
 ) {
@@ -56,6 +59,7 @@ export function useSegmentedComparisonResults(
         strategy,
         elemente,
         steuerlast,
+        teilfreistellungsquote,
         startOfIndependence,
         endOfLife,
         planningMode || 'individual',
@@ -70,6 +74,7 @@ export function useSegmentedComparisonResults(
     startOfIndependence,
     endOfLife,
     steuerlast,
+    teilfreistellungsquote,
     planningMode,
     effectiveStatutoryPensionConfig,
   ])
@@ -1,42 +1,42 @@
-import { useMemo } from 'react'
+import { useEffect, useId, useMemo, useState } from 'react'
 import {
-  runSensitivityAnalysis,
   getMostImpactfulParameters,
-  SENSITIVITY_PARAMETERS,
   type SensitivityAnalysisConfig,
-  type SensitivityResult,
+  type SensitivityAnalysisResults,
 } from '../utils/sensitivity-analysis'
 import type { ReturnConfiguration } from '../utils/random-returns'
+import { getSimulationWorkerPool } from '../workers/simulation-worker-pool'
 
-interface AnalysisResults {
-  results: Map<string, SensitivityResult[]>
-  baseResults: Map<string, SensitivityResult>
-}
+const EMPTY_ANALYSIS_RESULTS: SensitivityAnalysisResults = { results: new Map(), baseResults: new Map() }
 
+/**
+ * Hook to run the sensitivity analysis of all parameters in the simulation worker pool.
+ * Changed inputs cancel a running analysis.
+ */
 export function useSensitivityAnalysis(config: SensitivityAnalysisConfig, returnConfig: ReturnConfiguration) {
-  // Run sensitivity analysis for all parameters
-  const analysisResults = useMemo<AnalysisResults>(() => {
-    const results = new Map<string, SensitivityResult[]>()
-    const baseResults = new Map<string, SensitivityResult>()
-
-    for (const [paramName, parameter] of Object.entries(SENSITIVITY_PARAMETERS)) {
-      const paramResults = runSensitivityAnalysis(parameter, config, returnConfig)
-
-      if (paramResults.length > 0) {
-        results.set(paramName, paramResults)
-
-        // Find the base result (closest to parameter's base value)
-        const baseResult = paramResults.reduce((prev, curr) =>
-          Math.abs(curr.parameterValue - parameter.baseValue) < Math.abs(prev.parameterValue - parameter.baseValue)
-            ? curr
-            : prev,
-        )
-        baseResults.set(paramName, baseResult)
-      }
-    }
-
-    return { results, baseResults }
-  }, [config, returnConfig])
+  const jobKey = `sensitivity-analysis-${useId()}`
+  const [analysisResults, setAnalysisResults] = useState<SensitivityAnalysisResults>(EMPTY_ANALYSIS_RESULTS)
+  const [isRunning, setIsRunning] = useState(true)
+
+  useEffect(() => {
+    const pool = getSimulationWorkerPool()
+    setIsRunning(true)
+    pool
+      .run({ kind: 'sensitivity', config, returnConfig }, { key: jobKey })
+      .then(outcome => {
+        if (outcome.status === 'completed') {
+          setAnalysisResults(outcome.result)
+          setIsRunning(false)
+        }
+      })
+      .catch(error => {
+        console.error('Sensitivity analysis error:', error)
+        setIsRunning(false)
+      })
+
+    // Results of outdated inputs are not needed anymore
+    return () => pool.cancel(jobKey)
+  }, [config, returnConfig, jobKey])
 
   // Get parameter ranking by impact
   const parameterRanking = useMemo(() => {
@@ -46,5 +46,6 @@ export function useSensitivityAnalysis(config: SensitivityAnalysisConfig, return
   return {
     analysisResults,
     parameterRanking,
+    isRunning,
   }
 }
@@ -3,7 +3,12 @@
  */
 
 import type { ReturnConfiguration } from '../utils/random-returns'
-import type { StatutoryPensionConfig } from '../../helpers/statutory-pension'
+import {
+  getStatutoryPensionMonthlyAmount,
+  getStatutoryPensionTaxablePercentage,
+  type CoupleStatutoryPensionConfig,
+  type StatutoryPensionConfig,
+} from '../../helpers/statutory-pension'
 import type { ComparisonStrategy, SegmentedComparisonStrategy, WithdrawalConfiguration } from '../utils/config-storage'
 import {
   calculateSegmentedWithdrawal,
@@ -13,6 +18,7 @@ import {
   type WithdrawalResultElement,
 } from '../../helpers/withdrawal'
 import { createPlanningModeAwareFreibetragPerYear } from '../utils/freibetrag-calculation'
+import { getSimulationWorkerPool } from '../workers/simulation-worker-pool'
 import type {
   BuildWithdrawalReturnConfigParams,
   CalculateComparisonStrategyParams,
@@ -23,7 +29,27 @@ import type { SparplanElement } from '../utils/sparplan-utils'
 import type { SegmentedWithdrawalConfig, WithdrawalSegment } from '../utils/segmented-withdrawal'
 import type { HealthCareInsuranceConfig } from '../../helpers/health-care-insurance'
 import type { OtherIncomeConfiguration } from '../../helpers/other-income'
+import type { CoupleWithdrawalConfig } from '../../helpers/couple-withdrawal'
 import type { MultiAssetPortfolioConfig } from '../../helpers/multi-asset-portfolio'
+import type { RealizedLossesConfig } from '../../helpers/loss-offset-accounts'
+import type { PropertyOwnershipConfig } from '../../helpers/immobilien-eigentum'
+import { resolveBedarfsorientierteConfig } from '../../helpers/bedarfsorientierte-entnahme'
+
+/**
+ * Besteuerungsanteil of both pensions, weighted by the monthly amounts
+ */
+function getCombinedTaxablePercentage(person1: StatutoryPensionConfig, person2: StatutoryPensionConfig): number {
+  const monthlyAmount1 = getStatutoryPensionMonthlyAmount(person1)
+  const monthlyAmount2 = getStatutoryPensionMonthlyAmount(person2)
+  const totalMonthlyAmount = monthlyAmount1 + monthlyAmount2
+  const percentage1 = getStatutoryPensionTaxablePercentage(person1)
+  const percentage2 = getStatutoryPensionTaxablePercentage(person2)
+
+  if (totalMonthlyAmount <= 0) {
+    return (percentage1 + percentage2) / 2
+  }
+  return (percentage1 * monthlyAmount1 + percentage2 * monthlyAmount2) / totalMonthlyAmount
+}
 
 /**
  * Convert couple statutory pension config to legacy single config for backward compatibility
@@ -38,9 +64,10 @@ function getCombinedPensionConfig(
   return {
     enabled: true,
     startYear: earlierStartYear,
-    monthlyAmount: person1.monthlyAmount + person2.monthlyAmount,
+    monthlyAmount: getStatutoryPensionMonthlyAmount(person1) + getStatutoryPensionMonthlyAmount(person2),
     annualIncreaseRate: (person1.annualIncreaseRate + person2.annualIncreaseRate) / 2,
-    taxablePercentage: (person1.taxablePercentage + person2.taxablePercentage) / 2,
+    taxablePercentage: getCombinedTaxablePercentage(person1, person2),
+    taxablePercentageMode: 'manual',
     retirementAge: Math.min(person1.retirementAge || 67, person2.retirementAge || 67),
   }
 }
@@ -189,6 +216,7 @@ export function calculateSegmentedStrategyResult(
   strategy: SegmentedComparisonStrategy,
   elemente: SparplanElement[],
   steuerlast: number,
+  teilfreistellungsquote: number,
   startOfIndependence: number,
   endOfLife: number,
   planningMode: 'individual' | 'couple',
@@ -198,6 +226,7 @@ export function calculateSegmentedStrategyResult(
   const segmentedConfig: SegmentedWithdrawalConfig = {
     segments: strategy.segments,
     taxRate: steuerlast,
+    teilfreistellungsquote,
     freibetragPerYear: createPlanningModeAwareFreibetragPerYear(
       startOfIndependence + 1,
       endOfLife,
@@ -296,18 +325,14 @@ function buildSteueroptimierteEntnahmeConfig(strategy: CalculateComparisonStrate
  * Build withdrawal calculation parameters from comparison strategy
  */
 function buildTaxConfig(params: CalculateComparisonStrategyParams) {
-  const {
-    startOfIndependence,
-    endOfLife,
-    grundfreibetragAktiv,
-    grundfreibetragBetrag,
-  } = params
-
-  const grundfreibetragPerYear = grundfreibetragAktiv
-    ? buildGrundfreibetragPerYear(startOfIndependence, endOfLife, grundfreibetragBetrag)
-    : undefined
-
-  return { grundfreibetragPerYear }
+  return buildWithdrawalTaxParams({
+    ...params,
+    formValue: {
+      einkommensteuersatz: params.einkommensteuersatz,
+      einkommensteuerPauschal: params.einkommensteuerPauschal,
+      einkommensteuerTarifIndexierung: params.einkommensteuerTarifIndexierung,
+    },
+  })
 }
 
 function buildStrategyConfigs(
@@ -347,18 +372,16 @@ function buildWithdrawalParams(
     steuerlast,
     teilfreistellungsquote,
     planningMode,
-    grundfreibetragAktiv,
     steuerReduzierenEndkapitalEntspharphase,
     effectiveStatutoryPensionConfig,
     otherIncomeConfig,
     healthCareInsuranceConfig,
     birthYear,
     customLifeExpectancy,
-    guenstigerPruefungAktiv,
     getEffectiveLifeExpectancyTable,
   } = params
 
-  const { grundfreibetragPerYear } = buildTaxConfig(params)
+  const taxParams = buildTaxConfig(params)
   const strategyConfigs = buildStrategyConfigs(strategy, getEffectiveLifeExpectancyTable, customLifeExpectancy)
   const effectiveHealthCareInsuranceConfig = buildEffectiveHealthCareInsuranceConfig(healthCareInsuranceConfig)
 
@@ -372,14 +395,13 @@ function buildWithdrawalParams(
     teilfreistellungsquote,
     freibetragPerYear: createPlanningModeAwareFreibetragPerYear(startOfIndependence + 1, endOfLife, planningMode),
     ...strategyConfigs,
-    enableGrundfreibetrag: grundfreibetragAktiv,
-    grundfreibetragPerYear,
+    ...taxParams,
     steuerReduzierenEndkapital: steuerReduzierenEndkapitalEntspharphase,
     statutoryPensionConfig: effectiveStatutoryPensionConfig || undefined,
     otherIncomeConfig,
     healthCareInsuranceConfig: effectiveHealthCareInsuranceConfig,
     birthYear,
-    guenstigerPruefungAktiv,
+    planningMode,
   }
 }
 
@@ -414,9 +436,28 @@ function calculateWithdrawalMetrics(
 }
 
 /**
- * Calculate a single comparison strategy and return its results
+ * Result of a comparison strategy whose withdrawal calculation failed
+ */
+function createFailedComparisonStrategyResult(strategy: ComparisonStrategy): ComparisonStrategyResult {
+  return {
+    strategy,
+    finalCapital: 0,
+    totalWithdrawal: 0,
+    averageAnnualWithdrawal: 0,
+    duration: 'Fehler',
+  }
+}
+
+/**
+ * Calculate a single comparison strategy in the simulation worker pool
+ *
+ * @param key - Job key, a new job with the same key cancels the running one
+ * @returns The results of the strategy, or null when the job was cancelled
  */
-export function calculateComparisonStrategy(params: CalculateComparisonStrategyParams): ComparisonStrategyResult {
+export async function runComparisonStrategy(
+  params: CalculateComparisonStrategyParams,
+  key: string,
+): Promise<ComparisonStrategyResult | null> {
   const { strategy, startOfIndependence } = params
 
   // Build return configuration for this strategy
@@ -426,47 +467,122 @@ export function calculateComparisonStrategy(params: CalculateComparisonStrategyP
   }
 
   try {
-    // Calculate withdrawal for this comparison strategy
     const withdrawalParams = buildWithdrawalParams(params, strategy, returnConfig)
-    const { result } = calculateWithdrawal(withdrawalParams)
-
-    // Calculate metrics from result
-    const metrics = calculateWithdrawalMetrics(result, startOfIndependence)
+    const outcome = await getSimulationWorkerPool().run({ kind: 'withdrawal', params: withdrawalParams }, { key })
+    if (outcome.status === 'cancelled') {
+      return null
+    }
 
     return {
       strategy,
-      ...metrics,
+      ...calculateWithdrawalMetrics(outcome.result, startOfIndependence),
     }
   } catch (error) {
     console.error(`Error calculating withdrawal for strategy ${strategy.name}:`, error)
-    return {
-      strategy,
-      finalCapital: 0,
-      totalWithdrawal: 0,
-      averageAnnualWithdrawal: 0,
-      duration: 'Fehler',
-    }
+    return createFailedComparisonStrategyResult(strategy)
   }
 }
 
 /**
- * Build segmented withdrawal result
+ * Part-time work in retirement and EM-Rente, whose income reduces the withdrawals and is taxed with them,
+ * and donations, which reduce the income tax of the withdrawal years
  */
-export function buildSegmentedWithdrawalResult(params: {
-  elemente: SparplanElement[]
-  withdrawalSegments: WithdrawalSegment[]
-  effectiveStatutoryPensionConfig: StatutoryPensionConfig | null | undefined
-}): WithdrawalResult {
-  const { elemente, withdrawalSegments, effectiveStatutoryPensionConfig } = params
+export type IncomeTaxConfigs = Pick<
+  SegmentedWithdrawalConfig,
+  'partTimeRetirementWorkConfig' | 'emRenteConfig' | 'spendenConfig'
+>
 
-  const segmentedConfig = {
+/**
+ * Build the segmented withdrawal configuration of the user's withdrawal segments
+ */
+export function buildSegmentedWithdrawalConfig(
+  withdrawalSegments: WithdrawalSegment[],
+  effectiveStatutoryPensionConfig: StatutoryPensionConfig | null | undefined,
+  realizedLossesByYear?: Record<number, RealizedLossesConfig>,
+  incomeTaxConfigs: IncomeTaxConfigs = {},
+): SegmentedWithdrawalConfig {
+  return {
     segments: withdrawalSegments,
     taxRate: 0.26375,
     freibetragPerYear: undefined,
     statutoryPensionConfig: effectiveStatutoryPensionConfig || undefined,
+    realizedLossesByYear,
+    ...incomeTaxConfigs,
   }
+}
+
+/**
+ * Income tax settings shared by all withdrawal segments, with the health insurance contributions and other
+ * income that enter the taxable income
+ */
+export type SegmentIncomeTaxSettings = Pick<
+  SegmentedWithdrawalConfig,
+  | 'enableGrundfreibetrag'
+  | 'grundfreibetragPerYear'
+  | 'incomeTaxRate'
+  | 'incomeTaxTariffIndexation'
+  | 'guenstigerPruefungAktiv'
+  | 'healthCareInsuranceConfig'
+  | 'otherIncomeConfig'
+>
 
-  return calculateSegmentedWithdrawal(elemente, segmentedConfig)
+/**
+ * Income tax settings of the withdrawal parameters for the segments
+ */
+export function getSegmentIncomeTaxSettings(params: SegmentIncomeTaxSettings): SegmentIncomeTaxSettings {
+  return {
+    enableGrundfreibetrag: params.enableGrundfreibetrag,
+    grundfreibetragPerYear: params.grundfreibetragPerYear,
+    incomeTaxRate: params.incomeTaxRate,
+    incomeTaxTariffIndexation: params.incomeTaxTariffIndexation,
+    guenstigerPruefungAktiv: params.guenstigerPruefungAktiv,
+    healthCareInsuranceConfig: params.healthCareInsuranceConfig,
+    otherIncomeConfig: params.otherIncomeConfig,
+  }
+}
+
+/**
+ * Build segmented withdrawal result
+ */
+export function buildSegmentedWithdrawalResult(params: {
+  elemente: SparplanElement[]
+  withdrawalSegments: WithdrawalSegment[]
+  effectiveStatutoryPensionConfig: StatutoryPensionConfig | null | undefined
+  startOfIndependence: number
+  endOfLife: number
+  formValue: WithdrawalConfiguration['formValue']
+  grundfreibetragAktiv: boolean
+  grundfreibetragBetrag: number
+  guenstigerPruefungAktiv: boolean
+  otherIncomeConfig: OtherIncomeConfiguration | undefined
+  realizedLossesByYear?: Record<number, RealizedLossesConfig>
+  teilfreistellungsquote?: number
+  birthYear?: number
+  spouseBirthYear?: number
+  planningMode?: 'individual' | 'couple'
+  coupleStatutoryPensionConfig?: CoupleStatutoryPensionConfig | null
+  coupleWithdrawalConfig?: CoupleWithdrawalConfig
+  propertyOwnershipConfig?: PropertyOwnershipConfig
+} & IncomeTaxConfigs): WithdrawalResult {
+  const { elemente, withdrawalSegments, effectiveStatutoryPensionConfig, realizedLossesByYear } = params
+
+  return calculateSegmentedWithdrawal(elemente, {
+    ...buildSegmentedWithdrawalConfig(withdrawalSegments, effectiveStatutoryPensionConfig, realizedLossesByYear, {
+      partTimeRetirementWorkConfig: params.partTimeRetirementWorkConfig,
+      emRenteConfig: params.emRenteConfig,
+      spendenConfig: params.spendenConfig,
+    }),
+    ...buildWithdrawalTaxParams(params),
+    healthCareInsuranceConfig: buildHealthCareInsuranceConfig(params.formValue),
+    otherIncomeConfig: params.otherIncomeConfig,
+    teilfreistellungsquote: params.teilfreistellungsquote,
+    birthYear: params.birthYear,
+    spouseBirthYear: params.spouseBirthYear,
+    planningMode: params.planningMode,
+    coupleStatutoryPensionConfig: params.coupleStatutoryPensionConfig || undefined,
+    coupleWithdrawalConfig: params.coupleWithdrawalConfig,
+    propertyOwnershipConfig: params.propertyOwnershipConfig,
+  })
 }
 
 /**
@@ -477,23 +593,25 @@ function buildWithdrawalTaxParams(params: {
   grundfreibetragBetrag: number
   startOfIndependence: number
   endOfLife: number
-  formValue: WithdrawalConfiguration['formValue']
+  formValue: Pick<
+    WithdrawalConfiguration['formValue'],
+    'einkommensteuersatz' | 'einkommensteuerPauschal' | 'einkommensteuerTarifIndexierung'
+  >
   guenstigerPruefungAktiv: boolean
 }) {
   const { grundfreibetragAktiv, grundfreibetragBetrag, startOfIndependence, endOfLife, formValue, guenstigerPruefungAktiv } = params
 
-  // Income tax rate is only used when Grundfreibetrag is active WITHOUT Günstigerprüfung
-  // When Günstigerprüfung is active, progressive tax is used automatically
-  const incomeTaxRate = grundfreibetragAktiv && !guenstigerPruefungAktiv
-    ? formValue.einkommensteuersatz / 100
-    : undefined
+  // The §32a tariff of the year (with its Grundfreibetrag) applies unless the legacy flat income tax rate is chosen.
+  // The flat rate and the fixed Grundfreibetrag are only used without Günstigerprüfung
+  const flatIncomeTax = grundfreibetragAktiv && !guenstigerPruefungAktiv && formValue.einkommensteuerPauschal === true
 
   return {
     enableGrundfreibetrag: grundfreibetragAktiv,
-    grundfreibetragPerYear: grundfreibetragAktiv
+    grundfreibetragPerYear: flatIncomeTax
       ? buildGrundfreibetragPerYear(startOfIndependence, endOfLife, grundfreibetragBetrag)
       : undefined,
-    incomeTaxRate,
+    incomeTaxRate: flatIncomeTax ? formValue.einkommensteuersatz / 100 : undefined,
+    incomeTaxTariffIndexation: formValue.einkommensteuerTarifIndexierung,
     guenstigerPruefungAktiv,
   }
 }
@@ -518,12 +636,9 @@ function buildAllStrategyConfigs(
 }
 
 /**
- * Build single strategy withdrawal result
- */
-/**
- * Build withdrawal calculation parameters from form value and context
+ * Parameters for building the withdrawal calculation
  */
-function buildWithdrawalCalculationParams(params: {
+export type BuildWithdrawalCalculationParams = {
   elemente: SparplanElement[]
   startOfIndependence: number
   endOfLife: number
@@ -539,9 +654,22 @@ function buildWithdrawalCalculationParams(params: {
   effectiveStatutoryPensionConfig: StatutoryPensionConfig | null | undefined
   otherIncomeConfig: OtherIncomeConfiguration | undefined
   birthYear: number
+  spouseBirthYear?: number
+  planningMode?: 'individual' | 'couple'
+  coupleStatutoryPensionConfig?: CoupleStatutoryPensionConfig | null
+  coupleWithdrawalConfig?: CoupleWithdrawalConfig
   getEffectiveLifeExpectancyTable: () => 'german_2020_22' | 'german_male_2020_22' | 'german_female_2020_22' | 'custom'
   customLifeExpectancy: number | undefined
-}) {
+  /** Losses realized outside of the portfolio per year (only when the Verlustverrechnung is enabled) */
+  realizedLossesByYear?: Record<number, RealizedLossesConfig>
+  /** Owned property, whose mortgage payments and sale proceeds continue in the withdrawal phase */
+  propertyOwnershipConfig?: PropertyOwnershipConfig
+} & IncomeTaxConfigs
+
+/**
+ * Build withdrawal calculation parameters from form value and context
+ */
+export function buildWithdrawalCalculationParams(params: BuildWithdrawalCalculationParams) {
   const taxParams = buildWithdrawalTaxParams(params)
   const strategyConfigs = buildAllStrategyConfigs(
     params.formValue,
@@ -560,6 +688,11 @@ function buildWithdrawalCalculationParams(params: {
     teilfreistellungsquote: params.teilfreistellungsquote,
     freibetragPerYear: undefined,
     ...strategyConfigs,
+    bedarfsorientierteConfig: buildBedarfsorientierteConfigFromFormValue(
+      params.formValue,
+      params.startOfIndependence + 1,
+      params.birthYear,
+    ),
     ...taxParams,
     inflationConfig: params.formValue.inflationAktiv
       ? { inflationRate: params.formValue.inflationsrate / 100 }
@@ -569,9 +702,21 @@ function buildWithdrawalCalculationParams(params: {
     otherIncomeConfig: params.otherIncomeConfig,
     healthCareInsuranceConfig: buildHealthCareInsuranceConfig(params.formValue),
     birthYear: params.birthYear,
+    spouseBirthYear: params.spouseBirthYear,
+    planningMode: params.planningMode,
+    coupleStatutoryPensionConfig: params.coupleStatutoryPensionConfig || undefined,
+    coupleWithdrawalConfig: params.coupleWithdrawalConfig,
+    realizedLossesByYear: params.realizedLossesByYear,
+    partTimeRetirementWorkConfig: params.partTimeRetirementWorkConfig,
+    emRenteConfig: params.emRenteConfig,
+    spendenConfig: params.spendenConfig,
+    propertyOwnershipConfig: params.propertyOwnershipConfig,
   }
 }
 
+/**
+ * Build single strategy withdrawal result
+ */
 export function buildSingleStrategyWithdrawalResult(params: {
   elemente: SparplanElement[]
   startOfIndependence: number
@@ -593,9 +738,15 @@ export function buildSingleStrategyWithdrawalResult(params: {
   effectiveStatutoryPensionConfig: StatutoryPensionConfig | null | undefined
   otherIncomeConfig: OtherIncomeConfiguration | undefined
   birthYear: number
+  spouseBirthYear?: number
+  planningMode?: 'individual' | 'couple'
+  coupleStatutoryPensionConfig?: CoupleStatutoryPensionConfig | null
+  coupleWithdrawalConfig?: CoupleWithdrawalConfig
   getEffectiveLifeExpectancyTable: () => 'german_2020_22' | 'german_male_2020_22' | 'german_female_2020_22' | 'custom'
   customLifeExpectancy: number | undefined
-}): WithdrawalResult {
+  realizedLossesByYear?: Record<number, RealizedLossesConfig>
+  propertyOwnershipConfig?: PropertyOwnershipConfig
+} & IncomeTaxConfigs): WithdrawalResult {
   const withdrawalReturnConfig = buildWithdrawalReturnConfig({
     withdrawalReturnMode: params.withdrawalReturnMode,
     withdrawalVariableReturns: params.withdrawalVariableReturns,
@@ -709,6 +860,19 @@ function buildSteueroptimierteEntnahmeConfigFromFormValue(formValue: WithdrawalC
     : undefined
 }
 
+/**
+ * Build the spending models of the bedarfsorientiert strategy from form value
+ */
+function buildBedarfsorientierteConfigFromFormValue(
+  formValue: WithdrawalConfiguration['formValue'],
+  startYear: number,
+  birthYear: number | undefined,
+) {
+  return formValue.strategie === 'bedarfsorientiert'
+    ? resolveBedarfsorientierteConfig(formValue.bedarfsorientierteConfig, startYear, birthYear)
+    : undefined
+}
+
 /**
  * Build health care insurance config from form value
  */
@@ -77,6 +77,7 @@ export function useWithdrawalCalculations(
     startOfIndependence,
     currentConfig,
     steuerlast,
+    teilfreistellungsquote,
     effectiveStatutoryPensionConfig,
     withdrawalData,
   )
@@ -4,6 +4,7 @@
 
 import type { WithdrawalConfiguration } from '../utils/config-storage'
 import type { CoupleStatutoryPensionConfig, StatutoryPensionConfig } from '../../helpers/statutory-pension'
+import type { IncomeTaxTariffIndexation } from '../../helpers/income-tax-tariff'
 
 /**
  * Parameters for converting couple statutory pension config to legacy format
@@ -40,6 +41,9 @@ export interface CalculateComparisonStrategyParams {
   grundfreibetragAktiv: boolean
   grundfreibetragBetrag: number
   einkommensteuersatz: number
+  /** Legacy flat einkommensteuersatz instead of the §32a tariff of the year */
+  einkommensteuerPauschal?: boolean
+  einkommensteuerTarifIndexierung?: IncomeTaxTariffIndexation
   steuerReduzierenEndkapitalEntspharphase: boolean
   effectiveStatutoryPensionConfig: StatutoryPensionConfig | null
   otherIncomeConfig: WithdrawalConfiguration['otherIncomeConfig']
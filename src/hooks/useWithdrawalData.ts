@@ -3,13 +3,20 @@ import type { SparplanElement } from '../utils/sparplan-utils'
 import { getTotalCapitalAtYear, calculateWithdrawalDuration, type WithdrawalResult } from '../../helpers/withdrawal'
 import type { WithdrawalConfiguration } from '../utils/config-storage'
 import { useSimulation } from '../contexts/useSimulation'
-import type { StatutoryPensionConfig } from '../../helpers/statutory-pension'
+import type { CoupleStatutoryPensionConfig, StatutoryPensionConfig } from '../../helpers/statutory-pension'
 import type { MultiAssetPortfolioConfig } from '../../helpers/multi-asset-portfolio'
+import type { PropertyOwnershipConfig } from '../../helpers/immobilien-eigentum'
 import {
   buildSegmentedWithdrawalResult,
   buildSingleStrategyWithdrawalResult,
+  type IncomeTaxConfigs,
 } from './useWithdrawalCalculations.helpers'
 import { getEffectiveLifeExpectancyTable } from './useWithdrawalCalculations'
+import {
+  getLossOffsetSimulationOptions,
+  type LossOffsetConfiguration,
+  type RealizedLossesConfig,
+} from '../../helpers/loss-offset-accounts'
 
 /**
  * Calculate starting capital and return null if invalid
@@ -65,9 +72,15 @@ type BuildWithdrawalResultParams = {
   steuerReduzierenEndkapitalEntspharphase: boolean
   otherIncomeConfig: WithdrawalConfiguration['otherIncomeConfig']
   birthYear: number
+  spouseBirthYear: number | undefined
+  planningMode: 'individual' | 'couple'
+  coupleStatutoryPensionConfig: CoupleStatutoryPensionConfig | null | undefined
+  coupleWithdrawalConfig: WithdrawalConfiguration['coupleWithdrawalConfig']
   effectiveTable: 'german_2020_22' | 'german_male_2020_22' | 'german_female_2020_22' | 'custom'
   customLifeExpectancy: number | undefined
-}
+  realizedLossesByYear: Record<number, RealizedLossesConfig> | undefined
+  propertyOwnershipConfig: PropertyOwnershipConfig | undefined
+} & IncomeTaxConfigs
 
 /**
  * Compute withdrawal data from result
@@ -88,16 +101,41 @@ function computeWithdrawalData(
   }
 }
 
+/**
+ * Build the withdrawal result of the user's withdrawal segments
+ */
+function buildSegmentedResult(params: BuildWithdrawalResultParams): WithdrawalResult {
+  return buildSegmentedWithdrawalResult({
+    elemente: params.elemente,
+    withdrawalSegments: params.withdrawalSegments,
+    effectiveStatutoryPensionConfig: params.effectiveStatutoryPensionConfig,
+    startOfIndependence: params.startOfIndependence,
+    endOfLife: params.endOfLife,
+    formValue: params.formValue,
+    grundfreibetragAktiv: params.grundfreibetragAktiv,
+    grundfreibetragBetrag: params.grundfreibetragBetrag,
+    guenstigerPruefungAktiv: params.guenstigerPruefungAktiv,
+    otherIncomeConfig: params.otherIncomeConfig,
+    realizedLossesByYear: params.realizedLossesByYear,
+    partTimeRetirementWorkConfig: params.partTimeRetirementWorkConfig,
+    emRenteConfig: params.emRenteConfig,
+    spendenConfig: params.spendenConfig,
+    teilfreistellungsquote: params.teilfreistellungsquote,
+    birthYear: params.birthYear,
+    spouseBirthYear: params.spouseBirthYear,
+    planningMode: params.planningMode,
+    coupleStatutoryPensionConfig: params.coupleStatutoryPensionConfig,
+    coupleWithdrawalConfig: params.coupleWithdrawalConfig,
+    propertyOwnershipConfig: params.propertyOwnershipConfig,
+  })
+}
+
 /**
  * Build withdrawal result based on configuration
  */
 function buildWithdrawalResult(params: BuildWithdrawalResultParams): WithdrawalResult {
   if (params.useSegmentedWithdrawal) {
-    return buildSegmentedWithdrawalResult({
-      elemente: params.elemente,
-      withdrawalSegments: params.withdrawalSegments,
-      effectiveStatutoryPensionConfig: params.effectiveStatutoryPensionConfig,
-    })
+    return buildSegmentedResult(params)
   }
 
   return buildSingleStrategyWithdrawalResult({
@@ -121,8 +159,17 @@ function buildWithdrawalResult(params: BuildWithdrawalResultParams): WithdrawalR
     effectiveStatutoryPensionConfig: params.effectiveStatutoryPensionConfig,
     otherIncomeConfig: params.otherIncomeConfig,
     birthYear: params.birthYear,
+    spouseBirthYear: params.spouseBirthYear,
+    planningMode: params.planningMode,
+    coupleStatutoryPensionConfig: params.coupleStatutoryPensionConfig,
+    coupleWithdrawalConfig: params.coupleWithdrawalConfig,
     getEffectiveLifeExpectancyTable: () => params.effectiveTable,
     customLifeExpectancy: params.customLifeExpectancy,
+    realizedLossesByYear: params.realizedLossesByYear,
+    partTimeRetirementWorkConfig: params.partTimeRetirementWorkConfig,
+    emRenteConfig: params.emRenteConfig,
+    spendenConfig: params.spendenConfig,
+    propertyOwnershipConfig: params.propertyOwnershipConfig,
   })
 }
 
@@ -145,6 +192,8 @@ function useSimulationValuesForWithdrawal() {
     guenstigerPruefungAktiv,
     personalTaxRate,
     withdrawalMultiAssetConfig,
+    coupleStatutoryPensionConfig,
+    lossOffsetConfiguration,
   } = simulationContext
 
   return useMemo(() => ({
@@ -160,6 +209,8 @@ function useSimulationValuesForWithdrawal() {
     guenstigerPruefungAktiv,
     personalTaxRate,
     withdrawalMultiAssetConfig,
+    coupleStatutoryPensionConfig,
+    lossOffsetConfiguration,
   }), [
     steuerReduzierenEndkapitalEntspharphase,
     grundfreibetragAktiv,
@@ -173,6 +224,8 @@ function useSimulationValuesForWithdrawal() {
     guenstigerPruefungAktiv,
     personalTaxRate,
     withdrawalMultiAssetConfig,
+    coupleStatutoryPensionConfig,
+    lossOffsetConfiguration,
   ])
 }
 
@@ -188,10 +241,12 @@ function useWithdrawalCalculationParams(
   effectiveStatutoryPensionConfig: StatutoryPensionConfig | null | undefined,
 ) {
   const simValues = useSimulationValuesForWithdrawal()
+  const { emRenteConfig, propertyOwnershipConfig, spouse } = useSimulation()
   const {
     formValue, withdrawalReturnMode, withdrawalVariableReturns,
     withdrawalAverageReturn, withdrawalStandardDeviation, withdrawalRandomSeed,
-    useSegmentedWithdrawal, withdrawalSegments, otherIncomeConfig,
+    useSegmentedWithdrawal, withdrawalSegments, otherIncomeConfig, partTimeRetirementWorkConfig, spendenConfig,
+    coupleWithdrawalConfig,
   } = currentConfig
   
   return useMemo(() => ({
@@ -201,6 +256,7 @@ function useWithdrawalCalculationParams(
     steuerlast,
     teilfreistellungsquote,
     ...simValues,
+    spouseBirthYear: spouse?.birthYear,
     formValue,
     withdrawalReturnMode,
     withdrawalVariableReturns,
@@ -210,15 +266,33 @@ function useWithdrawalCalculationParams(
     useSegmentedWithdrawal,
     withdrawalSegments,
     otherIncomeConfig,
+    partTimeRetirementWorkConfig,
+    emRenteConfig,
+    spendenConfig,
+    coupleWithdrawalConfig,
+    propertyOwnershipConfig,
   }), [
     elemente, startOfIndependence, effectiveStatutoryPensionConfig,
-    steuerlast, teilfreistellungsquote, simValues,
+    steuerlast, teilfreistellungsquote, simValues, spouse,
     formValue, withdrawalReturnMode, withdrawalVariableReturns,
     withdrawalAverageReturn, withdrawalStandardDeviation, withdrawalRandomSeed,
-    useSegmentedWithdrawal, withdrawalSegments, otherIncomeConfig,
+    useSegmentedWithdrawal, withdrawalSegments, otherIncomeConfig, partTimeRetirementWorkConfig, emRenteConfig,
+    spendenConfig, coupleWithdrawalConfig, propertyOwnershipConfig,
   ])
 }
 
+/**
+ * External realized losses of the withdrawal years, only when the Verlustverrechnung is enabled
+ */
+function getRealizedLossesByYear(
+  lossOffsetConfiguration: LossOffsetConfiguration | undefined,
+  startOfIndependence: number,
+): Record<number, RealizedLossesConfig> | undefined {
+  return lossOffsetConfiguration
+    ? getLossOffsetSimulationOptions(lossOffsetConfiguration, startOfIndependence + 1).realizedLossesByYear
+    : undefined
+}
+
 /**
  * Build parameters for withdrawal result calculation
  */
@@ -249,8 +323,17 @@ function buildWithdrawalResultParams(
     steuerReduzierenEndkapitalEntspharphase: params.steuerReduzierenEndkapitalEntspharphase,
     otherIncomeConfig: params.otherIncomeConfig,
     birthYear: params.birthYear || 1990,
+    spouseBirthYear: params.spouseBirthYear,
+    planningMode: params.planningMode,
+    coupleStatutoryPensionConfig: params.coupleStatutoryPensionConfig,
+    coupleWithdrawalConfig: params.coupleWithdrawalConfig,
     effectiveTable,
     customLifeExpectancy: params.customLifeExpectancy,
+    realizedLossesByYear: getRealizedLossesByYear(params.lossOffsetConfiguration, params.startOfIndependence),
+    partTimeRetirementWorkConfig: params.partTimeRetirementWorkConfig,
+    emRenteConfig: params.emRenteConfig || undefined,
+    spendenConfig: params.spendenConfig,
+    propertyOwnershipConfig: params.propertyOwnershipConfig ?? undefined,
   }
 }
 
@@ -15,6 +15,7 @@ import {
   createHealthCareInsuranceExplanation,
 } from '../components/calculationHelpers'
 import type { CalculationExplanation, WithdrawalSegment, RowData, HandlerContext } from './useWithdrawalModals.types'
+import { getIncomeTaxTariffForYear } from '../../helpers/income-tax-tariff'
 
 /**
  * Find the applicable segment for a given year
@@ -126,21 +127,46 @@ export function handleIncomeTaxExplanation(params: {
     return null
   }
 
-  const grundfreibetragAmount = context.grundfreibetragAktiv ? context.grundfreibetragBetrag : 0
-
-  const incomeTaxRate = applicableSegment?.incomeTaxRate
-    ? applicableSegment.incomeTaxRate * 100
-    : context.formValue.einkommensteuersatz || 18
+  const segmentIncomeTaxRate = applicableSegment?.incomeTaxRate
+  // Without the legacy flat income tax rate, the tariff of the year (with its Grundfreibetrag) applies
+  if (!segmentIncomeTaxRate && !context.formValue.einkommensteuerPauschal) {
+    return createTariffIncomeTaxExplanation(rowData, rowData.einkommensteuer, context)
+  }
 
   return createIncomeTaxExplanation(
     rowData.entnahme || 0,
-    grundfreibetragAmount,
-    incomeTaxRate,
+    getGrundfreibetragAmount(context.grundfreibetragAktiv, context.grundfreibetragBetrag),
+    getFlatIncomeTaxRatePercent(segmentIncomeTaxRate, context),
     rowData.einkommensteuer,
     rowData.genutzterGrundfreibetrag || 0,
   )
 }
 
+/**
+ * Legacy flat income tax rate in percent: rate of the segment or of the withdrawal form
+ */
+function getFlatIncomeTaxRatePercent(segmentIncomeTaxRate: number | undefined, context: HandlerContext): number {
+  return segmentIncomeTaxRate ? segmentIncomeTaxRate * 100 : context.formValue.einkommensteuersatz || 18
+}
+
+/**
+ * Income tax explanation with the §32a tariff of the row's year
+ */
+function createTariffIncomeTaxExplanation(
+  rowData: RowData,
+  einkommensteuer: number,
+  context: HandlerContext,
+): CalculationExplanation {
+  return createIncomeTaxExplanation(
+    rowData.entnahme || 0,
+    getIncomeTaxTariffForYear(rowData.year, context.formValue.einkommensteuerTarifIndexierung).grundfreibetrag,
+    0,
+    einkommensteuer,
+    rowData.genutzterGrundfreibetrag || 0,
+    rowData.year,
+  )
+}
+
 /**
  * Get Grundfreibetrag amount
  */
@@ -3,6 +3,7 @@
  */
 
 import type { VorabpauschaleDetails } from '../utils/simulate'
+import type { IncomeTaxTariffIndexation } from '../../helpers/income-tax-tariff'
 
 export type { VorabpauschaleDetails }
 
@@ -13,6 +14,8 @@ export interface ModalWithdrawalFormValue extends Record<string, unknown> {
   inflationsrate?: number
   rendite?: number
   einkommensteuersatz?: number
+  einkommensteuerPauschal?: boolean
+  einkommensteuerTarifIndexierung?: IncomeTaxTariffIndexation
 }
 
 export interface ReturnConfig extends Record<string, unknown> {
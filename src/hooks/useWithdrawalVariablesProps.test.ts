@@ -96,6 +96,7 @@ describe('useWithdrawalVariablesProps', () => {
     healthCareInsuranceHandlers: mockHealthCareInsuranceHandlers,
     coupleStatutoryPensionConfig: null,
     setCoupleStatutoryPensionConfig: vi.fn(),
+    depots: [],
   }
 
   it('should return properly formatted props for WithdrawalVariablesCard', () => {
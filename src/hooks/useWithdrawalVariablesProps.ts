@@ -11,6 +11,15 @@ import type { MultiAssetPortfolioConfig } from '../../helpers/multi-asset-portfo
 import type { HealthCareInsuranceChangeHandlers } from '../components/HealthCareInsuranceConfiguration'
 import type { CoupleStatutoryPensionConfig } from '../../helpers/statutory-pension'
 import type { PartTimeRetirementWorkConfig } from '../../helpers/part-time-retirement-work'
+import type { SpendenConfig } from '../../helpers/spenden'
+import type { CoupleWithdrawalConfig } from '../../helpers/couple-withdrawal'
+import type { BankAccount } from '../../helpers/freistellungsauftrag-optimization'
+import {
+  sumPrivateStatutoryComparison,
+  sumStatutoryInsuranceStatusComparison,
+  type PrivateStatutoryComparison,
+  type StatutoryInsuranceStatusComparison,
+} from '../../helpers/health-care-insurance'
 
 interface UseWithdrawalVariablesPropsParams {
   currentConfig: {
@@ -19,6 +28,8 @@ interface UseWithdrawalVariablesPropsParams {
     comparisonStrategies?: ComparisonStrategy[]
     segmentedComparisonStrategies?: SegmentedComparisonStrategy[]
     partTimeRetirementWorkConfig?: PartTimeRetirementWorkConfig
+    spendenConfig?: SpendenConfig
+    coupleWithdrawalConfig?: CoupleWithdrawalConfig
   }
   updateConfig: (updates: Record<string, unknown>) => void
   updateFormValue: (updates: Partial<WithdrawalFormValue>) => void
@@ -44,11 +55,18 @@ interface UseWithdrawalVariablesPropsParams {
   birthYear: number | undefined
   spouseBirthYear?: number
   withdrawalData: {
-    withdrawalArray: Array<{ entnahme: number }>
+    withdrawalArray: Array<{
+      entnahme: number
+      healthCareInsurance?: {
+        statusComparison?: StatutoryInsuranceStatusComparison
+        privateStatutoryComparison?: PrivateStatutoryComparison
+      }
+    }>
   } | null
   healthCareInsuranceHandlers: HealthCareInsuranceChangeHandlers
   coupleStatutoryPensionConfig: CoupleStatutoryPensionConfig | null
   setCoupleStatutoryPensionConfig: (config: CoupleStatutoryPensionConfig | null) => void
+  depots: BankAccount[]
 }
 
 /**
@@ -128,6 +146,8 @@ function prepareConfigProps(params: {
     withdrawalSegments?: WithdrawalSegment[]
     segmentedComparisonStrategies?: SegmentedComparisonStrategy[]
     partTimeRetirementWorkConfig?: PartTimeRetirementWorkConfig
+    spendenConfig?: SpendenConfig
+    coupleWithdrawalConfig?: CoupleWithdrawalConfig
   }
   updateConfig: (updates: Record<string, unknown>) => void
   formValue: WithdrawalFormValue
@@ -153,6 +173,11 @@ function prepareConfigProps(params: {
     partTimeRetirementWorkConfig: params.currentConfig.partTimeRetirementWorkConfig,
     onPartTimeRetirementWorkConfigChange: (partTimeRetirementWorkConfig: PartTimeRetirementWorkConfig) =>
       params.updateConfig({ partTimeRetirementWorkConfig }),
+    spendenConfig: params.currentConfig.spendenConfig,
+    onSpendenConfigChange: (spendenConfig: SpendenConfig) => params.updateConfig({ spendenConfig }),
+    coupleWithdrawalConfig: params.currentConfig.coupleWithdrawalConfig,
+    onCoupleWithdrawalConfigChange: (coupleWithdrawalConfig: CoupleWithdrawalConfig) =>
+      params.updateConfig({ coupleWithdrawalConfig }),
   }
 }
 
@@ -170,6 +195,7 @@ function prepareGlobalProps(params: {
   currentWithdrawalAmount: number | undefined
   coupleStatutoryPensionConfig: CoupleStatutoryPensionConfig | null
   setCoupleStatutoryPensionConfig: (config: CoupleStatutoryPensionConfig | null) => void
+  depots: BankAccount[]
 }) {
   return {
     dispatchEnd: params.dispatchEnd,
@@ -182,9 +208,28 @@ function prepareGlobalProps(params: {
     onHealthCareInsuranceChange: params.healthCareInsuranceHandlers,
     coupleStatutoryPensionConfig: params.coupleStatutoryPensionConfig,
     onCoupleStatutoryPensionConfigChange: params.setCoupleStatutoryPensionConfig,
+    depots: params.depots,
   }
 }
 
+/**
+ * Contributions of the withdrawal years as KVdR and voluntary member of the statutory health insurance and with
+ * the projected private insurance and the statutory insurance
+ */
+function useHealthInsuranceComparisons(withdrawalData: UseWithdrawalVariablesPropsParams['withdrawalData']) {
+  return useMemo(() => {
+    const insuranceYears = withdrawalData?.withdrawalArray.map(year => year.healthCareInsurance) ?? []
+    return {
+      healthInsuranceStatusComparison: sumStatutoryInsuranceStatusComparison(
+        insuranceYears.map(insurance => insurance?.statusComparison),
+      ),
+      privateStatutoryComparison: sumPrivateStatutoryComparison(
+        insuranceYears.map(insurance => insurance?.privateStatutoryComparison),
+      ),
+    }
+  }, [withdrawalData])
+}
+
 /**
  * Custom hook to prepare props for WithdrawalVariablesCard
  * Extracts prop preparation logic from EntnahmeSimulationsAusgabe
@@ -226,17 +271,7 @@ export function useWithdrawalVariablesProps(params: UseWithdrawalVariablesPropsP
       withdrawalMultiAssetConfig: params.withdrawalMultiAssetConfig,
       setWithdrawalMultiAssetConfig: params.setWithdrawalMultiAssetConfig,
     }),
-    ...prepareGlobalProps({
-      dispatchEnd: params.dispatchEnd,
-      startOfIndependence: params.startOfIndependence,
-      globalEndOfLife: params.globalEndOfLife,
-      planningMode: params.planningMode,
-      birthYear: params.birthYear,
-      spouseBirthYear: params.spouseBirthYear,
-      healthCareInsuranceHandlers: params.healthCareInsuranceHandlers,
-      currentWithdrawalAmount,
-      coupleStatutoryPensionConfig: params.coupleStatutoryPensionConfig,
-      setCoupleStatutoryPensionConfig: params.setCoupleStatutoryPensionConfig,
-    }),
+    ...prepareGlobalProps({ ...params, currentWithdrawalAmount }),
+    ...useHealthInsuranceComparisons(params.withdrawalData),
   }
 }
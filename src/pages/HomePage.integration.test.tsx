@@ -97,11 +97,11 @@ describe('HomePage Integration Tests - Optimized', () => {
     fireEvent.click(sparenTab!)
   })
 
-  it('displays financial overview when enhanced summary is available', () => {
+  it('displays financial overview when enhanced summary is available', async () => {
     renderWithRouter(<HomePage />)
 
-    // Should show financial metrics
-    const overviewSection = screen.queryByText(/Finanzübersicht/)
+    // Should show financial metrics once the simulation worker delivered the result
+    const overviewSection = await screen.findByText(/Finanzübersicht/)
     expect(overviewSection).toBeInTheDocument()
 
     // Should show currency formatting
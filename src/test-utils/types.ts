@@ -89,6 +89,7 @@ export interface MockSavingsDataElement {
   bezahlteSteuer: number
   genutzterFreibetrag: number
   vorabpauschale: number
+  ausschuettung?: number
   amount: number
 }
 
@@ -5,8 +5,14 @@
  * Provides calculation and analysis functions for comparing multiple financial scenarios
  */
 
-import { simulate, type SimulationResultElement } from '../utils/simulate'
+import { simulate, type SimulateOptions, type SimulationResultElement } from '../utils/simulate'
+import type { SparplanElement } from './sparplan-utils'
 import type { ReturnConfiguration } from '../utils/random-returns.tsx'
+import {
+  DEFAULT_STOCHASTIC_RETURN_SETTINGS,
+  buildStochasticReturnConfig,
+  isStochasticReturnMode,
+} from './stochastic-returns'
 import type {
   ComparisonScenario,
   ScenarioSimulationResult,
@@ -138,9 +144,20 @@ function buildReturnConfiguration(
     historicalConfig: configuration.historicalIndex
       ? {
           indexId: configuration.historicalIndex,
+          ...configuration.historicalBacktestSettings,
         }
       : undefined,
     multiAssetConfig: configuration.multiAssetConfig,
+    ...(isStochasticReturnMode(configuration.returnMode)
+      ? buildStochasticReturnConfig({
+          mode: configuration.returnMode,
+          settings: configuration.stochasticReturnSettings ?? DEFAULT_STOCHASTIC_RETURN_SETTINGS,
+          // Scenario returns are stored as decimals, the stochastic settings as percentages
+          averageReturn: configuration.averageReturn * 100,
+          standardDeviation: configuration.standardDeviation * 100,
+          seed: configuration.randomSeed,
+        })
+      : {}),
   }
 }
 
@@ -198,18 +215,17 @@ function calculateScenarioMetrics(
 }
 
 /**
- * Simulates a single scenario and extracts key metrics
+ * Builds the simulate options of a scenario
  * @param scenario - The scenario to simulate
- * @returns Simulation result with metrics
+ * @returns Options for the existing simulate function
  */
-export function simulateScenario(scenario: ComparisonScenario): ScenarioSimulationResult {
+export function buildScenarioSimulateOptions(scenario: ComparisonScenario): SimulateOptions {
   const { configuration } = scenario
 
   const elementsInput = convertSparplanToElements(configuration)
   const returnConfig = buildReturnConfiguration(configuration)
 
-  // Run the simulation using the existing simulate function
-  const elements = simulate({
+  return {
     startYear: configuration.startEnd?.[0] || 2024,
     endYear: configuration.startEnd?.[1] || 2050,
     elements: elementsInput,
@@ -225,8 +241,19 @@ export function simulateScenario(scenario: ComparisonScenario): ScenarioSimulati
     inflationAnwendungSparphase: configuration.inflationAnwendungSparphase,
     guenstigerPruefungAktiv: configuration.guenstigerPruefungAktiv,
     personalTaxRate: configuration.personalTaxRate,
-  })
+  }
+}
 
+/**
+ * Extracts the key metrics of a simulated scenario
+ * @param scenario - The simulated scenario
+ * @param elements - Sparplan elements with the simulation data of the scenario
+ * @returns Simulation result with metrics
+ */
+export function createScenarioResult(
+  scenario: ComparisonScenario,
+  elements: SparplanElement[]
+): ScenarioSimulationResult {
   const aggregatedSimulation = aggregateSimulationData(elements)
   const yearlyData = convertToYearlyData(aggregatedSimulation)
 
@@ -241,13 +268,24 @@ export function simulateScenario(scenario: ComparisonScenario): ScenarioSimulati
 }
 
 /**
- * Simulates all scenarios in a comparison
- * @param comparison - The comparison containing scenarios to simulate
- * @returns Updated comparison with simulation results
+ * Simulates a single scenario and extracts key metrics
+ * @param scenario - The scenario to simulate
+ * @returns Simulation result with metrics
  */
-export function simulateComparison(comparison: CapitalGrowthComparison): CapitalGrowthComparison {
-  const results = comparison.scenarios.map((scenario) => simulateScenario(scenario))
+export function simulateScenario(scenario: ComparisonScenario): ScenarioSimulationResult {
+  return createScenarioResult(scenario, simulate(buildScenarioSimulateOptions(scenario)))
+}
 
+/**
+ * Adds the scenario results and their statistics to a comparison
+ * @param comparison - The comparison whose scenarios were simulated
+ * @param results - Simulation results of all scenarios
+ * @returns Updated comparison with simulation results
+ */
+export function createComparisonWithResults(
+  comparison: CapitalGrowthComparison,
+  results: ScenarioSimulationResult[]
+): CapitalGrowthComparison {
   const statistics = calculateStatistics(results)
 
   return {
@@ -258,6 +296,18 @@ export function simulateComparison(comparison: CapitalGrowthComparison): Capital
   }
 }
 
+/**
+ * Simulates all scenarios in a comparison
+ * @param comparison - The comparison containing scenarios to simulate
+ * @returns Updated comparison with simulation results
+ */
+export function simulateComparison(comparison: CapitalGrowthComparison): CapitalGrowthComparison {
+  return createComparisonWithResults(
+    comparison,
+    comparison.scenarios.map((scenario) => simulateScenario(scenario))
+  )
+}
+
 /**
  * Calculates statistical analysis across all scenario results
  * @param results - Array of scenario simulation results
@@ -59,10 +59,17 @@ describe('config-mappers', () => {
         guenstigerPruefungAktiv: true,
         kirchensteuerAktiv: true,
         kirchensteuersatz: 0.08,
+        lossOffsetConfiguration: {
+          enabled: true,
+          initialStockLosses: 2000,
+          initialOtherLosses: 0,
+          realizedLossesByYear: {},
+        },
       } as unknown as SimulationContextState
 
       const result = mapSimulationContextToConfig(mockContext)
 
+      expect(result.lossOffsetConfiguration?.initialStockLosses).toBe(2000)
       expect(result.grundfreibetragAktiv).toBe(true)
       expect(result.grundfreibetragBetrag).toBe(10908)
       expect(result.personalTaxRate).toBe(0.25)
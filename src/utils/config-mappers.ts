@@ -26,6 +26,7 @@ function extractTaxConfig(context: SimulationContextState) {
     guenstigerPruefungAktiv: context.guenstigerPruefungAktiv,
     kirchensteuerAktiv: context.kirchensteuerAktiv,
     kirchensteuersatz: context.kirchensteuersatz,
+    lossOffsetConfiguration: context.lossOffsetConfiguration,
   }
 }
 
@@ -43,6 +44,8 @@ function extractAssetAndReturnConfig(context: SimulationContextState) {
     randomSeed: context.randomSeed,
     variableReturns: context.variableReturns,
     historicalIndex: context.historicalIndex,
+    stochasticReturnSettings: context.stochasticReturnSettings,
+    historicalBacktestSettings: context.historicalBacktestSettings,
     multiAssetConfig: context.multiAssetConfig,
   }
 }
@@ -93,6 +96,7 @@ function extractOptionalConfigs(context: SimulationContextState) {
     careInsuranceConfig: context.careInsuranceConfig || undefined,
     alimonyConfig: context.alimonyConfig,
     emRenteConfig: context.emRenteConfig || undefined,
+    propertyOwnershipConfig: context.propertyOwnershipConfig || undefined,
   }
 }
 
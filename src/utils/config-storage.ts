@@ -11,6 +11,10 @@ import type { CareCostConfiguration } from '../../helpers/care-cost-simulation'
 import type { MultiAssetPortfolioConfig } from '../../helpers/multi-asset-portfolio'
 import type { FinancialGoal } from '../../helpers/financial-goals'
 import type { PartTimeRetirementWorkConfig } from '../../helpers/part-time-retirement-work'
+import type { SpendenConfig } from '../../helpers/spenden'
+import type { CoupleWithdrawalConfig } from '../../helpers/couple-withdrawal'
+import type { BedarfsorientierteEntnahmeConfig } from '../../helpers/bedarfsorientierte-entnahme'
+import type { IncomeTaxTariffIndexation } from '../../helpers/income-tax-tariff'
 
 /**
  * Return mode for withdrawal phase (includes multi-asset support)
@@ -60,6 +64,8 @@ export interface WithdrawalFormValue {
   steueroptimierteEntnahmeOptimizationMode: 'minimize_taxes' | 'maximize_after_tax' | 'balanced'
   steueroptimierteEntnahmeFreibetragUtilizationTarget: number
   steueroptimierteEntnahmeRebalanceFrequency: 'yearly' | 'quarterly' | 'as_needed'
+  // Bedarfsorientierte Entnahme strategy specific settings (spending models)
+  bedarfsorientierteConfig?: BedarfsorientierteEntnahmeConfig
   // Statutory pension settings
   statutoryPensionConfig?: StatutoryPensionConfig
   // Health and care insurance settings
@@ -68,6 +74,10 @@ export interface WithdrawalFormValue {
   grundfreibetragAktiv?: boolean
   grundfreibetragBetrag?: number
   einkommensteuersatz: number
+  // Legacy: flat einkommensteuersatz above the Grundfreibetrag instead of the §32a tariff of the year
+  einkommensteuerPauschal?: boolean
+  // Indexation of the §32a tariff for the years after the last official tariff
+  einkommensteuerTarifIndexierung?: IncomeTaxTariffIndexation
 }
 
 /**
@@ -136,6 +146,10 @@ export interface WithdrawalConfiguration {
   otherIncomeConfig?: OtherIncomeConfiguration
   // Part-time retirement work configuration
   partTimeRetirementWorkConfig?: PartTimeRetirementWorkConfig
+  // Donations (Spenden) configuration
+  spendenConfig?: SpendenConfig
+  // Survivor phase of couples (individual life expectancy and depot owners)
+  coupleWithdrawalConfig?: CoupleWithdrawalConfig
 }
 
 /**
@@ -159,12 +173,18 @@ export interface SavedConfiguration {
   // Personal income tax settings for Günstigerprüfung
   personalTaxRate?: number
   guenstigerPruefungAktiv?: boolean
+  // Verlustverrechnungstöpfe applied in the savings and withdrawal phase
+  lossOffsetConfiguration?: import('../../helpers/loss-offset-accounts').LossOffsetConfiguration
   returnMode: ReturnMode
   averageReturn: number
   standardDeviation: number
   randomSeed?: number
   variableReturns: Record<number, number>
   historicalIndex?: string
+  // Settings of the block bootstrap, Student-t and bull/bear regime return models
+  stochasticReturnSettings?: import('./stochastic-returns').StochasticReturnSettings
+  // Backtest start year and historical inflation of the historical return mode
+  historicalBacktestSettings?: import('./historical-data').HistoricalBacktestSettings
   // Inflation settings for savings phase
   inflationAktivSparphase?: boolean
   inflationsrateSparphase?: number
@@ -2,6 +2,8 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 import {
   exportSavingsDataToCSV,
   exportWithdrawalDataToCSV,
+  exportVermoegensbilanzToCSV,
+  exportCashFlowStatementToCSV,
   exportDataToMarkdown,
   generateCalculationExplanations,
   downloadTextAsFile,
@@ -10,6 +12,8 @@ import {
 } from './data-export'
 import type { SimulationContextState } from '../contexts/SimulationContext'
 import type { WithdrawalResult } from '../../helpers/withdrawal'
+import type { VermoegensbilanzYear } from '../../helpers/vermoegensbilanz'
+import { calculateCashFlowStatement } from '../../helpers/kapitalflussrechnung'
 import type { MockSavingsData } from '../test-utils/types'
 import type { WithdrawalFormValue } from './config-storage'
 
@@ -133,6 +137,20 @@ describe('data-export', () => {
       expect(result).toContain('2024;12;2.100,00;205,00')
     })
 
+    it('should export the distributions next to the Vorabpauschale', () => {
+      mockSavingsData.sparplanElements[0].ausschuettung = 300
+      const exportData: ExportData = {
+        savingsData: mockSavingsData as unknown as ExportData['savingsData'],
+        context: mockContext,
+      }
+
+      const result = exportSavingsDataToCSV(exportData)
+
+      expect(result).toContain('Vorabpauschale (EUR);Ausschüttungen (EUR);Bezahlte Steuer (EUR)')
+      expect(result).toContain(';50,00;300,00;25,00;')
+      expect(result).toContain(';60,00;0,00;30,00;')
+    })
+
     it('should handle monthly calculation mode', () => {
       mockContext.simulationAnnual = 'monthly'
       const exportData: ExportData = {
@@ -193,6 +211,81 @@ describe('data-export', () => {
     })
   })
 
+  describe('exportVermoegensbilanzToCSV', () => {
+    it('should export assets, liabilities and net worth per year', () => {
+      const bilanz: VermoegensbilanzYear[] = [
+        {
+          year: 2025,
+          assets: {
+            depot: 100000,
+            immobilie: 300000,
+            kapitallebensversicherung: 20000,
+            altersvorsorge: 5000,
+            betriebsrente: 3000,
+          },
+          liabilities: { baufinanzierung: 250000 },
+          totalAssets: 428000,
+          totalLiabilities: 250000,
+          netWorth: 178000,
+          netWorthReal: 178000,
+        },
+      ]
+
+      const result = exportVermoegensbilanzToCSV(bilanz)
+
+      expect(result).toContain('# Vermögensbilanz')
+      expect(result).toContain(
+        'Jahr;Depot (EUR);Immobilie (EUR);Kapitallebensversicherung (EUR);Riester/Rürup (EUR);Betriebsrente (EUR)',
+      )
+      expect(result).toContain(
+        '2025;100.000,00;300.000,00;20.000,00;5.000,00;3.000,00;428.000,00;250.000,00;250.000,00;178.000,00;178.000,00',
+      )
+    })
+
+    it('should throw error when the balance sheet is empty', () => {
+      expect(() => exportVermoegensbilanzToCSV([])).toThrow('Keine Sparplan-Daten verfügbar')
+    })
+  })
+
+  describe('exportCashFlowStatementToCSV', () => {
+    const statement = calculateCashFlowStatement({
+      savingsElements: [],
+      withdrawalResult: {
+        2041: {
+          startkapital: 500000,
+          entnahme: 24000,
+          endkapital: 490000,
+          bezahlteSteuer: 0,
+          genutzterFreibetrag: 0,
+          zinsen: 14000,
+          einkommensteuer: 1200,
+        },
+      },
+      taxesPaidFromDepot: { sparphase: true, entnahmephase: true },
+    })
+
+    it('should export the yearly cash flows with balance and status', () => {
+      const result = exportCashFlowStatementToCSV(statement)
+
+      expect(result).toContain('# Kapitalflussrechnung')
+      expect(result).toContain('Jahr;Phase;Einkommen (Sparleistung) (EUR)')
+      expect(result).toContain('Saldo (EUR);Kumulierte Liquidität (EUR);Status')
+      expect(result).toContain('2041;Entnahmephase;0,00;0,00;24.000,00')
+      expect(result).toContain(';24.000,00;25.200,00;-1.200,00;-1.200,00;Defizit')
+    })
+
+    it('should export monthly averages of the flows', () => {
+      const result = exportCashFlowStatementToCSV(statement, 'monthly')
+
+      expect(result).toContain('Saldo (EUR/Monat);Kumulierte Liquidität (EUR);Status')
+      expect(result).toContain(';-100,00;-1.200,00;Defizit')
+    })
+
+    it('should throw error when the statement is empty', () => {
+      expect(() => exportCashFlowStatementToCSV([])).toThrow('Keine Sparplan-Daten verfügbar')
+    })
+  })
+
   describe('exportDataToMarkdown', () => {
     it('should export data to Markdown format', () => {
       const exportData: ExportData = {
@@ -6,6 +6,14 @@ import type { SparplanElement, Sparplan } from './sparplan-utils'
 import type { WithdrawalConfiguration } from './config-storage'
 import type { SimulationResultElement } from './simulate'
 import type { ReadonlyRecord } from '../types'
+import { VERMOEGENSBILANZ_COLUMNS, type VermoegensbilanzYear } from '../../helpers/vermoegensbilanz'
+import {
+  CASH_FLOW_COLUMNS,
+  CASH_FLOW_STATUS_LABELS,
+  getCashFlowColumnValue,
+  type CashFlowPeriod,
+  type CashFlowYear,
+} from '../../helpers/kapitalflussrechnung'
 import { formatCurrency, formatPercentage, formatNumberGerman } from './currency'
 import { isEmpty } from './array-utils'
 import { EXPORT_ERRORS } from './error-messages'
@@ -41,6 +49,7 @@ function generateSavingsCSVHeader(sparplans: Sparplan[]): string {
     'Gesamte Einzahlungen (EUR)',
     'Endkapital (EUR)',
     'Vorabpauschale (EUR)',
+    'Ausschüttungen (EUR)',
     'Bezahlte Steuer (EUR)',
     'Genutzter Freibetrag (EUR)',
   ]
@@ -111,6 +120,32 @@ export function exportSavingsDataToCSV(data: ExportData): string {
   return lines.join('\n')
 }
 
+/**
+ * Running totals of all savings plans for one year of the export
+ */
+interface ExportAccumulators {
+  totalStartkapital: number
+  totalZinsen: number
+  totalEndkapital: number
+  totalBezahlteSteuer: number
+  totalGenutzterFreibetrag: number
+  totalVorabpauschale: number
+  totalAusschuettung: number
+}
+
+/**
+ * Accumulates the tax related year data (taxes, allowance, Vorabpauschale and distributions).
+ *
+ * @param yearData - Simulation result data for a single year
+ * @param accumulators - Object containing running totals to update
+ */
+function accumulateTaxData(yearData: SimulationResultElement, accumulators: ExportAccumulators): void {
+  accumulators.totalBezahlteSteuer += yearData.bezahlteSteuer || 0
+  accumulators.totalGenutzterFreibetrag += yearData.genutzterFreibetrag || 0
+  accumulators.totalVorabpauschale += yearData.vorabpauschale || 0
+  accumulators.totalAusschuettung += yearData.ausschuettung || 0
+}
+
 /**
  * Accumulates year data into running totals for export.
  * Safely handles undefined year data by checking before accumulation.
@@ -120,23 +155,14 @@ export function exportSavingsDataToCSV(data: ExportData): string {
  */
 function accumulateYearData(
   yearData: SimulationResultElement | undefined,
-  accumulators: {
-    totalStartkapital: number
-    totalZinsen: number
-    totalEndkapital: number
-    totalBezahlteSteuer: number
-    totalGenutzterFreibetrag: number
-    totalVorabpauschale: number
-  },
+  accumulators: ExportAccumulators,
 ): void {
   if (!yearData) return
 
   accumulators.totalStartkapital += yearData.startkapital || 0
   accumulators.totalZinsen += yearData.zinsen || 0
   accumulators.totalEndkapital += yearData.endkapital || 0
-  accumulators.totalBezahlteSteuer += yearData.bezahlteSteuer || 0
-  accumulators.totalGenutzterFreibetrag += yearData.genutzterFreibetrag || 0
-  accumulators.totalVorabpauschale += yearData.vorabpauschale || 0
+  accumulateTaxData(yearData, accumulators)
 }
 
 /**
@@ -156,14 +182,7 @@ function processSimulationElement(
   year: number,
   isMonthly: boolean,
   sparplanContributions: number[],
-  accumulators: {
-    totalStartkapital: number
-    totalZinsen: number
-    totalEndkapital: number
-    totalBezahlteSteuer: number
-    totalGenutzterFreibetrag: number
-    totalVorabpauschale: number
-  },
+  accumulators: ExportAccumulators,
 ): void {
   if (!('simulation' in element)) return
 
@@ -221,6 +240,7 @@ function exportSimulationStructure(
       totalBezahlteSteuer: 0,
       totalGenutzterFreibetrag: 0,
       totalVorabpauschale: 0,
+      totalAusschuettung: 0,
     }
 
     // Sum up data from all elements for this year
@@ -241,6 +261,7 @@ function exportSimulationStructure(
       accumulators.totalBezahlteSteuer,
       accumulators.totalGenutzterFreibetrag,
       accumulators.totalVorabpauschale,
+      accumulators.totalAusschuettung,
       sparplanContributions,
       cumulativeContributions,
       lines,
@@ -290,6 +311,7 @@ interface MockFinancialData {
   bezahlteSteuer: number
   genutzterFreibetrag: number
   vorabpauschale: number
+  ausschuettung: number
 }
 
 /**
@@ -307,6 +329,7 @@ function extractMockFinancialData(element: SparplanElement): MockFinancialData {
     bezahlteSteuer: extractMockNumericProperty(element, 'bezahlteSteuer'),
     genutzterFreibetrag: extractMockNumericProperty(element, 'genutzterFreibetrag'),
     vorabpauschale: extractMockNumericProperty(element, 'vorabpauschale'),
+    ausschuettung: extractMockNumericProperty(element, 'ausschuettung'),
   }
 }
 
@@ -351,6 +374,7 @@ function exportMockStructure(simulationElements: SparplanElement[], context: Sim
       financialData.bezahlteSteuer,
       financialData.genutzterFreibetrag,
       financialData.vorabpauschale,
+      financialData.ausschuettung,
       sparplanContributions,
       cumulativeContributions,
       lines,
@@ -370,6 +394,7 @@ function exportMockStructure(simulationElements: SparplanElement[], context: Sim
  * @param bezahlteSteuer - Taxes paid during the year
  * @param genutzterFreibetrag - Tax allowance used during the year
  * @param vorabpauschale - Vorabpauschale amount for the year
+ * @param ausschuettung - Distributions of distributing funds for the year
  * @param sparplanContributions - Array of contribution amounts per savings plan
  * @param cumulativeContributions - Total contributions up to and including this year
  * @param lines - Array of CSV lines to append to
@@ -383,6 +408,7 @@ function addYearRows(
   bezahlteSteuer: number,
   genutzterFreibetrag: number,
   vorabpauschale: number,
+  ausschuettung: number,
   sparplanContributions: number[],
   cumulativeContributions: number,
   lines: string[],
@@ -407,6 +433,7 @@ function addYearRows(
     row.push(formatNumberGerman(cumulativeContributions))
     row.push(formatNumberGerman(endkapital))
     row.push(formatNumberGerman(vorabpauschale))
+    row.push(formatNumberGerman(ausschuettung))
     row.push(formatNumberGerman(bezahlteSteuer))
     row.push(formatNumberGerman(genutzterFreibetrag))
 
@@ -608,6 +635,7 @@ interface TaxIncomeDataParams {
   yearData: WithdrawalResultElement
   grundfreibetragAktiv: boolean
   hasOtherIncomeData: boolean
+  hasWorkIncomeData: boolean
 }
 
 /**
@@ -632,14 +660,23 @@ function getOtherIncomeValue(
   return otherIncome[field] ?? 0
 }
 
+/**
+ * Add the part-time work income, the EM-Rente and the resulting withdrawal reduction to the CSV row
+ */
+function addWorkIncomeData(row: string[], workIncome: WithdrawalResultElement['workIncome']): void {
+  row.push(formatNumberGerman(workIncome ? workIncome.partTimeGrossAmount - workIncome.socialSecurityContributions : 0))
+  row.push(formatNumberGerman(workIncome?.emRenteGrossAmount ?? 0))
+  row.push(formatNumberGerman(workIncome?.withdrawalReduction ?? 0))
+}
+
 /**
  * Add tax and income data columns to the CSV row.
- * Includes income tax (if Grundfreibetrag active) and other income details.
+ * Includes income tax (if Grundfreibetrag active), other income and work income details.
  *
  * @param params - Parameters including row array, year data, and configuration flags
  */
 function addTaxAndIncomeData(params: TaxIncomeDataParams): void {
-  const { row, yearData, grundfreibetragAktiv, hasOtherIncomeData } = params
+  const { row, yearData, grundfreibetragAktiv, hasOtherIncomeData, hasWorkIncomeData } = params
 
   if (grundfreibetragAktiv) {
     const einkommensteuer = yearData.einkommensteuer ?? 0
@@ -654,6 +691,10 @@ function addTaxAndIncomeData(params: TaxIncomeDataParams): void {
     row.push(formatNumberGerman(getOtherIncomeValue(otherIncome, 'totalTaxAmount')))
     row.push(getOtherIncomeValue(otherIncome, 'sourceCount').toString())
   }
+
+  if (hasWorkIncomeData) {
+    addWorkIncomeData(row, yearData.workIncome)
+  }
 }
 
 /**
@@ -710,6 +751,22 @@ function addOtherIncomeHeaders(headers: string[]): void {
   headers.push('Anzahl Einkommensquellen')
 }
 
+/**
+ * Check if withdrawal data has part-time work income or an EM-Rente
+ */
+function hasWorkIncome(withdrawalData: WithdrawalResult): boolean {
+  return Object.values(withdrawalData).some(yearData => yearData.workIncome !== undefined)
+}
+
+/**
+ * Add work income headers
+ */
+function addWorkIncomeHeaders(headers: string[]): void {
+  headers.push('Erwerbseinkommen nach Sozialabgaben (EUR)')
+  headers.push('EM-Rente Brutto (EUR)')
+  headers.push('Entnahmereduktion durch Erwerbseinkommen (EUR)')
+}
+
 /**
  * Generate CSV headers for withdrawal phase export.
  * Creates column headers based on active features and withdrawal strategy configuration.
@@ -753,6 +810,10 @@ function generateWithdrawalCSVHeaders(params: WithdrawalHeaderParams): string[]
     addOtherIncomeHeaders(headers)
   }
 
+  if (hasWorkIncome(withdrawalData)) {
+    addWorkIncomeHeaders(headers)
+  }
+
   return headers
 }
 
@@ -833,6 +894,7 @@ export function exportWithdrawalDataToCSV(data: ExportData): string {
   const hasOtherIncomeData = Object.values(withdrawalData).some(
     yearData => (yearData.otherIncome?.totalNetAmount ?? 0) > 0,
   )
+  const hasWorkIncomeData = hasWorkIncome(withdrawalData)
 
   for (const year of years) {
     const yearData = withdrawalData[year]
@@ -851,6 +913,7 @@ export function exportWithdrawalDataToCSV(data: ExportData): string {
         yearData,
         grundfreibetragAktiv: context.grundfreibetragAktiv,
         hasOtherIncomeData,
+        hasWorkIncomeData,
       })
 
       lines.push(row.join(';'))
@@ -1175,6 +1238,61 @@ function addWithdrawalDataTable(withdrawalData: WithdrawalResult, lines: string[
   }
 }
 
+/**
+ * Exports the consolidated Vermögensbilanz (assets by class, liabilities and net worth per year) to CSV format.
+ *
+ * @param bilanz - Yearly balance sheet entries
+ * @returns CSV-formatted string with semicolon separators, German number formatting
+ * @throws Error if the balance sheet is empty
+ */
+export function exportVermoegensbilanzToCSV(bilanz: VermoegensbilanzYear[]): string {
+  if (bilanz.length === 0) {
+    throw new Error(EXPORT_ERRORS.NO_SAVINGS_DATA)
+  }
+
+  const headers = ['Jahr', ...VERMOEGENSBILANZ_COLUMNS.map(column => `${column.label} (EUR)`)]
+  const rows = bilanz.map(entry =>
+    [entry.year.toString(), ...VERMOEGENSBILANZ_COLUMNS.map(column => formatNumberGerman(column.getValue(entry)))].join(
+      ';',
+    ),
+  )
+
+  return ['# Vermögensbilanz', headers.join(';'), ...rows].join('\n')
+}
+
+/**
+ * Exports the cash flow statement (Kapitalflussrechnung) with all inflows, outflows,
+ * the balance and the cumulative liquidity per year to CSV format.
+ *
+ * @param statement - Yearly cash flow entries
+ * @param period - Whether the flows are reported per year or as monthly averages
+ * @returns CSV-formatted string with semicolon separators, German number formatting
+ * @throws Error if the statement is empty
+ */
+export function exportCashFlowStatementToCSV(statement: CashFlowYear[], period: CashFlowPeriod = 'yearly'): string {
+  if (statement.length === 0) {
+    throw new Error(EXPORT_ERRORS.NO_SAVINGS_DATA)
+  }
+
+  const unit = period === 'monthly' ? 'EUR/Monat' : 'EUR'
+  const headers = [
+    'Jahr',
+    'Phase',
+    ...CASH_FLOW_COLUMNS.map(column => `${column.label} (${column.isFlow ? unit : 'EUR'})`),
+    'Status',
+  ]
+  const rows = statement.map(entry =>
+    [
+      entry.year.toString(),
+      entry.phase === 'sparphase' ? 'Ansparphase' : 'Entnahmephase',
+      ...CASH_FLOW_COLUMNS.map(column => formatNumberGerman(getCashFlowColumnValue(column, entry, period))),
+      CASH_FLOW_STATUS_LABELS[entry.status],
+    ].join(';'),
+  )
+
+  return ['# Kapitalflussrechnung', headers.join(';'), ...rows].join('\n')
+}
+
 /**
  * Export all simulation data to Markdown format
  */
@@ -1369,6 +1487,7 @@ const WITHDRAWAL_STRATEGY_LABELS: ReadonlyRecord<string, string> = {
   rmd: 'RMD Strategie',
   kapitalerhalt: 'Kapitalerhalt',
   steueroptimiert: 'Steueroptimierte Entnahme',
+  bedarfsorientiert: 'Bedarfsorientierte Entnahme',
 }
 
 function getWithdrawalStrategyLabel(strategy: string): string {
@@ -11,11 +11,13 @@ import {
   exportWithdrawalDataToExcel,
   exportCompleteDataToExcel,
   downloadExcelFile,
+  exportVermoegensbilanzToExcel,
 } from './excel-export'
 import type { SimulationContextState } from '../contexts/SimulationContext'
 import type { SavingsData } from './data-export'
 import type { SparplanElement } from './sparplan-utils'
 import type { SimulationResult } from './simulate'
+import type { VermoegensbilanzYear } from '../../helpers/vermoegensbilanz'
 
 // Type for withdrawal data used in Excel export
 interface WithdrawalDataForExcel {
@@ -379,6 +381,40 @@ describe('excel-export', () => {
     })
   })
 
+  describe('exportVermoegensbilanzToExcel', () => {
+    const bilanz: VermoegensbilanzYear[] = [
+    {
+      year: 2025,
+      assets: {
+        depot: 100000,
+        immobilie: 300000,
+        kapitallebensversicherung: 20000,
+        altersvorsorge: 5000,
+        betriebsrente: 0,
+      },
+      liabilities: { baufinanzierung: 250000 },
+      totalAssets: 425000,
+      totalLiabilities: 250000,
+      netWorth: 175000,
+      netWorthReal: 175000,
+    },
+  ]
+
+    it('should export the balance sheet with one row per year', () => {
+      exportVermoegensbilanzToExcel(bilanz)
+
+      const calls = vi.mocked(XLSX.writeFile).mock.calls
+      expect(calls[0][1]).toBe('Vermoegensbilanz_2025-2025.xlsx')
+
+      const sheet = (calls[0][0] as XLSX.WorkBook).Sheets['Vermögensbilanz']
+      const data = XLSX.utils.sheet_to_json(sheet, { header: 1 }) as Array<Array<string | number>>
+      expect(data[0]).toContain('Nettovermögen (€)')
+      expect(data[1][0]).toBe(2025)
+      expect(data[1]).toContain(175000)
+      expect(sheet['B2'].z).toBe('#,##0.00 "€"')
+    })
+  })
+
   describe('German formatting', () => {
     it('should format currency values with German locale', () => {
       const wb = generateSavingsExcelWithFormulas(mockSavingsData, mockContext)
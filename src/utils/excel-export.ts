@@ -15,6 +15,7 @@ import * as XLSX from 'xlsx'
 import type { SimulationContextState } from '../contexts/SimulationContext'
 import type { SavingsData } from './data-export'
 import { formatNumberGerman, formatPercentageGerman } from './currency'
+import { VERMOEGENSBILANZ_COLUMNS, type VermoegensbilanzYear } from '../../helpers/vermoegensbilanz'
 
 /**
  * Generate summary sheet data
@@ -256,3 +257,37 @@ export function exportCompleteDataToExcel(
     throw new Error('Excel-Export fehlgeschlagen')
   }
 }
+
+/**
+ * Generate Excel workbook with the consolidated Vermögensbilanz
+ */
+export function generateVermoegensbilanzExcel(bilanz: VermoegensbilanzYear[]): XLSX.WorkBook {
+  const wb = XLSX.utils.book_new()
+
+  const headers = ['Jahr', ...VERMOEGENSBILANZ_COLUMNS.map(column => `${column.label} (€)`)]
+  const rows = bilanz.map(entry => [entry.year, ...VERMOEGENSBILANZ_COLUMNS.map(column => column.getValue(entry))])
+  const ws = XLSX.utils.aoa_to_sheet([headers, ...rows])
+
+  // Format all value columns (B onwards) as currency
+  applyCurrencyFormat(
+    ws,
+    VERMOEGENSBILANZ_COLUMNS.map((_, index) => index + 1),
+  )
+
+  XLSX.utils.book_append_sheet(wb, ws, 'Vermögensbilanz')
+  return wb
+}
+
+/**
+ * Export the consolidated Vermögensbilanz as Excel file
+ */
+export function exportVermoegensbilanzToExcel(bilanz: VermoegensbilanzYear[]): void {
+  try {
+    const wb = generateVermoegensbilanzExcel(bilanz)
+    const filename = `Vermoegensbilanz_${bilanz[0].year}-${bilanz[bilanz.length - 1].year}.xlsx`
+    downloadExcelFile(wb, filename)
+  } catch (error) {
+    console.error('Excel export failed:', error)
+    throw new Error('Excel-Export fehlgeschlagen')
+  }
+}
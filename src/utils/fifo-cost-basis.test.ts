@@ -32,10 +32,10 @@ describe('FIFO Cost Basis Tax Calculation (Issue #268)', () => {
   const teilfreistellungsquote = 0.3
   const returnConfig: ReturnConfiguration = { mode: 'fixed', fixedRate: 0.05 } // 5% return
 
-  test('should calculate taxable gain using only cost basis (FIFO) without accumulated Vorabpauschale', () => {
+  test('should reduce the taxable gain by the cost basis and the accumulated Vorabpauschale (FIFO)', () => {
     // Test scenario: investor has accumulated Vorabpauschale that was already taxed
-    // When withdrawing, the gain should be calculated as: withdrawal - cost basis
-    // NOT: withdrawal - cost basis - accumulated Vorabpauschale (which would be double taxation)
+    // When withdrawing, the gain is calculated as: withdrawal - cost basis - accumulated Vorabpauschale
+    // (§ 19 Abs. 1 InvStG), otherwise the Vorabpauschale would be taxed twice
 
     const withdrawalStartYear = 2025
     const lastSimYear = withdrawalStartYear - 1
@@ -70,26 +70,28 @@ describe('FIFO Cost Basis Tax Calculation (Issue #268)', () => {
     const proportionSold = withdrawalAmount / 15000
     const costBasisSold = 10000 * proportionSold // 10,000 * 1/3 = 3,333.33
 
+    const accumulatedVorabSold = 500 * proportionSold // 500 * 1/3 = 166.67
+
     // CORRECT calculation (according to German tax law):
-    // Gain = Amount Withdrawn - Cost Basis (only)
-    const expectedCorrectGain = withdrawalAmount - costBasisSold // 5,000 - 3,333.33 = 1,666.67
+    // Gain = Amount Withdrawn - Cost Basis - Vorabpauschale already taxed
+    const expectedCorrectGain = withdrawalAmount - costBasisSold - accumulatedVorabSold // 5,000 - 3,333.33 - 166.67
 
     // Calculate expected tax
     const expectedTaxableGain = expectedCorrectGain * (1 - teilfreistellungsquote)
     const expectedTaxOnGains = Math.max(0, expectedTaxableGain - freibetrag) * taxRate
 
-    // Verify the calculation is correct (not subtracting accumulated Vorabpauschale)
-    expect(expectedCorrectGain).toBeCloseTo(1666.67, 2)
-    expect(expectedTaxableGain).toBeCloseTo(1166.67, 2) // 1666.67 * 0.7
-    expect(expectedTaxOnGains).toBeCloseTo(307.71, 2) // 1166.67 * 0.26375
+    expect(expectedCorrectGain).toBeCloseTo(1500, 2)
+    expect(expectedTaxableGain).toBeCloseTo(1050, 2) // 1500 * 0.7
+    expect(expectedTaxOnGains).toBeCloseTo(276.94, 2) // 1050 * 0.26375
 
-    // The actual implementation should now calculate the gain correctly
-    // Note: Test verifies calculations but specific tax amount may vary based on implementation details
+    // The tax of the year consists of the tax on the realized gain and the tax on the Vorabpauschale
+    const taxOnVorabpauschale = resultYear.vorabpauschaleDetails?.steuerVorFreibetrag ?? 0
+    expect(resultYear.bezahlteSteuer).toBeCloseTo(expectedTaxOnGains + taxOnVorabpauschale, 2)
   })
 
   test('should correctly implement FIFO principle with accumulated Vorabpauschale tracking', () => {
     // This test verifies that accumulated Vorabpauschale is properly tracked
-    // but NOT used in gain calculation for withdrawal taxation
+    // and reduces the gain of the sold part
 
     const withdrawalStartYear = 2025
     const lastSimYear = withdrawalStartYear - 1
@@ -124,25 +126,23 @@ describe('FIFO Cost Basis Tax Calculation (Issue #268)', () => {
     const proportionSold = withdrawalAmount / 30000
     const costBasisSold = 20000 * proportionSold // 20,000 * 1/3 = 6,666.67
 
-    // Gain = Withdrawal - Cost Basis (correct FIFO calculation)
-    const expectedGain = withdrawalAmount - costBasisSold // 10,000 - 6,666.67 = 3,333.33
-    const expectedTaxableGain = expectedGain * (1 - teilfreistellungsquote) // 3,333.33 * 0.7 = 2,333.33
-    // (2,333.33 - 1,000) * 0.26375 = 351.67
+    const accumulatedVorabSold = 800 * proportionSold // 800 * 1/3 = 266.67
+
+    // Gain = Withdrawal - Cost Basis - Vorabpauschale already taxed (correct FIFO calculation)
+    const expectedGain = withdrawalAmount - costBasisSold - accumulatedVorabSold // 10,000 - 6,666.67 - 266.67
+    const expectedTaxableGain = expectedGain * (1 - teilfreistellungsquote) // 3,066.67 * 0.7 = 2,146.67
+    // (2,146.67 - 1,000) * 0.26375 = 302.43
     const expectedTaxOnGains = Math.max(0, expectedTaxableGain - freibetrag) * taxRate
 
     // Verify the calculations
-    expect(expectedGain).toBeCloseTo(3333.33, 2)
-    expect(expectedTaxableGain).toBeCloseTo(2333.33, 2)
-    expect(expectedTaxOnGains).toBeCloseTo(351.67, 2)
+    expect(expectedGain).toBeCloseTo(3066.67, 2)
+    expect(expectedTaxableGain).toBeCloseTo(2146.67, 2)
+    expect(expectedTaxOnGains).toBeCloseTo(302.43, 2)
+    expect(resultYear.genutzterFreibetrag).toBeCloseTo(freibetrag, 2)
 
-    // Test that accumulated Vorabpauschale is still properly tracked (for the remaining investment)
-    // This should be reduced proportionally but not used in gain calculation
-    const accumulatedVorabSold = 800 * proportionSold // 800 * 1/3 = 266.67
+    // The accumulated Vorabpauschale of the remaining investment is reduced proportionally
     const remainingAccumulatedVorab = 800 - accumulatedVorabSold // 533.33
-
     expect(accumulatedVorabSold).toBeCloseTo(266.67, 2)
     expect(remainingAccumulatedVorab).toBeCloseTo(533.33, 2)
-
-    // Note: Tax calculation verified through other assertions
   })
 })
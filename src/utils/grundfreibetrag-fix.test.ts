@@ -1,4 +1,5 @@
 import { calculateWithdrawal } from '../../helpers/withdrawal'
+import { SONDERAUSGABEN_PAUSCHBETRAG } from '../../helpers/spenden'
 import type { SparplanElement } from './sparplan-utils'
 
 describe('Grundfreibetrag Calculation Fix', () => {
@@ -80,7 +81,7 @@ describe('Grundfreibetrag Calculation Fix', () => {
         // If withdrawal is less than Grundfreibetrag, no income tax should be paid
         if (yearResult.entnahme <= customGrundfreibetrag) {
           expect(yearResult.einkommensteuer).toBe(0)
-          expect(yearResult.genutzterGrundfreibetrag).toBe(yearResult.entnahme)
+          expect(yearResult.genutzterGrundfreibetrag).toBe(yearResult.entnahme - SONDERAUSGABEN_PAUSCHBETRAG)
         }
       })
     })
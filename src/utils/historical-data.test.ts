@@ -5,12 +5,15 @@ import {
   getHistoricalReturns,
   getAvailableYears,
   isYearRangeAvailable,
+  getHistoricalBacktestReturns,
+  applyHistoricalBacktestSettings,
+  DEFAULT_HISTORICAL_BACKTEST_SETTINGS,
 } from './historical-data'
 
 describe('historical-data', () => {
   describe('HISTORICAL_INDICES', () => {
     it('should contain expected indices', () => {
-      expect(HISTORICAL_INDICES).toHaveLength(3)
+      expect(HISTORICAL_INDICES).toHaveLength(4)
 
       const indexIds = HISTORICAL_INDICES.map(index => index.id)
       expect(indexIds).toContain('dax')
@@ -164,7 +167,7 @@ describe('historical-data', () => {
         index.data.forEach(dataPoint => {
           expect(dataPoint.year).toBeTypeOf('number')
           expect(dataPoint.return).toBeTypeOf('number')
-          expect(dataPoint.year).toBeGreaterThan(1990)
+          expect(dataPoint.year).toBeGreaterThanOrEqual(1970)
           expect(dataPoint.year).toBeLessThan(2030)
           expect(dataPoint.return).toBeGreaterThan(-1) // Max -100% return
           expect(dataPoint.return).toBeLessThan(5) // Max 500% return (unrealistic but safe)
@@ -241,4 +244,47 @@ describe('historical-data', () => {
       expect(returns[2008]).toBeLessThan(-0.3)
     })
   })
+
+  describe('long-run MSCI World', () => {
+    it('should cover the years since 1970 and match the MSCI World index since 2000', () => {
+      const longRun = getHistoricalIndex('msci-world-1970')!
+
+      expect(longRun.startYear).toBe(1970)
+      expect(longRun.endYear).toBe(2023)
+      expect(getHistoricalReturns('msci-world-1970', 2000, 2023)).toEqual(getHistoricalReturns('msci-world', 2000, 2023))
+      expect(getHistoricalReturns('msci-world-1970', 1974, 1974)![1974]).toBeLessThan(-0.2)
+    })
+  })
+
+  describe('getHistoricalBacktestReturns', () => {
+    it('should map the simulation years onto the historical years from the start year', () => {
+      const returns = getHistoricalBacktestReturns('dax', [2030, 2031, 2032], 2000)!
+
+      expect(returns).toEqual({ 2030: -0.0961, 2031: -0.1948, 2032: -0.4384 })
+    })
+
+    it('should use the simulation years without start year', () => {
+      expect(getHistoricalBacktestReturns('dax', [2008], undefined)).toEqual({ 2008: -0.4024 })
+      expect(getHistoricalBacktestReturns('unknown', [2008], 2000)).toBeNull()
+    })
+  })
+
+  describe('applyHistoricalBacktestSettings', () => {
+    it('should add the settings to the historical configuration', () => {
+      const config = applyHistoricalBacktestSettings(
+        { mode: 'historical', historicalConfig: { indexId: 'dax' } },
+        { startYear: 2000, useHistoricalInflation: true },
+      )
+
+      expect(config.historicalConfig).toEqual({ indexId: 'dax', startYear: 2000, useHistoricalInflation: true })
+    })
+
+    it('should leave other modes and the default settings unchanged', () => {
+      const fixed = { mode: 'fixed' as const, fixedRate: 0.05 }
+      const historical = { mode: 'historical' as const, historicalConfig: { indexId: 'dax' } }
+
+      expect(applyHistoricalBacktestSettings(fixed, { startYear: 2000, useHistoricalInflation: true })).toBe(fixed)
+      expect(applyHistoricalBacktestSettings(historical, DEFAULT_HISTORICAL_BACKTEST_SETTINGS)).toBe(historical)
+    })
+  })
 })
@@ -5,6 +5,9 @@
  * This data is for educational and testing purposes only.
  */
 
+import { getHistoricalSeries } from './historical-dataset'
+import type { ReturnConfiguration } from './random-returns'
+
 export interface HistoricalDataPoint {
   year: number
   return: number // Annual return as decimal (e.g., 0.05 for 5%)
@@ -22,6 +25,18 @@ export interface HistoricalIndex {
   volatility: number
 }
 
+/**
+ * Backtest settings of the historical return mode as stored in the simulation context
+ */
+export interface HistoricalBacktestSettings {
+  startYear?: number // First historical year of the backtest (default: the simulation years themselves)
+  useHistoricalInflation: boolean // Use the German consumer price index (VPI) of the backtested years
+}
+
+export const DEFAULT_HISTORICAL_BACKTEST_SETTINGS: HistoricalBacktestSettings = {
+  useHistoricalInflation: false,
+}
+
 /**
  * DAX (German Stock Index) historical returns
  * Based on annual performance data
@@ -115,6 +130,13 @@ const MSCI_WORLD_HISTORICAL: HistoricalDataPoint[] = [
   { year: 2023, return: 0.2398 }, // 23.98%
 ]
 
+/**
+ * MSCI World since 1970 from the bundled historical dataset (in Euro, D-Mark before 1999)
+ */
+const MSCI_WORLD_LONG_RUN_HISTORICAL: HistoricalDataPoint[] = Object.entries(
+  getHistoricalSeries('msci-world')?.values ?? {},
+).map(([year, value]) => ({ year: Number(year), return: value }))
+
 /**
  * Calculate statistics for historical data
  */
@@ -131,6 +153,7 @@ function calculateStats(data: HistoricalDataPoint[]): { average: number; volatil
 const daxStats = calculateStats(DAX_HISTORICAL)
 const sp500Stats = calculateStats(SP500_HISTORICAL)
 const msciWorldStats = calculateStats(MSCI_WORLD_HISTORICAL)
+const msciWorldLongRunStats = calculateStats(MSCI_WORLD_LONG_RUN_HISTORICAL)
 
 /**
  * Available historical indices for backtesting
@@ -169,6 +192,17 @@ export const HISTORICAL_INDICES: HistoricalIndex[] = [
     averageReturn: msciWorldStats.average,
     volatility: msciWorldStats.volatility,
   },
+  {
+    id: 'msci-world-1970',
+    name: 'MSCI World (seit 1970)',
+    description: 'Weltweite Aktien in Euro - Lange Historie mit Ölkrisen, Dotcom-Blase und Finanzkrise',
+    currency: 'EUR',
+    data: MSCI_WORLD_LONG_RUN_HISTORICAL,
+    startYear: MSCI_WORLD_LONG_RUN_HISTORICAL[0].year,
+    endYear: MSCI_WORLD_LONG_RUN_HISTORICAL[MSCI_WORLD_LONG_RUN_HISTORICAL.length - 1].year,
+    averageReturn: msciWorldLongRunStats.average,
+    volatility: msciWorldLongRunStats.volatility,
+  },
 ] as const
 
 /**
@@ -204,6 +238,24 @@ export function getHistoricalReturns(
   return returns
 }
 
+/**
+ * Get historical returns for a backtest: the simulation years are mapped onto consecutive historical
+ * years beginning with historicalStartYear (default: the simulation years themselves).
+ * Years without data use the index average like getHistoricalReturns.
+ */
+export function getHistoricalBacktestReturns(
+  indexId: string,
+  years: number[],
+  historicalStartYear?: number,
+): Record<number, number> | null {
+  if (years.length === 0) return {}
+  const offset = (historicalStartYear ?? years[0]) - years[0]
+  const historicalReturns = getHistoricalReturns(indexId, years[0] + offset, years[years.length - 1] + offset)
+  if (!historicalReturns) return null
+
+  return Object.fromEntries(years.map(year => [year, historicalReturns[year + offset]]))
+}
+
 /**
  * Get available years for a historical index
  */
@@ -223,3 +275,25 @@ export function isYearRangeAvailable(indexId: string, startYear: number, endYear
 
   return startYear >= index.startYear && endYear <= index.endYear
 }
+
+/**
+ * Add the backtest settings to a historical return configuration.
+ * Other return modes and the default settings leave the configuration unchanged.
+ */
+export function applyHistoricalBacktestSettings(
+  returnConfig: ReturnConfiguration,
+  settings: HistoricalBacktestSettings | undefined,
+): ReturnConfiguration {
+  if (!returnConfig.historicalConfig || !settings || (settings.startYear === undefined && !settings.useHistoricalInflation)) {
+    return returnConfig
+  }
+
+  return {
+    ...returnConfig,
+    historicalConfig: {
+      ...returnConfig.historicalConfig,
+      startYear: settings.startYear,
+      useHistoricalInflation: settings.useHistoricalInflation,
+    },
+  }
+}
@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createHistoricalSeries,
+  getAlignedHistory,
+  getHistoricalBasiszins,
+  getHistoricalInflationRates,
+  getHistoricalSeries,
+  getHistoricalSeriesYears,
+  getRegisteredHistoricalSeries,
+  parseAnnualSeriesCsv,
+  registerHistoricalSeries,
+} from './historical-dataset'
+import { simulate } from './simulate'
+
+describe('historical-dataset', () => {
+  describe('parseAnnualSeriesCsv', () => {
+    it('should convert percentages to decimals and skip empty cells', () => {
+      const columns = parseAnnualSeriesCsv('year,stocks,rate\n2020,10.5,\n2021,-3.00,0.25\n')
+
+      expect(columns).toEqual({
+        stocks: { 2020: 0.105, 2021: -0.03 },
+        rate: { 2021: 0.0025 },
+      })
+    })
+
+    it('should create series from the columns described by the metadata', () => {
+      const series = createHistoricalSeries(
+        [{ id: 'stocks', column: 'stocks', name: 'Aktien', description: '', category: 'asset', currency: 'EUR' }],
+        parseAnnualSeriesCsv('year,stocks,ignored\n2020,10,1'),
+      )
+
+      expect(series).toEqual([
+        { id: 'stocks', name: 'Aktien', description: '', category: 'asset', currency: 'EUR', values: { 2020: 0.1 } },
+      ])
+    })
+  })
+
+  describe('bundled series', () => {
+    it('should provide the bundled series with their history', () => {
+      const ids = getRegisteredHistoricalSeries().map(series => series.id)
+
+      expect(ids).toEqual(
+        expect.arrayContaining([
+          'msci-world',
+          'german-government-bonds',
+          'gold',
+          'eur-money-market',
+          'german-cpi',
+          'basiszins',
+        ]),
+      )
+      expect(getHistoricalSeriesYears('msci-world')[0]).toBe(1970)
+      expect(getHistoricalSeriesYears('basiszins')[0]).toBe(2018)
+      expect(getHistoricalSeries('german-cpi')!.values[2022]).toBeCloseTo(0.069)
+    })
+
+    it('should align series by year', () => {
+      const history = getAlignedHistory(['msci-world', 'basiszins'])
+
+      expect(history.years[0]).toBe(2018)
+      expect(history.values['msci-world'][2018]).toBeCloseTo(-0.0871)
+      expect(history.values.basiszins[2018]).toBeCloseTo(0.0087)
+      expect(Object.keys(history.values['msci-world'])).toHaveLength(history.years.length)
+    })
+
+    it('should restrict the aligned history to the requested years', () => {
+      expect(getAlignedHistory(['gold', 'german-cpi'], 1973, 1975).years).toEqual([1973, 1974, 1975])
+      expect(getAlignedHistory(['gold', 'unknown'])).toEqual({ years: [], values: {} })
+    })
+  })
+
+  describe('registerHistoricalSeries', () => {
+    it('should make additional series available', () => {
+      registerHistoricalSeries({
+        id: 'test-real-estate',
+        name: 'Immobilien',
+        description: 'Testreihe',
+        category: 'asset',
+        currency: 'EUR',
+        values: { 2000: 0.03, 2001: 0.04 },
+      })
+
+      expect(getAlignedHistory(['test-real-estate', 'msci-world']).years).toEqual([2000, 2001])
+    })
+  })
+
+  describe('getHistoricalInflationRates', () => {
+    it('should map the simulation years onto the backtested years', () => {
+      const rates = getHistoricalInflationRates([2030, 2031, 2032], 1973)
+
+      expect(rates[2030]).toBeCloseTo(0.07)
+      expect(rates[2032]).toBeCloseTo(0.06)
+    })
+
+    it('should omit years without data', () => {
+      expect(getHistoricalInflationRates([2023, 2024], 2023)).toEqual({ 2023: expect.closeTo(0.059) })
+    })
+
+    it('should drive the inflation of a historical backtest', () => {
+      const run = (useHistoricalInflation: boolean) =>
+        simulate({
+          startYear: 2030,
+          endYear: 2031,
+          elements: [{ type: 'sparplan', start: '2030-01-01', einzahlung: 10000, simulation: {} }],
+          returnConfig: {
+            mode: 'historical',
+            historicalConfig: { indexId: 'msci-world-1970', startYear: 1973, useHistoricalInflation },
+          },
+          steuerlast: 0.26375,
+          teilfreistellungsquote: 0.3,
+          simulationAnnual: 'yearly',
+          inflationAktivSparphase: true,
+          inflationsrateSparphase: 2,
+        })[0].simulation
+
+      const historical = run(true)
+      const constant = run(false)
+
+      // 1973: MSCI World -21.4% with 7% inflation
+      expect(historical[2030].zinsen / historical[2030].startkapital).toBeCloseTo(-0.214, 6)
+      expect(historical[2031].endkapitalReal).toBeCloseTo(historical[2031].endkapital / 1.07, 6)
+      expect(constant[2031].endkapitalReal).toBeCloseTo(constant[2031].endkapital / 1.02, 6)
+    })
+  })
+  describe('getHistoricalBasiszins', () => {
+    it('should return the official Basiszins of past years', () => {
+      expect(getHistoricalBasiszins(2021)).toBeCloseTo(-0.0045)
+      expect(getHistoricalBasiszins(2023)).toBeCloseTo(0.0255)
+      expect(getHistoricalBasiszins(2017)).toBeUndefined()
+    })
+
+    it('should drive the Vorabpauschale of a historical backtest', () => {
+      const run = (mode: 'historical' | 'fixed') =>
+        simulate({
+          startYear: 2030,
+          endYear: 2030,
+          elements: [{ type: 'sparplan', start: '2030-01-01', einzahlung: 10000, simulation: {} }],
+          returnConfig: {
+            mode,
+            fixedRate: 0.2198,
+            historicalConfig: { indexId: 'msci-world-1970', startYear: 2021 },
+          },
+          steuerlast: 0.26375,
+          teilfreistellungsquote: 0.3,
+          simulationAnnual: 'yearly',
+        })[0].simulation[2030]
+
+      // 2021: negative Basiszins, so no Vorabpauschale despite the gain
+      expect(run('historical').vorabpauschale).toBe(0)
+      expect(run('fixed').vorabpauschale).toBeGreaterThan(0)
+    })
+  })
+})
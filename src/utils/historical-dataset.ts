@@ -0,0 +1,166 @@
+/**
+ * Pluggable dataset of historical annual series aligned by year
+ *
+ * The bundled series (MSCI World since 1970, German government bonds, gold, EUR money market,
+ * German consumer price index and Basiszins) are loaded from src/data/historical: the CSV file holds
+ * one row per year and one column per series, the JSON file describes the columns.
+ * Further series can be added at runtime with registerHistoricalSeries.
+ *
+ * IMPORTANT: Past performance does not predict future results.
+ * This data is approximate and for educational and testing purposes only.
+ */
+
+import annualSeriesCsv from '../data/historical/annual-series.csv?raw'
+import bundledSeriesMetadata from '../data/historical/series.json'
+
+export type HistoricalSeriesCategory = 'asset' | 'inflation' | 'interest-rate'
+
+/**
+ * Description of a CSV column as stored in series.json
+ */
+export interface HistoricalSeriesMetadata {
+  id: string
+  column: string // Column name in the CSV file
+  name: string
+  description: string
+  category: HistoricalSeriesCategory
+  currency: string
+}
+
+export interface HistoricalSeries {
+  id: string
+  name: string
+  description: string
+  category: HistoricalSeriesCategory
+  currency: string
+  values: Record<number, number> // Year -> value as decimal (e.g., 0.05 for 5%)
+}
+
+/**
+ * Series values restricted to the years in which all requested series have data
+ */
+export interface AlignedHistory {
+  years: number[]
+  values: Record<string, Record<number, number>>
+}
+
+/**
+ * Parse a CSV file with a `year` column and one column per series.
+ * Values are percentages, empty cells mark years without data.
+ */
+export function parseAnnualSeriesCsv(csv: string): Record<string, Record<number, number>> {
+  const [header, ...rows] = csv.trim().split(/\r?\n/)
+  const columns = header.split(',').map(column => column.trim())
+  const yearColumn = columns.indexOf('year')
+  const result: Record<string, Record<number, number>> = {}
+  columns.forEach((column, i) => {
+    if (i !== yearColumn) result[column] = {}
+  })
+
+  for (const row of rows) {
+    const cells = row.split(',').map(cell => cell.trim())
+    const year = Number(cells[yearColumn])
+    cells.forEach((cell, i) => {
+      if (i !== yearColumn && cell !== '' && Number.isFinite(Number(cell))) {
+        // Rounding removes the floating point noise of the percentage conversion (e.g., -8.71 / 100)
+        result[columns[i]][year] = Number((Number(cell) / 100).toPrecision(12))
+      }
+    })
+  }
+
+  return result
+}
+
+/**
+ * Create series from parsed CSV columns and their metadata. Columns without metadata are ignored.
+ */
+export function createHistoricalSeries(
+  metadata: HistoricalSeriesMetadata[],
+  columns: Record<string, Record<number, number>>,
+): HistoricalSeries[] {
+  return metadata.map(({ column, ...series }) => ({ ...series, values: columns[column] ?? {} }))
+}
+
+const registry = new Map<string, HistoricalSeries>()
+
+/**
+ * Register a series (replaces a registered series with the same id)
+ */
+export function registerHistoricalSeries(series: HistoricalSeries): void {
+  registry.set(series.id, series)
+}
+
+export function getHistoricalSeries(id: string): HistoricalSeries | undefined {
+  return registry.get(id)
+}
+
+export function getRegisteredHistoricalSeries(): HistoricalSeries[] {
+  return Array.from(registry.values())
+}
+
+/**
+ * Years with data of a series in ascending order
+ */
+export function getHistoricalSeriesYears(id: string): number[] {
+  const series = getHistoricalSeries(id)
+  return series
+    ? Object.keys(series.values)
+        .map(Number)
+        .sort((a, b) => a - b)
+    : []
+}
+
+/**
+ * Align several series by year: only years in which every series has a value are kept.
+ * Unknown series result in an empty history.
+ */
+export function getAlignedHistory(seriesIds: string[], startYear?: number, endYear?: number): AlignedHistory {
+  const seriesList = seriesIds.map(getHistoricalSeries)
+  if (seriesList.length === 0 || seriesList.some(series => !series)) {
+    return { years: [], values: {} }
+  }
+
+  const years = getHistoricalSeriesYears(seriesIds[0]).filter(
+    year =>
+      (startYear === undefined || year >= startYear) &&
+      (endYear === undefined || year <= endYear) &&
+      seriesList.every(series => series!.values[year] !== undefined),
+  )
+  const values: Record<string, Record<number, number>> = {}
+  for (const series of seriesList as HistoricalSeries[]) {
+    values[series.id] = Object.fromEntries(years.map(year => [year, series.values[year]]))
+  }
+
+  return { years, values }
+}
+
+/**
+ * Official Basiszins (§ 18 InvStG) of a past year, undefined for years without data
+ */
+export function getHistoricalBasiszins(year: number): number | undefined {
+  return getHistoricalSeries('basiszins')?.values[year]
+}
+
+/**
+ * Inflation rates of the German consumer price index (VPI) for a backtest.
+ * The simulation years are mapped onto consecutive historical years beginning with historicalStartYear,
+ * years without data are omitted so the configured inflation rate applies to them.
+ */
+export function getHistoricalInflationRates(years: number[], historicalStartYear?: number): Record<number, number> {
+  const cpi = getHistoricalSeries('german-cpi')
+  const rates: Record<number, number> = {}
+  if (!cpi || years.length === 0) return rates
+
+  const offset = (historicalStartYear ?? years[0]) - years[0]
+  for (const year of years) {
+    const rate = cpi.values[year + offset]
+    if (rate !== undefined) rates[year] = rate
+  }
+
+  return rates
+}
+
+createHistoricalSeries(
+  bundledSeriesMetadata.series as HistoricalSeriesMetadata[],
+  parseAnnualSeriesCsv(annualSeriesCsv),
+).forEach(registerHistoricalSeries)
@@ -0,0 +1,194 @@
+import { describe, it, expect } from 'vitest'
+import {
+  calculateFanChart,
+  calculateRuinProbabilities,
+  createHistogram,
+  getPercentile,
+  runMonteCarloSimulation,
+  simulateMonteCarloPaths,
+  type MonteCarloSimulationConfig,
+} from './monte-carlo-simulation'
+
+const createConfig = (overrides: Partial<MonteCarloSimulationConfig> = {}): MonteCarloSimulationConfig => ({
+  runs: 50,
+  savingsPhase: {
+    startYear: 2025,
+    endYear: 2034,
+    elements: [{ type: 'sparplan', start: '2025-01-01', einzahlung: 12000, simulation: {} }],
+    steuerlast: 0.26375,
+    teilfreistellungsquote: 0.3,
+    simulationAnnual: 'yearly',
+    freibetragPerYear: { 2025: 2000 },
+  },
+  savingsReturns: { averageReturn: 0.06, standardDeviation: 0.15, seed: 42 },
+  withdrawalPhase: {
+    startYear: 2035,
+    endYear: 2054,
+    strategy: '4prozent',
+    taxRate: 0.26375,
+    teilfreistellungsquote: 0.3,
+  },
+  withdrawalReturns: { averageReturn: 0.04, standardDeviation: 0.12, seed: 42 },
+  birthYear: 1970,
+  ...overrides,
+})
+
+describe('monte-carlo-simulation', () => {
+  describe('simulateMonteCarloPaths', () => {
+    it('should simulate one capital path per run covering both phases', () => {
+      const paths = simulateMonteCarloPaths(createConfig({ runs: 5 }))
+
+      expect(paths).toHaveLength(5)
+      paths.forEach(path => {
+        expect(Object.keys(path).map(Number)).toEqual(Array.from({ length: 30 }, (_, i) => 2025 + i))
+      })
+    })
+
+    it('should report progress after each run', () => {
+      const progress: Array<[number, number]> = []
+      simulateMonteCarloPaths(createConfig({ runs: 3 }), (completed, total) => progress.push([completed, total]))
+
+      expect(progress).toEqual([
+        [1, 3],
+        [2, 3],
+        [3, 3],
+      ])
+    })
+
+    it('should not modify the configured savings plans', () => {
+      const config = createConfig({ runs: 3 })
+      simulateMonteCarloPaths(config)
+
+      expect(config.savingsPhase.elements[0].simulation).toEqual({})
+    })
+
+    it('should be reproducible with a seed', () => {
+      expect(simulateMonteCarloPaths(createConfig({ runs: 3 }))).toEqual(
+        simulateMonteCarloPaths(createConfig({ runs: 3 })),
+      )
+    })
+
+    it('should produce different paths per run', () => {
+      const [first, second] = simulateMonteCarloPaths(createConfig({ runs: 2 }))
+
+      expect(first[2034]).not.toBe(second[2034])
+    })
+
+    it('should apply fund costs on every path', () => {
+      const config = createConfig({ runs: 5, withdrawalPhase: undefined })
+      const withoutCosts = simulateMonteCarloPaths(config)
+      const withCosts = simulateMonteCarloPaths({
+        ...config,
+        savingsPhase: {
+          ...config.savingsPhase,
+          elements: [{ ...config.savingsPhase.elements[0], ter: 1 }],
+        },
+      })
+
+      withCosts.forEach((path, run) => {
+        expect(path[2034]).toBeLessThan(withoutCosts[run][2034])
+      })
+    })
+  })
+
+  describe('getPercentile', () => {
+    it('should use the nearest rank', () => {
+      const values = Array.from({ length: 100 }, (_, i) => i + 1)
+
+      expect(getPercentile(values, 5)).toBe(6)
+      expect(getPercentile(values, 50)).toBe(51)
+      expect(getPercentile(values, 95)).toBe(96)
+      expect(getPercentile([], 50)).toBe(0)
+    })
+  })
+
+  describe('calculateFanChart', () => {
+    it('should calculate ordered percentile bands per year', () => {
+      const paths = Array.from({ length: 20 }, (_, i) => ({ 2030: i * 1000, 2031: i * 500 }))
+      const fanChart = calculateFanChart(paths, [2030, 2031], 1970)
+
+      expect(fanChart).toHaveLength(2)
+      expect(fanChart[0]).toMatchObject({ year: 2030, age: 60, p5: 1000, p50: 10000, p95: 19000 })
+      expect(fanChart[1].p50).toBe(5000)
+    })
+  })
+
+  describe('calculateRuinProbabilities', () => {
+    it('should accumulate depleted runs per year', () => {
+      const paths = [
+        { 2040: 1000, 2041: 0, 2042: 0 },
+        { 2040: 0, 2041: 0, 2042: 0 },
+        { 2040: 1000, 2041: 500, 2042: 100 },
+        { 2040: 1000, 2041: 800, 2042: 0 },
+      ]
+
+      const probabilities = calculateRuinProbabilities(paths, [2040, 2041, 2042], 1975)
+
+      expect(probabilities.map(point => point.probability)).toEqual([0.25, 0.5, 0.75])
+      expect(probabilities.map(point => point.age)).toEqual([65, 66, 67])
+    })
+
+    it('should keep a run ruined even if its capital recovers', () => {
+      const probabilities = calculateRuinProbabilities([{ 2040: 0, 2041: 100 }], [2040, 2041])
+
+      expect(probabilities[1].probability).toBe(1)
+    })
+  })
+
+  describe('createHistogram', () => {
+    it('should distribute all values into equally wide bins', () => {
+      const bins = createHistogram([0, 10, 20, 30, 40, 100], 5)
+
+      expect(bins).toHaveLength(5)
+      expect(bins[0]).toMatchObject({ from: 0, to: 20, count: 2 })
+      expect(bins[4]).toMatchObject({ from: 80, to: 100, count: 1 })
+      expect(bins.reduce((sum, bin) => sum + bin.share, 0)).toBeCloseTo(1, 10)
+    })
+
+    it('should use a single bin when all values are equal', () => {
+      expect(createHistogram([5, 5, 5])).toEqual([{ from: 5, to: 5, count: 3, share: 1 }])
+      expect(createHistogram([])).toEqual([])
+    })
+  })
+
+  describe('runMonteCarloSimulation', () => {
+    it('should aggregate fan chart, ruin probability and terminal wealth', () => {
+      const result = runMonteCarloSimulation(createConfig())
+
+      expect(result.runs).toBe(50)
+      expect(result.years).toHaveLength(30)
+      expect(result.fanChart).toHaveLength(30)
+      expect(result.ruinProbabilityByAge).toHaveLength(20)
+      expect(result.ruinProbabilityByAge[0].age).toBe(65)
+      expect(result.terminalWealth.bins.reduce((sum, bin) => sum + bin.count, 0)).toBe(50)
+      expect(result.successRate).toBeCloseTo(1 - result.ruinProbabilityByAge[19].probability, 10)
+
+      result.fanChart.forEach(point => {
+        expect(point.p5).toBeLessThanOrEqual(point.p25)
+        expect(point.p25).toBeLessThanOrEqual(point.p50)
+        expect(point.p50).toBeLessThanOrEqual(point.p75)
+        expect(point.p75).toBeLessThanOrEqual(point.p95)
+      })
+    })
+
+    it('should report ruin when withdrawals exceed the capital', () => {
+      const config = createConfig({ runs: 20 })
+      const result = runMonteCarloSimulation({
+        ...config,
+        withdrawalPhase: { ...config.withdrawalPhase!, strategy: 'variabel_prozent', customPercentage: 0.25 },
+      })
+
+      expect(result.ruinProbabilityByAge[19].probability).toBeGreaterThan(0.9)
+      expect(result.successRate).toBeLessThan(0.1)
+      expect(result.terminalWealth.median).toBe(0)
+    })
+
+    it('should report full success without a withdrawal phase', () => {
+      const result = runMonteCarloSimulation(createConfig({ runs: 10, withdrawalPhase: undefined }))
+
+      expect(result.ruinProbabilityByAge).toEqual([])
+      expect(result.successRate).toBe(1)
+      expect(result.years).toHaveLength(10)
+    })
+  })
+})
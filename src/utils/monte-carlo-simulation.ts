@@ -0,0 +1,351 @@
+/**
+ * Path-dependent Monte Carlo Simulation
+ *
+ * Every run pushes one randomly generated return path through the real savings phase (simulate)
+ * and the real withdrawal phase (calculateWithdrawal). Taxes, Vorabpauschale, Freibeträge,
+ * pensions, health insurance and fund costs therefore affect each path exactly as they do in the
+ * main simulation. The runs are aggregated into per-year percentile bands (fan chart), the
+ * probability of ruin by age and the distribution of terminal wealth.
+ */
+
+import { simulatePortfolio, type PortfolioSimulationResult, type SimulateOptions } from './simulate'
+import {
+  calculateMonteCarloStatistics,
+  generateMonteCarloReturns,
+  type RandomReturnConfig,
+  type ReturnConfiguration,
+} from './random-returns'
+import { calculateWithdrawal, type CalculateWithdrawalParams } from '../../helpers/withdrawal'
+
+/** Default number of simulation runs */
+export const DEFAULT_MONTE_CARLO_RUNS = 500
+
+/** Allowed range for the number of simulation runs */
+export const MIN_MONTE_CARLO_RUNS = 10
+export const MAX_MONTE_CARLO_RUNS = 5000
+
+/** Default number of bins of the terminal wealth histogram */
+const DEFAULT_HISTOGRAM_BINS = 10
+
+/** Seed offset of the withdrawal phase, so its paths are independent of the savings phase paths */
+const WITHDRAWAL_SEED_OFFSET = 1000003
+
+/** Capital below this amount (in €) counts as depleted */
+export const RUIN_THRESHOLD = 1
+
+export interface MonteCarloSimulationConfig {
+  /** Number of simulated return paths */
+  runs: number
+  /** Savings phase settings (the return configuration is replaced by each path) */
+  savingsPhase: Omit<SimulateOptions, 'returnConfig'>
+  /** Return distribution of the savings phase */
+  savingsReturns: RandomReturnConfig
+  /** Withdrawal phase settings (elements and return configuration are replaced by each path) */
+  withdrawalPhase?: Omit<CalculateWithdrawalParams, 'elements' | 'returnConfig'>
+  /** Return distribution of the withdrawal phase (defaults to the savings phase distribution) */
+  withdrawalReturns?: RandomReturnConfig
+  /** Birth year, used to express years as age */
+  birthYear?: number
+  /** Number of bins of the terminal wealth histogram */
+  histogramBins?: number
+}
+
+/**
+ * Percentile band of the total capital in one year
+ */
+export interface MonteCarloFanChartPoint {
+  year: number
+  age?: number
+  p5: number
+  p25: number
+  p50: number
+  p75: number
+  p95: number
+}
+
+/**
+ * Cumulative probability that the capital is depleted by the end of a withdrawal year
+ */
+export interface RuinProbabilityPoint {
+  year: number
+  age?: number
+  probability: number
+}
+
+/**
+ * One bin of the terminal wealth histogram
+ */
+export interface TerminalWealthBin {
+  from: number
+  to: number
+  count: number
+  share: number
+}
+
+export interface TerminalWealthDistribution {
+  mean: number
+  median: number
+  standardDeviation: number
+  percentile5: number
+  percentile95: number
+  bins: TerminalWealthBin[]
+}
+
+export interface MonteCarloSimulationResult {
+  runs: number
+  years: number[]
+  fanChart: MonteCarloFanChartPoint[]
+  ruinProbabilityByAge: RuinProbabilityPoint[]
+  terminalWealth: TerminalWealthDistribution
+  /** Share of runs in which the capital lasts until the end of the withdrawal phase */
+  successRate: number
+}
+
+/**
+ * Total capital per year of one simulated path
+ */
+export type CapitalPath = Record<number, number>
+
+/**
+ * Called after each simulated run
+ */
+export type MonteCarloProgressCallback = (completedRuns: number, totalRuns: number) => void
+
+/**
+ * Create a list of consecutive years
+ */
+function createYearRange(startYear: number, endYear: number): number[] {
+  return Array.from({ length: Math.max(0, endYear - startYear + 1) }, (_, i) => startYear + i)
+}
+
+/**
+ * Create a return configuration from one generated return path
+ */
+function createPathReturnConfig(yearlyReturns: Record<number, number>): ReturnConfiguration {
+  return { mode: 'variable', variableConfig: { yearlyReturns } }
+}
+
+/**
+ * Make sure every run gets its own seed, even without a configured seed
+ */
+function withBaseSeed(config: RandomReturnConfig, offset = 0): RandomReturnConfig {
+  return { ...config, seed: (config.seed ?? Date.now()) + offset }
+}
+
+/**
+ * Run the savings phase for one return path on fresh copies of the savings plans
+ */
+function runSavingsPhase(
+  savingsPhase: MonteCarloSimulationConfig['savingsPhase'],
+  yearlyReturns: Record<number, number>,
+): PortfolioSimulationResult {
+  const elements = savingsPhase.elements.map(element => ({ ...element, simulation: {} }))
+
+  return simulatePortfolio({ ...savingsPhase, elements, returnConfig: createPathReturnConfig(yearlyReturns) })
+}
+
+/**
+ * Simulate one complete path (savings and withdrawal phase) and collect the total capital per year
+ */
+function simulatePath(
+  config: MonteCarloSimulationConfig,
+  savingsReturns: Record<number, number>,
+  withdrawalReturns: Record<number, number> | undefined,
+): CapitalPath {
+  const { elements, portfolioTaxState } = runSavingsPhase(config.savingsPhase, savingsReturns)
+  const path: CapitalPath = {}
+
+  createYearRange(config.savingsPhase.startYear, config.savingsPhase.endYear).forEach(year => {
+    path[year] = elements.reduce((sum, element) => sum + (element.simulation[year]?.endkapital || 0), 0)
+  })
+
+  if (config.withdrawalPhase && withdrawalReturns) {
+    const { result } = calculateWithdrawal({
+      ...config.withdrawalPhase,
+      elements,
+      returnConfig: createPathReturnConfig(withdrawalReturns),
+      portfolioTaxState,
+    })
+
+    // calculateWithdrawal stops once the capital is depleted, so missing years count as 0
+    createYearRange(config.withdrawalPhase.startYear, config.withdrawalPhase.endYear).forEach(year => {
+      path[year] = Math.max(0, result[year]?.endkapital || 0)
+    })
+  }
+
+  return path
+}
+
+/**
+ * Run all Monte Carlo paths through the savings and withdrawal phase
+ *
+ * @param config - Simulation settings of both phases and the return distributions
+ * @param onProgress - Optional callback after each simulated run
+ * @returns Total capital per year for every run
+ */
+export function simulateMonteCarloPaths(
+  config: MonteCarloSimulationConfig,
+  onProgress?: MonteCarloProgressCallback,
+): CapitalPath[] {
+  const { savingsPhase, withdrawalPhase } = config
+  const savingsPaths = generateMonteCarloReturns(
+    createYearRange(savingsPhase.startYear, savingsPhase.endYear),
+    withBaseSeed(config.savingsReturns),
+    config.runs,
+  )
+
+  // One extra year before the withdrawal start for strategies that use the previous year's return
+  const withdrawalPaths = withdrawalPhase
+    ? generateMonteCarloReturns(
+        createYearRange(withdrawalPhase.startYear - 1, withdrawalPhase.endYear),
+        withBaseSeed(config.withdrawalReturns ?? config.savingsReturns, WITHDRAWAL_SEED_OFFSET),
+        config.runs,
+      )
+    : []
+
+  return savingsPaths.map((savingsReturns, run) => {
+    const path = simulatePath(config, savingsReturns, withdrawalPaths[run])
+    onProgress?.(run + 1, savingsPaths.length)
+    return path
+  })
+}
+
+/**
+ * Get a percentile from sorted values (nearest rank, consistent with calculateMonteCarloStatistics)
+ */
+export function getPercentile(sortedValues: number[], percentile: number): number {
+  if (sortedValues.length === 0) {
+    return 0
+  }
+  const index = Math.min(sortedValues.length - 1, Math.floor((percentile / 100) * sortedValues.length))
+  return sortedValues[index]
+}
+
+/**
+ * Calculate the age in a given year, if the birth year is known
+ */
+function getAge(year: number, birthYear?: number): number | undefined {
+  return birthYear !== undefined ? year - birthYear : undefined
+}
+
+/**
+ * Calculate per-year percentile bands of the total capital across all runs
+ */
+export function calculateFanChart(paths: CapitalPath[], years: number[], birthYear?: number): MonteCarloFanChartPoint[] {
+  return years.map(year => {
+    const values = paths.map(path => path[year] ?? 0).sort((a, b) => a - b)
+
+    return {
+      year,
+      age: getAge(year, birthYear),
+      p5: getPercentile(values, 5),
+      p25: getPercentile(values, 25),
+      p50: getPercentile(values, 50),
+      p75: getPercentile(values, 75),
+      p95: getPercentile(values, 95),
+    }
+  })
+}
+
+/**
+ * Calculate the cumulative probability of ruin for each withdrawal year
+ *
+ * A run is ruined from the first withdrawal year in which its capital is depleted.
+ */
+export function calculateRuinProbabilities(
+  paths: CapitalPath[],
+  withdrawalYears: number[],
+  birthYear?: number,
+): RuinProbabilityPoint[] {
+  const ruined = new Array<boolean>(paths.length).fill(false)
+
+  return withdrawalYears.map(year => {
+    paths.forEach((path, run) => {
+      if ((path[year] ?? 0) < RUIN_THRESHOLD) {
+        ruined[run] = true
+      }
+    })
+
+    return {
+      year,
+      age: getAge(year, birthYear),
+      probability: paths.length > 0 ? ruined.filter(Boolean).length / paths.length : 0,
+    }
+  })
+}
+
+/**
+ * Split values into equally wide histogram bins
+ */
+export function createHistogram(values: number[], binCount = DEFAULT_HISTOGRAM_BINS): TerminalWealthBin[] {
+  if (values.length === 0) {
+    return []
+  }
+
+  const min = Math.min(...values)
+  const max = Math.max(...values)
+  if (max === min) {
+    return [{ from: min, to: max, count: values.length, share: 1 }]
+  }
+
+  const width = (max - min) / binCount
+  const counts = new Array<number>(binCount).fill(0)
+  values.forEach(value => {
+    counts[Math.min(binCount - 1, Math.floor((value - min) / width))]++
+  })
+
+  return counts.map((count, i) => ({
+    from: min + i * width,
+    to: min + (i + 1) * width,
+    count,
+    share: count / values.length,
+  }))
+}
+
+/**
+ * Calculate the terminal wealth distribution
+ */
+function calculateTerminalWealth(terminalValues: number[], binCount?: number): TerminalWealthDistribution {
+  if (terminalValues.length === 0) {
+    return { mean: 0, median: 0, standardDeviation: 0, percentile5: 0, percentile95: 0, bins: [] }
+  }
+
+  const { mean, median, standardDeviation, percentile5, percentile95 } = calculateMonteCarloStatistics(terminalValues)
+
+  return { mean, median, standardDeviation, percentile5, percentile95, bins: createHistogram(terminalValues, binCount) }
+}
+
+/**
+ * Run a path-dependent Monte Carlo simulation through the savings and withdrawal phase
+ *
+ * @param config - Simulation settings of both phases and the return distributions
+ * @param onProgress - Optional callback after each simulated run
+ * @returns Fan chart, probability of ruin by age and terminal wealth distribution
+ */
+export function runMonteCarloSimulation(
+  config: MonteCarloSimulationConfig,
+  onProgress?: MonteCarloProgressCallback,
+): MonteCarloSimulationResult {
+  const paths = simulateMonteCarloPaths(config, onProgress)
+  const savingsYears = createYearRange(config.savingsPhase.startYear, config.savingsPhase.endYear)
+  const withdrawalYears = config.withdrawalPhase
+    ? createYearRange(config.withdrawalPhase.startYear, config.withdrawalPhase.endYear)
+    : []
+  const years = [...savingsYears, ...withdrawalYears]
+  const lastYear = years[years.length - 1]
+
+  const ruinProbabilityByAge = calculateRuinProbabilities(paths, withdrawalYears, config.birthYear)
+  const finalRuinProbability = ruinProbabilityByAge[ruinProbabilityByAge.length - 1]?.probability ?? 0
+
+  return {
+    runs: paths.length,
+    years,
+    fanChart: calculateFanChart(paths, years, config.birthYear),
+    ruinProbabilityByAge,
+    terminalWealth: calculateTerminalWealth(
+      paths.map(path => path[lastYear] ?? 0),
+      config.histogramBins,
+    ),
+    successRate: 1 - finalRuinProbability,
+  }
+}
@@ -191,6 +191,7 @@ describe('Parameter Export', () => {
           steueroptimierteEntnahmeFreibetragUtilizationTarget: 0.85,
           steueroptimierteEntnahmeRebalanceFrequency: 'yearly' as const,
           einkommensteuersatz: 28,
+          einkommensteuerPauschal: true,
         },
         withdrawalReturnMode: 'random',
         withdrawalVariableReturns: {},
@@ -1,6 +1,7 @@
 import type { SimulationContextState } from '../contexts/SimulationContext'
 import type { SpecialEventData, Sparplan } from './sparplan-utils'
 import { formatCurrency } from './currency'
+import { DEFAULT_TARIFF_INDEXATION, type IncomeTaxTariffIndexation } from '../../helpers/income-tax-tariff'
 
 /**
  * Helper function to format basic financial parameters
@@ -159,6 +160,8 @@ interface FormValue {
   rendite: number
   withdrawalFrequency: string
   einkommensteuersatz: number
+  einkommensteuerPauschal?: boolean
+  einkommensteuerTarifIndexierung?: IncomeTaxTariffIndexation
 }
 
 /**
@@ -228,10 +231,17 @@ function formatWithdrawalStrategyDetails(fv: FormValue): string[] {
 function formatGrundfreibetragConfig(context: SimulationContextState, fv: FormValue): string[] {
   const lines: string[] = []
 
-  if (context.grundfreibetragAktiv) {
+  if (context.grundfreibetragAktiv && fv.einkommensteuerPauschal) {
     lines.push(`  Grundfreibetrag aktiv: Ja`)
     lines.push(`  Grundfreibetrag: ${formatCurrency(context.grundfreibetragBetrag)}`)
     lines.push(`  Einkommensteuersatz: ${fv.einkommensteuersatz.toFixed(2)} %`)
+  } else if (context.grundfreibetragAktiv) {
+    const indexation = fv.einkommensteuerTarifIndexierung ?? DEFAULT_TARIFF_INDEXATION
+    lines.push(`  Grundfreibetrag aktiv: Ja`)
+    lines.push(`  Einkommensteuer: Tarif §32a EStG des jeweiligen Jahres`)
+    lines.push(
+      `  Tarif-Fortschreibung: ${indexation.enabled ? `${(indexation.annualRate * 100).toFixed(2)} % p.a.` : 'Nein'}`,
+    )
   } else {
     lines.push(`  Grundfreibetrag aktiv: Nein`)
   }
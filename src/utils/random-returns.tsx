@@ -8,12 +8,21 @@ export type RandomReturnConfig = {
   seed?: number // Random seed for reproducible results
 }
 
-export type ReturnMode = 'fixed' | 'random' | 'variable' | 'historical' | 'multiasset'
+export type ReturnMode =
+  | 'fixed'
+  | 'random'
+  | 'variable'
+  | 'historical'
+  | 'multiasset'
+  | 'bootstrap'
+  | 'student-t'
+  | 'regime'
 
 export type HistoricalReturnConfig = {
   indexId: string // ID of the historical index (e.g., 'dax', 'sp500')
   startYear?: number // Optional: override start year for backtesting period
   endYear?: number // Optional: override end year for backtesting period
+  useHistoricalInflation?: boolean // Optional: use the German consumer price index (VPI) of the backtested years
 }
 
 export type VariableReturnConfig = {
@@ -27,13 +36,16 @@ export type ReturnConfiguration = {
   variableConfig?: VariableReturnConfig // Used when mode is 'variable'
   historicalConfig?: HistoricalReturnConfig // Used when mode is 'historical'
   multiAssetConfig?: import('../../helpers/multi-asset-portfolio').MultiAssetPortfolioConfig // Used when mode is 'multiasset'
+  bootstrapConfig?: import('./stochastic-returns').BootstrapReturnConfig // Used when mode is 'bootstrap'
+  studentTConfig?: import('./stochastic-returns').StudentTReturnConfig // Used when mode is 'student-t'
+  regimeConfig?: import('./stochastic-returns').RegimeSwitchingReturnConfig // Used when mode is 'regime'
 }
 
 /**
  * Simple Linear Congruential Generator for reproducible random numbers
  * Based on Numerical Recipes parameters
  */
-class SeededRandom {
+export class SeededRandom {
   private seed: number
 
   constructor(seed: number = Date.now()) {
@@ -51,7 +63,7 @@ class SeededRandom {
  * Box-Muller transformation for generating normally distributed random numbers
  * Returns two independent standard normal variables, but we only use one
  */
-function boxMuller(rng: SeededRandom): number {
+export function boxMuller(rng: SeededRandom): number {
   let u1 = rng.next()
   const u2 = rng.next()
 
@@ -0,0 +1,132 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  mapYearsToHistory,
+  runRollingHistoricalBacktest,
+  type RollingHistoricalBacktestConfig,
+} from './rolling-historical-backtest'
+import { createSingleSegmentConfig } from './segmented-withdrawal'
+import { getAvailableYears } from './historical-data'
+
+const createConfig = (monthlyAmount: number): RollingHistoricalBacktestConfig => ({
+  indexId: 'msci-world',
+  savingsPhase: {
+    startYear: 2030,
+    endYear: 2031,
+    elements: [{ type: 'einmalzahlung', start: '2030-01-01', einzahlung: 100000, gewinn: 0, simulation: {} }],
+    steuerlast: 0.26375,
+    teilfreistellungsquote: 0.3,
+    simulationAnnual: 'yearly',
+  },
+  withdrawal: createSingleSegmentConfig(
+    'monatlich_fest',
+    { mode: 'fixed', fixedRate: 0.5 },
+    2032,
+    2035,
+    'yearly',
+    undefined,
+    { monthlyAmount },
+  ),
+})
+
+describe('rolling-historical-backtest', () => {
+  describe('mapYearsToHistory', () => {
+    it('should continue with the first historical year when the history ends', () => {
+      const history = { 2000: 0.1, 2001: 0.2, 2002: 0.3 }
+
+      expect(mapYearsToHistory([2030, 2031, 2032], history, 2001)).toEqual({ 2030: 0.2, 2031: 0.3, 2032: 0.1 })
+    })
+  })
+
+  describe('runRollingHistoricalBacktest', () => {
+    it('should run the plan once for every historical start year', () => {
+      const onProgress = vi.fn()
+      const result = runRollingHistoricalBacktest(createConfig(500), onProgress)
+      const startYears = getAvailableYears('msci-world')
+
+      expect(result.years).toEqual([2030, 2031, 2032, 2033, 2034, 2035])
+      expect(result.runs.map(run => run.historicalStartYear)).toEqual(startYears)
+      expect(onProgress).toHaveBeenLastCalledWith(startYears.length, startYears.length)
+      expect(result.successRate).toBe(1)
+      expect(result.runs.every(run => run.endingCapital === run.capitalByYear[2035])).toBe(true)
+    })
+
+    it('should use the historical returns instead of the segment returns', () => {
+      const result = runRollingHistoricalBacktest(createConfig(500))
+      const run2008 = result.runs.find(run => run.historicalStartYear === 2008)!
+      const run2009 = result.runs.find(run => run.historicalStartYear === 2009)!
+
+      // 2008: MSCI World -40% in the first year of the savings phase
+      expect(run2008.capitalByYear[2030]).toBeLessThan(70000)
+      expect(run2009.capitalByYear[2030]).toBeGreaterThan(120000)
+      expect(run2008.capitalByYear[2035]).toBeLessThan(run2009.capitalByYear[2035])
+    })
+
+    it('should mark the start years that need more history than available', () => {
+      const result = runRollingHistoricalBacktest(createConfig(500))
+
+      expect(result.runs.find(run => run.historicalStartYear === 2018)!.wrapsAround).toBe(false)
+      expect(result.runs.find(run => run.historicalStartYear === 2019)!.wrapsAround).toBe(true)
+    })
+
+    it('should report failed start years with the worst start year and the minimum ending capital', () => {
+      const result = runRollingHistoricalBacktest(createConfig(3000))
+      const completeRuns = result.runs.filter(run => !run.wrapsAround)
+      const failedRuns = completeRuns.filter(run => !run.success)
+      const worstRun = result.runs.find(run => run.historicalStartYear === result.worstStartYear)!
+
+      expect(failedRuns.length).toBeGreaterThan(0)
+      expect(result.successRate).toBeCloseTo(1 - failedRuns.length / completeRuns.length)
+      expect(result.minimumEndingCapital).toBe(0)
+      expect(worstRun.wrapsAround).toBe(false)
+      expect(worstRun.depletionYear).toBe(Math.min(...failedRuns.map(run => run.depletionYear!)))
+    })
+
+    it('should report the start years with wrap-around separately', () => {
+      const result = runRollingHistoricalBacktest(createConfig(3000))
+      const wrapAroundRuns = result.runs.filter(run => run.wrapsAround)
+
+      expect(wrapAroundRuns.length).toBeGreaterThan(0)
+      expect(result.wrapAroundSuccessRate).toBeCloseTo(
+        wrapAroundRuns.filter(run => run.success).length / wrapAroundRuns.length,
+      )
+    })
+
+    it('should backtest the single strategy withdrawal with its own tax parameters', () => {
+      const run = (taxRate: number) =>
+        runRollingHistoricalBacktest({
+          ...createConfig(500),
+          withdrawal: undefined,
+          withdrawalPhase: {
+            startYear: 2032,
+            endYear: 2035,
+            strategy: 'monatlich_fest',
+            monthlyConfig: { monthlyAmount: 500 },
+            taxRate,
+            teilfreistellungsquote: 0.3,
+            freibetragPerYear: { 2032: 0, 2033: 0, 2034: 0, 2035: 0 },
+            steuerReduzierenEndkapital: true,
+          },
+        }).runs.find(run => run.historicalStartYear === 2009)!
+
+      expect(run(0.1).capitalByYear[2035]).toBeGreaterThan(0)
+      expect(run(0.26375).capitalByYear[2035]).toBeLessThan(run(0.1).capitalByYear[2035])
+    })
+
+    it('should only backtest the savings phase without withdrawal segments', () => {
+      const result = runRollingHistoricalBacktest({ ...createConfig(500), withdrawal: undefined })
+
+      expect(result.years).toEqual([2030, 2031])
+      expect(result.successRate).toBe(1)
+      expect(result.minimumEndingCapital).toBeGreaterThan(0)
+    })
+
+    it('should return an empty result for an unknown index', () => {
+      const result = runRollingHistoricalBacktest({ ...createConfig(500), indexId: 'unknown' })
+
+      expect(result.runs).toEqual([])
+      expect(result.successRate).toBe(0)
+      expect(result.worstStartYear).toBeUndefined()
+      expect(result.wrapAroundSuccessRate).toBeUndefined()
+    })
+  })
+})
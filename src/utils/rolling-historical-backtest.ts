@@ -0,0 +1,282 @@
+/**
+ * Rolling Historical Backtest
+ *
+ * Runs the complete plan - savings phase (simulate) and the withdrawal phase (calculateWithdrawal for a single
+ * strategy, calculateSegmentedWithdrawal for withdrawal segments) - once for every year of a historical index
+ * as start year.
+ * The first simulation year receives the return of the start year, every following year the return
+ * of the next historical year. Plans that are longer than the remaining history continue with the
+ * first years of the index (wrap-around), so every historical year can be used as start year. These start
+ * years do not follow a real market sequence, so they are reported separately and are not part of the
+ * success rate and the worst start year.
+ *
+ * IMPORTANT: Past performance does not predict future results.
+ */
+
+import { simulatePortfolio, type SimulateOptions } from './simulate'
+import type { ReturnConfiguration } from './random-returns'
+import type { SegmentedWithdrawalConfig } from './segmented-withdrawal'
+import { getAvailableYears, getHistoricalReturns } from './historical-data'
+import { RUIN_THRESHOLD, type CapitalPath } from './monte-carlo-simulation'
+import {
+  calculateSegmentedWithdrawal,
+  calculateWithdrawal,
+  type CalculateWithdrawalParams,
+  type WithdrawalResult,
+} from '../../helpers/withdrawal'
+
+/** Index with the longest bundled history */
+export const DEFAULT_ROLLING_BACKTEST_INDEX = 'msci-world-1970'
+
+export interface RollingHistoricalBacktestConfig {
+  /** Historical index providing the returns */
+  indexId: string
+  /** Savings phase settings (the return configuration is replaced for each start year) */
+  savingsPhase: Omit<SimulateOptions, 'returnConfig'>
+  /** The user's withdrawal segments (their return configurations are replaced for each start year) */
+  withdrawal?: SegmentedWithdrawalConfig
+  /** Single strategy withdrawal with all its tax, health insurance and pension parameters (instead of segments) */
+  withdrawalPhase?: Omit<CalculateWithdrawalParams, 'elements' | 'returnConfig'>
+}
+
+/**
+ * Backtest of the plan with one historical start year
+ */
+export interface RollingBacktestRun {
+  historicalStartYear: number
+  /** Total capital per simulation year */
+  capitalByYear: CapitalPath
+  endingCapital: number
+  /** The capital lasts until the end of the withdrawal phase */
+  success: boolean
+  /** First simulation year in which the capital is depleted */
+  depletionYear?: number
+  /** The plan needed more years than the history offers after the start year */
+  wrapsAround: boolean
+}
+
+export interface RollingHistoricalBacktestResult {
+  indexId: string
+  /** Simulation years of the plan */
+  years: number[]
+  runs: RollingBacktestRun[]
+  /**
+   * Share of the start years without wrap-around in which the capital lasts until the end of the
+   * withdrawal phase
+   */
+  successRate: number
+  /**
+   * Start year without wrap-around with the lowest ending capital (the earliest depletion decides between
+   * depleted runs)
+   */
+  worstStartYear?: number
+  minimumEndingCapital: number
+  /** Success rate of the start years with wrap-around, undefined if every start year has enough history */
+  wrapAroundSuccessRate?: number
+}
+
+/**
+ * Called after each backtested start year
+ */
+export type RollingBacktestProgressCallback = (completedRuns: number, totalRuns: number) => void
+
+function createYearRange(startYear: number, endYear: number): number[] {
+  return Array.from({ length: Math.max(0, endYear - startYear + 1) }, (_, i) => startYear + i)
+}
+
+/**
+ * Years of the single strategy withdrawal, or from the first to the last year of the withdrawal segments
+ */
+function getWithdrawalYearRange({ withdrawal, withdrawalPhase }: RollingHistoricalBacktestConfig): number[] {
+  if (withdrawalPhase) {
+    return createYearRange(withdrawalPhase.startYear, withdrawalPhase.endYear)
+  }
+  if (!withdrawal || withdrawal.segments.length === 0) {
+    return []
+  }
+
+  return createYearRange(
+    Math.min(...withdrawal.segments.map(segment => segment.startYear)),
+    Math.max(...withdrawal.segments.map(segment => segment.endYear)),
+  )
+}
+
+/**
+ * Map consecutive simulation years onto the history beginning with the start year (wrapping around)
+ */
+export function mapYearsToHistory(
+  years: number[],
+  history: Record<number, number>,
+  historicalStartYear: number,
+): Record<number, number> {
+  const historyYears = Object.keys(history)
+    .map(Number)
+    .sort((a, b) => a - b)
+  const startIndex = Math.max(historyYears.indexOf(historicalStartYear), 0)
+
+  return Object.fromEntries(
+    years.map((year, position) => [year, history[historyYears[(startIndex + position) % historyYears.length]]]),
+  )
+}
+
+function createVariableReturnConfig(yearlyReturns: Record<number, number>): ReturnConfiguration {
+  return { mode: 'variable', variableConfig: { yearlyReturns } }
+}
+
+/**
+ * Run the withdrawal phase with the historical returns, undefined without a configured withdrawal
+ */
+function simulateWithdrawal(
+  config: RollingHistoricalBacktestConfig,
+  savingsResult: ReturnType<typeof simulatePortfolio>,
+  returnConfig: ReturnConfiguration,
+): WithdrawalResult | undefined {
+  const { withdrawal, withdrawalPhase } = config
+  const { elements, portfolioTaxState } = savingsResult
+  if (withdrawalPhase) {
+    return calculateWithdrawal({ ...withdrawalPhase, elements, returnConfig, portfolioTaxState }).result
+  }
+  if (!withdrawal || withdrawal.segments.length === 0) {
+    return undefined
+  }
+
+  return calculateSegmentedWithdrawal(
+    elements,
+    { ...withdrawal, segments: withdrawal.segments.map(segment => ({ ...segment, returnConfig })) },
+    portfolioTaxState,
+  )
+}
+
+/**
+ * Run savings and withdrawal phase with the returns of one historical start year
+ */
+function simulateStartYear(
+  config: RollingHistoricalBacktestConfig,
+  years: number[],
+  yearlyReturns: Record<number, number>,
+): CapitalPath {
+  const { savingsPhase } = config
+  const returnConfig = createVariableReturnConfig(yearlyReturns)
+  const savingsResult = simulatePortfolio({
+    ...savingsPhase,
+    elements: savingsPhase.elements.map(element => ({ ...element, simulation: {} })),
+    returnConfig,
+  })
+
+  const path: CapitalPath = {}
+  createYearRange(savingsPhase.startYear, savingsPhase.endYear).forEach(year => {
+    path[year] = savingsResult.elements.reduce((sum, element) => sum + (element.simulation[year]?.endkapital || 0), 0)
+  })
+
+  const result = simulateWithdrawal(config, savingsResult, returnConfig)
+  if (result) {
+    // The withdrawal stops once the capital is depleted, so missing years count as 0
+    getWithdrawalYearRange(config).forEach(year => {
+      path[year] = Math.max(0, result[year]?.endkapital || 0)
+    })
+  }
+
+  return Object.fromEntries(years.map(year => [year, path[year] ?? 0]))
+}
+
+/**
+ * Evaluate the capital path of one start year
+ */
+function createRun(
+  historicalStartYear: number,
+  capitalByYear: CapitalPath,
+  withdrawalYears: number[],
+  wrapsAround: boolean,
+): RollingBacktestRun {
+  const years = Object.keys(capitalByYear).map(Number)
+  const endingCapital = capitalByYear[Math.max(...years)] ?? 0
+  const depletionYear = withdrawalYears.find(year => capitalByYear[year] < RUIN_THRESHOLD)
+
+  return {
+    historicalStartYear,
+    capitalByYear,
+    endingCapital,
+    success: depletionYear === undefined,
+    depletionYear,
+    wrapsAround,
+  }
+}
+
+/**
+ * Find the run with the lowest ending capital; depleted runs are compared by their depletion year
+ */
+function findWorstRun(runs: RollingBacktestRun[]): RollingBacktestRun | undefined {
+  return runs.reduce<RollingBacktestRun | undefined>((worst, run) => {
+    if (!worst || run.endingCapital < worst.endingCapital) {
+      return run
+    }
+    const bothDepleted = run.depletionYear !== undefined && worst.depletionYear !== undefined
+    return bothDepleted && run.endingCapital === worst.endingCapital && run.depletionYear! < worst.depletionYear!
+      ? run
+      : worst
+  }, undefined)
+}
+
+function getSuccessRate(runs: RollingBacktestRun[]): number {
+  return runs.length > 0 ? runs.filter(run => run.success).length / runs.length : 0
+}
+
+/**
+ * Success rate, worst start year and minimum ending capital of the start years without wrap-around;
+ * the start years with wrap-around only get their own success rate
+ */
+function summarizeRuns(
+  runs: RollingBacktestRun[],
+): Pick<
+  RollingHistoricalBacktestResult,
+  'successRate' | 'worstStartYear' | 'minimumEndingCapital' | 'wrapAroundSuccessRate'
+> {
+  const completeRuns = runs.filter(run => !run.wrapsAround)
+  const wrapAroundRuns = runs.filter(run => run.wrapsAround)
+  const worstRun = findWorstRun(completeRuns)
+
+  return {
+    successRate: getSuccessRate(completeRuns),
+    worstStartYear: worstRun?.historicalStartYear,
+    minimumEndingCapital: worstRun?.endingCapital ?? 0,
+    wrapAroundSuccessRate: wrapAroundRuns.length > 0 ? getSuccessRate(wrapAroundRuns) : undefined,
+  }
+}
+
+/**
+ * Backtest the complete plan with every year of the historical index as start year
+ *
+ * @param config - Index, savings phase and withdrawal segments of the plan
+ * @param onProgress - Optional callback after each start year
+ * @returns One run per start year with success rate, worst start year and minimum ending capital of the
+ * start years without wrap-around
+ */
+export function runRollingHistoricalBacktest(
+  config: RollingHistoricalBacktestConfig,
+  onProgress?: RollingBacktestProgressCallback,
+): RollingHistoricalBacktestResult {
+  const historyYears = getAvailableYears(config.indexId)
+  const history =
+    historyYears.length > 0
+      ? getHistoricalReturns(config.indexId, historyYears[0], historyYears[historyYears.length - 1])
+      : null
+  const withdrawalYears = getWithdrawalYearRange(config)
+  const lastYear = Math.max(config.savingsPhase.endYear, ...withdrawalYears)
+  const years = createYearRange(config.savingsPhase.startYear, lastYear)
+
+  const runs = history
+    ? historyYears.map((historicalStartYear, i) => {
+        const yearlyReturns = mapYearsToHistory(years, history, historicalStartYear)
+        const capitalByYear = simulateStartYear(config, years, yearlyReturns)
+        onProgress?.(i + 1, historyYears.length)
+        return createRun(historicalStartYear, capitalByYear, withdrawalYears, i + years.length > historyYears.length)
+      })
+    : []
+
+  return {
+    indexId: config.indexId,
+    years,
+    runs,
+    ...summarizeRuns(runs),
+  }
+}
@@ -9,7 +9,17 @@ import {
 } from '../../helpers/withdrawal'
 import type { ReturnConfiguration } from './random-returns'
 import type { WithdrawalFrequency } from './config-storage'
-import type { StatutoryPensionConfig } from '../../helpers/statutory-pension'
+import type { CoupleStatutoryPensionConfig, StatutoryPensionConfig } from '../../helpers/statutory-pension'
+import type { PartTimeRetirementWorkConfig } from '../../helpers/part-time-retirement-work'
+import type { EMRenteConfig } from '../../helpers/em-rente'
+import type { SpendenConfig } from '../../helpers/spenden'
+import type { RealizedLossesConfig } from '../../helpers/loss-offset-accounts'
+import type { PropertyOwnershipConfig } from '../../helpers/immobilien-eigentum'
+import type { BedarfsorientierteEntnahmeConfig } from '../../helpers/bedarfsorientierte-entnahme'
+import type { CoupleWithdrawalConfig } from '../../helpers/couple-withdrawal'
+import type { IncomeTaxTariffIndexation } from '../../helpers/income-tax-tariff'
+import type { HealthCareInsuranceConfig } from '../../helpers/health-care-insurance'
+import type { OtherIncomeConfiguration } from '../../helpers/other-income'
 
 /**
  * Configuration for a single withdrawal segment (time period)
@@ -43,6 +53,8 @@ export type WithdrawalSegment = {
   rmdConfig?: RMDConfig
   /** Steueroptimierte Entnahme configuration (for steueroptimiert strategy) */
   steuerOptimierteConfig?: SteueroptimierteEntnahmeConfig
+  /** Spending models of the bedarfsorientiert strategy */
+  bedarfsorientierteConfig?: BedarfsorientierteEntnahmeConfig
   /** Whether taxes should reduce capital for this segment */
   steuerReduzierenEndkapital?: boolean
 }
@@ -55,13 +67,49 @@ export type SegmentedWithdrawalConfig = {
   segments: WithdrawalSegment[]
   /** Global tax rate applied to all segments */
   taxRate: number
+  /** Teilfreistellung of the lots without fund type (applies to all segments) */
+  teilfreistellungsquote?: number
   /** Global tax allowance configuration */
   freibetragPerYear?: { [year: number]: number }
   /** Statutory pension configuration (applies to all segments) */
   statutoryPensionConfig?: StatutoryPensionConfig
+  /** Part-time work in retirement (applies to all segments) */
+  partTimeRetirementWorkConfig?: PartTimeRetirementWorkConfig
+  /** EM-Rente, reduced by the part-time income (applies to all segments) */
+  emRenteConfig?: EMRenteConfig
+  /** Donations deducted from the income tax (applies to all segments) */
+  spendenConfig?: SpendenConfig
+  /** Income tax on withdrawals, pensions and other income (applies to all segments) */
+  enableGrundfreibetrag?: boolean
+  /** Grundfreibetrag per year of the legacy flat income tax rate */
+  grundfreibetragPerYear?: { [year: number]: number }
+  /** Legacy flat income tax rate above the Grundfreibetrag, without it the §32a tariff of the year applies */
+  incomeTaxRate?: number
+  /** Indexation of the §32a tariff in the years after the last legislated tariff */
+  incomeTaxTariffIndexation?: IncomeTaxTariffIndexation
+  /** Günstigerprüfung of the capital gains with the personal income tax */
+  guenstigerPruefungAktiv?: boolean
+  /** Health and care insurance, whose contributions reduce the taxable income (applies to all segments) */
+  healthCareInsuranceConfig?: HealthCareInsuranceConfig
+  /** Other income sources such as rental income or a Betriebsrente (applies to all segments) */
+  otherIncomeConfig?: OtherIncomeConfiguration
   /** Church tax configuration */
   kirchensteuerAktiv?: boolean
   kirchensteuersatz?: number
+  /** Losses realized outside of the portfolio per year (Verlustverrechnung) */
+  realizedLossesByYear?: Record<number, RealizedLossesConfig>
+  /** Owned property: mortgage payments and sale proceeds of the withdrawal years (applies to all segments) */
+  propertyOwnershipConfig?: PropertyOwnershipConfig
+  /** Birth year for age-dependent settings such as the glide path of a multi-asset portfolio */
+  birthYear?: number
+  /** Birth year of the partner for the couple withdrawal plan */
+  spouseBirthYear?: number
+  /** Planning mode: couples are assessed jointly with the splitting tariff */
+  planningMode?: 'individual' | 'couple'
+  /** Individual statutory pensions of both partners (couple planning mode) */
+  coupleStatutoryPensionConfig?: CoupleStatutoryPensionConfig
+  /** Survivor phase of the couple, the last segment continues until the death of the survivor */
+  coupleWithdrawalConfig?: CoupleWithdrawalConfig
 }
 
 /**
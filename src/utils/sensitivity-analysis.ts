@@ -245,6 +245,49 @@ export function runSensitivityAnalysis(
   return results
 }
 
+/**
+ * Results of the sensitivity analysis of all parameters
+ */
+export interface SensitivityAnalysisResults {
+  results: Map<string, SensitivityResult[]>
+  /** Result of each parameter closest to its base value */
+  baseResults: Map<string, SensitivityResult>
+}
+
+/**
+ * Run the sensitivity analysis for all parameters of SENSITIVITY_PARAMETERS
+ *
+ * @param onProgress - Called after each analyzed parameter
+ */
+export function runFullSensitivityAnalysis(
+  baseConfig: SensitivityAnalysisConfig,
+  returnConfig: ReturnConfiguration,
+  onProgress: (completed: number, total: number) => void = () => {},
+): SensitivityAnalysisResults {
+  const results = new Map<string, SensitivityResult[]>()
+  const baseResults = new Map<string, SensitivityResult>()
+  const parameters = Object.entries(SENSITIVITY_PARAMETERS)
+
+  parameters.forEach(([paramName, parameter], index) => {
+    const paramResults = runSensitivityAnalysis(parameter, baseConfig, returnConfig)
+
+    if (paramResults.length > 0) {
+      results.set(paramName, paramResults)
+
+      // Find the base result (closest to parameter's base value)
+      const baseResult = paramResults.reduce((prev, curr) =>
+        Math.abs(curr.parameterValue - parameter.baseValue) < Math.abs(prev.parameterValue - parameter.baseValue)
+          ? curr
+          : prev,
+      )
+      baseResults.set(paramName, baseResult)
+    }
+    onProgress(index + 1, parameters.length)
+  })
+
+  return { results, baseResults }
+}
+
 /**
  * Calculate the impact (sensitivity) of each parameter
  * Returns the percentage change in final capital per unit change in parameter
@@ -1,4 +1,4 @@
-import { simulate, SimulationAnnual } from './simulate'
+import { simulate, simulatePortfolio, SimulationAnnual } from './simulate'
 import type { SparplanElement } from './sparplan-utils'
 import type { ReturnConfiguration } from './random-returns'
 
@@ -770,4 +770,293 @@ describe('Simulate (Compound Interest) Calculations', () => {
       expect(simulation.endkapital).toBeGreaterThan(0)
     })
   })
+
+  describe('depots', () => {
+    const depots = [
+      { id: 'a', name: 'Broker A', expectedCapitalGains: 0, assignedFreibetrag: 1000 },
+      { id: 'b', name: 'Broker B', expectedCapitalGains: 0, assignedFreibetrag: 0 },
+    ]
+    const runWithDepots = (depotIds: Array<string | undefined>) =>
+      simulate({
+        startYear: 2023,
+        endYear: 2023,
+        elements: depotIds.map(depotId => ({ ...createSparplanElement('2023-01-01', 50000, 'einmalzahlung'), depotId })),
+        returnConfig: { mode: 'fixed', fixedRate: 0.1 },
+        steuerlast: 0.26375,
+        teilfreistellungsquote: 0.3,
+        simulationAnnual: 'yearly',
+        freibetragPerYear: { 2023: 1000 },
+        depots,
+      })
+
+    test('should withhold tax in the depot without Freistellungsauftrag and refund it via Anlage KAP', () => {
+      const [inA, inB] = runWithDepots(['a', 'b'])
+      const anlageKap = inA.simulation[2023].anlageKap!
+
+      expect(inA.simulation[2023].bezahlteSteuer).toBe(0)
+      expect(inB.simulation[2023].bezahlteSteuer).toBeGreaterThan(0)
+      expect(anlageKap.totalTaxWithheld).toBeCloseTo(inB.simulation[2023].bezahlteSteuer)
+      expect(anlageKap.taxDue).toBe(0)
+      expect(anlageKap.erstattung).toBeCloseTo(anlageKap.totalTaxWithheld)
+      expect(inB.simulation[2023].anlageKap).toEqual(anlageKap)
+    })
+
+    test('should not need a reconciliation when the allowance matches the depot', () => {
+      const [first, second] = runWithDepots(['a', 'a'])
+
+      expect(first.simulation[2023].bezahlteSteuer + second.simulation[2023].bezahlteSteuer).toBe(0)
+      expect(first.simulation[2023].anlageKap!.erstattung).toBe(0)
+    })
+
+    test('should keep a single depot calculation without depots', () => {
+      const [element] = simulate({
+        startYear: 2023,
+        endYear: 2023,
+        elements: [createSparplanElement('2023-01-01', 50000, 'einmalzahlung')],
+        returnConfig: { mode: 'fixed', fixedRate: 0.1 },
+        steuerlast: 0.26375,
+        simulationAnnual: 'yearly',
+      })
+
+      expect(element.simulation[2023].anlageKap).toBeUndefined()
+    })
+  })
+
+  describe('fund types per element', () => {
+    const runMixedDepot = (options: Partial<Parameters<typeof simulate>[0]> = {}) =>
+      simulate({
+        startYear: 2023,
+        endYear: 2023,
+        elements: (['equity-fund', 'bond-fund', 'commodity'] as const).map(fundType => ({
+          ...createSparplanElement('2023-01-01', 50000, 'einmalzahlung'),
+          fundType,
+        })),
+        returnConfig: { mode: 'fixed', fixedRate: 0.1 },
+        steuerlast: 0.26375,
+        teilfreistellungsquote: 0.3,
+        simulationAnnual: 'yearly',
+        freibetragPerYear: { 2023: 0 },
+        basiszinsConfiguration: { 2023: { year: 2023, rate: 0.0255, source: 'manual' } },
+        ...options,
+      })
+
+    test('should apply the Teilfreistellung of each fund type and no Vorabpauschale for ETCs', () => {
+      const [equityEtf, bondEtf, goldEtc] = runMixedDepot()
+      const vorabpauschale = 50000 * 0.0255 * 0.7
+
+      expect(equityEtf.simulation[2023].vorabpauschale).toBeCloseTo(vorabpauschale)
+      expect(equityEtf.simulation[2023].bezahlteSteuer).toBeCloseTo(vorabpauschale * 0.26375 * 0.7)
+      expect(bondEtf.simulation[2023].bezahlteSteuer).toBeCloseTo(vorabpauschale * 0.26375)
+      expect(goldEtc.simulation[2023].vorabpauschale).toBe(0)
+      expect(goldEtc.simulation[2023].bezahlteSteuer).toBe(0)
+    })
+
+    test('should only offset stock losses against the stock gains of equity funds', () => {
+      const [equityEtf] = runMixedDepot({
+        lossOffsetEnabled: true,
+        initialLossAccountState: { stockLosses: 100000, otherLosses: 0, year: 2022 },
+      })
+      const lossOffsetDetails = equityEtf.simulation[2023].lossOffsetDetails!
+
+      expect(lossOffsetDetails.stockGains).toBeCloseTo(5000 * 0.7)
+      expect(lossOffsetDetails.otherGains).toBeCloseTo(5000 * 0.3 + 5000 + 5000)
+      expect(lossOffsetDetails.stockLossesUsed).toBeCloseTo(5000 * 0.7)
+    })
+
+    test('should leave crypto gains out of the loss offset accounts', () => {
+      const [equityEtf] = runMixedDepot({
+        elements: (['equity-fund', 'cryptocurrency'] as const).map(fundType => ({
+          ...createSparplanElement('2023-01-01', 50000, 'einmalzahlung'),
+          fundType,
+        })),
+        lossOffsetEnabled: true,
+        initialLossAccountState: { stockLosses: 0, otherLosses: 100000, year: 2022 },
+      })
+      const lossOffsetDetails = equityEtf.simulation[2023].lossOffsetDetails!
+
+      expect(lossOffsetDetails.stockGains).toBeCloseTo(5000 * 0.7)
+      expect(lossOffsetDetails.otherGains).toBeCloseTo(5000 * 0.3)
+    })
+
+    test('should hand the stock gains ratio of the mixed depot to the withdrawal phase', () => {
+      const { portfolioTaxState } = simulatePortfolio({
+        startYear: 2023,
+        endYear: 2023,
+        elements: (['equity-fund', 'bond-fund'] as const).map(fundType => ({
+          ...createSparplanElement('2023-01-01', 50000, 'einmalzahlung'),
+          fundType,
+        })),
+        returnConfig: { mode: 'fixed', fixedRate: 0.1 },
+        steuerlast: 0.26375,
+        simulationAnnual: 'yearly',
+      })
+
+      expect(portfolioTaxState.stockGainsRatio).toBeCloseTo(0.35)
+    })
+  })
+
+  describe('distributing funds', () => {
+    const createDistributingParams = (distributionYield: number, reinvest: boolean) => ({
+      startYear: 2023,
+      endYear: 2024,
+      elements: [
+        {
+          ...createSparplanElement('2023-01-01', 100000, 'einmalzahlung'),
+          fundType: 'equity-fund' as const,
+          distribution: { distributionYield, withholdingTaxRate: 0.15, reinvest },
+        },
+      ],
+      returnConfig: { mode: 'fixed' as const, fixedRate: 0.05 },
+      steuerlast: 0.26375,
+      teilfreistellungsquote: 0.3,
+      simulationAnnual: 'yearly' as const,
+      freibetragPerYear: { 2023: 0, 2024: 0 },
+      basiszinsConfiguration: {
+        2023: { year: 2023, rate: 0.0255, source: 'manual' as const },
+        2024: { year: 2024, rate: 0.0229, source: 'manual' as const },
+      },
+    })
+
+    test('should tax the distribution with Teilfreistellung and credit the Quellensteuer', () => {
+      const [element] = simulate(createDistributingParams(0.02, true))
+      const yearData = element.simulation[2023]
+      // 2000 € distribution, 70% taxable, 300 € foreign withholding tax credited
+      const tax = 2000 * 0.7 * 0.26375 - 300
+
+      expect(yearData.ausschuettung).toBeCloseTo(2000)
+      expect(yearData.ausschuettungDetails?.anrechenbareQuellensteuer).toBeCloseTo(300)
+      expect(yearData.vorabpauschale).toBe(0)
+      expect(yearData.bezahlteSteuer).toBeCloseTo(tax)
+      expect(yearData.endkapital).toBeCloseTo(105000 - 300 - tax)
+      expect(yearData.ausschuettungDetails?.reinvestiert).toBeCloseTo(2000 - 300 - tax)
+    })
+
+    test('should reduce the Vorabpauschale by the distribution', () => {
+      const [element] = simulate(createDistributingParams(0.005, true))
+      const vorabpauschale = 100000 * 0.0255 * 0.7 - 500
+
+      expect(element.simulation[2023].vorabpauschale).toBeCloseTo(vorabpauschale)
+      expect(element.simulation[2023].bezahlteSteuer).toBeCloseTo(
+        vorabpauschale * 0.7 * 0.26375 + (500 * 0.7 * 0.26375 - 75),
+      )
+    })
+
+    test('should pay out the net distribution and keep the price gain in the depot', () => {
+      const [element] = simulate(createDistributingParams(0.02, false))
+      const tax = 2000 * 0.7 * 0.26375 - 300
+
+      expect(element.simulation[2023].endkapital).toBeCloseTo(103000)
+      expect(element.simulation[2023].zinsen).toBeCloseTo(3000)
+      expect(element.simulation[2023].ausschuettungDetails?.auszahlung).toBeCloseTo(2000 - 300 - tax)
+      expect(element.simulation[2024].startkapital).toBeCloseTo(103000)
+    })
+
+    test('should add reinvested distributions to the cost basis of the withdrawal phase', () => {
+      const reinvested = simulatePortfolio(createDistributingParams(0.02, true)).portfolioTaxState
+      const paidOut = simulatePortfolio(createDistributingParams(0.02, false)).portfolioTaxState
+      const [element] = simulate(createDistributingParams(0.02, true))
+
+      expect(reinvested.lots[0].costBasis).toBeCloseTo(
+        100000 + element.simulation[2024].reinvestierteAusschuettungenAccumulated!,
+      )
+      expect(paidOut.lots[0].costBasis).toBe(100000)
+    })
+  })
+
+  describe('propertyOwnershipConfig', () => {
+    const propertyOwnershipConfig = {
+      enabled: true,
+      purchaseYear: 2024,
+      purchasePrice: 200000,
+      purchaseCostsRate: 0,
+      equityFromDepot: 20000,
+      interestRate: 3,
+      initialRepaymentRate: 2,
+      specialRepayments: [],
+      appreciationRate: 2,
+      sellingCostsRate: 0,
+      sales: [{ year: 2025, sharePercent: 100 }],
+    }
+    const elements = [createSparplanElement('2023-01-01', 24000), createSparplanElement('2024-01-01', 24000)]
+    const runWithProperty = () =>
+      simulate({
+        startYear: 2023,
+        endYear: 2026,
+        elements,
+        returnConfig: { mode: 'fixed', fixedRate: 0 },
+        steuerlast: 0,
+        simulationAnnual: 'yearly',
+        propertyOwnershipConfig,
+      })
+
+    test('should reduce the contributions by the mortgage payments and withdraw the equity', () => {
+      const result = runWithProperty()
+
+      expect(result[0].einzahlung).toBe(24000)
+      expect(result[1].einzahlung).toBeCloseTo(15000)
+      expect(elements[1].einzahlung).toBe(24000)
+      expect(result.find(element => element.einzahlung === -20000)?.eventType).toBe('expense')
+    })
+
+    test('should invest the sale proceeds after repaying the loan in the year after the sale', () => {
+      const sale = runWithProperty().find(element => new Date(element.start).getFullYear() === 2026)
+
+      expect(sale?.type).toBe('einmalzahlung')
+      expect(sale?.einzahlung).toBeGreaterThan(0)
+      expect(sale?.einzahlung).toBeLessThan(200000 * 1.02 ** 2 - 170000)
+    })
+
+    test('should pay the mortgage payments not covered by the contributions from the depot', () => {
+      const payment = runWithProperty().find(
+        element => element.specialEventData?.description === 'Kreditrate aus dem Depot',
+      )
+
+      expect(payment?.start).toBe('2025-01-01')
+      expect(payment?.einzahlung).toBeCloseTo(-9000)
+      expect(payment?.eventType).toBe('expense')
+    })
+
+    test('should pay the residual debt of a sale that does not cover the loan from the depot', () => {
+      const result = simulate({
+        startYear: 2023,
+        endYear: 2026,
+        elements,
+        returnConfig: { mode: 'fixed', fixedRate: 0 },
+        steuerlast: 0,
+        simulationAnnual: 'yearly',
+        propertyOwnershipConfig: { ...propertyOwnershipConfig, appreciationRate: -30 },
+      })
+      const residualDebt = result.find(
+        element => element.specialEventData?.description === 'Restschuld nach Immobilienverkauf',
+      )
+
+      expect(residualDebt?.start).toBe('2026-01-01')
+      expect(residualDebt?.einzahlung).toBeLessThan(0)
+    })
+  })
+
+  describe('simulatePortfolio', () => {
+    test('should return the portfolio tax state at the end of the savings phase', () => {
+      const { elements, portfolioTaxState } = simulatePortfolio({
+        startYear: 2023,
+        endYear: 2025,
+        elements: [createSparplanElement('2023-01-01', 10000, 'einmalzahlung')],
+        returnConfig: { mode: 'fixed', fixedRate: 0.05 },
+        steuerlast: 0.26375,
+        teilfreistellungsquote: 0.3,
+        simulationAnnual: 'yearly',
+        lossOffsetEnabled: true,
+        initialLossAccountState: { stockLosses: 100000, otherLosses: 0, year: 2022 },
+      })
+      const lastYear = elements[0].simulation[2025]
+
+      expect(portfolioTaxState.year).toBe(2025)
+      expect(portfolioTaxState.stockGainsRatio).toBe(0.7)
+      expect(portfolioTaxState.lots).toHaveLength(1)
+      expect(portfolioTaxState.lots[0].costBasis).toBe(10000)
+      expect(portfolioTaxState.lots[0].currentValue).toBe(lastYear.endkapital)
+      expect(portfolioTaxState.lots[0].vorabpauschaleAccumulated).toBe(lastYear.vorabpauschaleAccumulated)
+      expect(portfolioTaxState.lossAccountState).toEqual(lastYear.lossAccountState)
+    })
+  })
 })
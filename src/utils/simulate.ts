@@ -1,10 +1,17 @@
 import type { SparplanElement } from '../utils/sparplan-utils'
-import { getBasiszinsForYear, calculateVorabpauschaleDetailed, performGuenstigerPruefung } from '../../helpers/steuer'
+import {
+  getBasiszinsForYear,
+  calculateSteuerOnVorabpauschale,
+  calculateVorabpauschaleDetailed,
+  performGuenstigerPruefung,
+} from '../../helpers/steuer'
 import { type ReturnConfiguration, generateRandomReturns } from './random-returns'
 import type { BasiszinsConfiguration } from '../services/bundesbank-api'
-import { getHistoricalReturns } from './historical-data'
+import { getHistoricalBacktestReturns } from './historical-data'
+import { getHistoricalBasiszins, getHistoricalInflationRates } from './historical-dataset'
 import { calculateRealValue } from './inflation-adjustment'
 import { generateMultiAssetReturns } from '../../helpers/multi-asset-calculations'
+import { generateStochasticReturns } from './stochastic-returns'
 import {
   type LossAccountState,
   type RealizedLossesConfig,
@@ -14,7 +21,36 @@ import {
   createDefaultRealizedLosses,
 } from '../../helpers/loss-offset-accounts'
 import { calculateDynamicSavingsRate } from '../../helpers/dynamic-savings-rate'
+import { createPortfolioTaxState, type PortfolioTaxState } from '../../helpers/portfolio-tax-state'
+import { isPrivateSaleAsset } from '../../helpers/crypto-tax'
 import { FREIBETRAG_CONSTANTS } from './tax-constants'
+import { getTaxBracketsForYear, type IncomeTaxTariffIndexation } from '../../helpers/income-tax-tariff'
+import type { BankAccount } from '../../helpers/freistellungsauftrag-optimization'
+import {
+  calculateDepotTaxation,
+  resolveDepotId,
+  type AnlageKapReconciliation,
+} from '../../helpers/depot-taxation'
+import {
+  calculatePropertyTimeline,
+  getPropertyDepotFlowsByYear,
+  getPropertySavingsReductionByYear,
+  type PropertyDepotFlow,
+  type PropertyOwnershipConfig,
+  type PropertyTimeline,
+} from '../../helpers/immobilien-eigentum'
+import {
+  getStockGainsRatioForAssetClass,
+  getTeilfreistellungsquoteForAssetClass,
+  isInvestmentFund,
+} from '../../helpers/asset-class'
+import {
+  calculateAusschuettung,
+  getEndkapitalAfterAusschuettung,
+  reduceVorabpauschaleByAusschuettung,
+  settleAusschuettung,
+  type AusschuettungDetails,
+} from '../../helpers/ausschuettung'
 
 /**
  * Default financial constants used throughout the simulation.
@@ -74,6 +110,9 @@ type YearlyCalculation = {
   potentialTax: number
   vorabpauschaleDetails: VorabpauschaleDetails
   costs: { terCosts: number; transactionCosts: number; totalCosts: number }
+  teilfreistellungsquote: number // Teilfreistellung of the element's fund type
+  stockGainsRatio: number // Share of the element's gains in the Aktienverlustverrechnungstopf
+  ausschuettungDetails?: AusschuettungDetails // Distribution of a distributing fund before the allowance
 }
 
 export type SimulationResultElement = {
@@ -95,6 +134,12 @@ export type SimulationResultElement = {
   // Loss offset tracking (Verlustverrechnungstöpfe)
   lossOffsetDetails?: LossOffsetResult // Details of loss offset for this year
   lossAccountState?: LossAccountState // Loss account state at end of year (carried forward to next year)
+  // Withholding per depot and reconciliation via Anlage KAP (only with depots)
+  anlageKap?: AnlageKapReconciliation
+  // Distributions of a distributing fund (ausschüttender Fonds), taxed in the year received
+  ausschuettung?: number // Gross distribution of this year
+  ausschuettungDetails?: AusschuettungDetails // Quellensteuer, tax and payout or reinvestment of the distribution
+  reinvestierteAusschuettungenAccumulated?: number // Reinvested distributions, part of the acquisition costs
 }
 
 export type SimulationResult = {
@@ -142,11 +187,17 @@ export interface SimulateOptions {
   // Günstigerprüfung settings
   guenstigerPruefungAktiv?: boolean
   personalTaxRate?: number
+  // Indexation of the income tax tariff for years after the last official tariff
+  incomeTaxTariffIndexation?: IncomeTaxTariffIndexation
   // Loss offset account settings (Verlustverrechnungstöpfe)
   lossOffsetEnabled?: boolean
   initialLossAccountState?: LossAccountState // Losses carried forward from before simulation start
   realizedLossesByYear?: Record<number, RealizedLossesConfig> // Realized losses per year
   stockGainsRatio?: number // Ratio of capital gains from stocks (0-1, default 0.7 for typical equity funds)
+  // Depots with their Freistellungsauftrag; each bank withholds the tax of its own depot
+  depots?: BankAccount[]
+  // Owned property: equity from the depot, mortgage payments from the savings, sale proceeds into the depot
+  propertyOwnershipConfig?: PropertyOwnershipConfig
 }
 
 /**
@@ -235,13 +286,16 @@ type ReturnGenerator = (years: number[]) => Record<number, number>
 
 /**
  * Retrieves a return generator function based on the return configuration mode.
- * Supports fixed, random, variable, historical, and multi-asset return strategies.
+ * Supports fixed, random, variable, historical, multi-asset and the stochastic return models
+ * (block bootstrap, Student-t, bull/bear regime).
  * Falls back to fixed 5% return if mode is not recognized.
  *
  * @param returnConfig - The return configuration specifying mode and parameters
  * @returns Function that generates yearly return rates given an array of years
  */
 function getReturnGenerator(returnConfig: ReturnConfiguration): ReturnGenerator {
+  const stochastic: ReturnGenerator = years =>
+    generateStochasticReturns(years, returnConfig) ?? applyFixedRate(years, FINANCIAL_DEFAULTS.DEFAULT_RETURN_RATE)
   const generators: Record<string, ReturnGenerator | undefined> = {
     fixed: years => applyFixedRate(years, returnConfig.fixedRate ?? FINANCIAL_DEFAULTS.DEFAULT_RETURN_RATE),
     random: years => (returnConfig.randomConfig ? generateRandomReturns(years, returnConfig.randomConfig) : {}),
@@ -249,10 +303,10 @@ function getReturnGenerator(returnConfig: ReturnConfiguration): ReturnGenerator
       returnConfig.variableConfig ? applyVariableReturns(years, returnConfig.variableConfig.yearlyReturns) : {},
     historical: years => {
       if (!returnConfig.historicalConfig) return applyFixedRate(years, FINANCIAL_DEFAULTS.DEFAULT_RETURN_RATE)
-      const historicalReturns = getHistoricalReturns(
+      const historicalReturns = getHistoricalBacktestReturns(
         returnConfig.historicalConfig.indexId,
-        years[0],
-        years[years.length - 1],
+        years,
+        returnConfig.historicalConfig.startYear,
       )
       return historicalReturns || applyFixedRate(years, FINANCIAL_DEFAULTS.DEFAULT_RETURN_RATE)
     },
@@ -260,6 +314,9 @@ function getReturnGenerator(returnConfig: ReturnConfiguration): ReturnGenerator
       returnConfig.multiAssetConfig
         ? generateMultiAssetReturns(years, returnConfig.multiAssetConfig)
         : applyFixedRate(years, FINANCIAL_DEFAULTS.DEFAULT_RETURN_RATE),
+    bootstrap: stochastic,
+    'student-t': stochastic,
+    regime: stochastic,
   }
 
   return generators[returnConfig.mode] || (years => applyFixedRate(years, FINANCIAL_DEFAULTS.DEFAULT_RETURN_RATE))
@@ -284,9 +341,202 @@ function generateYearlyGrowthRates(
   return generator(years)
 }
 
+/**
+ * Checks whether the historical return mode uses the inflation of the backtested years
+ */
+function usesHistoricalInflation(options: SimulateOptions): boolean {
+  return options.returnConfig.mode === 'historical' && !!options.returnConfig.historicalConfig?.useHistoricalInflation
+}
+
+/**
+ * Geometric average of the yearly inflation rates since the base year, so that the real values
+ * reflect the actual sequence of inflation rates of a historical backtest.
+ *
+ * @param baseYear - The base year from which to calculate inflation impact
+ * @param year - The current year of the simulation
+ * @param options - The simulation options containing inflation configuration
+ * @returns The average inflation rate as decimal
+ */
+function getAverageInflationRate(baseYear: number, year: number, options: SimulateOptions): number {
+  if (year <= baseYear) return 0
+  let factor = 1
+  for (let y = baseYear; y < year; y++) {
+    factor *= 1 + getInflationRateForYear(y, options)
+  }
+  return Math.pow(factor, 1 / (year - baseYear)) - 1
+}
+
+/**
+ * Adds inflation-adjusted values with the configured inflation rate, or with the actual inflation
+ * of the backtested years if the historical return mode uses historical inflation.
+ */
+function addRealValues(result: SimulationResultElement, year: number, options?: SimulateOptions): SimulationResultElement {
+  if (options && usesHistoricalInflation(options)) {
+    const averageInflationRate = getAverageInflationRate(options.startYear, year, options)
+    return addInflationAdjustedValues(result, year, options.startYear, averageInflationRate * 100)
+  }
+  if (options?.inflationAktivSparphase && options?.inflationsrateSparphase) {
+    return addInflationAdjustedValues(result, year, options.startYear, options.inflationsrateSparphase)
+  }
+  return result
+}
+
+/**
+ * Replaces the inflation rates with the German consumer price index (VPI) of the backtested years
+ * if the historical return mode is configured to use historical inflation.
+ *
+ * @param options - The simulation options
+ * @returns The options with variable inflation rates of the backtested years, or unchanged options
+ */
+function withHistoricalInflation(options: SimulateOptions): SimulateOptions {
+  const historicalConfig = options.returnConfig.historicalConfig
+  if (options.returnConfig.mode !== 'historical' || !historicalConfig?.useHistoricalInflation) {
+    return options
+  }
+
+  const years = Array.from({ length: options.endYear - options.startYear + 1 }, (_, i) => options.startYear + i)
+  return {
+    ...options,
+    variableInflationRates: {
+      ...options.variableInflationRates,
+      ...getHistoricalInflationRates(years, historicalConfig.startYear),
+    },
+  }
+}
+
+/**
+ * Basiszins of a simulation year. Backtests of historical returns from another start year use the official
+ * Basiszins of the backtested year where the bundled history has one.
+ */
+function getSimulationBasiszins(year: number, options: SimulateOptions): number {
+  const { returnConfig, basiszinsConfiguration } = options
+  const historicalStartYear = returnConfig.historicalConfig?.startYear
+  const backtestedRate =
+    returnConfig.mode === 'historical' && historicalStartYear !== undefined
+      ? getHistoricalBasiszins(year + historicalStartYear - options.startYear)
+      : undefined
+
+  return backtestedRate ?? getBasiszinsForYear(year, basiszinsConfiguration)
+}
+
+/**
+ * Regular savings contributions, which are reduced by the mortgage payments. Dynamic savings rates are left unchanged.
+ */
+function isReducibleContribution(element: SparplanElement): boolean {
+  return element.type === 'sparplan' && element.einzahlung > 0 && !element.dynamicSavingsConfig?.enabled
+}
+
+/**
+ * Sum of the reducible savings contributions starting in each year
+ */
+function getReducibleContributionsByYear(elements: SparplanElement[], options: SimulateOptions): Record<number, number> {
+  const contributionsByYear: Record<number, number> = {}
+  for (const element of elements.filter(isReducibleContribution)) {
+    const year = new Date(element.start).getFullYear()
+    contributionsByYear[year] = (contributionsByYear[year] ?? 0) + getAdjustedEinzahlung(element, year, options)
+  }
+  return contributionsByYear
+}
+
+/**
+ * Scale the regular savings contributions starting in each year down by the mortgage payments of that year.
+ * Contributions never become negative, the part of the payments they do not cover is paid from the depot.
+ */
+function reduceSavingsContributions(
+  elements: SparplanElement[],
+  reductionByYear: Record<number, number>,
+  contributionsByYear: Record<number, number>,
+): SparplanElement[] {
+  return elements.map(element => {
+    const year = new Date(element.start).getFullYear()
+    const reduction = reductionByYear[year]
+    if (!reduction || !isReducibleContribution(element)) {
+      return element
+    }
+    const factor = Math.max(0, 1 - reduction / contributionsByYear[year])
+    return { ...element, einzahlung: element.einzahlung * factor }
+  })
+}
+
+/**
+ * One-time depot cash flow of the property at the beginning of a year
+ */
+function createPropertyDepotElement(year: number, amount: number, description: string): SparplanElement {
+  return {
+    start: `${year}-01-01`,
+    type: 'einmalzahlung',
+    gewinn: 0,
+    einzahlung: amount,
+    simulation: {},
+    eventType: amount < 0 ? 'expense' : 'normal',
+    specialEventData: { expenseType: 'real_estate', description },
+  }
+}
+
+/**
+ * Depot cash flows of a year: mortgage payments not covered by the savings contributions, sale proceeds
+ * and the residual debt of a sale that does not cover the loan
+ */
+function createPropertyYearElements(year: number, flow: PropertyDepotFlow, contribution: number): SparplanElement[] {
+  const elements: SparplanElement[] = []
+  const shortfall = flow.mortgagePayment - contribution
+  if (shortfall > 0) {
+    elements.push(createPropertyDepotElement(year, -shortfall, 'Kreditrate aus dem Depot'))
+  }
+  if (flow.saleProceeds > 0) {
+    elements.push(createPropertyDepotElement(year, flow.saleProceeds, 'Erlös Immobilienverkauf'))
+  } else if (flow.saleProceeds < 0) {
+    elements.push(createPropertyDepotElement(year, flow.saleProceeds, 'Restschuld nach Immobilienverkauf'))
+  }
+  return elements
+}
+
+/**
+ * Depot cash flows of the property: the equity is withdrawn at the beginning of the purchase year,
+ * sale proceeds are invested at the beginning of the year after the sale
+ */
+function createPropertyDepotElements(
+  config: PropertyOwnershipConfig,
+  timeline: PropertyTimeline,
+  contributionsByYear: Record<number, number>,
+): SparplanElement[] {
+  const elements: SparplanElement[] = []
+  if (config.equityFromDepot > 0) {
+    elements.push(createPropertyDepotElement(config.purchaseYear, -config.equityFromDepot, 'Eigenkapital Immobilienkauf'))
+  }
+  for (const [year, flow] of Object.entries(getPropertyDepotFlowsByYear(timeline))) {
+    elements.push(...createPropertyYearElements(Number(year), flow, contributionsByYear[Number(year)] ?? 0))
+  }
+  return elements
+}
+
+/**
+ * Elements of the simulation including the cash flows of an owned property.
+ * The given elements are copied where they change, so repeated simulations start from the same contributions.
+ * Sale proceeds after endYear are paid into the depot in the withdrawal phase.
+ */
+function applyPropertyOwnership(options: SimulateOptions): SparplanElement[] {
+  const config = options.propertyOwnershipConfig
+  if (!config?.enabled) {
+    return options.elements
+  }
+
+  const timeline = calculatePropertyTimeline(config, options.endYear)
+  const contributionsByYear = getReducibleContributionsByYear(options.elements, options)
+  const depotElements = createPropertyDepotElements(config, timeline, contributionsByYear).filter(
+    element => new Date(element.start).getFullYear() <= options.endYear,
+  )
+  return [
+    ...reduceSavingsContributions(options.elements, getPropertySavingsReductionByYear(timeline), contributionsByYear),
+    ...depotElements,
+  ]
+}
+
 // Implementation
-export function simulate(options: SimulateOptions): SparplanElement[] {
-  const { elements, startYear, endYear, returnConfig } = options
+export function simulate(simulateOptions: SimulateOptions): SparplanElement[] {
+  const options = withHistoricalInflation(simulateOptions)
+  const { startYear, endYear, returnConfig } = options
+  const elements = applyPropertyOwnership(options)
 
   const yearlyGrowthRates = generateYearlyGrowthRates(startYear, endYear, returnConfig)
 
@@ -303,6 +553,52 @@ export function simulate(options: SimulateOptions): SparplanElement[] {
   return elements
 }
 
+/**
+ * Result of the savings phase together with the tax state handed over to the withdrawal phase
+ */
+export type PortfolioSimulationResult = {
+  elements: SparplanElement[]
+  portfolioTaxState: PortfolioTaxState // Lots, taxed Vorabpauschale and loss pots at the end of endYear
+}
+
+/**
+ * Share of stock gains of the portfolio at the end of a year, weighted by the values of the elements.
+ * Without fund types per element the configured ratio applies.
+ */
+function getPortfolioStockGainsRatio(elements: SparplanElement[], options: SimulateOptions): number {
+  const stockGainsRatio = options.stockGainsRatio ?? FINANCIAL_DEFAULTS.DEFAULT_STOCK_GAINS_RATIO
+  const totalValue = elements.reduce((sum, element) => sum + (element.simulation[options.endYear]?.endkapital ?? 0), 0)
+  if (!elements.some(element => element.fundType) || totalValue <= 0) {
+    return stockGainsRatio
+  }
+
+  return (
+    elements.reduce(
+      (sum, element) =>
+        sum + (element.simulation[options.endYear]?.endkapital ?? 0) * getElementStockGainsRatio(element, options),
+      0,
+    ) / totalValue
+  )
+}
+
+/**
+ * Run the savings phase and return the portfolio tax state at its end.
+ * The state is passed to calculateWithdrawal, so gains realized in retirement only tax what was not taxed yet.
+ */
+export function simulatePortfolio(simulateOptions: SimulateOptions): PortfolioSimulationResult {
+  const elements = simulate(simulateOptions)
+
+  return {
+    elements,
+    portfolioTaxState: createPortfolioTaxState(
+      elements,
+      simulateOptions.endYear,
+      simulateOptions.initialLossAccountState,
+      getPortfolioStockGainsRatio(elements, simulateOptions),
+    ),
+  }
+}
+
 /**
  * Calculates Total Expense Ratio (TER) costs for a year.
  * TER is charged as a percentage of average capital and pro-rated for partial years.
@@ -558,6 +854,92 @@ interface YearlySimulationStrategy {
   calculateForYear(year: number, elements: SparplanElement[], wachstumsrate: number, options: SimulateOptions): void
 }
 
+/**
+ * Teilfreistellung of an element: from its fund type, otherwise the quote of the tax configuration
+ */
+function getElementTeilfreistellungsquote(element: SparplanElement, options: SimulateOptions): number {
+  if (element.fundType) {
+    return getTeilfreistellungsquoteForAssetClass(element.fundType)
+  }
+  return options.teilfreistellungsquote ?? FINANCIAL_DEFAULTS.DEFAULT_TEILFREISTELLUNG
+}
+
+/**
+ * Share of stock gains of an element: from its fund type, otherwise the configured ratio
+ */
+function getElementStockGainsRatio(element: SparplanElement, options: SimulateOptions): number {
+  const stockGainsRatio = options.stockGainsRatio ?? FINANCIAL_DEFAULTS.DEFAULT_STOCK_GAINS_RATIO
+  return element.fundType ? getStockGainsRatioForAssetClass(element.fundType, stockGainsRatio) : stockGainsRatio
+}
+
+type ElementGrowth = { startkapital: number; endkapitalAfterCosts: number; anteilImJahr: number }
+
+/**
+ * Vorabpauschale of an element, reduced by the distributions of the year. REITs, commodity ETCs and
+ * cryptocurrencies are no investment funds, so no Vorabpauschale applies to them.
+ */
+function calculateElementVorabpauschale(
+  element: SparplanElement,
+  growth: ElementGrowth,
+  basiszins: number,
+  steuerlast: number,
+  teilfreistellungsquote: number,
+  ausschuettung: number,
+): VorabpauschaleDetails {
+  const vorabpauschaleDetails = calculateVorabpauschaleDetailed(
+    growth.startkapital,
+    growth.endkapitalAfterCosts,
+    basiszins,
+    growth.anteilImJahr,
+    steuerlast,
+    teilfreistellungsquote,
+  )
+  if (element.fundType && !isInvestmentFund(element.fundType)) {
+    return { ...vorabpauschaleDetails, basisertrag: 0, vorabpauschaleAmount: 0, steuerVorFreibetrag: 0 }
+  }
+  if (ausschuettung <= 0) {
+    return vorabpauschaleDetails
+  }
+
+  const vorabpauschaleAmount = reduceVorabpauschaleByAusschuettung(
+    vorabpauschaleDetails.vorabpauschaleAmount,
+    ausschuettung,
+  )
+  return {
+    ...vorabpauschaleDetails,
+    vorabpauschaleAmount,
+    steuerVorFreibetrag: calculateSteuerOnVorabpauschale(vorabpauschaleAmount, steuerlast, teilfreistellungsquote),
+  }
+}
+
+/**
+ * Distribution of a distributing fund in a year and the fund value after it
+ */
+function calculateElementAusschuettung(
+  element: SparplanElement,
+  growth: ElementGrowth,
+  steuerlast: number,
+  teilfreistellungsquote: number,
+): { ausschuettungDetails?: AusschuettungDetails; ausschuettungAmount: number; endkapital: number } {
+  if (!element.distribution) {
+    return { ausschuettungAmount: 0, endkapital: growth.endkapitalAfterCosts }
+  }
+
+  const ausschuettungDetails = calculateAusschuettung(
+    element.distribution,
+    growth.startkapital,
+    growth.endkapitalAfterCosts,
+    growth.anteilImJahr,
+    steuerlast,
+    teilfreistellungsquote,
+  )
+  return {
+    ausschuettungDetails,
+    ausschuettungAmount: ausschuettungDetails.ausschuettungAmount,
+    endkapital: getEndkapitalAfterAusschuettung(growth.endkapitalAfterCosts, ausschuettungDetails),
+  }
+}
+
 /**
  * Process a single element for yearly tax calculation
  */
@@ -570,30 +952,32 @@ function processElementForTaxCalculation(
 ): YearlyCalculation | null {
   if (!shouldProcessElement(element, year)) return null
 
-  const { simulationAnnual, steuerlast, teilfreistellungsquote = FINANCIAL_DEFAULTS.DEFAULT_TEILFREISTELLUNG } =
-    options
+  const { simulationAnnual, steuerlast } = options
+  const teilfreistellungsquote = getElementTeilfreistellungsquote(element, options)
 
-  const { startkapital, endkapitalAfterCosts, jahresgewinn, anteilImJahr, costs } = calculateGrowthAndCostsForElement(
+  const growth = calculateGrowthAndCostsForElement(element, year, wachstumsrate, simulationAnnual, options)
+  const { startkapital, costs } = growth
+  const { ausschuettungDetails, ausschuettungAmount, endkapital } = calculateElementAusschuettung(
     element,
-    year,
-    wachstumsrate,
-    simulationAnnual,
-    options,
+    growth,
+    steuerlast,
+    teilfreistellungsquote,
   )
 
-  const vorabpauschaleDetails = calculateVorabpauschaleDetailed(
-    startkapital,
-    endkapitalAfterCosts,
+  const vorabpauschaleDetails = calculateElementVorabpauschale(
+    element,
+    growth,
     basiszins,
-    anteilImJahr,
     steuerlast,
     teilfreistellungsquote,
+    ausschuettungAmount,
   )
 
   const vorabpauschaleBetrag = vorabpauschaleDetails.vorabpauschaleAmount
   const { potentialTax, enhancedDetails } = calculateGuenstigerPruefung(
     vorabpauschaleDetails,
     vorabpauschaleBetrag,
+    year,
     options,
     steuerlast,
     teilfreistellungsquote,
@@ -602,12 +986,16 @@ function processElementForTaxCalculation(
   return {
     element,
     startkapital,
-    endkapitalVorSteuer: endkapitalAfterCosts,
-    jahresgewinn,
+    endkapitalVorSteuer: endkapital,
+    // Price gain of the year; the distribution is taxed separately
+    jahresgewinn: growth.endkapitalAfterCosts - ausschuettungAmount - startkapital,
     vorabpauschaleBetrag,
-    potentialTax,
+    potentialTax: potentialTax + (ausschuettungDetails?.steuerVorFreibetrag ?? 0),
     vorabpauschaleDetails: enhancedDetails,
     costs,
+    teilfreistellungsquote,
+    stockGainsRatio: getElementStockGainsRatio(element, options),
+    ausschuettungDetails,
   }
 }
 
@@ -616,9 +1004,9 @@ function processElementForTaxCalculation(
  */
 class TaxSimulationStrategy implements YearlySimulationStrategy {
   calculateForYear(year: number, elements: SparplanElement[], wachstumsrate: number, options: SimulateOptions): void {
-    const { freibetragPerYear, steuerReduzierenEndkapital = true, basiszinsConfiguration } = options
+    const { freibetragPerYear, steuerReduzierenEndkapital = true } = options
 
-    const basiszins = getBasiszinsForYear(year, basiszinsConfiguration)
+    const basiszins = getSimulationBasiszins(year, options)
     const yearlyCalculations: YearlyCalculation[] = []
     let totalPotentialTaxThisYear = 0
 
@@ -654,18 +1042,14 @@ class NoTaxSimulationStrategy implements YearlySimulationStrategy {
     for (const element of elements) {
       if (!shouldProcessElement(element, year)) continue
 
-      const { startkapital, endkapitalAfterCosts, costs } = calculateGrowthAndCostsForElement(
-        element,
-        year,
-        wachstumsrate,
-        simulationAnnual,
-        options,
-      )
+      const growth = calculateGrowthAndCostsForElement(element, year, wachstumsrate, simulationAnnual, options)
+      const { startkapital, costs } = growth
+      const ausschuettung = calculateElementAusschuettung(element, growth, 0, 0)
 
       const vorabpauschaleAccumulated = element.simulation[year - 1]?.vorabpauschaleAccumulated || 0
       const yearInflationRate = getInflationRateForYear(year, options)
 
-      let endkapital = endkapitalAfterCosts
+      let endkapital = ausschuettung.endkapital
       if (shouldApplyInflationReduction(yearInflationRate, options)) {
         endkapital = endkapital * (1 - yearInflationRate)
       }
@@ -694,7 +1078,13 @@ class NoTaxSimulationStrategy implements YearlySimulationStrategy {
         )
       }
 
-      element.simulation[year] = simulationResult
+      const ausschuettungDetails = ausschuettung.ausschuettungDetails
+      element.simulation[year] = addAusschuettung(
+        simulationResult,
+        element,
+        year,
+        ausschuettungDetails && settleAusschuettung(ausschuettungDetails, 0, false),
+      )
     }
   }
 }
@@ -724,11 +1114,13 @@ function shouldProcessElement(element: SparplanElement, year: number): boolean {
 }
 
 /**
- * Calculate and enhance Günstigerprüfung details if enabled
+ * Calculate and enhance Günstigerprüfung details if enabled.
+ * The progressive tax uses the income tax tariff of the calculated year.
  */
 function calculateGuenstigerPruefung(
   vorabpauschaleDetails: VorabpauschaleDetails,
   vorabpauschaleBetrag: number,
+  year: number,
   options: SimulateOptions,
   steuerlast: number,
   teilfreistellungsquote: number,
@@ -752,6 +1144,7 @@ function calculateGuenstigerPruefung(
       KIRCHENSTEUER_AKTIV,
       DEFAULT_KIRCHENSTEUERSATZ,
       USE_PROGRESSIVE_TAX,
+      getTaxBracketsForYear(year, options.incomeTaxTariffIndexation),
     )
 
     // Use the more favorable tax amount
@@ -852,7 +1245,7 @@ function createSimulationResult(
   const vorabpauschaleAccumulated =
     (calc.element.simulation[year - 1]?.vorabpauschaleAccumulated || 0) + calc.vorabpauschaleBetrag
 
-  let simulationResult: SimulationResultElement = {
+  const simulationResult: SimulationResultElement = {
     startkapital: calc.startkapital,
     endkapital,
     zinsen: actualZinsen,
@@ -869,16 +1262,52 @@ function createSimulationResult(
   }
 
   // Add inflation-adjusted values if inflation is active
-  if (options?.inflationAktivSparphase && options?.inflationsrateSparphase) {
-    simulationResult = addInflationAdjustedValues(
-      simulationResult,
-      year,
-      options.startYear,
-      options.inflationsrateSparphase,
-    )
+  return addRealValues(simulationResult, year, options)
+}
+
+/**
+ * Add the distribution of the year and the accumulated reinvested distributions to a simulation result
+ */
+function addAusschuettung(
+  simulationResult: SimulationResultElement,
+  element: SparplanElement,
+  year: number,
+  ausschuettungDetails?: AusschuettungDetails,
+): SimulationResultElement {
+  if (!ausschuettungDetails) {
+    return simulationResult
+  }
+
+  const reinvestierteAusschuettungenAccumulated =
+    (element.simulation[year - 1]?.reinvestierteAusschuettungenAccumulated ?? 0) + ausschuettungDetails.reinvestiert
+  return {
+    ...simulationResult,
+    ausschuettung: ausschuettungDetails.ausschuettungAmount,
+    ausschuettungDetails,
+    reinvestierteAusschuettungenAccumulated,
   }
+}
 
-  return simulationResult
+/**
+ * Settle the distribution of an element with its share of the tax paid and return the tax deducted from
+ * the fund value. With taxes settled from the depot, the tax on a paid out distribution is withheld from it.
+ */
+function settleElementAusschuettung(
+  calc: YearlyCalculation,
+  taxForElement: number,
+  steuerReduzierenEndkapital: boolean,
+): { ausschuettungDetails?: AusschuettungDetails; taxFromCapital: number } {
+  const details = calc.ausschuettungDetails
+  if (!details) {
+    return { taxFromCapital: taxForElement }
+  }
+
+  const taxOnAusschuettung = calc.potentialTax > 0 ? taxForElement * (details.steuerVorFreibetrag / calc.potentialTax) : 0
+  const withheldFromPayout = !details.reinvested && steuerReduzierenEndkapital ? taxOnAusschuettung : 0
+  return {
+    ausschuettungDetails: settleAusschuettung(details, taxOnAusschuettung, steuerReduzierenEndkapital),
+    taxFromCapital: taxForElement - withheldFromPayout,
+  }
 }
 
 /**
@@ -903,21 +1332,48 @@ function getPreviousLossState(
 }
 
 /**
- * Calculate total capital gains and Vorabpauschale from all elements
+ * Calculate the stock gains, other gains and Vorabpauschale of all elements, each element split by the
+ * loss pot of its fund type. The Teilfreistellung is weighted by the taxable amounts of the elements.
  */
-function calculateTotalGainsAndVorabpauschale(yearlyCalculations: YearlyCalculation[]): {
-  totalCapitalGains: number
+function calculateTotalGainsAndVorabpauschale(
+  yearlyCalculations: YearlyCalculation[],
+  defaultTeilfreistellungsquote: number,
+): {
+  stockGains: number
+  otherGains: number
   totalVorabpauschale: number
+  teilfreistellungsquote: number
+  anrechenbareQuellensteuer: number
 } {
-  let totalCapitalGains = 0
+  let stockGains = 0
+  let otherGains = 0
   let totalVorabpauschale = 0
-
-  for (const calc of yearlyCalculations) {
-    totalCapitalGains += calc.jahresgewinn
+  let taxableAmount = 0
+  let exemptAmount = 0
+  let anrechenbareQuellensteuer = 0
+
+  // Crypto gains are private sales (§ 23 EStG), not capital income of the loss offset accounts
+  for (const calc of yearlyCalculations.filter(calc => !isPrivateSaleAsset(calc.element.fundType))) {
+    // Distributions are investment income of the allgemeiner Verlustverrechnungstopf
+    const ausschuettung = calc.ausschuettungDetails?.ausschuettungAmount ?? 0
+    stockGains += calc.jahresgewinn * calc.stockGainsRatio
+    otherGains += calc.jahresgewinn * (1 - calc.stockGainsRatio) + ausschuettung
     totalVorabpauschale += calc.vorabpauschaleBetrag
+    anrechenbareQuellensteuer += calc.ausschuettungDetails?.anrechenbareQuellensteuer ?? 0
+    const elementTaxableAmount = Math.max(0, calc.jahresgewinn) + calc.vorabpauschaleBetrag + ausschuettung
+    taxableAmount += elementTaxableAmount
+    exemptAmount += elementTaxableAmount * calc.teilfreistellungsquote
   }
 
-  return { totalCapitalGains, totalVorabpauschale }
+  const teilfreistellungsquote = taxableAmount > 0 ? exemptAmount / taxableAmount : defaultTeilfreistellungsquote
+  return { stockGains, otherGains, totalVorabpauschale, teilfreistellungsquote, anrechenbareQuellensteuer }
+}
+
+type PortfolioLossOffset = {
+  lossOffsetResult: LossOffsetResult
+  adjustedTaxableIncome: number
+  teilfreistellungsquote: number // Teilfreistellung of the portfolio, weighted by the fund types of the elements
+  anrechenbareQuellensteuer: number // Foreign withholding tax on distributions credited against the tax
 }
 
 /**
@@ -928,7 +1384,7 @@ function calculatePortfolioLossOffset(
   year: number,
   yearlyCalculations: YearlyCalculation[],
   options: SimulateOptions,
-): { lossOffsetResult: LossOffsetResult; adjustedTaxableIncome: number } | null {
+): PortfolioLossOffset | null {
   // Return null if loss offset is not enabled
   if (!options.lossOffsetEnabled) {
     return null
@@ -940,17 +1396,14 @@ function calculatePortfolioLossOffset(
   // Get realized losses for this year
   const realizedLosses = options.realizedLossesByYear?.[year] || createDefaultRealizedLosses(year)
 
-  // Calculate total capital gains and Vorabpauschale
-  const { totalCapitalGains, totalVorabpauschale } = calculateTotalGainsAndVorabpauschale(yearlyCalculations)
-
-  // Split capital gains into stock gains and other gains
-  // Use stockGainsRatio to determine what portion of gains are from stocks
-  const stockGainsRatio = options.stockGainsRatio ?? FINANCIAL_DEFAULTS.DEFAULT_STOCK_GAINS_RATIO // Default: 70% stock gains (typical for equity funds)
-  const stockGains = totalCapitalGains * stockGainsRatio
-  const otherGains = totalCapitalGains * (1 - stockGainsRatio)
+  // Split the capital gains of each element into stock gains and other gains by its fund type
+  const { stockGains, otherGains, totalVorabpauschale, teilfreistellungsquote, anrechenbareQuellensteuer } =
+    calculateTotalGainsAndVorabpauschale(
+      yearlyCalculations,
+      options.teilfreistellungsquote ?? FINANCIAL_DEFAULTS.DEFAULT_TEILFREISTELLUNG,
+    )
 
   // Calculate effective tax rate (Kapitalertragsteuer × (1 - Teilfreistellung))
-  const teilfreistellungsquote = options.teilfreistellungsquote ?? FINANCIAL_DEFAULTS.DEFAULT_TEILFREISTELLUNG
   const effectiveTaxRate = options.steuerlast * (1 - teilfreistellungsquote)
 
   // Calculate loss offset
@@ -967,6 +1420,8 @@ function calculatePortfolioLossOffset(
   return {
     lossOffsetResult,
     adjustedTaxableIncome: lossOffsetResult.taxableIncomeAfterOffset,
+    teilfreistellungsquote,
+    anrechenbareQuellensteuer,
   }
 }
 
@@ -975,7 +1430,7 @@ function calculatePortfolioLossOffset(
  */
 function calculateAdjustedTotalTax(
   totalPotentialTaxThisYear: number,
-  lossOffsetData: { lossOffsetResult: LossOffsetResult; adjustedTaxableIncome: number } | null,
+  lossOffsetData: PortfolioLossOffset | null,
   options?: SimulateOptions,
 ): number {
   if (!lossOffsetData || !lossOffsetData.lossOffsetResult) {
@@ -983,10 +1438,78 @@ function calculateAdjustedTotalTax(
   }
 
   // Recalculate tax based on adjusted taxable income after loss offset
-  const teilfreistellungsquote = options?.teilfreistellungsquote ?? FINANCIAL_DEFAULTS.DEFAULT_TEILFREISTELLUNG
   const effectiveTaxRate =
-    (options?.steuerlast ?? FINANCIAL_DEFAULTS.DEFAULT_KAPITALERTRAGSTEUER) * (1 - teilfreistellungsquote)
-  return lossOffsetData.adjustedTaxableIncome * effectiveTaxRate
+    (options?.steuerlast ?? FINANCIAL_DEFAULTS.DEFAULT_KAPITALERTRAGSTEUER) * (1 - lossOffsetData.teilfreistellungsquote)
+  return Math.max(0, lossOffsetData.adjustedTaxableIncome * effectiveTaxRate - lossOffsetData.anrechenbareQuellensteuer)
+}
+
+type TaxAllocation = {
+  tax: number
+  genutzterFreibetrag: number
+}
+
+/**
+ * Distribute the tax and the used Freibetrag of the whole portfolio proportionally to the elements
+ */
+function allocatePortfolioTaxes(
+  yearlyCalculations: YearlyCalculation[],
+  totalPotentialTax: number,
+  adjustedTotalTax: number,
+  freibetragInYear: number,
+): TaxAllocation[] {
+  const totalTaxPaid = Math.max(0, adjustedTotalTax - freibetragInYear)
+  const genutzterFreibetragTotal = Math.min(adjustedTotalTax, freibetragInYear)
+
+  return yearlyCalculations.map(calc => ({
+    tax: calculateProportionalTax(calc.potentialTax, totalPotentialTax, totalTaxPaid),
+    genutzterFreibetrag: calculateProportionalFreibetrag(calc.potentialTax, totalPotentialTax, genutzterFreibetragTotal),
+  }))
+}
+
+/**
+ * Withhold the tax per depot with its own Freistellungsauftrag and reconcile it via Anlage KAP.
+ * The loss offset applies to the whole portfolio, so each depot's tax is reduced by the same factor.
+ */
+function allocateDepotTaxes(
+  year: number,
+  yearlyCalculations: YearlyCalculation[],
+  totalPotentialTax: number,
+  adjustedTotalTax: number,
+  freibetragInYear: number,
+  depots: BankAccount[],
+): { allocations: TaxAllocation[]; anlageKap: AnlageKapReconciliation } {
+  const lossOffsetFactor = totalPotentialTax > 0 ? adjustedTotalTax / totalPotentialTax : 0
+  const depotIds = yearlyCalculations.map(calc => resolveDepotId(calc.element.depotId, depots))
+  const potentialTaxByDepot = new Map<string, number>()
+  yearlyCalculations.forEach((calc, i) => {
+    potentialTaxByDepot.set(depotIds[i], (potentialTaxByDepot.get(depotIds[i]) ?? 0) + calc.potentialTax)
+  })
+
+  const taxByDepot = new Map([...potentialTaxByDepot].map(([depotId, tax]) => [depotId, tax * lossOffsetFactor]))
+  const anlageKap = calculateDepotTaxation(year, taxByDepot, depots, freibetragInYear)
+  const depotResults = new Map(anlageKap.depots.map(depot => [depot.depotId, depot]))
+
+  const allocations = yearlyCalculations.map((calc, i) => {
+    const depot = depotResults.get(depotIds[i])!
+    const depotPotentialTax = potentialTaxByDepot.get(depotIds[i])!
+    return {
+      tax: calculateProportionalTax(calc.potentialTax, depotPotentialTax, depot.taxWithheld),
+      genutzterFreibetrag: calculateProportionalFreibetrag(
+        calc.potentialTax,
+        depotPotentialTax,
+        depot.genutzterFreibetrag,
+      ),
+    }
+  })
+
+  return { allocations, anlageKap }
+}
+
+function getFreibetragForYear(year: number, freibetragPerYear?: { [year: number]: number }): number {
+  if (freibetragPerYear && freibetragPerYear[year] !== undefined) {
+    return freibetragPerYear[year]
+  }
+  return freibetrag[2023] || FREIBETRAG_CONSTANTS.INDIVIDUAL
 }
 
 function applyTaxes(
@@ -997,12 +1520,6 @@ function applyTaxes(
   steuerReduzierenEndkapital = true,
   _options?: SimulateOptions,
 ) {
-  const getFreibetragForYear = (year: number): number => {
-    if (freibetragPerYear && freibetragPerYear[year] !== undefined) {
-      return freibetragPerYear[year]
-    }
-    return freibetrag[2023] || FREIBETRAG_CONSTANTS.INDIVIDUAL
-  }
 
   // Calculate loss offset if enabled
   const lossOffsetData = _options ? calculatePortfolioLossOffset(year, yearlyCalculations, _options) : null
@@ -1010,20 +1527,30 @@ function applyTaxes(
   // Adjust taxable income based on loss offset
   const adjustedTotalTax = calculateAdjustedTotalTax(totalPotentialTaxThisYear, lossOffsetData, _options)
 
-  const freibetragInYear = getFreibetragForYear(year)
-  const totalTaxPaid = Math.max(0, adjustedTotalTax - freibetragInYear)
-  const genutzterFreibetragTotal = Math.min(adjustedTotalTax, freibetragInYear)
+  const freibetragInYear = getFreibetragForYear(year, freibetragPerYear)
+  const depots = _options?.depots ?? []
+  const { allocations, anlageKap } =
+    depots.length > 0
+      ? allocateDepotTaxes(year, yearlyCalculations, totalPotentialTaxThisYear, adjustedTotalTax, freibetragInYear, depots)
+      : {
+          allocations: allocatePortfolioTaxes(
+            yearlyCalculations,
+            totalPotentialTaxThisYear,
+            adjustedTotalTax,
+            freibetragInYear,
+          ),
+          anlageKap: undefined,
+        }
 
-  for (const calc of yearlyCalculations) {
-    // Calculate proportional tax and Freibetrag based on adjusted total
-    const taxForElement = calculateProportionalTax(calc.potentialTax, totalPotentialTaxThisYear, totalTaxPaid)
-    const genutzterFreibetragForElement = calculateProportionalFreibetrag(
-      calc.potentialTax,
-      totalPotentialTaxThisYear,
-      genutzterFreibetragTotal,
+  yearlyCalculations.forEach((calc, i) => {
+    const { tax: taxForElement, genutzterFreibetrag: genutzterFreibetragForElement } = allocations[i]
+    const { ausschuettungDetails, taxFromCapital } = settleElementAusschuettung(
+      calc,
+      taxForElement,
+      steuerReduzierenEndkapital,
     )
 
-    let endkapital = steuerReduzierenEndkapital ? calc.endkapitalVorSteuer - taxForElement : calc.endkapitalVorSteuer
+    let endkapital = steuerReduzierenEndkapital ? calc.endkapitalVorSteuer - taxFromCapital : calc.endkapitalVorSteuer
 
     // Apply inflation reduction to total capital in "gesamtmenge" mode
     endkapital = applyInflationReduction(endkapital, year, _options)
@@ -1039,6 +1566,7 @@ function applyTaxes(
       lossOffsetData?.lossOffsetResult.remainingLosses,
     )
 
-    calc.element.simulation[year] = simulationResult
-  }
+    const resultWithAusschuettung = addAusschuettung(simulationResult, calc.element, year, ausschuettungDetails)
+    calc.element.simulation[year] = anlageKap ? { ...resultWithAusschuettung, anlageKap } : resultWithAusschuettung
+  })
 }
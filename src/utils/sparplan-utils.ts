@@ -1,5 +1,6 @@
 import { SimulationAnnual, type SimulationAnnualType, type SimulationResult } from './simulate'
 import type { DynamicSavingsRateConfig } from '../../helpers/dynamic-savings-rate'
+import type { AssetClass } from '../../helpers/asset-class'
 
 export type RelationshipType =
   | 'spouse' // Ehegatte - €500,000 exemption
@@ -75,6 +76,15 @@ export type SpecialEventData = {
   phase?: 'sparphase' | 'entsparphase' // Which life phase this event occurs in
 }
 
+/**
+ * Distributions of a distributing fund (ausschüttender Fonds)
+ */
+export type DistributionConfig = {
+  distributionYield: number // Yearly distribution as share of the fund value (e.g., 0.02 for 2%)
+  withholdingTaxRate: number // Foreign withholding tax (Quellensteuer) on the distributions (e.g., 0.15 for 15%)
+  reinvest: boolean // Reinvest the distributions, otherwise they are paid out as income
+}
+
 export type Sparplan = {
   id: number
   start: Date | string
@@ -91,6 +101,12 @@ export type Sparplan = {
   incomePattern?: IncomePattern // Optional income pattern for irregular contributions
   // Dynamic savings rate configuration
   dynamicSavingsConfig?: DynamicSavingsRateConfig // Optional dynamic savings rate adjustments
+  // Depot (bank account with Freistellungsauftrag) holding the savings plan
+  depotId?: string
+  // Fund type deciding Teilfreistellung, Vorabpauschale and loss pot (default: asset class of the tax configuration)
+  fundType?: AssetClass
+  // Distributing fund (default: accumulating fund taxed via Vorabpauschale only)
+  distribution?: DistributionConfig
 }
 
 export type SparplanElement =
@@ -108,6 +124,12 @@ export type SparplanElement =
       specialEventData?: SpecialEventData
       // Dynamic savings rate configuration
       dynamicSavingsConfig?: DynamicSavingsRateConfig
+      // Depot holding the element
+      depotId?: string
+      // Fund type of the element
+      fundType?: AssetClass
+      // Distributions of a distributing fund
+      distribution?: DistributionConfig
     }
   | {
       start: Date | string
@@ -124,6 +146,12 @@ export type SparplanElement =
       specialEventData?: SpecialEventData
       // Dynamic savings rate configuration (not applicable for one-time payments)
       dynamicSavingsConfig?: DynamicSavingsRateConfig
+      // Depot holding the element
+      depotId?: string
+      // Fund type of the element
+      fundType?: AssetClass
+      // Distributions of a distributing fund
+      distribution?: DistributionConfig
     }
 
 export const initialSparplan: Sparplan = {
@@ -209,6 +237,9 @@ function createSparplanElement(params: CreateElementParams): SparplanElement {
     transactionCostAbsolute: el.transactionCostAbsolute,
     eventType: el.eventType || 'normal',
     specialEventData: el.specialEventData,
+    depotId: el.depotId,
+    fundType: el.fundType,
+    distribution: el.distribution,
   }
 }
 
@@ -322,6 +353,9 @@ function processOneTimePayment(el: Sparplan, startEnd: [number, number]): Sparpl
       transactionCostAbsolute: el.transactionCostAbsolute,
       eventType: el.eventType || 'normal',
       specialEventData: el.specialEventData,
+      depotId: el.depotId,
+      fundType: el.fundType,
+      distribution: el.distribution,
     },
   ]
 }
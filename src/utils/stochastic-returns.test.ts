@@ -0,0 +1,205 @@
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_STOCHASTIC_RETURN_SETTINGS,
+  buildStochasticReturnConfig,
+  generateBootstrapReturns,
+  generateRegimePath,
+  generateRegimeSwitchingReturns,
+  generateStochasticReturns,
+  generateStudentTReturns,
+  getLongRunBullShare,
+  type RegimeSwitchingReturnConfig,
+} from './stochastic-returns'
+import { generateRandomReturns } from './random-returns'
+import { getHistoricalIndex } from './historical-data'
+import { simulate } from './simulate'
+
+const yearRange = (count: number, start = 2025) => Array.from({ length: count }, (_, i) => start + i)
+
+const statistics = (values: number[]) => {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length
+  const fourthMoment = values.reduce((sum, value) => sum + (value - mean) ** 4, 0) / values.length
+  return { mean, standardDeviation: Math.sqrt(variance), kurtosis: fourthMoment / variance ** 2 }
+}
+
+const regimeConfig: RegimeSwitchingReturnConfig = {
+  bull: { averageReturn: 0.12, standardDeviation: 0.14 },
+  bear: { averageReturn: -0.08, standardDeviation: 0.24 },
+  bullToBearProbability: 0.15,
+  bearToBullProbability: 0.45,
+  seed: 7,
+}
+
+describe('stochastic-returns', () => {
+  describe('generateStudentTReturns', () => {
+    it('should keep mean and volatility but produce heavier tails than normal returns', () => {
+      const years = yearRange(20000)
+      const config = { averageReturn: 0.07, standardDeviation: 0.15, seed: 42 }
+
+      const studentT = statistics(Object.values(generateStudentTReturns(years, { ...config, degreesOfFreedom: 5 })))
+      const normal = statistics(Object.values(generateRandomReturns(years, config)))
+
+      expect(studentT.mean).toBeCloseTo(0.07, 2)
+      expect(studentT.standardDeviation).toBeGreaterThan(0.13)
+      expect(studentT.standardDeviation).toBeLessThan(0.17)
+      expect(studentT.kurtosis).toBeGreaterThan(normal.kurtosis + 1)
+    })
+
+    it('should be reproducible with the same seed', () => {
+      const config = { averageReturn: 0.07, standardDeviation: 0.15, degreesOfFreedom: 4, seed: 123 }
+
+      expect(generateStudentTReturns(yearRange(30), config)).toEqual(generateStudentTReturns(yearRange(30), config))
+      expect(generateStudentTReturns(yearRange(30), { ...config, seed: 124 })).not.toEqual(
+        generateStudentTReturns(yearRange(30), config),
+      )
+    })
+
+    it('should never return a total loss', () => {
+      const returns = generateStudentTReturns(yearRange(5000), {
+        averageReturn: 0,
+        standardDeviation: 0.6,
+        degreesOfFreedom: 3,
+        seed: 1,
+      })
+
+      expect(Math.min(...Object.values(returns))).toBeGreaterThanOrEqual(-0.9)
+    })
+  })
+
+  describe('generateBootstrapReturns', () => {
+    it('should resample consecutive historical years in blocks', () => {
+      const history = getHistoricalIndex('dax')!.data.map(point => point.return)
+      const years = yearRange(12)
+
+      const returns = generateBootstrapReturns(years, { indexId: 'dax', blockLength: 4, seed: 99 })
+
+      for (let blockStart = 0; blockStart < years.length; blockStart += 4) {
+        const firstIndex = history.indexOf(returns[years[blockStart]])
+        expect(firstIndex).toBeGreaterThanOrEqual(0)
+        for (let offset = 1; offset < 4; offset++) {
+          expect(returns[years[blockStart + offset]]).toBe(history[(firstIndex + offset) % history.length])
+        }
+      }
+    })
+
+    it('should be reproducible with the same seed', () => {
+      const config = { indexId: 'msci-world', blockLength: 5, seed: 5 }
+
+      expect(generateBootstrapReturns(yearRange(40), config)).toEqual(generateBootstrapReturns(yearRange(40), config))
+    })
+
+    it('should fall back to the first index for unknown indices', () => {
+      const returns = generateBootstrapReturns(yearRange(3), { indexId: 'unknown', seed: 1 })
+      const firstIndexReturns = getHistoricalIndex('dax')!.data.map(point => point.return)
+
+      Object.values(returns).forEach(value => expect(firstIndexReturns).toContain(value))
+    })
+  })
+
+  describe('regime switching', () => {
+    it('should spend the long-run share of years in bull markets', () => {
+      const regimes = Object.values(generateRegimePath(yearRange(20000), regimeConfig))
+      const bullShare = regimes.filter(regime => regime === 'bull').length / regimes.length
+
+      expect(getLongRunBullShare(regimeConfig)).toBeCloseTo(0.75)
+      expect(bullShare).toBeCloseTo(0.75, 1)
+    })
+
+    it('should cluster bad years in bear markets', () => {
+      const years = yearRange(20000)
+      const regimes = generateRegimePath(years, regimeConfig)
+      let bearToBear = 0
+      let bearYears = 0
+      years.slice(1).forEach((year, i) => {
+        if (regimes[years[i]] === 'bear') {
+          bearYears++
+          if (regimes[year] === 'bear') bearToBear++
+        }
+      })
+
+      // Bear markets persist with probability 1 - 45%
+      expect(bearToBear / bearYears).toBeCloseTo(0.55, 1)
+    })
+
+    it('should produce the long-run average return', () => {
+      const returns = Object.values(generateRegimeSwitchingReturns(yearRange(20000), regimeConfig))
+
+      expect(statistics(returns).mean).toBeCloseTo(0.07, 1)
+    })
+
+    it('should stay in the bull market if switching is impossible', () => {
+      const config = { ...regimeConfig, bullToBearProbability: 0, bearToBullProbability: 0 }
+
+      expect(new Set(Object.values(generateRegimePath(yearRange(50), config)))).toEqual(new Set(['bull']))
+    })
+  })
+
+  describe('buildStochasticReturnConfig', () => {
+    it('should convert percentages of the settings to decimals', () => {
+      const config = buildStochasticReturnConfig({
+        mode: 'regime',
+        settings: DEFAULT_STOCHASTIC_RETURN_SETTINGS,
+        averageReturn: 7,
+        standardDeviation: 15,
+        seed: 3,
+      })
+
+      expect(config.regimeConfig).toEqual({
+        bull: { averageReturn: 0.12, standardDeviation: 0.14 },
+        bear: { averageReturn: -0.08, standardDeviation: 0.24 },
+        bullToBearProbability: 0.15,
+        bearToBullProbability: 0.45,
+        seed: 3,
+      })
+    })
+
+    it('should use average return and volatility of the random mode for Student-t', () => {
+      const config = buildStochasticReturnConfig({
+        mode: 'student-t',
+        settings: DEFAULT_STOCHASTIC_RETURN_SETTINGS,
+        averageReturn: 6,
+        standardDeviation: 18,
+        seed: undefined,
+      })
+
+      expect(config).toEqual({
+        mode: 'student-t',
+        studentTConfig: { averageReturn: 0.06, standardDeviation: 0.18, degreesOfFreedom: 5, seed: undefined },
+      })
+    })
+  })
+
+  describe('generateStochasticReturns', () => {
+    it('should return undefined for other modes or missing configuration', () => {
+      expect(generateStochasticReturns(yearRange(3), { mode: 'fixed', fixedRate: 0.05 })).toBeUndefined()
+      expect(generateStochasticReturns(yearRange(3), { mode: 'bootstrap' })).toBeUndefined()
+    })
+
+    it('should drive the savings phase simulation', () => {
+      const returnConfig = buildStochasticReturnConfig({
+        mode: 'bootstrap',
+        settings: DEFAULT_STOCHASTIC_RETURN_SETTINGS,
+        averageReturn: 7,
+        standardDeviation: 15,
+        seed: 11,
+      })
+      const run = () =>
+        simulate({
+          startYear: 2025,
+          endYear: 2035,
+          elements: [{ type: 'sparplan', start: '2025-01-01', einzahlung: 10000, simulation: {} }],
+          returnConfig,
+          steuerlast: 0.26375,
+          teilfreistellungsquote: 0.3,
+          simulationAnnual: 'yearly',
+        })[0].simulation
+
+      const simulation = run()
+      const expectedGrowth = generateBootstrapReturns(yearRange(11), returnConfig.bootstrapConfig!)[2025]
+
+      expect(simulation[2025].zinsen / simulation[2025].startkapital).toBeCloseTo(expectedGrowth, 6)
+      expect(run()[2035].endkapital).toBe(simulation[2035].endkapital)
+    })
+  })
+})
@@ -0,0 +1,272 @@
+/**
+ * Fat-tailed and regime-based return models
+ *
+ * Normally distributed returns (see generateRandomReturns) understate the risk of crashes and of
+ * several bad years in a row. The models in this module keep these properties:
+ * - Block bootstrap: resamples consecutive years of a historical index, so crash clusters stay intact
+ * - Student-t: symmetric distribution with heavier tails than the normal distribution
+ * - Regime switching: two-state Markov chain alternating between bull and bear markets
+ *
+ * All models draw from SeededRandom and are reproducible when a seed is configured.
+ */
+
+import { SeededRandom, boxMuller, type ReturnConfiguration, type ReturnMode } from './random-returns'
+import { HISTORICAL_INDICES, getHistoricalIndex } from './historical-data'
+
+/** Returns are bounded below total loss; the normal model clamps at -50% instead */
+const MIN_STOCHASTIC_RETURN = -0.9
+
+/** Below three degrees of freedom the variance of the t distribution is (nearly) infinite */
+export const MIN_DEGREES_OF_FREEDOM = 3
+
+export type BootstrapReturnConfig = {
+  indexId: string // ID of the historical index to resample (e.g., 'msci-world')
+  blockLength?: number // Number of consecutive years per block (default: 5)
+  seed?: number // Random seed for reproducible results
+}
+
+export type StudentTReturnConfig = {
+  averageReturn: number // Average annual return (e.g., 0.07 for 7%)
+  standardDeviation?: number // Standard deviation (default: 0.15 for 15%)
+  degreesOfFreedom: number // Lower values mean heavier tails (e.g., 5)
+  seed?: number // Random seed for reproducible results
+}
+
+export type MarketRegime = 'bull' | 'bear'
+
+export type RegimeParameters = {
+  averageReturn: number // Average annual return within the regime
+  standardDeviation: number // Volatility within the regime
+}
+
+export type RegimeSwitchingReturnConfig = {
+  bull: RegimeParameters
+  bear: RegimeParameters
+  bullToBearProbability: number // Yearly probability to switch from bull to bear market
+  bearToBullProbability: number // Yearly probability to switch from bear to bull market
+  seed?: number // Random seed for reproducible results
+}
+
+/**
+ * Settings of the stochastic return models as stored in the simulation context.
+ * Returns, volatilities and probabilities are percentages like averageReturn and standardDeviation.
+ */
+export interface StochasticReturnSettings {
+  bootstrapIndexId: string
+  bootstrapBlockLength: number
+  degreesOfFreedom: number
+  bullMarketReturn: number
+  bullMarketVolatility: number
+  bearMarketReturn: number
+  bearMarketVolatility: number
+  bullToBearProbability: number
+  bearToBullProbability: number
+}
+
+/**
+ * Default settings: the regime parameters result in a long-run average of 7% p.a.
+ * (75% of the years in bull markets with 12%, 25% in bear markets with -8%)
+ */
+export const DEFAULT_STOCHASTIC_RETURN_SETTINGS: StochasticReturnSettings = {
+  bootstrapIndexId: 'msci-world',
+  bootstrapBlockLength: 5,
+  degreesOfFreedom: 5,
+  bullMarketReturn: 12,
+  bullMarketVolatility: 14,
+  bearMarketReturn: -8,
+  bearMarketVolatility: 24,
+  bullToBearProbability: 15,
+  bearToBullProbability: 45,
+}
+
+const clampReturn = (value: number) => Math.max(value, MIN_STOCHASTIC_RETURN)
+
+/**
+ * Gamma distributed random number with scale 1 (Marsaglia-Tsang method, shape >= 1)
+ */
+function sampleGamma(rng: SeededRandom, shape: number): number {
+  const d = shape - 1 / 3
+  const c = 1 / Math.sqrt(9 * d)
+
+  for (;;) {
+    const x = boxMuller(rng)
+    const v = Math.pow(1 + c * x, 3)
+    if (v > 0 && Math.log(rng.next()) < 0.5 * x * x + d - d * v + d * Math.log(v)) {
+      return d * v
+    }
+  }
+}
+
+/**
+ * Standard Student-t distributed random number: Z / sqrt(ChiSquared(df) / df)
+ */
+function sampleStudentT(rng: SeededRandom, degreesOfFreedom: number): number {
+  const z = boxMuller(rng)
+  const chiSquared = 2 * sampleGamma(rng, degreesOfFreedom / 2)
+  return z / Math.sqrt(chiSquared / degreesOfFreedom)
+}
+
+/**
+ * Generate returns from a Student-t distribution.
+ * The distribution is scaled so that its standard deviation equals the configured volatility,
+ * only the shape of the tails differs from normally distributed returns.
+ */
+export function generateStudentTReturns(years: number[], config: StudentTReturnConfig): Record<number, number> {
+  const { averageReturn, standardDeviation = 0.15, seed } = config
+  const degreesOfFreedom = Math.max(config.degreesOfFreedom, MIN_DEGREES_OF_FREEDOM)
+  const scale = standardDeviation * Math.sqrt((degreesOfFreedom - 2) / degreesOfFreedom)
+  const rng = new SeededRandom(seed)
+  const returns: Record<number, number> = {}
+
+  for (const year of years) {
+    returns[year] = clampReturn(averageReturn + scale * sampleStudentT(rng, degreesOfFreedom))
+  }
+
+  return returns
+}
+
+/**
+ * Generate returns by resampling blocks of consecutive years from a historical index.
+ * Blocks wrap around at the end of the data (circular block bootstrap), so every year is drawn
+ * with the same probability.
+ */
+export function generateBootstrapReturns(years: number[], config: BootstrapReturnConfig): Record<number, number> {
+  const index = getHistoricalIndex(config.indexId) ?? HISTORICAL_INDICES[0]
+  const history = index.data.map(point => point.return)
+  const blockLength = Math.min(Math.max(Math.round(config.blockLength ?? 5), 1), history.length)
+  const rng = new SeededRandom(config.seed)
+  const returns: Record<number, number> = {}
+
+  let blockStart = 0
+  years.forEach((year, position) => {
+    const offset = position % blockLength
+    if (offset === 0) {
+      blockStart = Math.floor(rng.next() * history.length)
+    }
+    returns[year] = history[(blockStart + offset) % history.length]
+  })
+
+  return returns
+}
+
+/**
+ * Share of years spent in bull markets in the long run (stationary distribution of the Markov chain)
+ */
+export function getLongRunBullShare(config: RegimeSwitchingReturnConfig): number {
+  const switchProbability = config.bullToBearProbability + config.bearToBullProbability
+  return switchProbability > 0 ? config.bearToBullProbability / switchProbability : 1
+}
+
+/**
+ * Simulate the sequence of market regimes, starting from the long-run distribution
+ */
+export function generateRegimePath(
+  years: number[],
+  config: RegimeSwitchingReturnConfig,
+  rng: SeededRandom = new SeededRandom(config.seed),
+): Record<number, MarketRegime> {
+  const regimes: Record<number, MarketRegime> = {}
+  let regime: MarketRegime = rng.next() < getLongRunBullShare(config) ? 'bull' : 'bear'
+
+  for (const year of years) {
+    regimes[year] = regime
+    const switchProbability = regime === 'bull' ? config.bullToBearProbability : config.bearToBullProbability
+    if (rng.next() < switchProbability) {
+      regime = regime === 'bull' ? 'bear' : 'bull'
+    }
+  }
+
+  return regimes
+}
+
+/**
+ * Generate returns with a two-state bull/bear Markov regime model.
+ * Within a regime, returns are normally distributed with the parameters of that regime.
+ */
+export function generateRegimeSwitchingReturns(
+  years: number[],
+  config: RegimeSwitchingReturnConfig,
+): Record<number, number> {
+  const rng = new SeededRandom(config.seed)
+  const regimes = generateRegimePath(years, config, rng)
+  const returns: Record<number, number> = {}
+
+  for (const year of years) {
+    const { averageReturn, standardDeviation } = config[regimes[year]]
+    returns[year] = clampReturn(averageReturn + boxMuller(rng) * standardDeviation)
+  }
+
+  return returns
+}
+
+/**
+ * Generate returns for the stochastic return modes (bootstrap, student-t, regime).
+ * Returns undefined if the mode is not a stochastic mode or its configuration is missing.
+ */
+export function generateStochasticReturns(
+  years: number[],
+  returnConfig: ReturnConfiguration,
+): Record<number, number> | undefined {
+  if (returnConfig.mode === 'bootstrap' && returnConfig.bootstrapConfig) {
+    return generateBootstrapReturns(years, returnConfig.bootstrapConfig)
+  }
+  if (returnConfig.mode === 'student-t' && returnConfig.studentTConfig) {
+    return generateStudentTReturns(years, returnConfig.studentTConfig)
+  }
+  if (returnConfig.mode === 'regime' && returnConfig.regimeConfig) {
+    return generateRegimeSwitchingReturns(years, returnConfig.regimeConfig)
+  }
+  return undefined
+}
+
+/**
+ * Check whether a return mode is one of the stochastic return models of this module
+ */
+export function isStochasticReturnMode(mode: ReturnMode): mode is 'bootstrap' | 'student-t' | 'regime' {
+  return mode === 'bootstrap' || mode === 'student-t' || mode === 'regime'
+}
+
+interface StochasticReturnConfigParams {
+  mode: 'bootstrap' | 'student-t' | 'regime'
+  settings: StochasticReturnSettings
+  averageReturn: number // Percentage, used by the Student-t model
+  standardDeviation: number // Percentage, used by the Student-t model
+  seed: number | undefined
+}
+
+/**
+ * Build the return configuration of a stochastic mode from the settings in the simulation context
+ */
+export function buildStochasticReturnConfig(params: StochasticReturnConfigParams): ReturnConfiguration {
+  const { mode, settings, seed } = params
+
+  if (mode === 'bootstrap') {
+    return {
+      mode,
+      bootstrapConfig: { indexId: settings.bootstrapIndexId, blockLength: settings.bootstrapBlockLength, seed },
+    }
+  }
+
+  if (mode === 'student-t') {
+    return {
+      mode,
+      studentTConfig: {
+        averageReturn: params.averageReturn / 100,
+        standardDeviation: params.standardDeviation / 100,
+        degreesOfFreedom: settings.degreesOfFreedom,
+        seed,
+      },
+    }
+  }
+
+  return {
+    mode,
+    regimeConfig: {
+      bull: { averageReturn: settings.bullMarketReturn / 100, standardDeviation: settings.bullMarketVolatility / 100 },
+      bear: { averageReturn: settings.bearMarketReturn / 100, standardDeviation: settings.bearMarketVolatility / 100 },
+      bullToBearProbability: settings.bullToBearProbability / 100,
+      bearToBullProbability: settings.bearToBullProbability / 100,
+      seed,
+    },
+  }
+}
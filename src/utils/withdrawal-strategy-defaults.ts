@@ -7,6 +7,10 @@
 
 import type { WithdrawalSegment } from '../utils/segmented-withdrawal'
 import type { WithdrawalStrategy, BucketSubStrategy, RMDConfig } from '../../helpers/withdrawal'
+import {
+  resolveBedarfsorientierteConfig,
+  type BedarfsorientierteEntnahmeConfig,
+} from '../../helpers/bedarfsorientierte-entnahme'
 
 /**
  * Parameters for initializing a withdrawal strategy with defaults
@@ -76,6 +80,8 @@ interface StrategyDefaultsResult {
   }
   /** Configuration for RMD (Required Minimum Distribution) strategy */
   rmdConfig?: RMDConfig
+  /** Spending models of the bedarfsorientiert strategy */
+  bedarfsorientierteConfig?: BedarfsorientierteEntnahmeConfig
 }
 
 /**
@@ -149,6 +155,12 @@ const strategyDefaultGetters: Record<WithdrawalStrategy, StrategyDefaultGetter>
       },
     }
   },
+  /** Withdrawal of the spending need (Ausgaben-Tracker or dynamic spending phases) net of pensions and taxes */
+  bedarfsorientiert: segment => {
+    if (segment.bedarfsorientierteConfig) return {}
+    // Amounts in prices of the first year of the segment
+    return { bedarfsorientierteConfig: resolveBedarfsorientierteConfig(undefined, segment.startYear) }
+  },
   // Strategies that use predefined rules without additional configuration
   /** Classic 4% rule (4% of starting capital annually) */
   '4prozent': () => ({}),
@@ -18,6 +18,7 @@ const strategyDisplayNames: ReadonlyRecord<string, string> = {
   rmd: 'RMD (Lebenserwartung)',
   kapitalerhalt: 'Kapitalerhalt / Ewige Rente',
   steueroptimiert: 'Steueroptimiert',
+  bedarfsorientiert: 'Bedarfsorientiert',
 }
 
 /**
@@ -0,0 +1,178 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  SimulationWorkerPool,
+  createInlineSimulationWorker,
+  type SimulationWorkerHandle,
+} from './simulation-worker-pool'
+import type { SimulationJob, SimulationWorkerRequest, SimulationWorkerResponse } from './simulation-worker-protocol'
+
+const simulateJob: Extract<SimulationJob, { kind: 'simulate' }> = {
+  kind: 'simulate',
+  options: {
+    startYear: 2025,
+    endYear: 2030,
+    elements: [{ type: 'sparplan', start: '2025-01-01', einzahlung: 12000, simulation: {} }],
+    returnConfig: { mode: 'fixed', fixedRate: 0.05 },
+    steuerlast: 0.26375,
+    teilfreistellungsquote: 0.3,
+    simulationAnnual: 'yearly',
+  },
+}
+
+/**
+ * Worker that only answers when the test tells it to
+ */
+function createManualWorker() {
+  const requests: SimulationWorkerRequest[] = []
+  const worker: SimulationWorkerHandle & { respond: (response: SimulationWorkerResponse) => void } = {
+    onmessage: null,
+    onerror: null,
+    postMessage: request => requests.push(request),
+    terminate: vi.fn(),
+    respond: response => worker.onmessage?.({ data: response }),
+  }
+  return { worker, requests }
+}
+
+describe('SimulationWorkerPool', () => {
+  it('executes jobs with inline workers', async () => {
+    const pool = new SimulationWorkerPool(createInlineSimulationWorker, 2)
+
+    const outcome = await pool.run(simulateJob)
+
+    expect(outcome.status).toBe('completed')
+    if (outcome.status === 'completed') {
+      expect(outcome.result[0].simulation[2030].endkapital).toBeGreaterThan(12000)
+    }
+  })
+
+  it('reports progress of Monte Carlo jobs', async () => {
+    const pool = new SimulationWorkerPool(createInlineSimulationWorker, 1)
+    const onProgress = vi.fn()
+
+    await pool.run(
+      {
+        kind: 'monteCarlo',
+        config: {
+          runs: 4,
+          savingsPhase: simulateJob.options,
+          savingsReturns: { averageReturn: 0.05, standardDeviation: 0.1, seed: 1 },
+        },
+      },
+      { onProgress },
+    )
+
+    expect(onProgress).toHaveBeenCalledTimes(4)
+    expect(onProgress).toHaveBeenLastCalledWith(4, 4)
+  })
+
+  it('limits the number of workers and queues further jobs', () => {
+    const manual = createManualWorker()
+    const createWorker = vi.fn(() => manual.worker)
+    const pool = new SimulationWorkerPool(createWorker, 1)
+
+    void pool.run(simulateJob)
+    void pool.run(simulateJob)
+
+    expect(createWorker).toHaveBeenCalledTimes(1)
+    expect(pool.runningJobs).toBe(1)
+    expect(pool.queuedJobs).toBe(1)
+  })
+
+  it('reuses an idle worker for the next queued job', async () => {
+    const manual = createManualWorker()
+    const pool = new SimulationWorkerPool(() => manual.worker, 1)
+
+    const first = pool.run(simulateJob)
+    void pool.run(simulateJob)
+    manual.worker.respond({ type: 'result', jobId: manual.requests[0].jobId, result: [] })
+
+    await expect(first).resolves.toEqual({ status: 'completed', result: [] })
+    expect(manual.requests).toHaveLength(2)
+    expect(pool.queuedJobs).toBe(0)
+  })
+
+  it('cancels a running stale job with the same key by terminating its worker', async () => {
+    const workers: Array<ReturnType<typeof createManualWorker>> = []
+    const pool = new SimulationWorkerPool(() => {
+      const manual = createManualWorker()
+      workers.push(manual)
+      return manual.worker
+    }, 1)
+
+    const stale = pool.run(simulateJob, { key: 'main' })
+    const latest = pool.run(simulateJob, { key: 'main' })
+
+    await expect(stale).resolves.toEqual({ status: 'cancelled' })
+    expect(workers[0].worker.terminate).toHaveBeenCalled()
+
+    // The latest job runs on a fresh worker
+    expect(workers).toHaveLength(2)
+    workers[1].worker.respond({ type: 'result', jobId: workers[1].requests[0].jobId, result: [] })
+    await expect(latest).resolves.toEqual({ status: 'completed', result: [] })
+  })
+
+  it('drops a queued stale job with the same key', async () => {
+    const manual = createManualWorker()
+    const pool = new SimulationWorkerPool(() => manual.worker, 1)
+
+    void pool.run(simulateJob, { key: 'busy' })
+    const stale = pool.run(simulateJob, { key: 'main' })
+    void pool.run(simulateJob, { key: 'main' })
+
+    await expect(stale).resolves.toEqual({ status: 'cancelled' })
+    expect(pool.queuedJobs).toBe(1)
+  })
+
+  it('ignores responses of cancelled jobs', async () => {
+    const manual = createManualWorker()
+    const pool = new SimulationWorkerPool(() => manual.worker, 1)
+    const onProgress = vi.fn()
+
+    const job = pool.run(simulateJob, { key: 'main', onProgress })
+    pool.cancel('main')
+    manual.worker.respond({ type: 'progress', jobId: manual.requests[0].jobId, completed: 1, total: 1 })
+
+    await expect(job).resolves.toEqual({ status: 'cancelled' })
+    expect(onProgress).not.toHaveBeenCalled()
+  })
+
+  it('rejects jobs that fail inside the worker', async () => {
+    const pool = new SimulationWorkerPool(createInlineSimulationWorker, 1)
+
+    await expect(
+      pool.run({ kind: 'simulate', options: { ...simulateJob.options, elements: null as never } }),
+    ).rejects.toThrow()
+  })
+
+  it('rejects the running job and replaces the worker after a worker error', async () => {
+    const workers: Array<ReturnType<typeof createManualWorker>> = []
+    const pool = new SimulationWorkerPool(() => {
+      const manual = createManualWorker()
+      workers.push(manual)
+      return manual.worker
+    }, 1)
+
+    const failing = pool.run(simulateJob)
+    const next = pool.run(simulateJob)
+    workers[0].worker.onerror?.({ message: 'Out of memory' })
+
+    await expect(failing).rejects.toThrow('Out of memory')
+    expect(workers).toHaveLength(2)
+    workers[1].worker.respond({ type: 'result', jobId: workers[1].requests[0].jobId, result: [] })
+    await expect(next).resolves.toEqual({ status: 'completed', result: [] })
+  })
+
+  it('cancels all jobs on terminate', async () => {
+    const manual = createManualWorker()
+    const pool = new SimulationWorkerPool(() => manual.worker, 1)
+
+    const running = pool.run(simulateJob)
+    const queued = pool.run(simulateJob)
+    pool.terminate()
+
+    await expect(running).resolves.toEqual({ status: 'cancelled' })
+    await expect(queued).resolves.toEqual({ status: 'cancelled' })
+    expect(manual.worker.terminate).toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,289 @@
+/**
+ * Worker pool for simulation jobs
+ *
+ * Distributes jobs over a small number of Web Workers so long-running calculations do not block
+ * the UI. Jobs can be submitted with a key: a new job with the same key cancels the previous one
+ * (queued jobs are dropped, running jobs are stopped by terminating their worker), so only the
+ * result for the latest inputs is delivered.
+ */
+
+import {
+  handleSimulationWorkerRequest,
+  type SimulationJob,
+  type SimulationJobKind,
+  type SimulationJobProgressCallback,
+  type SimulationJobResult,
+  type SimulationWorkerRequest,
+  type SimulationWorkerResponse,
+} from './simulation-worker-protocol'
+
+/** Upper limit of workers, simulations are CPU-bound */
+const MAX_POOL_SIZE = 4
+
+/**
+ * The part of the Worker interface used by the pool
+ */
+export interface SimulationWorkerHandle {
+  postMessage: (request: SimulationWorkerRequest) => void
+  terminate: () => void
+  onmessage: ((event: { data: SimulationWorkerResponse }) => void) | null
+  onerror?: ((event: { message?: string }) => void) | null
+}
+
+export type SimulationWorkerFactory = () => SimulationWorkerHandle
+
+/**
+ * Outcome of a job: either its result or the information that it was cancelled
+ */
+export type SimulationJobOutcome<R> = { status: 'completed'; result: R } | { status: 'cancelled' }
+
+export interface RunSimulationJobOptions {
+  /** Jobs with the same key replace each other; submitting a new one cancels the stale one */
+  key?: string
+  /** Called with the progress of the job */
+  onProgress?: SimulationJobProgressCallback
+}
+
+interface PoolJob {
+  id: number
+  job: SimulationJob
+  key?: string
+  onProgress?: SimulationJobProgressCallback
+  resolve: (outcome: SimulationJobOutcome<SimulationJobResult>) => void
+  reject: (error: Error) => void
+}
+
+export class SimulationWorkerPool {
+  private readonly idleWorkers: SimulationWorkerHandle[] = []
+  private readonly queue: PoolJob[] = []
+  private readonly running = new Map<number, { job: PoolJob; worker: SimulationWorkerHandle }>()
+  private readonly latestJobByKey = new Map<string, number>()
+  private workerCount = 0
+  private nextJobId = 1
+
+  constructor(
+    private readonly createWorker: SimulationWorkerFactory,
+    private readonly maxWorkers: number,
+  ) {}
+
+  /**
+   * Submit a job to the pool
+   *
+   * @param job - The job to execute
+   * @param options - Key for replacing stale jobs and progress callback
+   * @returns The result of the job, or a cancelled outcome if it was replaced or cancelled
+   */
+  run<K extends SimulationJobKind>(
+    job: Extract<SimulationJob, { kind: K }>,
+    options: RunSimulationJobOptions = {},
+  ): Promise<SimulationJobOutcome<SimulationJobResult<K>>> {
+    if (options.key !== undefined) {
+      this.cancel(options.key)
+    }
+
+    return new Promise((resolve, reject) => {
+      const id = this.nextJobId++
+      if (options.key !== undefined) {
+        this.latestJobByKey.set(options.key, id)
+      }
+      this.queue.push({
+        id,
+        job,
+        key: options.key,
+        onProgress: options.onProgress,
+        resolve: resolve as PoolJob['resolve'],
+        reject,
+      })
+      this.dispatch()
+    })
+  }
+
+  /**
+   * Cancel the queued or running job with the given key
+   */
+  cancel(key: string): void {
+    const jobId = this.latestJobByKey.get(key)
+    if (jobId === undefined) {
+      return
+    }
+
+    const queueIndex = this.queue.findIndex(job => job.id === jobId)
+    if (queueIndex >= 0) {
+      const [job] = this.queue.splice(queueIndex, 1)
+      this.finishJob(job)
+      job.resolve({ status: 'cancelled' })
+      return
+    }
+
+    const entry = this.running.get(jobId)
+    if (entry) {
+      // Synchronous calculations cannot be interrupted, so the worker is replaced
+      this.discardWorker(entry.worker)
+      this.running.delete(jobId)
+      this.finishJob(entry.job)
+      entry.job.resolve({ status: 'cancelled' })
+      this.dispatch()
+    }
+  }
+
+  /**
+   * Cancel all jobs and stop all workers
+   */
+  terminate(): void {
+    this.queue.splice(0).forEach(job => job.resolve({ status: 'cancelled' }))
+    this.running.forEach(({ job, worker }) => {
+      worker.terminate()
+      job.resolve({ status: 'cancelled' })
+    })
+    this.running.clear()
+    this.idleWorkers.splice(0).forEach(worker => worker.terminate())
+    this.latestJobByKey.clear()
+    this.workerCount = 0
+  }
+
+  /** Number of jobs waiting for a free worker */
+  get queuedJobs(): number {
+    return this.queue.length
+  }
+
+  /** Number of jobs currently executed by a worker */
+  get runningJobs(): number {
+    return this.running.size
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      const worker = this.acquireWorker()
+      if (!worker) {
+        return
+      }
+      const job = this.queue.shift()!
+      this.running.set(job.id, { job, worker })
+      worker.postMessage({ type: 'run', jobId: job.id, job: job.job })
+    }
+  }
+
+  private acquireWorker(): SimulationWorkerHandle | undefined {
+    const idleWorker = this.idleWorkers.pop()
+    if (idleWorker || this.workerCount >= this.maxWorkers) {
+      return idleWorker
+    }
+
+    const worker = this.createWorker()
+    this.workerCount++
+    worker.onmessage = event => this.handleResponse(worker, event.data)
+    worker.onerror = event => this.handleWorkerError(worker, event.message ?? 'Simulation worker failed')
+    return worker
+  }
+
+  private handleResponse(worker: SimulationWorkerHandle, response: SimulationWorkerResponse): void {
+    const entry = this.running.get(response.jobId)
+    if (!entry || entry.worker !== worker) {
+      return
+    }
+
+    if (response.type === 'progress') {
+      entry.job.onProgress?.(response.completed, response.total)
+      return
+    }
+
+    this.running.delete(response.jobId)
+    this.finishJob(entry.job)
+    this.idleWorkers.push(worker)
+
+    if (response.type === 'result') {
+      entry.job.resolve({ status: 'completed', result: response.result })
+    } else {
+      entry.job.reject(new Error(response.message))
+    }
+    this.dispatch()
+  }
+
+  private handleWorkerError(worker: SimulationWorkerHandle, message: string): void {
+    this.discardWorker(worker)
+    this.running.forEach((entry, jobId) => {
+      if (entry.worker === worker) {
+        this.running.delete(jobId)
+        this.finishJob(entry.job)
+        entry.job.reject(new Error(message))
+      }
+    })
+    this.dispatch()
+  }
+
+  private discardWorker(worker: SimulationWorkerHandle): void {
+    worker.onmessage = null
+    worker.onerror = null
+    worker.terminate()
+    this.workerCount--
+  }
+
+  private finishJob(job: PoolJob): void {
+    if (job.key !== undefined && this.latestJobByKey.get(job.key) === job.id) {
+      this.latestJobByKey.delete(job.key)
+    }
+  }
+}
+
+/**
+ * Create a worker that executes jobs on the main thread.
+ * Used where Web Workers are not available (e.g. tests or server-side rendering).
+ */
+export function createInlineSimulationWorker(): SimulationWorkerHandle {
+  let terminated = false
+
+  const worker: SimulationWorkerHandle = {
+    onmessage: null,
+    postMessage: request => {
+      void Promise.resolve().then(() => {
+        if (terminated) {
+          return
+        }
+        handleSimulationWorkerRequest(request, response => {
+          if (!terminated) {
+            worker.onmessage?.({ data: response })
+          }
+        })
+      })
+    },
+    terminate: () => {
+      terminated = true
+    },
+  }
+
+  return worker
+}
+
+/**
+ * Create Web Workers if supported, otherwise inline workers
+ */
+function createDefaultWorkerFactory(): SimulationWorkerFactory {
+  if (typeof Worker === 'undefined') {
+    return createInlineSimulationWorker
+  }
+
+  return () =>
+    new Worker(new URL('./simulation.worker.ts', import.meta.url), {
+      type: 'module',
+    }) as unknown as SimulationWorkerHandle
+}
+
+/**
+ * Leave one core for the UI thread
+ */
+function getDefaultPoolSize(): number {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2
+  return Math.max(1, Math.min(MAX_POOL_SIZE, cores - 1))
+}
+
+let sharedPool: SimulationWorkerPool | null = null
+
+/**
+ * Get the worker pool shared by all simulations of the application
+ */
+export function getSimulationWorkerPool(): SimulationWorkerPool {
+  if (!sharedPool) {
+    sharedPool = new SimulationWorkerPool(createDefaultWorkerFactory(), getDefaultPoolSize())
+  }
+  return sharedPool
+}
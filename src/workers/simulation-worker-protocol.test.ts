@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest'
+import {
+  executeSimulationJob,
+  handleSimulationWorkerRequest,
+  type SerializableSensitivityAnalysisConfig,
+  type SerializableSimulateOptions,
+  type SimulationWorkerResponse,
+} from './simulation-worker-protocol'
+import { simulate } from '../utils/simulate'
+import type { SparplanElement } from '../utils/sparplan-utils'
+import type { WithdrawalResult } from '../../helpers/withdrawal'
+import type { RollingHistoricalBacktestResult } from '../utils/rolling-historical-backtest'
+import { SENSITIVITY_PARAMETERS, type SensitivityAnalysisResults } from '../utils/sensitivity-analysis'
+
+const createOptions = (): SerializableSimulateOptions => ({
+  startYear: 2025,
+  endYear: 2035,
+  elements: [{ type: 'sparplan', start: '2025-01-01', einzahlung: 6000, simulation: {} }],
+  returnConfig: { mode: 'fixed', fixedRate: 0.06 },
+  steuerlast: 0.26375,
+  teilfreistellungsquote: 0.3,
+  simulationAnnual: 'yearly',
+  freibetragPerYear: { 2025: 2000 },
+})
+
+describe('simulation-worker-protocol', () => {
+  describe('executeSimulationJob', () => {
+    it('should produce the same result as simulate on the main thread', () => {
+      const options = createOptions()
+      const result = executeSimulationJob({ kind: 'simulate', options: structuredClone(options) })
+
+      expect(result).toEqual(simulate(options))
+    })
+
+    it('should run the withdrawal calculation', () => {
+      const elements = simulate(createOptions())
+      const result = executeSimulationJob({
+        kind: 'withdrawal',
+        params: {
+          elements: structuredClone(elements),
+          startYear: 2036,
+          endYear: 2040,
+          strategy: '4prozent',
+          returnConfig: { mode: 'fixed', fixedRate: 0.05 },
+        },
+      }) as WithdrawalResult
+
+      expect(Object.keys(result).map(Number)).toEqual([2036, 2037, 2038, 2039, 2040])
+    })
+
+    it('should run the rolling backtest with progress per start year', () => {
+      const progress: number[] = []
+      const result = executeSimulationJob(
+        { kind: 'rollingBacktest', config: { indexId: 'msci-world', savingsPhase: createOptions() } },
+        completed => progress.push(completed),
+      ) as RollingHistoricalBacktestResult
+
+      expect(result.runs).toHaveLength(progress.length)
+      expect(result.years[0]).toBe(2025)
+    })
+
+    it('should run the sensitivity analysis of all parameters with progress per parameter', () => {
+      const config: SerializableSensitivityAnalysisConfig = {
+        startYear: 2025,
+        endYear: 2035,
+        elements: [{ type: 'sparplan', start: '2025-01-01', einzahlung: 6000, simulation: {} }],
+        steuerlast: 0.26375,
+        teilfreistellungsquote: 0.3,
+        simulationAnnual: 'yearly',
+      }
+      const progress: number[] = []
+      const result = executeSimulationJob(
+        { kind: 'sensitivity', config: structuredClone(config), returnConfig: { mode: 'fixed', fixedRate: 0.05 } },
+        completed => progress.push(completed),
+      ) as SensitivityAnalysisResults
+
+      expect(progress).toEqual([1, 2, 3, 4, 5])
+      expect([...result.results.keys()]).toEqual(Object.keys(SENSITIVITY_PARAMETERS))
+      expect(result.baseResults.get('returnRate')?.parameterValue).toBe(5)
+    })
+  })
+
+  describe('handleSimulationWorkerRequest', () => {
+    it('should post progress and the result for the job id', () => {
+      const responses: SimulationWorkerResponse[] = []
+
+      handleSimulationWorkerRequest(
+        { type: 'run', jobId: 7, job: { kind: 'simulate', options: createOptions() } },
+        response => responses.push(response),
+      )
+
+      expect(responses.map(response => response.type)).toEqual(['progress', 'result'])
+      expect(responses.every(response => response.jobId === 7)).toBe(true)
+      const result = responses[1].type === 'result' ? (responses[1].result as SparplanElement[]) : []
+      expect(result[0].simulation[2035].endkapital).toBeGreaterThan(0)
+    })
+
+    it('should post an error message when the job fails', () => {
+      const responses: SimulationWorkerResponse[] = []
+      const options = { ...createOptions(), elements: null as never }
+
+      handleSimulationWorkerRequest({ type: 'run', jobId: 3, job: { kind: 'simulate', options } }, response =>
+        responses.push(response),
+      )
+
+      expect(responses).toHaveLength(1)
+      expect(responses[0]).toMatchObject({ type: 'error', jobId: 3 })
+    })
+  })
+})
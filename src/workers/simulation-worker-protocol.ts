@@ -0,0 +1,145 @@
+/**
+ * Message protocol between the main thread and the simulation workers
+ *
+ * Jobs only carry structured-cloneable data: the options of simulate, the parameters of
+ * calculateWithdrawal, the Monte Carlo, rolling backtest and sensitivity analysis configuration are plain objects
+ * without functions, so they can be posted to a worker unchanged. The same executeSimulationJob function runs inside
+ * the worker and in the inline fallback used where Web Workers are unavailable (tests, SSR).
+ */
+
+import { simulate, type SimulateOptions } from '../utils/simulate'
+import type { SparplanElement } from '../utils/sparplan-utils'
+import {
+  runMonteCarloSimulation,
+  type MonteCarloSimulationConfig,
+  type MonteCarloSimulationResult,
+} from '../utils/monte-carlo-simulation'
+import {
+  runRollingHistoricalBacktest,
+  type RollingHistoricalBacktestConfig,
+  type RollingHistoricalBacktestResult,
+} from '../utils/rolling-historical-backtest'
+import {
+  runFullSensitivityAnalysis,
+  type SensitivityAnalysisConfig,
+  type SensitivityAnalysisResults,
+} from '../utils/sensitivity-analysis'
+import type { ReturnConfiguration } from '../utils/random-returns'
+import { calculateWithdrawal, type CalculateWithdrawalParams, type WithdrawalResult } from '../../helpers/withdrawal'
+
+/**
+ * Type that only allows data which survives structured cloning (no functions, dates are kept)
+ */
+export type Serializable<T> = T extends (...args: never[]) => unknown
+  ? never
+  : T extends Date
+    ? T
+    : T extends object
+      ? { [K in keyof T]: Serializable<T[K]> }
+      : T
+
+export type SerializableSimulateOptions = Serializable<SimulateOptions>
+export type SerializableWithdrawalParams = Serializable<CalculateWithdrawalParams>
+export type SerializableMonteCarloConfig = Serializable<MonteCarloSimulationConfig>
+export type SerializableRollingBacktestConfig = Serializable<RollingHistoricalBacktestConfig>
+export type SerializableSensitivityAnalysisConfig = Serializable<SensitivityAnalysisConfig>
+
+/**
+ * Jobs that can be executed by a simulation worker
+ */
+export type SimulationJob =
+  | { kind: 'simulate'; options: SerializableSimulateOptions }
+  | { kind: 'withdrawal'; params: SerializableWithdrawalParams }
+  | { kind: 'monteCarlo'; config: SerializableMonteCarloConfig }
+  | { kind: 'rollingBacktest'; config: SerializableRollingBacktestConfig }
+  | {
+      kind: 'sensitivity'
+      config: SerializableSensitivityAnalysisConfig
+      returnConfig: Serializable<ReturnConfiguration>
+    }
+
+/**
+ * Result type for each job kind
+ */
+export interface SimulationJobResults {
+  simulate: SparplanElement[]
+  withdrawal: WithdrawalResult
+  monteCarlo: MonteCarloSimulationResult
+  rollingBacktest: RollingHistoricalBacktestResult
+  sensitivity: SensitivityAnalysisResults
+}
+
+export type SimulationJobKind = SimulationJob['kind']
+export type SimulationJobResult<K extends SimulationJobKind = SimulationJobKind> = SimulationJobResults[K]
+
+/**
+ * Messages from the main thread to a worker
+ */
+export type SimulationWorkerRequest = { type: 'run'; jobId: number; job: SimulationJob }
+
+/**
+ * Messages from a worker to the main thread
+ */
+export type SimulationWorkerResponse =
+  | { type: 'progress'; jobId: number; completed: number; total: number }
+  | { type: 'result'; jobId: number; result: SimulationJobResult }
+  | { type: 'error'; jobId: number; message: string }
+
+/**
+ * Progress of a running job
+ */
+export type SimulationJobProgressCallback = (completed: number, total: number) => void
+
+/**
+ * Execute a simulation job
+ *
+ * @param job - The job to execute
+ * @param onProgress - Called while the job is running (Monte Carlo: after each run, rolling backtest: after
+ * each start year, sensitivity analysis: after each parameter)
+ * @returns The result of the job
+ */
+export function executeSimulationJob(
+  job: SimulationJob,
+  onProgress: SimulationJobProgressCallback = () => {},
+): SimulationJobResult {
+  switch (job.kind) {
+    case 'simulate': {
+      const result = simulate(job.options)
+      onProgress(1, 1)
+      return result
+    }
+    case 'withdrawal': {
+      const { result } = calculateWithdrawal(job.params)
+      onProgress(1, 1)
+      return result
+    }
+    case 'monteCarlo':
+      return runMonteCarloSimulation(job.config, onProgress)
+    case 'rollingBacktest':
+      return runRollingHistoricalBacktest(job.config, onProgress)
+    case 'sensitivity':
+      return runFullSensitivityAnalysis(job.config, job.returnConfig, onProgress)
+  }
+}
+
+/**
+ * Handle one request inside a worker and post progress, result or error messages
+ *
+ * @param request - Request from the main thread
+ * @param postMessage - Sends a response to the main thread
+ */
+export function handleSimulationWorkerRequest(
+  request: SimulationWorkerRequest,
+  postMessage: (response: SimulationWorkerResponse) => void,
+): void {
+  const { jobId, job } = request
+
+  try {
+    const result = executeSimulationJob(job, (completed, total) =>
+      postMessage({ type: 'progress', jobId, completed, total }),
+    )
+    postMessage({ type: 'result', jobId, result })
+  } catch (error) {
+    postMessage({ type: 'error', jobId, message: error instanceof Error ? error.message : String(error) })
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * Web Worker entry point for simulation jobs
+ */
+
+import {
+  handleSimulationWorkerRequest,
+  type SimulationWorkerRequest,
+  type SimulationWorkerResponse,
+} from './simulation-worker-protocol'
+
+/** Minimal view on the dedicated worker scope (the DOM lib does not include worker types) */
+const workerScope = self as unknown as {
+  onmessage: ((event: MessageEvent<SimulationWorkerRequest>) => void) | null
+  postMessage: (response: SimulationWorkerResponse) => void
+}
+
+workerScope.onmessage = event => {
+  handleSimulationWorkerRequest(event.data, response => workerScope.postMessage(response))
+}
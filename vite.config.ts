@@ -11,6 +11,10 @@ export default defineConfig({
       helpers: path.resolve(__dirname, './helpers'),
     },
   },
+  worker: {
+    // Module workers (simulation worker pool) share code-split chunks with the app
+    format: 'es',
+  },
   build: {
     rollupOptions: {
       output: {